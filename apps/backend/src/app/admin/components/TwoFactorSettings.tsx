@@ -0,0 +1,265 @@
+"use client";
+
+import { useAdminSession } from "@/lib/admin/useAdminSession";
+import type { TwoFactorSetupResponse, TwoFactorStatus } from "@basket-bot/core";
+import {
+    Anchor,
+    Badge,
+    Button,
+    Code,
+    Group,
+    Paper,
+    PasswordInput,
+    SimpleGrid,
+    Stack,
+    Text,
+    TextInput,
+} from "@mantine/core";
+import { useCallback, useEffect, useState } from "react";
+
+interface TwoFactorSettingsProps {
+    // Shown after setup finishes (e.g. to continue past the login page); without it the panel
+    // simply returns to the status view
+    onSetupComplete?: () => void;
+}
+
+/**
+ * Two-factor status for the signed-in admin, with setup (secret and otpauth:// link for the
+ * authenticator app), recovery code regeneration, and turning it off
+ */
+const TwoFactorSettings: React.FC<TwoFactorSettingsProps> = ({ onSetupComplete }) => {
+    const { accessToken, tryRefreshToken } = useAdminSession();
+    const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+    const [setup, setSetup] = useState<TwoFactorSetupResponse | null>(null);
+    const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+    const [code, setCode] = useState("");
+    const [password, setPassword] = useState("");
+    const [error, setError] = useState("");
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const authFetch = useCallback(
+        async (path: string, init?: { method: string; body?: unknown }) => {
+            const res = await fetch(path, {
+                method: init?.method ?? "GET",
+                headers: {
+                    "Content-Type": "application/json",
+                    Authorization: `Bearer ${accessToken}`,
+                },
+                body: init?.body === undefined ? undefined : JSON.stringify(init.body),
+            });
+            const data = await res.json();
+            if (!res.ok) {
+                throw new Error(data.message || "Request failed");
+            }
+            return data;
+        },
+        [accessToken]
+    );
+
+    const loadStatus = useCallback(async () => {
+        if (!accessToken) return;
+        try {
+            setStatus(await authFetch("/api/auth/two-factor"));
+        } catch (err) {
+            console.error("Error loading two-factor status:", err);
+        }
+    }, [accessToken, authFetch]);
+
+    useEffect(() => {
+        loadStatus();
+    }, [loadStatus]);
+
+    // Run an action, showing its error; the code field is cleared either way
+    const run = async (action: () => Promise<void>) => {
+        setError("");
+        setIsSubmitting(true);
+        try {
+            await action();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Request failed");
+        } finally {
+            setCode("");
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleBeginSetup = () =>
+        run(async () => {
+            setSetup(await authFetch("/api/auth/two-factor/setup", { method: "POST" }));
+        });
+
+    const handleEnable = () =>
+        run(async () => {
+            const data = await authFetch("/api/auth/two-factor/enable", {
+                method: "POST",
+                body: { code },
+            });
+            setSetup(null);
+            setRecoveryCodes(data.recoveryCodes);
+            // This session is now verified; a fresh access token carries the mfa claim
+            await tryRefreshToken();
+        });
+
+    const handleRegenerate = () =>
+        run(async () => {
+            const data = await authFetch("/api/auth/two-factor/recovery-codes", {
+                method: "POST",
+                body: { code },
+            });
+            setRecoveryCodes(data.recoveryCodes);
+        });
+
+    const handleDisable = () =>
+        run(async () => {
+            await authFetch("/api/auth/two-factor/disable", {
+                method: "POST",
+                body: { password, code },
+            });
+            setPassword("");
+            await loadStatus();
+        });
+
+    const handleRecoveryCodesSaved = () => {
+        setRecoveryCodes(null);
+        if (onSetupComplete) {
+            onSetupComplete();
+        } else {
+            loadStatus();
+        }
+    };
+
+    const errorText = error && (
+        <Text c="red" size="sm">
+            {error}
+        </Text>
+    );
+
+    const codeInput = (
+        <TextInput
+            label="Authentication code"
+            placeholder="6-digit code or recovery code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            disabled={isSubmitting}
+        />
+    );
+
+    if (recoveryCodes) {
+        return (
+            <Paper withBorder p="md">
+                <Stack>
+                    <Text fw={500}>Recovery codes</Text>
+                    <Text size="sm" c="dimmed">
+                        Each code signs you in once if you lose your authenticator app. Save them
+                        somewhere safe; they won&apos;t be shown again.
+                    </Text>
+                    <SimpleGrid cols={2}>
+                        {recoveryCodes.map((recoveryCode) => (
+                            <Code key={recoveryCode}>{recoveryCode}</Code>
+                        ))}
+                    </SimpleGrid>
+                    <Button onClick={handleRecoveryCodesSaved}>I saved these codes</Button>
+                </Stack>
+            </Paper>
+        );
+    }
+
+    if (setup) {
+        return (
+            <Paper withBorder p="md">
+                <Stack>
+                    <Text size="sm">
+                        Add this account to your authenticator app with the{" "}
+                        <Anchor href={setup.provisioningUri}>setup link</Anchor>, or enter the key
+                        by hand:
+                    </Text>
+                    <Code block>{setup.secret}</Code>
+                    <TextInput
+                        label="Code from the app"
+                        placeholder="123456"
+                        value={code}
+                        onChange={(e) => setCode(e.target.value)}
+                        disabled={isSubmitting}
+                    />
+                    {errorText}
+                    <Group>
+                        <Button onClick={handleEnable} loading={isSubmitting}>
+                            Turn on
+                        </Button>
+                        <Button variant="outline" onClick={() => setSetup(null)}>
+                            Cancel
+                        </Button>
+                    </Group>
+                </Stack>
+            </Paper>
+        );
+    }
+
+    if (!status) {
+        return null;
+    }
+
+    return (
+        <Paper withBorder p="md">
+            <Stack>
+                <Group>
+                    <Badge color={status.enabled ? "green" : "gray"}>
+                        {status.enabled ? "On" : "Off"}
+                    </Badge>
+                    {status.required && <Badge color="violet">Required for admins</Badge>}
+                </Group>
+
+                {status.enabled ? (
+                    <>
+                        <Text size="sm" c="dimmed">
+                            {status.recoveryCodesRemaining} recovery codes left
+                        </Text>
+                        {codeInput}
+                        {!status.required && (
+                            <PasswordInput
+                                label="Password (to turn off)"
+                                value={password}
+                                onChange={(e) => setPassword(e.target.value)}
+                                disabled={isSubmitting}
+                            />
+                        )}
+                        {errorText}
+                        <Group>
+                            <Button
+                                variant="light"
+                                onClick={handleRegenerate}
+                                loading={isSubmitting}
+                            >
+                                New recovery codes
+                            </Button>
+                            {!status.required && (
+                                <Button
+                                    color="red"
+                                    variant="outline"
+                                    onClick={handleDisable}
+                                    loading={isSubmitting}
+                                >
+                                    Turn off
+                                </Button>
+                            )}
+                        </Group>
+                    </>
+                ) : (
+                    <>
+                        <Text size="sm" c="dimmed">
+                            {status.required
+                                ? "Admin APIs need two-factor authentication. Set it up to continue."
+                                : "Sign-ins will also ask for a code from an authenticator app."}
+                        </Text>
+                        {errorText}
+                        <Button onClick={handleBeginSetup} loading={isSubmitting}>
+                            Set up two-factor authentication
+                        </Button>
+                    </>
+                )}
+            </Stack>
+        </Paper>
+    );
+};
+
+export default TwoFactorSettings;
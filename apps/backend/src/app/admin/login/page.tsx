@@ -1,7 +1,9 @@
 "use client";
 
+import type { AdminLoginResult } from "@/lib/admin/AdminSessionContext";
 import { useAdminSession } from "@/lib/admin/useAdminSession";
 import {
+    Box,
     Button,
     Container,
     Paper,
@@ -13,23 +15,39 @@ import {
 } from "@mantine/core";
 import { useRouter } from "next/navigation";
 import { useState } from "react";
+import TwoFactorSettings from "../components/TwoFactorSettings";
 
 const AdminLoginPage: React.FC = () => {
     const router = useRouter();
-    const { login } = useAdminSession();
+    const { login, completeTwoFactorLogin } = useAdminSession();
     const [email, setEmail] = useState("");
     const [password, setPassword] = useState("");
+    const [code, setCode] = useState("");
+    const [challengeToken, setChallengeToken] = useState<string | null>(null);
+    const [needsTwoFactorSetup, setNeedsTwoFactorSetup] = useState(false);
     const [error, setError] = useState("");
     const [isLoading, setIsLoading] = useState(false);
 
+    const handleLoginResult = (result: AdminLoginResult) => {
+        if (result.status === "twoFactorRequired") {
+            setChallengeToken(result.challengeToken);
+        } else if (result.status === "twoFactorSetupRequired") {
+            setNeedsTwoFactorSetup(true);
+        } else {
+            router.push("/admin");
+        }
+    };
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setError("");
         setIsLoading(true);
 
         try {
-            await login(email, password);
-            router.push("/admin");
+            const result = challengeToken
+                ? await completeTwoFactorLogin(challengeToken, code)
+                : await login(email, password);
+            handleLoginResult(result);
         } catch (err) {
             setError(err instanceof Error ? err.message : "Login failed");
         } finally {
@@ -43,39 +61,72 @@ const AdminLoginPage: React.FC = () => {
                 Admin Portal
             </Title>
             <Text c="dimmed" size="sm" ta="center" mt={5}>
-                Sign in with your admin account
+                {needsTwoFactorSetup
+                    ? "Admin accounts need two-factor authentication"
+                    : "Sign in with your admin account"}
             </Text>
 
-            <Paper withBorder shadow="md" p={30} mt={30} radius="md">
-                <form onSubmit={handleSubmit}>
-                    <Stack>
-                        <TextInput
-                            label="Email"
-                            placeholder="admin@example.com"
-                            required
-                            value={email}
-                            onChange={(e) => setEmail(e.target.value)}
-                            disabled={isLoading}
-                        />
-                        <PasswordInput
-                            label="Password"
-                            placeholder="Your password"
-                            required
-                            value={password}
-                            onChange={(e) => setPassword(e.target.value)}
-                            disabled={isLoading}
-                        />
-                        {error && (
-                            <Text c="red" size="sm">
-                                {error}
-                            </Text>
-                        )}
-                        <Button type="submit" fullWidth loading={isLoading}>
-                            Sign in
-                        </Button>
-                    </Stack>
-                </form>
-            </Paper>
+            {needsTwoFactorSetup ? (
+                <Box mt={30}>
+                    <TwoFactorSettings onSetupComplete={() => router.push("/admin")} />
+                </Box>
+            ) : challengeToken ? (
+                <Paper withBorder shadow="md" p={30} mt={30} radius="md">
+                    <form onSubmit={handleSubmit}>
+                        <Stack>
+                            <TextInput
+                                label="Authentication code"
+                                description="From your authenticator app, or a recovery code"
+                                placeholder="123456"
+                                required
+                                autoFocus
+                                value={code}
+                                onChange={(e) => setCode(e.target.value)}
+                                disabled={isLoading}
+                            />
+                            {error && (
+                                <Text c="red" size="sm">
+                                    {error}
+                                </Text>
+                            )}
+                            <Button type="submit" fullWidth loading={isLoading}>
+                                Verify
+                            </Button>
+                        </Stack>
+                    </form>
+                </Paper>
+            ) : (
+                <Paper withBorder shadow="md" p={30} mt={30} radius="md">
+                    <form onSubmit={handleSubmit}>
+                        <Stack>
+                            <TextInput
+                                label="Email"
+                                placeholder="admin@example.com"
+                                required
+                                value={email}
+                                onChange={(e) => setEmail(e.target.value)}
+                                disabled={isLoading}
+                            />
+                            <PasswordInput
+                                label="Password"
+                                placeholder="Your password"
+                                required
+                                value={password}
+                                onChange={(e) => setPassword(e.target.value)}
+                                disabled={isLoading}
+                            />
+                            {error && (
+                                <Text c="red" size="sm">
+                                    {error}
+                                </Text>
+                            )}
+                            <Button type="submit" fullWidth loading={isLoading}>
+                                Sign in
+                            </Button>
+                        </Stack>
+                    </form>
+                </Paper>
+            )}
         </Container>
     );
 };
@@ -3,6 +3,7 @@
 import { useAdminSession } from "@/lib/admin/useAdminSession";
 import type { AppSetting } from "@basket-bot/core";
 import {
+    Box,
     Button,
     Container,
     Grid,
@@ -16,6 +17,7 @@ import {
 } from "@mantine/core";
 import Link from "next/link";
 import { useEffect, useState } from "react";
+import TwoFactorSettings from "./components/TwoFactorSettings";
 
 interface SystemStats {
     userCount: number;
@@ -193,6 +195,14 @@ const AdminDashboardPage: React.FC = () => {
                 </Grid.Col>
             </Grid>
 
+            {/* Two-factor authentication */}
+            <Title order={2} mb="md">
+                Two-Factor Authentication
+            </Title>
+            <Box mb="xl">
+                <TwoFactorSettings />
+            </Box>
+
             {/* Settings */}
             <Title order={2} mb="md">
                 Application Settings
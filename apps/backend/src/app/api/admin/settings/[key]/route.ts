@@ -1,4 +1,5 @@
 import { withAuth } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
 import { getAppSetting, setAppSetting } from "@/lib/repos/referenceRepo";
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
@@ -8,31 +9,37 @@ const updateSettingSchema = z.object({
 });
 
 export const PUT = withAuth(
-    async (req: NextRequest, { params }: { params: Promise<Record<string, string>> }) => {
-        try {
-            const resolvedParams = await params;
-            const key = resolvedParams.key;
-            const body = await req.json();
-            const { value } = updateSettingSchema.parse(body);
+    withIdempotency(
+        async (req: NextRequest, { params }: { params: Promise<Record<string, string>> }) => {
+            try {
+                const resolvedParams = await params;
+                const key = resolvedParams.key;
+                const body = await req.json();
+                const { value } = updateSettingSchema.parse(body);
 
-            setAppSetting(key, value);
-            const updated = getAppSetting(key);
+                setAppSetting(key, value);
+                const updated = getAppSetting(key);
 
-            return NextResponse.json({ setting: updated });
-        } catch (error) {
-            if (error instanceof z.ZodError) {
+                return NextResponse.json({ setting: updated });
+            } catch (error) {
+                if (error instanceof z.ZodError) {
+                    return NextResponse.json(
+                        {
+                            code: "VALIDATION_ERROR",
+                            message: "Invalid request",
+                            details: error.errors,
+                        },
+                        { status: 400 }
+                    );
+                }
+
+                console.error("Error updating setting:", error);
                 return NextResponse.json(
-                    { code: "VALIDATION_ERROR", message: "Invalid request", details: error.errors },
-                    { status: 400 }
+                    { code: "INTERNAL_ERROR", message: "Failed to update setting" },
+                    { status: 500 }
                 );
             }
-
-            console.error("Error updating setting:", error);
-            return NextResponse.json(
-                { code: "INTERNAL_ERROR", message: "Failed to update setting" },
-                { status: 500 }
-            );
         }
-    },
+    ),
     { requireScopes: ["admin"] }
 );
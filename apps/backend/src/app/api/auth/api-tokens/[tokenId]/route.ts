@@ -0,0 +1,35 @@
+import { AuthenticatedRequest, withAuth } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
+import * as apiTokenService from "@/lib/services/apiTokenService";
+import { NextResponse } from "next/server";
+
+/**
+ * DELETE /api/auth/api-tokens/[tokenId]
+ * Revoke a token; requests made with it fail right away
+ */
+async function handleDelete(
+    req: AuthenticatedRequest,
+    { params }: { params: Promise<Record<string, string>> }
+) {
+    try {
+        const { tokenId } = await params;
+        const deleted = apiTokenService.deleteApiToken(tokenId, req.auth.sub);
+
+        if (!deleted) {
+            return NextResponse.json(
+                { code: "NOT_FOUND", message: "API token not found" },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error: any) {
+        console.error("Error revoking API token:", error);
+        return NextResponse.json(
+            { code: "INTERNAL_ERROR", message: "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
+
+export const DELETE = withAuth(withIdempotency(handleDelete));
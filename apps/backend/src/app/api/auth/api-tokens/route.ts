@@ -0,0 +1,68 @@
+import { AuthenticatedRequest, withAuth } from "@/lib/auth/withAuth";
+import * as apiTokenService from "@/lib/services/apiTokenService";
+import { createApiTokenRequestSchema } from "@basket-bot/core";
+import { NextResponse } from "next/server";
+
+/**
+ * GET /api/auth/api-tokens
+ * The user's personal API tokens, newest first (without their values)
+ */
+async function handleGet(req: AuthenticatedRequest) {
+    try {
+        const apiTokens = apiTokenService.listApiTokens(req.auth.sub);
+        return NextResponse.json({ apiTokens });
+    } catch (error: any) {
+        console.error("Error listing API tokens:", error);
+        return NextResponse.json(
+            { code: "INTERNAL_ERROR", message: "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/auth/api-tokens
+ * Create a token: { name, scopes, storeIds, expiresInDays }. The response holds its value once.
+ * Deliberately not wrapped in withIdempotency: the replay store keeps responses as they are, so
+ * the token's value would sit readable in IdempotencyKey (ApiToken only keeps a hash). A retry
+ * after a lost response creates a second token; the unused one can be deleted from the list.
+ */
+async function handlePost(req: AuthenticatedRequest) {
+    try {
+        const body = await req.json();
+        const input = createApiTokenRequestSchema.parse(body);
+
+        const response = apiTokenService.createApiToken(req.auth.sub, input);
+        return NextResponse.json(response, { status: 201 });
+    } catch (error: any) {
+        if (error.message === "Access denied") {
+            return NextResponse.json(
+                { code: "ACCESS_DENIED", message: "Access denied" },
+                { status: 403 }
+            );
+        }
+        if (error.name === "ZodError") {
+            return NextResponse.json(
+                { code: "INVALID_INPUT", message: "Invalid input", details: error.errors },
+                { status: 400 }
+            );
+        }
+        if (error.message?.startsWith("VALIDATION_ERROR")) {
+            return NextResponse.json(
+                {
+                    code: "INVALID_INPUT",
+                    message: error.message.replace("VALIDATION_ERROR: ", ""),
+                },
+                { status: 400 }
+            );
+        }
+        console.error("Error creating API token:", error);
+        return NextResponse.json(
+            { code: "INTERNAL_ERROR", message: "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
+
+export const GET = withAuth(handleGet);
+export const POST = withAuth(handlePost);
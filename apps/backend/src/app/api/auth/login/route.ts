@@ -1,21 +1,24 @@
-import { generateAccessToken, generateRefreshToken, getRefreshTokenExpiry } from "@/lib/auth/jwt";
+import { generateAccessToken } from "@/lib/auth/jwt";
 import { verifyPassword } from "@/lib/auth/password";
-import { checkRateLimit } from "@/lib/auth/rateLimiter";
+import { createRateLimiter } from "@/lib/auth/rateLimiter";
 import { db } from "@/lib/db/db";
-import { loginRequestSchema, LoginResponse } from "@basket-bot/core";
-import { randomUUID } from "crypto";
+import * as sessionService from "@/lib/services/sessionService";
+import * as twoFactorService from "@/lib/services/twoFactorService";
+import { loginRequestSchema, LoginResponse, TwoFactorChallengeResponse } from "@basket-bot/core";
 import { NextRequest, NextResponse } from "next/server";
 
+// Rate limit: 5 attempts per 15 minutes
+const rateLimiter = createRateLimiter(5, 15 * 60 * 1000);
+
 export async function POST(req: NextRequest) {
-    // Rate limit: 5 attempts per 15 minutes
-    const rateLimitResponse = await checkRateLimit(req, 5, 15 * 60 * 1000);
+    const rateLimitResponse = await rateLimiter(req);
     if (rateLimitResponse) {
         return rateLimitResponse;
     }
 
     try {
         const body = await req.json();
-        const { email, password } = loginRequestSchema.parse(body);
+        const { email, password, deviceName } = loginRequestSchema.parse(body);
 
         // Find user
         const user = db.prepare("SELECT * FROM User WHERE email = ?").get(email) as any;
@@ -35,26 +38,31 @@ export async function POST(req: NextRequest) {
             );
         }
 
+        // With two-factor on, the password only earns a challenge; the code is checked at
+        // /api/auth/login/two-factor
+        if (twoFactorService.isTwoFactorEnabled(user.id)) {
+            const response: TwoFactorChallengeResponse = {
+                twoFactorRequired: true,
+                challengeToken: twoFactorService.startLogin(user.id, deviceName),
+            };
+            return NextResponse.json(response);
+        }
+
         // Parse scopes
         const scopes = user.scopes ? user.scopes.split(",").filter(Boolean) : [];
 
-        // Generate tokens
+        // Start a device session and generate its tokens
+        const { sessionId, refreshToken } = sessionService.startSession({
+            userId: user.id,
+            deviceName,
+            userAgent: req.headers.get("user-agent"),
+        });
         const accessToken = generateAccessToken({
             userId: user.id,
             email: user.email,
             scopes,
+            sessionId,
         });
-        const refreshToken = generateRefreshToken();
-
-        // Store refresh token
-        const tokenId = randomUUID();
-        const expiresAt = getRefreshTokenExpiry();
-        db.prepare(
-            `
-            INSERT INTO RefreshToken (id, userId, token, expiresAt, createdAt)
-            VALUES (?, ?, ?, ?, datetime('now'))
-        `
-        ).run(tokenId, user.id, refreshToken, expiresAt.toISOString());
 
         const response: LoginResponse = {
             accessToken,
@@ -0,0 +1,83 @@
+import { generateAccessToken } from "@/lib/auth/jwt";
+import { createRateLimiter } from "@/lib/auth/rateLimiter";
+import * as userRepo from "@/lib/repos/userRepo";
+import * as sessionService from "@/lib/services/sessionService";
+import * as twoFactorService from "@/lib/services/twoFactorService";
+import { LoginResponse, TwoFactorError, twoFactorLoginRequestSchema } from "@basket-bot/core";
+import { NextRequest, NextResponse } from "next/server";
+
+// Rate limit: 5 attempts per 15 minutes
+const rateLimiter = createRateLimiter(5, 15 * 60 * 1000);
+
+/**
+ * POST /api/auth/login/two-factor
+ * Second login step for accounts with two-factor on: the challenge token from /api/auth/login
+ * plus an authenticator or recovery code
+ */
+export async function POST(req: NextRequest) {
+    const rateLimitResponse = await rateLimiter(req);
+    if (rateLimitResponse) {
+        return rateLimitResponse;
+    }
+
+    try {
+        const body = await req.json();
+        const { challengeToken, code } = twoFactorLoginRequestSchema.parse(body);
+
+        const { userId, deviceName } = twoFactorService.completeLogin(challengeToken, code);
+        const user = userRepo.getUserById(userId);
+        if (!user) {
+            return NextResponse.json(
+                { code: "AUTHENTICATION_FAILED", message: "Invalid credentials" },
+                { status: 401 }
+            );
+        }
+
+        // Start a device session and generate its tokens
+        const { sessionId, refreshToken } = sessionService.startSession({
+            userId: user.id,
+            deviceName,
+            userAgent: req.headers.get("user-agent"),
+            twoFactorVerified: true,
+        });
+        const accessToken = generateAccessToken({
+            userId: user.id,
+            email: user.email,
+            scopes: user.scopes,
+            sessionId,
+            twoFactorVerified: true,
+        });
+
+        const response: LoginResponse = {
+            accessToken,
+            refreshToken,
+            user: {
+                id: user.id,
+                email: user.email,
+                name: user.name,
+                scopes: user.scopes,
+            },
+        };
+
+        return NextResponse.json(response);
+    } catch (error: any) {
+        if (error instanceof TwoFactorError) {
+            return NextResponse.json({ code: error.code, message: error.message }, { status: 401 });
+        }
+        if (error.name === "ZodError") {
+            return NextResponse.json(
+                {
+                    code: "VALIDATION_ERROR",
+                    message: "Invalid request data",
+                    details: error.errors,
+                },
+                { status: 400 }
+            );
+        }
+        console.error("Two-factor login error:", error);
+        return NextResponse.json(
+            { code: "INTERNAL_ERROR", message: "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
@@ -1,5 +1,6 @@
 import { withAuth } from "@/lib/auth/withAuth";
-import { db } from "@/lib/db/db";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
+import * as sessionService from "@/lib/services/sessionService";
 import { NextResponse } from "next/server";
 import { z } from "zod";
 
@@ -7,33 +8,28 @@ const logoutRequestSchema = z.object({
     refreshToken: z.string(),
 });
 
-export const POST = withAuth(async (req) => {
-    try {
-        const body = await req.json();
-        const { refreshToken } = logoutRequestSchema.parse(body);
+export const POST = withAuth(
+    withIdempotency(async (req) => {
+        try {
+            const body = await req.json();
+            const { refreshToken } = logoutRequestSchema.parse(body);
 
-        // Delete the refresh token
-        const result = db
-            .prepare(`DELETE FROM RefreshToken WHERE token = ? AND userId = ?`)
-            .run(refreshToken, req.auth.sub);
+            // End the session the refresh token belongs to (unknown tokens still succeed)
+            sessionService.endSession(refreshToken, req.auth.sub);
 
-        if (result.changes === 0) {
-            // Token doesn't exist - still return success
             return NextResponse.json({ message: "Logged out successfully" });
-        }
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return NextResponse.json(
+                    { code: "VALIDATION_ERROR", message: "Invalid request body" },
+                    { status: 400 }
+                );
+            }
 
-        return NextResponse.json({ message: "Logged out successfully" });
-    } catch (error) {
-        if (error instanceof z.ZodError) {
             return NextResponse.json(
-                { code: "VALIDATION_ERROR", message: "Invalid request body" },
-                { status: 400 }
+                { code: "INTERNAL_ERROR", message: "Failed to logout" },
+                { status: 500 }
             );
         }
-
-        return NextResponse.json(
-            { code: "INTERNAL_ERROR", message: "Failed to logout" },
-            { status: 500 }
-        );
-    }
-});
+    })
+);
@@ -0,0 +1,46 @@
+import { createRateLimiter } from "@/lib/auth/rateLimiter";
+import * as passwordResetService from "@/lib/services/passwordResetService";
+import { PasswordResetTokenError, passwordResetConfirmSchema } from "@basket-bot/core";
+import { NextRequest, NextResponse } from "next/server";
+
+// Rate limit: 5 attempts per 15 minutes
+const rateLimiter = createRateLimiter(5, 15 * 60 * 1000);
+
+/**
+ * POST /api/auth/password-reset/confirm
+ * Set a new password with an emailed reset code; every session of the account is signed out
+ */
+export async function POST(req: NextRequest) {
+    const rateLimitResponse = await rateLimiter(req);
+    if (rateLimitResponse) {
+        return rateLimitResponse;
+    }
+
+    try {
+        const body = await req.json();
+        const { token, newPassword } = passwordResetConfirmSchema.parse(body);
+
+        await passwordResetService.confirmPasswordReset(token, newPassword);
+
+        return NextResponse.json({ success: true });
+    } catch (error: any) {
+        if (error instanceof PasswordResetTokenError) {
+            return NextResponse.json({ code: error.code, message: error.message }, { status: 400 });
+        }
+        if (error.name === "ZodError") {
+            return NextResponse.json(
+                {
+                    code: "VALIDATION_ERROR",
+                    message: "Invalid request data",
+                    details: error.errors,
+                },
+                { status: 400 }
+            );
+        }
+        console.error("Password reset confirm error:", error);
+        return NextResponse.json(
+            { code: "INTERNAL_ERROR", message: "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,44 @@
+import { createRateLimiter } from "@/lib/auth/rateLimiter";
+import * as passwordResetService from "@/lib/services/passwordResetService";
+import { passwordResetRequestSchema } from "@basket-bot/core";
+import { NextRequest, NextResponse } from "next/server";
+
+// Rate limit: 3 attempts per hour
+const rateLimiter = createRateLimiter(3, 60 * 60 * 1000);
+
+/**
+ * POST /api/auth/password-reset/request
+ * Email a password reset code. Succeeds whether or not the account exists, so the response
+ * can't be used to find out which emails are registered.
+ */
+export async function POST(req: NextRequest) {
+    const rateLimitResponse = await rateLimiter(req);
+    if (rateLimitResponse) {
+        return rateLimitResponse;
+    }
+
+    try {
+        const body = await req.json();
+        const { email } = passwordResetRequestSchema.parse(body);
+
+        passwordResetService.requestPasswordReset(email);
+
+        return NextResponse.json({ success: true });
+    } catch (error: any) {
+        if (error.name === "ZodError") {
+            return NextResponse.json(
+                {
+                    code: "VALIDATION_ERROR",
+                    message: "Invalid request data",
+                    details: error.errors,
+                },
+                { status: 400 }
+            );
+        }
+        console.error("Password reset request error:", error);
+        return NextResponse.json(
+            { code: "INTERNAL_ERROR", message: "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
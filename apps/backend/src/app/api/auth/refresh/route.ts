@@ -1,6 +1,7 @@
 import { generateAccessToken } from "@/lib/auth/jwt";
-import { db } from "@/lib/db/db";
-import { LoginResponse, refreshTokenRequestSchema } from "@basket-bot/core";
+import * as userRepo from "@/lib/repos/userRepo";
+import * as sessionService from "@/lib/services/sessionService";
+import { LoginResponse, RefreshTokenError, refreshTokenRequestSchema } from "@basket-bot/core";
 import { NextRequest, NextResponse } from "next/server";
 
 export async function POST(req: NextRequest) {
@@ -8,59 +9,42 @@ export async function POST(req: NextRequest) {
         const body = await req.json();
         const { refreshToken } = refreshTokenRequestSchema.parse(body);
 
-        // Find refresh token
-        const tokenRow = db
-            .prepare(
-                `SELECT rt.id, rt.userId, rt.expiresAt, u.id as userId, u.email, u.name, u.scopes
-                 FROM RefreshToken rt
-                 JOIN User u ON rt.userId = u.id
-                 WHERE rt.token = ?`
-            )
-            .get(refreshToken) as any;
+        // Replace the refresh token; the one presented stops working
+        const session = sessionService.refreshSession(refreshToken, req.headers.get("user-agent"));
 
-        if (!tokenRow) {
-            const response = NextResponse.json(
-                { code: "INVALID_REFRESH_TOKEN", message: "Invalid refresh token" },
-                { status: 401 }
-            );
-            response.headers.set("X-Token-Status", "invalid");
-            return response;
-        }
-
-        // Check expiry
-        const expiresAt = new Date(tokenRow.expiresAt);
-        if (expiresAt < new Date()) {
-            const response = NextResponse.json(
-                { code: "REFRESH_TOKEN_EXPIRED", message: "Refresh token has expired" },
-                { status: 401 }
-            );
-            response.headers.set("X-Token-Status", "invalid");
-            return response;
-        }
-
-        // Parse scopes
-        const scopes = tokenRow.scopes ? tokenRow.scopes.split(",").filter(Boolean) : [];
+        const user = userRepo.getUserById(session.userId)!;
 
         // Generate new access token
         const accessToken = generateAccessToken({
-            userId: tokenRow.userId,
-            email: tokenRow.email,
-            scopes,
+            userId: user.id,
+            email: user.email,
+            scopes: user.scopes,
+            sessionId: session.sessionId,
+            twoFactorVerified: session.twoFactorVerified,
         });
 
         const response: LoginResponse = {
             accessToken,
-            refreshToken, // Return the same refresh token
+            refreshToken: session.refreshToken,
             user: {
-                id: tokenRow.userId,
-                email: tokenRow.email,
-                name: tokenRow.name,
-                scopes,
+                id: user.id,
+                email: user.email,
+                name: user.name,
+                scopes: user.scopes,
             },
         };
 
         return NextResponse.json(response);
     } catch (error) {
+        if (error instanceof RefreshTokenError) {
+            const response = NextResponse.json(
+                { code: error.code, message: error.message },
+                { status: 401 }
+            );
+            response.headers.set("X-Token-Status", "invalid");
+            return response;
+        }
+
         console.error("Refresh token error:", error);
         return NextResponse.json(
             { code: "INTERNAL_ERROR", message: "Internal server error" },
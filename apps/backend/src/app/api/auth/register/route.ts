@@ -1,5 +1,5 @@
 import { hashPassword } from "@/lib/auth/password";
-import { checkRateLimit } from "@/lib/auth/rateLimiter";
+import { createRateLimiter } from "@/lib/auth/rateLimiter";
 import { db } from "@/lib/db/db";
 import * as referenceRepo from "@/lib/repos/referenceRepo";
 import * as storeService from "@/lib/services/storeService";
@@ -7,9 +7,11 @@ import { createUserRequestSchema } from "@basket-bot/core";
 import { randomUUID } from "crypto";
 import { NextRequest, NextResponse } from "next/server";
 
+// Rate limit: 3 attempts per hour
+const rateLimiter = createRateLimiter(3, 60 * 60 * 1000);
+
 export async function POST(req: NextRequest) {
-    // Rate limit: 3 attempts per hour
-    const rateLimitResponse = await checkRateLimit(req, 3, 60 * 60 * 1000);
+    const rateLimitResponse = await rateLimiter(req);
     if (rateLimitResponse) {
         return rateLimitResponse;
     }
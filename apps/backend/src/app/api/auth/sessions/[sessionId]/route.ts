@@ -0,0 +1,36 @@
+import { AuthenticatedRequest, withAuth } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
+import * as sessionService from "@/lib/services/sessionService";
+import { NextResponse } from "next/server";
+
+/**
+ * DELETE /api/auth/sessions/[sessionId]
+ * Sign a device out; its tokens stop working right away (signing out the current session
+ * works like logging out)
+ */
+async function handleDelete(
+    req: AuthenticatedRequest,
+    { params }: { params: Promise<Record<string, string>> }
+) {
+    try {
+        const { sessionId } = await params;
+        const deleted = sessionService.endSessionById(sessionId, req.auth.sub);
+
+        if (!deleted) {
+            return NextResponse.json(
+                { code: "NOT_FOUND", message: "Session not found" },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error: any) {
+        console.error("Error signing out session:", error);
+        return NextResponse.json(
+            { code: "INTERNAL_ERROR", message: "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
+
+export const DELETE = withAuth(withIdempotency(handleDelete));
@@ -0,0 +1,48 @@
+import { AuthenticatedRequest, withAuth } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
+import * as sessionService from "@/lib/services/sessionService";
+import { NextResponse } from "next/server";
+
+/**
+ * GET /api/auth/sessions
+ * The user's signed-in devices, most recently used first; isCurrent marks this one
+ */
+async function handleGet(req: AuthenticatedRequest) {
+    try {
+        const sessions = sessionService.getSessions(req.auth.sub, req.auth.sid);
+        return NextResponse.json({ sessions });
+    } catch (error: any) {
+        console.error("Error listing sessions:", error);
+        return NextResponse.json(
+            { code: "INTERNAL_ERROR", message: "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * DELETE /api/auth/sessions
+ * Sign out everywhere else: every session but the current one
+ */
+async function handleDelete(req: AuthenticatedRequest) {
+    try {
+        if (!req.auth.sid) {
+            return NextResponse.json(
+                { code: "INVALID_INPUT", message: "Sign in again to manage your sessions" },
+                { status: 400 }
+            );
+        }
+
+        const signedOut = sessionService.endOtherSessions(req.auth.sub, req.auth.sid);
+        return NextResponse.json({ signedOut });
+    } catch (error: any) {
+        console.error("Error signing out other sessions:", error);
+        return NextResponse.json(
+            { code: "INTERNAL_ERROR", message: "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
+
+export const GET = withAuth(handleGet);
+export const DELETE = withAuth(withIdempotency(handleDelete));
@@ -0,0 +1,46 @@
+import { AuthenticatedRequest, withAuth } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
+import * as twoFactorService from "@/lib/services/twoFactorService";
+import { TwoFactorError, twoFactorDisableRequestSchema } from "@basket-bot/core";
+import { NextResponse } from "next/server";
+
+/**
+ * POST /api/auth/two-factor/disable
+ * Turn two-factor off; needs the password and a current code
+ */
+async function handlePost(req: AuthenticatedRequest) {
+    try {
+        const body = await req.json();
+        const { password, code } = twoFactorDisableRequestSchema.parse(body);
+
+        await twoFactorService.disable(req.auth.sub, req.auth.scopes, password, code);
+
+        return NextResponse.json({ success: true });
+    } catch (error: any) {
+        if (error instanceof TwoFactorError) {
+            return NextResponse.json({ code: error.code, message: error.message }, { status: 400 });
+        }
+        if (error.name === "ZodError") {
+            return NextResponse.json(
+                { code: "INVALID_INPUT", message: "Invalid input", details: error.errors },
+                { status: 400 }
+            );
+        }
+        if (error.message?.startsWith("VALIDATION_ERROR")) {
+            return NextResponse.json(
+                {
+                    code: "INVALID_INPUT",
+                    message: error.message.replace("VALIDATION_ERROR: ", ""),
+                },
+                { status: 400 }
+            );
+        }
+        console.error("Error disabling two-factor:", error);
+        return NextResponse.json(
+            { code: "INTERNAL_ERROR", message: "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
+
+export const POST = withAuth(withIdempotency(handlePost));
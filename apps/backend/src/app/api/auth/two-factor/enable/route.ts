@@ -0,0 +1,54 @@
+import { AuthenticatedRequest, withAuth } from "@/lib/auth/withAuth";
+import * as twoFactorService from "@/lib/services/twoFactorService";
+import {
+    RecoveryCodesResponse,
+    TwoFactorError,
+    twoFactorCodeRequestSchema,
+} from "@basket-bot/core";
+import { NextResponse } from "next/server";
+
+/**
+ * POST /api/auth/two-factor/enable
+ * Finish setup with a code from the authenticator app; returns the recovery codes, shown once.
+ * The current session counts as verified, so refreshing the access token adds the mfa claim.
+ * Deliberately not wrapped in withIdempotency, so the recovery codes are never kept in the
+ * replay store (IdempotencyKey). If the response is lost, a retry gets "already on" and new
+ * codes can be made with POST /api/auth/two-factor/recovery-codes.
+ */
+async function handlePost(req: AuthenticatedRequest) {
+    try {
+        const body = await req.json();
+        const { code } = twoFactorCodeRequestSchema.parse(body);
+
+        const recoveryCodes = twoFactorService.confirmSetup(req.auth.sub, code, req.auth.sid);
+
+        const response: RecoveryCodesResponse = { recoveryCodes };
+        return NextResponse.json(response);
+    } catch (error: any) {
+        if (error instanceof TwoFactorError) {
+            return NextResponse.json({ code: error.code, message: error.message }, { status: 400 });
+        }
+        if (error.name === "ZodError") {
+            return NextResponse.json(
+                { code: "INVALID_INPUT", message: "Invalid input", details: error.errors },
+                { status: 400 }
+            );
+        }
+        if (error.message?.startsWith("VALIDATION_ERROR")) {
+            return NextResponse.json(
+                {
+                    code: "INVALID_INPUT",
+                    message: error.message.replace("VALIDATION_ERROR: ", ""),
+                },
+                { status: 400 }
+            );
+        }
+        console.error("Error enabling two-factor:", error);
+        return NextResponse.json(
+            { code: "INTERNAL_ERROR", message: "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
+
+export const POST = withAuth(handlePost);
@@ -0,0 +1,52 @@
+import { AuthenticatedRequest, withAuth } from "@/lib/auth/withAuth";
+import * as twoFactorService from "@/lib/services/twoFactorService";
+import {
+    RecoveryCodesResponse,
+    TwoFactorError,
+    twoFactorCodeRequestSchema,
+} from "@basket-bot/core";
+import { NextResponse } from "next/server";
+
+/**
+ * POST /api/auth/two-factor/recovery-codes
+ * Replace the recovery codes; needs a current code. The old codes stop working.
+ * Deliberately not wrapped in withIdempotency, so the codes are never kept in the replay store
+ * (IdempotencyKey). If the response is lost, asking again with a new code replaces them again.
+ */
+async function handlePost(req: AuthenticatedRequest) {
+    try {
+        const body = await req.json();
+        const { code } = twoFactorCodeRequestSchema.parse(body);
+
+        const recoveryCodes = twoFactorService.regenerateRecoveryCodes(req.auth.sub, code);
+
+        const response: RecoveryCodesResponse = { recoveryCodes };
+        return NextResponse.json(response);
+    } catch (error: any) {
+        if (error instanceof TwoFactorError) {
+            return NextResponse.json({ code: error.code, message: error.message }, { status: 400 });
+        }
+        if (error.name === "ZodError") {
+            return NextResponse.json(
+                { code: "INVALID_INPUT", message: "Invalid input", details: error.errors },
+                { status: 400 }
+            );
+        }
+        if (error.message?.startsWith("VALIDATION_ERROR")) {
+            return NextResponse.json(
+                {
+                    code: "INVALID_INPUT",
+                    message: error.message.replace("VALIDATION_ERROR: ", ""),
+                },
+                { status: 400 }
+            );
+        }
+        console.error("Error regenerating recovery codes:", error);
+        return NextResponse.json(
+            { code: "INTERNAL_ERROR", message: "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
+
+export const POST = withAuth(handlePost);
@@ -0,0 +1,22 @@
+import { AuthenticatedRequest, withAuth } from "@/lib/auth/withAuth";
+import * as twoFactorService from "@/lib/services/twoFactorService";
+import { NextResponse } from "next/server";
+
+/**
+ * GET /api/auth/two-factor
+ * Whether two-factor is on, how many recovery codes are left, and whether it is required
+ */
+async function handleGet(req: AuthenticatedRequest) {
+    try {
+        const status = twoFactorService.getStatus(req.auth.sub, req.auth.scopes);
+        return NextResponse.json(status);
+    } catch (error: any) {
+        console.error("Error getting two-factor status:", error);
+        return NextResponse.json(
+            { code: "INTERNAL_ERROR", message: "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
+
+export const GET = withAuth(handleGet);
@@ -0,0 +1,39 @@
+import { AuthenticatedRequest, withAuth } from "@/lib/auth/withAuth";
+import * as twoFactorService from "@/lib/services/twoFactorService";
+import { NextResponse } from "next/server";
+
+/**
+ * POST /api/auth/two-factor/setup
+ * Start setup: returns a new secret and its otpauth:// URI for the authenticator app.
+ * Deliberately not wrapped in withIdempotency, so the secret is never kept in the replay store
+ * (IdempotencyKey). A retry is harmless: it replaces the pending secret with a new one.
+ */
+async function handlePost(req: AuthenticatedRequest) {
+    try {
+        const setup = twoFactorService.beginSetup(req.auth.sub);
+        return NextResponse.json(setup);
+    } catch (error: any) {
+        if (error.message?.startsWith("NOT_FOUND")) {
+            return NextResponse.json(
+                { code: "NOT_FOUND", message: error.message.replace("NOT_FOUND: ", "") },
+                { status: 404 }
+            );
+        }
+        if (error.message?.startsWith("VALIDATION_ERROR")) {
+            return NextResponse.json(
+                {
+                    code: "INVALID_INPUT",
+                    message: error.message.replace("VALIDATION_ERROR: ", ""),
+                },
+                { status: 400 }
+            );
+        }
+        console.error("Error starting two-factor setup:", error);
+        return NextResponse.json(
+            { code: "INTERNAL_ERROR", message: "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
+
+export const POST = withAuth(handlePost);
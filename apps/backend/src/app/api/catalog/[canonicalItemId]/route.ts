@@ -0,0 +1,39 @@
+import { AuthenticatedRequest, withAuth } from "@/lib/auth/withAuth";
+import * as catalogService from "@/lib/services/catalogService";
+import { NextResponse } from "next/server";
+
+/**
+ * GET /api/catalog/[canonicalItemId]
+ * A canonical item with the store items linked to it
+ */
+async function handleGet(
+    req: AuthenticatedRequest,
+    { params }: { params: Promise<Record<string, string>> }
+) {
+    try {
+        const { canonicalItemId } = await params;
+        const item = catalogService.getCatalogItem(canonicalItemId, req.auth.sub);
+
+        if (!item) {
+            return NextResponse.json(
+                { code: "NOT_FOUND", message: "Catalog item not found" },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ item });
+    } catch (error: any) {
+        if (error.message === "Access denied") {
+            return NextResponse.json(
+                { code: "ACCESS_DENIED", message: "Access denied" },
+                { status: 403 }
+            );
+        }
+        return NextResponse.json(
+            { code: "INTERNAL_ERROR", message: "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
+
+export const GET = withAuth(handleGet);
@@ -0,0 +1,22 @@
+import { AuthenticatedRequest, withAuth } from "@/lib/auth/withAuth";
+import * as catalogService from "@/lib/services/catalogService";
+import { NextResponse } from "next/server";
+
+/**
+ * GET /api/catalog
+ * Canonical items from the user's household and personal catalogs, with usage across stores
+ */
+async function handleGet(req: AuthenticatedRequest) {
+    try {
+        const items = catalogService.getCatalog(req.auth.sub);
+        return NextResponse.json({ items });
+    } catch (error: any) {
+        console.error("Error listing catalog:", error);
+        return NextResponse.json(
+            { code: "INTERNAL_ERROR", message: "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
+
+export const GET = withAuth(handleGet);
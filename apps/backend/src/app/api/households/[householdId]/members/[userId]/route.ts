@@ -1,4 +1,5 @@
 import { withAuth, type AuthenticatedRequest } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
 import * as householdService from "@/lib/services/householdService";
 import { NextResponse } from "next/server";
 
@@ -6,32 +7,34 @@ import { NextResponse } from "next/server";
  * DELETE /api/households/[householdId]/members/[userId]
  * Remove a member from the household
  */
-export const DELETE = withAuth(async (req: AuthenticatedRequest, context) => {
-    try {
-        const { householdId, userId } = await context.params;
-        householdService.removeMember(householdId, userId, req.auth.sub);
+export const DELETE = withAuth(
+    withIdempotency(async (req: AuthenticatedRequest, context) => {
+        try {
+            const { householdId, userId } = await context.params;
+            householdService.removeMember(householdId, userId, req.auth.sub);
 
-        return NextResponse.json({ success: true }, { status: 200 });
-    } catch (error: any) {
-        console.error("Error removing member:", error);
+            return NextResponse.json({ success: true }, { status: 200 });
+        } catch (error: any) {
+            console.error("Error removing member:", error);
 
-        if (error.message?.startsWith("FORBIDDEN")) {
-            return NextResponse.json(
-                { code: "FORBIDDEN", message: error.message.replace("FORBIDDEN: ", "") },
-                { status: 403 }
-            );
-        }
+            if (error.message?.startsWith("FORBIDDEN")) {
+                return NextResponse.json(
+                    { code: "FORBIDDEN", message: error.message.replace("FORBIDDEN: ", "") },
+                    { status: 403 }
+                );
+            }
+
+            if (error.message?.startsWith("NOT_FOUND")) {
+                return NextResponse.json(
+                    { code: "NOT_FOUND", message: error.message.replace("NOT_FOUND: ", "") },
+                    { status: 404 }
+                );
+            }
 
-        if (error.message?.startsWith("NOT_FOUND")) {
             return NextResponse.json(
-                { code: "NOT_FOUND", message: error.message.replace("NOT_FOUND: ", "") },
-                { status: 404 }
+                { code: "INTERNAL_ERROR", message: "Failed to remove member" },
+                { status: 500 }
             );
         }
-
-        return NextResponse.json(
-            { code: "INTERNAL_ERROR", message: "Failed to remove member" },
-            { status: 500 }
-        );
-    }
-});
+    })
+);
@@ -1,4 +1,5 @@
 import { withAuth, type AuthenticatedRequest } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
 import * as householdService from "@/lib/services/householdService";
 import * as invitationService from "@/lib/services/invitationService";
 import { createInvitationRequestSchema } from "@basket-bot/core";
@@ -35,53 +36,55 @@ export const GET = withAuth(async (req: AuthenticatedRequest, context) => {
  * POST /api/households/[householdId]/members
  * Create an invitation to join the household
  */
-export const POST = withAuth(async (req: AuthenticatedRequest, context) => {
-    try {
-        const { householdId } = await context.params;
-        const body = await req.json();
-        const { email } = createInvitationRequestSchema.parse(body);
+export const POST = withAuth(
+    withIdempotency(async (req: AuthenticatedRequest, context) => {
+        try {
+            const { householdId } = await context.params;
+            const body = await req.json();
+            const { email } = createInvitationRequestSchema.parse(body);
 
-        const invitation = invitationService.createInvitation(householdId, email, req.auth.sub);
+            const invitation = invitationService.createInvitation(householdId, email, req.auth.sub);
 
-        return NextResponse.json({ invitation }, { status: 201 });
-    } catch (error: any) {
-        console.error("Error creating invitation:", error);
+            return NextResponse.json({ invitation }, { status: 201 });
+        } catch (error: any) {
+            console.error("Error creating invitation:", error);
 
-        if (error.name === "ZodError") {
-            return NextResponse.json(
-                {
-                    code: "VALIDATION_ERROR",
-                    message: "Invalid request data",
-                    details: error.errors,
-                },
-                { status: 400 }
-            );
-        }
+            if (error.name === "ZodError") {
+                return NextResponse.json(
+                    {
+                        code: "VALIDATION_ERROR",
+                        message: "Invalid request data",
+                        details: error.errors,
+                    },
+                    { status: 400 }
+                );
+            }
 
-        if (error.message?.startsWith("FORBIDDEN")) {
-            return NextResponse.json(
-                { code: "FORBIDDEN", message: error.message.replace("FORBIDDEN: ", "") },
-                { status: 403 }
-            );
-        }
+            if (error.message?.startsWith("FORBIDDEN")) {
+                return NextResponse.json(
+                    { code: "FORBIDDEN", message: error.message.replace("FORBIDDEN: ", "") },
+                    { status: 403 }
+                );
+            }
 
-        if (error.message?.startsWith("NOT_FOUND")) {
-            return NextResponse.json(
-                { code: "NOT_FOUND", message: error.message.replace("NOT_FOUND: ", "") },
-                { status: 404 }
-            );
-        }
+            if (error.message?.startsWith("NOT_FOUND")) {
+                return NextResponse.json(
+                    { code: "NOT_FOUND", message: error.message.replace("NOT_FOUND: ", "") },
+                    { status: 404 }
+                );
+            }
+
+            if (error.message?.startsWith("CONFLICT")) {
+                return NextResponse.json(
+                    { code: "CONFLICT", message: error.message.replace("CONFLICT: ", "") },
+                    { status: 409 }
+                );
+            }
 
-        if (error.message?.startsWith("CONFLICT")) {
             return NextResponse.json(
-                { code: "CONFLICT", message: error.message.replace("CONFLICT: ", "") },
-                { status: 409 }
+                { code: "INTERNAL_ERROR", message: "Failed to create invitation" },
+                { status: 500 }
             );
         }
-
-        return NextResponse.json(
-            { code: "INTERNAL_ERROR", message: "Failed to create invitation" },
-            { status: 500 }
-        );
-    }
-});
+    })
+);
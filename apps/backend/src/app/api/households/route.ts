@@ -1,4 +1,5 @@
 import { withAuth, type AuthenticatedRequest } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
 import * as householdService from "@/lib/services/householdService";
 import { createHouseholdRequestSchema } from "@basket-bot/core";
 import { NextResponse } from "next/server";
@@ -25,31 +26,33 @@ export const GET = withAuth(async (req: AuthenticatedRequest) => {
  * POST /api/households
  * Create a new household (user becomes owner)
  */
-export const POST = withAuth(async (req: AuthenticatedRequest) => {
-    try {
-        const body = await req.json();
-        const { name } = createHouseholdRequestSchema.parse(body);
+export const POST = withAuth(
+    withIdempotency(async (req: AuthenticatedRequest) => {
+        try {
+            const body = await req.json();
+            const { name } = createHouseholdRequestSchema.parse(body);
 
-        const household = householdService.createHousehold(name, req.auth.sub);
+            const household = householdService.createHousehold(name, req.auth.sub);
 
-        return NextResponse.json({ household }, { status: 201 });
-    } catch (error: any) {
-        console.error("Error creating household:", error);
+            return NextResponse.json({ household }, { status: 201 });
+        } catch (error: any) {
+            console.error("Error creating household:", error);
+
+            if (error.name === "ZodError") {
+                return NextResponse.json(
+                    {
+                        code: "VALIDATION_ERROR",
+                        message: "Invalid request data",
+                        details: error.errors,
+                    },
+                    { status: 400 }
+                );
+            }
 
-        if (error.name === "ZodError") {
             return NextResponse.json(
-                {
-                    code: "VALIDATION_ERROR",
-                    message: "Invalid request data",
-                    details: error.errors,
-                },
-                { status: 400 }
+                { code: "INTERNAL_ERROR", message: "Failed to create household" },
+                { status: 500 }
             );
         }
-
-        return NextResponse.json(
-            { code: "INTERNAL_ERROR", message: "Failed to create household" },
-            { status: 500 }
-        );
-    }
-});
+    })
+);
@@ -1,4 +1,5 @@
 import { withAuth, type AuthenticatedRequest } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
 import * as invitationService from "@/lib/services/invitationService";
 import { NextResponse } from "next/server";
 
@@ -6,48 +7,50 @@ import { NextResponse } from "next/server";
  * POST /api/invitations/[token]/decline
  * Decline a household invitation
  */
-export const POST = withAuth(async (req: AuthenticatedRequest, context) => {
-    try {
-        const { token } = await context.params;
-        const userEmail = req.auth.email;
+export const POST = withAuth(
+    withIdempotency(async (req: AuthenticatedRequest, context) => {
+        try {
+            const { token } = await context.params;
+            const userEmail = req.auth.email;
+
+            if (!userEmail) {
+                return NextResponse.json(
+                    { code: "BAD_REQUEST", message: "User email not found in token" },
+                    { status: 400 }
+                );
+            }
+
+            invitationService.declineInvitation(token, userEmail);
+
+            return NextResponse.json({ success: true }, { status: 200 });
+        } catch (error: any) {
+            console.error("Error declining invitation:", error);
+
+            if (error.message?.startsWith("FORBIDDEN")) {
+                return NextResponse.json(
+                    { code: "FORBIDDEN", message: error.message.replace("FORBIDDEN: ", "") },
+                    { status: 403 }
+                );
+            }
+
+            if (error.message?.startsWith("NOT_FOUND")) {
+                return NextResponse.json(
+                    { code: "NOT_FOUND", message: error.message.replace("NOT_FOUND: ", "") },
+                    { status: 404 }
+                );
+            }
+
+            if (error.message?.startsWith("CONFLICT")) {
+                return NextResponse.json(
+                    { code: "CONFLICT", message: error.message.replace("CONFLICT: ", "") },
+                    { status: 409 }
+                );
+            }
 
-        if (!userEmail) {
             return NextResponse.json(
-                { code: "BAD_REQUEST", message: "User email not found in token" },
-                { status: 400 }
+                { code: "INTERNAL_ERROR", message: "Failed to decline invitation" },
+                { status: 500 }
             );
         }
-
-        invitationService.declineInvitation(token, userEmail);
-
-        return NextResponse.json({ success: true }, { status: 200 });
-    } catch (error: any) {
-        console.error("Error declining invitation:", error);
-
-        if (error.message?.startsWith("FORBIDDEN")) {
-            return NextResponse.json(
-                { code: "FORBIDDEN", message: error.message.replace("FORBIDDEN: ", "") },
-                { status: 403 }
-            );
-        }
-
-        if (error.message?.startsWith("NOT_FOUND")) {
-            return NextResponse.json(
-                { code: "NOT_FOUND", message: error.message.replace("NOT_FOUND: ", "") },
-                { status: 404 }
-            );
-        }
-
-        if (error.message?.startsWith("CONFLICT")) {
-            return NextResponse.json(
-                { code: "CONFLICT", message: error.message.replace("CONFLICT: ", "") },
-                { status: 409 }
-            );
-        }
-
-        return NextResponse.json(
-            { code: "INTERNAL_ERROR", message: "Failed to decline invitation" },
-            { status: 500 }
-        );
-    }
-});
+    })
+);
@@ -0,0 +1,56 @@
+import { withAuth, type AuthenticatedRequest } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
+import * as listTemplateService from "@/lib/services/listTemplateService";
+import { applyListTemplateRequestSchema } from "@basket-bot/core";
+import { NextResponse } from "next/server";
+
+/**
+ * POST /api/list-templates/[templateId]/apply
+ * Add the template's items to a store's shopping list ({ storeId }).
+ * Items resolve to store items by name; items already on the list are skipped.
+ */
+export const POST = withAuth(
+    withIdempotency(async (req: AuthenticatedRequest, context) => {
+        try {
+            const { templateId } = await context.params;
+            const body = await req.json();
+            const { storeId } = applyListTemplateRequestSchema.parse(body);
+
+            const result = listTemplateService.applyTemplate(templateId, storeId, req.auth.sub);
+
+            return NextResponse.json(result, { status: 200 });
+        } catch (error: any) {
+            console.error("Error applying list template:", error);
+
+            if (error.name === "ZodError") {
+                return NextResponse.json(
+                    {
+                        code: "VALIDATION_ERROR",
+                        message: "Invalid request data",
+                        details: error.errors,
+                    },
+                    { status: 400 }
+                );
+            }
+
+            if (error.message?.startsWith("FORBIDDEN")) {
+                return NextResponse.json(
+                    { code: "FORBIDDEN", message: error.message.replace("FORBIDDEN: ", "") },
+                    { status: 403 }
+                );
+            }
+
+            if (error.message?.startsWith("NOT_FOUND")) {
+                return NextResponse.json(
+                    { code: "NOT_FOUND", message: error.message.replace("NOT_FOUND: ", "") },
+                    { status: 404 }
+                );
+            }
+
+            return NextResponse.json(
+                { code: "INTERNAL_ERROR", message: "Failed to apply template" },
+                { status: 500 }
+            );
+        }
+    })
+);
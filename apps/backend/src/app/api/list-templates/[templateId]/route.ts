@@ -0,0 +1,125 @@
+import { withAuth, type AuthenticatedRequest } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
+import * as listTemplateService from "@/lib/services/listTemplateService";
+import { updateListTemplateRequestSchema } from "@basket-bot/core";
+import { NextResponse } from "next/server";
+
+/**
+ * GET /api/list-templates/[templateId]
+ * Get a template with its items
+ */
+export const GET = withAuth(async (req: AuthenticatedRequest, context) => {
+    try {
+        const { templateId } = await context.params;
+        const template = listTemplateService.getTemplateWithItems(templateId, req.auth.sub);
+
+        return NextResponse.json({ template }, { status: 200 });
+    } catch (error: any) {
+        console.error("Error getting list template:", error);
+
+        if (error.message?.startsWith("FORBIDDEN")) {
+            return NextResponse.json(
+                { code: "FORBIDDEN", message: error.message.replace("FORBIDDEN: ", "") },
+                { status: 403 }
+            );
+        }
+
+        if (error.message?.startsWith("NOT_FOUND")) {
+            return NextResponse.json(
+                { code: "NOT_FOUND", message: error.message.replace("NOT_FOUND: ", "") },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json(
+            { code: "INTERNAL_ERROR", message: "Failed to get template" },
+            { status: 500 }
+        );
+    }
+});
+
+/**
+ * PATCH /api/list-templates/[templateId]
+ * Rename a template and/or replace its items
+ */
+export const PATCH = withAuth(
+    withIdempotency(async (req: AuthenticatedRequest, context) => {
+        try {
+            const { templateId } = await context.params;
+            const body = await req.json();
+            const input = updateListTemplateRequestSchema.parse(body);
+
+            const template = listTemplateService.updateTemplate(templateId, input, req.auth.sub);
+
+            return NextResponse.json({ template }, { status: 200 });
+        } catch (error: any) {
+            console.error("Error updating list template:", error);
+
+            if (error.name === "ZodError") {
+                return NextResponse.json(
+                    {
+                        code: "VALIDATION_ERROR",
+                        message: "Invalid request data",
+                        details: error.errors,
+                    },
+                    { status: 400 }
+                );
+            }
+
+            if (error.message?.startsWith("FORBIDDEN")) {
+                return NextResponse.json(
+                    { code: "FORBIDDEN", message: error.message.replace("FORBIDDEN: ", "") },
+                    { status: 403 }
+                );
+            }
+
+            if (error.message?.startsWith("NOT_FOUND")) {
+                return NextResponse.json(
+                    { code: "NOT_FOUND", message: error.message.replace("NOT_FOUND: ", "") },
+                    { status: 404 }
+                );
+            }
+
+            return NextResponse.json(
+                { code: "INTERNAL_ERROR", message: "Failed to update template" },
+                { status: 500 }
+            );
+        }
+    })
+);
+
+/**
+ * DELETE /api/list-templates/[templateId]
+ * Delete a template (items cascade)
+ */
+export const DELETE = withAuth(
+    withIdempotency(async (req: AuthenticatedRequest, context) => {
+        try {
+            const { templateId } = await context.params;
+            listTemplateService.deleteTemplate(templateId, req.auth.sub);
+
+            return NextResponse.json({ success: true }, { status: 200 });
+        } catch (error: any) {
+            console.error("Error deleting list template:", error);
+
+            if (error.message?.startsWith("FORBIDDEN")) {
+                return NextResponse.json(
+                    { code: "FORBIDDEN", message: error.message.replace("FORBIDDEN: ", "") },
+                    { status: 403 }
+                );
+            }
+
+            if (error.message?.startsWith("NOT_FOUND")) {
+                return NextResponse.json(
+                    { code: "NOT_FOUND", message: error.message.replace("NOT_FOUND: ", "") },
+                    { status: 404 }
+                );
+            }
+
+            return NextResponse.json(
+                { code: "INTERNAL_ERROR", message: "Failed to delete template" },
+                { status: 500 }
+            );
+        }
+    })
+);
@@ -0,0 +1,71 @@
+import { withAuth, type AuthenticatedRequest } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
+import * as listTemplateService from "@/lib/services/listTemplateService";
+import { saveListAsTemplateRequestSchema } from "@basket-bot/core";
+import { NextResponse } from "next/server";
+
+/**
+ * POST /api/list-templates/from-list?householdId=X
+ * Save the unchecked items of a store's shopping list as a new template ({ storeId, name })
+ */
+export const POST = withAuth(
+    withIdempotency(async (req: AuthenticatedRequest) => {
+        try {
+            const householdId = new URL(req.url).searchParams.get("householdId");
+
+            if (!householdId) {
+                return NextResponse.json(
+                    { code: "VALIDATION_ERROR", message: "householdId is required" },
+                    { status: 400 }
+                );
+            }
+
+            const body = await req.json();
+            const { storeId, name } = saveListAsTemplateRequestSchema.parse(body);
+
+            const template = listTemplateService.saveListAsTemplate(
+                householdId,
+                storeId,
+                name,
+                req.auth.sub
+            );
+
+            return NextResponse.json({ template }, { status: 201 });
+        } catch (error: any) {
+            console.error("Error saving shopping list as template:", error);
+
+            if (error.name === "ZodError") {
+                return NextResponse.json(
+                    {
+                        code: "VALIDATION_ERROR",
+                        message: "Invalid request data",
+                        details: error.errors,
+                    },
+                    { status: 400 }
+                );
+            }
+
+            if (error.message?.startsWith("VALIDATION_ERROR")) {
+                return NextResponse.json(
+                    {
+                        code: "VALIDATION_ERROR",
+                        message: error.message.replace("VALIDATION_ERROR: ", ""),
+                    },
+                    { status: 400 }
+                );
+            }
+
+            if (error.message?.startsWith("FORBIDDEN")) {
+                return NextResponse.json(
+                    { code: "FORBIDDEN", message: error.message.replace("FORBIDDEN: ", "") },
+                    { status: 403 }
+                );
+            }
+
+            return NextResponse.json(
+                { code: "INTERNAL_ERROR", message: "Failed to save template" },
+                { status: 500 }
+            );
+        }
+    })
+);
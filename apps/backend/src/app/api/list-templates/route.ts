@@ -0,0 +1,91 @@
+import { withAuth, type AuthenticatedRequest } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
+import * as listTemplateService from "@/lib/services/listTemplateService";
+import { createListTemplateRequestSchema } from "@basket-bot/core";
+import { NextResponse } from "next/server";
+
+/**
+ * GET /api/list-templates?householdId=X
+ * List household shopping list templates with their item counts
+ */
+export const GET = withAuth(async (req: AuthenticatedRequest) => {
+    try {
+        const householdId = new URL(req.url).searchParams.get("householdId");
+
+        if (!householdId) {
+            return NextResponse.json(
+                { code: "VALIDATION_ERROR", message: "householdId is required" },
+                { status: 400 }
+            );
+        }
+
+        const templates = listTemplateService.getTemplates(householdId, req.auth.sub);
+
+        return NextResponse.json({ templates }, { status: 200 });
+    } catch (error: any) {
+        console.error("Error listing list templates:", error);
+
+        if (error.message?.startsWith("FORBIDDEN")) {
+            return NextResponse.json(
+                { code: "FORBIDDEN", message: error.message.replace("FORBIDDEN: ", "") },
+                { status: 403 }
+            );
+        }
+
+        return NextResponse.json(
+            { code: "INTERNAL_ERROR", message: "Failed to list templates" },
+            { status: 500 }
+        );
+    }
+});
+
+/**
+ * POST /api/list-templates?householdId=X
+ * Create a template from a name and item list
+ */
+export const POST = withAuth(
+    withIdempotency(async (req: AuthenticatedRequest) => {
+        try {
+            const householdId = new URL(req.url).searchParams.get("householdId");
+
+            if (!householdId) {
+                return NextResponse.json(
+                    { code: "VALIDATION_ERROR", message: "householdId is required" },
+                    { status: 400 }
+                );
+            }
+
+            const body = await req.json();
+            const input = createListTemplateRequestSchema.parse(body);
+
+            const template = listTemplateService.createTemplate(householdId, input, req.auth.sub);
+
+            return NextResponse.json({ template }, { status: 201 });
+        } catch (error: any) {
+            console.error("Error creating list template:", error);
+
+            if (error.name === "ZodError") {
+                return NextResponse.json(
+                    {
+                        code: "VALIDATION_ERROR",
+                        message: "Invalid request data",
+                        details: error.errors,
+                    },
+                    { status: 400 }
+                );
+            }
+
+            if (error.message?.startsWith("FORBIDDEN")) {
+                return NextResponse.json(
+                    { code: "FORBIDDEN", message: error.message.replace("FORBIDDEN: ", "") },
+                    { status: 403 }
+                );
+            }
+
+            return NextResponse.json(
+                { code: "INTERNAL_ERROR", message: "Failed to create template" },
+                { status: 500 }
+            );
+        }
+    })
+);
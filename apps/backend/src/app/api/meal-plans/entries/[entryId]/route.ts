@@ -0,0 +1,91 @@
+import { withAuth, type AuthenticatedRequest } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
+import * as mealPlanService from "@/lib/services/mealPlanService";
+import { updateMealPlanEntryRequestSchema } from "@basket-bot/core";
+import { NextResponse } from "next/server";
+
+/**
+ * PATCH /api/meal-plans/entries/[entryId]
+ * Change servings or move the entry to another day/slot
+ */
+export const PATCH = withAuth(
+    withIdempotency(async (req: AuthenticatedRequest, context) => {
+        try {
+            const { entryId } = await context.params;
+            const body = await req.json();
+            const input = updateMealPlanEntryRequestSchema.parse(body);
+
+            const entry = mealPlanService.updateEntry(entryId, input, req.auth.sub);
+
+            return NextResponse.json({ entry }, { status: 200 });
+        } catch (error: any) {
+            console.error("Error updating meal plan entry:", error);
+
+            if (error.name === "ZodError") {
+                return NextResponse.json(
+                    {
+                        code: "VALIDATION_ERROR",
+                        message: "Invalid request data",
+                        details: error.errors,
+                    },
+                    { status: 400 }
+                );
+            }
+
+            if (error.message?.startsWith("FORBIDDEN")) {
+                return NextResponse.json(
+                    { code: "FORBIDDEN", message: error.message.replace("FORBIDDEN: ", "") },
+                    { status: 403 }
+                );
+            }
+
+            if (error.message?.startsWith("NOT_FOUND")) {
+                return NextResponse.json(
+                    { code: "NOT_FOUND", message: error.message.replace("NOT_FOUND: ", "") },
+                    { status: 404 }
+                );
+            }
+
+            return NextResponse.json(
+                { code: "INTERNAL_ERROR", message: "Failed to update meal plan entry" },
+                { status: 500 }
+            );
+        }
+    })
+);
+
+/**
+ * DELETE /api/meal-plans/entries/[entryId]
+ * Remove a recipe from the plan
+ */
+export const DELETE = withAuth(
+    withIdempotency(async (req: AuthenticatedRequest, context) => {
+        try {
+            const { entryId } = await context.params;
+            mealPlanService.deleteEntry(entryId, req.auth.sub);
+
+            return NextResponse.json({ success: true }, { status: 200 });
+        } catch (error: any) {
+            console.error("Error deleting meal plan entry:", error);
+
+            if (error.message?.startsWith("FORBIDDEN")) {
+                return NextResponse.json(
+                    { code: "FORBIDDEN", message: error.message.replace("FORBIDDEN: ", "") },
+                    { status: 403 }
+                );
+            }
+
+            if (error.message?.startsWith("NOT_FOUND")) {
+                return NextResponse.json(
+                    { code: "NOT_FOUND", message: error.message.replace("NOT_FOUND: ", "") },
+                    { status: 404 }
+                );
+            }
+
+            return NextResponse.json(
+                { code: "INTERNAL_ERROR", message: "Failed to delete meal plan entry" },
+                { status: 500 }
+            );
+        }
+    })
+);
@@ -0,0 +1,120 @@
+import { withAuth, type AuthenticatedRequest } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
+import * as mealPlanService from "@/lib/services/mealPlanService";
+import { createMealPlanEntryRequestSchema, mealPlanDateRangeSchema } from "@basket-bot/core";
+import { NextResponse } from "next/server";
+
+/**
+ * GET /api/meal-plans/entries?householdId=X&startDate=YYYY-MM-DD&endDate=YYYY-MM-DD
+ * List planned meals (with recipe names) for an inclusive date range
+ */
+export const GET = withAuth(async (req: AuthenticatedRequest) => {
+    try {
+        const url = new URL(req.url);
+        const householdId = url.searchParams.get("householdId");
+
+        if (!householdId) {
+            return NextResponse.json(
+                { code: "VALIDATION_ERROR", message: "householdId is required" },
+                { status: 400 }
+            );
+        }
+
+        const { startDate, endDate } = mealPlanDateRangeSchema.parse({
+            startDate: url.searchParams.get("startDate"),
+            endDate: url.searchParams.get("endDate"),
+        });
+
+        const entries = mealPlanService.getEntries({
+            householdId,
+            startDate,
+            endDate,
+            userId: req.auth.sub,
+        });
+
+        return NextResponse.json({ entries }, { status: 200 });
+    } catch (error: any) {
+        console.error("Error listing meal plan entries:", error);
+
+        if (error.name === "ZodError") {
+            return NextResponse.json(
+                {
+                    code: "VALIDATION_ERROR",
+                    message: "Invalid request data",
+                    details: error.errors,
+                },
+                { status: 400 }
+            );
+        }
+
+        if (error.message?.startsWith("FORBIDDEN")) {
+            return NextResponse.json(
+                { code: "FORBIDDEN", message: error.message.replace("FORBIDDEN: ", "") },
+                { status: 403 }
+            );
+        }
+
+        return NextResponse.json(
+            { code: "INTERNAL_ERROR", message: "Failed to list meal plan" },
+            { status: 500 }
+        );
+    }
+});
+
+/**
+ * POST /api/meal-plans/entries?householdId=X
+ * Plan a household recipe for a day and meal slot
+ */
+export const POST = withAuth(
+    withIdempotency(async (req: AuthenticatedRequest) => {
+        try {
+            const householdId = new URL(req.url).searchParams.get("householdId");
+
+            if (!householdId) {
+                return NextResponse.json(
+                    { code: "VALIDATION_ERROR", message: "householdId is required" },
+                    { status: 400 }
+                );
+            }
+
+            const body = await req.json();
+            const input = createMealPlanEntryRequestSchema.parse(body);
+
+            const entry = mealPlanService.createEntry(householdId, input, req.auth.sub);
+
+            return NextResponse.json({ entry }, { status: 201 });
+        } catch (error: any) {
+            console.error("Error creating meal plan entry:", error);
+
+            if (error.name === "ZodError") {
+                return NextResponse.json(
+                    {
+                        code: "VALIDATION_ERROR",
+                        message: "Invalid request data",
+                        details: error.errors,
+                    },
+                    { status: 400 }
+                );
+            }
+
+            if (error.message?.startsWith("FORBIDDEN")) {
+                return NextResponse.json(
+                    { code: "FORBIDDEN", message: error.message.replace("FORBIDDEN: ", "") },
+                    { status: 403 }
+                );
+            }
+
+            if (error.message?.startsWith("NOT_FOUND")) {
+                return NextResponse.json(
+                    { code: "NOT_FOUND", message: error.message.replace("NOT_FOUND: ", "") },
+                    { status: 404 }
+                );
+            }
+
+            return NextResponse.json(
+                { code: "INTERNAL_ERROR", message: "Failed to add meal to plan" },
+                { status: 500 }
+            );
+        }
+    })
+);
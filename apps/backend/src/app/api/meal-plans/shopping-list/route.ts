@@ -0,0 +1,55 @@
+import { withAuth, type AuthenticatedRequest } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
+import * as mealPlanService from "@/lib/services/mealPlanService";
+import { generateMealPlanShoppingListRequestSchema } from "@basket-bot/core";
+import { NextResponse } from "next/server";
+
+/**
+ * POST /api/meal-plans/shopping-list
+ * Add the ingredients of every recipe planned between startDate and endDate (inclusive)
+ * to a store's shopping list. Response has the same shape as /api/recipes/add-to-shopping-list.
+ */
+export const POST = withAuth(
+    withIdempotency(async (req: AuthenticatedRequest) => {
+        try {
+            const body = await req.json();
+            const input = generateMealPlanShoppingListRequestSchema.parse(body);
+
+            const result = mealPlanService.generateShoppingList({ ...input, userId: req.auth.sub });
+
+            return NextResponse.json(result, { status: 200 });
+        } catch (error: any) {
+            console.error("Error generating shopping list from meal plan:", error);
+
+            if (error.name === "ZodError") {
+                return NextResponse.json(
+                    {
+                        code: "VALIDATION_ERROR",
+                        message: "Invalid request data",
+                        details: error.errors,
+                    },
+                    { status: 400 }
+                );
+            }
+
+            if (error.message?.startsWith("FORBIDDEN")) {
+                return NextResponse.json(
+                    { code: "FORBIDDEN", message: error.message.replace("FORBIDDEN: ", "") },
+                    { status: 403 }
+                );
+            }
+
+            if (error.message?.startsWith("NOT_FOUND")) {
+                return NextResponse.json(
+                    { code: "NOT_FOUND", message: error.message.replace("NOT_FOUND: ", "") },
+                    { status: 404 }
+                );
+            }
+
+            return NextResponse.json(
+                { code: "INTERNAL_ERROR", message: "Failed to generate shopping list" },
+                { status: 500 }
+            );
+        }
+    })
+);
@@ -0,0 +1,98 @@
+import { withAuth, type AuthenticatedRequest } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
+import * as recipeService from "@/lib/services/recipeService";
+import { updateRecipeTagRequestSchema } from "@basket-bot/core";
+import { NextResponse } from "next/server";
+
+/**
+ * PATCH /api/recipe-tags/[tagId]
+ * Update a tag's name or color
+ */
+export const PATCH = withAuth(
+    withIdempotency(async (req: AuthenticatedRequest, context) => {
+        try {
+            const { tagId } = await context.params;
+            const body = await req.json();
+            const input = updateRecipeTagRequestSchema.parse(body);
+
+            const tag = recipeService.updateTag(tagId, input, req.auth.sub);
+
+            return NextResponse.json({ tag }, { status: 200 });
+        } catch (error: any) {
+            console.error("Error updating recipe tag:", error);
+
+            if (error.name === "ZodError") {
+                return NextResponse.json(
+                    {
+                        code: "VALIDATION_ERROR",
+                        message: "Invalid request data",
+                        details: error.errors,
+                    },
+                    { status: 400 }
+                );
+            }
+
+            if (error.message?.startsWith("FORBIDDEN")) {
+                return NextResponse.json(
+                    { code: "FORBIDDEN", message: error.message.replace("FORBIDDEN: ", "") },
+                    { status: 403 }
+                );
+            }
+
+            if (error.message?.startsWith("NOT_FOUND")) {
+                return NextResponse.json(
+                    { code: "NOT_FOUND", message: error.message.replace("NOT_FOUND: ", "") },
+                    { status: 404 }
+                );
+            }
+
+            if (error.message?.startsWith("CONFLICT")) {
+                return NextResponse.json(
+                    { code: "CONFLICT", message: error.message.replace("CONFLICT: ", "") },
+                    { status: 409 }
+                );
+            }
+
+            return NextResponse.json(
+                { code: "INTERNAL_ERROR", message: "Failed to update tag" },
+                { status: 500 }
+            );
+        }
+    })
+);
+
+/**
+ * DELETE /api/recipe-tags/[tagId]
+ * Delete a tag and remove it from all recipes
+ */
+export const DELETE = withAuth(
+    withIdempotency(async (req: AuthenticatedRequest, context) => {
+        try {
+            const { tagId } = await context.params;
+            recipeService.deleteTag(tagId, req.auth.sub);
+
+            return NextResponse.json({ success: true }, { status: 200 });
+        } catch (error: any) {
+            console.error("Error deleting recipe tag:", error);
+
+            if (error.message?.startsWith("FORBIDDEN")) {
+                return NextResponse.json(
+                    { code: "FORBIDDEN", message: error.message.replace("FORBIDDEN: ", "") },
+                    { status: 403 }
+                );
+            }
+
+            if (error.message?.startsWith("NOT_FOUND")) {
+                return NextResponse.json(
+                    { code: "NOT_FOUND", message: error.message.replace("NOT_FOUND: ", "") },
+                    { status: 404 }
+                );
+            }
+
+            return NextResponse.json(
+                { code: "INTERNAL_ERROR", message: "Failed to delete tag" },
+                { status: 500 }
+            );
+        }
+    })
+);
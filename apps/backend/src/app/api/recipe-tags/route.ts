@@ -0,0 +1,98 @@
+import { withAuth, type AuthenticatedRequest } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
+import * as recipeService from "@/lib/services/recipeService";
+import { createRecipeTagRequestSchema } from "@basket-bot/core";
+import { NextResponse } from "next/server";
+
+/**
+ * GET /api/recipe-tags?householdId=X
+ * List all recipe tags in a household
+ */
+export const GET = withAuth(async (req: AuthenticatedRequest) => {
+    try {
+        const householdId = new URL(req.url).searchParams.get("householdId");
+
+        if (!householdId) {
+            return NextResponse.json(
+                { code: "VALIDATION_ERROR", message: "householdId is required" },
+                { status: 400 }
+            );
+        }
+
+        const tags = recipeService.getTags(householdId, req.auth.sub);
+
+        return NextResponse.json({ tags }, { status: 200 });
+    } catch (error: any) {
+        console.error("Error listing recipe tags:", error);
+
+        if (error.message?.startsWith("FORBIDDEN")) {
+            return NextResponse.json(
+                { code: "FORBIDDEN", message: error.message.replace("FORBIDDEN: ", "") },
+                { status: 403 }
+            );
+        }
+
+        return NextResponse.json(
+            { code: "INTERNAL_ERROR", message: "Failed to list tags" },
+            { status: 500 }
+        );
+    }
+});
+
+/**
+ * POST /api/recipe-tags?householdId=X
+ * Create a new recipe tag in the household (names are unique per household)
+ */
+export const POST = withAuth(
+    withIdempotency(async (req: AuthenticatedRequest) => {
+        try {
+            const householdId = new URL(req.url).searchParams.get("householdId");
+
+            if (!householdId) {
+                return NextResponse.json(
+                    { code: "VALIDATION_ERROR", message: "householdId is required" },
+                    { status: 400 }
+                );
+            }
+
+            const body = await req.json();
+            const input = createRecipeTagRequestSchema.parse(body);
+
+            const tag = recipeService.createTag(householdId, input, req.auth.sub);
+
+            return NextResponse.json({ tag }, { status: 201 });
+        } catch (error: any) {
+            console.error("Error creating recipe tag:", error);
+
+            if (error.name === "ZodError") {
+                return NextResponse.json(
+                    {
+                        code: "VALIDATION_ERROR",
+                        message: "Invalid request data",
+                        details: error.errors,
+                    },
+                    { status: 400 }
+                );
+            }
+
+            if (error.message?.startsWith("FORBIDDEN")) {
+                return NextResponse.json(
+                    { code: "FORBIDDEN", message: error.message.replace("FORBIDDEN: ", "") },
+                    { status: 403 }
+                );
+            }
+
+            if (error.message?.startsWith("CONFLICT")) {
+                return NextResponse.json(
+                    { code: "CONFLICT", message: error.message.replace("CONFLICT: ", "") },
+                    { status: 409 }
+                );
+            }
+
+            return NextResponse.json(
+                { code: "INTERNAL_ERROR", message: "Failed to create tag" },
+                { status: 500 }
+            );
+        }
+    })
+);
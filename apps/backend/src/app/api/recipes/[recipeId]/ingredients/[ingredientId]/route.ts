@@ -0,0 +1,96 @@
+import { withAuth, type AuthenticatedRequest } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
+import * as recipeService from "@/lib/services/recipeService";
+import { updateRecipeIngredientRequestSchema } from "@basket-bot/core";
+import { NextResponse } from "next/server";
+
+/**
+ * PATCH /api/recipes/[recipeId]/ingredients/[ingredientId]
+ * Update a recipe ingredient
+ */
+export const PATCH = withAuth(
+    withIdempotency(async (req: AuthenticatedRequest, context) => {
+        try {
+            const { recipeId, ingredientId } = await context.params;
+            const body = await req.json();
+            const input = updateRecipeIngredientRequestSchema.parse(body);
+
+            const ingredient = recipeService.updateIngredient(
+                recipeId,
+                ingredientId,
+                input,
+                req.auth.sub
+            );
+
+            return NextResponse.json({ ingredient }, { status: 200 });
+        } catch (error: any) {
+            console.error("Error updating recipe ingredient:", error);
+
+            if (error.name === "ZodError") {
+                return NextResponse.json(
+                    {
+                        code: "VALIDATION_ERROR",
+                        message: "Invalid request data",
+                        details: error.errors,
+                    },
+                    { status: 400 }
+                );
+            }
+
+            if (error.message?.startsWith("FORBIDDEN")) {
+                return NextResponse.json(
+                    { code: "FORBIDDEN", message: error.message.replace("FORBIDDEN: ", "") },
+                    { status: 403 }
+                );
+            }
+
+            if (error.message?.startsWith("NOT_FOUND")) {
+                return NextResponse.json(
+                    { code: "NOT_FOUND", message: error.message.replace("NOT_FOUND: ", "") },
+                    { status: 404 }
+                );
+            }
+
+            return NextResponse.json(
+                { code: "INTERNAL_ERROR", message: "Failed to update ingredient" },
+                { status: 500 }
+            );
+        }
+    })
+);
+
+/**
+ * DELETE /api/recipes/[recipeId]/ingredients/[ingredientId]
+ * Remove an ingredient from a recipe
+ */
+export const DELETE = withAuth(
+    withIdempotency(async (req: AuthenticatedRequest, context) => {
+        try {
+            const { recipeId, ingredientId } = await context.params;
+            recipeService.deleteIngredient(recipeId, ingredientId, req.auth.sub);
+
+            return NextResponse.json({ success: true }, { status: 200 });
+        } catch (error: any) {
+            console.error("Error deleting recipe ingredient:", error);
+
+            if (error.message?.startsWith("FORBIDDEN")) {
+                return NextResponse.json(
+                    { code: "FORBIDDEN", message: error.message.replace("FORBIDDEN: ", "") },
+                    { status: 403 }
+                );
+            }
+
+            if (error.message?.startsWith("NOT_FOUND")) {
+                return NextResponse.json(
+                    { code: "NOT_FOUND", message: error.message.replace("NOT_FOUND: ", "") },
+                    { status: 404 }
+                );
+            }
+
+            return NextResponse.json(
+                { code: "INTERNAL_ERROR", message: "Failed to delete ingredient" },
+                { status: 500 }
+            );
+        }
+    })
+);
@@ -0,0 +1,55 @@
+import { withAuth, type AuthenticatedRequest } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
+import * as recipeService from "@/lib/services/recipeService";
+import { reorderRecipeIngredientsRequestSchema } from "@basket-bot/core";
+import { NextResponse } from "next/server";
+
+/**
+ * POST /api/recipes/[recipeId]/ingredients/reorder
+ * Reorder a recipe's ingredients
+ */
+export const POST = withAuth(
+    withIdempotency(async (req: AuthenticatedRequest, context) => {
+        try {
+            const { recipeId } = await context.params;
+            const body = await req.json();
+            const { updates } = reorderRecipeIngredientsRequestSchema.parse(body);
+
+            const ingredients = recipeService.reorderIngredients(recipeId, updates, req.auth.sub);
+
+            return NextResponse.json({ ingredients }, { status: 200 });
+        } catch (error: any) {
+            console.error("Error reordering recipe ingredients:", error);
+
+            if (error.name === "ZodError") {
+                return NextResponse.json(
+                    {
+                        code: "VALIDATION_ERROR",
+                        message: "Invalid request data",
+                        details: error.errors,
+                    },
+                    { status: 400 }
+                );
+            }
+
+            if (error.message?.startsWith("FORBIDDEN")) {
+                return NextResponse.json(
+                    { code: "FORBIDDEN", message: error.message.replace("FORBIDDEN: ", "") },
+                    { status: 403 }
+                );
+            }
+
+            if (error.message?.startsWith("NOT_FOUND")) {
+                return NextResponse.json(
+                    { code: "NOT_FOUND", message: error.message.replace("NOT_FOUND: ", "") },
+                    { status: 404 }
+                );
+            }
+
+            return NextResponse.json(
+                { code: "INTERNAL_ERROR", message: "Failed to reorder ingredients" },
+                { status: 500 }
+            );
+        }
+    })
+);
@@ -0,0 +1,55 @@
+import { withAuth, type AuthenticatedRequest } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
+import * as recipeService from "@/lib/services/recipeService";
+import { addRecipeIngredientRequestSchema } from "@basket-bot/core";
+import { NextResponse } from "next/server";
+
+/**
+ * POST /api/recipes/[recipeId]/ingredients
+ * Add an ingredient to a recipe
+ */
+export const POST = withAuth(
+    withIdempotency(async (req: AuthenticatedRequest, context) => {
+        try {
+            const { recipeId } = await context.params;
+            const body = await req.json();
+            const input = addRecipeIngredientRequestSchema.parse(body);
+
+            const ingredient = recipeService.addIngredient(recipeId, input, req.auth.sub);
+
+            return NextResponse.json({ ingredient }, { status: 201 });
+        } catch (error: any) {
+            console.error("Error adding recipe ingredient:", error);
+
+            if (error.name === "ZodError") {
+                return NextResponse.json(
+                    {
+                        code: "VALIDATION_ERROR",
+                        message: "Invalid request data",
+                        details: error.errors,
+                    },
+                    { status: 400 }
+                );
+            }
+
+            if (error.message?.startsWith("FORBIDDEN")) {
+                return NextResponse.json(
+                    { code: "FORBIDDEN", message: error.message.replace("FORBIDDEN: ", "") },
+                    { status: 403 }
+                );
+            }
+
+            if (error.message?.startsWith("NOT_FOUND")) {
+                return NextResponse.json(
+                    { code: "NOT_FOUND", message: error.message.replace("NOT_FOUND: ", "") },
+                    { status: 404 }
+                );
+            }
+
+            return NextResponse.json(
+                { code: "INTERNAL_ERROR", message: "Failed to add ingredient" },
+                { status: 500 }
+            );
+        }
+    })
+);
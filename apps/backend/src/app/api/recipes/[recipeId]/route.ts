@@ -0,0 +1,125 @@
+import { withAuth, type AuthenticatedRequest } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
+import * as recipeService from "@/lib/services/recipeService";
+import { updateRecipeRequestSchema } from "@basket-bot/core";
+import { NextResponse } from "next/server";
+
+/**
+ * GET /api/recipes/[recipeId]
+ * Get a recipe with its tags and ingredients
+ */
+export const GET = withAuth(async (req: AuthenticatedRequest, context) => {
+    try {
+        const { recipeId } = await context.params;
+        const recipe = recipeService.getRecipeWithDetails(recipeId, req.auth.sub);
+
+        return NextResponse.json({ recipe }, { status: 200 });
+    } catch (error: any) {
+        console.error("Error getting recipe:", error);
+
+        if (error.message?.startsWith("FORBIDDEN")) {
+            return NextResponse.json(
+                { code: "FORBIDDEN", message: error.message.replace("FORBIDDEN: ", "") },
+                { status: 403 }
+            );
+        }
+
+        if (error.message?.startsWith("NOT_FOUND")) {
+            return NextResponse.json(
+                { code: "NOT_FOUND", message: error.message.replace("NOT_FOUND: ", "") },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json(
+            { code: "INTERNAL_ERROR", message: "Failed to get recipe" },
+            { status: 500 }
+        );
+    }
+});
+
+/**
+ * PATCH /api/recipes/[recipeId]
+ * Update recipe fields (name, description, steps, sourceUrl)
+ */
+export const PATCH = withAuth(
+    withIdempotency(async (req: AuthenticatedRequest, context) => {
+        try {
+            const { recipeId } = await context.params;
+            const body = await req.json();
+            const input = updateRecipeRequestSchema.parse(body);
+
+            const recipe = recipeService.updateRecipe(recipeId, input, req.auth.sub);
+
+            return NextResponse.json({ recipe }, { status: 200 });
+        } catch (error: any) {
+            console.error("Error updating recipe:", error);
+
+            if (error.name === "ZodError") {
+                return NextResponse.json(
+                    {
+                        code: "VALIDATION_ERROR",
+                        message: "Invalid request data",
+                        details: error.errors,
+                    },
+                    { status: 400 }
+                );
+            }
+
+            if (error.message?.startsWith("FORBIDDEN")) {
+                return NextResponse.json(
+                    { code: "FORBIDDEN", message: error.message.replace("FORBIDDEN: ", "") },
+                    { status: 403 }
+                );
+            }
+
+            if (error.message?.startsWith("NOT_FOUND")) {
+                return NextResponse.json(
+                    { code: "NOT_FOUND", message: error.message.replace("NOT_FOUND: ", "") },
+                    { status: 404 }
+                );
+            }
+
+            return NextResponse.json(
+                { code: "INTERNAL_ERROR", message: "Failed to update recipe" },
+                { status: 500 }
+            );
+        }
+    })
+);
+
+/**
+ * DELETE /api/recipes/[recipeId]
+ * Delete a recipe (ingredients and tag assignments cascade)
+ */
+export const DELETE = withAuth(
+    withIdempotency(async (req: AuthenticatedRequest, context) => {
+        try {
+            const { recipeId } = await context.params;
+            recipeService.deleteRecipe(recipeId, req.auth.sub);
+
+            return NextResponse.json({ success: true }, { status: 200 });
+        } catch (error: any) {
+            console.error("Error deleting recipe:", error);
+
+            if (error.message?.startsWith("FORBIDDEN")) {
+                return NextResponse.json(
+                    { code: "FORBIDDEN", message: error.message.replace("FORBIDDEN: ", "") },
+                    { status: 403 }
+                );
+            }
+
+            if (error.message?.startsWith("NOT_FOUND")) {
+                return NextResponse.json(
+                    { code: "NOT_FOUND", message: error.message.replace("NOT_FOUND: ", "") },
+                    { status: 404 }
+                );
+            }
+
+            return NextResponse.json(
+                { code: "INTERNAL_ERROR", message: "Failed to delete recipe" },
+                { status: 500 }
+            );
+        }
+    })
+);
@@ -0,0 +1,40 @@
+import { withAuth, type AuthenticatedRequest } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
+import * as recipeService from "@/lib/services/recipeService";
+import { NextResponse } from "next/server";
+
+/**
+ * PATCH /api/recipes/[recipeId]/unhide
+ * Make a hidden recipe visible again
+ */
+export const PATCH = withAuth(
+    withIdempotency(async (req: AuthenticatedRequest, context) => {
+        try {
+            const { recipeId } = await context.params;
+            const recipe = recipeService.setRecipeHidden(recipeId, false, req.auth.sub);
+
+            return NextResponse.json({ recipe }, { status: 200 });
+        } catch (error: any) {
+            console.error("Error unhiding recipe:", error);
+
+            if (error.message?.startsWith("FORBIDDEN")) {
+                return NextResponse.json(
+                    { code: "FORBIDDEN", message: error.message.replace("FORBIDDEN: ", "") },
+                    { status: 403 }
+                );
+            }
+
+            if (error.message?.startsWith("NOT_FOUND")) {
+                return NextResponse.json(
+                    { code: "NOT_FOUND", message: error.message.replace("NOT_FOUND: ", "") },
+                    { status: 404 }
+                );
+            }
+
+            return NextResponse.json(
+                { code: "INTERNAL_ERROR", message: "Failed to unhide recipe" },
+                { status: 500 }
+            );
+        }
+    })
+);
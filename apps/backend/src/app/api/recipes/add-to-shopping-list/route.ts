@@ -0,0 +1,63 @@
+import { withAuth, type AuthenticatedRequest } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
+import * as recipeService from "@/lib/services/recipeService";
+import { addRecipesToShoppingListRequestSchema } from "@basket-bot/core";
+import { NextResponse } from "next/server";
+
+/**
+ * POST /api/recipes/add-to-shopping-list
+ * Add the combined ingredients of the selected recipes to a store's shopping list,
+ * optionally scaled per recipe via scaleFactors ({ [recipeId]: factor }).
+ * Response lists created, merged and unmatched items; unmatched items are
+ * new store items without a location that the client may send to categorization.
+ */
+export const POST = withAuth(
+    withIdempotency(async (req: AuthenticatedRequest) => {
+        try {
+            const body = await req.json();
+            const { recipeIds, storeId, scaleFactors } =
+                addRecipesToShoppingListRequestSchema.parse(body);
+
+            const result = recipeService.addRecipesToShoppingList(
+                recipeIds,
+                storeId,
+                req.auth.sub,
+                scaleFactors
+            );
+
+            return NextResponse.json(result, { status: 200 });
+        } catch (error: any) {
+            console.error("Error adding recipes to shopping list:", error);
+
+            if (error.name === "ZodError") {
+                return NextResponse.json(
+                    {
+                        code: "VALIDATION_ERROR",
+                        message: "Invalid request data",
+                        details: error.errors,
+                    },
+                    { status: 400 }
+                );
+            }
+
+            if (error.message?.startsWith("FORBIDDEN")) {
+                return NextResponse.json(
+                    { code: "FORBIDDEN", message: error.message.replace("FORBIDDEN: ", "") },
+                    { status: 403 }
+                );
+            }
+
+            if (error.message?.startsWith("NOT_FOUND")) {
+                return NextResponse.json(
+                    { code: "NOT_FOUND", message: error.message.replace("NOT_FOUND: ", "") },
+                    { status: 404 }
+                );
+            }
+
+            return NextResponse.json(
+                { code: "INTERNAL_ERROR", message: "Failed to add recipes to shopping list" },
+                { status: 500 }
+            );
+        }
+    })
+);
@@ -0,0 +1,103 @@
+import { withAuth, type AuthenticatedRequest } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
+import * as recipeService from "@/lib/services/recipeService";
+import { createRecipeRequestSchema } from "@basket-bot/core";
+import { NextResponse } from "next/server";
+
+/**
+ * GET /api/recipes?householdId=X[&tagIds=a,b][&tagMode=all|any][&includeHidden=true]
+ * List household recipes, optionally filtered to recipes having ALL (default) or ANY of the given tags
+ */
+export const GET = withAuth(async (req: AuthenticatedRequest) => {
+    try {
+        const url = new URL(req.url);
+        const householdId = url.searchParams.get("householdId");
+
+        if (!householdId) {
+            return NextResponse.json(
+                { code: "VALIDATION_ERROR", message: "householdId is required" },
+                { status: 400 }
+            );
+        }
+
+        const tagIds = (url.searchParams.get("tagIds") ?? "")
+            .split(",")
+            .map((id) => id.trim())
+            .filter(Boolean);
+
+        const recipes = recipeService.getRecipes({
+            householdId,
+            userId: req.auth.sub,
+            tagIds,
+            tagMode: url.searchParams.get("tagMode") === "any" ? "any" : "all",
+            includeHidden: url.searchParams.get("includeHidden") === "true",
+        });
+
+        return NextResponse.json({ recipes }, { status: 200 });
+    } catch (error: any) {
+        console.error("Error listing recipes:", error);
+
+        if (error.message?.startsWith("FORBIDDEN")) {
+            return NextResponse.json(
+                { code: "FORBIDDEN", message: error.message.replace("FORBIDDEN: ", "") },
+                { status: 403 }
+            );
+        }
+
+        return NextResponse.json(
+            { code: "INTERNAL_ERROR", message: "Failed to list recipes" },
+            { status: 500 }
+        );
+    }
+});
+
+/**
+ * POST /api/recipes?householdId=X
+ * Create a new recipe in the household
+ */
+export const POST = withAuth(
+    withIdempotency(async (req: AuthenticatedRequest) => {
+        try {
+            const householdId = new URL(req.url).searchParams.get("householdId");
+
+            if (!householdId) {
+                return NextResponse.json(
+                    { code: "VALIDATION_ERROR", message: "householdId is required" },
+                    { status: 400 }
+                );
+            }
+
+            const body = await req.json();
+            const input = createRecipeRequestSchema.parse(body);
+
+            const recipe = recipeService.createRecipe(householdId, input, req.auth.sub);
+
+            return NextResponse.json({ recipe }, { status: 201 });
+        } catch (error: any) {
+            console.error("Error creating recipe:", error);
+
+            if (error.name === "ZodError") {
+                return NextResponse.json(
+                    {
+                        code: "VALIDATION_ERROR",
+                        message: "Invalid request data",
+                        details: error.errors,
+                    },
+                    { status: 400 }
+                );
+            }
+
+            if (error.message?.startsWith("FORBIDDEN")) {
+                return NextResponse.json(
+                    { code: "FORBIDDEN", message: error.message.replace("FORBIDDEN: ", "") },
+                    { status: 403 }
+                );
+            }
+
+            return NextResponse.json(
+                { code: "INTERNAL_ERROR", message: "Failed to create recipe" },
+                { status: 500 }
+            );
+        }
+    })
+);
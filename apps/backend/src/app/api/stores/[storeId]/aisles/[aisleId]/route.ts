@@ -1,5 +1,8 @@
 import { AuthenticatedRequest, withAuth } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
 import * as storeEntityService from "@/lib/services/storeEntityService";
+import { getExpectedUpdatedAt, versionConflictResponse } from "@/lib/utils/preconditions";
+import { VersionConflictError } from "@basket-bot/core";
 import { NextResponse } from "next/server";
 
 async function handleGet(
@@ -54,6 +57,7 @@ async function handlePut(
             storeId,
             name,
             userId: req.auth.sub,
+            expectedUpdatedAt: getExpectedUpdatedAt(req, body),
         });
 
         if (!aisle) {
@@ -65,6 +69,9 @@ async function handlePut(
 
         return NextResponse.json({ aisle });
     } catch (error: any) {
+        if (error instanceof VersionConflictError) {
+            return versionConflictResponse(error);
+        }
         if (error.message === "Access denied") {
             return NextResponse.json(
                 { code: "ACCESS_DENIED", message: "Access denied" },
@@ -99,6 +106,7 @@ async function handlePatch(
             storeId,
             sortOrder,
             userId: req.auth.sub,
+            expectedUpdatedAt: getExpectedUpdatedAt(req, body),
         });
 
         if (!aisle) {
@@ -110,6 +118,9 @@ async function handlePatch(
 
         return NextResponse.json({ aisle });
     } catch (error: any) {
+        if (error instanceof VersionConflictError) {
+            return versionConflictResponse(error);
+        }
         if (error.message === "Access denied") {
             return NextResponse.json(
                 { code: "ACCESS_DENIED", message: "Access denied" },
@@ -146,6 +157,6 @@ async function handleDelete(
 }
 
 export const GET = withAuth(handleGet);
-export const PUT = withAuth(handlePut);
-export const PATCH = withAuth(handlePatch);
-export const DELETE = withAuth(handleDelete);
+export const PUT = withAuth(withIdempotency(handlePut));
+export const PATCH = withAuth(withIdempotency(handlePatch));
+export const DELETE = withAuth(withIdempotency(handleDelete));
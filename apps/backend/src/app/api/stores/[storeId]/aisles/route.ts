@@ -1,4 +1,5 @@
 import { AuthenticatedRequest, withAuth } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
 import * as storeEntityService from "@/lib/services/storeEntityService";
 import { NextResponse } from "next/server";
 
@@ -57,4 +58,4 @@ async function handlePost(
 }
 
 export const GET = withAuth(handleGet);
-export const POST = withAuth(handlePost);
+export const POST = withAuth(withIdempotency(handlePost));
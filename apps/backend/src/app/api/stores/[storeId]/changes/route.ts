@@ -0,0 +1,44 @@
+import { AuthenticatedRequest, withAuth } from "@/lib/auth/withAuth";
+import * as storeEntityService from "@/lib/services/storeEntityService";
+import { storeChangesQuerySchema } from "@basket-bot/core";
+import { NextResponse } from "next/server";
+
+/**
+ * GET /api/stores/[storeId]/changes?since=<cursor>
+ * Shopping list items, store items, aisles, and sections changed or deleted since the cursor.
+ * Omit since (or pass 0) for a full snapshot; pass the returned cursor on the next request.
+ */
+async function handleGet(
+    req: AuthenticatedRequest,
+    { params }: { params: Promise<Record<string, string>> }
+) {
+    try {
+        const { storeId } = await params;
+        const url = new URL(req.url);
+        const query = storeChangesQuerySchema.parse({
+            since: url.searchParams.get("since") ?? undefined,
+        });
+
+        const changes = storeEntityService.getStoreChanges(storeId, query.since, req.auth.sub);
+        return NextResponse.json(changes);
+    } catch (error: any) {
+        if (error.message === "Access denied") {
+            return NextResponse.json(
+                { code: "ACCESS_DENIED", message: "Access denied" },
+                { status: 403 }
+            );
+        }
+        if (error.name === "ZodError") {
+            return NextResponse.json(
+                { code: "INVALID_INPUT", message: "Invalid input", details: error.errors },
+                { status: 400 }
+            );
+        }
+        return NextResponse.json(
+            { code: "INTERNAL_ERROR", message: "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
+
+export const GET = withAuth(handleGet);
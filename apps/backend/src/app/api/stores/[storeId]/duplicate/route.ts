@@ -1,4 +1,5 @@
 import { AuthenticatedRequest, withAuth } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
 import * as storeService from "@/lib/services/storeService";
 import { duplicateStoreRequestSchema } from "@basket-bot/core";
 import { NextResponse } from "next/server";
@@ -39,4 +40,4 @@ async function handlePost(
     }
 }
 
-export const POST = withAuth(handlePost);
+export const POST = withAuth(withIdempotency(handlePost));
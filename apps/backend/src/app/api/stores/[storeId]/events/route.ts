@@ -0,0 +1,109 @@
+import { AuthenticatedRequest, withAuth } from "@/lib/auth/withAuth";
+import * as storeEntityService from "@/lib/services/storeEntityService";
+import type { StoreEvent } from "@basket-bot/core";
+import { NextResponse } from "next/server";
+
+export const dynamic = "force-dynamic";
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+// Suggested client reconnect delay
+const RETRY_MS = 3000;
+
+/**
+ * GET /api/stores/[storeId]/events
+ * Server-Sent Events stream of the store's shopping list, item, aisle, and section changes.
+ * Resumes after the Last-Event-ID header (or ?lastEventId=); when that's no longer possible a
+ * "reset" event tells the client to refetch. The stream ends when the access token expires,
+ * so the client reconnects with a fresh token (and access is checked again).
+ */
+async function handleGet(
+    req: AuthenticatedRequest,
+    { params }: { params: Promise<Record<string, string>> }
+) {
+    try {
+        const { storeId } = await params;
+        const lastEventId =
+            req.headers.get("last-event-id") ?? req.nextUrl.searchParams.get("lastEventId");
+
+        const encoder = new TextEncoder();
+        let controller: ReadableStreamDefaultController<Uint8Array> | null = null;
+        let closed = false;
+
+        const send = (chunk: string) => {
+            if (closed || !controller) return;
+            try {
+                controller.enqueue(encoder.encode(chunk));
+            } catch {
+                close();
+            }
+        };
+        const sendEvent = (event: StoreEvent) => {
+            send(`id: ${event.id}\ndata: ${JSON.stringify(event)}\n\n`);
+        };
+
+        const { missed, unsubscribe } = storeEntityService.subscribeToStoreEvents(
+            storeId,
+            req.auth.sub,
+            lastEventId,
+            sendEvent
+        );
+
+        const heartbeat = setInterval(() => send(": ping\n\n"), HEARTBEAT_INTERVAL_MS);
+        const expiry = setTimeout(() => close(), Math.max(0, req.auth.exp * 1000 - Date.now()));
+
+        function close() {
+            if (closed) return;
+            closed = true;
+            unsubscribe();
+            clearInterval(heartbeat);
+            clearTimeout(expiry);
+            req.signal.removeEventListener("abort", close);
+            try {
+                controller?.close();
+            } catch {
+                // Already closed by the client
+            }
+        }
+
+        req.signal.addEventListener("abort", close);
+
+        const stream = new ReadableStream<Uint8Array>({
+            start(streamController) {
+                controller = streamController;
+                send(`retry: ${RETRY_MS}\n\n`);
+                if (missed === null) {
+                    send(`event: reset\ndata: {}\n\n`);
+                } else {
+                    missed.forEach(sendEvent);
+                }
+            },
+            cancel() {
+                close();
+            },
+        });
+
+        return new NextResponse(stream, {
+            headers: {
+                "Content-Type": "text/event-stream; charset=utf-8",
+                "Cache-Control": "no-cache, no-transform",
+                Connection: "keep-alive",
+                "X-Accel-Buffering": "no",
+            },
+        });
+    } catch (error: any) {
+        if (error.message === "Access denied") {
+            return NextResponse.json(
+                { code: "ACCESS_DENIED", message: "Access denied" },
+                { status: 403 }
+            );
+        }
+        return NextResponse.json(
+            { code: "INTERNAL_ERROR", message: "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
+
+export const GET = withAuth(handleGet);
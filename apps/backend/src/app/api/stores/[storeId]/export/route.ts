@@ -0,0 +1,56 @@
+import { AuthenticatedRequest, withAuth } from "@/lib/auth/withAuth";
+import * as storeService from "@/lib/services/storeService";
+import { exportStoreLayoutQuerySchema } from "@basket-bot/core";
+import { NextResponse } from "next/server";
+
+/**
+ * GET /api/stores/[storeId]/export?includeItems=false
+ * Store layout (aisles/sections, and items unless includeItems=false) as portable JSON
+ * that POST /api/stores/import accepts on any Basket Bot server
+ */
+async function handleGet(
+    req: AuthenticatedRequest,
+    { params }: { params: Promise<Record<string, string>> }
+) {
+    try {
+        const { storeId } = await params;
+        const url = new URL(req.url);
+        const query = exportStoreLayoutQuerySchema.parse({
+            includeItems: url.searchParams.get("includeItems") ?? undefined,
+        });
+
+        const layout = storeService.exportStoreLayout({
+            storeId,
+            userId: req.auth.sub,
+            includeItems: query.includeItems,
+        });
+
+        if (!layout) {
+            return NextResponse.json(
+                { code: "NOT_FOUND", message: "Store not found" },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ layout });
+    } catch (error: any) {
+        if (error.message === "Access denied") {
+            return NextResponse.json(
+                { code: "ACCESS_DENIED", message: "Access denied" },
+                { status: 403 }
+            );
+        }
+        if (error.name === "ZodError") {
+            return NextResponse.json(
+                { code: "INVALID_INPUT", message: "Invalid input", details: error.errors },
+                { status: 400 }
+            );
+        }
+        return NextResponse.json(
+            { code: "INTERNAL_ERROR", message: "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
+
+export const GET = withAuth(handleGet);
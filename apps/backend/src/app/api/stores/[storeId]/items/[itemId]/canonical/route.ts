@@ -0,0 +1,99 @@
+import { AuthenticatedRequest, withAuth } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
+import * as catalogService from "@/lib/services/catalogService";
+import { linkStoreItemRequestSchema } from "@basket-bot/core";
+import { NextResponse } from "next/server";
+
+/**
+ * PUT /api/stores/[storeId]/items/[itemId]/canonical
+ * Link the item to a canonical item by hand: { canonicalItemId }, or null to unlink it
+ */
+async function handlePut(
+    req: AuthenticatedRequest,
+    { params }: { params: Promise<Record<string, string>> }
+) {
+    try {
+        const { storeId, itemId } = await params;
+        const body = await req.json();
+        const input = linkStoreItemRequestSchema.parse(body);
+
+        const item = catalogService.linkStoreItem({
+            storeId,
+            itemId,
+            canonicalItemId: input.canonicalItemId,
+            userId: req.auth.sub,
+        });
+
+        if (!item) {
+            return NextResponse.json(
+                { code: "NOT_FOUND", message: "Item not found" },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ item });
+    } catch (error: any) {
+        if (error.message === "Access denied") {
+            return NextResponse.json(
+                { code: "ACCESS_DENIED", message: "Access denied" },
+                { status: 403 }
+            );
+        }
+        if (error.name === "ZodError") {
+            return NextResponse.json(
+                { code: "INVALID_INPUT", message: "Invalid input", details: error.errors },
+                { status: 400 }
+            );
+        }
+        if (error.message?.startsWith("VALIDATION_ERROR")) {
+            return NextResponse.json(
+                {
+                    code: "INVALID_INPUT",
+                    message: error.message.replace("VALIDATION_ERROR: ", ""),
+                },
+                { status: 400 }
+            );
+        }
+        return NextResponse.json(
+            { code: "INTERNAL_ERROR", message: "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * DELETE /api/stores/[storeId]/items/[itemId]/canonical
+ * Drop the hand-made link; the item is linked by name again
+ */
+async function handleDelete(
+    req: AuthenticatedRequest,
+    { params }: { params: Promise<Record<string, string>> }
+) {
+    try {
+        const { storeId, itemId } = await params;
+        const item = catalogService.resetStoreItemLink({ storeId, itemId, userId: req.auth.sub });
+
+        if (!item) {
+            return NextResponse.json(
+                { code: "NOT_FOUND", message: "Item not found" },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ item });
+    } catch (error: any) {
+        if (error.message === "Access denied") {
+            return NextResponse.json(
+                { code: "ACCESS_DENIED", message: "Access denied" },
+                { status: 403 }
+            );
+        }
+        return NextResponse.json(
+            { code: "INTERNAL_ERROR", message: "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
+
+export const PUT = withAuth(withIdempotency(handlePut));
+export const DELETE = withAuth(withIdempotency(handleDelete));
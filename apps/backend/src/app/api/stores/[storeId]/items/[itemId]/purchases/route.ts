@@ -0,0 +1,49 @@
+import { AuthenticatedRequest, withAuth } from "@/lib/auth/withAuth";
+import * as storeEntityService from "@/lib/services/storeEntityService";
+import { purchaseHistoryQuerySchema } from "@basket-bot/core";
+import { NextResponse } from "next/server";
+
+/**
+ * GET /api/stores/[storeId]/items/[itemId]/purchases?limit=50&before=<checkedAt>
+ * Purchase history of one store item, newest first
+ */
+async function handleGet(
+    req: AuthenticatedRequest,
+    { params }: { params: Promise<Record<string, string>> }
+) {
+    try {
+        const { storeId, itemId } = await params;
+        const url = new URL(req.url);
+        const query = purchaseHistoryQuerySchema.parse({
+            limit: url.searchParams.get("limit") ?? undefined,
+            before: url.searchParams.get("before") ?? undefined,
+        });
+
+        const purchases = storeEntityService.getStoreItemPurchaseHistory(
+            storeId,
+            itemId,
+            query,
+            req.auth.sub
+        );
+        return NextResponse.json({ purchases });
+    } catch (error: any) {
+        if (error.message === "Access denied") {
+            return NextResponse.json(
+                { code: "ACCESS_DENIED", message: "Access denied" },
+                { status: 403 }
+            );
+        }
+        if (error.name === "ZodError") {
+            return NextResponse.json(
+                { code: "INVALID_INPUT", message: "Invalid input", details: error.errors },
+                { status: 400 }
+            );
+        }
+        return NextResponse.json(
+            { code: "INTERNAL_ERROR", message: "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
+
+export const GET = withAuth(handleGet);
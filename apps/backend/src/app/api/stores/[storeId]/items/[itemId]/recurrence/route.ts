@@ -0,0 +1,117 @@
+import { AuthenticatedRequest, withAuth } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
+import * as recurrenceService from "@/lib/services/recurrenceService";
+import { setStoreItemRecurrenceRequestSchema } from "@basket-bot/core";
+import { NextResponse } from "next/server";
+
+/**
+ * GET /api/stores/[storeId]/items/[itemId]/recurrence
+ * The item's recurrence with its next due date, or null when it doesn't recur
+ */
+async function handleGet(
+    req: AuthenticatedRequest,
+    { params }: { params: Promise<Record<string, string>> }
+) {
+    try {
+        const { storeId, itemId } = await params;
+        const recurrence = recurrenceService.getItemRecurrence(storeId, itemId, req.auth.sub);
+        return NextResponse.json({ recurrence });
+    } catch (error: any) {
+        if (error.message === "Access denied") {
+            return NextResponse.json(
+                { code: "ACCESS_DENIED", message: "Access denied" },
+                { status: 403 }
+            );
+        }
+        return NextResponse.json(
+            { code: "INTERNAL_ERROR", message: "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * PUT /api/stores/[storeId]/items/[itemId]/recurrence
+ * Set or replace the recurrence: { mode: "fixed", intervalDays } or { mode: "learned" }
+ */
+async function handlePut(
+    req: AuthenticatedRequest,
+    { params }: { params: Promise<Record<string, string>> }
+) {
+    try {
+        const { storeId, itemId } = await params;
+        const body = await req.json();
+        const input = setStoreItemRecurrenceRequestSchema.parse(body);
+
+        const recurrence = recurrenceService.setItemRecurrence(
+            storeId,
+            itemId,
+            input,
+            req.auth.sub
+        );
+
+        if (!recurrence) {
+            return NextResponse.json(
+                { code: "NOT_FOUND", message: "Item not found" },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ recurrence });
+    } catch (error: any) {
+        if (error.message === "Access denied") {
+            return NextResponse.json(
+                { code: "ACCESS_DENIED", message: "Access denied" },
+                { status: 403 }
+            );
+        }
+        if (error.name === "ZodError") {
+            return NextResponse.json(
+                { code: "INVALID_INPUT", message: "Invalid input", details: error.errors },
+                { status: 400 }
+            );
+        }
+        return NextResponse.json(
+            { code: "INTERNAL_ERROR", message: "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * DELETE /api/stores/[storeId]/items/[itemId]/recurrence
+ * Stop the item from recurring
+ */
+async function handleDelete(
+    req: AuthenticatedRequest,
+    { params }: { params: Promise<Record<string, string>> }
+) {
+    try {
+        const { storeId, itemId } = await params;
+        const cleared = recurrenceService.clearItemRecurrence(storeId, itemId, req.auth.sub);
+
+        if (!cleared) {
+            return NextResponse.json(
+                { code: "NOT_FOUND", message: "Recurrence not found" },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error: any) {
+        if (error.message === "Access denied") {
+            return NextResponse.json(
+                { code: "ACCESS_DENIED", message: "Access denied" },
+                { status: 403 }
+            );
+        }
+        return NextResponse.json(
+            { code: "INTERNAL_ERROR", message: "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
+
+export const GET = withAuth(handleGet);
+export const PUT = withAuth(withIdempotency(handlePut));
+export const DELETE = withAuth(withIdempotency(handleDelete));
@@ -1,5 +1,8 @@
 import { AuthenticatedRequest, withAuth } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
 import * as storeEntityService from "@/lib/services/storeEntityService";
+import { getExpectedUpdatedAt, versionConflictResponse } from "@/lib/utils/preconditions";
+import { VersionConflictError } from "@basket-bot/core";
 import { NextResponse } from "next/server";
 
 async function handleGet(
@@ -56,6 +59,7 @@ async function handlePut(
             aisleId: aisleId ?? null,
             sectionId: sectionId ?? null,
             userId: req.auth.sub,
+            expectedUpdatedAt: getExpectedUpdatedAt(req, body),
         });
 
         if (!item) {
@@ -67,6 +71,9 @@ async function handlePut(
 
         return NextResponse.json({ item });
     } catch (error: any) {
+        if (error instanceof VersionConflictError) {
+            return versionConflictResponse(error);
+        }
         if (error.message === "Access denied") {
             return NextResponse.json(
                 { code: "ACCESS_DENIED", message: "Access denied" },
@@ -109,5 +116,5 @@ async function handleDelete(
 }
 
 export const GET = withAuth(handleGet);
-export const PUT = withAuth(handlePut);
-export const DELETE = withAuth(handleDelete);
+export const PUT = withAuth(withIdempotency(handlePut));
+export const DELETE = withAuth(withIdempotency(handleDelete));
@@ -0,0 +1,113 @@
+import { AuthenticatedRequest, withAuth } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
+import * as storeMapService from "@/lib/services/storeMapService";
+import { saveStoreMapRequestSchema } from "@basket-bot/core";
+import { NextResponse } from "next/server";
+
+/**
+ * GET /api/stores/[storeId]/map
+ * The store's map, or null when it has none
+ */
+async function handleGet(
+    req: AuthenticatedRequest,
+    { params }: { params: Promise<Record<string, string>> }
+) {
+    try {
+        const { storeId } = await params;
+        const map = storeMapService.getStoreMap(storeId, req.auth.sub);
+        return NextResponse.json({ map });
+    } catch (error: any) {
+        if (error.message === "Access denied") {
+            return NextResponse.json(
+                { code: "ACCESS_DENIED", message: "Access denied" },
+                { status: 403 }
+            );
+        }
+        return NextResponse.json(
+            { code: "INTERNAL_ERROR", message: "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * PUT /api/stores/[storeId]/map
+ * Create or replace the map: { entrance, checkout, aisles, connections }
+ */
+async function handlePut(
+    req: AuthenticatedRequest,
+    { params }: { params: Promise<Record<string, string>> }
+) {
+    try {
+        const { storeId } = await params;
+        const body = await req.json();
+        const input = saveStoreMapRequestSchema.parse(body);
+
+        const map = storeMapService.saveStoreMap(storeId, input, req.auth.sub);
+        return NextResponse.json({ map });
+    } catch (error: any) {
+        if (error.message === "Access denied") {
+            return NextResponse.json(
+                { code: "ACCESS_DENIED", message: "Access denied" },
+                { status: 403 }
+            );
+        }
+        if (error.name === "ZodError") {
+            return NextResponse.json(
+                { code: "INVALID_INPUT", message: "Invalid input", details: error.errors },
+                { status: 400 }
+            );
+        }
+        if (error.message?.startsWith("VALIDATION_ERROR")) {
+            return NextResponse.json(
+                {
+                    code: "INVALID_INPUT",
+                    message: error.message.replace("VALIDATION_ERROR: ", ""),
+                },
+                { status: 400 }
+            );
+        }
+        return NextResponse.json(
+            { code: "INTERNAL_ERROR", message: "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * DELETE /api/stores/[storeId]/map
+ * Remove the map; the list goes back to aisle order
+ */
+async function handleDelete(
+    req: AuthenticatedRequest,
+    { params }: { params: Promise<Record<string, string>> }
+) {
+    try {
+        const { storeId } = await params;
+        const deleted = storeMapService.deleteStoreMap(storeId, req.auth.sub);
+
+        if (!deleted) {
+            return NextResponse.json(
+                { code: "NOT_FOUND", message: "Store map not found" },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error: any) {
+        if (error.message === "Access denied") {
+            return NextResponse.json(
+                { code: "ACCESS_DENIED", message: "Access denied" },
+                { status: 403 }
+            );
+        }
+        return NextResponse.json(
+            { code: "INTERNAL_ERROR", message: "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
+
+export const GET = withAuth(handleGet);
+export const PUT = withAuth(withIdempotency(handlePut));
+export const DELETE = withAuth(withIdempotency(handleDelete));
@@ -1,4 +1,5 @@
 import { AuthenticatedRequest, withAuth } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
 import * as storeService from "@/lib/services/storeService";
 import { updateStoreRequestSchema } from "@basket-bot/core";
 import { NextResponse } from "next/server";
@@ -116,5 +117,5 @@ async function handleDelete(
 }
 
 export const GET = withAuth(handleGet);
-export const PUT = withAuth(handlePut);
-export const DELETE = withAuth(handleDelete);
+export const PUT = withAuth(withIdempotency(handlePut));
+export const DELETE = withAuth(withIdempotency(handleDelete));
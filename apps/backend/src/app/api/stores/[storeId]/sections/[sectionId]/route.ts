@@ -1,5 +1,8 @@
 import { AuthenticatedRequest, withAuth } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
 import * as storeEntityService from "@/lib/services/storeEntityService";
+import { getExpectedUpdatedAt, versionConflictResponse } from "@/lib/utils/preconditions";
+import { VersionConflictError } from "@basket-bot/core";
 import { NextResponse } from "next/server";
 
 async function handleGet(
@@ -70,6 +73,7 @@ async function handlePut(
             name,
             aisleId,
             userId: req.auth.sub,
+            expectedUpdatedAt: getExpectedUpdatedAt(req, body),
         });
 
         if (!section) {
@@ -81,6 +85,9 @@ async function handlePut(
 
         return NextResponse.json({ section });
     } catch (error: any) {
+        if (error instanceof VersionConflictError) {
+            return versionConflictResponse(error);
+        }
         if (error.message === "Access denied") {
             return NextResponse.json(
                 { code: "ACCESS_DENIED", message: "Access denied" },
@@ -123,6 +130,7 @@ async function handlePatch(
             aisleId,
             sortOrder,
             userId: req.auth.sub,
+            expectedUpdatedAt: getExpectedUpdatedAt(req, body),
         });
 
         if (!section) {
@@ -134,6 +142,9 @@ async function handlePatch(
 
         return NextResponse.json({ section });
     } catch (error: any) {
+        if (error instanceof VersionConflictError) {
+            return versionConflictResponse(error);
+        }
         if (error.message === "Access denied") {
             return NextResponse.json(
                 { code: "ACCESS_DENIED", message: "Access denied" },
@@ -170,6 +181,6 @@ async function handleDelete(
 }
 
 export const GET = withAuth(handleGet);
-export const PUT = withAuth(handlePut);
-export const PATCH = withAuth(handlePatch);
-export const DELETE = withAuth(handleDelete);
+export const PUT = withAuth(withIdempotency(handlePut));
+export const PATCH = withAuth(withIdempotency(handlePatch));
+export const DELETE = withAuth(withIdempotency(handleDelete));
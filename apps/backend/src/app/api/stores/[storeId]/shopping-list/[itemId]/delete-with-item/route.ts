@@ -1,4 +1,5 @@
 import { AuthenticatedRequest, withAuth } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
 import * as storeEntityService from "@/lib/services/storeEntityService";
 import { NextResponse } from "next/server";
 
@@ -25,4 +26,4 @@ async function handleDelete(
     }
 }
 
-export const DELETE = withAuth(handleDelete);
+export const DELETE = withAuth(withIdempotency(handleDelete));
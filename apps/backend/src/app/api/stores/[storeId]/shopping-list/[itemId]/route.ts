@@ -1,4 +1,5 @@
 import { AuthenticatedRequest, withAuth } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
 import * as storeEntityService from "@/lib/services/storeEntityService";
 import { NotFoundError } from "@basket-bot/core";
 import { NextResponse } from "next/server";
@@ -32,4 +33,4 @@ async function handleDelete(
     }
 }
 
-export const DELETE = withAuth(handleDelete);
+export const DELETE = withAuth(withIdempotency(handleDelete));
@@ -1,4 +1,5 @@
 import { AuthenticatedRequest, withAuth } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
 import * as storeEntityService from "@/lib/services/storeEntityService";
 import { NotFoundError } from "@basket-bot/core";
 import { NextResponse } from "next/server";
@@ -52,4 +53,4 @@ async function handlePost(
     }
 }
 
-export const POST = withAuth(handlePost);
+export const POST = withAuth(withIdempotency(handlePost));
@@ -1,4 +1,5 @@
 import { AuthenticatedRequest, withAuth } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
 import * as storeEntityService from "@/lib/services/storeEntityService";
 import { NextResponse } from "next/server";
 
@@ -24,4 +25,4 @@ async function handlePost(
     }
 }
 
-export const POST = withAuth(handlePost);
+export const POST = withAuth(withIdempotency(handlePost));
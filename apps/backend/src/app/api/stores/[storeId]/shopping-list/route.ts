@@ -1,6 +1,8 @@
 import { AuthenticatedRequest, withAuth } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
 import * as storeEntityService from "@/lib/services/storeEntityService";
-import { shoppingListItemInputSchema } from "@basket-bot/core";
+import { getExpectedUpdatedAt, versionConflictResponse } from "@/lib/utils/preconditions";
+import { shoppingListItemInputSchema, VersionConflictError } from "@basket-bot/core";
 import { NextResponse } from "next/server";
 
 async function handleGet(
@@ -42,10 +44,14 @@ async function handlePost(
         const item = storeEntityService.upsertShoppingListItem({
             ...validatedInput,
             userId: req.auth.sub,
+            expectedUpdatedAt: getExpectedUpdatedAt(req, body),
         });
         return NextResponse.json({ item }, { status: body.id ? 200 : 201 });
     } catch (error: any) {
         console.error("POST shopping-list error:", error);
+        if (error instanceof VersionConflictError) {
+            return versionConflictResponse(error);
+        }
         if (error.message === "Access denied") {
             return NextResponse.json(
                 { code: "ACCESS_DENIED", message: "Access denied" },
@@ -66,4 +72,4 @@ async function handlePost(
 }
 
 export const GET = withAuth(handleGet);
-export const POST = withAuth(handlePost);
+export const POST = withAuth(withIdempotency(handlePost));
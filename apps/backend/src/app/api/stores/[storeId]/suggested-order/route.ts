@@ -0,0 +1,32 @@
+import { AuthenticatedRequest, withAuth } from "@/lib/auth/withAuth";
+import * as learnedOrderService from "@/lib/services/learnedOrderService";
+import { NextResponse } from "next/server";
+
+/**
+ * GET /api/stores/[storeId]/suggested-order
+ * Aisle and section order learned from the order items were checked off on recent trips.
+ * Apply it with the aisle and section reorder endpoints.
+ */
+async function handleGet(
+    req: AuthenticatedRequest,
+    { params }: { params: Promise<Record<string, string>> }
+) {
+    try {
+        const { storeId } = await params;
+        const suggestion = learnedOrderService.getSuggestedOrder(storeId, req.auth.sub);
+        return NextResponse.json({ suggestion });
+    } catch (error: any) {
+        if (error.message === "Access denied") {
+            return NextResponse.json(
+                { code: "ACCESS_DENIED", message: "Access denied" },
+                { status: 403 }
+            );
+        }
+        return NextResponse.json(
+            { code: "INTERNAL_ERROR", message: "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
+
+export const GET = withAuth(handleGet);
@@ -1,4 +1,5 @@
 import { withAuth, type AuthenticatedRequest } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
 import * as storeService from "@/lib/services/storeService";
 import { updateStoreVisibilityRequestSchema } from "@basket-bot/core";
 import { NextResponse } from "next/server";
@@ -7,41 +8,43 @@ import { NextResponse } from "next/server";
  * PATCH /api/stores/[storeId]/visibility
  * Update a store's visibility (hide/show in dropdowns)
  */
-export const PATCH = withAuth(async (req: AuthenticatedRequest, context: any) => {
-    try {
-        const storeId = context.params.storeId;
-        const userId = req.auth.sub;
+export const PATCH = withAuth(
+    withIdempotency(async (req: AuthenticatedRequest, context: any) => {
+        try {
+            const storeId = context.params.storeId;
+            const userId = req.auth.sub;
 
-        const body = await req.json();
-        const { isHidden } = updateStoreVisibilityRequestSchema.parse(body);
+            const body = await req.json();
+            const { isHidden } = updateStoreVisibilityRequestSchema.parse(body);
 
-        const updatedStore = storeService.updateStoreVisibility({
-            storeId,
-            isHidden,
-            userId,
-        });
+            const updatedStore = storeService.updateStoreVisibility({
+                storeId,
+                isHidden,
+                userId,
+            });
 
-        if (!updatedStore) {
-            return NextResponse.json(
-                { code: "NOT_FOUND", message: "Store not found" },
-                { status: 404 }
-            );
-        }
+            if (!updatedStore) {
+                return NextResponse.json(
+                    { code: "NOT_FOUND", message: "Store not found" },
+                    { status: 404 }
+                );
+            }
 
-        return NextResponse.json(updatedStore, { status: 200 });
-    } catch (error: any) {
-        console.error("Error updating store visibility:", error);
+            return NextResponse.json(updatedStore, { status: 200 });
+        } catch (error: any) {
+            console.error("Error updating store visibility:", error);
+
+            if (error.message?.includes("Access denied")) {
+                return NextResponse.json(
+                    { code: "FORBIDDEN", message: error.message },
+                    { status: 403 }
+                );
+            }
 
-        if (error.message?.includes("Access denied")) {
             return NextResponse.json(
-                { code: "FORBIDDEN", message: error.message },
-                { status: 403 }
+                { code: "INTERNAL_ERROR", message: "Failed to update store visibility" },
+                { status: 500 }
             );
         }
-
-        return NextResponse.json(
-            { code: "INTERNAL_ERROR", message: "Failed to update store visibility" },
-            { status: 500 }
-        );
-    }
-});
+    })
+);
@@ -0,0 +1,41 @@
+import { AuthenticatedRequest, withAuth } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
+import * as storeService from "@/lib/services/storeService";
+import { importStoreLayoutRequestSchema } from "@basket-bot/core";
+import { NextResponse } from "next/server";
+
+/**
+ * POST /api/stores/import
+ * Create a store from a layout exported by GET /api/stores/[storeId]/export
+ * (this server or another). Name collisions are renamed unless onNameConflict is "error".
+ */
+async function handlePost(req: AuthenticatedRequest) {
+    try {
+        const body = await req.json();
+        const data = importStoreLayoutRequestSchema.parse(body);
+
+        const store = storeService.importStoreLayout({ request: data, userId: req.auth.sub });
+
+        return NextResponse.json({ store }, { status: 201 });
+    } catch (error: any) {
+        if (error.name === "ZodError") {
+            return NextResponse.json(
+                { code: "INVALID_INPUT", message: "Invalid input", details: error.errors },
+                { status: 400 }
+            );
+        }
+        if (error.message?.startsWith("CONFLICT")) {
+            return NextResponse.json(
+                { code: "CONFLICT", message: error.message.replace("CONFLICT: ", "") },
+                { status: 409 }
+            );
+        }
+        console.error("Import store error:", error);
+        return NextResponse.json(
+            { code: "INTERNAL_ERROR", message: "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
+
+export const POST = withAuth(withIdempotency(handlePost));
@@ -1,4 +1,5 @@
 import { AuthenticatedRequest, withAuth } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
 import * as storeService from "@/lib/services/storeService";
 import { createStoreRequestSchema } from "@basket-bot/core";
 import { NextResponse } from "next/server";
@@ -46,4 +47,4 @@ async function handlePost(req: AuthenticatedRequest) {
 }
 
 export const GET = withAuth(handleGet);
-export const POST = withAuth(handlePost);
+export const POST = withAuth(withIdempotency(handlePost));
@@ -1,11 +1,14 @@
 import { AuthenticatedRequest, withAuth } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
 import { changeUserPassword } from "@/lib/repos/userRepo";
+import * as apiTokenService from "@/lib/services/apiTokenService";
+import * as sessionService from "@/lib/services/sessionService";
 import { changePasswordRequestSchema, changePasswordResponseSchema } from "@basket-bot/core";
 import { NextResponse } from "next/server";
 
 /**
  * PATCH /api/user/password
- * Change user password
+ * Change user password; every other session is signed out and every API token revoked
  */
 async function handlePatch(req: AuthenticatedRequest) {
     try {
@@ -28,6 +31,10 @@ async function handlePatch(req: AuthenticatedRequest) {
             );
         }
 
+        // Whoever knew the old password may still be signed in elsewhere, or have made API tokens
+        sessionService.endOtherSessions(req.auth.sub, req.auth.sid);
+        apiTokenService.deleteAllApiTokens(req.auth.sub);
+
         const response = changePasswordResponseSchema.parse({ success: true });
 
         return NextResponse.json(response);
@@ -50,4 +57,4 @@ async function handlePatch(req: AuthenticatedRequest) {
     }
 }
 
-export const PATCH = withAuth(handlePatch);
+export const PATCH = withAuth(withIdempotency(handlePatch));
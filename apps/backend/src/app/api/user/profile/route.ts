@@ -1,4 +1,5 @@
 import { AuthenticatedRequest, withAuth } from "@/lib/auth/withAuth";
+import { withIdempotency } from "@/lib/auth/withIdempotency";
 import { updateUserProfile } from "@/lib/repos/userRepo";
 import { updateProfileRequestSchema, updateProfileResponseSchema } from "@basket-bot/core";
 import { NextResponse } from "next/server";
@@ -44,4 +45,4 @@ async function handlePatch(req: AuthenticatedRequest) {
     }
 }
 
-export const PATCH = withAuth(handlePatch);
+export const PATCH = withAuth(withIdempotency(handlePatch));
@@ -129,6 +129,8 @@ export function initializeDatabase() {
             "lastUsedAt" DATETIME,
             "isHidden" BOOLEAN NOT NULL DEFAULT 0,
             "isFavorite" BOOLEAN NOT NULL DEFAULT 0,
+            "canonicalItemId" TEXT,
+            "isCanonicalLinkConfirmed" BOOLEAN NOT NULL DEFAULT 0,
             "createdById" TEXT NOT NULL,
             "updatedById" TEXT NOT NULL,
             "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
@@ -136,11 +138,30 @@ export function initializeDatabase() {
             FOREIGN KEY ("storeId") REFERENCES "Store" ("id") ON DELETE CASCADE,
             FOREIGN KEY ("aisleId") REFERENCES "StoreAisle" ("id") ON DELETE SET NULL,
             FOREIGN KEY ("sectionId") REFERENCES "StoreSection" ("id") ON DELETE SET NULL,
+            FOREIGN KEY ("canonicalItemId") REFERENCES "CanonicalItem" ("id") ON DELETE SET NULL,
             FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE RESTRICT,
             FOREIGN KEY ("updatedById") REFERENCES "User" ("id") ON DELETE RESTRICT,
             UNIQUE ("storeId", "nameNorm")
         );
 
+        -- CanonicalItem table (one product across a household's or user's stores)
+        CREATE TABLE IF NOT EXISTS "CanonicalItem" (
+            "id" TEXT NOT NULL PRIMARY KEY,
+            "householdId" TEXT,
+            "userId" TEXT,
+            "name" TEXT NOT NULL CHECK(length("name") >= 1 AND length("name") <= 100),
+            "nameNorm" TEXT NOT NULL CHECK(length("nameNorm") >= 1 AND length("nameNorm") <= 100),
+            "createdById" TEXT NOT NULL,
+            "updatedById" TEXT NOT NULL,
+            "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            "updatedAt" DATETIME NOT NULL,
+            CHECK(("householdId" IS NULL) <> ("userId" IS NULL)),
+            FOREIGN KEY ("householdId") REFERENCES "Household" ("id") ON DELETE CASCADE,
+            FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE,
+            FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE RESTRICT,
+            FOREIGN KEY ("updatedById") REFERENCES "User" ("id") ON DELETE RESTRICT
+        );
+
         -- ShoppingListItem table
         CREATE TABLE IF NOT EXISTS "ShoppingListItem" (
             "id" TEXT NOT NULL PRIMARY KEY,
@@ -177,6 +198,7 @@ export function initializeDatabase() {
             "description" TEXT CHECK("description" IS NULL OR length("description") <= 2000),
             "steps" TEXT CHECK("steps" IS NULL OR length("steps") <= 50000),
             "sourceUrl" TEXT CHECK("sourceUrl" IS NULL OR length("sourceUrl") <= 500),
+            "servings" INTEGER CHECK("servings" IS NULL OR ("servings" >= 1 AND "servings" <= 100)),
             "isHidden" INTEGER,
             "createdById" TEXT NOT NULL,
             "updatedById" TEXT NOT NULL,
@@ -230,12 +252,229 @@ export function initializeDatabase() {
             FOREIGN KEY ("updatedById") REFERENCES "User" ("id") ON DELETE RESTRICT
         );
 
+        -- MealPlan table
+        CREATE TABLE IF NOT EXISTS "MealPlan" (
+            "id" TEXT NOT NULL PRIMARY KEY,
+            "householdId" TEXT NOT NULL,
+            "date" TEXT NOT NULL CHECK(length("date") = 10),
+            "createdById" TEXT NOT NULL,
+            "updatedById" TEXT NOT NULL,
+            "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            "updatedAt" DATETIME NOT NULL,
+            FOREIGN KEY ("householdId") REFERENCES "Household" ("id") ON DELETE CASCADE,
+            FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE RESTRICT,
+            FOREIGN KEY ("updatedById") REFERENCES "User" ("id") ON DELETE RESTRICT,
+            UNIQUE("householdId", "date")
+        );
+
+        -- MealPlanEntry table
+        CREATE TABLE IF NOT EXISTS "MealPlanEntry" (
+            "id" TEXT NOT NULL PRIMARY KEY,
+            "mealPlanId" TEXT NOT NULL,
+            "recipeId" TEXT NOT NULL,
+            "slot" TEXT NOT NULL CHECK("slot" IN ('breakfast', 'lunch', 'dinner')),
+            "servings" INTEGER NOT NULL DEFAULT 1 CHECK("servings" >= 1 AND "servings" <= 100),
+            "createdById" TEXT NOT NULL,
+            "updatedById" TEXT NOT NULL,
+            "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            "updatedAt" DATETIME NOT NULL,
+            FOREIGN KEY ("mealPlanId") REFERENCES "MealPlan" ("id") ON DELETE CASCADE,
+            FOREIGN KEY ("recipeId") REFERENCES "Recipe" ("id") ON DELETE CASCADE,
+            FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE RESTRICT,
+            FOREIGN KEY ("updatedById") REFERENCES "User" ("id") ON DELETE RESTRICT
+        );
+
+        -- PurchaseEvent table
+        CREATE TABLE IF NOT EXISTS "PurchaseEvent" (
+            "id" TEXT NOT NULL PRIMARY KEY,
+            "storeId" TEXT NOT NULL,
+            "storeItemId" TEXT NOT NULL,
+            "shoppingListItemId" TEXT,
+            "qty" REAL,
+            "unitId" TEXT,
+            "checkedBy" TEXT,
+            "checkedAt" DATETIME NOT NULL,
+            "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            FOREIGN KEY ("storeId") REFERENCES "Store" ("id") ON DELETE CASCADE,
+            FOREIGN KEY ("storeItemId") REFERENCES "StoreItem" ("id") ON DELETE CASCADE,
+            FOREIGN KEY ("shoppingListItemId") REFERENCES "ShoppingListItem" ("id") ON DELETE SET NULL,
+            FOREIGN KEY ("unitId") REFERENCES "QuantityUnit" ("id") ON DELETE SET NULL,
+            FOREIGN KEY ("checkedBy") REFERENCES "User" ("id") ON DELETE SET NULL
+        );
+
+        -- StoreItemRecurrence table
+        CREATE TABLE IF NOT EXISTS "StoreItemRecurrence" (
+            "storeItemId" TEXT NOT NULL PRIMARY KEY,
+            "storeId" TEXT NOT NULL,
+            "mode" TEXT NOT NULL CHECK("mode" IN ('fixed', 'learned')),
+            "intervalDays" INTEGER CHECK("intervalDays" IS NULL OR ("intervalDays" >= 1 AND "intervalDays" <= 365)),
+            "lastSuggestedAt" DATETIME,
+            "createdById" TEXT NOT NULL,
+            "updatedById" TEXT NOT NULL,
+            "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            "updatedAt" DATETIME NOT NULL,
+            FOREIGN KEY ("storeItemId") REFERENCES "StoreItem" ("id") ON DELETE CASCADE,
+            FOREIGN KEY ("storeId") REFERENCES "Store" ("id") ON DELETE CASCADE,
+            FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE RESTRICT,
+            FOREIGN KEY ("updatedById") REFERENCES "User" ("id") ON DELETE RESTRICT
+        );
+
+        -- ListTemplate table
+        CREATE TABLE IF NOT EXISTS "ListTemplate" (
+            "id" TEXT NOT NULL PRIMARY KEY,
+            "householdId" TEXT NOT NULL,
+            "name" TEXT NOT NULL CHECK(length("name") >= 1 AND length("name") <= 100),
+            "createdById" TEXT NOT NULL,
+            "updatedById" TEXT NOT NULL,
+            "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            "updatedAt" DATETIME NOT NULL,
+            FOREIGN KEY ("householdId") REFERENCES "Household" ("id") ON DELETE CASCADE,
+            FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE RESTRICT,
+            FOREIGN KEY ("updatedById") REFERENCES "User" ("id") ON DELETE RESTRICT
+        );
+
+        -- ListTemplateItem table
+        CREATE TABLE IF NOT EXISTS "ListTemplateItem" (
+            "id" TEXT NOT NULL PRIMARY KEY,
+            "templateId" TEXT NOT NULL,
+            "name" TEXT NOT NULL CHECK(length("name") >= 1 AND length("name") <= 100),
+            "qty" REAL,
+            "unitId" TEXT,
+            "notes" TEXT CHECK("notes" IS NULL OR length("notes") <= 1000),
+            "sortOrder" INTEGER NOT NULL DEFAULT 0,
+            "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            FOREIGN KEY ("templateId") REFERENCES "ListTemplate" ("id") ON DELETE CASCADE,
+            FOREIGN KEY ("unitId") REFERENCES "QuantityUnit" ("id") ON DELETE SET NULL
+        );
+
+        -- StoreChange table (change log for delta sync, filled by the triggers below)
+        CREATE TABLE IF NOT EXISTS "StoreChange" (
+            "seq" INTEGER PRIMARY KEY AUTOINCREMENT,
+            "storeId" TEXT NOT NULL,
+            "entity" TEXT NOT NULL CHECK("entity" IN ('shopping-list-item', 'store-item', 'aisle', 'section')),
+            "entityId" TEXT NOT NULL,
+            "isDeleted" INTEGER NOT NULL DEFAULT 0,
+            "changedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+        );
+
+        -- IdempotencyKey table (stored responses of mutating requests, replayed on retries)
+        CREATE TABLE IF NOT EXISTS "IdempotencyKey" (
+            "userId" TEXT NOT NULL,
+            "key" TEXT NOT NULL CHECK(length("key") <= 255),
+            "method" TEXT NOT NULL,
+            "path" TEXT NOT NULL,
+            "status" INTEGER,
+            "body" TEXT,
+            "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            PRIMARY KEY ("userId", "key"),
+            FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE
+        );
+
+        -- StoreMap table
+        CREATE TABLE IF NOT EXISTS "StoreMap" (
+            "storeId" TEXT NOT NULL PRIMARY KEY,
+            "entranceX" INTEGER NOT NULL,
+            "entranceY" INTEGER NOT NULL,
+            "checkoutX" INTEGER NOT NULL,
+            "checkoutY" INTEGER NOT NULL,
+            "createdById" TEXT NOT NULL,
+            "updatedById" TEXT NOT NULL,
+            "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            "updatedAt" DATETIME NOT NULL,
+            FOREIGN KEY ("storeId") REFERENCES "Store" ("id") ON DELETE CASCADE,
+            FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE RESTRICT,
+            FOREIGN KEY ("updatedById") REFERENCES "User" ("id") ON DELETE RESTRICT
+        );
+
+        -- StoreMapAisle table
+        CREATE TABLE IF NOT EXISTS "StoreMapAisle" (
+            "aisleId" TEXT NOT NULL PRIMARY KEY,
+            "storeId" TEXT NOT NULL,
+            "startX" INTEGER NOT NULL,
+            "startY" INTEGER NOT NULL,
+            "endX" INTEGER NOT NULL,
+            "endY" INTEGER NOT NULL,
+            FOREIGN KEY ("aisleId") REFERENCES "StoreAisle" ("id") ON DELETE CASCADE,
+            FOREIGN KEY ("storeId") REFERENCES "StoreMap" ("storeId") ON DELETE CASCADE
+        );
+
+        -- StoreMapConnection table
+        CREATE TABLE IF NOT EXISTS "StoreMapConnection" (
+            "id" TEXT NOT NULL PRIMARY KEY,
+            "storeId" TEXT NOT NULL,
+            "fromType" TEXT NOT NULL CHECK("fromType" IN ('entrance', 'checkout', 'aisle')),
+            "fromAisleId" TEXT,
+            "fromEnd" TEXT CHECK("fromEnd" IS NULL OR "fromEnd" IN ('start', 'end')),
+            "toType" TEXT NOT NULL CHECK("toType" IN ('entrance', 'checkout', 'aisle')),
+            "toAisleId" TEXT,
+            "toEnd" TEXT CHECK("toEnd" IS NULL OR "toEnd" IN ('start', 'end')),
+            "sortOrder" INTEGER NOT NULL,
+            FOREIGN KEY ("storeId") REFERENCES "StoreMap" ("storeId") ON DELETE CASCADE,
+            FOREIGN KEY ("fromAisleId") REFERENCES "StoreMapAisle" ("aisleId") ON DELETE CASCADE,
+            FOREIGN KEY ("toAisleId") REFERENCES "StoreMapAisle" ("aisleId") ON DELETE CASCADE
+        );
+
         -- RefreshToken table
         CREATE TABLE IF NOT EXISTS "RefreshToken" (
             "id" TEXT NOT NULL PRIMARY KEY,
             "userId" TEXT NOT NULL,
+            "familyId" TEXT NOT NULL,
             "token" TEXT NOT NULL UNIQUE CHECK(length("token") <= 255),
+            "deviceName" TEXT CHECK("deviceName" IS NULL OR length("deviceName") <= 100),
+            "userAgent" TEXT CHECK("userAgent" IS NULL OR length("userAgent") <= 500),
+            "expiresAt" DATETIME NOT NULL,
+            "lastUsedAt" DATETIME,
+            "revokedAt" DATETIME,
+            "replacedById" TEXT,
+            "twoFactorVerified" BOOLEAN NOT NULL DEFAULT 0,
+            "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE
+        );
+
+        -- PasswordResetToken table (only a hash of the emailed token is stored)
+        CREATE TABLE IF NOT EXISTS "PasswordResetToken" (
+            "id" TEXT NOT NULL PRIMARY KEY,
+            "userId" TEXT NOT NULL,
+            "tokenHash" TEXT NOT NULL UNIQUE CHECK(length("tokenHash") <= 255),
             "expiresAt" DATETIME NOT NULL,
+            "usedAt" DATETIME,
+            "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE
+        );
+
+        -- UserTwoFactor table (TOTP secret; enabledAt is null until setup is confirmed; challengeVersion voids login challenges)
+        CREATE TABLE IF NOT EXISTS "UserTwoFactor" (
+            "userId" TEXT NOT NULL PRIMARY KEY,
+            "secret" TEXT NOT NULL CHECK(length("secret") <= 255),
+            "enabledAt" DATETIME,
+            "lastUsedStep" INTEGER,
+            "failedLoginAttempts" INTEGER NOT NULL DEFAULT 0,
+            "challengeVersion" INTEGER NOT NULL DEFAULT 0,
+            "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE
+        );
+
+        -- TwoFactorRecoveryCode table (only hashes are stored)
+        CREATE TABLE IF NOT EXISTS "TwoFactorRecoveryCode" (
+            "id" TEXT NOT NULL PRIMARY KEY,
+            "userId" TEXT NOT NULL,
+            "codeHash" TEXT NOT NULL CHECK(length("codeHash") <= 255),
+            "usedAt" DATETIME,
+            "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE
+        );
+
+        -- ApiToken table (personal API tokens; only a hash is stored, scopes and storeIds are comma-separated)
+        CREATE TABLE IF NOT EXISTS "ApiToken" (
+            "id" TEXT NOT NULL PRIMARY KEY,
+            "userId" TEXT NOT NULL,
+            "name" TEXT NOT NULL CHECK(length("name") <= 100),
+            "tokenHash" TEXT NOT NULL UNIQUE CHECK(length("tokenHash") <= 255),
+            "tokenPrefix" TEXT NOT NULL CHECK(length("tokenPrefix") <= 50),
+            "scopes" TEXT NOT NULL CHECK(length("scopes") <= 500),
+            "storeIds" TEXT CHECK(length("storeIds") <= 2000),
+            "expiresAt" DATETIME,
+            "lastUsedAt" DATETIME,
             "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
             FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE
         );
@@ -253,6 +492,27 @@ export function initializeDatabase() {
         CREATE INDEX IF NOT EXISTS "Store_householdId_idx"
             ON "Store"("householdId");
 
+        CREATE INDEX IF NOT EXISTS "RefreshToken_familyId_idx"
+            ON "RefreshToken"("familyId");
+
+        CREATE INDEX IF NOT EXISTS "RefreshToken_userId_idx"
+            ON "RefreshToken"("userId");
+
+        CREATE INDEX IF NOT EXISTS "RefreshToken_expiresAt_idx"
+            ON "RefreshToken"("expiresAt");
+
+        CREATE INDEX IF NOT EXISTS "PasswordResetToken_userId_idx"
+            ON "PasswordResetToken"("userId");
+
+        CREATE INDEX IF NOT EXISTS "PasswordResetToken_expiresAt_idx"
+            ON "PasswordResetToken"("expiresAt");
+
+        CREATE INDEX IF NOT EXISTS "TwoFactorRecoveryCode_userId_idx"
+            ON "TwoFactorRecoveryCode"("userId");
+
+        CREATE INDEX IF NOT EXISTS "ApiToken_userId_idx"
+            ON "ApiToken"("userId");
+
         CREATE INDEX IF NOT EXISTS "User_email_idx"
             ON "User"("email" COLLATE NOCASE);
 
@@ -272,6 +532,221 @@ export function initializeDatabase() {
         CREATE INDEX IF NOT EXISTS "RecipeIngredient_recipeId_sortOrder_idx"
             ON "RecipeIngredient"("recipeId", "sortOrder");
 
+        -- MealPlan indexes
+        CREATE INDEX IF NOT EXISTS "MealPlanEntry_mealPlanId_slot_idx"
+            ON "MealPlanEntry"("mealPlanId", "slot");
+
+        CREATE INDEX IF NOT EXISTS "MealPlanEntry_recipeId_idx"
+            ON "MealPlanEntry"("recipeId");
+
+        -- PurchaseEvent indexes
+        CREATE INDEX IF NOT EXISTS "PurchaseEvent_storeId_checkedAt_idx"
+            ON "PurchaseEvent"("storeId", "checkedAt");
+
+        CREATE INDEX IF NOT EXISTS "PurchaseEvent_storeItemId_checkedAt_idx"
+            ON "PurchaseEvent"("storeItemId", "checkedAt");
+
+        CREATE UNIQUE INDEX IF NOT EXISTS "PurchaseEvent_shoppingListItemId_key"
+            ON "PurchaseEvent"("shoppingListItemId");
+
+        -- StoreItemRecurrence indexes
+        CREATE INDEX IF NOT EXISTS "StoreItemRecurrence_storeId_idx"
+            ON "StoreItemRecurrence"("storeId");
+
+        -- ListTemplate indexes
+        CREATE INDEX IF NOT EXISTS "ListTemplate_householdId_name_idx"
+            ON "ListTemplate"("householdId", "name");
+
+        CREATE INDEX IF NOT EXISTS "ListTemplateItem_templateId_sortOrder_idx"
+            ON "ListTemplateItem"("templateId", "sortOrder");
+
+        -- StoreChange indexes
+        CREATE UNIQUE INDEX IF NOT EXISTS "StoreChange_storeId_entity_entityId_key"
+            ON "StoreChange"("storeId", "entity", "entityId");
+
+        CREATE INDEX IF NOT EXISTS "StoreChange_storeId_seq_idx"
+            ON "StoreChange"("storeId", "seq");
+
+        -- IdempotencyKey indexes
+        CREATE INDEX IF NOT EXISTS "IdempotencyKey_createdAt_idx"
+            ON "IdempotencyKey"("createdAt");
+
+        -- StoreMap indexes
+        CREATE INDEX IF NOT EXISTS "StoreMapAisle_storeId_idx"
+            ON "StoreMapAisle"("storeId");
+
+        CREATE INDEX IF NOT EXISTS "StoreMapConnection_storeId_sortOrder_idx"
+            ON "StoreMapConnection"("storeId", "sortOrder");
+
+        -- CanonicalItem indexes
+        CREATE UNIQUE INDEX IF NOT EXISTS "CanonicalItem_householdId_nameNorm_key"
+            ON "CanonicalItem"("householdId", "nameNorm") WHERE "householdId" IS NOT NULL;
+
+        CREATE UNIQUE INDEX IF NOT EXISTS "CanonicalItem_userId_nameNorm_key"
+            ON "CanonicalItem"("userId", "nameNorm") WHERE "userId" IS NOT NULL;
+
+        CREATE INDEX IF NOT EXISTS "StoreItem_canonicalItemId_idx"
+            ON "StoreItem"("canonicalItemId");
+
+        -- StoreChange triggers: every write to a store's list, items, aisles, and sections
+        -- (including cascaded deletes) moves that row's change-log entry to the end
+        CREATE TRIGGER IF NOT EXISTS "ShoppingListItem_change_insert" AFTER INSERT ON "ShoppingListItem" BEGIN
+            DELETE FROM "StoreChange"
+                WHERE "storeId" = NEW."storeId" AND "entity" = 'shopping-list-item' AND "entityId" = NEW."id";
+            INSERT INTO "StoreChange" ("storeId", "entity", "entityId", "isDeleted")
+                VALUES (NEW."storeId", 'shopping-list-item', NEW."id", 0);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS "ShoppingListItem_change_update" AFTER UPDATE ON "ShoppingListItem" BEGIN
+            DELETE FROM "StoreChange"
+                WHERE "storeId" IN (OLD."storeId", NEW."storeId") AND "entity" = 'shopping-list-item' AND "entityId" = NEW."id";
+            INSERT INTO "StoreChange" ("storeId", "entity", "entityId", "isDeleted")
+                SELECT OLD."storeId", 'shopping-list-item', OLD."id", 1 WHERE OLD."storeId" <> NEW."storeId";
+            INSERT INTO "StoreChange" ("storeId", "entity", "entityId", "isDeleted")
+                VALUES (NEW."storeId", 'shopping-list-item', NEW."id", 0);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS "ShoppingListItem_change_delete" AFTER DELETE ON "ShoppingListItem" BEGIN
+            DELETE FROM "StoreChange"
+                WHERE "storeId" = OLD."storeId" AND "entity" = 'shopping-list-item' AND "entityId" = OLD."id";
+            INSERT INTO "StoreChange" ("storeId", "entity", "entityId", "isDeleted")
+                VALUES (OLD."storeId", 'shopping-list-item', OLD."id", 1);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS "StoreItem_change_insert" AFTER INSERT ON "StoreItem" BEGIN
+            DELETE FROM "StoreChange"
+                WHERE "storeId" = NEW."storeId" AND "entity" = 'store-item' AND "entityId" = NEW."id";
+            INSERT INTO "StoreChange" ("storeId", "entity", "entityId", "isDeleted")
+                VALUES (NEW."storeId", 'store-item', NEW."id", 0);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS "StoreItem_change_update" AFTER UPDATE ON "StoreItem" BEGIN
+            DELETE FROM "StoreChange"
+                WHERE "storeId" IN (OLD."storeId", NEW."storeId") AND "entity" = 'store-item' AND "entityId" = NEW."id";
+            INSERT INTO "StoreChange" ("storeId", "entity", "entityId", "isDeleted")
+                SELECT OLD."storeId", 'store-item', OLD."id", 1 WHERE OLD."storeId" <> NEW."storeId";
+            INSERT INTO "StoreChange" ("storeId", "entity", "entityId", "isDeleted")
+                VALUES (NEW."storeId", 'store-item', NEW."id", 0);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS "StoreItem_change_delete" AFTER DELETE ON "StoreItem" BEGIN
+            DELETE FROM "StoreChange"
+                WHERE "storeId" = OLD."storeId" AND "entity" = 'store-item' AND "entityId" = OLD."id";
+            INSERT INTO "StoreChange" ("storeId", "entity", "entityId", "isDeleted")
+                VALUES (OLD."storeId", 'store-item', OLD."id", 1);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS "StoreAisle_change_insert" AFTER INSERT ON "StoreAisle" BEGIN
+            DELETE FROM "StoreChange"
+                WHERE "storeId" = NEW."storeId" AND "entity" = 'aisle' AND "entityId" = NEW."id";
+            INSERT INTO "StoreChange" ("storeId", "entity", "entityId", "isDeleted")
+                VALUES (NEW."storeId", 'aisle', NEW."id", 0);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS "StoreAisle_change_update" AFTER UPDATE ON "StoreAisle" BEGIN
+            DELETE FROM "StoreChange"
+                WHERE "storeId" IN (OLD."storeId", NEW."storeId") AND "entity" = 'aisle' AND "entityId" = NEW."id";
+            INSERT INTO "StoreChange" ("storeId", "entity", "entityId", "isDeleted")
+                SELECT OLD."storeId", 'aisle', OLD."id", 1 WHERE OLD."storeId" <> NEW."storeId";
+            INSERT INTO "StoreChange" ("storeId", "entity", "entityId", "isDeleted")
+                VALUES (NEW."storeId", 'aisle', NEW."id", 0);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS "StoreAisle_change_delete" AFTER DELETE ON "StoreAisle" BEGIN
+            DELETE FROM "StoreChange"
+                WHERE "storeId" = OLD."storeId" AND "entity" = 'aisle' AND "entityId" = OLD."id";
+            INSERT INTO "StoreChange" ("storeId", "entity", "entityId", "isDeleted")
+                VALUES (OLD."storeId", 'aisle', OLD."id", 1);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS "StoreSection_change_insert" AFTER INSERT ON "StoreSection" BEGIN
+            DELETE FROM "StoreChange"
+                WHERE "storeId" = NEW."storeId" AND "entity" = 'section' AND "entityId" = NEW."id";
+            INSERT INTO "StoreChange" ("storeId", "entity", "entityId", "isDeleted")
+                VALUES (NEW."storeId", 'section', NEW."id", 0);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS "StoreSection_change_update" AFTER UPDATE ON "StoreSection" BEGIN
+            DELETE FROM "StoreChange"
+                WHERE "storeId" IN (OLD."storeId", NEW."storeId") AND "entity" = 'section' AND "entityId" = NEW."id";
+            INSERT INTO "StoreChange" ("storeId", "entity", "entityId", "isDeleted")
+                SELECT OLD."storeId", 'section', OLD."id", 1 WHERE OLD."storeId" <> NEW."storeId";
+            INSERT INTO "StoreChange" ("storeId", "entity", "entityId", "isDeleted")
+                VALUES (NEW."storeId", 'section', NEW."id", 0);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS "StoreSection_change_delete" AFTER DELETE ON "StoreSection" BEGIN
+            DELETE FROM "StoreChange"
+                WHERE "storeId" = OLD."storeId" AND "entity" = 'section' AND "entityId" = OLD."id";
+            INSERT INTO "StoreChange" ("storeId", "entity", "entityId", "isDeleted")
+                VALUES (OLD."storeId", 'section', OLD."id", 1);
+        END;
+
+        -- CanonicalItem triggers: store items link to the canonical item with their name in their
+        -- store's catalog (created when new) unless linked by hand; a store moving between
+        -- household and personal catalogs relinks all of its items by name
+        CREATE TRIGGER IF NOT EXISTS "StoreItem_canonical_insert" AFTER INSERT ON "StoreItem"
+        WHEN NEW."canonicalItemId" IS NULL AND NEW."isCanonicalLinkConfirmed" = 0 BEGIN
+            INSERT INTO "CanonicalItem" ("id", "householdId", "userId", "name", "nameNorm", "createdById", "updatedById", "createdAt", "updatedAt")
+                SELECT lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(lower(hex(randomblob(2))), 2) || '-' || lower(hex(randomblob(6))), s."householdId", CASE WHEN s."householdId" IS NULL THEN s."createdById" END,
+                       NEW."name", NEW."nameNorm", NEW."updatedById", NEW."updatedById", strftime('%Y-%m-%dT%H:%M:%fZ', 'now'), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+                FROM "Store" s
+                WHERE s."id" = NEW."storeId" AND NOT EXISTS (
+                    SELECT 1 FROM "CanonicalItem" c
+                    WHERE c."nameNorm" = NEW."nameNorm"
+                      AND (c."householdId" = s."householdId" OR (s."householdId" IS NULL AND c."userId" = s."createdById"))
+                );
+            UPDATE "StoreItem" SET "canonicalItemId" = (
+                SELECT c."id" FROM "CanonicalItem" c, "Store" s
+                WHERE s."id" = NEW."storeId" AND c."nameNorm" = NEW."nameNorm"
+                  AND (c."householdId" = s."householdId" OR (s."householdId" IS NULL AND c."userId" = s."createdById"))
+            )
+            WHERE "id" = NEW."id";
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS "StoreItem_canonical_update" AFTER UPDATE OF "nameNorm", "isCanonicalLinkConfirmed" ON "StoreItem"
+        WHEN NEW."isCanonicalLinkConfirmed" = 0
+             AND (OLD."nameNorm" <> NEW."nameNorm" OR OLD."isCanonicalLinkConfirmed" <> 0) BEGIN
+            INSERT INTO "CanonicalItem" ("id", "householdId", "userId", "name", "nameNorm", "createdById", "updatedById", "createdAt", "updatedAt")
+                SELECT lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(lower(hex(randomblob(2))), 2) || '-' || lower(hex(randomblob(6))), s."householdId", CASE WHEN s."householdId" IS NULL THEN s."createdById" END,
+                       NEW."name", NEW."nameNorm", NEW."updatedById", NEW."updatedById", strftime('%Y-%m-%dT%H:%M:%fZ', 'now'), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+                FROM "Store" s
+                WHERE s."id" = NEW."storeId" AND NOT EXISTS (
+                    SELECT 1 FROM "CanonicalItem" c
+                    WHERE c."nameNorm" = NEW."nameNorm"
+                      AND (c."householdId" = s."householdId" OR (s."householdId" IS NULL AND c."userId" = s."createdById"))
+                );
+            UPDATE "StoreItem" SET "canonicalItemId" = (
+                SELECT c."id" FROM "CanonicalItem" c, "Store" s
+                WHERE s."id" = NEW."storeId" AND c."nameNorm" = NEW."nameNorm"
+                  AND (c."householdId" = s."householdId" OR (s."householdId" IS NULL AND c."userId" = s."createdById"))
+            )
+            WHERE "id" = NEW."id";
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS "Store_canonical_scope" AFTER UPDATE OF "householdId" ON "Store"
+        WHEN OLD."householdId" IS NOT NEW."householdId" BEGIN
+            INSERT INTO "CanonicalItem" ("id", "householdId", "userId", "name", "nameNorm", "createdById", "updatedById", "createdAt", "updatedAt")
+                SELECT lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(lower(hex(randomblob(2))), 2) || '-' || lower(hex(randomblob(6))), NEW."householdId", CASE WHEN NEW."householdId" IS NULL THEN NEW."createdById" END,
+                       si."name", si."nameNorm", NEW."updatedById", NEW."updatedById", strftime('%Y-%m-%dT%H:%M:%fZ', 'now'), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+                FROM "StoreItem" si
+                WHERE si."storeId" = NEW."id" AND NOT EXISTS (
+                    SELECT 1 FROM "CanonicalItem" c
+                    WHERE c."nameNorm" = si."nameNorm"
+                      AND (c."householdId" = NEW."householdId" OR (NEW."householdId" IS NULL AND c."userId" = NEW."createdById"))
+                );
+            UPDATE "StoreItem" SET "isCanonicalLinkConfirmed" = 0, "canonicalItemId" = (
+                SELECT c."id" FROM "CanonicalItem" c
+                WHERE c."nameNorm" = "StoreItem"."nameNorm"
+                  AND (c."householdId" = NEW."householdId" OR (NEW."householdId" IS NULL AND c."userId" = NEW."createdById"))
+            )
+            WHERE "storeId" = NEW."id";
+        END;
+
+        -- Admin APIs don't require a two-factor sign-in until this is turned on
+        INSERT OR IGNORE INTO "AppSetting" ("key", "value", "createdAt", "updatedAt")
+            VALUES ('REQUIRE_ADMIN_TWO_FACTOR', 'false', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP);
+
         -- Insert quantity units if not exists
         INSERT OR IGNORE INTO "QuantityUnit" ("id", "name", "abbreviation", "sortOrder", "category") VALUES
         ('gram', 'Gram', 'g', 10, 'weight'),
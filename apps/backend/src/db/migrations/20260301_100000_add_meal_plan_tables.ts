@@ -0,0 +1,78 @@
+import type { Database } from "better-sqlite3";
+
+/**
+ * Migration: Add Meal Plan Tables
+ *
+ * This migration persists meal plans so households can plan days or weeks ahead.
+ *
+ * Tables created:
+ * 1. MealPlan - One row per household day that has planned meals
+ * 2. MealPlanEntry - A recipe planned for a breakfast/lunch/dinner slot with a servings count
+ *
+ * Design decisions:
+ * - Household-owned entities (same access rules as recipes)
+ * - Dates stored as TEXT in YYYY-MM-DD form (calendar days, not instants)
+ * - Several recipes may share a slot (e.g. main and side)
+ * - Cascade deletes: deleting a recipe removes it from all plans
+ */
+
+export function up(db: Database): void {
+    console.log("Starting migration: Add meal plan tables...");
+
+    db.exec(`
+        -- MealPlan table
+        CREATE TABLE IF NOT EXISTS "MealPlan" (
+            "id" TEXT NOT NULL PRIMARY KEY,
+            "householdId" TEXT NOT NULL,
+            "date" TEXT NOT NULL CHECK(length("date") = 10),
+            "createdById" TEXT NOT NULL,
+            "updatedById" TEXT NOT NULL,
+            "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            "updatedAt" DATETIME NOT NULL,
+            FOREIGN KEY ("householdId") REFERENCES "Household" ("id") ON DELETE CASCADE,
+            FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE RESTRICT,
+            FOREIGN KEY ("updatedById") REFERENCES "User" ("id") ON DELETE RESTRICT,
+            UNIQUE("householdId", "date")
+        );
+
+        -- MealPlanEntry table
+        CREATE TABLE IF NOT EXISTS "MealPlanEntry" (
+            "id" TEXT NOT NULL PRIMARY KEY,
+            "mealPlanId" TEXT NOT NULL,
+            "recipeId" TEXT NOT NULL,
+            "slot" TEXT NOT NULL CHECK("slot" IN ('breakfast', 'lunch', 'dinner')),
+            "servings" INTEGER NOT NULL DEFAULT 1 CHECK("servings" >= 1 AND "servings" <= 100),
+            "createdById" TEXT NOT NULL,
+            "updatedById" TEXT NOT NULL,
+            "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            "updatedAt" DATETIME NOT NULL,
+            FOREIGN KEY ("mealPlanId") REFERENCES "MealPlan" ("id") ON DELETE CASCADE,
+            FOREIGN KEY ("recipeId") REFERENCES "Recipe" ("id") ON DELETE CASCADE,
+            FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE RESTRICT,
+            FOREIGN KEY ("updatedById") REFERENCES "User" ("id") ON DELETE RESTRICT
+        );
+
+        -- Indexes for MealPlanEntry (MealPlan lookups use the UNIQUE index)
+        CREATE INDEX "MealPlanEntry_mealPlanId_slot_idx" ON "MealPlanEntry"("mealPlanId", "slot");
+        CREATE INDEX "MealPlanEntry_recipeId_idx" ON "MealPlanEntry"("recipeId");
+    `);
+
+    console.log("  ✓ Created MealPlan table");
+    console.log("  ✓ Created MealPlanEntry table");
+    console.log("  ✓ Created all indexes");
+    console.log("Migration complete: Meal planning enabled");
+}
+
+export function down(db: Database): void {
+    console.log("Rolling back migration: Remove meal plan tables...");
+
+    db.exec(`
+        -- Drop tables in reverse order to respect foreign keys
+        DROP TABLE IF EXISTS "MealPlanEntry";
+        DROP TABLE IF EXISTS "MealPlan";
+    `);
+
+    console.log("  ✓ Removed MealPlanEntry table");
+    console.log("  ✓ Removed MealPlan table");
+    console.log("Rollback complete: Meal planning disabled");
+}
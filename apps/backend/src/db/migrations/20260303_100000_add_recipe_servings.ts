@@ -0,0 +1,25 @@
+import type { Database } from "better-sqlite3";
+
+/**
+ * Migration: Add servings column to Recipe
+ *
+ * Records how many servings a recipe yields so ingredients can be scaled
+ * (double batch, half recipe, or planned servings from the meal plan).
+ * Nullable: existing recipes have an unknown yield and scale only by explicit factor.
+ */
+
+export function up(db: Database): void {
+    db.exec(`
+        ALTER TABLE "Recipe" ADD COLUMN "servings" INTEGER CHECK("servings" IS NULL OR ("servings" >= 1 AND "servings" <= 100));
+    `);
+
+    console.log("  ✓ Added servings column to Recipe");
+}
+
+export function down(db: Database): void {
+    db.exec(`
+        ALTER TABLE "Recipe" DROP COLUMN "servings";
+    `);
+
+    console.log("  ✓ Removed servings column from Recipe");
+}
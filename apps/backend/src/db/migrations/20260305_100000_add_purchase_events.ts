@@ -0,0 +1,56 @@
+import type { Database } from "better-sqlite3";
+
+/**
+ * Migration: Add PurchaseEvent table
+ *
+ * Clearing checked items used to delete them outright, losing what was bought and when.
+ * A PurchaseEvent is written when a shopping list item is checked off (removed again if it is
+ * unchecked) and any checked rows still missing one are backfilled when the list is cleared.
+ *
+ * Design decisions:
+ * - shoppingListItemId links the event to its list row while the row exists (SET NULL on clear)
+ * - Events belong to the store item; deleting the store item deletes its history
+ * - qty/unit are copied from the list row, not referenced, so later edits don't rewrite history
+ */
+
+export function up(db: Database): void {
+    console.log("Starting migration: Add purchase events...");
+
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS "PurchaseEvent" (
+            "id" TEXT NOT NULL PRIMARY KEY,
+            "storeId" TEXT NOT NULL,
+            "storeItemId" TEXT NOT NULL,
+            "shoppingListItemId" TEXT,
+            "qty" REAL,
+            "unitId" TEXT,
+            "checkedBy" TEXT,
+            "checkedAt" DATETIME NOT NULL,
+            "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            FOREIGN KEY ("storeId") REFERENCES "Store" ("id") ON DELETE CASCADE,
+            FOREIGN KEY ("storeItemId") REFERENCES "StoreItem" ("id") ON DELETE CASCADE,
+            FOREIGN KEY ("shoppingListItemId") REFERENCES "ShoppingListItem" ("id") ON DELETE SET NULL,
+            FOREIGN KEY ("unitId") REFERENCES "QuantityUnit" ("id") ON DELETE SET NULL,
+            FOREIGN KEY ("checkedBy") REFERENCES "User" ("id") ON DELETE SET NULL
+        );
+
+        CREATE INDEX "PurchaseEvent_storeId_checkedAt_idx" ON "PurchaseEvent"("storeId", "checkedAt");
+        CREATE INDEX "PurchaseEvent_storeItemId_checkedAt_idx" ON "PurchaseEvent"("storeItemId", "checkedAt");
+        CREATE UNIQUE INDEX "PurchaseEvent_shoppingListItemId_key" ON "PurchaseEvent"("shoppingListItemId");
+    `);
+
+    console.log("  ✓ Created PurchaseEvent table");
+    console.log("  ✓ Created all indexes");
+    console.log("Migration complete: Purchase history enabled");
+}
+
+export function down(db: Database): void {
+    console.log("Rolling back migration: Remove purchase events...");
+
+    db.exec(`
+        DROP TABLE IF EXISTS "PurchaseEvent";
+    `);
+
+    console.log("  ✓ Removed PurchaseEvent table");
+    console.log("Rollback complete: Purchase history disabled");
+}
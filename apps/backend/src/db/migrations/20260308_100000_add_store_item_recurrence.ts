@@ -0,0 +1,53 @@
+import type { Database } from "better-sqlite3";
+
+/**
+ * Migration: Add StoreItemRecurrence table
+ *
+ * Lets a store item come back onto the shopping list on its own. A recurrence is either a fixed
+ * interval or "learned" from the average gap between the item's purchase events. A scheduled
+ * job re-adds due items as unsure suggestions.
+ *
+ * Design decisions:
+ * - One optional recurrence per store item (storeItemId is the primary key)
+ * - intervalDays is required for "fixed" (enforced by the API) and ignored for "learned"
+ * - lastSuggestedAt keeps the job from re-adding an item the user removed in the same cycle
+ */
+
+export function up(db: Database): void {
+    console.log("Starting migration: Add store item recurrence...");
+
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS "StoreItemRecurrence" (
+            "storeItemId" TEXT NOT NULL PRIMARY KEY,
+            "storeId" TEXT NOT NULL,
+            "mode" TEXT NOT NULL CHECK("mode" IN ('fixed', 'learned')),
+            "intervalDays" INTEGER CHECK("intervalDays" IS NULL OR ("intervalDays" >= 1 AND "intervalDays" <= 365)),
+            "lastSuggestedAt" DATETIME,
+            "createdById" TEXT NOT NULL,
+            "updatedById" TEXT NOT NULL,
+            "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            "updatedAt" DATETIME NOT NULL,
+            FOREIGN KEY ("storeItemId") REFERENCES "StoreItem" ("id") ON DELETE CASCADE,
+            FOREIGN KEY ("storeId") REFERENCES "Store" ("id") ON DELETE CASCADE,
+            FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE RESTRICT,
+            FOREIGN KEY ("updatedById") REFERENCES "User" ("id") ON DELETE RESTRICT
+        );
+
+        CREATE INDEX "StoreItemRecurrence_storeId_idx" ON "StoreItemRecurrence"("storeId");
+    `);
+
+    console.log("  ✓ Created StoreItemRecurrence table");
+    console.log("  ✓ Created all indexes");
+    console.log("Migration complete: Recurring items enabled");
+}
+
+export function down(db: Database): void {
+    console.log("Rolling back migration: Remove store item recurrence...");
+
+    db.exec(`
+        DROP TABLE IF EXISTS "StoreItemRecurrence";
+    `);
+
+    console.log("  ✓ Removed StoreItemRecurrence table");
+    console.log("Rollback complete: Recurring items disabled");
+}
@@ -0,0 +1,66 @@
+import type { Database } from "better-sqlite3";
+
+/**
+ * Migration: Add shopping list template tables
+ *
+ * Household-owned templates ("weekly staples", "party", "camping") hold a named set of items
+ * with default qty/unit/notes. Applying a template to a store resolves each item by name to a
+ * StoreItem and adds it to that store's list.
+ *
+ * Design decisions:
+ * - Template items are store-agnostic: they store a name, not a storeItemId
+ * - Items are replaced wholesale on update, so they carry only createdAt
+ * - Deleting the household deletes its templates; deleting a template deletes its items
+ */
+
+export function up(db: Database): void {
+    console.log("Starting migration: Add list templates...");
+
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS "ListTemplate" (
+            "id" TEXT NOT NULL PRIMARY KEY,
+            "householdId" TEXT NOT NULL,
+            "name" TEXT NOT NULL CHECK(length("name") >= 1 AND length("name") <= 100),
+            "createdById" TEXT NOT NULL,
+            "updatedById" TEXT NOT NULL,
+            "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            "updatedAt" DATETIME NOT NULL,
+            FOREIGN KEY ("householdId") REFERENCES "Household" ("id") ON DELETE CASCADE,
+            FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE RESTRICT,
+            FOREIGN KEY ("updatedById") REFERENCES "User" ("id") ON DELETE RESTRICT
+        );
+
+        CREATE TABLE IF NOT EXISTS "ListTemplateItem" (
+            "id" TEXT NOT NULL PRIMARY KEY,
+            "templateId" TEXT NOT NULL,
+            "name" TEXT NOT NULL CHECK(length("name") >= 1 AND length("name") <= 100),
+            "qty" REAL,
+            "unitId" TEXT,
+            "notes" TEXT CHECK("notes" IS NULL OR length("notes") <= 1000),
+            "sortOrder" INTEGER NOT NULL DEFAULT 0,
+            "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            FOREIGN KEY ("templateId") REFERENCES "ListTemplate" ("id") ON DELETE CASCADE,
+            FOREIGN KEY ("unitId") REFERENCES "QuantityUnit" ("id") ON DELETE SET NULL
+        );
+
+        CREATE INDEX "ListTemplate_householdId_name_idx" ON "ListTemplate"("householdId", "name");
+        CREATE INDEX "ListTemplateItem_templateId_sortOrder_idx" ON "ListTemplateItem"("templateId", "sortOrder");
+    `);
+
+    console.log("  ✓ Created ListTemplate table");
+    console.log("  ✓ Created ListTemplateItem table");
+    console.log("  ✓ Created all indexes");
+    console.log("Migration complete: List templates enabled");
+}
+
+export function down(db: Database): void {
+    console.log("Rolling back migration: Remove list templates...");
+
+    db.exec(`
+        DROP TABLE IF EXISTS "ListTemplateItem";
+        DROP TABLE IF EXISTS "ListTemplate";
+    `);
+
+    console.log("  ✓ Removed ListTemplate and ListTemplateItem tables");
+    console.log("Rollback complete: List templates disabled");
+}
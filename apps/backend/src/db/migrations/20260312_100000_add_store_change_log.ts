@@ -0,0 +1,165 @@
+import type { Database } from "better-sqlite3";
+
+/**
+ * Migration: Add StoreChange change log for delta sync
+ *
+ * Lets clients fetch only what changed in a store since their last sync instead of the whole
+ * shopping list and item catalog. Triggers on ShoppingListItem, StoreItem, StoreAisle, and
+ * StoreSection record every insert, update, and delete.
+ *
+ * Design decisions:
+ * - One entry per entity (unique storeId/entity/entityId); each write deletes and re-inserts it
+ *   at a new seq, so the log never grows past the number of rows ever created
+ *   (INSERT OR REPLACE isn't used: inside triggers fired by cascades the outer statement's
+ *   conflict policy wins and the insert would fail)
+ * - seq is AUTOINCREMENT so cursors stay monotonic even after entries are removed
+ * - Deletions are kept as tombstones (isDeleted = 1) so clients can drop cached rows
+ * - Triggers also catch cascaded deletes and writes that bypass the service layer
+ * - No foreign key to Store: tombstones are written while a store's rows cascade away;
+ *   deleting a store clears its entries afterwards
+ * - Rows from before this migration have no entry; clients start with a full sync (since=0)
+ */
+
+export function up(db: Database): void {
+    console.log("Starting migration: Add store change log...");
+
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS "StoreChange" (
+            "seq" INTEGER PRIMARY KEY AUTOINCREMENT,
+            "storeId" TEXT NOT NULL,
+            "entity" TEXT NOT NULL CHECK("entity" IN ('shopping-list-item', 'store-item', 'aisle', 'section')),
+            "entityId" TEXT NOT NULL,
+            "isDeleted" INTEGER NOT NULL DEFAULT 0,
+            "changedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE UNIQUE INDEX "StoreChange_storeId_entity_entityId_key"
+            ON "StoreChange"("storeId", "entity", "entityId");
+
+        CREATE INDEX "StoreChange_storeId_seq_idx" ON "StoreChange"("storeId", "seq");
+    `);
+
+    console.log("  ✓ Created StoreChange table");
+    console.log("  ✓ Created all indexes");
+
+    db.exec(`
+        CREATE TRIGGER IF NOT EXISTS "ShoppingListItem_change_insert" AFTER INSERT ON "ShoppingListItem" BEGIN
+            DELETE FROM "StoreChange"
+                WHERE "storeId" = NEW."storeId" AND "entity" = 'shopping-list-item' AND "entityId" = NEW."id";
+            INSERT INTO "StoreChange" ("storeId", "entity", "entityId", "isDeleted")
+                VALUES (NEW."storeId", 'shopping-list-item', NEW."id", 0);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS "ShoppingListItem_change_update" AFTER UPDATE ON "ShoppingListItem" BEGIN
+            DELETE FROM "StoreChange"
+                WHERE "storeId" IN (OLD."storeId", NEW."storeId") AND "entity" = 'shopping-list-item' AND "entityId" = NEW."id";
+            INSERT INTO "StoreChange" ("storeId", "entity", "entityId", "isDeleted")
+                SELECT OLD."storeId", 'shopping-list-item', OLD."id", 1 WHERE OLD."storeId" <> NEW."storeId";
+            INSERT INTO "StoreChange" ("storeId", "entity", "entityId", "isDeleted")
+                VALUES (NEW."storeId", 'shopping-list-item', NEW."id", 0);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS "ShoppingListItem_change_delete" AFTER DELETE ON "ShoppingListItem" BEGIN
+            DELETE FROM "StoreChange"
+                WHERE "storeId" = OLD."storeId" AND "entity" = 'shopping-list-item' AND "entityId" = OLD."id";
+            INSERT INTO "StoreChange" ("storeId", "entity", "entityId", "isDeleted")
+                VALUES (OLD."storeId", 'shopping-list-item', OLD."id", 1);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS "StoreItem_change_insert" AFTER INSERT ON "StoreItem" BEGIN
+            DELETE FROM "StoreChange"
+                WHERE "storeId" = NEW."storeId" AND "entity" = 'store-item' AND "entityId" = NEW."id";
+            INSERT INTO "StoreChange" ("storeId", "entity", "entityId", "isDeleted")
+                VALUES (NEW."storeId", 'store-item', NEW."id", 0);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS "StoreItem_change_update" AFTER UPDATE ON "StoreItem" BEGIN
+            DELETE FROM "StoreChange"
+                WHERE "storeId" IN (OLD."storeId", NEW."storeId") AND "entity" = 'store-item' AND "entityId" = NEW."id";
+            INSERT INTO "StoreChange" ("storeId", "entity", "entityId", "isDeleted")
+                SELECT OLD."storeId", 'store-item', OLD."id", 1 WHERE OLD."storeId" <> NEW."storeId";
+            INSERT INTO "StoreChange" ("storeId", "entity", "entityId", "isDeleted")
+                VALUES (NEW."storeId", 'store-item', NEW."id", 0);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS "StoreItem_change_delete" AFTER DELETE ON "StoreItem" BEGIN
+            DELETE FROM "StoreChange"
+                WHERE "storeId" = OLD."storeId" AND "entity" = 'store-item' AND "entityId" = OLD."id";
+            INSERT INTO "StoreChange" ("storeId", "entity", "entityId", "isDeleted")
+                VALUES (OLD."storeId", 'store-item', OLD."id", 1);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS "StoreAisle_change_insert" AFTER INSERT ON "StoreAisle" BEGIN
+            DELETE FROM "StoreChange"
+                WHERE "storeId" = NEW."storeId" AND "entity" = 'aisle' AND "entityId" = NEW."id";
+            INSERT INTO "StoreChange" ("storeId", "entity", "entityId", "isDeleted")
+                VALUES (NEW."storeId", 'aisle', NEW."id", 0);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS "StoreAisle_change_update" AFTER UPDATE ON "StoreAisle" BEGIN
+            DELETE FROM "StoreChange"
+                WHERE "storeId" IN (OLD."storeId", NEW."storeId") AND "entity" = 'aisle' AND "entityId" = NEW."id";
+            INSERT INTO "StoreChange" ("storeId", "entity", "entityId", "isDeleted")
+                SELECT OLD."storeId", 'aisle', OLD."id", 1 WHERE OLD."storeId" <> NEW."storeId";
+            INSERT INTO "StoreChange" ("storeId", "entity", "entityId", "isDeleted")
+                VALUES (NEW."storeId", 'aisle', NEW."id", 0);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS "StoreAisle_change_delete" AFTER DELETE ON "StoreAisle" BEGIN
+            DELETE FROM "StoreChange"
+                WHERE "storeId" = OLD."storeId" AND "entity" = 'aisle' AND "entityId" = OLD."id";
+            INSERT INTO "StoreChange" ("storeId", "entity", "entityId", "isDeleted")
+                VALUES (OLD."storeId", 'aisle', OLD."id", 1);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS "StoreSection_change_insert" AFTER INSERT ON "StoreSection" BEGIN
+            DELETE FROM "StoreChange"
+                WHERE "storeId" = NEW."storeId" AND "entity" = 'section' AND "entityId" = NEW."id";
+            INSERT INTO "StoreChange" ("storeId", "entity", "entityId", "isDeleted")
+                VALUES (NEW."storeId", 'section', NEW."id", 0);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS "StoreSection_change_update" AFTER UPDATE ON "StoreSection" BEGIN
+            DELETE FROM "StoreChange"
+                WHERE "storeId" IN (OLD."storeId", NEW."storeId") AND "entity" = 'section' AND "entityId" = NEW."id";
+            INSERT INTO "StoreChange" ("storeId", "entity", "entityId", "isDeleted")
+                SELECT OLD."storeId", 'section', OLD."id", 1 WHERE OLD."storeId" <> NEW."storeId";
+            INSERT INTO "StoreChange" ("storeId", "entity", "entityId", "isDeleted")
+                VALUES (NEW."storeId", 'section', NEW."id", 0);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS "StoreSection_change_delete" AFTER DELETE ON "StoreSection" BEGIN
+            DELETE FROM "StoreChange"
+                WHERE "storeId" = OLD."storeId" AND "entity" = 'section' AND "entityId" = OLD."id";
+            INSERT INTO "StoreChange" ("storeId", "entity", "entityId", "isDeleted")
+                VALUES (OLD."storeId", 'section', OLD."id", 1);
+        END;
+    `);
+
+    console.log("  ✓ Created change-log triggers");
+    console.log("Migration complete: Delta sync enabled");
+}
+
+export function down(db: Database): void {
+    console.log("Rolling back migration: Remove store change log...");
+
+    db.exec(`
+        DROP TRIGGER IF EXISTS "ShoppingListItem_change_insert";
+        DROP TRIGGER IF EXISTS "ShoppingListItem_change_update";
+        DROP TRIGGER IF EXISTS "ShoppingListItem_change_delete";
+        DROP TRIGGER IF EXISTS "StoreItem_change_insert";
+        DROP TRIGGER IF EXISTS "StoreItem_change_update";
+        DROP TRIGGER IF EXISTS "StoreItem_change_delete";
+        DROP TRIGGER IF EXISTS "StoreAisle_change_insert";
+        DROP TRIGGER IF EXISTS "StoreAisle_change_update";
+        DROP TRIGGER IF EXISTS "StoreAisle_change_delete";
+        DROP TRIGGER IF EXISTS "StoreSection_change_insert";
+        DROP TRIGGER IF EXISTS "StoreSection_change_update";
+        DROP TRIGGER IF EXISTS "StoreSection_change_delete";
+        DROP TABLE IF EXISTS "StoreChange";
+    `);
+
+    console.log("  ✓ Removed change-log triggers");
+    console.log("  ✓ Removed StoreChange table");
+    console.log("Rollback complete: Delta sync disabled");
+}
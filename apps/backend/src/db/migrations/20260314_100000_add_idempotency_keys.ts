@@ -0,0 +1,52 @@
+import type { Database } from "better-sqlite3";
+
+/**
+ * Migration: Add IdempotencyKey table
+ *
+ * Clients send an Idempotency-Key header with mutating requests. The first response for a key
+ * is stored and replayed when the same request arrives again, so a retried request whose
+ * original response was lost (e.g. a queued offline mutation) doesn't apply twice.
+ *
+ * Design decisions:
+ * - Keys are scoped per user (composite primary key), so one user can't replay another's response
+ * - method/path are kept to reject a key reused for a different request
+ * - status/body are NULL while the first request is still running
+ * - Entries expire after a TTL and are removed by a scheduled job (createdAt index)
+ */
+
+export function up(db: Database): void {
+    console.log("Starting migration: Add idempotency keys...");
+
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS "IdempotencyKey" (
+            "userId" TEXT NOT NULL,
+            "key" TEXT NOT NULL CHECK(length("key") <= 255),
+            "method" TEXT NOT NULL,
+            "path" TEXT NOT NULL,
+            "status" INTEGER,
+            "body" TEXT,
+            "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            PRIMARY KEY ("userId", "key"),
+            FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE
+        );
+
+        CREATE INDEX IF NOT EXISTS "IdempotencyKey_createdAt_idx"
+            ON "IdempotencyKey"("createdAt");
+    `);
+
+    console.log("  ✓ Created IdempotencyKey table");
+    console.log("  ✓ Created all indexes");
+    console.log("Migration complete: Idempotent retries enabled");
+}
+
+export function down(db: Database): void {
+    console.log("Rolling back migration: Remove idempotency keys...");
+
+    db.exec(`
+        DROP INDEX IF EXISTS "IdempotencyKey_createdAt_idx";
+        DROP TABLE IF EXISTS "IdempotencyKey";
+    `);
+
+    console.log("  ✓ Removed IdempotencyKey table");
+    console.log("Rollback complete: Idempotent retries disabled");
+}
@@ -0,0 +1,84 @@
+import type { Database } from "better-sqlite3";
+
+/**
+ * Migration: Add store map tables
+ *
+ * An optional floor plan per store, used to order the shopping list into a walking route.
+ * Aisles are placed as segments on a grid; connections say which points (entrance, checkout,
+ * aisle ends) can be walked between.
+ *
+ * Design decisions:
+ * - One optional map per store (storeId is the primary key of StoreMap)
+ * - An aisle is placed at most once (aisleId is the primary key of StoreMapAisle); deleting the
+ *   aisle removes its placement and every connection to it
+ * - A connection end is the entrance, the checkout, or an aisle's start or end; aisle ends
+ *   carry the aisleId, the others leave it NULL
+ * - The map is saved whole, so rows are replaced rather than updated in place
+ */
+
+export function up(db: Database): void {
+    console.log("Starting migration: Add store maps...");
+
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS "StoreMap" (
+            "storeId" TEXT NOT NULL PRIMARY KEY,
+            "entranceX" INTEGER NOT NULL,
+            "entranceY" INTEGER NOT NULL,
+            "checkoutX" INTEGER NOT NULL,
+            "checkoutY" INTEGER NOT NULL,
+            "createdById" TEXT NOT NULL,
+            "updatedById" TEXT NOT NULL,
+            "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            "updatedAt" DATETIME NOT NULL,
+            FOREIGN KEY ("storeId") REFERENCES "Store" ("id") ON DELETE CASCADE,
+            FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE RESTRICT,
+            FOREIGN KEY ("updatedById") REFERENCES "User" ("id") ON DELETE RESTRICT
+        );
+
+        CREATE TABLE IF NOT EXISTS "StoreMapAisle" (
+            "aisleId" TEXT NOT NULL PRIMARY KEY,
+            "storeId" TEXT NOT NULL,
+            "startX" INTEGER NOT NULL,
+            "startY" INTEGER NOT NULL,
+            "endX" INTEGER NOT NULL,
+            "endY" INTEGER NOT NULL,
+            FOREIGN KEY ("aisleId") REFERENCES "StoreAisle" ("id") ON DELETE CASCADE,
+            FOREIGN KEY ("storeId") REFERENCES "StoreMap" ("storeId") ON DELETE CASCADE
+        );
+
+        CREATE TABLE IF NOT EXISTS "StoreMapConnection" (
+            "id" TEXT NOT NULL PRIMARY KEY,
+            "storeId" TEXT NOT NULL,
+            "fromType" TEXT NOT NULL CHECK("fromType" IN ('entrance', 'checkout', 'aisle')),
+            "fromAisleId" TEXT,
+            "fromEnd" TEXT CHECK("fromEnd" IS NULL OR "fromEnd" IN ('start', 'end')),
+            "toType" TEXT NOT NULL CHECK("toType" IN ('entrance', 'checkout', 'aisle')),
+            "toAisleId" TEXT,
+            "toEnd" TEXT CHECK("toEnd" IS NULL OR "toEnd" IN ('start', 'end')),
+            "sortOrder" INTEGER NOT NULL,
+            FOREIGN KEY ("storeId") REFERENCES "StoreMap" ("storeId") ON DELETE CASCADE,
+            FOREIGN KEY ("fromAisleId") REFERENCES "StoreMapAisle" ("aisleId") ON DELETE CASCADE,
+            FOREIGN KEY ("toAisleId") REFERENCES "StoreMapAisle" ("aisleId") ON DELETE CASCADE
+        );
+
+        CREATE INDEX "StoreMapAisle_storeId_idx" ON "StoreMapAisle"("storeId");
+        CREATE INDEX "StoreMapConnection_storeId_sortOrder_idx" ON "StoreMapConnection"("storeId", "sortOrder");
+    `);
+
+    console.log("  ✓ Created StoreMap, StoreMapAisle, and StoreMapConnection tables");
+    console.log("  ✓ Created all indexes");
+    console.log("Migration complete: Store maps enabled");
+}
+
+export function down(db: Database): void {
+    console.log("Rolling back migration: Remove store maps...");
+
+    db.exec(`
+        DROP TABLE IF EXISTS "StoreMapConnection";
+        DROP TABLE IF EXISTS "StoreMapAisle";
+        DROP TABLE IF EXISTS "StoreMap";
+    `);
+
+    console.log("  ✓ Removed StoreMap, StoreMapAisle, and StoreMapConnection tables");
+    console.log("Rollback complete: Store maps disabled");
+}
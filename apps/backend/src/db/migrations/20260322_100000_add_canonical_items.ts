@@ -0,0 +1,170 @@
+import type { Database } from "better-sqlite3";
+
+/**
+ * Migration: Add CanonicalItem catalog linking store items across stores
+ *
+ * StoreItem is per store, so "oat milk" at two stores is two unrelated rows. A CanonicalItem is
+ * the product itself; store items link to it, and usage and favorites can be read across stores.
+ *
+ * Design decisions:
+ * - A catalog belongs to the store's household, or to the store's creator for stores not shared
+ *   with a household; exactly one of householdId and userId is set, and names are unique per
+ *   catalog (by nameNorm)
+ * - Triggers link store items by nameNorm on insert and rename (creating the canonical item when
+ *   it's new), so every write path links, including offline sync, duplicate, and import
+ * - isCanonicalLinkConfirmed marks links made (or removed) by hand; triggers leave those alone
+ * - When a store joins or leaves a household its items relink by name in the new catalog; links
+ *   made by hand point into the old catalog and are dropped
+ * - Canonical items outlive their last link; catalog queries only list items with links, and
+ *   relinking by name reuses them
+ * - Ids are generated in SQL as random (v4) UUIDs so the triggers need no application code
+ */
+
+const NEW_UUID = `lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(lower(hex(randomblob(2))), 2) || '-' || lower(hex(randomblob(6)))`;
+const NOW = `strftime('%Y-%m-%dT%H:%M:%fZ', 'now')`;
+
+export function up(db: Database): void {
+    console.log("Starting migration: Add canonical items...");
+
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS "CanonicalItem" (
+            "id" TEXT NOT NULL PRIMARY KEY,
+            "householdId" TEXT,
+            "userId" TEXT,
+            "name" TEXT NOT NULL CHECK(length("name") >= 1 AND length("name") <= 100),
+            "nameNorm" TEXT NOT NULL CHECK(length("nameNorm") >= 1 AND length("nameNorm") <= 100),
+            "createdById" TEXT NOT NULL,
+            "updatedById" TEXT NOT NULL,
+            "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            "updatedAt" DATETIME NOT NULL,
+            CHECK(("householdId" IS NULL) <> ("userId" IS NULL)),
+            FOREIGN KEY ("householdId") REFERENCES "Household" ("id") ON DELETE CASCADE,
+            FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE,
+            FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE RESTRICT,
+            FOREIGN KEY ("updatedById") REFERENCES "User" ("id") ON DELETE RESTRICT
+        );
+
+        CREATE UNIQUE INDEX IF NOT EXISTS "CanonicalItem_householdId_nameNorm_key"
+            ON "CanonicalItem"("householdId", "nameNorm") WHERE "householdId" IS NOT NULL;
+
+        CREATE UNIQUE INDEX IF NOT EXISTS "CanonicalItem_userId_nameNorm_key"
+            ON "CanonicalItem"("userId", "nameNorm") WHERE "userId" IS NOT NULL;
+
+        -- No foreign key on canonicalItemId (SQLite can't drop a column that has one); a
+        -- canonical item is only deleted with its household or user, and the Store_canonical_scope
+        -- trigger relinks the items of a store whose household goes away
+        ALTER TABLE "StoreItem" ADD COLUMN "canonicalItemId" TEXT;
+        ALTER TABLE "StoreItem" ADD COLUMN "isCanonicalLinkConfirmed" BOOLEAN NOT NULL DEFAULT 0;
+
+        CREATE INDEX IF NOT EXISTS "StoreItem_canonicalItemId_idx"
+            ON "StoreItem"("canonicalItemId");
+    `);
+
+    console.log("  ✓ Created CanonicalItem table");
+    console.log("  ✓ Added canonicalItemId and isCanonicalLinkConfirmed columns to StoreItem");
+
+    // Existing items: one canonical item per catalog and name, named like the most used store item
+    db.exec(`
+        INSERT INTO "CanonicalItem" ("id", "householdId", "userId", "name", "nameNorm", "createdById", "updatedById", "createdAt", "updatedAt")
+            SELECT ${NEW_UUID}, "householdId", "userId", "name", "nameNorm", "createdById", "createdById", ${NOW}, ${NOW}
+            FROM (
+                SELECT s."householdId",
+                       CASE WHEN s."householdId" IS NULL THEN s."createdById" END AS "userId",
+                       si."name", si."nameNorm", si."createdById",
+                       ROW_NUMBER() OVER (
+                           PARTITION BY s."householdId", CASE WHEN s."householdId" IS NULL THEN s."createdById" END, si."nameNorm"
+                           ORDER BY si."usageCount" DESC, si."createdAt" ASC
+                       ) AS "rank"
+                FROM "StoreItem" si
+                JOIN "Store" s ON s."id" = si."storeId"
+            )
+            WHERE "rank" = 1;
+
+        UPDATE "StoreItem" SET "canonicalItemId" = (
+            SELECT c."id" FROM "CanonicalItem" c, "Store" s
+            WHERE s."id" = "StoreItem"."storeId" AND c."nameNorm" = "StoreItem"."nameNorm"
+              AND (c."householdId" = s."householdId" OR (s."householdId" IS NULL AND c."userId" = s."createdById"))
+        );
+    `);
+
+    console.log("  ✓ Linked existing store items by name");
+
+    createLinkTriggers(db);
+
+    console.log("  ✓ Created linking triggers");
+    console.log("Migration complete: Cross-store item catalog enabled");
+}
+
+/**
+ * Link a store item (NEW) to the canonical item with its name in its store's catalog,
+ * creating the canonical item first when there isn't one
+ */
+function linkByNameStatements(): string {
+    return `
+            INSERT INTO "CanonicalItem" ("id", "householdId", "userId", "name", "nameNorm", "createdById", "updatedById", "createdAt", "updatedAt")
+                SELECT ${NEW_UUID}, s."householdId", CASE WHEN s."householdId" IS NULL THEN s."createdById" END,
+                       NEW."name", NEW."nameNorm", NEW."updatedById", NEW."updatedById", ${NOW}, ${NOW}
+                FROM "Store" s
+                WHERE s."id" = NEW."storeId" AND NOT EXISTS (
+                    SELECT 1 FROM "CanonicalItem" c
+                    WHERE c."nameNorm" = NEW."nameNorm"
+                      AND (c."householdId" = s."householdId" OR (s."householdId" IS NULL AND c."userId" = s."createdById"))
+                );
+            UPDATE "StoreItem" SET "canonicalItemId" = (
+                SELECT c."id" FROM "CanonicalItem" c, "Store" s
+                WHERE s."id" = NEW."storeId" AND c."nameNorm" = NEW."nameNorm"
+                  AND (c."householdId" = s."householdId" OR (s."householdId" IS NULL AND c."userId" = s."createdById"))
+            )
+            WHERE "id" = NEW."id";`;
+}
+
+function createLinkTriggers(db: Database): void {
+    db.exec(`
+        CREATE TRIGGER IF NOT EXISTS "StoreItem_canonical_insert" AFTER INSERT ON "StoreItem"
+        WHEN NEW."canonicalItemId" IS NULL AND NEW."isCanonicalLinkConfirmed" = 0 BEGIN${linkByNameStatements()}
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS "StoreItem_canonical_update" AFTER UPDATE OF "nameNorm", "isCanonicalLinkConfirmed" ON "StoreItem"
+        WHEN NEW."isCanonicalLinkConfirmed" = 0
+             AND (OLD."nameNorm" <> NEW."nameNorm" OR OLD."isCanonicalLinkConfirmed" <> 0) BEGIN${linkByNameStatements()}
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS "Store_canonical_scope" AFTER UPDATE OF "householdId" ON "Store"
+        WHEN OLD."householdId" IS NOT NEW."householdId" BEGIN
+            INSERT INTO "CanonicalItem" ("id", "householdId", "userId", "name", "nameNorm", "createdById", "updatedById", "createdAt", "updatedAt")
+                SELECT ${NEW_UUID}, NEW."householdId", CASE WHEN NEW."householdId" IS NULL THEN NEW."createdById" END,
+                       si."name", si."nameNorm", NEW."updatedById", NEW."updatedById", ${NOW}, ${NOW}
+                FROM "StoreItem" si
+                WHERE si."storeId" = NEW."id" AND NOT EXISTS (
+                    SELECT 1 FROM "CanonicalItem" c
+                    WHERE c."nameNorm" = si."nameNorm"
+                      AND (c."householdId" = NEW."householdId" OR (NEW."householdId" IS NULL AND c."userId" = NEW."createdById"))
+                );
+            UPDATE "StoreItem" SET "isCanonicalLinkConfirmed" = 0, "canonicalItemId" = (
+                SELECT c."id" FROM "CanonicalItem" c
+                WHERE c."nameNorm" = "StoreItem"."nameNorm"
+                  AND (c."householdId" = NEW."householdId" OR (NEW."householdId" IS NULL AND c."userId" = NEW."createdById"))
+            )
+            WHERE "storeId" = NEW."id";
+        END;
+    `);
+}
+
+export function down(db: Database): void {
+    console.log("Rolling back migration: Remove canonical items...");
+
+    db.exec(`
+        DROP TRIGGER IF EXISTS "Store_canonical_scope";
+        DROP TRIGGER IF EXISTS "StoreItem_canonical_update";
+        DROP TRIGGER IF EXISTS "StoreItem_canonical_insert";
+        DROP INDEX IF EXISTS "StoreItem_canonicalItemId_idx";
+        ALTER TABLE "StoreItem" DROP COLUMN "isCanonicalLinkConfirmed";
+        ALTER TABLE "StoreItem" DROP COLUMN "canonicalItemId";
+        DROP TABLE IF EXISTS "CanonicalItem";
+    `);
+
+    console.log("  ✓ Removed linking triggers");
+    console.log("  ✓ Removed canonicalItemId and isCanonicalLinkConfirmed columns from StoreItem");
+    console.log("  ✓ Removed CanonicalItem table");
+    console.log("Rollback complete: Cross-store item catalog disabled");
+}
@@ -0,0 +1,88 @@
+import type { Database } from "better-sqlite3";
+
+/**
+ * Migration: Add refresh token rotation and device sessions
+ *
+ * Refresh tokens used to be returned unchanged on every refresh, so a leaked token stayed valid
+ * for its whole lifetime. Each refresh now replaces the token with a new one; the old token is
+ * kept (revoked) until it expires so that using it again can be detected.
+ *
+ * Design decisions:
+ * - familyId groups every token issued from one login (one device session); it is the id of the
+ *   family's first token, so existing tokens each start their own family
+ * - revokedAt/replacedById record a rotation; presenting a revoked token after the grace period
+ *   means it was copied, and the whole family is deleted (signing that device out)
+ * - deviceName (sent at login), userAgent, and lastUsedAt describe the session to its user
+ * - The table is rebuilt (SQLite can't add NOT NULL columns without defaults); foreign keys are
+ *   disabled by the migration runner
+ */
+
+export function up(db: Database): void {
+    console.log("Starting migration: Add refresh token rotation...");
+
+    db.exec(`
+        CREATE TABLE "RefreshToken_new" (
+            "id" TEXT NOT NULL PRIMARY KEY,
+            "userId" TEXT NOT NULL,
+            "familyId" TEXT NOT NULL,
+            "token" TEXT NOT NULL UNIQUE CHECK(length("token") <= 255),
+            "deviceName" TEXT CHECK("deviceName" IS NULL OR length("deviceName") <= 100),
+            "userAgent" TEXT CHECK("userAgent" IS NULL OR length("userAgent") <= 500),
+            "expiresAt" DATETIME NOT NULL,
+            "lastUsedAt" DATETIME,
+            "revokedAt" DATETIME,
+            "replacedById" TEXT,
+            "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE
+        );
+
+        INSERT INTO "RefreshToken_new" ("id", "userId", "familyId", "token", "expiresAt", "lastUsedAt", "createdAt")
+            SELECT "id", "userId", "id", "token", "expiresAt", "createdAt", "createdAt"
+            FROM "RefreshToken";
+
+        DROP TABLE "RefreshToken";
+        ALTER TABLE "RefreshToken_new" RENAME TO "RefreshToken";
+
+        CREATE INDEX IF NOT EXISTS "RefreshToken_familyId_idx"
+            ON "RefreshToken"("familyId");
+
+        CREATE INDEX IF NOT EXISTS "RefreshToken_userId_idx"
+            ON "RefreshToken"("userId");
+
+        CREATE INDEX IF NOT EXISTS "RefreshToken_expiresAt_idx"
+            ON "RefreshToken"("expiresAt");
+    `);
+
+    console.log(
+        "  ✓ Added familyId, deviceName, userAgent, lastUsedAt, and rotation columns to RefreshToken"
+    );
+    console.log("  ✓ Created all indexes");
+    console.log("Migration complete: Refresh tokens rotate on use");
+}
+
+export function down(db: Database): void {
+    console.log("Rolling back migration: Remove refresh token rotation...");
+
+    // Only the newest token of each family is still usable
+    db.exec(`
+        CREATE TABLE "RefreshToken_old" (
+            "id" TEXT NOT NULL PRIMARY KEY,
+            "userId" TEXT NOT NULL,
+            "token" TEXT NOT NULL UNIQUE CHECK(length("token") <= 255),
+            "expiresAt" DATETIME NOT NULL,
+            "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE
+        );
+
+        INSERT INTO "RefreshToken_old" ("id", "userId", "token", "expiresAt", "createdAt")
+            SELECT "id", "userId", "token", "expiresAt", "createdAt"
+            FROM "RefreshToken"
+            WHERE "revokedAt" IS NULL;
+
+        DROP TABLE "RefreshToken";
+        ALTER TABLE "RefreshToken_old" RENAME TO "RefreshToken";
+    `);
+
+    console.log("  ✓ Removed rotation and device columns from RefreshToken");
+    console.log("Rollback complete: Refresh tokens no longer rotate");
+}
@@ -0,0 +1,54 @@
+import type { Database } from "better-sqlite3";
+
+/**
+ * Migration: Add password reset tokens
+ *
+ * Users who forgot their password can ask for a reset email; the emailed token lets them choose
+ * a new password once.
+ *
+ * Design decisions:
+ * - Only a SHA-256 hash of the token is stored, so a leaked database can't be used to reset
+ *   passwords (the token is random, so a plain hash is enough)
+ * - usedAt marks a token as spent instead of deleting it right away; requesting a new token
+ *   deletes the user's older ones, so only the latest email works
+ * - Expired tokens are removed by the daily cleanup job
+ */
+
+export function up(db: Database): void {
+    console.log("Starting migration: Add password reset tokens...");
+
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS "PasswordResetToken" (
+            "id" TEXT NOT NULL PRIMARY KEY,
+            "userId" TEXT NOT NULL,
+            "tokenHash" TEXT NOT NULL UNIQUE CHECK(length("tokenHash") <= 255),
+            "expiresAt" DATETIME NOT NULL,
+            "usedAt" DATETIME,
+            "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE
+        );
+
+        CREATE INDEX IF NOT EXISTS "PasswordResetToken_userId_idx"
+            ON "PasswordResetToken"("userId");
+
+        CREATE INDEX IF NOT EXISTS "PasswordResetToken_expiresAt_idx"
+            ON "PasswordResetToken"("expiresAt");
+    `);
+
+    console.log("  ✓ Created PasswordResetToken table");
+    console.log("  ✓ Created all indexes");
+    console.log("Migration complete: Password reset tokens added");
+}
+
+export function down(db: Database): void {
+    console.log("Rolling back migration: Remove password reset tokens...");
+
+    db.exec(`
+        DROP INDEX IF EXISTS "PasswordResetToken_expiresAt_idx";
+        DROP INDEX IF EXISTS "PasswordResetToken_userId_idx";
+        DROP TABLE IF EXISTS "PasswordResetToken";
+    `);
+
+    console.log("  ✓ Dropped PasswordResetToken table");
+    console.log("Rollback complete: Password reset tokens removed");
+}
@@ -0,0 +1,72 @@
+import type { Database } from "better-sqlite3";
+
+/**
+ * Migration: Add TOTP two-factor authentication
+ *
+ * Admin accounts can read every user's data, so they can add a second factor: a time-based
+ * code from an authenticator app (RFC 6238), with single-use recovery codes as a fallback.
+ *
+ * Design decisions:
+ * - UserTwoFactor holds one secret per user; enabledAt stays null until setup is confirmed with
+ *   a code, so starting setup again simply replaces the pending secret
+ * - The secret is stored as is (codes can't be checked from a hash); lastUsedStep rejects a code
+ *   that was already used (replay) within its validity window
+ * - Recovery codes are random, so they are stored as SHA-256 hashes like password reset tokens
+ * - RefreshToken.twoFactorVerified marks sessions signed in with a code; it is carried across
+ *   rotations so refreshed access tokens keep their mfa claim
+ * - REQUIRE_ADMIN_TWO_FACTOR (off by default) makes admin APIs require such a session
+ */
+
+export function up(db: Database): void {
+    console.log("Starting migration: Add two-factor authentication...");
+
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS "UserTwoFactor" (
+            "userId" TEXT NOT NULL PRIMARY KEY,
+            "secret" TEXT NOT NULL CHECK(length("secret") <= 255),
+            "enabledAt" DATETIME,
+            "lastUsedStep" INTEGER,
+            "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE
+        );
+
+        CREATE TABLE IF NOT EXISTS "TwoFactorRecoveryCode" (
+            "id" TEXT NOT NULL PRIMARY KEY,
+            "userId" TEXT NOT NULL,
+            "codeHash" TEXT NOT NULL CHECK(length("codeHash") <= 255),
+            "usedAt" DATETIME,
+            "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE
+        );
+
+        CREATE INDEX IF NOT EXISTS "TwoFactorRecoveryCode_userId_idx"
+            ON "TwoFactorRecoveryCode"("userId");
+
+        ALTER TABLE "RefreshToken" ADD COLUMN "twoFactorVerified" BOOLEAN NOT NULL DEFAULT 0;
+
+        INSERT OR IGNORE INTO "AppSetting" ("key", "value", "createdAt", "updatedAt")
+            VALUES ('REQUIRE_ADMIN_TWO_FACTOR', 'false', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP);
+    `);
+
+    console.log("  ✓ Created UserTwoFactor and TwoFactorRecoveryCode tables");
+    console.log("  ✓ Added twoFactorVerified to RefreshToken");
+    console.log("  ✓ Added REQUIRE_ADMIN_TWO_FACTOR setting (off)");
+    console.log("Migration complete: Two-factor authentication added");
+}
+
+export function down(db: Database): void {
+    console.log("Rolling back migration: Remove two-factor authentication...");
+
+    db.exec(`
+        DELETE FROM "AppSetting" WHERE "key" = 'REQUIRE_ADMIN_TWO_FACTOR';
+
+        ALTER TABLE "RefreshToken" DROP COLUMN "twoFactorVerified";
+
+        DROP INDEX IF EXISTS "TwoFactorRecoveryCode_userId_idx";
+        DROP TABLE IF EXISTS "TwoFactorRecoveryCode";
+        DROP TABLE IF EXISTS "UserTwoFactor";
+    `);
+
+    console.log("  ✓ Dropped two-factor tables, column, and setting");
+    console.log("Rollback complete: Two-factor authentication removed");
+}
@@ -0,0 +1,54 @@
+import type { Database } from "better-sqlite3";
+
+/**
+ * Migration: Add personal API tokens
+ *
+ * Access tokens from /api/auth/login expire within minutes, so scripts and home automation
+ * (cron jobs, Home Assistant) had no safe way to call the API. Users can now create long-lived
+ * tokens limited to a few scopes (e.g. shopping-list:write) and, optionally, to some stores.
+ *
+ * Design decisions:
+ * - Tokens are random, so only a SHA-256 hash is stored (like password reset tokens); tokenPrefix
+ *   keeps the first characters so users can tell their tokens apart
+ * - scopes and storeIds are comma-separated, like User.scopes; storeIds null means every store
+ *   the user can access. A deleted store stays listed, so a limited token never widens
+ * - expiresAt null means the token doesn't expire; lastUsedAt is updated at most once a minute
+ */
+
+export function up(db: Database): void {
+    console.log("Starting migration: Add personal API tokens...");
+
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS "ApiToken" (
+            "id" TEXT NOT NULL PRIMARY KEY,
+            "userId" TEXT NOT NULL,
+            "name" TEXT NOT NULL CHECK(length("name") <= 100),
+            "tokenHash" TEXT NOT NULL UNIQUE CHECK(length("tokenHash") <= 255),
+            "tokenPrefix" TEXT NOT NULL CHECK(length("tokenPrefix") <= 50),
+            "scopes" TEXT NOT NULL CHECK(length("scopes") <= 500),
+            "storeIds" TEXT CHECK(length("storeIds") <= 2000),
+            "expiresAt" DATETIME,
+            "lastUsedAt" DATETIME,
+            "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE
+        );
+
+        CREATE INDEX IF NOT EXISTS "ApiToken_userId_idx"
+            ON "ApiToken"("userId");
+    `);
+
+    console.log("  ✓ Created ApiToken table");
+    console.log("Migration complete: Personal API tokens added");
+}
+
+export function down(db: Database): void {
+    console.log("Rolling back migration: Remove personal API tokens...");
+
+    db.exec(`
+        DROP INDEX IF EXISTS "ApiToken_userId_idx";
+        DROP TABLE IF EXISTS "ApiToken";
+    `);
+
+    console.log("  ✓ Dropped ApiToken table");
+    console.log("Rollback complete: Personal API tokens removed");
+}
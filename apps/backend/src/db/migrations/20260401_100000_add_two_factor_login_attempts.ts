@@ -0,0 +1,39 @@
+import type { Database } from "better-sqlite3";
+
+/**
+ * Migration: Limit bad codes at the second login step
+ *
+ * The challenge from the password step could be tried with any number of codes, and a new one
+ * could be asked for at any time, so a 6-digit code could be guessed.
+ *
+ * Design decisions:
+ * - UserTwoFactor.failedLoginAttempts counts bad codes since the last successful sign-in; it is
+ *   per user, so asking for more challenges doesn't reset it
+ * - Challenge tokens carry UserTwoFactor.challengeVersion; it is bumped after
+ *   MAX_TWO_FACTOR_LOGIN_ATTEMPTS bad codes and on every successful sign-in, which voids all
+ *   outstanding challenges and sends the user back to the password step
+ */
+
+export function up(db: Database): void {
+    console.log("Starting migration: Add two-factor login attempt limit...");
+
+    db.exec(`
+        ALTER TABLE "UserTwoFactor" ADD COLUMN "failedLoginAttempts" INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE "UserTwoFactor" ADD COLUMN "challengeVersion" INTEGER NOT NULL DEFAULT 0;
+    `);
+
+    console.log("  ✓ Added failedLoginAttempts and challengeVersion to UserTwoFactor");
+    console.log("Migration complete: Two-factor login attempts are limited");
+}
+
+export function down(db: Database): void {
+    console.log("Rolling back migration: Remove two-factor login attempt limit...");
+
+    db.exec(`
+        ALTER TABLE "UserTwoFactor" DROP COLUMN "challengeVersion";
+        ALTER TABLE "UserTwoFactor" DROP COLUMN "failedLoginAttempts";
+    `);
+
+    console.log("  ✓ Dropped failedLoginAttempts and challengeVersion from UserTwoFactor");
+    console.log("Rollback complete: Two-factor login attempt limit removed");
+}
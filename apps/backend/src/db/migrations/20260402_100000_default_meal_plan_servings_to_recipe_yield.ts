@@ -0,0 +1,39 @@
+import type { Database } from "better-sqlite3";
+
+/**
+ * Migration: Plan existing meal plan entries at their recipe's yield
+ *
+ * Entries were always created with 1 serving, so once the shopping list scaled each entry from
+ * the recipe's yield to its planned servings, a 4-serving recipe added a quarter of its
+ * groceries. New entries default to the recipe's yield instead.
+ *
+ * Design decisions:
+ * - Existing entries with 1 serving are treated as unscaled: they get their recipe's yield.
+ *   Entries whose servings were changed, and recipes without a yield, are left alone
+ * - Not reversible: down() can't tell these entries apart from ones planned at the yield
+ */
+
+export function up(db: Database): void {
+    console.log("Starting migration: Default meal plan servings to the recipe's yield...");
+
+    const result = db
+        .prepare(
+            `UPDATE "MealPlanEntry"
+             SET "servings" = (SELECT r."servings" FROM "Recipe" r WHERE r."id" = "MealPlanEntry"."recipeId")
+             WHERE "servings" = 1
+               AND EXISTS (
+                   SELECT 1 FROM "Recipe" r
+                   WHERE r."id" = "MealPlanEntry"."recipeId" AND r."servings" IS NOT NULL
+               )`
+        )
+        .run();
+
+    console.log(`  ✓ Set ${result.changes} meal plan entries to their recipe's yield`);
+    console.log("Migration complete: Meal plan entries are unscaled by default");
+}
+
+export function down(): void {
+    console.log("Rolling back migration: Default meal plan servings to the recipe's yield...");
+    console.log("  ✓ Nothing to undo (entries keep their servings)");
+    console.log("Rollback complete: Meal plan servings left as they are");
+}
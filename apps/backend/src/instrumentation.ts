@@ -0,0 +1,10 @@
+/**
+ * Next.js server startup hook: starts background jobs in the Node.js runtime only
+ * (the database driver is unavailable on the edge runtime used by middleware).
+ */
+export async function register() {
+    if (process.env.NEXT_RUNTIME === "nodejs") {
+        const { startScheduledJobs } = await import("./lib/jobs/scheduler");
+        startScheduledJobs();
+    }
+}
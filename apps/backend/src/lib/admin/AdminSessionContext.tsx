@@ -1,12 +1,22 @@
 import type { User } from "@basket-bot/core";
 import { createContext } from "react";
 
+/**
+ * Outcome of a sign-in step: signed in, a code is needed (the challenge goes to
+ * completeTwoFactorLogin), or signed in but two-factor must be set up before admin APIs work
+ */
+export type AdminLoginResult =
+    | { status: "signedIn" }
+    | { status: "twoFactorRequired"; challengeToken: string }
+    | { status: "twoFactorSetupRequired" };
+
 export interface AdminSessionContextValue {
     user: User | null;
     accessToken: string | null;
     refreshToken: string | null;
     isLoading: boolean;
-    login: (email: string, password: string) => Promise<void>;
+    login: (email: string, password: string) => Promise<AdminLoginResult>;
+    completeTwoFactorLogin: (challengeToken: string, code: string) => Promise<AdminLoginResult>;
     logout: () => Promise<void>;
     tryRefreshToken: () => Promise<boolean>;
 }
@@ -1,8 +1,8 @@
 "use client";
 
-import type { User } from "@basket-bot/core";
+import type { TwoFactorStatus, User } from "@basket-bot/core";
 import { useCallback, useEffect, useMemo, useState } from "react";
-import { AdminSessionContext } from "./AdminSessionContext";
+import { AdminSessionContext, type AdminLoginResult } from "./AdminSessionContext";
 
 interface AdminSessionProviderProps {
     children: React.ReactNode;
@@ -98,14 +98,9 @@ const AdminSessionProvider: React.FC<AdminSessionProviderProps> = ({ children })
         checkSession();
     }, [refreshAccessToken, clearSession]);
 
-    const login = useCallback(
-        async (email: string, password: string) => {
-            const response = await fetch("/api/auth/login", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ email, password }),
-            });
-
+    // Check the sign-in response and, once signed in, whether two-factor still has to be set up
+    const finishLogin = useCallback(
+        async (response: Response): Promise<AdminLoginResult> => {
             if (!response.ok) {
                 const error = await response.json();
                 throw new Error(error.message || "Login failed");
@@ -113,16 +108,58 @@ const AdminSessionProvider: React.FC<AdminSessionProviderProps> = ({ children })
 
             const data = await response.json();
 
+            if (data.twoFactorRequired) {
+                return { status: "twoFactorRequired", challengeToken: data.challengeToken };
+            }
+
             // Verify admin scope
             if (!data.user.scopes || !data.user.scopes.includes("admin")) {
                 throw new Error("Access denied: admin privileges required");
             }
 
             persistSession(data.accessToken, data.refreshToken, data.user);
+
+            const statusResponse = await fetch("/api/auth/two-factor", {
+                headers: { Authorization: `Bearer ${data.accessToken}` },
+            });
+            if (statusResponse.ok) {
+                const status: TwoFactorStatus = await statusResponse.json();
+                if (status.required && !status.enabled) {
+                    return { status: "twoFactorSetupRequired" };
+                }
+            }
+
+            return { status: "signedIn" };
         },
         [persistSession]
     );
 
+    const login = useCallback(
+        async (email: string, password: string) => {
+            const response = await fetch("/api/auth/login", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ email, password, deviceName: "Admin portal" }),
+            });
+
+            return finishLogin(response);
+        },
+        [finishLogin]
+    );
+
+    const completeTwoFactorLogin = useCallback(
+        async (challengeToken: string, code: string) => {
+            const response = await fetch("/api/auth/login/two-factor", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ challengeToken, code }),
+            });
+
+            return finishLogin(response);
+        },
+        [finishLogin]
+    );
+
     const logout = useCallback(async () => {
         try {
             // Note: logout endpoint expects refresh token in body, but we're not using server-side token revocation for now
@@ -148,10 +185,20 @@ const AdminSessionProvider: React.FC<AdminSessionProviderProps> = ({ children })
             refreshToken,
             isLoading,
             login,
+            completeTwoFactorLogin,
             logout,
             tryRefreshToken,
         }),
-        [user, accessToken, refreshToken, isLoading, login, logout, tryRefreshToken]
+        [
+            user,
+            accessToken,
+            refreshToken,
+            isLoading,
+            login,
+            completeTwoFactorLogin,
+            logout,
+            tryRefreshToken,
+        ]
     );
 
     return <AdminSessionContext.Provider value={value}>{children}</AdminSessionContext.Provider>;
@@ -0,0 +1,94 @@
+import type { ApiTokenScope } from "@basket-bot/core";
+
+/**
+ * Which API routes personal API tokens may call, and the scopes each needs. Anything not listed
+ * (account, sessions, API tokens, households, invitations, admin) needs a signed-in session.
+ */
+
+type ApiTokenRoute = {
+    // When the first capture group matches, it's the store the request is about
+    pattern: RegExp;
+    read: ApiTokenScope[];
+    write: ApiTokenScope[];
+};
+
+const API_TOKEN_ROUTES: ApiTokenRoute[] = [
+    // The delta feed and event stream carry shopping list rows as well as the store's layout
+    {
+        pattern: /^\/api\/stores\/([^/]+)\/(?:changes|events)(?:\/|$)/,
+        read: ["stores:read", "shopping-list:read"],
+        write: ["stores:write", "shopping-list:write"],
+    },
+    {
+        pattern: /^\/api\/stores\/([^/]+)\/shopping-list(?:\/|$)/,
+        read: ["shopping-list:read"],
+        write: ["shopping-list:write"],
+    },
+    { pattern: /^\/api\/stores\/import$/, read: ["stores:read"], write: ["stores:write"] },
+    { pattern: /^\/api\/stores\/([^/]+)(?:\/|$)/, read: ["stores:read"], write: ["stores:write"] },
+    {
+        pattern: /^\/api\/(?:stores|catalog)(?:\/|$)/,
+        read: ["stores:read"],
+        write: ["stores:write"],
+    },
+    // These add to a shopping list as well
+    {
+        pattern: /^\/api\/recipes\/add-to-shopping-list$/,
+        read: ["recipes:read"],
+        write: ["recipes:read", "shopping-list:write"],
+    },
+    {
+        pattern: /^\/api\/meal-plans\/shopping-list$/,
+        read: ["meal-plans:read"],
+        write: ["meal-plans:read", "shopping-list:write"],
+    },
+    {
+        pattern: /^\/api\/list-templates\/[^/]+\/apply$/,
+        read: ["list-templates:read"],
+        write: ["list-templates:read", "shopping-list:write"],
+    },
+    {
+        pattern: /^\/api\/list-templates\/from-list$/,
+        read: ["list-templates:read"],
+        write: ["list-templates:write", "shopping-list:read"],
+    },
+    {
+        pattern: /^\/api\/(?:recipes|recipe-tags)(?:\/|$)/,
+        read: ["recipes:read"],
+        write: ["recipes:write"],
+    },
+    {
+        pattern: /^\/api\/meal-plans(?:\/|$)/,
+        read: ["meal-plans:read"],
+        write: ["meal-plans:write"],
+    },
+    {
+        pattern: /^\/api\/list-templates(?:\/|$)/,
+        read: ["list-templates:read"],
+        write: ["list-templates:write"],
+    },
+    // Reference data
+    { pattern: /^\/api\/quantity-units$/, read: [], write: [] },
+];
+
+/**
+ * The scopes a request needs and the store it's about (null when the path names none), or null
+ * when API tokens can't call the route at all
+ */
+export function getApiTokenRouteAccess(
+    method: string,
+    pathname: string
+): { scopes: ApiTokenScope[]; storeId: string | null } | null {
+    for (const route of API_TOKEN_ROUTES) {
+        const match = route.pattern.exec(pathname);
+        if (!match) continue;
+
+        const isRead = method === "GET" || method === "HEAD";
+        return {
+            scopes: isRead ? route.read : route.write,
+            storeId: match[1] ? decodeURIComponent(match[1]) : null,
+        };
+    }
+
+    return null;
+}
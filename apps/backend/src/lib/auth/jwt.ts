@@ -1,13 +1,18 @@
+import { randomUUID } from "crypto";
 import jwt from "jsonwebtoken";
 import { AuthenticationError, JwtPayload } from "@basket-bot/core";
 import {
     DEFAULT_ACCESS_TOKEN_TTL_SECONDS,
     DEFAULT_REFRESH_TOKEN_TTL_SECONDS,
+    TWO_FACTOR_CHALLENGE_TTL_SECONDS,
+    TwoFactorError,
 } from "@basket-bot/core";
 
 const JWT_SECRET = process.env.JWT_SECRET || "default-secret-change-this";
 const JWT_ISSUER = process.env.JWT_ISSUER || "basket-bot";
 const JWT_AUDIENCE = process.env.JWT_AUDIENCE || "basket-bot-api";
+// Challenge tokens get their own audience so they can't be used as access tokens
+const TWO_FACTOR_CHALLENGE_AUDIENCE = `${JWT_AUDIENCE}:two-factor`;
 
 const ACCESS_TOKEN_TTL = parseInt(
     process.env.ACCESS_TOKEN_TTL_SECONDS || String(DEFAULT_ACCESS_TOKEN_TTL_SECONDS)
@@ -20,11 +25,15 @@ export function generateAccessToken(payload: {
     userId: string;
     email: string;
     scopes: string[];
+    sessionId?: string;
+    twoFactorVerified?: boolean;
 }): string {
     const jwtPayload: Omit<JwtPayload, "iat" | "exp"> = {
         sub: payload.userId,
         email: payload.email,
         scopes: payload.scopes,
+        sid: payload.sessionId,
+        mfa: payload.twoFactorVerified || undefined,
         iss: JWT_ISSUER,
         aud: JWT_AUDIENCE,
     };
@@ -35,8 +44,10 @@ export function generateAccessToken(payload: {
 }
 
 export function generateRefreshToken(): string {
+    // jwtid keeps tokens issued in the same second (e.g. back-to-back rotations) distinct
     return jwt.sign({}, JWT_SECRET, {
         expiresIn: REFRESH_TOKEN_TTL,
+        jwtid: randomUUID(),
     });
 }
 
@@ -52,6 +63,46 @@ export function verifyAccessToken(token: string): JwtPayload {
     }
 }
 
+/**
+ * Proof that a user passed the password step of a two-factor login; exchanged, with a code,
+ * for a session at /api/auth/login/two-factor. version is the user's challengeVersion, so the
+ * challenge can be voided (see twoFactorService.completeLogin).
+ */
+export function generateTwoFactorChallengeToken(payload: {
+    userId: string;
+    deviceName?: string;
+    version: number;
+}): string {
+    return jwt.sign(
+        { sub: payload.userId, deviceName: payload.deviceName, ver: payload.version },
+        JWT_SECRET,
+        {
+            expiresIn: TWO_FACTOR_CHALLENGE_TTL_SECONDS,
+            issuer: JWT_ISSUER,
+            audience: TWO_FACTOR_CHALLENGE_AUDIENCE,
+        }
+    );
+}
+
+export function verifyTwoFactorChallengeToken(token: string): {
+    userId: string;
+    deviceName?: string;
+    version: number;
+} {
+    try {
+        const decoded = jwt.verify(token, JWT_SECRET, {
+            issuer: JWT_ISSUER,
+            audience: TWO_FACTOR_CHALLENGE_AUDIENCE,
+        }) as { sub: string; deviceName?: string; ver?: number };
+        return { userId: decoded.sub, deviceName: decoded.deviceName, version: decoded.ver ?? 0 };
+    } catch (error) {
+        throw new TwoFactorError(
+            "INVALID_TWO_FACTOR_CHALLENGE",
+            "Sign-in expired; enter your password again"
+        );
+    }
+}
+
 export function getRefreshTokenExpiry(): Date {
     return new Date(Date.now() + REFRESH_TOKEN_TTL * 1000);
 }
@@ -0,0 +1,40 @@
+import { POST as confirmPasswordReset } from "@/app/api/auth/password-reset/confirm/route";
+import { POST as requestPasswordReset } from "@/app/api/auth/password-reset/request/route";
+import { NextRequest } from "next/server";
+import { describe, expect, it } from "vitest";
+
+const post = (ip: string, body: unknown) =>
+    new NextRequest("http://localhost/api/auth/password-reset", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "X-Forwarded-For": ip },
+        body: JSON.stringify(body),
+    });
+
+describe("rate limited routes", () => {
+    it("refuse a reset request past 3 an hour from one IP", async () => {
+        const statuses: number[] = [];
+        for (let i = 0; i < 4; i++) {
+            const response = await requestPasswordReset(
+                post("10.0.0.1", { email: "nobody@example.com" })
+            );
+            statuses.push(response.status);
+        }
+
+        expect(statuses).toEqual([200, 200, 200, 429]);
+    });
+
+    it("refuse a reset code past 5 in 15 minutes from one IP, counting each IP apart", async () => {
+        const confirm = (ip: string) =>
+            confirmPasswordReset(post(ip, { token: "not-a-code", newPassword: "new-password" }));
+
+        for (let i = 0; i < 5; i++) {
+            expect((await confirm("10.0.0.2")).status).toBe(400);
+        }
+        const limited = await confirm("10.0.0.2");
+
+        expect(limited.status).toBe(429);
+        expect((await limited.json()).code).toBe("RATE_LIMIT_EXCEEDED");
+        expect(limited.headers.get("Retry-After")).toBe(String(15 * 60));
+        expect((await confirm("10.0.0.3")).status).toBe(400);
+    });
+});
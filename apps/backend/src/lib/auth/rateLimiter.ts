@@ -2,43 +2,46 @@ import rateLimit from "next-rate-limit";
 import { NextRequest, NextResponse } from "next/server";
 
 /**
- * Rate limiting middleware for Next.js API routes using next-rate-limit
- * @param req - Next.js request object
- * @param maxAttempts - Maximum attempts allowed
+ * Rate limiting for Next.js API routes using next-rate-limit. Create one limiter per route at
+ * module scope: the attempts are counted in the limiter's own cache, so a limiter created per
+ * request never blocks anything.
+ * @param maxAttempts - Maximum attempts allowed per IP
  * @param windowMs - Time window in milliseconds
- * @returns Response if rate limited, null otherwise
+ * @returns A check for the route's handler: a 429 response if rate limited, null otherwise
  */
-export async function checkRateLimit(
-    req: NextRequest,
+export function createRateLimiter(
     maxAttempts: number,
     windowMs: number
-): Promise<NextResponse | null> {
+): (req: NextRequest) => Promise<NextResponse | null> {
     const limiter = rateLimit({
         interval: windowMs,
         uniqueTokenPerInterval: 500, // Max number of unique IPs to track
     });
 
-    try {
-        await limiter.checkNext(req, maxAttempts);
-        return null; // Not rate limited
-    } catch {
-        // Rate limited
-        const retryAfter = Math.ceil(windowMs / 1000);
+    return async (req) => {
+        try {
+            // next-rate-limit already blocks the attempt that reaches its limit
+            await limiter.checkNext(req, maxAttempts + 1);
+            return null; // Not rate limited
+        } catch {
+            // Rate limited
+            const retryAfter = Math.ceil(windowMs / 1000);
 
-        return NextResponse.json(
-            {
-                code: "RATE_LIMIT_EXCEEDED",
-                message: "Too many attempts. Please try again later.",
-                details: {
-                    retryAfter: retryAfter,
+            return NextResponse.json(
+                {
+                    code: "RATE_LIMIT_EXCEEDED",
+                    message: "Too many attempts. Please try again later.",
+                    details: {
+                        retryAfter: retryAfter,
+                    },
                 },
-            },
-            {
-                status: 429,
-                headers: {
-                    "Retry-After": retryAfter.toString(),
-                },
-            }
-        );
-    }
+                {
+                    status: 429,
+                    headers: {
+                        "Retry-After": retryAfter.toString(),
+                    },
+                }
+            );
+        }
+    };
 }
@@ -0,0 +1,120 @@
+import { TOTP_ALLOWED_DRIFT_STEPS, TOTP_DIGITS, TOTP_PERIOD_SECONDS } from "@basket-bot/core";
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+/**
+ * Time-based one-time passwords (RFC 6238, with the defaults authenticator apps expect:
+ * HMAC-SHA1, 6 digits, 30-second periods). Secrets are exchanged in base32 (RFC 4648).
+ */
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const TOTP_ISSUER = "Basket Bot";
+
+function base32Encode(data: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = "";
+
+    for (const byte of data) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+}
+
+function base32Decode(encoded: string): Buffer {
+    const bytes: number[] = [];
+    let bits = 0;
+    let value = 0;
+
+    for (const char of encoded.toUpperCase().replace(/[\s=]/g, "")) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) throw new Error("Invalid base32 character");
+
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+
+    return Buffer.from(bytes);
+}
+
+/**
+ * A new random secret (160 bits, as RFC 4226 recommends), base32-encoded
+ */
+export function generateTotpSecret(): string {
+    return base32Encode(randomBytes(20));
+}
+
+/**
+ * The period number a time falls in
+ */
+export function getTotpStep(time = Date.now()): number {
+    return Math.floor(time / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+/**
+ * The code for a period (HOTP of the step counter, RFC 4226)
+ */
+export function generateTotpCode(secret: string, step: number): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+
+    const hmac = createHmac("sha1", base32Decode(secret)).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 15;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+    return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0");
+}
+
+/**
+ * Check a code against the current period and its neighbors. Returns the matching step, or null;
+ * steps up to lastUsedStep are refused so that a code can't be used twice.
+ */
+export function verifyTotpCode(
+    secret: string,
+    code: string,
+    lastUsedStep: number | null
+): number | null {
+    const normalized = code.replace(/\s/g, "");
+    if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) return null;
+
+    const currentStep = getTotpStep();
+    for (let drift = -TOTP_ALLOWED_DRIFT_STEPS; drift <= TOTP_ALLOWED_DRIFT_STEPS; drift++) {
+        const step = currentStep + drift;
+        if (lastUsedStep !== null && step <= lastUsedStep) continue;
+
+        const expected = generateTotpCode(secret, step);
+        if (timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+            return step;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * The otpauth:// URI authenticator apps import (usually from a QR code)
+ */
+export function buildTotpProvisioningUri(secret: string, accountName: string): string {
+    const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+    const params = new URLSearchParams({
+        secret,
+        issuer: TOTP_ISSUER,
+        algorithm: "SHA1",
+        digits: String(TOTP_DIGITS),
+        period: String(TOTP_PERIOD_SECONDS),
+    });
+
+    return `otpauth://totp/${label}?${params.toString()}`;
+}
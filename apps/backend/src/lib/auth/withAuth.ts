@@ -1,5 +1,15 @@
-import { AuthenticationError, AuthorizationError, JwtPayload } from "@basket-bot/core";
+import {
+    ADMIN_SCOPE,
+    API_TOKEN_PREFIX,
+    AuthenticationError,
+    AuthorizationError,
+    JwtPayload,
+    TwoFactorError,
+} from "@basket-bot/core";
 import { NextRequest, NextResponse } from "next/server";
+import { isSessionActive } from "../repos/refreshTokenRepo";
+import { authenticateRequest as authenticateApiTokenRequest } from "../services/apiTokenService";
+import { isTwoFactorRequiredForAdmins } from "../services/twoFactorService";
 import { verifyAccessToken } from "./jwt";
 
 export type AuthenticatedRequest = NextRequest & {
@@ -20,7 +30,19 @@ export function withAuth(handler: RouteHandler, options?: { requireScopes?: stri
             }
 
             const token = authHeader.substring(7);
-            const payload = verifyAccessToken(token);
+            let payload: JwtPayload;
+
+            if (token.startsWith(API_TOKEN_PREFIX)) {
+                // Personal API token: only the routes its scopes cover
+                payload = authenticateApiTokenRequest(token, req.method, req.nextUrl.pathname);
+            } else {
+                payload = verifyAccessToken(token);
+
+                // Access tokens of a session that was signed out stop working right away
+                if (payload.sid && !isSessionActive(payload.sid)) {
+                    throw new AuthenticationError("Session has been signed out");
+                }
+            }
 
             // Check required scopes
             if (options?.requireScopes) {
@@ -30,6 +52,18 @@ export function withAuth(handler: RouteHandler, options?: { requireScopes?: stri
                 if (!hasRequiredScopes) {
                     throw new AuthorizationError("Insufficient permissions");
                 }
+
+                // Admin APIs can require a session signed in with a two-factor code
+                if (
+                    options.requireScopes.includes(ADMIN_SCOPE) &&
+                    !payload.mfa &&
+                    isTwoFactorRequiredForAdmins()
+                ) {
+                    throw new TwoFactorError(
+                        "TWO_FACTOR_REQUIRED",
+                        "Sign in with two-factor authentication to use admin tools"
+                    );
+                }
             }
 
             // Attach auth payload to request
@@ -51,6 +85,12 @@ export function withAuth(handler: RouteHandler, options?: { requireScopes?: stri
 
                 return response;
             }
+            if (error instanceof TwoFactorError) {
+                return NextResponse.json(
+                    { code: error.code, message: error.message },
+                    { status: 403 }
+                );
+            }
             return NextResponse.json(
                 { code: "INTERNAL_ERROR", message: "Internal server error" },
                 { status: 500 }
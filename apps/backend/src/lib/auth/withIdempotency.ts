@@ -0,0 +1,128 @@
+import {
+    IDEMPOTENCY_CLAIM_TIMEOUT_SECONDS,
+    IDEMPOTENCY_KEY_HEADER,
+    IDEMPOTENCY_KEY_TTL_SECONDS,
+    MAX_IDEMPOTENCY_KEY_LENGTH,
+} from "@basket-bot/core";
+import { NextResponse } from "next/server";
+import {
+    claimIdempotencyKey,
+    completeIdempotencyKey,
+    getIdempotencyKey,
+    releaseIdempotencyKey,
+    type IdempotencyKeyRecord,
+} from "../repos/idempotencyKeyRepo";
+import type { RouteHandler } from "./withAuth";
+
+function expiryCutoff(): string {
+    return new Date(Date.now() - IDEMPOTENCY_KEY_TTL_SECONDS * 1000).toISOString();
+}
+
+function staleClaimCutoff(): string {
+    return new Date(Date.now() - IDEMPOTENCY_CLAIM_TIMEOUT_SECONDS * 1000).toISOString();
+}
+
+function inUse(): NextResponse {
+    return NextResponse.json(
+        {
+            code: "IDEMPOTENCY_KEY_IN_USE",
+            message: "A request with this idempotency key is still being processed",
+        },
+        { status: 409 }
+    );
+}
+
+/**
+ * Answer a repeated request from the stored entry of its key
+ */
+function replay(record: IdempotencyKeyRecord, method: string, path: string): NextResponse {
+    if (record.method !== method || record.path !== path) {
+        return NextResponse.json(
+            {
+                code: "IDEMPOTENCY_KEY_REUSED",
+                message: "This idempotency key was already used for a different request",
+            },
+            { status: 422 }
+        );
+    }
+
+    if (record.status === null) {
+        return inUse();
+    }
+
+    return new NextResponse(record.body || null, {
+        status: record.status,
+        headers: { "Content-Type": "application/json", "Idempotent-Replayed": "true" },
+    });
+}
+
+/**
+ * Make a mutating route safe to retry. When the request carries an Idempotency-Key header,
+ * the first response for that key (per user) is stored and replayed for repeats within the TTL,
+ * so a retry whose original response was lost doesn't apply twice. Server errors (5xx) aren't
+ * stored; the request can be retried for real. A request still unfinished after the claim
+ * timeout is presumed lost (e.g. the server restarted) and a retry runs in its place.
+ * Requests without the header run as usual.
+ *
+ * Goes inside withAuth: withAuth(withIdempotency(handler))
+ */
+export function withIdempotency(handler: RouteHandler): RouteHandler {
+    return async (req, context) => {
+        const key = req.headers.get(IDEMPOTENCY_KEY_HEADER);
+        if (!key) {
+            return handler(req, context);
+        }
+
+        if (key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+            return NextResponse.json(
+                {
+                    code: "VALIDATION_FAILED",
+                    message: `${IDEMPOTENCY_KEY_HEADER} must be ${MAX_IDEMPOTENCY_KEY_LENGTH} characters or less`,
+                },
+                { status: 400 }
+            );
+        }
+
+        const userId = req.auth.sub;
+        const method = req.method;
+        const path = req.nextUrl.pathname;
+        const createdAfter = expiryCutoff();
+        const staleClaimBefore = staleClaimCutoff();
+
+        const existing = getIdempotencyKey(userId, key, createdAfter);
+        const isStaleClaim =
+            existing?.status === null &&
+            existing.method === method &&
+            existing.path === path &&
+            existing.createdAt <= staleClaimBefore;
+        if (existing && !isStaleClaim) {
+            return replay(existing, method, path);
+        }
+
+        if (!claimIdempotencyKey({ userId, key, method, path, createdAfter, staleClaimBefore })) {
+            // Claimed by a concurrent request since the lookup
+            const claimed = getIdempotencyKey(userId, key, createdAfter);
+            if (claimed) {
+                return replay(claimed, method, path);
+            }
+            // ...and released again; the client retries rather than this running unguarded
+            return inUse();
+        }
+
+        let response: NextResponse;
+        try {
+            response = await handler(req, context);
+        } catch (error) {
+            releaseIdempotencyKey(userId, key);
+            throw error;
+        }
+
+        if (response.status >= 500) {
+            releaseIdempotencyKey(userId, key);
+            return response;
+        }
+
+        completeIdempotencyKey(userId, key, response.status, await response.clone().text());
+        return response;
+    };
+}
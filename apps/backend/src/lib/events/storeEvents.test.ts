@@ -0,0 +1,74 @@
+import { randomUUID } from "crypto";
+import { describe, expect, it } from "vitest";
+import { getStoreEventsSince, publishStoreEvent, subscribeToStore } from "./storeEvents";
+
+const publish = (storeId: string, entityId: string) =>
+    publishStoreEvent({
+        storeId,
+        entity: "aisle",
+        action: "updated",
+        entityId,
+        actorId: "user-1",
+    });
+
+describe("store events", () => {
+    it("delivers events to subscribers until they unsubscribe", () => {
+        const storeId = randomUUID();
+        const received: string[] = [];
+        const unsubscribe = subscribeToStore(storeId, (event) => received.push(event.entityId!));
+
+        publish(storeId, "a");
+        unsubscribe();
+        publish(storeId, "b");
+
+        expect(received).toEqual(["a"]);
+    });
+
+    it("replays the backlog after a reconnect with the last event id", () => {
+        const storeId = randomUUID();
+        const lastSeen = publish(storeId, "a");
+        publish(storeId, "b");
+        publish(storeId, "c");
+
+        expect(getStoreEventsSince(storeId, lastSeen.id)?.map((e) => e.entityId)).toEqual([
+            "b",
+            "c",
+        ]);
+    });
+
+    it("has nothing to replay for a client that saw the latest event", () => {
+        const storeId = randomUUID();
+        const latest = publish(storeId, "a");
+
+        expect(getStoreEventsSince(storeId, latest.id)).toEqual([]);
+    });
+
+    it("keeps sequences per store", () => {
+        const storeId = randomUUID();
+        const lastSeen = publish(storeId, "a");
+        publish(randomUUID(), "elsewhere");
+        publish(storeId, "b");
+
+        expect(getStoreEventsSince(storeId, lastSeen.id)?.map((e) => e.entityId)).toEqual(["b"]);
+    });
+
+    it("can't resume ids from another server boot or unknown sequences", () => {
+        const storeId = randomUUID();
+        const event = publish(storeId, "a");
+        const [, seq] = event.id.split("-");
+
+        expect(getStoreEventsSince(storeId, `earlierboot-${seq}`)).toBeNull();
+        expect(getStoreEventsSince(storeId, "garbage")).toBeNull();
+        expect(getStoreEventsSince(storeId, event.id.replace(/-\d+$/, "-99"))).toBeNull();
+    });
+
+    it("can't resume once the missed events have left the backlog", () => {
+        const storeId = randomUUID();
+        const lastSeen = publish(storeId, "first");
+        for (let i = 0; i < 250; i++) {
+            publish(storeId, `later-${i}`);
+        }
+
+        expect(getStoreEventsSince(storeId, lastSeen.id)).toBeNull();
+    });
+});
@@ -0,0 +1,143 @@
+import type { StoreEvent, StoreEventAction, StoreEventEntity } from "@basket-bot/core";
+import * as shoppingListRepo from "../repos/shoppingListRepo";
+
+/**
+ * In-process pub/sub for store changes, streamed to clients by the store events route.
+ * Each store keeps a short backlog so a reconnecting client can resume from its Last-Event-ID.
+ * Event ids are "<boot>-<sequence>" with a per-store sequence; ids from before a restart
+ * (or older than the backlog) can't be resumed and the client has to refetch instead.
+ */
+
+// How many recent events per store are kept for resuming
+const BACKLOG_SIZE = 200;
+
+type StoreEventListener = (event: StoreEvent) => void;
+
+type StoreChannel = {
+    seq: number;
+    backlog: StoreEvent[];
+    listeners: Set<StoreEventListener>;
+};
+
+type StoreEventBus = {
+    bootId: string;
+    channels: Map<string, StoreChannel>;
+};
+
+const globalForEvents = globalThis as unknown as {
+    storeEventBus: StoreEventBus | undefined;
+};
+
+// Kept on globalThis in every environment so all route bundles publish to the same listeners
+const bus: StoreEventBus = (globalForEvents.storeEventBus ??= {
+    bootId: Date.now().toString(36),
+    channels: new Map(),
+});
+
+function getChannel(storeId: string): StoreChannel {
+    let channel = bus.channels.get(storeId);
+    if (!channel) {
+        channel = { seq: 0, backlog: [], listeners: new Set() };
+        bus.channels.set(storeId, channel);
+    }
+    return channel;
+}
+
+/**
+ * Sequence number of an event id from this server boot, or null for a foreign/invalid id
+ */
+function parseSequence(eventId: string): number | null {
+    const [bootId, seq] = eventId.split("-");
+    if (bootId !== bus.bootId || !seq) return null;
+
+    const parsed = Number(seq);
+    return Number.isInteger(parsed) && parsed >= 0 ? parsed : null;
+}
+
+/**
+ * Record a store change and deliver it to the store's subscribers.
+ * Call after the change is committed.
+ */
+export function publishStoreEvent(params: {
+    storeId: string;
+    entity: StoreEventEntity;
+    action: StoreEventAction;
+    entityId?: string | null;
+    data?: unknown;
+    actorId: string;
+}): StoreEvent {
+    const channel = getChannel(params.storeId);
+    channel.seq++;
+
+    const event: StoreEvent = {
+        id: `${bus.bootId}-${channel.seq}`,
+        storeId: params.storeId,
+        entity: params.entity,
+        action: params.action,
+        entityId: params.entityId ?? null,
+        data: params.data ?? null,
+        actorId: params.actorId,
+        createdAt: new Date().toISOString(),
+    };
+
+    channel.backlog.push(event);
+    if (channel.backlog.length > BACKLOG_SIZE) {
+        channel.backlog.shift();
+    }
+
+    for (const listener of channel.listeners) {
+        try {
+            listener(event);
+        } catch (error) {
+            console.error("Store event listener failed:", error);
+        }
+    }
+
+    return event;
+}
+
+/**
+ * Publish a shopping list row change, with the row's current details as the event data
+ */
+export function publishShoppingListItemEvent(
+    storeId: string,
+    id: string,
+    action: StoreEventAction,
+    actorId: string
+): StoreEvent {
+    return publishStoreEvent({
+        storeId,
+        entity: "shopping-list-item",
+        action,
+        entityId: id,
+        data: shoppingListRepo.getShoppingListItemWithDetailsById(id),
+        actorId,
+    });
+}
+
+/**
+ * Listen to a store's events; returns the unsubscribe function
+ */
+export function subscribeToStore(storeId: string, listener: StoreEventListener): () => void {
+    const channel = getChannel(storeId);
+    channel.listeners.add(listener);
+
+    return () => {
+        channel.listeners.delete(listener);
+    };
+}
+
+/**
+ * Events published after the given event id, or null when the gap can't be filled
+ * (id from an earlier server boot, or already dropped from the backlog)
+ */
+export function getStoreEventsSince(storeId: string, lastEventId: string): StoreEvent[] | null {
+    const lastSeq = parseSequence(lastEventId);
+    const channel = getChannel(storeId);
+    if (lastSeq === null || lastSeq > channel.seq) return null;
+
+    const missed = channel.seq - lastSeq;
+    if (missed > channel.backlog.length) return null;
+
+    return missed === 0 ? [] : channel.backlog.slice(-missed);
+}
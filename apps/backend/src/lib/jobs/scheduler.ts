@@ -0,0 +1,103 @@
+import { IDEMPOTENCY_KEY_TTL_SECONDS } from "@basket-bot/core";
+import { deleteExpiredIdempotencyKeys } from "../repos/idempotencyKeyRepo";
+import { deleteExpiredPasswordResetTokens } from "../repos/passwordResetTokenRepo";
+import { deleteExpiredRefreshTokens } from "../repos/refreshTokenRepo";
+import { addDueRecurringItems } from "../services/recurrenceService";
+
+/**
+ * In-process scheduler for background jobs. Started once per server process from
+ * instrumentation.ts; the backend runs as a single long-lived process, so no external
+ * cron is needed.
+ */
+
+const RECURRING_ITEMS_INTERVAL_MS = 60 * 60 * 1000; // Hourly
+const IDEMPOTENCY_KEY_CLEANUP_INTERVAL_MS = 60 * 60 * 1000; // Hourly
+const REFRESH_TOKEN_CLEANUP_INTERVAL_MS = 24 * 60 * 60 * 1000; // Daily
+const PASSWORD_RESET_TOKEN_CLEANUP_INTERVAL_MS = 24 * 60 * 60 * 1000; // Daily
+
+const globalForJobs = globalThis as unknown as {
+    jobTimers: NodeJS.Timeout[] | undefined;
+};
+
+function runRecurringItemsJob(): void {
+    try {
+        const added = addDueRecurringItems();
+        if (added > 0) {
+            console.log(`[jobs] Added ${added} recurring item(s) to shopping lists`);
+        }
+    } catch (error) {
+        console.error("[jobs] Recurring items job failed:", error);
+    }
+}
+
+function runIdempotencyKeyCleanupJob(): void {
+    try {
+        const cutoff = new Date(Date.now() - IDEMPOTENCY_KEY_TTL_SECONDS * 1000).toISOString();
+        const removed = deleteExpiredIdempotencyKeys(cutoff);
+        if (removed > 0) {
+            console.log(`[jobs] Removed ${removed} expired idempotency key(s)`);
+        }
+    } catch (error) {
+        console.error("[jobs] Idempotency key cleanup job failed:", error);
+    }
+}
+
+function runRefreshTokenCleanupJob(): void {
+    try {
+        // Replaced tokens are kept until they expire, for reuse detection
+        const removed = deleteExpiredRefreshTokens(new Date().toISOString());
+        if (removed > 0) {
+            console.log(`[jobs] Removed ${removed} expired refresh token(s)`);
+        }
+    } catch (error) {
+        console.error("[jobs] Refresh token cleanup job failed:", error);
+    }
+}
+
+function runPasswordResetTokenCleanupJob(): void {
+    try {
+        const removed = deleteExpiredPasswordResetTokens(new Date().toISOString());
+        if (removed > 0) {
+            console.log(`[jobs] Removed ${removed} expired password reset token(s)`);
+        }
+    } catch (error) {
+        console.error("[jobs] Password reset token cleanup job failed:", error);
+    }
+}
+
+export function startScheduledJobs(): void {
+    // Dev hot reloads re-run instrumentation; keep a single set of timers
+    if (globalForJobs.jobTimers) return;
+
+    runRecurringItemsJob();
+    const recurringItemsTimer = setInterval(runRecurringItemsJob, RECURRING_ITEMS_INTERVAL_MS);
+    recurringItemsTimer.unref();
+
+    runIdempotencyKeyCleanupJob();
+    const cleanupTimer = setInterval(
+        runIdempotencyKeyCleanupJob,
+        IDEMPOTENCY_KEY_CLEANUP_INTERVAL_MS
+    );
+    cleanupTimer.unref();
+
+    runRefreshTokenCleanupJob();
+    const refreshTokenCleanupTimer = setInterval(
+        runRefreshTokenCleanupJob,
+        REFRESH_TOKEN_CLEANUP_INTERVAL_MS
+    );
+    refreshTokenCleanupTimer.unref();
+
+    runPasswordResetTokenCleanupJob();
+    const passwordResetTokenCleanupTimer = setInterval(
+        runPasswordResetTokenCleanupJob,
+        PASSWORD_RESET_TOKEN_CLEANUP_INTERVAL_MS
+    );
+    passwordResetTokenCleanupTimer.unref();
+
+    globalForJobs.jobTimers = [
+        recurringItemsTimer,
+        cleanupTimer,
+        refreshTokenCleanupTimer,
+        passwordResetTokenCleanupTimer,
+    ];
+}
@@ -0,0 +1,31 @@
+import { randomUUID } from "crypto";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { formatMailMessage, type MailMessage, type MailTransport } from "./mailTransport";
+
+/**
+ * Mail transport for local development and testing: nothing is sent. Each message is written to
+ * outboxDir as an .eml file (open it with any mail client), or printed to the console when no
+ * directory is set.
+ */
+export class FileTransport implements MailTransport {
+    constructor(
+        private readonly from: string,
+        private readonly outboxDir: string | null
+    ) {}
+
+    async send(message: MailMessage): Promise<void> {
+        if (!this.outboxDir) {
+            console.log(
+                `[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`
+            );
+            return;
+        }
+
+        await mkdir(this.outboxDir, { recursive: true });
+        const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomUUID()}.eml`;
+        const filePath = path.join(this.outboxDir, fileName);
+        await writeFile(filePath, formatMailMessage(this.from, message), "utf8");
+        console.log(`[mail] Wrote "${message.subject}" for ${message.to} to ${filePath}`);
+    }
+}
@@ -0,0 +1,49 @@
+import { randomUUID } from "crypto";
+
+/**
+ * A plain-text email. Only what the app sends (password resets) is supported: one recipient,
+ * no HTML, no attachments.
+ */
+export type MailMessage = {
+    to: string;
+    subject: string;
+    text: string;
+};
+
+/**
+ * Delivers email. Pick an implementation with MAIL_TRANSPORT (see mailer.ts).
+ */
+export interface MailTransport {
+    send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Encode a header value as an RFC 2047 encoded-word when it isn't plain ASCII
+ */
+function encodeHeader(value: string): string {
+    if (/^[ -~]*$/.test(value)) return value;
+    return `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+/**
+ * Format a message as RFC 5322 text (CRLF line endings, base64 body so lines stay short and
+ * any character is safe)
+ */
+export function formatMailMessage(from: string, message: MailMessage): string {
+    const domain = from.split("@")[1]?.replace(/>$/, "") || "localhost";
+    const encodedText = Buffer.from(message.text, "utf8").toString("base64");
+    const body = (encodedText.match(/.{1,76}/g) ?? []).join("\r\n");
+
+    return [
+        `From: ${from}`,
+        `To: ${message.to}`,
+        `Subject: ${encodeHeader(message.subject)}`,
+        `Date: ${new Date().toUTCString()}`,
+        `Message-ID: <${randomUUID()}@${domain}>`,
+        "MIME-Version: 1.0",
+        "Content-Type: text/plain; charset=utf-8",
+        "Content-Transfer-Encoding: base64",
+        "",
+        body,
+    ].join("\r\n");
+}
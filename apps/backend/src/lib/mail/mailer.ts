@@ -0,0 +1,41 @@
+import { FileTransport } from "./fileTransport";
+import type { MailMessage, MailTransport } from "./mailTransport";
+import { SmtpTransport } from "./smtpTransport";
+
+/**
+ * The configured mail transport. MAIL_TRANSPORT=smtp sends through SMTP_HOST; anything else
+ * (the default) uses the file transport, which only writes to MAIL_OUTBOX_DIR or the console.
+ */
+
+const MAIL_FROM = process.env.MAIL_FROM || "Basket Bot <noreply@basket-bot.local>";
+
+let transport: MailTransport | null = null;
+
+function createMailTransport(): MailTransport {
+    if (process.env.MAIL_TRANSPORT === "smtp") {
+        if (!process.env.SMTP_HOST) {
+            throw new Error("SMTP_HOST must be set when MAIL_TRANSPORT is smtp");
+        }
+
+        const secure = process.env.SMTP_SECURE === "true";
+        return new SmtpTransport({
+            host: process.env.SMTP_HOST,
+            port: parseInt(process.env.SMTP_PORT || (secure ? "465" : "587")),
+            secure,
+            user: process.env.SMTP_USER || null,
+            password: process.env.SMTP_PASSWORD || null,
+            from: MAIL_FROM,
+        });
+    }
+
+    return new FileTransport(MAIL_FROM, process.env.MAIL_OUTBOX_DIR || null);
+}
+
+export function getMailTransport(): MailTransport {
+    transport ??= createMailTransport();
+    return transport;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+    await getMailTransport().send(message);
+}
@@ -0,0 +1,201 @@
+import net from "net";
+import os from "os";
+import tls from "tls";
+import { formatMailMessage, type MailMessage, type MailTransport } from "./mailTransport";
+
+export type SmtpOptions = {
+    host: string;
+    port: number;
+    /** TLS from the start (usually port 465); otherwise STARTTLS is used when the server offers it */
+    secure: boolean;
+    user: string | null;
+    password: string | null;
+    /** Sender, e.g. "Basket Bot <noreply@example.com>" */
+    from: string;
+};
+
+const SMTP_TIMEOUT_MS = 30 * 1000;
+
+type SmtpReply = { code: number; text: string };
+
+type PendingReply = { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void };
+
+/**
+ * One SMTP conversation: writes commands and reads their (possibly multi-line) replies in order
+ */
+class SmtpConnection {
+    private buffer = "";
+    private replyLines: string[] = [];
+    private replies: SmtpReply[] = [];
+    private waiting: PendingReply | null = null;
+    private failure: Error | null = null;
+
+    constructor(private socket: net.Socket) {
+        this.attach(socket);
+    }
+
+    private attach(socket: net.Socket): void {
+        socket.setEncoding("utf8");
+        socket.setTimeout(SMTP_TIMEOUT_MS, () =>
+            socket.destroy(new Error("SMTP server timed out"))
+        );
+        socket.on("data", (chunk: string) => this.receive(chunk));
+        socket.on("error", (error) => this.fail(error));
+        socket.on("close", () => this.fail(new Error("SMTP connection closed")));
+    }
+
+    private receive(chunk: string): void {
+        this.buffer += chunk;
+
+        let end: number;
+        while ((end = this.buffer.indexOf("\r\n")) !== -1) {
+            const line = this.buffer.slice(0, end);
+            this.buffer = this.buffer.slice(end + 2);
+            this.replyLines.push(line);
+
+            // "250-..." continues a reply; "250 ..." ends it
+            if (line.charAt(3) === "-") continue;
+
+            const reply = {
+                code: parseInt(line.slice(0, 3), 10),
+                text: this.replyLines.map((replyLine) => replyLine.slice(4)).join("\n"),
+            };
+            this.replyLines = [];
+
+            if (this.waiting) {
+                this.waiting.resolve(reply);
+                this.waiting = null;
+            } else {
+                this.replies.push(reply);
+            }
+        }
+    }
+
+    private fail(error: Error): void {
+        this.failure ??= error;
+        if (this.waiting) {
+            this.waiting.reject(this.failure);
+            this.waiting = null;
+        }
+    }
+
+    private read(): Promise<SmtpReply> {
+        const reply = this.replies.shift();
+        if (reply) return Promise.resolve(reply);
+        if (this.failure) return Promise.reject(this.failure);
+
+        return new Promise((resolve, reject) => {
+            this.waiting = { resolve, reject };
+        });
+    }
+
+    /**
+     * Send a command (or just read the greeting when null) and check the reply code
+     */
+    async command(line: string | null, expected: number[]): Promise<SmtpReply> {
+        if (line !== null) {
+            this.socket.write(`${line}\r\n`);
+        }
+
+        const reply = await this.read();
+        if (!expected.includes(reply.code)) {
+            // Only the verb: AUTH lines carry credentials
+            const verb = line === null ? "greeting" : line.split(" ")[0];
+            throw new Error(`SMTP ${verb} failed: ${reply.code} ${reply.text}`);
+        }
+        return reply;
+    }
+
+    /**
+     * Switch the connection to TLS after a successful STARTTLS
+     */
+    async upgrade(host: string): Promise<void> {
+        const plainSocket = this.socket;
+        plainSocket.removeAllListeners("data");
+        plainSocket.removeAllListeners("error");
+        plainSocket.removeAllListeners("close");
+        plainSocket.setTimeout(0);
+
+        this.socket = await new Promise<tls.TLSSocket>((resolve, reject) => {
+            const secureSocket = tls.connect({ socket: plainSocket, servername: host }, () => {
+                secureSocket.off("error", reject);
+                resolve(secureSocket);
+            });
+            secureSocket.once("error", reject);
+        });
+        this.attach(this.socket);
+    }
+
+    close(): void {
+        this.socket.destroy();
+    }
+}
+
+/**
+ * Sends mail through an SMTP server (relay or provider), authenticating with AUTH PLAIN when
+ * a user is configured. Credentials are only ever sent over TLS.
+ */
+export class SmtpTransport implements MailTransport {
+    constructor(private readonly options: SmtpOptions) {}
+
+    private connect(): Promise<net.Socket> {
+        const { host, port, secure } = this.options;
+
+        return new Promise((resolve, reject) => {
+            const onConnect = () => {
+                socket.off("error", reject);
+                resolve(socket);
+            };
+            const socket = secure
+                ? tls.connect({ host, port, servername: host }, onConnect)
+                : net.connect({ host, port }, onConnect);
+
+            socket.setTimeout(SMTP_TIMEOUT_MS, () =>
+                socket.destroy(new Error("SMTP connection timed out"))
+            );
+            socket.once("error", reject);
+        });
+    }
+
+    async send(message: MailMessage): Promise<void> {
+        const { host, secure, user, password, from } = this.options;
+        const fromAddress = from.match(/<([^>]+)>/)?.[1] ?? from;
+
+        const connection = new SmtpConnection(await this.connect());
+        try {
+            await connection.command(null, [220]);
+            const greeting = await connection.command(`EHLO ${os.hostname()}`, [250]);
+
+            let encrypted = secure;
+            if (!encrypted && /^STARTTLS\b/im.test(greeting.text)) {
+                await connection.command("STARTTLS", [220]);
+                await connection.upgrade(host);
+                await connection.command(`EHLO ${os.hostname()}`, [250]);
+                encrypted = true;
+            }
+
+            if (user) {
+                if (!encrypted) {
+                    throw new Error("SMTP server doesn't support TLS; not sending credentials");
+                }
+                const credentials = Buffer.from(`\0${user}\0${password ?? ""}`, "utf8").toString(
+                    "base64"
+                );
+                await connection.command(`AUTH PLAIN ${credentials}`, [235]);
+            }
+
+            await connection.command(`MAIL FROM:<${fromAddress}>`, [250]);
+            await connection.command(`RCPT TO:<${message.to}>`, [250, 251]);
+            await connection.command("DATA", [354]);
+
+            // Lines starting with "." are escaped by doubling it; a lone "." ends the data
+            const data = formatMailMessage(from, message).replace(/^\./gm, "..");
+            await connection.command(`${data}\r\n.`, [250]);
+
+            // The message was accepted; a failed goodbye doesn't matter
+            await connection.command("QUIT", [221]).catch(() => undefined);
+        } finally {
+            connection.close();
+        }
+    }
+}
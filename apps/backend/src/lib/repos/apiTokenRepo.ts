@@ -0,0 +1,141 @@
+import type { ApiToken, ApiTokenScope } from "@basket-bot/core";
+import { randomUUID } from "crypto";
+import { db } from "../db/db";
+
+/**
+ * Repository for personal API tokens (ApiToken).
+ * Tokens are looked up by the SHA-256 hash of their value; the value itself isn't stored.
+ * scopes and storeIds are comma-separated in the table.
+ */
+
+type ApiTokenRow = {
+    id: string;
+    userId: string;
+    name: string;
+    tokenPrefix: string;
+    scopes: string;
+    storeIds: string | null;
+    expiresAt: string | null;
+    lastUsedAt: string | null;
+    createdAt: string;
+};
+
+export type ApiTokenRecord = ApiToken & { userId: string };
+
+const COLUMNS = `id, userId, name, tokenPrefix, scopes, storeIds, expiresAt, lastUsedAt, createdAt`;
+
+function toApiToken(row: ApiTokenRow): ApiToken {
+    return {
+        id: row.id,
+        name: row.name,
+        tokenPrefix: row.tokenPrefix,
+        scopes: row.scopes.split(",").filter(Boolean) as ApiTokenScope[],
+        storeIds: row.storeIds === null ? null : row.storeIds.split(",").filter(Boolean),
+        expiresAt: row.expiresAt,
+        lastUsedAt: row.lastUsedAt,
+        createdAt: row.createdAt,
+    };
+}
+
+function toRecord(row: ApiTokenRow): ApiTokenRecord {
+    return { ...toApiToken(row), userId: row.userId };
+}
+
+export function listApiTokens(userId: string): ApiToken[] {
+    const rows = db
+        .prepare(
+            `SELECT ${COLUMNS}
+             FROM ApiToken
+             WHERE userId = ?
+             ORDER BY createdAt DESC`
+        )
+        .all(userId) as ApiTokenRow[];
+
+    return rows.map(toApiToken);
+}
+
+export function countApiTokens(userId: string): number {
+    const row = db
+        .prepare(
+            `SELECT COUNT(*) as count
+             FROM ApiToken
+             WHERE userId = ?`
+        )
+        .get(userId) as { count: number };
+
+    return row.count;
+}
+
+export function getApiTokenByHash(tokenHash: string): ApiTokenRecord | null {
+    const row = db
+        .prepare(
+            `SELECT ${COLUMNS}
+             FROM ApiToken
+             WHERE tokenHash = ?`
+        )
+        .get(tokenHash) as ApiTokenRow | undefined;
+
+    return row ? toRecord(row) : null;
+}
+
+export function createApiToken(params: {
+    userId: string;
+    name: string;
+    tokenHash: string;
+    tokenPrefix: string;
+    scopes: ApiTokenScope[];
+    storeIds: string[] | null;
+    expiresAt: string | null;
+}): ApiToken {
+    const id = randomUUID();
+    const now = new Date().toISOString();
+
+    db.prepare(
+        `INSERT INTO ApiToken (id, userId, name, tokenHash, tokenPrefix, scopes, storeIds, expiresAt, lastUsedAt, createdAt)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, NULL, ?)`
+    ).run(
+        id,
+        params.userId,
+        params.name,
+        params.tokenHash,
+        params.tokenPrefix,
+        params.scopes.join(","),
+        params.storeIds === null ? null : params.storeIds.join(","),
+        params.expiresAt,
+        now
+    );
+
+    return {
+        id,
+        name: params.name,
+        tokenPrefix: params.tokenPrefix,
+        scopes: params.scopes,
+        storeIds: params.storeIds,
+        expiresAt: params.expiresAt,
+        lastUsedAt: null,
+        createdAt: now,
+    };
+}
+
+/**
+ * Delete one of a user's tokens; returns false when they have none with this id
+ */
+export function deleteApiToken(id: string, userId: string): boolean {
+    const result = db.prepare(`DELETE FROM ApiToken WHERE id = ? AND userId = ?`).run(id, userId);
+    return result.changes > 0;
+}
+
+export function deleteApiTokensForUser(userId: string): number {
+    return db.prepare(`DELETE FROM ApiToken WHERE userId = ?`).run(userId).changes;
+}
+
+/**
+ * Record a use of the token, unless one was already recorded after staleBefore
+ */
+export function touchApiToken(id: string, now: string, staleBefore: string): void {
+    db.prepare(
+        `UPDATE ApiToken
+         SET lastUsedAt = ?
+         WHERE id = ? AND (lastUsedAt IS NULL OR lastUsedAt < ?)`
+    ).run(now, id, staleBefore);
+}
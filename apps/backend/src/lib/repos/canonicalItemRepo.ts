@@ -0,0 +1,160 @@
+import type {
+    CanonicalItem,
+    CanonicalItemLink,
+    CanonicalItemSummary,
+    CanonicalItemWithLinks,
+} from "@basket-bot/core";
+import { db } from "../db/db";
+
+/**
+ * Repository for CanonicalItem operations (the cross-store item catalog).
+ * Automatic links by name are made by database triggers (see the add_canonical_items migration);
+ * this repo reads the catalog and records links made by hand.
+ */
+
+const SUMMARY_COLUMNS = `c.id, c.householdId, c.userId, c.name, c.nameNorm,
+                c.createdById, c.updatedById, c.createdAt, c.updatedAt,
+                COUNT(DISTINCT si.storeId) as storeCount,
+                COALESCE(SUM(si.usageCount), 0) as usageCount,
+                MAX(si.lastUsedAt) as lastUsedAt,
+                MAX(si.isFavorite) as isFavorite`;
+
+function toSummary(row: any): CanonicalItemSummary {
+    return { ...row, isFavorite: !!row.isFavorite };
+}
+
+export function getCanonicalItemById(id: string): CanonicalItem | null {
+    const row = db
+        .prepare(
+            `SELECT id, householdId, userId, name, nameNorm, createdById, updatedById, createdAt, updatedAt
+             FROM CanonicalItem
+             WHERE id = ?`
+        )
+        .get(id) as CanonicalItem | undefined;
+
+    return row ?? null;
+}
+
+/**
+ * Every canonical item with at least one linked store item, from the catalogs of the user's
+ * households and the user's personal catalog
+ */
+export function getCatalogForUser(userId: string): CanonicalItemSummary[] {
+    const rows = db
+        .prepare(
+            `SELECT ${SUMMARY_COLUMNS}
+             FROM CanonicalItem c
+             JOIN StoreItem si ON si.canonicalItemId = c.id
+             WHERE c.userId = ?
+                OR c.householdId IN (SELECT householdId FROM HouseholdMember WHERE userId = ?)
+             GROUP BY c.id
+             ORDER BY c.nameNorm ASC`
+        )
+        .all(userId, userId) as any[];
+
+    return rows.map(toSummary);
+}
+
+export function getLinks(canonicalItemId: string): CanonicalItemLink[] {
+    const rows = db
+        .prepare(
+            `SELECT si.id as storeItemId, si.storeId, s.name as storeName, si.name,
+                    si.usageCount, si.lastUsedAt, si.isFavorite, si.isCanonicalLinkConfirmed
+             FROM StoreItem si
+             JOIN Store s ON si.storeId = s.id
+             WHERE si.canonicalItemId = ?
+             ORDER BY s.name ASC, si.nameNorm ASC`
+        )
+        .all(canonicalItemId) as any[];
+
+    return rows.map((row) => ({
+        ...row,
+        isFavorite: !!row.isFavorite,
+        isCanonicalLinkConfirmed: !!row.isCanonicalLinkConfirmed,
+    }));
+}
+
+export function getCanonicalItemWithLinks(id: string): CanonicalItemWithLinks | null {
+    const row = db
+        .prepare(
+            `SELECT ${SUMMARY_COLUMNS}
+             FROM CanonicalItem c
+             LEFT JOIN StoreItem si ON si.canonicalItemId = c.id
+             WHERE c.id = ?
+             GROUP BY c.id`
+        )
+        .get(id) as any | undefined;
+
+    if (!row) return null;
+
+    return { ...toSummary(row), links: getLinks(id) };
+}
+
+export function userHasAccessToCanonicalItem(userId: string, canonicalItemId: string): boolean {
+    const row = db
+        .prepare(
+            `SELECT 1
+             FROM CanonicalItem c
+             LEFT JOIN HouseholdMember hm ON c.householdId = hm.householdId AND hm.userId = ?
+             WHERE c.id = ? AND (c.userId = ? OR hm.userId IS NOT NULL)`
+        )
+        .get(userId, canonicalItemId, userId);
+
+    return !!row;
+}
+
+/**
+ * Whether the canonical item belongs to the store's catalog: the store's household's, or its
+ * creator's for a store not shared with a household
+ */
+export function isInStoreCatalog(canonicalItemId: string, storeId: string): boolean {
+    const row = db
+        .prepare(
+            `SELECT 1
+             FROM CanonicalItem c, Store s
+             WHERE c.id = ? AND s.id = ?
+               AND (c.householdId = s.householdId OR (s.householdId IS NULL AND c.userId = s.createdById))`
+        )
+        .get(canonicalItemId, storeId);
+
+    return !!row;
+}
+
+/**
+ * Link a store item by hand (null keeps it out of the catalog). Confirmed links are left alone
+ * when the item is renamed.
+ */
+export function setStoreItemLink(params: {
+    storeItemId: string;
+    canonicalItemId: string | null;
+    updatedById: string;
+}): boolean {
+    const now = new Date().toISOString();
+
+    const result = db
+        .prepare(
+            `UPDATE StoreItem
+             SET canonicalItemId = ?, isCanonicalLinkConfirmed = 1, updatedById = ?, updatedAt = ?
+             WHERE id = ?`
+        )
+        .run(params.canonicalItemId, params.updatedById, now, params.storeItemId);
+
+    return result.changes > 0;
+}
+
+/**
+ * Go back to linking the store item by name; the StoreItem_canonical_update trigger relinks it
+ */
+export function resetStoreItemLink(params: { storeItemId: string; updatedById: string }): boolean {
+    const now = new Date().toISOString();
+
+    const result = db
+        .prepare(
+            `UPDATE StoreItem
+             SET isCanonicalLinkConfirmed = 0, updatedById = ?, updatedAt = ?
+             WHERE id = ?`
+        )
+        .run(params.updatedById, now, params.storeItemId);
+
+    return result.changes > 0;
+}
@@ -0,0 +1,102 @@
+import { db } from "../db/db";
+
+/**
+ * Repository for IdempotencyKey operations (stored responses of mutating requests).
+ * A key is claimed before its request runs and completed with the response afterwards.
+ */
+
+export type IdempotencyKeyRecord = {
+    userId: string;
+    key: string;
+    method: string;
+    path: string;
+    status: number | null;
+    body: string | null;
+    createdAt: string;
+};
+
+/**
+ * Get a key created after the given time (older entries count as expired)
+ */
+export function getIdempotencyKey(
+    userId: string,
+    key: string,
+    createdAfter: string
+): IdempotencyKeyRecord | null {
+    const row = db
+        .prepare(
+            `SELECT userId, key, method, path, status, body, createdAt
+             FROM IdempotencyKey
+             WHERE userId = ? AND key = ? AND createdAt > ?`
+        )
+        .get(userId, key, createdAfter) as IdempotencyKeyRecord | undefined;
+
+    return row ?? null;
+}
+
+/**
+ * Claim a key for a request that's about to run (replaces an expired entry, or one whose
+ * request was claimed before staleClaimBefore and never finished).
+ * Returns false when someone else holds it.
+ */
+export function claimIdempotencyKey(params: {
+    userId: string;
+    key: string;
+    method: string;
+    path: string;
+    createdAfter: string;
+    staleClaimBefore: string;
+}): boolean {
+    const result = db
+        .prepare(
+            `INSERT INTO IdempotencyKey (userId, key, method, path, status, body, createdAt)
+             VALUES (?, ?, ?, ?, NULL, NULL, ?)
+             ON CONFLICT (userId, key) DO UPDATE SET
+                 method = excluded.method, path = excluded.path, status = NULL, body = NULL,
+                 createdAt = excluded.createdAt
+             WHERE IdempotencyKey.createdAt <= ?
+                OR (IdempotencyKey.status IS NULL AND IdempotencyKey.createdAt <= ?)`
+        )
+        .run(
+            params.userId,
+            params.key,
+            params.method,
+            params.path,
+            new Date().toISOString(),
+            params.createdAfter,
+            params.staleClaimBefore
+        );
+
+    return result.changes > 0;
+}
+
+/**
+ * Store the response of a claimed key
+ */
+export function completeIdempotencyKey(
+    userId: string,
+    key: string,
+    status: number,
+    body: string
+): void {
+    db.prepare(`UPDATE IdempotencyKey SET status = ?, body = ? WHERE userId = ? AND key = ?`).run(
+        status,
+        body,
+        userId,
+        key
+    );
+}
+
+/**
+ * Give up a claimed key (the request failed in a way worth retrying)
+ */
+export function releaseIdempotencyKey(userId: string, key: string): void {
+    db.prepare(`DELETE FROM IdempotencyKey WHERE userId = ? AND key = ?`).run(userId, key);
+}
+
+/**
+ * Remove keys created before the given time; returns how many were removed
+ */
+export function deleteExpiredIdempotencyKeys(createdBefore: string): number {
+    return db.prepare(`DELETE FROM IdempotencyKey WHERE createdAt <= ?`).run(createdBefore).changes;
+}
@@ -56,7 +56,7 @@ export function createItem(params: {
 export function getItemById(id: string): StoreItem | null {
     const row = db
         .prepare(
-            `SELECT id, storeId, name, nameNorm, aisleId, sectionId, usageCount, lastUsedAt, isHidden, isFavorite, createdById, updatedById, createdAt, updatedAt
+            `SELECT id, storeId, name, nameNorm, aisleId, sectionId, usageCount, lastUsedAt, isHidden, isFavorite, canonicalItemId, isCanonicalLinkConfirmed, createdById, updatedById, createdAt, updatedAt
              FROM StoreItem
              WHERE id = ?`
         )
@@ -69,6 +69,7 @@ export function getItemById(id: string): StoreItem | null {
         ...row,
         isHidden: intToBool(row.isHidden),
         isFavorite: intToBool(row.isFavorite),
+        isCanonicalLinkConfirmed: intToBool(row.isCanonicalLinkConfirmed),
     };
 }
 
@@ -79,7 +80,7 @@ export function findItemByNameNorm(
 ): StoreItem | undefined {
     const row = db
         .prepare(
-            `SELECT id, storeId, name, nameNorm, aisleId, sectionId, usageCount, lastUsedAt, isHidden, isFavorite, createdById, updatedById, createdAt, updatedAt
+            `SELECT id, storeId, name, nameNorm, aisleId, sectionId, usageCount, lastUsedAt, isHidden, isFavorite, canonicalItemId, isCanonicalLinkConfirmed, createdById, updatedById, createdAt, updatedAt
              FROM StoreItem
              WHERE storeId = ? AND nameNorm = ? AND id != ?`
         )
@@ -91,13 +92,14 @@ export function findItemByNameNorm(
         ...row,
         isHidden: intToBool(row.isHidden),
         isFavorite: intToBool(row.isFavorite),
+        isCanonicalLinkConfirmed: intToBool(row.isCanonicalLinkConfirmed),
     };
 }
 
 export function getItemsByStore(storeId: string): StoreItem[] {
     const rows = db
         .prepare(
-            `SELECT id, storeId, name, nameNorm, aisleId, sectionId, usageCount, lastUsedAt, isHidden, isFavorite, createdById, updatedById, createdAt, updatedAt
+            `SELECT id, storeId, name, nameNorm, aisleId, sectionId, usageCount, lastUsedAt, isHidden, isFavorite, canonicalItemId, isCanonicalLinkConfirmed, createdById, updatedById, createdAt, updatedAt
              FROM StoreItem
              WHERE storeId = ?
              ORDER BY name ASC`
@@ -109,6 +111,7 @@ export function getItemsByStore(storeId: string): StoreItem[] {
         ...row,
         isHidden: intToBool(row.isHidden),
         isFavorite: intToBool(row.isFavorite),
+        isCanonicalLinkConfirmed: intToBool(row.isCanonicalLinkConfirmed),
     }));
 }
 
@@ -119,6 +122,7 @@ export function getItemsByStoreWithDetails(storeId: string): StoreItemWithDetail
                 si.id, si.storeId, si.name, si.nameNorm,
                 COALESCE(s.aisleId, si.aisleId) as aisleId, si.sectionId,
                 si.usageCount, si.lastUsedAt, si.isHidden, si.isFavorite,
+                si.canonicalItemId, si.isCanonicalLinkConfirmed,
                 si.createdById, si.updatedById, si.createdAt, si.updatedAt,
                 s.name as sectionName, s.sortOrder as sectionSortOrder,
                 a.name as aisleName, a.sortOrder as aisleSortOrder,
@@ -142,6 +146,7 @@ export function getItemsByStoreWithDetails(storeId: string): StoreItemWithDetail
         ...row,
         isHidden: intToBool(row.isHidden),
         isFavorite: intToBool(row.isFavorite),
+        isCanonicalLinkConfirmed: intToBool(row.isCanonicalLinkConfirmed),
     }));
 }
 
@@ -210,16 +215,17 @@ export function searchStoreItems(storeId: string, searchTerm: string, limit = 20
     const searchPattern = `%${normalizedSearch}%`;
     const startsWithPattern = `${normalizedSearch}%`;
 
+    // Usage is ranked across stores: an item bought often elsewhere ranks high here too
     const rows = db
         .prepare(
-            `SELECT id, storeId, name, nameNorm, aisleId, sectionId, usageCount, lastUsedAt, isHidden, isFavorite, createdById, updatedById, createdAt, updatedAt
-             FROM StoreItem
-             WHERE storeId = ? AND nameNorm LIKE ? AND isHidden = 0
+            `SELECT si.id, si.storeId, si.name, si.nameNorm, si.aisleId, si.sectionId, si.usageCount, si.lastUsedAt, si.isHidden, si.isFavorite, si.canonicalItemId, si.isCanonicalLinkConfirmed, si.createdById, si.updatedById, si.createdAt, si.updatedAt
+             FROM StoreItem si
+             WHERE si.storeId = ? AND si.nameNorm LIKE ? AND si.isHidden = 0
              ORDER BY
-                CASE WHEN nameNorm LIKE ? THEN 0 ELSE 1 END,
-                usageCount DESC,
-                lastUsedAt DESC,
-                nameNorm ASC
+                CASE WHEN si.nameNorm LIKE ? THEN 0 ELSE 1 END,
+                COALESCE((SELECT SUM(l.usageCount) FROM StoreItem l WHERE l.canonicalItemId = si.canonicalItemId), si.usageCount) DESC,
+                COALESCE((SELECT MAX(l.lastUsedAt) FROM StoreItem l WHERE l.canonicalItemId = si.canonicalItemId), si.lastUsedAt) DESC,
+                si.nameNorm ASC
              LIMIT ?`
         )
         .all(storeId, searchPattern, startsWithPattern, limit) as any[];
@@ -229,6 +235,7 @@ export function searchStoreItems(storeId: string, searchTerm: string, limit = 20
         ...row,
         isHidden: intToBool(row.isHidden),
         isFavorite: intToBool(row.isFavorite),
+        isCanonicalLinkConfirmed: intToBool(row.isCanonicalLinkConfirmed),
     }));
 }
 
@@ -245,7 +252,7 @@ export function getOrCreateStoreItemByName(params: {
     // Try to find existing item
     const row = db
         .prepare(
-            `SELECT id, storeId, name, nameNorm, aisleId, sectionId, usageCount, lastUsedAt, isHidden, isFavorite, createdById, updatedById, createdAt, updatedAt
+            `SELECT id, storeId, name, nameNorm, aisleId, sectionId, usageCount, lastUsedAt, isHidden, isFavorite, canonicalItemId, isCanonicalLinkConfirmed, createdById, updatedById, createdAt, updatedAt
              FROM StoreItem
              WHERE storeId = ? AND nameNorm = ?`
         )
@@ -256,6 +263,7 @@ export function getOrCreateStoreItemByName(params: {
               ...row,
               isHidden: intToBool(row.isHidden),
               isFavorite: intToBool(row.isFavorite),
+              isCanonicalLinkConfirmed: intToBool(row.isCanonicalLinkConfirmed),
           }
         : undefined;
 
@@ -0,0 +1,145 @@
+import type {
+    ListTemplate,
+    ListTemplateItem,
+    ListTemplateItemDraft,
+    ListTemplateSummary,
+    ListTemplateWithItems,
+} from "@basket-bot/core";
+import { db } from "../db/db";
+
+/**
+ * Repository for ListTemplate and ListTemplateItem operations.
+ * Template items are stored by name and replaced as a whole whenever they change.
+ */
+
+// ========== ListTemplate CRUD Operations ==========
+
+export function createTemplate(params: {
+    householdId: string;
+    name: string;
+    items: ListTemplateItemDraft[];
+    createdById: string;
+}): ListTemplate {
+    const id = crypto.randomUUID();
+    const now = new Date().toISOString();
+
+    db.transaction(() => {
+        db.prepare(
+            `INSERT INTO ListTemplate (id, householdId, name, createdById, updatedById, createdAt, updatedAt)
+             VALUES (?, ?, ?, ?, ?, ?, ?)`
+        ).run(
+            id,
+            params.householdId,
+            params.name,
+            params.createdById,
+            params.createdById,
+            now,
+            now
+        );
+
+        insertItems(id, params.items, now);
+    })();
+
+    return getTemplateById(id)!;
+}
+
+export function getTemplateById(id: string): ListTemplate | null {
+    const row = db
+        .prepare(
+            `SELECT id, householdId, name, createdById, updatedById, createdAt, updatedAt
+             FROM ListTemplate
+             WHERE id = ?`
+        )
+        .get(id) as ListTemplate | undefined;
+
+    return row ?? null;
+}
+
+export function getTemplatesByHousehold(householdId: string): ListTemplateSummary[] {
+    return db
+        .prepare(
+            `SELECT t.id, t.householdId, t.name, t.createdById, t.updatedById, t.createdAt, t.updatedAt,
+                    COUNT(i.id) as itemCount
+             FROM ListTemplate t
+             LEFT JOIN ListTemplateItem i ON i.templateId = t.id
+             WHERE t.householdId = ?
+             GROUP BY t.id
+             ORDER BY t.name COLLATE NOCASE ASC`
+        )
+        .all(householdId) as ListTemplateSummary[];
+}
+
+export function getTemplateWithItems(id: string): ListTemplateWithItems | null {
+    const template = getTemplateById(id);
+    if (!template) return null;
+
+    return { ...template, items: getItemsByTemplate(id) };
+}
+
+/**
+ * Update a template's name and/or replace its items (items keep the given order)
+ */
+export function updateTemplate(params: {
+    id: string;
+    name?: string;
+    items?: ListTemplateItemDraft[];
+    updatedById: string;
+}): ListTemplate | null {
+    const existing = getTemplateById(params.id);
+    if (!existing) return null;
+
+    const now = new Date().toISOString();
+
+    db.transaction(() => {
+        db.prepare(
+            `UPDATE ListTemplate
+             SET name = ?, updatedById = ?, updatedAt = ?
+             WHERE id = ?`
+        ).run(params.name ?? existing.name, params.updatedById, now, params.id);
+
+        if (params.items) {
+            db.prepare(`DELETE FROM ListTemplateItem WHERE templateId = ?`).run(params.id);
+            insertItems(params.id, params.items, now);
+        }
+    })();
+
+    return getTemplateById(params.id);
+}
+
+export function deleteTemplate(id: string): boolean {
+    const result = db.prepare(`DELETE FROM ListTemplate WHERE id = ?`).run(id);
+    return result.changes > 0;
+}
+
+// ========== ListTemplateItem Operations ==========
+
+export function getItemsByTemplate(templateId: string): ListTemplateItem[] {
+    return db
+        .prepare(
+            `SELECT id, templateId, name, qty, unitId, notes, sortOrder, createdAt
+             FROM ListTemplateItem
+             WHERE templateId = ?
+             ORDER BY sortOrder ASC`
+        )
+        .all(templateId) as ListTemplateItem[];
+}
+
+function insertItems(templateId: string, items: ListTemplateItemDraft[], now: string): void {
+    const insert = db.prepare(
+        `INSERT INTO ListTemplateItem (id, templateId, name, qty, unitId, notes, sortOrder, createdAt)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+
+    items.forEach((item, index) => {
+        insert.run(
+            crypto.randomUUID(),
+            templateId,
+            item.name.trim(),
+            item.qty ?? null,
+            item.unitId ?? null,
+            item.notes ?? null,
+            index,
+            now
+        );
+    });
+}
@@ -0,0 +1,184 @@
+import type { MealPlan, MealPlanEntry, MealPlanEntryWithRecipe, MealSlot } from "@basket-bot/core";
+import { db } from "../db/db";
+
+/**
+ * Repository for MealPlan and MealPlanEntry entity operations.
+ * A MealPlan row represents one household day; entries hang off it per meal slot.
+ */
+
+const ENTRY_COLUMNS = `e.id, e.mealPlanId, e.recipeId, e.slot, e.servings, e.createdById, e.updatedById, e.createdAt, e.updatedAt`;
+
+// ========== MealPlan (Day) Operations ==========
+
+export function getMealPlanById(id: string): MealPlan | null {
+    const row = db
+        .prepare(
+            `SELECT id, householdId, date, createdById, updatedById, createdAt, updatedAt
+             FROM MealPlan
+             WHERE id = ?`
+        )
+        .get(id) as MealPlan | undefined;
+
+    return row ?? null;
+}
+
+export function getMealPlanByDate(householdId: string, date: string): MealPlan | null {
+    const row = db
+        .prepare(
+            `SELECT id, householdId, date, createdById, updatedById, createdAt, updatedAt
+             FROM MealPlan
+             WHERE householdId = ? AND date = ?`
+        )
+        .get(householdId, date) as MealPlan | undefined;
+
+    return row ?? null;
+}
+
+/**
+ * Get the plan row for a household day, creating it on first use
+ */
+export function getOrCreateMealPlan(params: {
+    householdId: string;
+    date: string;
+    userId: string;
+}): MealPlan {
+    const existing = getMealPlanByDate(params.householdId, params.date);
+    if (existing) return existing;
+
+    const id = crypto.randomUUID();
+    const now = new Date().toISOString();
+
+    db.prepare(
+        `INSERT INTO MealPlan (id, householdId, date, createdById, updatedById, createdAt, updatedAt)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+    ).run(id, params.householdId, params.date, params.userId, params.userId, now, now);
+
+    return getMealPlanById(id)!;
+}
+
+/**
+ * Remove a plan day once its last entry is gone
+ */
+export function deleteMealPlanIfEmpty(id: string): boolean {
+    const result = db
+        .prepare(
+            `DELETE FROM MealPlan
+             WHERE id = ? AND NOT EXISTS (SELECT 1 FROM MealPlanEntry WHERE mealPlanId = ?)`
+        )
+        .run(id, id);
+    return result.changes > 0;
+}
+
+// ========== MealPlanEntry Operations ==========
+
+export function createEntry(params: {
+    mealPlanId: string;
+    recipeId: string;
+    slot: MealSlot;
+    servings: number;
+    createdById: string;
+}): MealPlanEntry {
+    const id = crypto.randomUUID();
+    const now = new Date().toISOString();
+
+    db.prepare(
+        `INSERT INTO MealPlanEntry (id, mealPlanId, recipeId, slot, servings, createdById, updatedById, createdAt, updatedAt)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+        id,
+        params.mealPlanId,
+        params.recipeId,
+        params.slot,
+        params.servings,
+        params.createdById,
+        params.createdById,
+        now,
+        now
+    );
+
+    return getEntryById(id)!;
+}
+
+export function getEntryById(id: string): MealPlanEntry | null {
+    const row = db
+        .prepare(
+            `SELECT ${ENTRY_COLUMNS}
+             FROM MealPlanEntry e
+             WHERE e.id = ?`
+        )
+        .get(id) as MealPlanEntry | undefined;
+
+    return row ?? null;
+}
+
+export function getEntryWithRecipeById(id: string): MealPlanEntryWithRecipe | null {
+    const row = db
+        .prepare(
+            `SELECT ${ENTRY_COLUMNS}, mp.date, r.name AS recipeName
+             FROM MealPlanEntry e
+             INNER JOIN MealPlan mp ON mp.id = e.mealPlanId
+             INNER JOIN Recipe r ON r.id = e.recipeId
+             WHERE e.id = ?`
+        )
+        .get(id) as MealPlanEntryWithRecipe | undefined;
+
+    return row ?? null;
+}
+
+/**
+ * Get all entries for a household within an inclusive date range
+ * Ordered by date, then slot (breakfast → lunch → dinner), then creation time
+ */
+export function getEntriesByDateRange(
+    householdId: string,
+    startDate: string,
+    endDate: string
+): MealPlanEntryWithRecipe[] {
+    const rows = db
+        .prepare(
+            `SELECT ${ENTRY_COLUMNS}, mp.date, r.name AS recipeName
+             FROM MealPlanEntry e
+             INNER JOIN MealPlan mp ON mp.id = e.mealPlanId
+             INNER JOIN Recipe r ON r.id = e.recipeId
+             WHERE mp.householdId = ? AND mp.date >= ? AND mp.date <= ?
+             ORDER BY mp.date ASC,
+                      CASE e.slot WHEN 'breakfast' THEN 0 WHEN 'lunch' THEN 1 ELSE 2 END ASC,
+                      e.createdAt ASC`
+        )
+        .all(householdId, startDate, endDate) as MealPlanEntryWithRecipe[];
+
+    return rows;
+}
+
+export function updateEntry(params: {
+    id: string;
+    mealPlanId?: string;
+    slot?: MealSlot;
+    servings?: number;
+    updatedById: string;
+}): MealPlanEntry | null {
+    const existing = getEntryById(params.id);
+    if (!existing) return null;
+
+    const now = new Date().toISOString();
+
+    db.prepare(
+        `UPDATE MealPlanEntry
+         SET mealPlanId = ?, slot = ?, servings = ?, updatedById = ?, updatedAt = ?
+         WHERE id = ?`
+    ).run(
+        params.mealPlanId ?? existing.mealPlanId,
+        params.slot ?? existing.slot,
+        params.servings ?? existing.servings,
+        params.updatedById,
+        now,
+        params.id
+    );
+
+    return getEntryById(params.id);
+}
+
+export function deleteEntry(id: string): boolean {
+    const result = db.prepare(`DELETE FROM MealPlanEntry WHERE id = ?`).run(id);
+    return result.changes > 0;
+}
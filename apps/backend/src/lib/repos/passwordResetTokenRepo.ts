@@ -0,0 +1,80 @@
+import { randomUUID } from "crypto";
+import { db } from "../db/db";
+
+/**
+ * Repository for PasswordResetToken operations.
+ * Tokens are looked up by the SHA-256 hash of the emailed value; the value itself isn't stored.
+ */
+
+export type PasswordResetTokenRecord = {
+    id: string;
+    userId: string;
+    tokenHash: string;
+    expiresAt: string;
+    usedAt: string | null;
+    createdAt: string;
+};
+
+export function getPasswordResetTokenByHash(tokenHash: string): PasswordResetTokenRecord | null {
+    const row = db
+        .prepare(
+            `SELECT id, userId, tokenHash, expiresAt, usedAt, createdAt
+             FROM PasswordResetToken
+             WHERE tokenHash = ?`
+        )
+        .get(tokenHash) as PasswordResetTokenRecord | undefined;
+
+    return row ?? null;
+}
+
+/**
+ * Store a new token for a user, replacing their earlier ones (only the latest email works)
+ */
+export function replacePasswordResetToken(params: {
+    userId: string;
+    tokenHash: string;
+    expiresAt: string;
+}): void {
+    db.transaction(() => {
+        db.prepare(`DELETE FROM PasswordResetToken WHERE userId = ?`).run(params.userId);
+        db.prepare(
+            `INSERT INTO PasswordResetToken (id, userId, tokenHash, expiresAt, createdAt)
+             VALUES (?, ?, ?, ?, ?)`
+        ).run(
+            randomUUID(),
+            params.userId,
+            params.tokenHash,
+            params.expiresAt,
+            new Date().toISOString()
+        );
+    })();
+}
+
+/**
+ * Mark a token as used; returns false when it already was (another request got there first)
+ */
+export function markPasswordResetTokenUsed(id: string): boolean {
+    const result = db
+        .prepare(
+            `UPDATE PasswordResetToken
+             SET usedAt = ?
+             WHERE id = ? AND usedAt IS NULL`
+        )
+        .run(new Date().toISOString(), id);
+
+    return result.changes > 0;
+}
+
+/**
+ * Remove tokens that expired before the given time; returns how many were removed
+ */
+export function deleteExpiredPasswordResetTokens(expiredBefore: string): number {
+    const result = db
+        .prepare(
+            `DELETE FROM PasswordResetToken
+             WHERE expiresAt <= ?`
+        )
+        .run(expiredBefore);
+
+    return result.changes;
+}
@@ -0,0 +1,187 @@
+import type { PurchaseEventWithDetails, PurchaseHistoryQuery } from "@basket-bot/core";
+import { db } from "../db/db";
+
+/**
+ * Repository for PurchaseEvent (purchase history) operations.
+ * An event mirrors a checked-off shopping list row and outlives it when the list is cleared.
+ */
+
+const DETAIL_COLUMNS = `pe.id, pe.storeId, pe.storeItemId, pe.shoppingListItemId, pe.qty, pe.unitId,
+    pe.checkedBy, pe.checkedAt, pe.createdAt,
+    si.name as itemName, qu.abbreviation as unitAbbreviation, u.name as checkedByName`;
+
+const DETAIL_JOINS = `JOIN StoreItem si ON pe.storeItemId = si.id
+    LEFT JOIN QuantityUnit qu ON pe.unitId = qu.id
+    LEFT JOIN User u ON pe.checkedBy = u.id`;
+
+interface CheckedListRow {
+    id: string;
+    storeId: string;
+    storeItemId: string | null;
+    qty: number | null;
+    unitId: string | null;
+    isChecked: number | null;
+    checkedBy: string | null;
+    checkedAt: string | null;
+    updatedAt: string;
+}
+
+function upsertPurchaseForRow(row: CheckedListRow & { storeItemId: string }): void {
+    db.prepare(
+        `INSERT INTO PurchaseEvent (id, storeId, storeItemId, shoppingListItemId, qty, unitId, checkedBy, checkedAt, createdAt)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (shoppingListItemId) DO UPDATE SET
+             storeItemId = excluded.storeItemId, qty = excluded.qty, unitId = excluded.unitId,
+             checkedBy = excluded.checkedBy, checkedAt = excluded.checkedAt`
+    ).run(
+        crypto.randomUUID(),
+        row.storeId,
+        row.storeItemId,
+        row.id,
+        row.qty,
+        row.unitId,
+        row.checkedBy,
+        row.checkedAt ?? row.updatedAt,
+        new Date().toISOString()
+    );
+}
+
+/**
+ * Bring the purchase event of a shopping list row in line with the row:
+ * checked rows get (or refresh) an event, unchecked rows lose theirs (undo of a check-off).
+ * Ideas and rows without a store item are never recorded.
+ */
+export function syncPurchaseForShoppingListItem(shoppingListItemId: string): void {
+    const row = db
+        .prepare(
+            `SELECT id, storeId, storeItemId, qty, unitId, isChecked, checkedBy, checkedAt, updatedAt
+             FROM ShoppingListItem
+             WHERE id = ?`
+        )
+        .get(shoppingListItemId) as CheckedListRow | undefined;
+
+    if (!row) return;
+
+    if (row.isChecked === 1 && row.storeItemId) {
+        upsertPurchaseForRow({ ...row, storeItemId: row.storeItemId });
+    } else {
+        db.prepare(`DELETE FROM PurchaseEvent WHERE shoppingListItemId = ?`).run(row.id);
+    }
+}
+
+/**
+ * Record checked rows of a store that have no event yet (checked before history existed).
+ * Call before clearing; safe to repeat.
+ */
+export function recordCheckedItemPurchases(storeId: string): number {
+    const rows = db
+        .prepare(
+            `SELECT sli.id, sli.storeId, sli.storeItemId, sli.qty, sli.unitId, sli.isChecked,
+                    sli.checkedBy, sli.checkedAt, sli.updatedAt
+             FROM ShoppingListItem sli
+             WHERE sli.storeId = ? AND sli.isChecked = 1 AND sli.storeItemId IS NOT NULL
+               AND NOT EXISTS (SELECT 1 FROM PurchaseEvent pe WHERE pe.shoppingListItemId = sli.id)`
+        )
+        .all(storeId) as Array<CheckedListRow & { storeItemId: string }>;
+
+    db.transaction(() => {
+        for (const row of rows) {
+            upsertPurchaseForRow(row);
+        }
+    })();
+
+    return rows.length;
+}
+
+/**
+ * Purchases at a store, newest first
+ */
+export function getPurchasesByStore(
+    storeId: string,
+    query: PurchaseHistoryQuery
+): PurchaseEventWithDetails[] {
+    return db
+        .prepare(
+            `SELECT ${DETAIL_COLUMNS}
+             FROM PurchaseEvent pe
+             ${DETAIL_JOINS}
+             WHERE pe.storeId = ? AND (? IS NULL OR pe.checkedAt < ?)
+             ORDER BY pe.checkedAt DESC
+             LIMIT ?`
+        )
+        .all(
+            storeId,
+            query.before ?? null,
+            query.before ?? null,
+            query.limit
+        ) as PurchaseEventWithDetails[];
+}
+
+/**
+ * Purchases of one store item, newest first
+ */
+export function getPurchasesByStoreItem(
+    storeId: string,
+    storeItemId: string,
+    query: PurchaseHistoryQuery
+): PurchaseEventWithDetails[] {
+    return db
+        .prepare(
+            `SELECT ${DETAIL_COLUMNS}
+             FROM PurchaseEvent pe
+             ${DETAIL_JOINS}
+             WHERE pe.storeId = ? AND pe.storeItemId = ? AND (? IS NULL OR pe.checkedAt < ?)
+             ORDER BY pe.checkedAt DESC
+             LIMIT ?`
+        )
+        .all(
+            storeId,
+            storeItemId,
+            query.before ?? null,
+            query.before ?? null,
+            query.limit
+        ) as PurchaseEventWithDetails[];
+}
+
+/**
+ * checkedAt of the most recent purchases of a store item, newest first
+ */
+export function getRecentPurchaseTimes(storeItemId: string, limit: number): string[] {
+    const rows = db
+        .prepare(
+            `SELECT checkedAt
+             FROM PurchaseEvent
+             WHERE storeItemId = ?
+             ORDER BY checkedAt DESC
+             LIMIT ?`
+        )
+        .all(storeItemId, limit) as { checkedAt: string }[];
+
+    return rows.map((row) => row.checkedAt);
+}
+
+export interface ShelvedCheckOff {
+    checkedBy: string | null;
+    checkedAt: string;
+    aisleId: string;
+    sectionId: string | null;
+}
+
+/**
+ * Check-offs at a store with where each item is shelved now, newest first.
+ * Only items placed in an aisle are returned (the rest say nothing about walking order).
+ */
+export function getShelvedCheckOffs(storeId: string, limit: number): ShelvedCheckOff[] {
+    return db
+        .prepare(
+            `SELECT pe.checkedBy, pe.checkedAt,
+                    COALESCE(s.aisleId, si.aisleId) as aisleId, s.id as sectionId
+             FROM PurchaseEvent pe
+             JOIN StoreItem si ON pe.storeItemId = si.id
+             LEFT JOIN StoreSection s ON si.sectionId = s.id
+             WHERE pe.storeId = ? AND COALESCE(s.aisleId, si.aisleId) IS NOT NULL
+             ORDER BY pe.checkedAt DESC
+             LIMIT ?`
+        )
+        .all(storeId, limit) as ShelvedCheckOff[];
+}
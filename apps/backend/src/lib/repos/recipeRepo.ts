@@ -34,14 +34,15 @@ export function createRecipe(params: {
     description?: string | null;
     steps?: string | null;
     sourceUrl?: string | null;
+    servings?: number | null;
     createdById: string;
 }): Recipe {
     const id = crypto.randomUUID();
     const now = new Date().toISOString();
 
     db.prepare(
-        `INSERT INTO Recipe (id, householdId, name, description, steps, sourceUrl, isHidden, createdById, updatedById, createdAt, updatedAt)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        `INSERT INTO Recipe (id, householdId, name, description, steps, sourceUrl, servings, isHidden, createdById, updatedById, createdAt, updatedAt)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
     ).run(
         id,
         params.householdId,
@@ -49,6 +50,7 @@ export function createRecipe(params: {
         params.description ?? null,
         params.steps ?? null,
         params.sourceUrl ?? null,
+        params.servings ?? null,
         null, // isHidden defaults to false (NULL)
         params.createdById,
         params.createdById,
@@ -62,7 +64,7 @@ export function createRecipe(params: {
 export function getRecipeById(id: string): Recipe | null {
     const row = db
         .prepare(
-            `SELECT id, householdId, name, description, steps, sourceUrl, isHidden, createdById, updatedById, createdAt, updatedAt
+            `SELECT id, householdId, name, description, steps, sourceUrl, servings, isHidden, createdById, updatedById, createdAt, updatedAt
              FROM Recipe
              WHERE id = ?`
         )
@@ -80,7 +82,7 @@ export function getRecipesByHousehold(
     householdId: string,
     includeHidden: boolean = false
 ): Recipe[] {
-    let query = `SELECT id, householdId, name, description, steps, sourceUrl, isHidden, createdById, updatedById, createdAt, updatedAt
+    let query = `SELECT id, householdId, name, description, steps, sourceUrl, servings, isHidden, createdById, updatedById, createdAt, updatedAt
                  FROM Recipe
                  WHERE householdId = ?`;
 
@@ -106,6 +108,7 @@ export function updateRecipe(params: {
     description?: string | null;
     steps?: string | null;
     sourceUrl?: string | null;
+    servings?: number | null;
     updatedById: string;
 }): Recipe | null {
     const existing = getRecipeById(params.id);
@@ -115,13 +118,14 @@ export function updateRecipe(params: {
 
     db.prepare(
         `UPDATE Recipe
-         SET name = ?, description = ?, steps = ?, sourceUrl = ?, updatedById = ?, updatedAt = ?
+         SET name = ?, description = ?, steps = ?, sourceUrl = ?, servings = ?, updatedById = ?, updatedAt = ?
          WHERE id = ?`
     ).run(
         params.name ?? existing.name,
         params.description !== undefined ? params.description : existing.description,
         params.steps !== undefined ? params.steps : existing.steps,
         params.sourceUrl !== undefined ? params.sourceUrl : existing.sourceUrl,
+        params.servings !== undefined ? params.servings : existing.servings,
         params.updatedById,
         now,
         params.id
@@ -215,7 +219,7 @@ export function searchRecipesByTags(householdId: string, tagIds: string[]): Reci
     // Count how many of the specified tags each recipe has, and filter to only those with all tags
     const placeholders = tagIds.map(() => "?").join(",");
     const query = `
-        SELECT DISTINCT r.id, r.householdId, r.name, r.description, r.steps, r.sourceUrl, r.isHidden, r.createdById, r.updatedById, r.createdAt, r.updatedAt
+        SELECT DISTINCT r.id, r.householdId, r.name, r.description, r.steps, r.sourceUrl, r.servings, r.isHidden, r.createdById, r.updatedById, r.createdAt, r.updatedAt
         FROM Recipe r
         INNER JOIN RecipeTagAssignment rta ON rta.recipeId = r.id
         WHERE r.householdId = ?
@@ -235,3 +239,32 @@ export function searchRecipesByTags(householdId: string, tagIds: string[]): Reci
         isHidden: intToBool(row.isHidden),
     }));
 }
+
+/**
+ * Search recipes by tags (OR filter - recipe must have at least one of the specified tags)
+ */
+export function searchRecipesByAnyTag(householdId: string, tagIds: string[]): Recipe[] {
+    if (tagIds.length === 0) {
+        return getRecipesByHousehold(householdId);
+    }
+
+    const placeholders = tagIds.map(() => "?").join(",");
+    const query = `
+        SELECT DISTINCT r.id, r.householdId, r.name, r.description, r.steps, r.sourceUrl, r.servings, r.isHidden, r.createdById, r.updatedById, r.createdAt, r.updatedAt
+        FROM Recipe r
+        INNER JOIN RecipeTagAssignment rta ON rta.recipeId = r.id
+        WHERE r.householdId = ?
+          AND (r.isHidden IS NULL OR r.isHidden = 0)
+          AND rta.tagId IN (${placeholders})
+        ORDER BY r.name ASC
+    `;
+
+    const rows = db.prepare(query).all(householdId, ...tagIds) as Array<
+        Omit<Recipe, "isHidden"> & { isHidden: number | null }
+    >;
+
+    return rows.map((row) => ({
+        ...row,
+        isHidden: intToBool(row.isHidden),
+    }));
+}
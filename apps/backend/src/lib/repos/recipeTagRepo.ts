@@ -128,7 +128,7 @@ export function getRecipesForTag(
 ): Array<Omit<Recipe, "isHidden"> & { isHidden: boolean }> {
     const rows = db
         .prepare(
-            `SELECT r.id, r.householdId, r.name, r.description, r.steps, r.sourceUrl, r.isHidden, r.createdById, r.updatedById, r.createdAt, r.updatedAt
+            `SELECT r.id, r.householdId, r.name, r.description, r.steps, r.sourceUrl, r.servings, r.isHidden, r.createdById, r.updatedById, r.createdAt, r.updatedAt
              FROM Recipe r
              INNER JOIN RecipeTagAssignment rta ON rta.recipeId = r.id
              WHERE rta.tagId = ?
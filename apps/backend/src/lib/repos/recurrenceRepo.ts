@@ -0,0 +1,83 @@
+import type { RecurrenceMode, StoreItemRecurrence } from "@basket-bot/core";
+import { db } from "../db/db";
+
+/**
+ * Repository for StoreItemRecurrence operations (one optional recurrence per store item).
+ */
+
+const RECURRENCE_COLUMNS = `storeItemId, storeId, mode, intervalDays, lastSuggestedAt,
+    createdById, updatedById, createdAt, updatedAt`;
+
+export function getRecurrence(storeItemId: string): StoreItemRecurrence | null {
+    const row = db
+        .prepare(
+            `SELECT ${RECURRENCE_COLUMNS}
+             FROM StoreItemRecurrence
+             WHERE storeItemId = ?`
+        )
+        .get(storeItemId) as StoreItemRecurrence | undefined;
+
+    return row ?? null;
+}
+
+/**
+ * Recurrences of visible store items, for the scheduled job
+ */
+export function getActiveRecurrences(): StoreItemRecurrence[] {
+    return db
+        .prepare(
+            `SELECT r.storeItemId, r.storeId, r.mode, r.intervalDays, r.lastSuggestedAt,
+                    r.createdById, r.updatedById, r.createdAt, r.updatedAt
+             FROM StoreItemRecurrence r
+             JOIN StoreItem si ON r.storeItemId = si.id
+             WHERE si.isHidden = 0`
+        )
+        .all() as StoreItemRecurrence[];
+}
+
+/**
+ * Create or replace the recurrence of a store item.
+ * Changing the schedule resets lastSuggestedAt so the new cadence applies right away.
+ */
+export function upsertRecurrence(params: {
+    storeItemId: string;
+    storeId: string;
+    mode: RecurrenceMode;
+    intervalDays: number | null;
+    userId: string;
+}): StoreItemRecurrence {
+    const now = new Date().toISOString();
+
+    db.prepare(
+        `INSERT INTO StoreItemRecurrence (storeItemId, storeId, mode, intervalDays, lastSuggestedAt, createdById, updatedById, createdAt, updatedAt)
+         VALUES (?, ?, ?, ?, NULL, ?, ?, ?, ?)
+         ON CONFLICT (storeItemId) DO UPDATE SET
+             mode = excluded.mode, intervalDays = excluded.intervalDays, lastSuggestedAt = NULL,
+             updatedById = excluded.updatedById, updatedAt = excluded.updatedAt`
+    ).run(
+        params.storeItemId,
+        params.storeId,
+        params.mode,
+        params.intervalDays,
+        params.userId,
+        params.userId,
+        now,
+        now
+    );
+
+    return getRecurrence(params.storeItemId)!;
+}
+
+export function markRecurrenceSuggested(storeItemId: string, suggestedAt: string): void {
+    db.prepare(`UPDATE StoreItemRecurrence SET lastSuggestedAt = ? WHERE storeItemId = ?`).run(
+        suggestedAt,
+        storeItemId
+    );
+}
+
+export function deleteRecurrence(storeItemId: string): boolean {
+    const result = db
+        .prepare(`DELETE FROM StoreItemRecurrence WHERE storeItemId = ?`)
+        .run(storeItemId);
+    return result.changes > 0;
+}
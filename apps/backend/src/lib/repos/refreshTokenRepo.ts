@@ -0,0 +1,240 @@
+import { randomUUID } from "crypto";
+import { db } from "../db/db";
+
+/**
+ * Repository for RefreshToken operations.
+ * Every refresh replaces the token with a new one of the same family (one family per login,
+ * i.e. per device session). Replaced tokens are kept, revoked, until they expire so that a
+ * copied token being used again can be detected.
+ */
+
+export type RefreshTokenRecord = {
+    id: string;
+    userId: string;
+    familyId: string;
+    token: string;
+    deviceName: string | null;
+    userAgent: string | null;
+    expiresAt: string;
+    lastUsedAt: string | null;
+    revokedAt: string | null;
+    replacedById: string | null;
+    twoFactorVerified: number; // 1 when the session was signed in with a two-factor code
+    createdAt: string;
+};
+
+// A device session, described by the newest token of its family
+export type SessionRecord = {
+    id: string; // familyId
+    deviceName: string | null;
+    userAgent: string | null;
+    createdAt: string; // when the family's first token was issued (the login)
+    lastUsedAt: string | null;
+    expiresAt: string;
+};
+
+const COLUMNS = `id, userId, familyId, token, deviceName, userAgent, expiresAt, lastUsedAt,
+                revokedAt, replacedById, twoFactorVerified, createdAt`;
+
+export function getRefreshTokenById(id: string): RefreshTokenRecord | null {
+    const row = db
+        .prepare(
+            `SELECT ${COLUMNS}
+             FROM RefreshToken
+             WHERE id = ?`
+        )
+        .get(id) as RefreshTokenRecord | undefined;
+
+    return row ?? null;
+}
+
+export function getRefreshTokenByToken(token: string): RefreshTokenRecord | null {
+    const row = db
+        .prepare(
+            `SELECT ${COLUMNS}
+             FROM RefreshToken
+             WHERE token = ?`
+        )
+        .get(token) as RefreshTokenRecord | undefined;
+
+    return row ?? null;
+}
+
+/**
+ * Sessions (families) with a token that can still be used, described by their newest token;
+ * most recently used first
+ */
+export function getActiveSessionsByUser(userId: string): SessionRecord[] {
+    return db
+        .prepare(
+            `SELECT rt.familyId as id, rt.deviceName, rt.userAgent,
+                    (SELECT MIN(f.createdAt) FROM RefreshToken f WHERE f.familyId = rt.familyId) as createdAt,
+                    rt.lastUsedAt, rt.expiresAt
+             FROM RefreshToken rt
+             WHERE rt.userId = ? AND rt.revokedAt IS NULL AND rt.expiresAt > ?
+             ORDER BY rt.lastUsedAt DESC`
+        )
+        .all(userId, new Date().toISOString()) as SessionRecord[];
+}
+
+/**
+ * Whether a session still has a token that can be used (it hasn't been signed out)
+ */
+export function isSessionActive(familyId: string): boolean {
+    const row = db
+        .prepare(
+            `SELECT 1
+             FROM RefreshToken
+             WHERE familyId = ? AND revokedAt IS NULL AND expiresAt > ?`
+        )
+        .get(familyId, new Date().toISOString());
+
+    return !!row;
+}
+
+/**
+ * Store the first token of a new family (a login)
+ */
+export function createRefreshToken(params: {
+    userId: string;
+    token: string;
+    expiresAt: string;
+    deviceName: string | null;
+    userAgent: string | null;
+    twoFactorVerified: boolean;
+}): RefreshTokenRecord {
+    const id = randomUUID();
+    const now = new Date().toISOString();
+
+    db.prepare(
+        `INSERT INTO RefreshToken (id, userId, familyId, token, deviceName, userAgent, expiresAt, lastUsedAt, twoFactorVerified, createdAt)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+        id,
+        params.userId,
+        id,
+        params.token,
+        params.deviceName,
+        params.userAgent,
+        params.expiresAt,
+        now,
+        params.twoFactorVerified ? 1 : 0,
+        now
+    );
+
+    return getRefreshTokenById(id)!;
+}
+
+/**
+ * Revoke a token and issue its replacement in the same family. Returns null when the token was
+ * already revoked (another refresh got there first).
+ */
+export function rotateRefreshToken(params: {
+    currentId: string;
+    token: string;
+    expiresAt: string;
+    userAgent: string | null;
+}): RefreshTokenRecord | null {
+    const id = randomUUID();
+    const now = new Date().toISOString();
+
+    const rotated = db.transaction(() => {
+        const current = getRefreshTokenById(params.currentId);
+        if (!current) return false;
+
+        const result = db
+            .prepare(
+                `UPDATE RefreshToken
+                 SET revokedAt = ?, replacedById = ?
+                 WHERE id = ? AND revokedAt IS NULL`
+            )
+            .run(now, id, current.id);
+        if (result.changes === 0) return false;
+
+        db.prepare(
+            `INSERT INTO RefreshToken (id, userId, familyId, token, deviceName, userAgent, expiresAt, lastUsedAt, twoFactorVerified, createdAt)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        ).run(
+            id,
+            current.userId,
+            current.familyId,
+            params.token,
+            current.deviceName,
+            params.userAgent ?? current.userAgent,
+            params.expiresAt,
+            now,
+            current.twoFactorVerified,
+            now
+        );
+        return true;
+    })();
+
+    return rotated ? getRefreshTokenById(id) : null;
+}
+
+/**
+ * Mark a session as signed in with a two-factor code (its next refresh gets the mfa claim)
+ */
+export function markSessionTwoFactorVerified(familyId: string): void {
+    db.prepare(`UPDATE RefreshToken SET twoFactorVerified = 1 WHERE familyId = ?`).run(familyId);
+}
+
+/**
+ * Delete every token of a family (signs its device out); returns how many were removed
+ */
+export function deleteRefreshTokenFamily(familyId: string): number {
+    return db.prepare(`DELETE FROM RefreshToken WHERE familyId = ?`).run(familyId).changes;
+}
+
+/**
+ * Delete one of a user's families; returns how many tokens were removed
+ */
+export function deleteRefreshTokenFamilyForUser(familyId: string, userId: string): number {
+    return db
+        .prepare(`DELETE FROM RefreshToken WHERE familyId = ? AND userId = ?`)
+        .run(familyId, userId).changes;
+}
+
+/**
+ * Delete every family of a user except one (or all when keepFamilyId is null); returns how
+ * many active sessions were ended
+ */
+export function deleteOtherRefreshTokenFamilies(
+    userId: string,
+    keepFamilyId: string | null
+): number {
+    return db.transaction(() => {
+        const { count } = db
+            .prepare(
+                `SELECT COUNT(DISTINCT familyId) as count
+                 FROM RefreshToken
+                 WHERE userId = ? AND familyId IS NOT ? AND revokedAt IS NULL AND expiresAt > ?`
+            )
+            .get(userId, keepFamilyId, new Date().toISOString()) as { count: number };
+
+        db.prepare(`DELETE FROM RefreshToken WHERE userId = ? AND familyId IS NOT ?`).run(
+            userId,
+            keepFamilyId
+        );
+        return count;
+    })();
+}
+
+/**
+ * Delete the family of a user's token (logout); returns how many tokens were removed
+ */
+export function deleteRefreshTokenFamilyByToken(token: string, userId: string): number {
+    return db
+        .prepare(
+            `DELETE FROM RefreshToken
+             WHERE familyId = (SELECT familyId FROM RefreshToken WHERE token = ? AND userId = ?)`
+        )
+        .run(token, userId).changes;
+}
+
+/**
+ * Remove tokens that expired before the given time; returns how many were removed
+ */
+export function deleteExpiredRefreshTokens(expiredBefore: string): number {
+    return db.prepare(`DELETE FROM RefreshToken WHERE expiresAt <= ?`).run(expiredBefore).changes;
+}
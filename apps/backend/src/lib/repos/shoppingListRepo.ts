@@ -63,39 +63,42 @@ function mapRowToShoppingListItemWithDetails(row: any): ShoppingListItemWithDeta
     };
 }
 
+// Shopping list row joined with its store item, unit, location, and user names
+const SELECT_WITH_DETAILS = `SELECT
+            sli.id, sli.storeId, sli.storeItemId, sli.qty, sli.unitId, sli.notes,
+            sli.isChecked, sli.checkedAt, sli.checkedBy, sli.checkedUpdatedAt, sli.isSample, sli.isUnsure, sli.isIdea, sli.snoozedUntil,
+            sli.createdById, sli.updatedById, sli.createdAt, sli.updatedAt,
+            si.name as itemName,
+            si.isFavorite as isFavorite,
+            si.createdAt as storeItemCreatedAt,
+            si.updatedAt as storeItemUpdatedAt,
+            qu.abbreviation as unitAbbreviation,
+            s.id as sectionId,
+            COALESCE(s.aisleId, si.aisleId) as aisleId,
+            s.name as sectionName,
+            s.sortOrder as sectionSortOrder,
+            a.name as aisleName,
+            a.sortOrder as aisleSortOrder,
+            u.name as checkedByName,
+            sli_creator.name as createdByName,
+            sli_updater.name as updatedByName,
+            si_creator.name as storeItemCreatedByName,
+            si_updater.name as storeItemUpdatedByName
+         FROM ShoppingListItem sli
+         LEFT JOIN StoreItem si ON sli.storeItemId = si.id
+         LEFT JOIN QuantityUnit qu ON sli.unitId = qu.id
+         LEFT JOIN StoreSection s ON si.sectionId = s.id
+         LEFT JOIN StoreAisle a ON COALESCE(s.aisleId, si.aisleId) = a.id
+         LEFT JOIN User u ON sli.checkedBy = u.id
+         LEFT JOIN User sli_creator ON sli.createdById = sli_creator.id
+         LEFT JOIN User sli_updater ON sli.updatedById = sli_updater.id
+         LEFT JOIN User si_creator ON si.createdById = si_creator.id
+         LEFT JOIN User si_updater ON si.updatedById = si_updater.id`;
+
 export function getShoppingListItems(storeId: string): ShoppingListItemWithDetails[] {
     const rows = db
         .prepare(
-            `SELECT
-                sli.id, sli.storeId, sli.storeItemId, sli.qty, sli.unitId, sli.notes,
-                sli.isChecked, sli.checkedAt, sli.checkedBy, sli.checkedUpdatedAt, sli.isSample, sli.isUnsure, sli.isIdea, sli.snoozedUntil,
-                sli.createdById, sli.updatedById, sli.createdAt, sli.updatedAt,
-                si.name as itemName,
-                si.isFavorite as isFavorite,
-                si.createdAt as storeItemCreatedAt,
-                si.updatedAt as storeItemUpdatedAt,
-                qu.abbreviation as unitAbbreviation,
-                s.id as sectionId,
-                COALESCE(s.aisleId, si.aisleId) as aisleId,
-                s.name as sectionName,
-                s.sortOrder as sectionSortOrder,
-                a.name as aisleName,
-                a.sortOrder as aisleSortOrder,
-                u.name as checkedByName,
-                sli_creator.name as createdByName,
-                sli_updater.name as updatedByName,
-                si_creator.name as storeItemCreatedByName,
-                si_updater.name as storeItemUpdatedByName
-             FROM ShoppingListItem sli
-             LEFT JOIN StoreItem si ON sli.storeItemId = si.id
-             LEFT JOIN QuantityUnit qu ON sli.unitId = qu.id
-             LEFT JOIN StoreSection s ON si.sectionId = s.id
-             LEFT JOIN StoreAisle a ON COALESCE(s.aisleId, si.aisleId) = a.id
-             LEFT JOIN User u ON sli.checkedBy = u.id
-             LEFT JOIN User sli_creator ON sli.createdById = sli_creator.id
-             LEFT JOIN User sli_updater ON sli.updatedById = sli_updater.id
-             LEFT JOIN User si_creator ON si.createdById = si_creator.id
-             LEFT JOIN User si_updater ON si.updatedById = si_updater.id
+            `${SELECT_WITH_DETAILS}
              WHERE sli.storeId = ?
              ORDER BY
                 COALESCE(a.sortOrder, 999999) ASC,
@@ -107,6 +110,18 @@ export function getShoppingListItems(storeId: string): ShoppingListItemWithDetai
     return rows.map(mapRowToShoppingListItemWithDetails);
 }
 
+export function getShoppingListItemWithDetailsById(id: string): ShoppingListItemWithDetails | null {
+    const row = db
+        .prepare(
+            `${SELECT_WITH_DETAILS}
+             WHERE sli.id = ?`
+        )
+        .get(id) as any | undefined;
+
+    if (!row) return null;
+    return mapRowToShoppingListItemWithDetails(row);
+}
+
 export function upsertShoppingListItem(params: {
     id?: string;
     storeId: string;
@@ -244,6 +259,30 @@ export function getShoppingListItemById(id: string): ShoppingListItem | null {
     return mapRowToShoppingListItem(row);
 }
 
+/**
+ * Find the oldest unchecked (non-idea) shopping list item for a store item.
+ * Used to merge incoming quantities instead of adding duplicate rows.
+ */
+export function findUncheckedShoppingListItemByStoreItem(
+    storeId: string,
+    storeItemId: string
+): ShoppingListItem | null {
+    const row = db
+        .prepare(
+            `SELECT id, storeId, storeItemId, qty, unitId, notes, isChecked, checkedAt, checkedBy, checkedUpdatedAt, isSample, isUnsure, isIdea, snoozedUntil, createdById, updatedById, createdAt, updatedAt
+             FROM ShoppingListItem
+             WHERE storeId = ? AND storeItemId = ?
+               AND (isChecked IS NULL OR isChecked = 0)
+               AND (isIdea IS NULL OR isIdea = 0)
+             ORDER BY createdAt ASC
+             LIMIT 1`
+        )
+        .get(storeId, storeItemId) as any | undefined;
+
+    if (!row) return null;
+    return mapRowToShoppingListItem(row);
+}
+
 export function toggleShoppingListItemChecked(
     id: string,
     isChecked: boolean,
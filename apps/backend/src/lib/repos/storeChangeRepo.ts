@@ -0,0 +1,48 @@
+import type { StoreEventEntity } from "@basket-bot/core";
+import { db } from "../db/db";
+
+/**
+ * Repository for the StoreChange log (delta sync).
+ * Entries are written by database triggers; this module only reads and cleans them up.
+ */
+
+export type StoreChangeEntry = {
+    seq: number;
+    entity: StoreEventEntity;
+    entityId: string;
+    isDeleted: boolean;
+};
+
+/**
+ * Latest change of each entity in a store after the given cursor, oldest first
+ */
+export function getChangesSince(storeId: string, since: number): StoreChangeEntry[] {
+    const rows = db
+        .prepare(
+            `SELECT seq, entity, entityId, isDeleted
+             FROM StoreChange
+             WHERE storeId = ? AND seq > ?
+             ORDER BY seq ASC`
+        )
+        .all(storeId, since) as Array<Omit<StoreChangeEntry, "isDeleted"> & { isDeleted: number }>;
+
+    return rows.map((row) => ({ ...row, isDeleted: row.isDeleted === 1 }));
+}
+
+/**
+ * Highest cursor ever handed out (across all stores); 0 before the first change
+ */
+export function getLatestSeq(): number {
+    const row = db.prepare(`SELECT seq FROM sqlite_sequence WHERE name = 'StoreChange'`).get() as
+        | { seq: number }
+        | undefined;
+
+    return row?.seq ?? 0;
+}
+
+/**
+ * Drop a deleted store's entries (its rows' tombstones are written while they cascade away)
+ */
+export function deleteChangesByStore(storeId: string): void {
+    db.prepare(`DELETE FROM StoreChange WHERE storeId = ?`).run(storeId);
+}
@@ -0,0 +1,196 @@
+import type {
+    SaveStoreMapRequest,
+    StoreMap,
+    StoreMapAisleEnd,
+    StoreMapNode,
+} from "@basket-bot/core";
+import { db } from "../db/db";
+
+/**
+ * Repository for StoreMap operations (one optional floor plan per store).
+ * A map is stored across StoreMap, StoreMapAisle, and StoreMapConnection and saved whole.
+ */
+
+type StoreMapRow = {
+    storeId: string;
+    entranceX: number;
+    entranceY: number;
+    checkoutX: number;
+    checkoutY: number;
+    createdById: string;
+    updatedById: string;
+    createdAt: string;
+    updatedAt: string;
+};
+
+type StoreMapAisleRow = {
+    aisleId: string;
+    startX: number;
+    startY: number;
+    endX: number;
+    endY: number;
+};
+
+type NodeColumns = {
+    type: StoreMapNode["type"];
+    aisleId: string | null;
+    end: StoreMapAisleEnd | null;
+};
+
+type StoreMapConnectionRow = {
+    fromType: StoreMapNode["type"];
+    fromAisleId: string | null;
+    fromEnd: StoreMapAisleEnd | null;
+    toType: StoreMapNode["type"];
+    toAisleId: string | null;
+    toEnd: StoreMapAisleEnd | null;
+};
+
+function toNode({ type, aisleId, end }: NodeColumns): StoreMapNode {
+    return type === "aisle" ? { type, aisleId: aisleId!, end: end! } : { type };
+}
+
+function toNodeColumns(node: StoreMapNode): NodeColumns {
+    return node.type === "aisle"
+        ? { type: node.type, aisleId: node.aisleId, end: node.end }
+        : { type: node.type, aisleId: null, end: null };
+}
+
+export function getStoreMap(storeId: string): StoreMap | null {
+    const map = db
+        .prepare(
+            `SELECT storeId, entranceX, entranceY, checkoutX, checkoutY,
+                    createdById, updatedById, createdAt, updatedAt
+             FROM StoreMap
+             WHERE storeId = ?`
+        )
+        .get(storeId) as StoreMapRow | undefined;
+
+    if (!map) {
+        return null;
+    }
+
+    const aisles = db
+        .prepare(
+            `SELECT ma.aisleId, ma.startX, ma.startY, ma.endX, ma.endY
+             FROM StoreMapAisle ma
+             JOIN StoreAisle a ON ma.aisleId = a.id
+             WHERE ma.storeId = ?
+             ORDER BY a.sortOrder ASC`
+        )
+        .all(storeId) as StoreMapAisleRow[];
+
+    const connections = db
+        .prepare(
+            `SELECT fromType, fromAisleId, fromEnd, toType, toAisleId, toEnd
+             FROM StoreMapConnection
+             WHERE storeId = ?
+             ORDER BY sortOrder ASC`
+        )
+        .all(storeId) as StoreMapConnectionRow[];
+
+    return {
+        storeId: map.storeId,
+        entrance: { x: map.entranceX, y: map.entranceY },
+        checkout: { x: map.checkoutX, y: map.checkoutY },
+        aisles: aisles.map((aisle) => ({
+            aisleId: aisle.aisleId,
+            start: { x: aisle.startX, y: aisle.startY },
+            end: { x: aisle.endX, y: aisle.endY },
+        })),
+        connections: connections.map((connection) => ({
+            from: toNode({
+                type: connection.fromType,
+                aisleId: connection.fromAisleId,
+                end: connection.fromEnd,
+            }),
+            to: toNode({
+                type: connection.toType,
+                aisleId: connection.toAisleId,
+                end: connection.toEnd,
+            }),
+        })),
+        createdById: map.createdById,
+        updatedById: map.updatedById,
+        createdAt: map.createdAt,
+        updatedAt: map.updatedAt,
+    };
+}
+
+/**
+ * Create or replace a store's map (placements and connections are replaced whole)
+ */
+export function saveStoreMap(params: {
+    storeId: string;
+    layout: SaveStoreMapRequest;
+    userId: string;
+}): StoreMap {
+    const { storeId, layout, userId } = params;
+    const now = new Date().toISOString();
+
+    db.transaction(() => {
+        db.prepare(
+            `INSERT INTO StoreMap (storeId, entranceX, entranceY, checkoutX, checkoutY, createdById, updatedById, createdAt, updatedAt)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (storeId) DO UPDATE SET
+             entranceX = excluded.entranceX, entranceY = excluded.entranceY,
+             checkoutX = excluded.checkoutX, checkoutY = excluded.checkoutY,
+             updatedById = excluded.updatedById, updatedAt = excluded.updatedAt`
+        ).run(
+            storeId,
+            layout.entrance.x,
+            layout.entrance.y,
+            layout.checkout.x,
+            layout.checkout.y,
+            userId,
+            userId,
+            now,
+            now
+        );
+
+        db.prepare(`DELETE FROM StoreMapConnection WHERE storeId = ?`).run(storeId);
+        db.prepare(`DELETE FROM StoreMapAisle WHERE storeId = ?`).run(storeId);
+
+        const aisleStmt = db.prepare(
+            `INSERT INTO StoreMapAisle (aisleId, storeId, startX, startY, endX, endY)
+         VALUES (?, ?, ?, ?, ?, ?)`
+        );
+        for (const aisle of layout.aisles) {
+            aisleStmt.run(
+                aisle.aisleId,
+                storeId,
+                aisle.start.x,
+                aisle.start.y,
+                aisle.end.x,
+                aisle.end.y
+            );
+        }
+
+        const connectionStmt = db.prepare(
+            `INSERT INTO StoreMapConnection (id, storeId, fromType, fromAisleId, fromEnd, toType, toAisleId, toEnd, sortOrder)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        );
+        layout.connections.forEach((connection, index) => {
+            const from = toNodeColumns(connection.from);
+            const to = toNodeColumns(connection.to);
+            connectionStmt.run(
+                crypto.randomUUID(),
+                storeId,
+                from.type,
+                from.aisleId,
+                from.end,
+                to.type,
+                to.aisleId,
+                to.end,
+                index
+            );
+        });
+    })();
+
+    return getStoreMap(storeId)!;
+}
+
+export function deleteStoreMap(storeId: string): boolean {
+    const result = db.prepare(`DELETE FROM StoreMap WHERE storeId = ?`).run(storeId);
+    return result.changes > 0;
+}
@@ -1,4 +1,10 @@
-import type { Store } from "@basket-bot/core";
+import {
+    STORE_LAYOUT_FORMAT,
+    STORE_LAYOUT_FORMAT_VERSION,
+    type Store,
+    type StoreLayout,
+    type StoreLayoutItem,
+} from "@basket-bot/core";
 import { db } from "../db/db";
 import { normalizeItemName } from "../utils/stringUtils";
 
@@ -277,6 +283,255 @@ export function duplicateStore(params: {
                 );
             }
         }
+
+        // 5. Copy the store map (if any) onto the new aisles
+        const mapInsert = db
+            .prepare(
+                `INSERT INTO StoreMap (storeId, entranceX, entranceY, checkoutX, checkoutY, createdById, updatedById, createdAt, updatedAt)
+                 SELECT ?, entranceX, entranceY, checkoutX, checkoutY, ?, ?, ?, ?
+                 FROM StoreMap
+                 WHERE storeId = ?`
+            )
+            .run(newStoreId, params.userId, params.userId, now, now, params.sourceStoreId);
+
+        if (mapInsert.changes > 0) {
+            const sourcePlacements = db
+                .prepare(
+                    `SELECT aisleId, startX, startY, endX, endY
+                     FROM StoreMapAisle
+                     WHERE storeId = ?`
+                )
+                .all(params.sourceStoreId) as Array<{
+                aisleId: string;
+                startX: number;
+                startY: number;
+                endX: number;
+                endY: number;
+            }>;
+
+            const placementInsertStmt = db.prepare(
+                `INSERT INTO StoreMapAisle (aisleId, storeId, startX, startY, endX, endY)
+                 VALUES (?, ?, ?, ?, ?, ?)`
+            );
+
+            for (const placement of sourcePlacements) {
+                placementInsertStmt.run(
+                    aisleIdMap.get(placement.aisleId),
+                    newStoreId,
+                    placement.startX,
+                    placement.startY,
+                    placement.endX,
+                    placement.endY
+                );
+            }
+
+            const sourceConnections = db
+                .prepare(
+                    `SELECT fromType, fromAisleId, fromEnd, toType, toAisleId, toEnd, sortOrder
+                     FROM StoreMapConnection
+                     WHERE storeId = ?`
+                )
+                .all(params.sourceStoreId) as Array<{
+                fromType: string;
+                fromAisleId: string | null;
+                fromEnd: string | null;
+                toType: string;
+                toAisleId: string | null;
+                toEnd: string | null;
+                sortOrder: number;
+            }>;
+
+            const connectionInsertStmt = db.prepare(
+                `INSERT INTO StoreMapConnection (id, storeId, fromType, fromAisleId, fromEnd, toType, toAisleId, toEnd, sortOrder)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+            );
+
+            for (const connection of sourceConnections) {
+                connectionInsertStmt.run(
+                    crypto.randomUUID(),
+                    newStoreId,
+                    connection.fromType,
+                    connection.fromAisleId && aisleIdMap.get(connection.fromAisleId),
+                    connection.fromEnd,
+                    connection.toType,
+                    connection.toAisleId && aisleIdMap.get(connection.toAisleId),
+                    connection.toEnd,
+                    connection.sortOrder
+                );
+            }
+        }
+    })();
+
+    return getStoreById(newStoreId)!;
+}
+
+/**
+ * Read a store's layout in the portable format (aisles/sections in sortOrder, items by name).
+ * Hidden items are left out. Returns null when the store doesn't exist.
+ */
+export function exportStoreLayout(storeId: string, includeItems: boolean): StoreLayout | null {
+    const store = getStoreById(storeId);
+    if (!store) return null;
+
+    const aisles = db
+        .prepare(
+            `SELECT id, name
+             FROM StoreAisle
+             WHERE storeId = ?
+             ORDER BY sortOrder ASC, name ASC`
+        )
+        .all(storeId) as Array<{ id: string; name: string }>;
+
+    const sections = db
+        .prepare(
+            `SELECT id, aisleId, name
+             FROM StoreSection
+             WHERE storeId = ?
+             ORDER BY sortOrder ASC, name ASC`
+        )
+        .all(storeId) as Array<{ id: string; aisleId: string; name: string }>;
+
+    // Positions in the exported lists, which is how items refer to their location
+    const aisleIndex = new Map(aisles.map((aisle, index) => [aisle.id, index]));
+    const sectionIndex = new Map<string, number>();
+    const layoutAisles = aisles.map((aisle) => {
+        const aisleSections = sections.filter((section) => section.aisleId === aisle.id);
+        aisleSections.forEach((section, index) => sectionIndex.set(section.id, index));
+        return { name: aisle.name, sections: aisleSections.map(({ name }) => ({ name })) };
+    });
+
+    let items: StoreLayoutItem[] | undefined;
+    if (includeItems) {
+        const rows = db
+            .prepare(
+                `SELECT si.name, COALESCE(s.aisleId, si.aisleId) as aisleId, s.id as sectionId, si.isFavorite
+                 FROM StoreItem si
+                 LEFT JOIN StoreSection s ON si.sectionId = s.id
+                 WHERE si.storeId = ? AND (si.isHidden IS NULL OR si.isHidden = 0)
+                 ORDER BY si.name ASC`
+            )
+            .all(storeId) as Array<{
+            name: string;
+            aisleId: string | null;
+            sectionId: string | null;
+            isFavorite: number | null;
+        }>;
+
+        items = rows.map((row) => ({
+            name: row.name,
+            aisle: row.aisleId === null ? null : (aisleIndex.get(row.aisleId) ?? null),
+            section: row.sectionId === null ? null : (sectionIndex.get(row.sectionId) ?? null),
+            isFavorite: intToBool(row.isFavorite),
+        }));
+    }
+
+    return {
+        format: STORE_LAYOUT_FORMAT,
+        version: STORE_LAYOUT_FORMAT_VERSION,
+        exportedAt: new Date().toISOString(),
+        store: { name: store.name },
+        aisles: layoutAisles,
+        ...(items && { items }),
+    };
+}
+
+/**
+ * Create a store from a portable layout, owned by the importing user (private, visible).
+ * Items whose name matches an earlier one (after normalization) are skipped.
+ */
+export function importStoreLayout(params: {
+    layout: StoreLayout;
+    storeName: string;
+    userId: string;
+    includeItems: boolean;
+}): Store {
+    const { layout, userId } = params;
+    const newStoreId = crypto.randomUUID();
+    const now = new Date().toISOString();
+
+    db.transaction(() => {
+        // 1. Create the store
+        db.prepare(
+            `INSERT INTO Store (id, name, householdId, isHidden, createdById, updatedById, createdAt, updatedAt)
+             VALUES (?, ?, NULL, NULL, ?, ?, ?, ?)`
+        ).run(newStoreId, params.storeName, userId, userId, now, now);
+
+        // 2. Create aisles and their sections in layout order
+        const aisleInsertStmt = db.prepare(
+            `INSERT INTO StoreAisle (id, storeId, name, sortOrder, createdById, updatedById, createdAt, updatedAt)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+        );
+        const sectionInsertStmt = db.prepare(
+            `INSERT INTO StoreSection (id, storeId, aisleId, name, sortOrder, createdById, updatedById, createdAt, updatedAt)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        );
+
+        const aisleIds: string[] = [];
+        const sectionIds: string[][] = [];
+        layout.aisles.forEach((aisle, aisleIndex) => {
+            const aisleId = crypto.randomUUID();
+            aisleIds.push(aisleId);
+            aisleInsertStmt.run(
+                aisleId,
+                newStoreId,
+                aisle.name,
+                aisleIndex,
+                userId,
+                userId,
+                now,
+                now
+            );
+
+            sectionIds.push(
+                aisle.sections.map((section, sectionIndex) => {
+                    const sectionId = crypto.randomUUID();
+                    sectionInsertStmt.run(
+                        sectionId,
+                        newStoreId,
+                        aisleId,
+                        section.name,
+                        sectionIndex,
+                        userId,
+                        userId,
+                        now,
+                        now
+                    );
+                    return sectionId;
+                })
+            );
+        });
+
+        // 3. Optionally create items at their locations
+        if (params.includeItems && layout.items) {
+            const itemInsertStmt = db.prepare(
+                `INSERT INTO StoreItem (id, storeId, name, nameNorm, aisleId, sectionId, usageCount, lastUsedAt, isHidden, isFavorite, createdById, updatedById, createdAt, updatedAt)
+                 VALUES (?, ?, ?, ?, ?, ?, 0, NULL, 0, ?, ?, ?, ?, ?)
+                 ON CONFLICT (storeId, nameNorm) DO NOTHING`
+            );
+
+            for (const item of layout.items) {
+                // Apply normalization: an item in a section doesn't keep its aisle
+                const sectionId =
+                    item.aisle !== null && item.section !== null
+                        ? sectionIds[item.aisle][item.section]
+                        : null;
+                const aisleId = !sectionId && item.aisle !== null ? aisleIds[item.aisle] : null;
+
+                itemInsertStmt.run(
+                    crypto.randomUUID(),
+                    newStoreId,
+                    item.name,
+                    normalizeItemName(item.name),
+                    aisleId,
+                    sectionId,
+                    item.isFavorite ? 1 : 0,
+                    userId,
+                    userId,
+                    now,
+                    now
+                );
+            }
+        }
     })();
 
     return getStoreById(newStoreId)!;
@@ -0,0 +1,168 @@
+import { randomUUID } from "crypto";
+import { db } from "../db/db";
+
+/**
+ * Repository for two-factor authentication (UserTwoFactor, TwoFactorRecoveryCode).
+ * A UserTwoFactor row with enabledAt null is a setup that hasn't been confirmed yet.
+ */
+
+export type UserTwoFactorRecord = {
+    userId: string;
+    secret: string;
+    enabledAt: string | null;
+    lastUsedStep: number | null;
+    failedLoginAttempts: number;
+    challengeVersion: number;
+    createdAt: string;
+};
+
+export function getUserTwoFactor(userId: string): UserTwoFactorRecord | null {
+    const row = db
+        .prepare(
+            `SELECT userId, secret, enabledAt, lastUsedStep, failedLoginAttempts, challengeVersion,
+                    createdAt
+             FROM UserTwoFactor
+             WHERE userId = ?`
+        )
+        .get(userId) as UserTwoFactorRecord | undefined;
+
+    return row ?? null;
+}
+
+/**
+ * Store a pending (not yet enabled) secret, replacing an earlier pending one
+ */
+export function savePendingTwoFactor(userId: string, secret: string): void {
+    db.prepare(
+        `INSERT INTO UserTwoFactor (userId, secret, enabledAt, lastUsedStep, createdAt)
+         VALUES (?, ?, NULL, NULL, ?)
+         ON CONFLICT(userId) DO UPDATE SET
+            secret = excluded.secret,
+            enabledAt = NULL,
+            lastUsedStep = NULL,
+            failedLoginAttempts = 0,
+            createdAt = excluded.createdAt`
+    ).run(userId, secret, new Date().toISOString());
+}
+
+/**
+ * Turn two-factor on and replace the recovery codes
+ */
+export function enableTwoFactor(userId: string, usedStep: number, codeHashes: string[]): void {
+    db.transaction(() => {
+        db.prepare(
+            `UPDATE UserTwoFactor
+             SET enabledAt = ?, lastUsedStep = ?
+             WHERE userId = ?`
+        ).run(new Date().toISOString(), usedStep, userId);
+        replaceRecoveryCodes(userId, codeHashes);
+    })();
+}
+
+/**
+ * Remember the step of an accepted code; returns false when that step (or a later one) was
+ * already used
+ */
+export function recordUsedStep(userId: string, step: number): boolean {
+    const result = db
+        .prepare(
+            `UPDATE UserTwoFactor
+             SET lastUsedStep = ?
+             WHERE userId = ? AND (lastUsedStep IS NULL OR lastUsedStep < ?)`
+        )
+        .run(step, userId, step);
+
+    return result.changes > 0;
+}
+
+/**
+ * Count a bad code at the second login step. The attempt that reaches maxAttempts voids every
+ * outstanding challenge and starts the count over; returns true when it did.
+ */
+export function recordFailedLoginAttempt(userId: string, maxAttempts: number): boolean {
+    return db.transaction(() => {
+        const row = db
+            .prepare(`SELECT failedLoginAttempts FROM UserTwoFactor WHERE userId = ?`)
+            .get(userId) as { failedLoginAttempts: number } | undefined;
+        if (!row) return false;
+
+        if (row.failedLoginAttempts + 1 < maxAttempts) {
+            db.prepare(
+                `UPDATE UserTwoFactor
+                 SET failedLoginAttempts = failedLoginAttempts + 1
+                 WHERE userId = ?`
+            ).run(userId);
+            return false;
+        }
+
+        db.prepare(
+            `UPDATE UserTwoFactor
+             SET failedLoginAttempts = 0, challengeVersion = challengeVersion + 1
+             WHERE userId = ?`
+        ).run(userId);
+        return true;
+    })();
+}
+
+/**
+ * After a successful sign-in: clear the bad code count and void the challenge that was used
+ */
+export function completeLoginChallenge(userId: string): void {
+    db.prepare(
+        `UPDATE UserTwoFactor
+         SET failedLoginAttempts = 0, challengeVersion = challengeVersion + 1
+         WHERE userId = ?`
+    ).run(userId);
+}
+
+/**
+ * Turn two-factor off: removes the secret and recovery codes
+ */
+export function deleteTwoFactor(userId: string): void {
+    db.transaction(() => {
+        db.prepare(`DELETE FROM TwoFactorRecoveryCode WHERE userId = ?`).run(userId);
+        db.prepare(`DELETE FROM UserTwoFactor WHERE userId = ?`).run(userId);
+    })();
+}
+
+export function replaceRecoveryCodes(userId: string, codeHashes: string[]): void {
+    const now = new Date().toISOString();
+    const insert = db.prepare(
+        `INSERT INTO TwoFactorRecoveryCode (id, userId, codeHash, createdAt)
+         VALUES (?, ?, ?, ?)`
+    );
+
+    db.transaction(() => {
+        db.prepare(`DELETE FROM TwoFactorRecoveryCode WHERE userId = ?`).run(userId);
+        for (const codeHash of codeHashes) {
+            insert.run(randomUUID(), userId, codeHash, now);
+        }
+    })();
+}
+
+export function countUnusedRecoveryCodes(userId: string): number {
+    const row = db
+        .prepare(
+            `SELECT COUNT(*) as count
+             FROM TwoFactorRecoveryCode
+             WHERE userId = ? AND usedAt IS NULL`
+        )
+        .get(userId) as { count: number };
+
+    return row.count;
+}
+
+/**
+ * Spend an unused recovery code; returns false when there is none with this hash
+ */
+export function spendRecoveryCode(userId: string, codeHash: string): boolean {
+    const result = db
+        .prepare(
+            `UPDATE TwoFactorRecoveryCode
+             SET usedAt = ?
+             WHERE userId = ? AND codeHash = ? AND usedAt IS NULL`
+        )
+        .run(new Date().toISOString(), userId, codeHash);
+
+    return result.changes > 0;
+}
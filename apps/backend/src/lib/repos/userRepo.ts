@@ -66,16 +66,27 @@ export function updateUserProfile(userId: string, name: string): User | null {
 /**
  * Change user password
  * Verifies current password before updating
- *
- * TODO: Consider invalidating all other sessions (revoke refresh tokens except current)
- * when password changes for better security.
  */
 export async function changeUserPassword(
     userId: string,
     currentPassword: string,
     newPassword: string
 ): Promise<boolean> {
-    // Get current password hash
+    // Verify current password
+    const isValid = await verifyUserPassword(userId, currentPassword);
+    if (!isValid) {
+        return false;
+    }
+
+    await setUserPassword(userId, newPassword);
+
+    return true;
+}
+
+/**
+ * Check a user's password (e.g. before a sensitive account change)
+ */
+export async function verifyUserPassword(userId: string, password: string): Promise<boolean> {
     const row = db.prepare(`SELECT password FROM User WHERE id = ?`).get(userId) as
         | { password: string }
         | undefined;
@@ -84,12 +95,13 @@ export async function changeUserPassword(
         return false;
     }
 
-    // Verify current password
-    const isValid = await verifyPassword(currentPassword, row.password);
-    if (!isValid) {
-        return false;
-    }
+    return verifyPassword(password, row.password);
+}
 
+/**
+ * Set a new password without checking the current one (password reset)
+ */
+export async function setUserPassword(userId: string, newPassword: string): Promise<void> {
     // Hash new password
     const newHash = await hashPassword(newPassword);
 
@@ -99,8 +111,6 @@ export async function changeUserPassword(
          SET password = ?, updatedAt = datetime('now')
          WHERE id = ?`
     ).run(newHash, userId);
-
-    return true;
 }
 
 /**
@@ -0,0 +1,155 @@
+import {
+    API_TOKEN_PREFIX,
+    AuthenticationError,
+    AuthorizationError,
+    DEFAULT_ACCESS_TOKEN_TTL_SECONDS,
+    MAX_API_TOKENS_PER_USER,
+    type ApiToken,
+    type ApiTokenScope,
+    type CreateApiTokenRequest,
+    type CreateApiTokenResponse,
+    type JwtPayload,
+} from "@basket-bot/core";
+import { createHash, randomBytes } from "crypto";
+import { getApiTokenRouteAccess } from "../auth/apiTokenRoutes";
+import * as apiTokenRepo from "../repos/apiTokenRepo";
+import * as storeRepo from "../repos/storeRepo";
+import * as userRepo from "../repos/userRepo";
+
+/**
+ * Service layer for personal API tokens: long-lived credentials for scripts and home automation,
+ * sent as "Authorization: Bearer bbt_..." in place of an access token. A token acts as its user,
+ * limited to its scopes (and optionally to some stores).
+ */
+
+// Shown in the token list so users can tell tokens apart ("bbt_AbCd1234")
+const TOKEN_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 8;
+// lastUsedAt is written at most this often per token
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+function hashToken(token: string): string {
+    return createHash("sha256").update(token).digest("hex");
+}
+
+function hasScope(granted: ApiTokenScope[], needed: ApiTokenScope): boolean {
+    if (granted.includes(needed)) return true;
+
+    // A write scope includes reading the same things
+    const [resource, access] = needed.split(":");
+    return access === "read" && granted.includes(`${resource}:write` as ApiTokenScope);
+}
+
+export function listApiTokens(userId: string): ApiToken[] {
+    return apiTokenRepo.listApiTokens(userId);
+}
+
+/**
+ * Create a token; the response holds its value, which can't be retrieved again
+ */
+export function createApiToken(
+    userId: string,
+    input: CreateApiTokenRequest
+): CreateApiTokenResponse {
+    if (apiTokenRepo.countApiTokens(userId) >= MAX_API_TOKENS_PER_USER) {
+        throw new Error(
+            `VALIDATION_ERROR: You can have at most ${MAX_API_TOKENS_PER_USER} API tokens`
+        );
+    }
+
+    const storeIds = input.storeIds === null ? null : [...new Set(input.storeIds)];
+    for (const storeId of storeIds ?? []) {
+        if (!storeRepo.userHasAccessToStore(userId, storeId)) {
+            throw new Error("Access denied");
+        }
+    }
+
+    const token = API_TOKEN_PREFIX + randomBytes(32).toString("base64url");
+    const expiresAt =
+        input.expiresInDays === null
+            ? null
+            : new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000).toISOString();
+
+    const apiToken = apiTokenRepo.createApiToken({
+        userId,
+        name: input.name,
+        tokenHash: hashToken(token),
+        tokenPrefix: token.slice(0, TOKEN_PREFIX_LENGTH),
+        scopes: [...new Set(input.scopes)],
+        storeIds,
+        expiresAt,
+    });
+
+    return { apiToken, token };
+}
+
+/**
+ * Revoke a token; it stops working right away. Returns false when the user has no such token.
+ */
+export function deleteApiToken(tokenId: string, userId: string): boolean {
+    return apiTokenRepo.deleteApiToken(tokenId, userId);
+}
+
+/**
+ * Revoke every token of the user (after a password change or reset); returns how many there were
+ */
+export function deleteAllApiTokens(userId: string): number {
+    return apiTokenRepo.deleteApiTokensForUser(userId);
+}
+
+/**
+ * Authenticate a request made with an API token. Returns the auth payload the route sees (the
+ * token's scopes in place of the user's); throws AuthenticationError for an unknown or expired
+ * token and AuthorizationError when its scopes or stores don't cover the route.
+ */
+export function authenticateRequest(token: string, method: string, pathname: string): JwtPayload {
+    const apiToken = apiTokenRepo.getApiTokenByHash(hashToken(token));
+    if (!apiToken) {
+        throw new AuthenticationError("Invalid API token");
+    }
+
+    const now = Date.now();
+    if (apiToken.expiresAt && new Date(apiToken.expiresAt).getTime() <= now) {
+        throw new AuthenticationError("API token has expired");
+    }
+
+    const user = userRepo.getUserById(apiToken.userId);
+    if (!user) {
+        throw new AuthenticationError("Invalid API token");
+    }
+
+    const access = getApiTokenRouteAccess(method, pathname);
+    if (!access) {
+        throw new AuthorizationError("API tokens can't be used for this request");
+    }
+    if (!access.scopes.every((scope) => hasScope(apiToken.scopes, scope))) {
+        throw new AuthorizationError(`This API token needs: ${access.scopes.join(", ")}`);
+    }
+
+    // A token limited to some stores only reaches shopping lists and stores through their paths
+    const needsStore = access.scopes.some(
+        (scope) => scope.startsWith("shopping-list:") || scope.startsWith("stores:")
+    );
+    if (
+        apiToken.storeIds &&
+        needsStore &&
+        !(access.storeId && apiToken.storeIds.includes(access.storeId))
+    ) {
+        throw new AuthorizationError("This API token can't be used for this store");
+    }
+
+    apiTokenRepo.touchApiToken(
+        apiToken.id,
+        new Date(now).toISOString(),
+        new Date(now - LAST_USED_RESOLUTION_MS).toISOString()
+    );
+
+    // Like an access token's, exp bounds long-lived requests (event streams); they reconnect
+    const expiresAt = apiToken.expiresAt ? new Date(apiToken.expiresAt).getTime() : Infinity;
+    return {
+        sub: user.id,
+        email: user.email,
+        scopes: apiToken.scopes,
+        iat: Math.floor(now / 1000),
+        exp: Math.floor(Math.min(expiresAt, now + DEFAULT_ACCESS_TOKEN_TTL_SECONDS * 1000) / 1000),
+    };
+}
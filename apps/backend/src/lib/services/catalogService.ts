@@ -0,0 +1,108 @@
+import type { CanonicalItemSummary, CanonicalItemWithLinks, StoreItem } from "@basket-bot/core";
+import { publishStoreEvent } from "../events/storeEvents";
+import * as canonicalItemRepo from "../repos/canonicalItemRepo";
+import * as itemRepo from "../repos/itemRepo";
+import * as storeRepo from "../repos/storeRepo";
+
+/**
+ * Service layer for the cross-store item catalog: canonical items and the store items linked
+ * to them. Store items link by name automatically; links made here are confirmed by hand.
+ */
+
+function verifyStoreAccess(storeId: string, userId: string): void {
+    if (!storeRepo.userHasAccessToStore(userId, storeId)) {
+        throw new Error("Access denied");
+    }
+}
+
+function publishItemUpdated(item: StoreItem, userId: string): void {
+    publishStoreEvent({
+        storeId: item.storeId,
+        entity: "store-item",
+        action: "updated",
+        entityId: item.id,
+        data: item,
+        actorId: userId,
+    });
+}
+
+/**
+ * Canonical items from every catalog the user can see, with usage added up across stores
+ */
+export function getCatalog(userId: string): CanonicalItemSummary[] {
+    return canonicalItemRepo.getCatalogForUser(userId);
+}
+
+/**
+ * A canonical item with its linked store items, or null when it doesn't exist
+ */
+export function getCatalogItem(id: string, userId: string): CanonicalItemWithLinks | null {
+    const item = canonicalItemRepo.getCanonicalItemWithLinks(id);
+    if (!item) return null;
+
+    if (!canonicalItemRepo.userHasAccessToCanonicalItem(userId, id)) {
+        throw new Error("Access denied");
+    }
+    return item;
+}
+
+/**
+ * Link a store item to a canonical item of its store's catalog by hand, or unlink it (null).
+ * Returns null when the item isn't in the store.
+ */
+export function linkStoreItem(params: {
+    storeId: string;
+    itemId: string;
+    canonicalItemId: string | null;
+    userId: string;
+}): StoreItem | null {
+    verifyStoreAccess(params.storeId, params.userId);
+
+    const existing = itemRepo.getItemById(params.itemId);
+    if (!existing || existing.storeId !== params.storeId) {
+        return null;
+    }
+
+    if (
+        params.canonicalItemId &&
+        !canonicalItemRepo.isInStoreCatalog(params.canonicalItemId, params.storeId)
+    ) {
+        throw new Error("VALIDATION_ERROR: Items can only be linked within the store's catalog");
+    }
+
+    canonicalItemRepo.setStoreItemLink({
+        storeItemId: params.itemId,
+        canonicalItemId: params.canonicalItemId,
+        updatedById: params.userId,
+    });
+
+    const item = itemRepo.getItemById(params.itemId)!;
+    publishItemUpdated(item, params.userId);
+    return item;
+}
+
+/**
+ * Drop a store item's hand-made link and link it by name again.
+ * Returns null when the item isn't in the store.
+ */
+export function resetStoreItemLink(params: {
+    storeId: string;
+    itemId: string;
+    userId: string;
+}): StoreItem | null {
+    verifyStoreAccess(params.storeId, params.userId);
+
+    const existing = itemRepo.getItemById(params.itemId);
+    if (!existing || existing.storeId !== params.storeId) {
+        return null;
+    }
+
+    canonicalItemRepo.resetStoreItemLink({
+        storeItemId: params.itemId,
+        updatedById: params.userId,
+    });
+
+    const item = itemRepo.getItemById(params.itemId)!;
+    publishItemUpdated(item, params.userId);
+    return item;
+}
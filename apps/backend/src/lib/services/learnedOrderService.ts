@@ -0,0 +1,146 @@
+import { MIN_LEARNED_ORDER_TRIPS, type SuggestedStoreOrder } from "@basket-bot/core";
+import * as aisleRepo from "../repos/aisleRepo";
+import * as purchaseEventRepo from "../repos/purchaseEventRepo";
+import type { ShelvedCheckOff } from "../repos/purchaseEventRepo";
+import * as sectionRepo from "../repos/sectionRepo";
+import * as storeRepo from "../repos/storeRepo";
+
+/**
+ * Service layer for the walking order of a store learned from purchase history.
+ * A trip is one shopper's check-offs without a long pause; the order aisles (and the sections
+ * within each aisle) come up on each trip is averaged into a suggested sortOrder.
+ */
+
+// A longer pause between one shopper's check-offs starts a new trip
+const TRIP_GAP_MS = 60 * 60 * 1000;
+
+// How many recent check-offs the order is learned from
+const LEARNING_WINDOW = 2000;
+
+function verifyStoreAccess(storeId: string, userId: string): void {
+    if (!storeRepo.userHasAccessToStore(userId, storeId)) {
+        throw new Error("Access denied");
+    }
+}
+
+/**
+ * Split check-offs (oldest first) into trips, per shopper, at pauses longer than TRIP_GAP_MS
+ */
+function toTrips(checkOffs: ShelvedCheckOff[]): ShelvedCheckOff[][] {
+    const trips: ShelvedCheckOff[][] = [];
+    const currentTrips = new Map<string | null, ShelvedCheckOff[]>();
+
+    for (const checkOff of checkOffs) {
+        const trip = currentTrips.get(checkOff.checkedBy);
+        const last = trip?.[trip.length - 1];
+        const gap = last
+            ? new Date(checkOff.checkedAt).getTime() - new Date(last.checkedAt).getTime()
+            : Infinity;
+
+        if (trip && gap <= TRIP_GAP_MS) {
+            trip.push(checkOff);
+        } else {
+            const newTrip = [checkOff];
+            trips.push(newTrip);
+            currentTrips.set(checkOff.checkedBy, newTrip);
+        }
+    }
+
+    return trips;
+}
+
+/**
+ * Average relative position (0 = first, 1 = last) of each id across sequences.
+ * Within a sequence an id is placed by the mean index of its occurrences, so walking back
+ * for one forgotten item barely moves an aisle. Sequences of a single id carry no order.
+ */
+function averagePositions(sequences: string[][]): Map<string, number> {
+    const totals = new Map<string, { sum: number; count: number }>();
+
+    for (const sequence of sequences) {
+        const indexes = new Map<string, number[]>();
+        sequence.forEach((id, index) => indexes.set(id, [...(indexes.get(id) ?? []), index]));
+        if (indexes.size < 2) continue;
+
+        const ranked = [...indexes.entries()]
+            .map(([id, at]) => ({ id, place: at.reduce((sum, i) => sum + i, 0) / at.length }))
+            .sort((a, b) => a.place - b.place);
+
+        ranked.forEach(({ id }, rank) => {
+            const total = totals.get(id) ?? { sum: 0, count: 0 };
+            total.sum += rank / (ranked.length - 1);
+            total.count += 1;
+            totals.set(id, total);
+        });
+    }
+
+    return new Map([...totals].map(([id, { sum, count }]) => [id, sum / count]));
+}
+
+/**
+ * New sortOrder for ids given in current order: ids seen on trips are rearranged among the
+ * slots they hold now, by learned position; ids never seen keep their slot. Ties keep the
+ * current order.
+ */
+function toSortOrder(
+    ids: string[],
+    positions: Map<string, number>
+): Array<{ id: string; sortOrder: number }> {
+    const learned = ids
+        .filter((id) => positions.has(id))
+        .sort((a, b) => positions.get(a)! - positions.get(b)!);
+
+    let next = 0;
+    return ids
+        .map((id) => (positions.has(id) ? learned[next++] : id))
+        .map((id, sortOrder) => ({ id, sortOrder }));
+}
+
+/**
+ * Aisle and section order suggested by recent trips (empty until enough trips are seen)
+ */
+export function getSuggestedOrder(storeId: string, userId: string): SuggestedStoreOrder {
+    verifyStoreAccess(storeId, userId);
+
+    const checkOffs = purchaseEventRepo.getShelvedCheckOffs(storeId, LEARNING_WINDOW).reverse();
+    const trips = toTrips(checkOffs).filter(
+        (trip) => new Set(trip.map((checkOff) => checkOff.aisleId)).size >= 2
+    );
+
+    if (trips.length < MIN_LEARNED_ORDER_TRIPS) {
+        return { tripCount: trips.length, aisles: [], sections: [] };
+    }
+
+    const aisles = aisleRepo.getAislesByStore(storeId);
+    const sections = sectionRepo.getSectionsByStore(storeId);
+
+    const aislePositions = averagePositions(
+        trips.map((trip) => trip.map((checkOff) => checkOff.aisleId))
+    );
+    // Sections are ordered within their aisle, from the check-offs made in that aisle
+    const sectionPositions = averagePositions(
+        trips.flatMap((trip) =>
+            aisles.map((aisle) =>
+                trip
+                    .filter((checkOff) => checkOff.aisleId === aisle.id && checkOff.sectionId)
+                    .map((checkOff) => checkOff.sectionId!)
+            )
+        )
+    );
+
+    return {
+        tripCount: trips.length,
+        aisles: toSortOrder(
+            aisles.map((aisle) => aisle.id),
+            aislePositions
+        ),
+        sections: aisles.flatMap((aisle) =>
+            toSortOrder(
+                sections
+                    .filter((section) => section.aisleId === aisle.id)
+                    .map((section) => section.id),
+                sectionPositions
+            )
+        ),
+    };
+}
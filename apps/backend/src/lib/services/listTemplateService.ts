@@ -0,0 +1,225 @@
+import type {
+    ApplyListTemplateResponse,
+    CreateListTemplateRequest,
+    ListTemplate,
+    ListTemplateSummary,
+    ListTemplateWithItems,
+    UpdateListTemplateRequest,
+} from "@basket-bot/core";
+import { MAX_LIST_TEMPLATE_ITEMS } from "@basket-bot/core";
+import { db } from "../db/db";
+import { publishShoppingListItemEvent } from "../events/storeEvents";
+import * as householdRepo from "../repos/householdRepo";
+import * as itemRepo from "../repos/itemRepo";
+import * as listTemplateRepo from "../repos/listTemplateRepo";
+import * as shoppingListRepo from "../repos/shoppingListRepo";
+import * as storeRepo from "../repos/storeRepo";
+
+// ========== Authorization Helpers ==========
+
+/**
+ * Verify user is a member of the household that owns the templates
+ */
+function verifyHouseholdMember(householdId: string, userId: string): void {
+    if (!householdRepo.userIsMember(householdId, userId)) {
+        throw new Error("FORBIDDEN: User is not a member of this household");
+    }
+}
+
+/**
+ * Verify user can use the store whose list a template is applied to or saved from
+ */
+function verifyStoreAccess(storeId: string, userId: string): void {
+    if (!storeRepo.userHasAccessToStore(userId, storeId)) {
+        throw new Error("FORBIDDEN: User does not have access to this store");
+    }
+}
+
+/**
+ * Load a template and verify the user belongs to its household
+ */
+function getAuthorizedTemplate(templateId: string, userId: string): ListTemplate {
+    const template = listTemplateRepo.getTemplateById(templateId);
+    if (!template) {
+        throw new Error("NOT_FOUND: Template not found");
+    }
+
+    verifyHouseholdMember(template.householdId, userId);
+    return template;
+}
+
+// ========== Templates ==========
+
+/**
+ * List a household's templates with item counts (requires membership)
+ */
+export function getTemplates(householdId: string, userId: string): ListTemplateSummary[] {
+    verifyHouseholdMember(householdId, userId);
+    return listTemplateRepo.getTemplatesByHousehold(householdId);
+}
+
+/**
+ * Get a template with its items (requires membership)
+ */
+export function getTemplateWithItems(templateId: string, userId: string): ListTemplateWithItems {
+    getAuthorizedTemplate(templateId, userId);
+
+    const template = listTemplateRepo.getTemplateWithItems(templateId);
+    if (!template) {
+        throw new Error("NOT_FOUND: Template not found");
+    }
+
+    return template;
+}
+
+/**
+ * Create a template in a household (requires membership)
+ */
+export function createTemplate(
+    householdId: string,
+    input: CreateListTemplateRequest,
+    userId: string
+): ListTemplateWithItems {
+    verifyHouseholdMember(householdId, userId);
+
+    const template = listTemplateRepo.createTemplate({
+        householdId,
+        name: input.name.trim(),
+        items: input.items,
+        createdById: userId,
+    });
+
+    return listTemplateRepo.getTemplateWithItems(template.id)!;
+}
+
+/**
+ * Rename a template and/or replace its items (requires membership)
+ */
+export function updateTemplate(
+    templateId: string,
+    input: UpdateListTemplateRequest,
+    userId: string
+): ListTemplateWithItems {
+    getAuthorizedTemplate(templateId, userId);
+
+    const updated = listTemplateRepo.updateTemplate({
+        id: templateId,
+        name: input.name?.trim(),
+        items: input.items,
+        updatedById: userId,
+    });
+
+    if (!updated) {
+        throw new Error("NOT_FOUND: Template not found");
+    }
+
+    return listTemplateRepo.getTemplateWithItems(templateId)!;
+}
+
+/**
+ * Delete a template and its items (requires membership)
+ */
+export function deleteTemplate(templateId: string, userId: string): void {
+    getAuthorizedTemplate(templateId, userId);
+
+    const deleted = listTemplateRepo.deleteTemplate(templateId);
+    if (!deleted) {
+        throw new Error("NOT_FOUND: Template not found");
+    }
+}
+
+// ========== Shopping List ==========
+
+/**
+ * Snapshot the unchecked items of a store's shopping list as a new household template.
+ * Ideas (note-only rows) are left out; requires household membership and store access.
+ */
+export function saveListAsTemplate(
+    householdId: string,
+    storeId: string,
+    name: string,
+    userId: string
+): ListTemplateWithItems {
+    verifyHouseholdMember(householdId, userId);
+    verifyStoreAccess(storeId, userId);
+
+    const items = shoppingListRepo
+        .getShoppingListItems(storeId)
+        .filter((item) => !item.isChecked && !item.isIdea && item.itemName)
+        .map((item) => ({
+            name: item.itemName!,
+            qty: item.qty,
+            unitId: item.unitId,
+            notes: item.notes,
+        }));
+
+    if (items.length === 0) {
+        throw new Error("VALIDATION_ERROR: The shopping list has no unchecked items to save");
+    }
+    if (items.length > MAX_LIST_TEMPLATE_ITEMS) {
+        throw new Error(
+            `VALIDATION_ERROR: A template can have at most ${MAX_LIST_TEMPLATE_ITEMS} items`
+        );
+    }
+
+    return createTemplate(householdId, { name, items }, userId);
+}
+
+/**
+ * Add a template's items to a store's shopping list.
+ * Each item resolves to a StoreItem by name (created without a location when new) and is added
+ * with the template's qty/unit/notes. Items already on the list (unchecked) are skipped.
+ */
+export function applyTemplate(
+    templateId: string,
+    storeId: string,
+    userId: string
+): ApplyListTemplateResponse {
+    getAuthorizedTemplate(templateId, userId);
+    verifyStoreAccess(storeId, userId);
+
+    const result: ApplyListTemplateResponse = {
+        itemsAdded: 0,
+        itemsSkipped: 0,
+        added: [],
+        skipped: [],
+    };
+
+    db.transaction(() => {
+        for (const item of listTemplateRepo.getItemsByTemplate(templateId)) {
+            const storeItem = itemRepo.getOrCreateStoreItemByName({
+                storeId,
+                name: item.name,
+                createdById: userId,
+            });
+
+            if (shoppingListRepo.findUncheckedShoppingListItemByStoreItem(storeId, storeItem.id)) {
+                result.skipped.push(item.name);
+                result.itemsSkipped++;
+                continue;
+            }
+
+            const created = shoppingListRepo.upsertShoppingListItem({
+                storeId,
+                storeItemId: storeItem.id,
+                qty: item.qty,
+                unitId: item.unitId,
+                notes: item.notes,
+                userId,
+            });
+
+            result.added.push({
+                name: item.name,
+                storeItemId: storeItem.id,
+                shoppingListItemId: created.id,
+            });
+            result.itemsAdded++;
+        }
+    })();
+
+    for (const item of result.added) {
+        publishShoppingListItemEvent(storeId, item.shoppingListItemId, "added", userId);
+    }
+
+    return result;
+}
@@ -0,0 +1,64 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createStore, createUser } from "../../test/fixtures";
+import * as householdRepo from "../repos/householdRepo";
+import * as mealPlanService from "./mealPlanService";
+import * as recipeService from "./recipeService";
+
+const DATE = "2026-03-02";
+
+describe("planning a recipe", () => {
+    let userId: string;
+    let householdId: string;
+    let storeId: string;
+
+    beforeEach(() => {
+        userId = createUser().id;
+        householdId = householdRepo.createHousehold({ name: "Home", userId }).id;
+        storeId = createStore(userId).id;
+    });
+
+    const createRecipe = (servings: number | null) => {
+        const recipe = recipeService.createRecipe(householdId, { name: "Chili", servings }, userId);
+        recipeService.addIngredient(
+            recipe.id,
+            { name: "Beans", qty: 2, unitId: "can", sortOrder: 0 },
+            userId
+        );
+        return recipe;
+    };
+
+    const plan = (recipeId: string, servings?: number) =>
+        mealPlanService.createEntry(
+            householdId,
+            { date: DATE, slot: "dinner", recipeId, servings },
+            userId
+        );
+
+    const generateShoppingList = () =>
+        mealPlanService.generateShoppingList({
+            householdId,
+            storeId,
+            startDate: DATE,
+            endDate: DATE,
+            userId,
+        });
+
+    it("plans the recipe's yield when no servings are given", () => {
+        const recipe = createRecipe(4);
+
+        expect(plan(recipe.id).servings).toBe(4);
+        expect(plan(createRecipe(null).id).servings).toBe(1);
+    });
+
+    it("adds the recipe's own amounts for an unchanged entry", () => {
+        plan(createRecipe(4).id);
+
+        expect(generateShoppingList().unmatched).toMatchObject([{ name: "Beans", qty: 2 }]);
+    });
+
+    it("scales an entry from the recipe's yield to its servings", () => {
+        plan(createRecipe(4).id, 6);
+
+        expect(generateShoppingList().unmatched).toMatchObject([{ name: "Beans", qty: 3 }]);
+    });
+});
@@ -0,0 +1,174 @@
+import type {
+    AddRecipesToShoppingListResponse,
+    CreateMealPlanEntryRequest,
+    MealPlanEntryWithRecipe,
+    UpdateMealPlanEntryRequest,
+} from "@basket-bot/core";
+import { getServingsScaleFactor } from "@basket-bot/core";
+import * as householdRepo from "../repos/householdRepo";
+import * as mealPlanRepo from "../repos/mealPlanRepo";
+import * as recipeRepo from "../repos/recipeRepo";
+import * as recipeService from "./recipeService";
+
+// ========== Authorization Helpers ==========
+
+/**
+ * Verify user is a member of the household that owns the meal plan
+ */
+function verifyHouseholdMember(householdId: string, userId: string): void {
+    if (!householdRepo.userIsMember(householdId, userId)) {
+        throw new Error("FORBIDDEN: User is not a member of this household");
+    }
+}
+
+/**
+ * Load an entry and verify the user belongs to the household of its plan day
+ */
+function getAuthorizedEntry(entryId: string, userId: string) {
+    const entry = mealPlanRepo.getEntryById(entryId);
+    const mealPlan = entry ? mealPlanRepo.getMealPlanById(entry.mealPlanId) : null;
+    if (!entry || !mealPlan) {
+        throw new Error("NOT_FOUND: Meal plan entry not found");
+    }
+
+    verifyHouseholdMember(mealPlan.householdId, userId);
+    return { entry, mealPlan };
+}
+
+// ========== Meal Plan Entries ==========
+
+/**
+ * List planned meals for a household within an inclusive date range (requires membership)
+ */
+export function getEntries(params: {
+    householdId: string;
+    startDate: string;
+    endDate: string;
+    userId: string;
+}): MealPlanEntryWithRecipe[] {
+    verifyHouseholdMember(params.householdId, params.userId);
+
+    return mealPlanRepo.getEntriesByDateRange(params.householdId, params.startDate, params.endDate);
+}
+
+/**
+ * Plan a recipe for a household day and slot (requires membership)
+ * The recipe must belong to the same household; without servings, the entry plans the recipe's
+ * yield
+ */
+export function createEntry(
+    householdId: string,
+    input: CreateMealPlanEntryRequest,
+    userId: string
+): MealPlanEntryWithRecipe {
+    verifyHouseholdMember(householdId, userId);
+
+    const recipe = recipeRepo.getRecipeById(input.recipeId);
+    if (!recipe || recipe.householdId !== householdId) {
+        throw new Error("NOT_FOUND: Recipe not found");
+    }
+
+    const mealPlan = mealPlanRepo.getOrCreateMealPlan({
+        householdId,
+        date: input.date,
+        userId,
+    });
+
+    const entry = mealPlanRepo.createEntry({
+        mealPlanId: mealPlan.id,
+        recipeId: input.recipeId,
+        slot: input.slot,
+        servings: input.servings ?? recipe.servings ?? 1,
+        createdById: userId,
+    });
+
+    return mealPlanRepo.getEntryWithRecipeById(entry.id)!;
+}
+
+/**
+ * Change an entry's servings, or move it to another day/slot (requires membership)
+ */
+export function updateEntry(
+    entryId: string,
+    input: UpdateMealPlanEntryRequest,
+    userId: string
+): MealPlanEntryWithRecipe {
+    const { mealPlan } = getAuthorizedEntry(entryId, userId);
+
+    const targetPlan =
+        input.date && input.date !== mealPlan.date
+            ? mealPlanRepo.getOrCreateMealPlan({
+                  householdId: mealPlan.householdId,
+                  date: input.date,
+                  userId,
+              })
+            : mealPlan;
+
+    const updated = mealPlanRepo.updateEntry({
+        id: entryId,
+        mealPlanId: targetPlan.id,
+        slot: input.slot,
+        servings: input.servings,
+        updatedById: userId,
+    });
+
+    if (!updated) {
+        throw new Error("NOT_FOUND: Meal plan entry not found");
+    }
+
+    if (targetPlan.id !== mealPlan.id) {
+        mealPlanRepo.deleteMealPlanIfEmpty(mealPlan.id);
+    }
+
+    return mealPlanRepo.getEntryWithRecipeById(entryId)!;
+}
+
+/**
+ * Remove a recipe from the plan (requires membership)
+ */
+export function deleteEntry(entryId: string, userId: string): void {
+    const { mealPlan } = getAuthorizedEntry(entryId, userId);
+
+    const deleted = mealPlanRepo.deleteEntry(entryId);
+    if (!deleted) {
+        throw new Error("NOT_FOUND: Meal plan entry not found");
+    }
+
+    mealPlanRepo.deleteMealPlanIfEmpty(mealPlan.id);
+}
+
+// ========== Shopping List Generation ==========
+
+/**
+ * Add the ingredients of every recipe planned in the date range to a store's shopping list
+ * (requires household membership and store access)
+ * Each entry is scaled from the recipe's yield to its planned servings when the yield is known
+ */
+export function generateShoppingList(params: {
+    householdId: string;
+    storeId: string;
+    startDate: string;
+    endDate: string;
+    userId: string;
+}): AddRecipesToShoppingListResponse {
+    const entries = getEntries(params);
+
+    const recipeServings = new Map<string, number | null>();
+    for (const entry of entries) {
+        if (!recipeServings.has(entry.recipeId)) {
+            recipeServings.set(
+                entry.recipeId,
+                recipeRepo.getRecipeById(entry.recipeId)?.servings ?? null
+            );
+        }
+    }
+
+    return recipeService.addRecipeIngredientsToShoppingList(
+        entries.map((entry) => ({
+            recipeId: entry.recipeId,
+            scale: getServingsScaleFactor(recipeServings.get(entry.recipeId), entry.servings),
+        })),
+        params.storeId,
+        params.userId
+    );
+}
@@ -0,0 +1,107 @@
+import { PASSWORD_RESET_TOKEN_TTL_SECONDS, PasswordResetTokenError } from "@basket-bot/core";
+import { createHash, randomBytes } from "crypto";
+import { sendMail } from "../mail/mailer";
+import * as passwordResetTokenRepo from "../repos/passwordResetTokenRepo";
+import * as userRepo from "../repos/userRepo";
+import * as apiTokenService from "./apiTokenService";
+import * as sessionService from "./sessionService";
+
+/**
+ * Service layer for "forgot password": a single-use, expiring token is emailed to the account
+ * and exchanged for a new password. Requesting a token never reveals whether an account exists.
+ */
+
+// Where the mobile/web app is served; reset emails link to its /reset-password page
+const APP_URL = process.env.APP_URL || "";
+
+function hashToken(token: string): string {
+    return createHash("sha256").update(token).digest("hex");
+}
+
+function buildResetEmail(name: string, token: string): string {
+    const minutes = Math.round(PASSWORD_RESET_TOKEN_TTL_SECONDS / 60);
+    const lines = [
+        `Hi ${name},`,
+        "",
+        "Someone (hopefully you) asked to reset the password for your Basket Bot account.",
+        "",
+    ];
+
+    if (APP_URL) {
+        lines.push(
+            "Open this link to choose a new password:",
+            `${APP_URL.replace(/\/$/, "")}/reset-password?token=${token}`,
+            "",
+            "Or enter this reset code in the app:"
+        );
+    } else {
+        lines.push("Enter this reset code in the app to choose a new password:");
+    }
+
+    lines.push(
+        token,
+        "",
+        `The code works once and expires in ${minutes} minutes.`,
+        "If you didn't ask for a reset, ignore this email; your password stays the same."
+    );
+
+    return lines.join("\n");
+}
+
+/**
+ * Email a reset token to the account with this email, if there is one. Any earlier token of the
+ * account stops working.
+ */
+export function requestPasswordReset(email: string): void {
+    const user = userRepo.getUserByEmail(email);
+    if (!user) return;
+
+    const token = randomBytes(24).toString("base64url");
+    passwordResetTokenRepo.replacePasswordResetToken({
+        userId: user.id,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + PASSWORD_RESET_TOKEN_TTL_SECONDS * 1000).toISOString(),
+    });
+
+    // Sent in the background so that the response time doesn't tell whether the account exists
+    sendMail({
+        to: user.email,
+        subject: "Reset your Basket Bot password",
+        text: buildResetEmail(user.name, token),
+    }).catch((error) => {
+        console.error("Failed to send password reset email:", error);
+    });
+}
+
+/**
+ * Set a new password with a reset token; the token is spent and every session of the account
+ * is signed out
+ */
+export async function confirmPasswordReset(token: string, newPassword: string): Promise<void> {
+    const record = passwordResetTokenRepo.getPasswordResetTokenByHash(hashToken(token));
+
+    if (!record || record.usedAt) {
+        throw new PasswordResetTokenError(
+            "INVALID_RESET_TOKEN",
+            "This reset code is invalid or was already used"
+        );
+    }
+
+    if (new Date(record.expiresAt) <= new Date()) {
+        throw new PasswordResetTokenError("RESET_TOKEN_EXPIRED", "This reset code has expired");
+    }
+
+    // Claim the token first so that two requests with it can't both succeed
+    if (!passwordResetTokenRepo.markPasswordResetTokenUsed(record.id)) {
+        throw new PasswordResetTokenError(
+            "INVALID_RESET_TOKEN",
+            "This reset code is invalid or was already used"
+        );
+    }
+
+    await userRepo.setUserPassword(record.userId, newPassword);
+
+    // Whoever knew the old password may still be signed in, or have made API tokens
+    sessionService.endOtherSessions(record.userId, undefined);
+    apiTokenService.deleteAllApiTokens(record.userId);
+}
@@ -0,0 +1,30 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createUser } from "../../test/fixtures";
+import * as householdRepo from "../repos/householdRepo";
+import * as recipeService from "./recipeService";
+
+describe("getRecipes", () => {
+    let userId: string;
+    let householdId: string;
+
+    beforeEach(() => {
+        userId = createUser().id;
+        householdId = householdRepo.createHousehold({ name: "Home", userId }).id;
+    });
+
+    it("filters by all tags, ignoring repeated tag ids", () => {
+        const quick = recipeService.createTag(householdId, { name: "Quick" }, userId);
+        const vegan = recipeService.createTag(householdId, { name: "Vegan" }, userId);
+        const salad = recipeService.createRecipe(householdId, { name: "Salad" }, userId);
+        const pasta = recipeService.createRecipe(householdId, { name: "Pasta" }, userId);
+        recipeService.assignTagToRecipe(salad.id, quick.id, userId);
+        recipeService.assignTagToRecipe(salad.id, vegan.id, userId);
+        recipeService.assignTagToRecipe(pasta.id, quick.id, userId);
+
+        const recipes = (tagIds: string[]) =>
+            recipeService.getRecipes({ householdId, userId, tagIds }).map((r) => r.name);
+
+        expect(recipes([quick.id, quick.id])).toEqual(["Pasta", "Salad"]);
+        expect(recipes([quick.id, vegan.id, vegan.id])).toEqual(["Salad"]);
+    });
+});
@@ -0,0 +1,560 @@
+import type {
+    AddRecipeIngredientRequest,
+    AddRecipesToShoppingListResponse,
+    AddRecipesToShoppingListResultItem,
+    CreateRecipeRequest,
+    CreateRecipeTagRequest,
+    Recipe,
+    RecipeIngredient,
+    RecipeTag,
+    RecipeWithDetails,
+    UpdateRecipeIngredientRequest,
+    UpdateRecipeRequest,
+    UpdateRecipeTagRequest,
+} from "@basket-bot/core";
+import { canConvert, sumQuantities, type Quantity } from "@basket-bot/core";
+import { publishShoppingListItemEvent } from "../events/storeEvents";
+import * as householdRepo from "../repos/householdRepo";
+import * as itemRepo from "../repos/itemRepo";
+import * as recipeIngredientRepo from "../repos/recipeIngredientRepo";
+import * as recipeRepo from "../repos/recipeRepo";
+import * as recipeTagRepo from "../repos/recipeTagRepo";
+import * as shoppingListRepo from "../repos/shoppingListRepo";
+import * as storeRepo from "../repos/storeRepo";
+import { normalizeItemName } from "../utils/stringUtils";
+
+// ========== Authorization Helpers ==========
+
+/**
+ * Verify user is a member of the household that owns recipes/tags
+ */
+function verifyHouseholdMember(householdId: string, userId: string): void {
+    if (!householdRepo.userIsMember(householdId, userId)) {
+        throw new Error("FORBIDDEN: User is not a member of this household");
+    }
+}
+
+/**
+ * Load a recipe and verify the user belongs to its household
+ */
+function getAuthorizedRecipe(recipeId: string, userId: string): Recipe {
+    const recipe = recipeRepo.getRecipeById(recipeId);
+    if (!recipe) {
+        throw new Error("NOT_FOUND: Recipe not found");
+    }
+
+    verifyHouseholdMember(recipe.householdId, userId);
+    return recipe;
+}
+
+/**
+ * Load a tag and verify the user belongs to its household
+ */
+function getAuthorizedTag(tagId: string, userId: string): RecipeTag {
+    const tag = recipeTagRepo.getTagById(tagId);
+    if (!tag) {
+        throw new Error("NOT_FOUND: Tag not found");
+    }
+
+    verifyHouseholdMember(tag.householdId, userId);
+    return tag;
+}
+
+/**
+ * Load an ingredient and verify it belongs to the given (authorized) recipe
+ */
+function getAuthorizedIngredient(
+    recipeId: string,
+    ingredientId: string,
+    userId: string
+): RecipeIngredient {
+    getAuthorizedRecipe(recipeId, userId);
+
+    const ingredient = recipeIngredientRepo.getIngredientById(ingredientId);
+    if (!ingredient || ingredient.recipeId !== recipeId) {
+        throw new Error("NOT_FOUND: Ingredient not found");
+    }
+
+    return ingredient;
+}
+
+/**
+ * Ensure no other tag in the household already uses this name (case-insensitive)
+ */
+function verifyTagNameAvailable(householdId: string, name: string, excludeTagId?: string): void {
+    const nameLower = name.toLowerCase();
+    const duplicate = recipeTagRepo
+        .getTagsByHousehold(householdId)
+        .find((tag) => tag.id !== excludeTagId && tag.name.toLowerCase() === nameLower);
+
+    if (duplicate) {
+        throw new Error(`CONFLICT: A tag named "${duplicate.name}" already exists`);
+    }
+}
+
+// ========== Recipes ==========
+
+/**
+ * List recipes for a household (requires membership)
+ * When tagIds are given, only visible recipes having ALL the tags (tagMode "all", default)
+ * or ANY of the tags (tagMode "any") are returned
+ */
+export function getRecipes(params: {
+    householdId: string;
+    userId: string;
+    tagIds?: string[];
+    tagMode?: "all" | "any";
+    includeHidden?: boolean;
+}): Recipe[] {
+    verifyHouseholdMember(params.householdId, params.userId);
+
+    // "All" matching counts distinct tags, so a repeated id would never match
+    const tagIds = [...new Set(params.tagIds ?? [])];
+    if (tagIds.length > 0) {
+        return params.tagMode === "any"
+            ? recipeRepo.searchRecipesByAnyTag(params.householdId, tagIds)
+            : recipeRepo.searchRecipesByTags(params.householdId, tagIds);
+    }
+
+    return recipeRepo.getRecipesByHousehold(params.householdId, params.includeHidden ?? false);
+}
+
+/**
+ * Get a recipe with its tags and ingredients (requires membership)
+ */
+export function getRecipeWithDetails(recipeId: string, userId: string): RecipeWithDetails {
+    getAuthorizedRecipe(recipeId, userId);
+
+    const recipe = recipeRepo.getRecipeWithDetails(recipeId);
+    if (!recipe) {
+        throw new Error("NOT_FOUND: Recipe not found");
+    }
+
+    return recipe;
+}
+
+/**
+ * Create a recipe in a household (requires membership)
+ */
+export function createRecipe(
+    householdId: string,
+    input: CreateRecipeRequest,
+    userId: string
+): Recipe {
+    verifyHouseholdMember(householdId, userId);
+
+    return recipeRepo.createRecipe({
+        householdId,
+        ...input,
+        createdById: userId,
+    });
+}
+
+/**
+ * Update a recipe (requires membership)
+ */
+export function updateRecipe(recipeId: string, input: UpdateRecipeRequest, userId: string): Recipe {
+    getAuthorizedRecipe(recipeId, userId);
+
+    const updated = recipeRepo.updateRecipe({
+        id: recipeId,
+        ...input,
+        updatedById: userId,
+    });
+
+    if (!updated) {
+        throw new Error("NOT_FOUND: Recipe not found");
+    }
+
+    return updated;
+}
+
+/**
+ * Delete a recipe along with its ingredients and tag assignments (requires membership)
+ */
+export function deleteRecipe(recipeId: string, userId: string): void {
+    getAuthorizedRecipe(recipeId, userId);
+
+    const deleted = recipeRepo.deleteRecipe(recipeId);
+    if (!deleted) {
+        throw new Error("NOT_FOUND: Recipe not found");
+    }
+}
+
+/**
+ * Hide or unhide a recipe (requires membership)
+ */
+export function setRecipeHidden(recipeId: string, isHidden: boolean, userId: string): Recipe {
+    getAuthorizedRecipe(recipeId, userId);
+
+    const updated = isHidden
+        ? recipeRepo.hideRecipe(recipeId, userId)
+        : recipeRepo.unhideRecipe(recipeId, userId);
+
+    if (!updated) {
+        throw new Error("NOT_FOUND: Recipe not found");
+    }
+
+    return updated;
+}
+
+// ========== Ingredients ==========
+
+/**
+ * Add an ingredient to a recipe (requires membership)
+ */
+export function addIngredient(
+    recipeId: string,
+    input: AddRecipeIngredientRequest,
+    userId: string
+): RecipeIngredient {
+    getAuthorizedRecipe(recipeId, userId);
+
+    return recipeIngredientRepo.addIngredient({
+        recipeId,
+        ...input,
+        createdById: userId,
+    });
+}
+
+/**
+ * Update a recipe ingredient (requires membership)
+ */
+export function updateIngredient(
+    recipeId: string,
+    ingredientId: string,
+    input: UpdateRecipeIngredientRequest,
+    userId: string
+): RecipeIngredient {
+    getAuthorizedIngredient(recipeId, ingredientId, userId);
+
+    const updated = recipeIngredientRepo.updateIngredient({
+        id: ingredientId,
+        ...input,
+        updatedById: userId,
+    });
+
+    if (!updated) {
+        throw new Error("NOT_FOUND: Ingredient not found");
+    }
+
+    return updated;
+}
+
+/**
+ * Delete a recipe ingredient (requires membership)
+ */
+export function deleteIngredient(recipeId: string, ingredientId: string, userId: string): void {
+    getAuthorizedIngredient(recipeId, ingredientId, userId);
+
+    const deleted = recipeIngredientRepo.deleteIngredient(ingredientId);
+    if (!deleted) {
+        throw new Error("NOT_FOUND: Ingredient not found");
+    }
+}
+
+/**
+ * Reorder a recipe's ingredients (requires membership)
+ * Updates are applied in ascending sortOrder, producing a contiguous 0-indexed order
+ */
+export function reorderIngredients(
+    recipeId: string,
+    updates: Array<{ id: string; sortOrder: number }>,
+    userId: string
+): RecipeIngredient[] {
+    getAuthorizedRecipe(recipeId, userId);
+
+    const existingIds = new Set(
+        recipeIngredientRepo.getIngredientsByRecipe(recipeId).map((ingredient) => ingredient.id)
+    );
+    if (updates.some((update) => !existingIds.has(update.id))) {
+        throw new Error("NOT_FOUND: Ingredient not found");
+    }
+
+    const orderedIds = [...updates]
+        .sort((a, b) => a.sortOrder - b.sortOrder)
+        .map((update) => update.id);
+    recipeIngredientRepo.reorderIngredients(recipeId, orderedIds);
+
+    return recipeIngredientRepo.getIngredientsByRecipe(recipeId);
+}
+
+// ========== Tags ==========
+
+/**
+ * List tags for a household (requires membership)
+ */
+export function getTags(householdId: string, userId: string): RecipeTag[] {
+    verifyHouseholdMember(householdId, userId);
+    return recipeTagRepo.getTagsByHousehold(householdId);
+}
+
+/**
+ * Create a tag in a household (requires membership, name must be unique)
+ */
+export function createTag(
+    householdId: string,
+    input: CreateRecipeTagRequest,
+    userId: string
+): RecipeTag {
+    verifyHouseholdMember(householdId, userId);
+    verifyTagNameAvailable(householdId, input.name);
+
+    return recipeTagRepo.createTag({
+        householdId,
+        ...input,
+        createdById: userId,
+    });
+}
+
+/**
+ * Update a tag's name or color (requires membership)
+ */
+export function updateTag(tagId: string, input: UpdateRecipeTagRequest, userId: string): RecipeTag {
+    const tag = getAuthorizedTag(tagId, userId);
+    if (input.name !== undefined) {
+        verifyTagNameAvailable(tag.householdId, input.name, tagId);
+    }
+
+    const updated = recipeTagRepo.updateTag({ id: tagId, ...input });
+    if (!updated) {
+        throw new Error("NOT_FOUND: Tag not found");
+    }
+
+    return updated;
+}
+
+/**
+ * Delete a tag and all its assignments (requires membership)
+ */
+export function deleteTag(tagId: string, userId: string): void {
+    getAuthorizedTag(tagId, userId);
+
+    const deleted = recipeTagRepo.deleteTag(tagId);
+    if (!deleted) {
+        throw new Error("NOT_FOUND: Tag not found");
+    }
+}
+
+/**
+ * Assign a tag to a recipe (both must belong to the same household)
+ */
+export function assignTagToRecipe(recipeId: string, tagId: string, userId: string): RecipeTag[] {
+    const recipe = getAuthorizedRecipe(recipeId, userId);
+
+    const tag = recipeTagRepo.getTagById(tagId);
+    if (!tag || tag.householdId !== recipe.householdId) {
+        throw new Error("NOT_FOUND: Tag not found");
+    }
+
+    const currentTags = recipeTagRepo.getTagsForRecipe(recipeId);
+    if (currentTags.some((current) => current.id === tagId)) {
+        throw new Error("CONFLICT: Tag is already assigned to this recipe");
+    }
+
+    recipeTagRepo.assignTagToRecipe(recipeId, tagId);
+    return recipeTagRepo.getTagsForRecipe(recipeId);
+}
+
+/**
+ * Remove a tag from a recipe (requires membership)
+ */
+export function removeTagFromRecipe(recipeId: string, tagId: string, userId: string): void {
+    getAuthorizedRecipe(recipeId, userId);
+
+    const removed = recipeTagRepo.removeTagFromRecipe(recipeId, tagId);
+    if (!removed) {
+        throw new Error("NOT_FOUND: Tag is not assigned to this recipe");
+    }
+}
+
+// ========== Add to Shopping List ==========
+
+/**
+ * Amount of an existing shopping list row after adding a recipe line to it, in the row's unit.
+ * A row without qty/unit adopts the incoming amount; null when the units cannot be combined.
+ */
+function mergeListQuantity(existing: Quantity, incoming: Quantity): Quantity | null {
+    if (existing.unitId == null && existing.qty == null) {
+        return { qty: incoming.qty, unitId: incoming.unitId };
+    }
+    if (!canConvert(incoming.unitId, existing.unitId)) {
+        return null;
+    }
+    return sumQuantities([existing, incoming])[0];
+}
+
+/**
+ * Add the ingredients of several recipes to a store's shopping list.
+ *
+ * Ingredients are aggregated across recipes by normalized name, summing convertible units
+ * (500 g + 1 lb) into one line and keeping incompatible ones (2 count vs 1 lb) as separate lines.
+ * Each line is resolved to a StoreItem by name. Lines whose store item is already on the list
+ * (unchecked) are merged into that row when the units convert; otherwise a new row is created.
+ * Store items that did not exist yet are created without a location and reported as unmatched.
+ * Optional scaleFactors (keyed by recipe id) multiply that recipe's ingredient quantities.
+ */
+export function addRecipesToShoppingList(
+    recipeIds: string[],
+    storeId: string,
+    userId: string,
+    scaleFactors: Record<string, number> = {}
+): AddRecipesToShoppingListResponse {
+    return addRecipeIngredientsToShoppingList(
+        [...new Set(recipeIds)].map((recipeId) => ({
+            recipeId,
+            scale: scaleFactors[recipeId] ?? 1,
+        })),
+        storeId,
+        userId
+    );
+}
+
+/**
+ * Same as addRecipesToShoppingList, but takes one source per use of a recipe: every
+ * occurrence contributes its ingredients again (a recipe planned for two dinners needs
+ * twice the groceries), multiplied by that occurrence's scale factor
+ */
+export function addRecipeIngredientsToShoppingList(
+    sources: Array<{ recipeId: string; scale: number }>,
+    storeId: string,
+    userId: string
+): AddRecipesToShoppingListResponse {
+    if (!storeRepo.userHasAccessToStore(userId, storeId)) {
+        throw new Error("FORBIDDEN: User does not have access to this store");
+    }
+
+    // Collect ingredient amounts per normalized name across recipes
+    const groups = new Map<
+        string,
+        {
+            name: string;
+            amounts: Array<{ qty: number | null; unitId: string | null; recipeId: string }>;
+        }
+    >();
+
+    const ingredientsByRecipe = new Map<string, RecipeIngredient[]>();
+    for (const { recipeId, scale } of sources) {
+        if (!ingredientsByRecipe.has(recipeId)) {
+            getAuthorizedRecipe(recipeId, userId);
+            ingredientsByRecipe.set(
+                recipeId,
+                recipeIngredientRepo.getIngredientsByRecipe(recipeId)
+            );
+        }
+
+        for (const ingredient of ingredientsByRecipe.get(recipeId)!) {
+            const nameNorm = normalizeItemName(ingredient.name);
+            const amount = {
+                qty: ingredient.qty == null ? null : ingredient.qty * scale,
+                unitId: ingredient.unitId,
+                recipeId,
+            };
+
+            const group = groups.get(nameNorm);
+            if (group) {
+                group.amounts.push(amount);
+            } else {
+                groups.set(nameNorm, { name: ingredient.name.trim(), amounts: [amount] });
+            }
+        }
+    }
+
+    // One line per name and compatible unit group
+    const lines: Array<{
+        name: string;
+        nameNorm: string;
+        qty: number | null;
+        unitId: string | null;
+        recipeIds: string[];
+    }> = [];
+
+    for (const [nameNorm, group] of groups) {
+        for (const total of sumQuantities(group.amounts)) {
+            const recipeIds = group.amounts
+                .filter((amount) => canConvert(amount.unitId, total.unitId))
+                .map((amount) => amount.recipeId);
+
+            lines.push({
+                name: group.name,
+                nameNorm,
+                qty: total.qty,
+                unitId: total.unitId,
+                recipeIds: [...new Set(recipeIds)],
+            });
+        }
+    }
+
+    const result: AddRecipesToShoppingListResponse = {
+        itemsCreated: 0,
+        itemsMerged: 0,
+        created: [],
+        merged: [],
+        unmatched: [],
+    };
+
+    for (const line of lines) {
+        const matchedItem = itemRepo.findItemByNameNorm(storeId, line.nameNorm, "");
+        const storeItem =
+            matchedItem ??
+            itemRepo.getOrCreateStoreItemByName({
+                storeId,
+                name: line.name,
+                createdById: userId,
+            });
+
+        const resultItem: Omit<AddRecipesToShoppingListResultItem, "shoppingListItemId"> = {
+            name: line.name,
+            qty: line.qty,
+            unitId: line.unitId,
+            recipeIds: line.recipeIds,
+            storeItemId: storeItem.id,
+        };
+
+        const existing = matchedItem
+            ? shoppingListRepo.findUncheckedShoppingListItemByStoreItem(storeId, storeItem.id)
+            : null;
+
+        const mergedQuantity = existing ? mergeListQuantity(existing, line) : null;
+
+        if (existing && mergedQuantity) {
+            const updated = shoppingListRepo.upsertShoppingListItem({
+                id: existing.id,
+                storeId,
+                storeItemId: existing.storeItemId,
+                qty: mergedQuantity.qty,
+                unitId: mergedQuantity.unitId,
+                notes: existing.notes,
+                isChecked: existing.isChecked,
+                isIdea: existing.isIdea,
+                isSample: existing.isSample,
+                isUnsure: existing.isUnsure,
+                snoozedUntil: existing.snoozedUntil,
+                userId,
+            });
+
+            publishShoppingListItemEvent(storeId, updated.id, "updated", userId);
+            result.merged.push({ ...resultItem, shoppingListItemId: updated.id });
+            result.itemsMerged++;
+            continue;
+        }
+
+        const created = shoppingListRepo.upsertShoppingListItem({
+            storeId,
+            storeItemId: storeItem.id,
+            qty: line.qty,
+            unitId: line.unitId,
+            userId,
+        });
+
+        publishShoppingListItemEvent(storeId, created.id, "added", userId);
+        if (matchedItem) {
+            result.created.push({ ...resultItem, shoppingListItemId: created.id });
+        } else {
+            result.unmatched.push({ ...resultItem, shoppingListItemId: created.id });
+        }
+        result.itemsCreated++;
+    }
+
+    return result;
+}
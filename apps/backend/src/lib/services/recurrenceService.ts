@@ -0,0 +1,163 @@
+import type {
+    SetStoreItemRecurrenceRequest,
+    StoreItemRecurrence,
+    StoreItemRecurrenceWithStatus,
+} from "@basket-bot/core";
+import { db } from "../db/db";
+import { publishShoppingListItemEvent } from "../events/storeEvents";
+import * as itemRepo from "../repos/itemRepo";
+import * as purchaseEventRepo from "../repos/purchaseEventRepo";
+import * as recurrenceRepo from "../repos/recurrenceRepo";
+import * as shoppingListRepo from "../repos/shoppingListRepo";
+import * as storeRepo from "../repos/storeRepo";
+
+/**
+ * Service layer for recurring (auto-replenished) store items.
+ * Due items are re-added to the shopping list as unsure suggestions by a scheduled job.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How many recent purchases a learned interval averages over
+const LEARNING_WINDOW = 10;
+
+function verifyStoreAccess(storeId: string, userId: string): void {
+    if (!storeRepo.userHasAccessToStore(userId, storeId)) {
+        throw new Error("Access denied");
+    }
+}
+
+/**
+ * Verify the store item exists in the store; returns false when it does not
+ */
+function itemBelongsToStore(storeItemId: string, storeId: string): boolean {
+    const item = itemRepo.getItemById(storeItemId);
+    return !!item && item.storeId === storeId;
+}
+
+/**
+ * Interval, last purchase, and next due date of a recurrence.
+ * A learned interval is the average gap between recent purchases (needs at least two).
+ * The next cycle starts from the latest of: last purchase, last suggestion, recurrence creation.
+ */
+function withStatus(recurrence: StoreItemRecurrence): StoreItemRecurrenceWithStatus {
+    const purchaseTimes = purchaseEventRepo.getRecentPurchaseTimes(
+        recurrence.storeItemId,
+        LEARNING_WINDOW
+    );
+    const lastPurchasedAt = purchaseTimes[0] ?? null;
+
+    let effectiveIntervalDays: number | null = null;
+    if (recurrence.mode === "fixed") {
+        effectiveIntervalDays = recurrence.intervalDays;
+    } else if (purchaseTimes.length >= 2) {
+        const newest = new Date(purchaseTimes[0]).getTime();
+        const oldest = new Date(purchaseTimes[purchaseTimes.length - 1]).getTime();
+        const averageDays = (newest - oldest) / (purchaseTimes.length - 1) / DAY_MS;
+        // Same-day duplicates would make the item due immediately; never recur more than daily
+        effectiveIntervalDays = Math.max(1, Math.round(averageDays * 10) / 10);
+    }
+
+    let nextDueAt: string | null = null;
+    if (effectiveIntervalDays !== null) {
+        const cycleStart = Math.max(
+            ...[lastPurchasedAt ?? recurrence.createdAt, recurrence.lastSuggestedAt]
+                .filter((time): time is string => time !== null)
+                .map((time) => new Date(time).getTime())
+        );
+        nextDueAt = new Date(cycleStart + effectiveIntervalDays * DAY_MS).toISOString();
+    }
+
+    return { ...recurrence, effectiveIntervalDays, lastPurchasedAt, nextDueAt };
+}
+
+// ========== Item Recurrence ==========
+
+/**
+ * Recurrence of a store item with its computed schedule, or null when none is set
+ */
+export function getItemRecurrence(
+    storeId: string,
+    storeItemId: string,
+    userId: string
+): StoreItemRecurrenceWithStatus | null {
+    verifyStoreAccess(storeId, userId);
+
+    const recurrence = recurrenceRepo.getRecurrence(storeItemId);
+    return recurrence && recurrence.storeId === storeId ? withStatus(recurrence) : null;
+}
+
+/**
+ * Set (or replace) the recurrence of a store item; null when the item is not in the store
+ */
+export function setItemRecurrence(
+    storeId: string,
+    storeItemId: string,
+    input: SetStoreItemRecurrenceRequest,
+    userId: string
+): StoreItemRecurrenceWithStatus | null {
+    verifyStoreAccess(storeId, userId);
+    if (!itemBelongsToStore(storeItemId, storeId)) return null;
+
+    const recurrence = recurrenceRepo.upsertRecurrence({
+        storeItemId,
+        storeId,
+        mode: input.mode,
+        intervalDays: input.mode === "fixed" ? (input.intervalDays ?? null) : null,
+        userId,
+    });
+    return withStatus(recurrence);
+}
+
+/**
+ * Stop a store item from recurring; false when it had no recurrence
+ */
+export function clearItemRecurrence(storeId: string, storeItemId: string, userId: string): boolean {
+    verifyStoreAccess(storeId, userId);
+    if (!itemBelongsToStore(storeItemId, storeId)) return false;
+
+    return recurrenceRepo.deleteRecurrence(storeItemId);
+}
+
+// ========== Scheduled Job ==========
+
+/**
+ * Re-add every due recurring item to its store's shopping list, flagged unsure as a suggestion.
+ * Items already waiting on the list are left alone. Runs without a user; the suggestion is
+ * attributed to whoever last set the recurrence. Returns how many items were added.
+ */
+export function addDueRecurringItems(now: Date = new Date()): number {
+    let added = 0;
+
+    for (const recurrence of recurrenceRepo.getActiveRecurrences()) {
+        const { nextDueAt } = withStatus(recurrence);
+        if (!nextDueAt || new Date(nextDueAt).getTime() > now.getTime()) continue;
+
+        const alreadyListed = shoppingListRepo.findUncheckedShoppingListItemByStoreItem(
+            recurrence.storeId,
+            recurrence.storeItemId
+        );
+        if (alreadyListed) continue;
+
+        const suggested = db.transaction(() => {
+            const item = shoppingListRepo.upsertShoppingListItem({
+                storeId: recurrence.storeId,
+                storeItemId: recurrence.storeItemId,
+                isUnsure: true,
+                userId: recurrence.updatedById,
+            });
+            recurrenceRepo.markRecurrenceSuggested(recurrence.storeItemId, now.toISOString());
+            return item;
+        })();
+
+        publishShoppingListItemEvent(
+            recurrence.storeId,
+            suggested.id,
+            "added",
+            recurrence.updatedById
+        );
+        added++;
+    }
+
+    return added;
+}
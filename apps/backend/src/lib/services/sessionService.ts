@@ -0,0 +1,150 @@
+import {
+    type AuthSession,
+    MAX_USER_AGENT_LENGTH,
+    RefreshTokenError,
+    REFRESH_TOKEN_REUSE_GRACE_SECONDS,
+} from "@basket-bot/core";
+import { generateRefreshToken, getRefreshTokenExpiry } from "../auth/jwt";
+import * as refreshTokenRepo from "../repos/refreshTokenRepo";
+
+/**
+ * Service layer for device sessions: one refresh token family per login. Each refresh replaces
+ * the token; a replaced token presented again ends the session (reuse detection), except
+ * briefly after the rotation, when it's taken to be a retry whose response was lost and is
+ * answered with the token that replaced it.
+ */
+
+function toUserAgent(userAgent: string | null): string | null {
+    return userAgent ? userAgent.slice(0, MAX_USER_AGENT_LENGTH) : null;
+}
+
+/**
+ * Start a session for a user who just signed in; returns its id and first refresh token
+ */
+export function startSession(params: {
+    userId: string;
+    deviceName?: string | null;
+    userAgent: string | null;
+    /** Signed in with a two-factor code as well as the password */
+    twoFactorVerified?: boolean;
+}): { sessionId: string; refreshToken: string } {
+    const refreshToken = generateRefreshToken();
+
+    const row = refreshTokenRepo.createRefreshToken({
+        userId: params.userId,
+        token: refreshToken,
+        expiresAt: getRefreshTokenExpiry().toISOString(),
+        deviceName: params.deviceName || null,
+        userAgent: toUserAgent(params.userAgent),
+        twoFactorVerified: params.twoFactorVerified ?? false,
+    });
+
+    return { sessionId: row.familyId, refreshToken };
+}
+
+/**
+ * The session's current token when the given one is presented: itself, or (within the grace
+ * period) the token that just replaced it. Throws when the token can't be used.
+ */
+function resolveCurrentToken(token: string): refreshTokenRepo.RefreshTokenRecord {
+    const row = refreshTokenRepo.getRefreshTokenByToken(token);
+    if (!row) {
+        throw new RefreshTokenError("INVALID_REFRESH_TOKEN", "Invalid refresh token");
+    }
+
+    if (new Date(row.expiresAt) < new Date()) {
+        throw new RefreshTokenError("REFRESH_TOKEN_EXPIRED", "Refresh token has expired");
+    }
+
+    if (!row.revokedAt) return row;
+
+    const successor = row.replacedById
+        ? refreshTokenRepo.getRefreshTokenById(row.replacedById)
+        : null;
+    const rotatedMs = Date.now() - new Date(row.revokedAt).getTime();
+    if (successor && !successor.revokedAt && rotatedMs < REFRESH_TOKEN_REUSE_GRACE_SECONDS * 1000) {
+        return successor;
+    }
+
+    refreshTokenRepo.deleteRefreshTokenFamily(row.familyId);
+    console.warn(
+        `[auth] Replaced refresh token reused; ended session ${row.familyId} of user ${row.userId}`
+    );
+    throw new RefreshTokenError(
+        "REFRESH_TOKEN_REUSED",
+        "Refresh token was already used; sign in again"
+    );
+}
+
+/**
+ * Replace a refresh token with a new one of the same session.
+ * Returns the user and session it belongs to and the new token.
+ */
+export function refreshSession(
+    token: string,
+    userAgent: string | null
+): { userId: string; sessionId: string; refreshToken: string; twoFactorVerified: boolean } {
+    const current = resolveCurrentToken(token);
+
+    // A retry gets the token its lost response carried rather than rotating again, which would
+    // leave whoever did receive that response holding a replaced token
+    if (current.token !== token) {
+        return {
+            userId: current.userId,
+            sessionId: current.familyId,
+            refreshToken: current.token,
+            twoFactorVerified: current.twoFactorVerified === 1,
+        };
+    }
+
+    const refreshToken = generateRefreshToken();
+
+    const next = refreshTokenRepo.rotateRefreshToken({
+        currentId: current.id,
+        token: refreshToken,
+        expiresAt: getRefreshTokenExpiry().toISOString(),
+        userAgent: toUserAgent(userAgent),
+    });
+    if (!next) {
+        throw new RefreshTokenError("INVALID_REFRESH_TOKEN", "Invalid refresh token");
+    }
+
+    return {
+        userId: next.userId,
+        sessionId: next.familyId,
+        refreshToken,
+        twoFactorVerified: next.twoFactorVerified === 1,
+    };
+}
+
+/**
+ * End the session a refresh token belongs to (logout). Unknown tokens are ignored.
+ */
+export function endSession(token: string, userId: string): void {
+    refreshTokenRepo.deleteRefreshTokenFamilyByToken(token, userId);
+}
+
+/**
+ * The user's sessions that can still be refreshed, most recently used first
+ */
+export function getSessions(userId: string, currentSessionId: string | undefined): AuthSession[] {
+    return refreshTokenRepo.getActiveSessionsByUser(userId).map((session) => ({
+        ...session,
+        isCurrent: session.id === currentSessionId,
+    }));
+}
+
+/**
+ * Sign one of the user's sessions out; returns false when the user has no such session
+ */
+export function endSessionById(sessionId: string, userId: string): boolean {
+    return refreshTokenRepo.deleteRefreshTokenFamilyForUser(sessionId, userId) > 0;
+}
+
+/**
+ * Sign out every session of the user except the current one (all of them when there's no
+ * current session); returns how many were ended
+ */
+export function endOtherSessions(userId: string, currentSessionId: string | undefined): number {
+    return refreshTokenRepo.deleteOtherRefreshTokenFamilies(userId, currentSessionId ?? null);
+}
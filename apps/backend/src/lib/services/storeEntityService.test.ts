@@ -0,0 +1,151 @@
+import { VersionConflictError } from "@basket-bot/core";
+import { beforeEach, describe, expect, it } from "vitest";
+import { createStore, createUser } from "../../test/fixtures";
+import * as storeEntityService from "./storeEntityService";
+
+const STALE_UPDATED_AT = "2000-01-01T00:00:00.000Z";
+
+describe("getStoreChanges", () => {
+    let userId: string;
+    let storeId: string;
+
+    beforeEach(() => {
+        userId = createUser().id;
+        storeId = createStore(userId).id;
+    });
+
+    const addListItem = (name: string, aisleId: string | null = null) => {
+        const item = storeEntityService.createItem({ storeId, name, aisleId, userId });
+        const row = storeEntityService.upsertShoppingListItem({
+            storeId,
+            storeItemId: item.id,
+            userId,
+        });
+        return { item, row };
+    };
+
+    it("starts with a full sync", () => {
+        const { row } = addListItem("Milk");
+
+        const changes = storeEntityService.getStoreChanges(storeId, 0, userId);
+
+        expect(changes.isFullSync).toBe(true);
+        expect(changes.shoppingListItems.changed.map((r) => r.id)).toEqual([row.id]);
+        expect(changes.cursor).toBeGreaterThan(0);
+    });
+
+    it("reports rows deleted after the cursor", () => {
+        const aisle = storeEntityService.createAisle({ storeId, name: "Dairy", userId });
+        const milk = addListItem("Milk");
+        const eggs = addListItem("Eggs", aisle.id);
+        addListItem("Bread");
+        const { cursor } = storeEntityService.getStoreChanges(storeId, 0, userId);
+
+        storeEntityService.deleteShoppingListItem(milk.row.id, storeId, userId);
+        storeEntityService.deleteAisle(aisle.id, storeId, userId);
+
+        const changes = storeEntityService.getStoreChanges(storeId, cursor, userId);
+
+        expect(changes.isFullSync).toBe(false);
+        expect(changes.cursor).toBeGreaterThan(cursor);
+        expect(changes.aisles).toEqual({ changed: [], deleted: [aisle.id] });
+        // The list row took its store item with it
+        expect(changes.shoppingListItems.deleted).toEqual([milk.row.id]);
+        expect(changes.items.deleted).toEqual([milk.item.id]);
+        // Eggs lost their aisle, so they changed too; bread is untouched
+        expect(changes.items.changed.map((i) => i.id)).toEqual([eggs.item.id]);
+        expect(changes.items.changed[0].aisleId).toBeNull();
+        expect(changes.shoppingListItems.changed.map((r) => r.id)).toEqual([eggs.row.id]);
+    });
+
+    it("returns nothing new once caught up", () => {
+        addListItem("Milk");
+        const { cursor } = storeEntityService.getStoreChanges(storeId, 0, userId);
+
+        const changes = storeEntityService.getStoreChanges(storeId, cursor, userId);
+
+        expect(changes.cursor).toBe(cursor);
+        expect(changes.shoppingListItems).toEqual({ changed: [], deleted: [] });
+        expect(changes.items).toEqual({ changed: [], deleted: [] });
+    });
+
+    it("leaves out other stores' changes", () => {
+        const { cursor } = storeEntityService.getStoreChanges(storeId, 0, userId);
+        const otherStoreId = createStore(userId, "Other Store").id;
+        storeEntityService.createItem({ storeId: otherStoreId, name: "Bread", userId });
+
+        const changes = storeEntityService.getStoreChanges(storeId, cursor, userId);
+
+        expect(changes.cursor).toBeGreaterThan(cursor);
+        expect(changes.items.changed).toEqual([]);
+    });
+
+    it("falls back to a full sync for a cursor it never issued", () => {
+        const { row } = addListItem("Milk");
+        const { cursor } = storeEntityService.getStoreChanges(storeId, 0, userId);
+
+        const changes = storeEntityService.getStoreChanges(storeId, cursor + 1000, userId);
+
+        expect(changes.isFullSync).toBe(true);
+        expect(changes.shoppingListItems.changed.map((r) => r.id)).toEqual([row.id]);
+    });
+
+    it("refuses users without access to the store", () => {
+        const stranger = createUser("Stranger").id;
+
+        expect(() => storeEntityService.getStoreChanges(storeId, 0, stranger)).toThrow(
+            "Access denied"
+        );
+    });
+});
+
+describe("optimistic concurrency", () => {
+    it("rejects an update made against an outdated copy, with the current one", () => {
+        const userId = createUser().id;
+        const storeId = createStore(userId).id;
+        const aisle = storeEntityService.createAisle({ storeId, name: "Dairy", userId });
+
+        let conflict: unknown;
+        try {
+            storeEntityService.updateAisle({
+                id: aisle.id,
+                storeId,
+                name: "Bakery",
+                userId,
+                expectedUpdatedAt: STALE_UPDATED_AT,
+            });
+        } catch (error) {
+            conflict = error;
+        }
+
+        expect(conflict).toBeInstanceOf(VersionConflictError);
+        expect((conflict as VersionConflictError).current).toMatchObject({
+            id: aisle.id,
+            name: "Dairy",
+        });
+        expect(storeEntityService.getAislesByStore(storeId, userId)[0].name).toBe("Dairy");
+    });
+
+    it("applies an update made against the current copy or without a version", () => {
+        const userId = createUser().id;
+        const storeId = createStore(userId).id;
+        const aisle = storeEntityService.createAisle({ storeId, name: "Dairy", userId });
+
+        const renamed = storeEntityService.updateAisle({
+            id: aisle.id,
+            storeId,
+            name: "Bakery",
+            userId,
+            expectedUpdatedAt: aisle.updatedAt,
+        });
+        const renamedAgain = storeEntityService.updateAisle({
+            id: aisle.id,
+            storeId,
+            name: "Produce",
+            userId,
+        });
+
+        expect(renamed?.name).toBe("Bakery");
+        expect(renamedAgain?.name).toBe("Produce");
+    });
+});
@@ -1,16 +1,30 @@
 import type {
     CheckConflictResult,
+    PurchaseEventWithDetails,
+    PurchaseHistoryQuery,
     ShoppingListItem,
     ShoppingListItemInput,
     ShoppingListItemWithDetails,
     StoreAisle,
+    StoreChangesResponse,
+    StoreEvent,
+    StoreEventEntity,
     StoreItem,
     StoreItemWithDetails,
     StoreSection,
 } from "@basket-bot/core";
+import { VersionConflictError } from "@basket-bot/core";
+import {
+    getStoreEventsSince,
+    publishShoppingListItemEvent,
+    publishStoreEvent,
+    subscribeToStore,
+} from "../events/storeEvents";
 import * as aisleRepo from "../repos/aisleRepo";
 import * as itemRepo from "../repos/itemRepo";
+import * as purchaseEventRepo from "../repos/purchaseEventRepo";
 import * as sectionRepo from "../repos/sectionRepo";
+import * as storeChangeRepo from "../repos/storeChangeRepo";
 import { normalizeItemName } from "../utils/stringUtils";
 import * as shoppingListRepo from "../repos/shoppingListRepo";
 import * as storeRepo from "../repos/storeRepo";
@@ -26,6 +40,20 @@ function verifyStoreAccess(storeId: string, userId: string): void {
     }
 }
 
+/**
+ * Reject an update made against an outdated copy of the entity (optimistic concurrency).
+ * Updates without an expected version apply unconditionally.
+ */
+function verifyVersion(
+    entity: StoreEventEntity,
+    current: { updatedAt: string } | null,
+    expectedUpdatedAt: string | null | undefined
+): void {
+    if (current && expectedUpdatedAt && current.updatedAt !== expectedUpdatedAt) {
+        throw new VersionConflictError(entity, current);
+    }
+}
+
 // ========== Aisle Operations ==========
 
 export function createAisle(params: { storeId: string; name: string; userId: string }): StoreAisle {
@@ -33,12 +61,22 @@ export function createAisle(params: { storeId: string; name: string; userId: str
 
     const maxOrder = aisleRepo.getMaxSortOrder(params.storeId);
 
-    return aisleRepo.createAisle({
+    const aisle = aisleRepo.createAisle({
         storeId: params.storeId,
         name: params.name,
         sortOrder: maxOrder + 1,
         createdById: params.userId,
     });
+
+    publishStoreEvent({
+        storeId: params.storeId,
+        entity: "aisle",
+        action: "added",
+        entityId: aisle.id,
+        data: aisle,
+        actorId: params.userId,
+    });
+    return aisle;
 }
 
 export function getAislesByStore(storeId: string, userId: string): StoreAisle[] {
@@ -51,14 +89,28 @@ export function updateAisle(params: {
     storeId: string;
     name: string;
     userId: string;
+    expectedUpdatedAt?: string | null;
 }): StoreAisle | null {
     verifyStoreAccess(params.storeId, params.userId);
+    verifyVersion("aisle", aisleRepo.getAisleById(params.id), params.expectedUpdatedAt);
 
-    return aisleRepo.updateAisle({
+    const aisle = aisleRepo.updateAisle({
         id: params.id,
         name: params.name,
         updatedById: params.userId,
     });
+
+    if (aisle) {
+        publishStoreEvent({
+            storeId: params.storeId,
+            entity: "aisle",
+            action: "updated",
+            entityId: aisle.id,
+            data: aisle,
+            actorId: params.userId,
+        });
+    }
+    return aisle;
 }
 
 export function updateAisleSortOrder(params: {
@@ -66,14 +118,28 @@ export function updateAisleSortOrder(params: {
     storeId: string;
     sortOrder: number;
     userId: string;
+    expectedUpdatedAt?: string | null;
 }): StoreAisle | null {
     verifyStoreAccess(params.storeId, params.userId);
+    verifyVersion("aisle", aisleRepo.getAisleById(params.id), params.expectedUpdatedAt);
 
-    return aisleRepo.updateAisleSortOrder({
+    const aisle = aisleRepo.updateAisleSortOrder({
         id: params.id,
         sortOrder: params.sortOrder,
         updatedById: params.userId,
     });
+
+    if (aisle) {
+        publishStoreEvent({
+            storeId: params.storeId,
+            entity: "aisle",
+            action: "updated",
+            entityId: aisle.id,
+            data: aisle,
+            actorId: params.userId,
+        });
+    }
+    return aisle;
 }
 
 export function reorderAisles(params: {
@@ -83,11 +149,29 @@ export function reorderAisles(params: {
 }): void {
     verifyStoreAccess(params.storeId, params.userId);
     aisleRepo.reorderAisles(params.updates);
+
+    publishStoreEvent({
+        storeId: params.storeId,
+        entity: "aisle",
+        action: "reordered",
+        actorId: params.userId,
+    });
 }
 
 export function deleteAisle(id: string, storeId: string, userId: string): boolean {
     verifyStoreAccess(storeId, userId);
-    return aisleRepo.deleteAisle(id);
+    const deleted = aisleRepo.deleteAisle(id);
+
+    if (deleted) {
+        publishStoreEvent({
+            storeId,
+            entity: "aisle",
+            action: "removed",
+            entityId: id,
+            actorId: userId,
+        });
+    }
+    return deleted;
 }
 
 // ========== Section Operations ==========
@@ -102,13 +186,23 @@ export function createSection(params: {
 
     const maxOrder = sectionRepo.getMaxSortOrder(params.aisleId);
 
-    return sectionRepo.createSection({
+    const section = sectionRepo.createSection({
         storeId: params.storeId,
         aisleId: params.aisleId,
         name: params.name,
         sortOrder: maxOrder + 1,
         createdById: params.userId,
     });
+
+    publishStoreEvent({
+        storeId: params.storeId,
+        entity: "section",
+        action: "added",
+        entityId: section.id,
+        data: section,
+        actorId: params.userId,
+    });
+    return section;
 }
 
 export function getSectionsByStore(storeId: string, userId: string): StoreSection[] {
@@ -122,15 +216,29 @@ export function updateSection(params: {
     name?: string;
     aisleId?: string;
     userId: string;
+    expectedUpdatedAt?: string | null;
 }): StoreSection | null {
     verifyStoreAccess(params.storeId, params.userId);
+    verifyVersion("section", sectionRepo.getSectionById(params.id), params.expectedUpdatedAt);
 
-    return sectionRepo.updateSection({
+    const section = sectionRepo.updateSection({
         id: params.id,
         name: params.name,
         aisleId: params.aisleId,
         updatedById: params.userId,
     });
+
+    if (section) {
+        publishStoreEvent({
+            storeId: params.storeId,
+            entity: "section",
+            action: "updated",
+            entityId: section.id,
+            data: section,
+            actorId: params.userId,
+        });
+    }
+    return section;
 }
 
 export function updateSectionLocation(params: {
@@ -139,15 +247,29 @@ export function updateSectionLocation(params: {
     aisleId: string;
     sortOrder: number;
     userId: string;
+    expectedUpdatedAt?: string | null;
 }): StoreSection | null {
     verifyStoreAccess(params.storeId, params.userId);
+    verifyVersion("section", sectionRepo.getSectionById(params.id), params.expectedUpdatedAt);
 
-    return sectionRepo.updateSectionLocation({
+    const section = sectionRepo.updateSectionLocation({
         id: params.id,
         aisleId: params.aisleId,
         sortOrder: params.sortOrder,
         updatedById: params.userId,
     });
+
+    if (section) {
+        publishStoreEvent({
+            storeId: params.storeId,
+            entity: "section",
+            action: "updated",
+            entityId: section.id,
+            data: section,
+            actorId: params.userId,
+        });
+    }
+    return section;
 }
 
 export function reorderSections(params: {
@@ -157,11 +279,29 @@ export function reorderSections(params: {
 }): void {
     verifyStoreAccess(params.storeId, params.userId);
     sectionRepo.reorderSections(params.updates);
+
+    publishStoreEvent({
+        storeId: params.storeId,
+        entity: "section",
+        action: "reordered",
+        actorId: params.userId,
+    });
 }
 
 export function deleteSection(id: string, storeId: string, userId: string): boolean {
     verifyStoreAccess(storeId, userId);
-    return sectionRepo.deleteSection(id);
+    const deleted = sectionRepo.deleteSection(id);
+
+    if (deleted) {
+        publishStoreEvent({
+            storeId,
+            entity: "section",
+            action: "removed",
+            entityId: id,
+            actorId: userId,
+        });
+    }
+    return deleted;
 }
 
 // ========== Item Operations ==========
@@ -175,13 +315,23 @@ export function createItem(params: {
 }): StoreItem {
     verifyStoreAccess(params.storeId, params.userId);
 
-    return itemRepo.createItem({
+    const item = itemRepo.createItem({
         storeId: params.storeId,
         name: params.name,
         aisleId: params.aisleId ?? null,
         sectionId: params.sectionId ?? null,
         createdById: params.userId,
     });
+
+    publishStoreEvent({
+        storeId: params.storeId,
+        entity: "store-item",
+        action: "added",
+        entityId: item.id,
+        data: item,
+        actorId: params.userId,
+    });
+    return item;
 }
 
 export function getItemsByStore(storeId: string, userId: string): StoreItem[] {
@@ -204,8 +354,10 @@ export function updateItem(params: {
     aisleId?: string | null;
     sectionId?: string | null;
     userId: string;
+    expectedUpdatedAt?: string | null;
 }): StoreItem | null {
     verifyStoreAccess(params.storeId, params.userId);
+    verifyVersion("store-item", itemRepo.getItemById(params.id), params.expectedUpdatedAt);
 
     const nameNorm = normalizeItemName(params.name);
     const conflict = itemRepo.findItemByNameNorm(params.storeId, nameNorm, params.id);
@@ -213,23 +365,58 @@ export function updateItem(params: {
         throw new Error(`ITEM_NAME_CONFLICT: An item named "${conflict.name}" already exists in this store.`);
     }
 
-    return itemRepo.updateItem({
+    const item = itemRepo.updateItem({
         id: params.id,
         name: params.name,
         aisleId: params.aisleId ?? null,
         sectionId: params.sectionId ?? null,
         updatedById: params.userId,
     });
+
+    if (item) {
+        publishStoreEvent({
+            storeId: params.storeId,
+            entity: "store-item",
+            action: "updated",
+            entityId: item.id,
+            data: item,
+            actorId: params.userId,
+        });
+    }
+    return item;
 }
 
 export function toggleItemFavorite(id: string, storeId: string, userId: string): StoreItem | null {
     verifyStoreAccess(storeId, userId);
-    return itemRepo.toggleItemFavorite(id, userId);
+    const item = itemRepo.toggleItemFavorite(id, userId);
+
+    if (item) {
+        publishStoreEvent({
+            storeId,
+            entity: "store-item",
+            action: "updated",
+            entityId: id,
+            data: item,
+            actorId: userId,
+        });
+    }
+    return item;
 }
 
 export function deleteItem(id: string, storeId: string, userId: string): boolean {
     verifyStoreAccess(storeId, userId);
-    return itemRepo.deleteItem(id);
+    const deleted = itemRepo.deleteItem(id);
+
+    if (deleted) {
+        publishStoreEvent({
+            storeId,
+            entity: "store-item",
+            action: "removed",
+            entityId: id,
+            actorId: userId,
+        });
+    }
+    return deleted;
 }
 
 export function searchStoreItems(
@@ -271,11 +458,18 @@ export function getShoppingListItems(
 }
 
 export function upsertShoppingListItem(
-    params: ShoppingListItemInput & { userId: string }
+    params: ShoppingListItemInput & { userId: string; expectedUpdatedAt?: string | null }
 ): ShoppingListItem {
     verifyStoreAccess(params.storeId, params.userId);
+    if (params.id) {
+        verifyVersion(
+            "shopping-list-item",
+            shoppingListRepo.getShoppingListItemWithDetailsById(params.id),
+            params.expectedUpdatedAt
+        );
+    }
 
-    return shoppingListRepo.upsertShoppingListItem({
+    const item = shoppingListRepo.upsertShoppingListItem({
         id: params.id,
         storeId: params.storeId,
         storeItemId: params.storeItemId ?? null,
@@ -289,6 +483,17 @@ export function upsertShoppingListItem(
         snoozedUntil: params.snoozedUntil ?? null,
         userId: params.userId,
     });
+
+    // Checking off (or unchecking) through an edit updates purchase history too
+    purchaseEventRepo.syncPurchaseForShoppingListItem(item.id);
+
+    publishShoppingListItemEvent(
+        item.storeId,
+        item.id,
+        params.id ? "updated" : "added",
+        params.userId
+    );
+    return item;
 }
 
 export function toggleShoppingListItemChecked(
@@ -298,7 +503,12 @@ export function toggleShoppingListItemChecked(
     userId: string
 ): CheckConflictResult {
     verifyStoreAccess(storeId, userId);
-    return shoppingListRepo.toggleShoppingListItemChecked(id, isChecked, userId);
+    const result = shoppingListRepo.toggleShoppingListItemChecked(id, isChecked, userId);
+    if (!result.conflict) {
+        purchaseEventRepo.syncPurchaseForShoppingListItem(id);
+        publishShoppingListItemEvent(storeId, id, "checked", userId);
+    }
+    return result;
 }
 
 /**
@@ -307,6 +517,14 @@ export function toggleShoppingListItemChecked(
 export function removeShoppingListItem(id: string, storeId: string, userId: string): void {
     verifyStoreAccess(storeId, userId);
     shoppingListRepo.removeShoppingListItem(id);
+
+    publishStoreEvent({
+        storeId,
+        entity: "shopping-list-item",
+        action: "removed",
+        entityId: id,
+        actorId: userId,
+    });
 }
 
 /**
@@ -314,10 +532,166 @@ export function removeShoppingListItem(id: string, storeId: string, userId: stri
  */
 export function deleteShoppingListItem(id: string, storeId: string, userId: string): boolean {
     verifyStoreAccess(storeId, userId);
-    return shoppingListRepo.deleteShoppingListItem(id);
+
+    const storeItemId = shoppingListRepo.getShoppingListItemById(id)?.storeItemId ?? null;
+    const deleted = shoppingListRepo.deleteShoppingListItem(id);
+
+    if (deleted) {
+        publishStoreEvent({
+            storeId,
+            entity: "shopping-list-item",
+            action: "removed",
+            entityId: id,
+            actorId: userId,
+        });
+        if (storeItemId) {
+            publishStoreEvent({
+                storeId,
+                entity: "store-item",
+                action: "removed",
+                entityId: storeItemId,
+                actorId: userId,
+            });
+        }
+    }
+    return deleted;
 }
 
+/**
+ * Clear checked items from the list; their purchases stay in the history
+ */
 export function clearCheckedShoppingListItems(storeId: string, userId: string): number {
     verifyStoreAccess(storeId, userId);
-    return shoppingListRepo.clearCheckedShoppingListItems(storeId);
+    purchaseEventRepo.recordCheckedItemPurchases(storeId);
+    const count = shoppingListRepo.clearCheckedShoppingListItems(storeId);
+
+    if (count > 0) {
+        publishStoreEvent({
+            storeId,
+            entity: "shopping-list-item",
+            action: "cleared",
+            actorId: userId,
+        });
+    }
+    return count;
+}
+
+// ========== Purchase History Operations ==========
+
+export function getStorePurchaseHistory(
+    storeId: string,
+    query: PurchaseHistoryQuery,
+    userId: string
+): PurchaseEventWithDetails[] {
+    verifyStoreAccess(storeId, userId);
+    return purchaseEventRepo.getPurchasesByStore(storeId, query);
+}
+
+export function getStoreItemPurchaseHistory(
+    storeId: string,
+    storeItemId: string,
+    query: PurchaseHistoryQuery,
+    userId: string
+): PurchaseEventWithDetails[] {
+    verifyStoreAccess(storeId, userId);
+    return purchaseEventRepo.getPurchasesByStoreItem(storeId, storeItemId, query);
+}
+
+// ========== Delta Sync ==========
+
+/**
+ * Rows of a store changed or deleted since a change-log cursor.
+ * Items and list rows also count as changed when their store item, section, or aisle did,
+ * since they carry those names. A changed row that's no longer returned (e.g. a hidden item)
+ * is reported as deleted. since = 0, or a cursor this server never issued (database restored
+ * from a backup), gets a full sync.
+ */
+export function getStoreChanges(
+    storeId: string,
+    since: number,
+    userId: string
+): StoreChangesResponse {
+    verifyStoreAccess(storeId, userId);
+
+    const cursor = storeChangeRepo.getLatestSeq();
+    const isFullSync = since === 0 || since > cursor;
+    const entries = isFullSync ? [] : storeChangeRepo.getChangesSince(storeId, since);
+
+    const idsOf = (entity: StoreEventEntity, isDeleted: boolean) =>
+        new Set(
+            entries
+                .filter((entry) => entry.entity === entity && entry.isDeleted === isDeleted)
+                .map((entry) => entry.entityId)
+        );
+
+    const aisleIds = idsOf("aisle", false);
+    const sectionIds = idsOf("section", false);
+    const locationChanged = (row: { aisleId: string | null; sectionId: string | null }) =>
+        (row.aisleId !== null && aisleIds.has(row.aisleId)) ||
+        (row.sectionId !== null && sectionIds.has(row.sectionId));
+
+    const storeItemIds = idsOf("store-item", false);
+    const items = itemRepo
+        .getItemsByStoreWithDetails(storeId)
+        .filter((item) => isFullSync || storeItemIds.has(item.id) || locationChanged(item));
+
+    const changedItemIds = new Set(items.map((item) => item.id));
+    const listItemIds = idsOf("shopping-list-item", false);
+    const shoppingListItems = shoppingListRepo
+        .getShoppingListItems(storeId)
+        .filter(
+            (row) =>
+                isFullSync ||
+                listItemIds.has(row.id) ||
+                (row.storeItemId !== null && changedItemIds.has(row.storeItemId)) ||
+                locationChanged(row)
+        );
+
+    const aisles = aisleRepo
+        .getAislesByStore(storeId)
+        .filter((aisle) => isFullSync || aisleIds.has(aisle.id));
+    const sections = sectionRepo
+        .getSectionsByStore(storeId)
+        .filter((section) => isFullSync || sectionIds.has(section.id));
+
+    // Tombstones, plus changed rows that aren't returned anymore
+    const deletedIds = (
+        entity: StoreEventEntity,
+        changedIds: Set<string>,
+        rows: { id: string }[]
+    ) => {
+        const returned = new Set(rows.map((row) => row.id));
+        return [...idsOf(entity, true), ...[...changedIds].filter((id) => !returned.has(id))];
+    };
+
+    return {
+        cursor,
+        isFullSync,
+        shoppingListItems: {
+            changed: shoppingListItems,
+            deleted: deletedIds("shopping-list-item", listItemIds, shoppingListItems),
+        },
+        items: { changed: items, deleted: deletedIds("store-item", storeItemIds, items) },
+        aisles: { changed: aisles, deleted: deletedIds("aisle", aisleIds, aisles) },
+        sections: { changed: sections, deleted: deletedIds("section", sectionIds, sections) },
+    };
+}
+
+// ========== Live Updates ==========
+
+/**
+ * Subscribe to a store's change events. Also returns the events missed since lastEventId,
+ * or null when they can't be replayed and the client must refetch.
+ */
+export function subscribeToStoreEvents(
+    storeId: string,
+    userId: string,
+    lastEventId: string | null,
+    listener: (event: StoreEvent) => void
+): { missed: StoreEvent[] | null; unsubscribe: () => void } {
+    verifyStoreAccess(storeId, userId);
+
+    const missed = lastEventId ? getStoreEventsSince(storeId, lastEventId) : [];
+    const unsubscribe = subscribeToStore(storeId, listener);
+    return { missed, unsubscribe };
 }
@@ -0,0 +1,49 @@
+import type { SaveStoreMapRequest, StoreMap } from "@basket-bot/core";
+import * as aisleRepo from "../repos/aisleRepo";
+import * as storeMapRepo from "../repos/storeMapRepo";
+import * as storeRepo from "../repos/storeRepo";
+
+/**
+ * Service layer for store maps: the optional floor plan a store's shopping list can be
+ * ordered by (see planShoppingRoute in core). Aisles left off the map keep aisle order.
+ */
+
+function verifyStoreAccess(storeId: string, userId: string): void {
+    if (!storeRepo.userHasAccessToStore(userId, storeId)) {
+        throw new Error("Access denied");
+    }
+}
+
+/**
+ * The store's map, or null when it has none
+ */
+export function getStoreMap(storeId: string, userId: string): StoreMap | null {
+    verifyStoreAccess(storeId, userId);
+    return storeMapRepo.getStoreMap(storeId);
+}
+
+/**
+ * Create or replace the store's map. Every placed aisle must belong to the store.
+ */
+export function saveStoreMap(
+    storeId: string,
+    input: SaveStoreMapRequest,
+    userId: string
+): StoreMap {
+    verifyStoreAccess(storeId, userId);
+
+    const storeAisleIds = new Set(aisleRepo.getAislesByStore(storeId).map((aisle) => aisle.id));
+    if (input.aisles.some((aisle) => !storeAisleIds.has(aisle.aisleId))) {
+        throw new Error("VALIDATION_ERROR: Only this store's aisles can be placed on its map");
+    }
+
+    return storeMapRepo.saveStoreMap({ storeId, layout: input, userId });
+}
+
+/**
+ * Remove the store's map; returns false when it had none
+ */
+export function deleteStoreMap(storeId: string, userId: string): boolean {
+    verifyStoreAccess(storeId, userId);
+    return storeMapRepo.deleteStoreMap(storeId);
+}
@@ -1,6 +1,12 @@
-import type { Store } from "@basket-bot/core";
+import {
+    MAX_NAME_LENGTH,
+    type ImportStoreLayoutRequest,
+    type Store,
+    type StoreLayout,
+} from "@basket-bot/core";
 import { createDefaultStoreForUser } from "../db/seedDefaults";
 import * as householdRepo from "../repos/householdRepo";
+import * as storeChangeRepo from "../repos/storeChangeRepo";
 import * as storeRepo from "../repos/storeRepo";
 
 /**
@@ -81,11 +87,15 @@ export function deleteStore(id: string, userId: string): boolean {
         throw new Error("Access denied");
     }
 
-    return storeRepo.deleteStore(id);
+    const deleted = storeRepo.deleteStore(id);
+    if (deleted) {
+        storeChangeRepo.deleteChangesByStore(id);
+    }
+    return deleted;
 }
 
 /**
- * Duplicate a store with its layout (aisles/sections) and optionally items.
+ * Duplicate a store with its layout (aisles/sections, store map) and optionally items.
  * User must have access to source store. New store is owned only by duplicating user.
  */
 export function duplicateStore(params: {
@@ -107,6 +117,62 @@ export function duplicateStore(params: {
     });
 }
 
+/**
+ * Export a store's layout (aisles/sections and optionally items) as portable JSON.
+ * Returns null when the store doesn't exist; requires access.
+ */
+export function exportStoreLayout(params: {
+    storeId: string;
+    userId: string;
+    includeItems: boolean;
+}): StoreLayout | null {
+    if (!storeRepo.getStoreById(params.storeId)) {
+        return null;
+    }
+
+    // Verify user has access
+    if (!storeRepo.userHasAccessToStore(params.userId, params.storeId)) {
+        throw new Error("Access denied");
+    }
+
+    return storeRepo.exportStoreLayout(params.storeId, params.includeItems);
+}
+
+/**
+ * Create a store from an exported layout. New store is owned only by the importing user.
+ * When the user already has a store with the name, it's imported as "Name (2)", "Name (3)", ...
+ * or rejected, depending on onNameConflict.
+ */
+export function importStoreLayout(params: {
+    request: ImportStoreLayoutRequest;
+    userId: string;
+}): Store {
+    const { layout, includeItems, onNameConflict } = params.request;
+    const requestedName = (params.request.name ?? layout.store.name).trim();
+
+    const takenNames = new Set(
+        storeRepo.getStoresByUser(params.userId).map((store) => store.name.toLowerCase())
+    );
+
+    let storeName = requestedName;
+    if (takenNames.has(storeName.toLowerCase())) {
+        if (onNameConflict === "error") {
+            throw new Error(`CONFLICT: You already have a store named "${requestedName}"`);
+        }
+        for (let copy = 2; takenNames.has(storeName.toLowerCase()); copy++) {
+            const suffix = ` (${copy})`;
+            storeName = requestedName.slice(0, MAX_NAME_LENGTH - suffix.length).trimEnd() + suffix;
+        }
+    }
+
+    return storeRepo.importStoreLayout({
+        layout,
+        storeName,
+        userId: params.userId,
+        includeItems,
+    });
+}
+
 /**
  * Update a store's household association (share with household or make private).
  * Requires access to the store.
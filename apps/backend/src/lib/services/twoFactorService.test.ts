@@ -0,0 +1,84 @@
+import { MAX_TWO_FACTOR_LOGIN_ATTEMPTS, TwoFactorError } from "@basket-bot/core";
+import { beforeEach, describe, expect, it } from "vitest";
+import { createUser } from "../../test/fixtures";
+import { generateTotpCode, getTotpStep } from "../auth/totp";
+import * as twoFactorService from "./twoFactorService";
+
+const BAD_CODE = "000000";
+
+const errorCode = (fn: () => unknown) => {
+    try {
+        fn();
+    } catch (error) {
+        return (error as TwoFactorError).code;
+    }
+    return null;
+};
+
+describe("completeLogin", () => {
+    let userId: string;
+    let secret: string;
+    let recoveryCodes: string[];
+
+    beforeEach(() => {
+        userId = createUser().id;
+        secret = twoFactorService.beginSetup(userId).secret;
+        // Set up with the previous period's code, so the current one is still unused
+        recoveryCodes = twoFactorService.confirmSetup(
+            userId,
+            generateTotpCode(secret, getTotpStep() - 1),
+            undefined
+        );
+    });
+
+    const currentCode = () => generateTotpCode(secret, getTotpStep());
+
+    it("signs in with a code and accepts each challenge once", () => {
+        const challenge = twoFactorService.startLogin(userId, "Phone");
+
+        expect(twoFactorService.completeLogin(challenge, currentCode())).toEqual({
+            userId,
+            deviceName: "Phone",
+        });
+        expect(errorCode(() => twoFactorService.completeLogin(challenge, recoveryCodes[0]))).toBe(
+            "INVALID_TWO_FACTOR_CHALLENGE"
+        );
+    });
+
+    it("voids the challenge after too many bad codes", () => {
+        const challenge = twoFactorService.startLogin(userId);
+
+        for (let i = 1; i < MAX_TWO_FACTOR_LOGIN_ATTEMPTS; i++) {
+            expect(errorCode(() => twoFactorService.completeLogin(challenge, BAD_CODE))).toBe(
+                "INVALID_TWO_FACTOR_CODE"
+            );
+        }
+        expect(errorCode(() => twoFactorService.completeLogin(challenge, BAD_CODE))).toBe(
+            "INVALID_TWO_FACTOR_CHALLENGE"
+        );
+        expect(errorCode(() => twoFactorService.completeLogin(challenge, currentCode()))).toBe(
+            "INVALID_TWO_FACTOR_CHALLENGE"
+        );
+
+        // Entering the password again gives a new challenge
+        expect(
+            twoFactorService.completeLogin(twoFactorService.startLogin(userId), currentCode())
+        ).toMatchObject({ userId });
+    });
+
+    it("counts bad codes across challenges", () => {
+        const first = twoFactorService.startLogin(userId);
+        for (let i = 1; i < MAX_TWO_FACTOR_LOGIN_ATTEMPTS; i++) {
+            twoFactorService.startLogin(userId);
+            errorCode(() => twoFactorService.completeLogin(first, BAD_CODE));
+        }
+        const second = twoFactorService.startLogin(userId);
+
+        expect(errorCode(() => twoFactorService.completeLogin(second, BAD_CODE))).toBe(
+            "INVALID_TWO_FACTOR_CHALLENGE"
+        );
+        expect(errorCode(() => twoFactorService.completeLogin(first, currentCode()))).toBe(
+            "INVALID_TWO_FACTOR_CHALLENGE"
+        );
+    });
+});
@@ -0,0 +1,225 @@
+import {
+    ADMIN_SCOPE,
+    MAX_TWO_FACTOR_LOGIN_ATTEMPTS,
+    RECOVERY_CODE_COUNT,
+    REQUIRE_ADMIN_TWO_FACTOR_SETTING,
+    TwoFactorError,
+    type TwoFactorSetupResponse,
+    type TwoFactorStatus,
+} from "@basket-bot/core";
+import { createHash, randomInt } from "crypto";
+import { generateTwoFactorChallengeToken, verifyTwoFactorChallengeToken } from "../auth/jwt";
+import { buildTotpProvisioningUri, generateTotpSecret, verifyTotpCode } from "../auth/totp";
+import * as referenceRepo from "../repos/referenceRepo";
+import * as refreshTokenRepo from "../repos/refreshTokenRepo";
+import * as twoFactorRepo from "../repos/twoFactorRepo";
+import * as userRepo from "../repos/userRepo";
+
+/**
+ * Service layer for two-factor authentication: TOTP codes from an authenticator app, with
+ * single-use recovery codes for when the app is lost. Once it's on, signing in takes the
+ * password and then a code (see the login routes).
+ */
+
+// No look-alike characters (0/o, 1/l/i), since recovery codes are typed from a printout
+const RECOVERY_CODE_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
+const RECOVERY_CODE_LENGTH = 10;
+
+function normalizeRecoveryCode(code: string): string {
+    return code.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function hashRecoveryCode(code: string): string {
+    return createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+}
+
+/**
+ * New recovery codes, formatted "xxxxx-xxxxx" for reading
+ */
+function generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+        let code = "";
+        for (let i = 0; i < RECOVERY_CODE_LENGTH; i++) {
+            code += RECOVERY_CODE_ALPHABET[randomInt(RECOVERY_CODE_ALPHABET.length)];
+        }
+        return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+}
+
+function invalidCode(): TwoFactorError {
+    return new TwoFactorError("INVALID_TWO_FACTOR_CODE", "Invalid two-factor code");
+}
+
+function invalidChallenge(message: string): TwoFactorError {
+    return new TwoFactorError("INVALID_TWO_FACTOR_CHALLENGE", message);
+}
+
+/**
+ * Whether the REQUIRE_ADMIN_TWO_FACTOR setting is on
+ */
+export function isTwoFactorRequiredForAdmins(): boolean {
+    const setting = referenceRepo.getAppSetting(REQUIRE_ADMIN_TWO_FACTOR_SETTING);
+    return setting?.value.trim().toLowerCase() === "true";
+}
+
+export function isTwoFactorEnabled(userId: string): boolean {
+    return !!twoFactorRepo.getUserTwoFactor(userId)?.enabledAt;
+}
+
+export function getStatus(userId: string, scopes: string[]): TwoFactorStatus {
+    const enabled = isTwoFactorEnabled(userId);
+
+    return {
+        enabled,
+        recoveryCodesRemaining: enabled ? twoFactorRepo.countUnusedRecoveryCodes(userId) : 0,
+        required: scopes.includes(ADMIN_SCOPE) && isTwoFactorRequiredForAdmins(),
+    };
+}
+
+/**
+ * Check an authenticator code or, failing that, spend a recovery code. A code is accepted once.
+ */
+export function verifyCode(userId: string, code: string): boolean {
+    const twoFactor = twoFactorRepo.getUserTwoFactor(userId);
+    if (!twoFactor?.enabledAt) return false;
+
+    const step = verifyTotpCode(twoFactor.secret, code, twoFactor.lastUsedStep);
+    if (step !== null) {
+        return twoFactorRepo.recordUsedStep(userId, step);
+    }
+
+    return twoFactorRepo.spendRecoveryCode(userId, hashRecoveryCode(code));
+}
+
+/**
+ * Start setup: a new secret for the authenticator app. Two-factor stays off until confirmSetup.
+ */
+export function beginSetup(userId: string): TwoFactorSetupResponse {
+    const user = userRepo.getUserById(userId);
+    if (!user) {
+        throw new Error("NOT_FOUND: User not found");
+    }
+    if (isTwoFactorEnabled(userId)) {
+        throw new Error("VALIDATION_ERROR: Two-factor authentication is already on");
+    }
+
+    const secret = generateTotpSecret();
+    twoFactorRepo.savePendingTwoFactor(userId, secret);
+
+    return { secret, provisioningUri: buildTotpProvisioningUri(secret, user.email) };
+}
+
+/**
+ * Finish setup with a code from the authenticator app; returns the recovery codes (shown once).
+ * The current session counts as signed in with two-factor from now on.
+ */
+export function confirmSetup(
+    userId: string,
+    code: string,
+    currentSessionId: string | undefined
+): string[] {
+    const twoFactor = twoFactorRepo.getUserTwoFactor(userId);
+    if (!twoFactor) {
+        throw new Error("VALIDATION_ERROR: Start two-factor setup first");
+    }
+    if (twoFactor.enabledAt) {
+        throw new Error("VALIDATION_ERROR: Two-factor authentication is already on");
+    }
+
+    const step = verifyTotpCode(twoFactor.secret, code, null);
+    if (step === null) {
+        throw invalidCode();
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    twoFactorRepo.enableTwoFactor(userId, step, recoveryCodes.map(hashRecoveryCode));
+
+    if (currentSessionId) {
+        refreshTokenRepo.markSessionTwoFactorVerified(currentSessionId);
+    }
+
+    return recoveryCodes;
+}
+
+/**
+ * Replace the recovery codes (e.g. when running low); needs a current code
+ */
+export function regenerateRecoveryCodes(userId: string, code: string): string[] {
+    if (!isTwoFactorEnabled(userId)) {
+        throw new Error("VALIDATION_ERROR: Two-factor authentication is off");
+    }
+    if (!verifyCode(userId, code)) {
+        throw invalidCode();
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    twoFactorRepo.replaceRecoveryCodes(userId, recoveryCodes.map(hashRecoveryCode));
+    return recoveryCodes;
+}
+
+/**
+ * Turn two-factor off; needs the password and a current code. Admins can't while it's required.
+ */
+export async function disable(
+    userId: string,
+    scopes: string[],
+    password: string,
+    code: string
+): Promise<void> {
+    if (!isTwoFactorEnabled(userId)) {
+        throw new Error("VALIDATION_ERROR: Two-factor authentication is off");
+    }
+    if (scopes.includes(ADMIN_SCOPE) && isTwoFactorRequiredForAdmins()) {
+        throw new Error("VALIDATION_ERROR: Two-factor authentication is required for admins");
+    }
+    if (!(await userRepo.verifyUserPassword(userId, password))) {
+        throw new Error("VALIDATION_ERROR: Password is incorrect");
+    }
+    if (!verifyCode(userId, code)) {
+        throw invalidCode();
+    }
+
+    twoFactorRepo.deleteTwoFactor(userId);
+}
+
+/**
+ * First login step for accounts with two-factor on: the challenge token that, with a code, is
+ * exchanged for a session
+ */
+export function startLogin(userId: string, deviceName?: string): string {
+    const twoFactor = twoFactorRepo.getUserTwoFactor(userId);
+
+    return generateTwoFactorChallengeToken({
+        userId,
+        deviceName,
+        version: twoFactor?.challengeVersion ?? 0,
+    });
+}
+
+/**
+ * Second login step: check the challenge from the password step and the code. Returns who is
+ * signing in. A challenge is good for one sign-in; MAX_TWO_FACTOR_LOGIN_ATTEMPTS bad codes (over
+ * all of the user's challenges) void every challenge, so the password is needed again.
+ */
+export function completeLogin(
+    challengeToken: string,
+    code: string
+): { userId: string; deviceName?: string } {
+    const challenge = verifyTwoFactorChallengeToken(challengeToken);
+    const twoFactor = twoFactorRepo.getUserTwoFactor(challenge.userId);
+    if (!twoFactor?.enabledAt || twoFactor.challengeVersion !== challenge.version) {
+        throw invalidChallenge("Sign-in expired; enter your password again");
+    }
+
+    if (!verifyCode(challenge.userId, code)) {
+        if (
+            twoFactorRepo.recordFailedLoginAttempt(challenge.userId, MAX_TWO_FACTOR_LOGIN_ATTEMPTS)
+        ) {
+            throw invalidChallenge("Too many invalid codes; enter your password again");
+        }
+        throw invalidCode();
+    }
+
+    twoFactorRepo.completeLoginChallenge(challenge.userId);
+    return { userId: challenge.userId, deviceName: challenge.deviceName };
+}
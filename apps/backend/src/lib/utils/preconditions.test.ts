@@ -0,0 +1,89 @@
+import { PUT as putAisle } from "@/app/api/stores/[storeId]/aisles/[aisleId]/route";
+import { NextRequest } from "next/server";
+import { beforeEach, describe, expect, it } from "vitest";
+import { createStore, createUser } from "../../test/fixtures";
+import { generateAccessToken } from "../auth/jwt";
+import * as storeEntityService from "../services/storeEntityService";
+import { getExpectedUpdatedAt } from "./preconditions";
+
+const STALE_UPDATED_AT = "2000-01-01T00:00:00.000Z";
+
+const request = (headers: Record<string, string> = {}, body?: unknown) =>
+    new NextRequest("http://localhost/api/test", {
+        method: "PUT",
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+describe("getExpectedUpdatedAt", () => {
+    it("reads If-Match, quoted, weak or bare", () => {
+        expect(getExpectedUpdatedAt(request({ "If-Match": `"${STALE_UPDATED_AT}"` }), {})).toBe(
+            STALE_UPDATED_AT
+        );
+        expect(getExpectedUpdatedAt(request({ "If-Match": `W/"${STALE_UPDATED_AT}"` }), {})).toBe(
+            STALE_UPDATED_AT
+        );
+        expect(getExpectedUpdatedAt(request({ "If-Match": STALE_UPDATED_AT }), {})).toBe(
+            STALE_UPDATED_AT
+        );
+    });
+
+    it("falls back to expectedUpdatedAt in the body", () => {
+        expect(getExpectedUpdatedAt(request(), { expectedUpdatedAt: STALE_UPDATED_AT })).toBe(
+            STALE_UPDATED_AT
+        );
+    });
+
+    it("has no precondition for If-Match: * or nothing at all", () => {
+        expect(getExpectedUpdatedAt(request({ "If-Match": "*" }), {})).toBeNull();
+        expect(getExpectedUpdatedAt(request(), { name: "Dairy" })).toBeNull();
+    });
+});
+
+describe("updating with a stale If-Match", () => {
+    let userId: string;
+    let accessToken: string;
+    let storeId: string;
+    let aisleId: string;
+
+    beforeEach(() => {
+        const user = createUser();
+        userId = user.id;
+        accessToken = generateAccessToken({ userId: user.id, email: user.email, scopes: [] });
+        storeId = createStore(user.id).id;
+        aisleId = storeEntityService.createAisle({ storeId, name: "Dairy", userId: user.id }).id;
+    });
+
+    const rename = (ifMatch: string) =>
+        putAisle(
+            new NextRequest(`http://localhost/api/stores/${storeId}/aisles/${aisleId}`, {
+                method: "PUT",
+                headers: {
+                    Authorization: `Bearer ${accessToken}`,
+                    "Content-Type": "application/json",
+                    "If-Match": ifMatch,
+                },
+                body: JSON.stringify({ name: "Bakery" }),
+            }),
+            { params: Promise.resolve({ storeId, aisleId }) }
+        );
+
+    it("gets 409 with the server's current copy and changes nothing", async () => {
+        const response = await rename(`"${STALE_UPDATED_AT}"`);
+        const body = await response.json();
+
+        expect(response.status).toBe(409);
+        expect(body.code).toBe("VERSION_CONFLICT");
+        expect(body.details.entity).toBe("aisle");
+        expect(body.details.current).toMatchObject({ id: aisleId, name: "Dairy" });
+        expect(storeEntityService.getAislesByStore(storeId, userId)[0].name).toBe("Dairy");
+    });
+
+    it("applies with the current version", async () => {
+        const { updatedAt } = (await (await rename("*")).json()).aisle;
+
+        const response = await rename(`"${updatedAt}"`);
+
+        expect(response.status).toBe(200);
+    });
+});
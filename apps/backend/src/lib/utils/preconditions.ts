@@ -0,0 +1,37 @@
+import { VersionConflictError } from "@basket-bot/core";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * The updatedAt an update was made against, if the client sent one: the If-Match header
+ * (an entity tag holding updatedAt, quoted or not) or expectedUpdatedAt in the JSON body.
+ * Updates without a precondition apply unconditionally.
+ */
+export function getExpectedUpdatedAt(req: NextRequest, body: unknown): string | null {
+    const ifMatch = req.headers.get("if-match")?.trim();
+    if (ifMatch && ifMatch !== "*") {
+        return ifMatch.replace(/^W\//, "").replace(/^"(.*)"$/, "$1");
+    }
+
+    if (body && typeof body === "object" && "expectedUpdatedAt" in body) {
+        const { expectedUpdatedAt } = body as { expectedUpdatedAt: unknown };
+        if (typeof expectedUpdatedAt === "string" && expectedUpdatedAt) {
+            return expectedUpdatedAt;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * 409 for a failed precondition, with the current server copy of the entity
+ */
+export function versionConflictResponse(error: VersionConflictError): NextResponse {
+    return NextResponse.json(
+        {
+            code: error.code,
+            message: error.message,
+            details: { entity: error.entity, current: error.current },
+        },
+        { status: 409 }
+    );
+}
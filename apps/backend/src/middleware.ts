@@ -23,7 +23,7 @@ export function middleware(request: NextRequest) {
                     "Access-Control-Allow-Origin": "*",
                     "Access-Control-Allow-Methods": "GET, POST, PUT, PATCH, DELETE, OPTIONS",
                     "Access-Control-Allow-Headers":
-                        "Content-Type, Authorization, X-Retry-After-Refresh",
+                        "Content-Type, Authorization, X-Retry-After-Refresh, Last-Event-ID, Idempotency-Key, If-Match",
                     "Access-Control-Expose-Headers": "X-Token-Status",
                     "Access-Control-Max-Age": "86400",
                 },
@@ -36,7 +36,7 @@ export function middleware(request: NextRequest) {
         response.headers.set("Access-Control-Allow-Methods", "GET, POST, PUT, PATCH, DELETE, OPTIONS");
         response.headers.set(
             "Access-Control-Allow-Headers",
-            "Content-Type, Authorization, X-Retry-After-Refresh"
+            "Content-Type, Authorization, X-Retry-After-Refresh, Last-Event-ID, Idempotency-Key, If-Match"
         );
         response.headers.set("Access-Control-Expose-Headers", "X-Token-Status");
 
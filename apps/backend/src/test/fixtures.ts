@@ -0,0 +1,22 @@
+import { randomUUID } from "crypto";
+import { db } from "../lib/db/db";
+import * as storeRepo from "../lib/repos/storeRepo";
+
+/**
+ * Rows for tests to work with; passwords aren't usable for signing in
+ */
+
+export function createUser(name = "Test User"): { id: string; email: string } {
+    const id = randomUUID();
+    const email = `${id}@example.com`;
+    db.prepare(
+        `INSERT INTO User (id, email, name, password, updatedAt)
+         VALUES (?, ?, ?, 'not-a-hash', ?)`
+    ).run(id, email, name, new Date().toISOString());
+
+    return { id, email };
+}
+
+export function createStore(userId: string, name = "Test Store") {
+    return storeRepo.createStore({ name, createdById: userId });
+}
@@ -0,0 +1,12 @@
+import Database from "better-sqlite3";
+import { beforeAll, vi } from "vitest";
+
+// Each test file gets its own in-memory database; lib/db/db uses one already on globalThis
+(globalThis as unknown as { db: Database.Database }).db = new Database(":memory:");
+
+beforeAll(async () => {
+    const { initializeDatabase } = await import("../db/init");
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    initializeDatabase();
+    vi.mocked(console.log).mockRestore();
+});
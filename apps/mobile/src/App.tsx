@@ -86,6 +86,8 @@ const AppRoutes: React.FC = () => {
             {/* Auth routes - redirect to /shoppinglist if authenticated */}
             <Route exact path="/login" component={AuthContent} />
             <Route exact path="/register" component={AuthContent} />
+            <Route exact path="/forgot-password" component={AuthContent} />
+            <Route exact path="/reset-password" component={AuthContent} />
 
             {/* Protected routes - all other routes render Main (if authenticated) or redirect to login */}
             <Route component={ProtectedContent} />
@@ -1,4 +1,4 @@
-import { LoginUser } from "@basket-bot/core";
+import { LoginUser, TwoFactorChallengeResponse } from "@basket-bot/core";
 import { createContext } from "react";
 
 /**
@@ -13,8 +13,10 @@ export interface AuthContextValue {
     isInitializing: boolean;
     /** Whether auth is fully ready (tokens validated, user loaded) */
     isAuthReady: boolean;
-    /** Login with email and password */
-    login: (email: string, password: string) => Promise<void>;
+    /** Login with email and password; returns the challenge if a two-factor code is needed */
+    login: (email: string, password: string) => Promise<TwoFactorChallengeResponse | null>;
+    /** Finish a two-factor login with the challenge and a code */
+    loginWithTwoFactor: (challengeToken: string, code: string) => Promise<void>;
     /** Register a new user and auto-login */
     register: (
         email: string,
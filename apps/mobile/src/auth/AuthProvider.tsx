@@ -5,10 +5,13 @@ import { apiClient, ApiError } from "../lib/api/client";
 import { KEYS, secureStorage } from "../utils/secureStorage";
 import { AuthContext, type AuthContextValue } from "./AuthContext";
 import {
+    CACHED_USER_KEY,
+    isTwoFactorChallenge,
     useAuthUser,
     useLoginMutation,
     useLogoutMutation,
     useRegisterMutation,
+    useTwoFactorLoginMutation,
 } from "./useAuthMutations";
 
 /**
@@ -21,6 +24,7 @@ export const AuthProvider: React.FC<PropsWithChildren> = ({ children }) => {
     const [shouldFetchUser, setShouldFetchUser] = useState(false);
 
     const loginMutation = useLoginMutation();
+    const twoFactorLoginMutation = useTwoFactorLoginMutation();
     const registerMutation = useRegisterMutation();
     const logoutMutation = useLogoutMutation();
 
@@ -77,6 +81,17 @@ export const AuthProvider: React.FC<PropsWithChildren> = ({ children }) => {
         }
     }, [userData]);
 
+    /**
+     * Remember the signed-in user so the app can start without a connection
+     */
+    useEffect(() => {
+        if (user) {
+            Preferences.set({ key: CACHED_USER_KEY, value: JSON.stringify(user) }).catch((error) =>
+                console.error("[Auth] ❌ Failed to cache user:", error)
+            );
+        }
+    }, [user]);
+
     /**
      * Handle user fetch errors (invalid token)
      * Only clear tokens if the error has tokenStatus=invalid
@@ -102,6 +117,16 @@ export const AuthProvider: React.FC<PropsWithChildren> = ({ children }) => {
                     setIsInitializing(false);
                 };
                 clearInvalidTokens();
+            } else if (userError instanceof ApiError && userError.isNetworkError) {
+                // Offline: keep the stored session and continue as the last known user
+                const restoreCachedUser = async () => {
+                    const { value } = await Preferences.get({ key: CACHED_USER_KEY });
+                    if (value) {
+                        setUser(JSON.parse(value) as LoginUser);
+                    }
+                    setIsInitializing(false);
+                };
+                restoreCachedUser().catch(() => setIsInitializing(false));
             } else {
                 // For other errors, just finish initializing
                 setIsInitializing(false);
@@ -115,12 +140,28 @@ export const AuthProvider: React.FC<PropsWithChildren> = ({ children }) => {
     const login = useCallback(
         async (email: string, password: string) => {
             const response = await loginMutation.mutateAsync({ email, password });
+            if (isTwoFactorChallenge(response)) {
+                return response;
+            }
             setUser(response.user);
             setShouldFetchUser(true);
+            return null;
         },
         [loginMutation]
     );
 
+    /**
+     * Finish a two-factor login with the code from an authenticator app (or a recovery code)
+     */
+    const loginWithTwoFactor = useCallback(
+        async (challengeToken: string, code: string) => {
+            const response = await twoFactorLoginMutation.mutateAsync({ challengeToken, code });
+            setUser(response.user);
+            setShouldFetchUser(true);
+        },
+        [twoFactorLoginMutation]
+    );
+
     /**
      * Register a new user and auto-login using React Query mutations
      */
@@ -168,10 +209,11 @@ export const AuthProvider: React.FC<PropsWithChildren> = ({ children }) => {
             isInitializing,
             isAuthReady: !isInitializing,
             login,
+            loginWithTwoFactor,
             register,
             logout,
         };
-    }, [user, isInitializing, login, register, logout]);
+    }, [user, isInitializing, login, loginWithTwoFactor, register, logout]);
 
     return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
 };
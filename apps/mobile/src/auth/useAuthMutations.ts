@@ -1,8 +1,33 @@
-import type { CreateUserRequest, LoginRequest, LoginResponse } from "@basket-bot/core";
-import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type {
+    CreateUserRequest,
+    LoginRequest,
+    LoginResponse,
+    PasswordResetConfirm,
+    PasswordResetRequest,
+    TwoFactorChallengeResponse,
+    TwoFactorLoginRequest,
+} from "@basket-bot/core";
+import { Capacitor } from "@capacitor/core";
+import { Preferences } from "@capacitor/preferences";
+import { QueryClient, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { getDatabase } from "../db/database";
 import { apiClient } from "../lib/api/client";
 import { KEYS, secureStorage } from "../utils/secureStorage";
 
+/**
+ * Preferences key of the last signed-in user (lets the app start offline)
+ */
+export const CACHED_USER_KEY = "auth_cached_user";
+
+/**
+ * Name this device's session gets in the list of signed-in devices
+ */
+const DEVICE_NAMES: Record<string, string> = {
+    android: "Android app",
+    ios: "iOS app",
+    web: "Web browser",
+};
+
 interface LogoutRequest {
     refreshToken: string;
 }
@@ -25,35 +50,75 @@ export const useAuthUser = (enabled: boolean) => {
     });
 };
 
+/**
+ * Whether a login response is a two-factor challenge rather than a signed-in session
+ */
+export const isTwoFactorChallenge = (
+    response: LoginResponse | TwoFactorChallengeResponse
+): response is TwoFactorChallengeResponse => "twoFactorRequired" in response;
+
+/**
+ * Store the tokens of a new sign-in
+ */
+const startSignedInSession = async (queryClient: QueryClient, response: LoginResponse) => {
+    // Store tokens in secure storage
+    await Promise.all([
+        secureStorage.set(KEYS.ACCESS_TOKEN, response.accessToken),
+        secureStorage.set(KEYS.REFRESH_TOKEN, response.refreshToken),
+    ]);
+
+    // Set tokens in API client
+    apiClient.setAccessToken(response.accessToken);
+    apiClient.setRefreshToken(response.refreshToken);
+
+    // Clear all cached data on login to prevent stale data from previous sessions
+    // (similar to logout, but we keep the new auth data)
+    await queryClient.invalidateQueries();
+
+    // Clear shopping list caches specifically to prevent cross-session contamination
+    queryClient.removeQueries({ queryKey: ["shopping-list-items"] });
+};
+
 /**
  * Hook for login mutation
- * Stores tokens and returns user data
+ * Stores tokens and returns user data, or returns the challenge when the account has
+ * two-factor authentication on (finish with useTwoFactorLoginMutation)
  */
 export const useLoginMutation = () => {
     const queryClient = useQueryClient();
 
     return useMutation({
         mutationFn: async (credentials: LoginRequest) => {
-            const response = await apiClient.post<LoginResponse>("/api/auth/login", credentials);
+            const response = await apiClient.post<LoginResponse | TwoFactorChallengeResponse>(
+                "/api/auth/login",
+                {
+                    deviceName: DEVICE_NAMES[Capacitor.getPlatform()],
+                    ...credentials,
+                }
+            );
             return response;
         },
         onSuccess: async (response) => {
-            // Store tokens in secure storage
-            await Promise.all([
-                secureStorage.set(KEYS.ACCESS_TOKEN, response.accessToken),
-                secureStorage.set(KEYS.REFRESH_TOKEN, response.refreshToken),
-            ]);
-
-            // Set tokens in API client
-            apiClient.setAccessToken(response.accessToken);
-            apiClient.setRefreshToken(response.refreshToken);
+            if (!isTwoFactorChallenge(response)) {
+                await startSignedInSession(queryClient, response);
+            }
+        },
+    });
+};
 
-            // Clear all cached data on login to prevent stale data from previous sessions
-            // (similar to logout, but we keep the new auth data)
-            await queryClient.invalidateQueries();
+/**
+ * Hook for the second login step (two-factor code)
+ * Stores tokens and returns user data
+ */
+export const useTwoFactorLoginMutation = () => {
+    const queryClient = useQueryClient();
 
-            // Clear shopping list caches specifically to prevent cross-session contamination
-            queryClient.removeQueries({ queryKey: ["shopping-list-items"] });
+    return useMutation({
+        mutationFn: async (request: TwoFactorLoginRequest) => {
+            return apiClient.post<LoginResponse>("/api/auth/login/two-factor", request);
+        },
+        onSuccess: async (response) => {
+            await startSignedInSession(queryClient, response);
         },
     });
 };
@@ -71,9 +136,33 @@ export const useRegisterMutation = () => {
     });
 };
 
+/**
+ * Hook for the "forgot password" mutation
+ * Emails a reset code; succeeds whether or not an account has the email
+ */
+export const usePasswordResetRequestMutation = () => {
+    return useMutation({
+        mutationFn: async (request: PasswordResetRequest) => {
+            await apiClient.post("/api/auth/password-reset/request", request);
+        },
+    });
+};
+
+/**
+ * Hook for the password reset mutation
+ * Sets a new password with an emailed reset code; the user signs in afterwards
+ */
+export const usePasswordResetConfirmMutation = () => {
+    return useMutation({
+        mutationFn: async (request: PasswordResetConfirm) => {
+            await apiClient.post("/api/auth/password-reset/confirm", request);
+        },
+    });
+};
+
 /**
  * Hook for logout mutation
- * Revokes refresh token and clears local tokens
+ * Revokes refresh token and clears local tokens and data
  */
 export const useLogoutMutation = () => {
     const queryClient = useQueryClient();
@@ -98,6 +187,10 @@ export const useLogoutMutation = () => {
             // Clear tokens from API client
             apiClient.setAccessToken(null);
             apiClient.setRefreshToken(null);
+
+            // Forget the user and their on-device data (unsynced offline edits are discarded)
+            await Preferences.remove({ key: CACHED_USER_KEY });
+            await (await getDatabase()).clearLocalData();
         },
     });
 };
@@ -1,5 +1,7 @@
+import ForgotPassword from "@/pages/ForgotPassword";
 import Login from "@/pages/Login";
 import Register from "@/pages/Register";
+import ResetPassword from "@/pages/ResetPassword";
 import { IonRouterOutlet } from "@ionic/react";
 import { Route } from "react-router-dom";
 
@@ -15,6 +17,12 @@ const Auth: React.FC = () => (
         <Route exact path="/register">
             <Register />
         </Route>
+        <Route exact path="/forgot-password">
+            <ForgotPassword />
+        </Route>
+        <Route exact path="/reset-password">
+            <ResetPassword />
+        </Route>
     </IonRouterOutlet>
 );
 
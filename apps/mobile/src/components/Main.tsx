@@ -1,10 +1,13 @@
 import { LLMModalProvider } from "@/llm/shared";
 import { IonIcon, IonLabel, IonRouterOutlet, IonTabBar, IonTabButton, IonTabs } from "@ionic/react";
-import { cartOutline } from "ionicons/icons";
+import { cartOutline, restaurantOutline } from "ionicons/icons";
 import { useEffect, useRef } from "react";
 import { Route } from "react-router-dom";
 import { useAuth } from "../auth/useAuth";
 import { usePreloadCoreData } from "../db/hooks";
+import MealPlan from "../pages/MealPlan";
+import Meals from "../pages/Meals";
+import RecipeDetail from "../pages/RecipeDetail";
 import ShoppingList from "../pages/ShoppingList";
 import { AppHeaderProvider } from "./layout/AppHeaderProvider";
 import { AppMenu } from "./layout/AppMenu";
@@ -46,6 +49,12 @@ const Main: React.FC = () => {
             icon: cartOutline,
             label: "Shopping List",
         },
+        {
+            tab: "meals",
+            href: "/meals",
+            icon: restaurantOutline,
+            label: "Meals",
+        },
         /*         {
             tab: "placeholder",
             href: "/placeholder",
@@ -77,6 +86,9 @@ const Main: React.FC = () => {
                         <IonRouterOutlet id="main-content" animated={false}>
                             {/* REMEMBER: Most specific routes first */}
                             <Route exact path="/shoppinglist" component={ShoppingList} />
+                            <Route exact path="/meals/plan" component={MealPlan} />
+                            <Route exact path="/meals/:recipeId" component={RecipeDetail} />
+                            <Route exact path="/meals" component={Meals} />
                         </IonRouterOutlet>
 
                         {tabs.length > 1 && (
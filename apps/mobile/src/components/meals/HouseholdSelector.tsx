@@ -0,0 +1,32 @@
+import { useMealsContext } from "./useMealsContext";
+
+// Reuses the store selector tab styling
+import "../shoppinglist/StoreSelector.scss";
+
+export const HouseholdSelector: React.FC = () => {
+    const { households, selectedHouseholdId, setSelectedHouseholdId } = useMealsContext();
+
+    if (households.length <= 1) {
+        return null;
+    }
+
+    return (
+        <div className="store-selector-wrapper">
+            <div className="store-selector-tabs">
+                {households.map((household) => (
+                    <button
+                        key={household.id}
+                        className={`store-selector-tab${
+                            household.id === selectedHouseholdId
+                                ? " store-selector-tab--active"
+                                : ""
+                        }`}
+                        onClick={() => setSelectedHouseholdId(household.id)}
+                    >
+                        {household.name}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
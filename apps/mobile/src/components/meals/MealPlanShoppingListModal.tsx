@@ -0,0 +1,134 @@
+import {
+    IonButton,
+    IonButtons,
+    IonContent,
+    IonHeader,
+    IonIcon,
+    IonInput,
+    IonItem,
+    IonLabel,
+    IonList,
+    IonModal,
+    IonTitle,
+    IonToolbar,
+} from "@ionic/react";
+import { closeOutline } from "ionicons/icons";
+import { useEffect, useMemo, useState } from "react";
+import { useGenerateMealPlanShoppingList, useStores } from "../../db/hooks";
+import { useLastShoppingListStore } from "../../hooks/useLastShoppingListStore";
+import { ClickableSelectionField } from "../shared/ClickableSelectionField";
+import type { SelectableItem } from "../shared/ClickableSelectionModal";
+
+interface MealPlanShoppingListModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    householdId: string;
+    /** Initial range, usually the visible week */
+    defaultStartDate: string;
+    defaultEndDate: string;
+}
+
+export const MealPlanShoppingListModal: React.FC<MealPlanShoppingListModalProps> = ({
+    isOpen,
+    onClose,
+    householdId,
+    defaultStartDate,
+    defaultEndDate,
+}) => {
+    const { data: stores } = useStores();
+    const { lastShoppingListStoreId } = useLastShoppingListStore();
+    const generate = useGenerateMealPlanShoppingList();
+    const [storeId, setStoreId] = useState<string | null>(null);
+    const [startDate, setStartDate] = useState(defaultStartDate);
+    const [endDate, setEndDate] = useState(defaultEndDate);
+
+    // Reset range to the visible week each time the modal opens
+    useEffect(() => {
+        if (isOpen) {
+            setStartDate(defaultStartDate);
+            setEndDate(defaultEndDate);
+        }
+    }, [isOpen, defaultStartDate, defaultEndDate]);
+
+    const storeItems: SelectableItem[] = useMemo(
+        () =>
+            stores
+                ?.filter((store) => !store.isHidden)
+                .map((store) => ({ id: store.id, label: store.name })) ?? [],
+        [stores]
+    );
+
+    // Default to the store last used on the shopping list tab
+    const selectedStoreId =
+        storeId ??
+        (storeItems.some((s) => s.id === lastShoppingListStoreId)
+            ? lastShoppingListStoreId
+            : (storeItems[0]?.id ?? null));
+
+    const canGenerate = !!selectedStoreId && !!startDate && !!endDate && startDate <= endDate;
+
+    const handleGenerate = async () => {
+        if (!selectedStoreId) return;
+        await generate.mutateAsync({
+            householdId,
+            storeId: selectedStoreId,
+            startDate,
+            endDate,
+        });
+        onClose();
+    };
+
+    return (
+        <IonModal isOpen={isOpen} onDidDismiss={onClose}>
+            <IonHeader>
+                <IonToolbar>
+                    <IonTitle>Generate Shopping List</IonTitle>
+                    <IonButtons slot="end">
+                        <IonButton onClick={onClose}>
+                            <IonIcon icon={closeOutline} />
+                        </IonButton>
+                    </IonButtons>
+                </IonToolbar>
+            </IonHeader>
+            <IonContent>
+                <IonList>
+                    <ClickableSelectionField
+                        items={storeItems}
+                        value={selectedStoreId}
+                        onSelect={setStoreId}
+                        label="Store"
+                        placeholder="Select store"
+                        modalTitle="Select Store"
+                        allowClear={false}
+                    />
+                    <IonItem>
+                        <IonLabel position="stacked">From</IonLabel>
+                        <IonInput
+                            type="date"
+                            value={startDate}
+                            onIonInput={(e) => setStartDate(e.detail.value ?? "")}
+                        />
+                    </IonItem>
+                    <IonItem>
+                        <IonLabel position="stacked">To</IonLabel>
+                        <IonInput
+                            type="date"
+                            value={endDate}
+                            min={startDate}
+                            onIonInput={(e) => setEndDate(e.detail.value ?? "")}
+                        />
+                    </IonItem>
+                </IonList>
+                <div className="ion-padding">
+                    <IonButton
+                        expand="block"
+                        onClick={handleGenerate}
+                        disabled={!canGenerate || generate.isPending}
+                    >
+                        Add Ingredients to List
+                    </IonButton>
+                </div>
+            </IonContent>
+        </IonModal>
+    );
+};
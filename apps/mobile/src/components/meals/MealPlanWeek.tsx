@@ -0,0 +1,177 @@
+import type { MealPlanEntryWithRecipe, MealSlot } from "@basket-bot/core";
+import { MEAL_SLOTS } from "@basket-bot/core";
+import {
+    IonButton,
+    IonIcon,
+    IonItem,
+    IonItemDivider,
+    IonItemOption,
+    IonItemOptions,
+    IonItemSliding,
+    IonLabel,
+    IonList,
+    IonNote,
+    useIonAlert,
+} from "@ionic/react";
+import { add, peopleOutline, trash } from "ionicons/icons";
+import { useMemo, useState } from "react";
+import {
+    useCreateMealPlanEntry,
+    useDeleteMealPlanEntry,
+    useRecipes,
+    useUpdateMealPlanEntry,
+} from "../../db/hooks";
+import { addDaysToPlanDate, toPlanDate } from "../../utils/dateUtils";
+import { ClickableSelectionModal, type SelectableItem } from "../shared/ClickableSelectionModal";
+
+const SLOT_LABELS: Record<MealSlot, string> = {
+    breakfast: "Breakfast",
+    lunch: "Lunch",
+    dinner: "Dinner",
+};
+
+interface MealPlanWeekProps {
+    householdId: string;
+    weekStart: string;
+    entries: MealPlanEntryWithRecipe[];
+}
+
+export const MealPlanWeek: React.FC<MealPlanWeekProps> = ({ householdId, weekStart, entries }) => {
+    const { data: recipes } = useRecipes(householdId);
+    const createEntry = useCreateMealPlanEntry();
+    const updateEntry = useUpdateMealPlanEntry();
+    const deleteEntry = useDeleteMealPlanEntry();
+    const [presentAlert] = useIonAlert();
+    const [pickerTarget, setPickerTarget] = useState<{ date: string; slot: MealSlot } | null>(null);
+
+    const today = toPlanDate(new Date());
+    const days = useMemo(
+        () => Array.from({ length: 7 }, (_, i) => addDaysToPlanDate(weekStart, i)),
+        [weekStart]
+    );
+
+    const recipeItems: SelectableItem[] = useMemo(
+        () =>
+            recipes?.map((recipe) => ({
+                id: recipe.id,
+                label: recipe.name,
+                subtitle: recipe.description ?? undefined,
+            })) ?? [],
+        [recipes]
+    );
+
+    const handleRecipeSelected = (recipeId: string | null) => {
+        if (!recipeId || !pickerTarget) return;
+        // Plan the recipe's yield, so its ingredients aren't scaled
+        const servings = recipes?.find((recipe) => recipe.id === recipeId)?.servings ?? undefined;
+        createEntry.mutate({
+            householdId,
+            input: { ...pickerTarget, recipeId, servings },
+        });
+    };
+
+    const promptServings = (entry: MealPlanEntryWithRecipe) => {
+        presentAlert({
+            header: "Servings",
+            message: entry.recipeName,
+            inputs: [{ name: "servings", type: "number", value: entry.servings, min: 1 }],
+            buttons: [
+                { text: "Cancel", role: "cancel" },
+                {
+                    text: "Save",
+                    handler: (data: { servings: string }) => {
+                        const servings = parseInt(data.servings, 10);
+                        if (!Number.isInteger(servings) || servings < 1) return false;
+                        updateEntry.mutate({ householdId, entryId: entry.id, input: { servings } });
+                    },
+                },
+            ],
+        });
+    };
+
+    return (
+        <>
+            <IonList className="meal-plan-week">
+                {days.map((date) => {
+                    const dayEntries = entries.filter((entry) => entry.date === date);
+                    return (
+                        <div key={date} className="meal-plan-day">
+                            <IonItemDivider sticky color={date === today ? "primary" : undefined}>
+                                <IonLabel>
+                                    {new Date(date + "T00:00:00").toLocaleDateString(undefined, {
+                                        weekday: "long",
+                                        month: "short",
+                                        day: "numeric",
+                                    })}
+                                </IonLabel>
+                            </IonItemDivider>
+                            {MEAL_SLOTS.map((slot) => (
+                                <div key={slot} className="meal-plan-slot">
+                                    <IonItem lines="none" className="meal-plan-slot-header">
+                                        <IonNote>{SLOT_LABELS[slot]}</IonNote>
+                                        <IonButton
+                                            slot="end"
+                                            fill="clear"
+                                            size="small"
+                                            aria-label={`Add ${slot}`}
+                                            onClick={() => setPickerTarget({ date, slot })}
+                                        >
+                                            <IonIcon slot="icon-only" icon={add} />
+                                        </IonButton>
+                                    </IonItem>
+                                    {dayEntries
+                                        .filter((entry) => entry.slot === slot)
+                                        .map((entry) => (
+                                            <IonItemSliding key={entry.id}>
+                                                <IonItem routerLink={`/meals/${entry.recipeId}`}>
+                                                    <IonLabel>{entry.recipeName}</IonLabel>
+                                                    <IonNote slot="end">
+                                                        {entry.servings}{" "}
+                                                        {entry.servings === 1
+                                                            ? "serving"
+                                                            : "servings"}
+                                                    </IonNote>
+                                                </IonItem>
+                                                <IonItemOptions side="end">
+                                                    <IonItemOption
+                                                        color="primary"
+                                                        onClick={() => promptServings(entry)}
+                                                    >
+                                                        <IonIcon
+                                                            slot="icon-only"
+                                                            icon={peopleOutline}
+                                                        />
+                                                    </IonItemOption>
+                                                    <IonItemOption
+                                                        color="danger"
+                                                        onClick={() =>
+                                                            deleteEntry.mutate({
+                                                                householdId,
+                                                                entryId: entry.id,
+                                                            })
+                                                        }
+                                                    >
+                                                        <IonIcon slot="icon-only" icon={trash} />
+                                                    </IonItemOption>
+                                                </IonItemOptions>
+                                            </IonItemSliding>
+                                        ))}
+                                </div>
+                            ))}
+                        </div>
+                    );
+                })}
+            </IonList>
+
+            <ClickableSelectionModal
+                items={recipeItems}
+                onSelect={handleRecipeSelected}
+                isOpen={pickerTarget !== null}
+                onDismiss={() => setPickerTarget(null)}
+                title={pickerTarget ? `Add ${SLOT_LABELS[pickerTarget.slot]}` : "Add Meal"}
+                searchPlaceholder="Search recipes..."
+                allowClear={false}
+            />
+        </>
+    );
+};
@@ -0,0 +1,31 @@
+import type { Household } from "@basket-bot/core";
+import { createContext } from "react";
+import type { RecipeTagMatchMode } from "../../lib/api/recipe";
+
+export interface MealsContextValue {
+    // Selected household (recipes are household-owned)
+    households: Household[];
+    selectedHouseholdId: string | null;
+    setSelectedHouseholdId: (householdId: string) => void;
+
+    // Recipe list filters
+    searchText: string;
+    setSearchText: (text: string) => void;
+    selectedTagIds: string[];
+    toggleTagFilter: (tagId: string) => void;
+    clearTagFilter: () => void;
+    tagMatchMode: RecipeTagMatchMode;
+    setTagMatchMode: (mode: RecipeTagMatchMode) => void;
+    showHidden: boolean;
+    toggleShowHidden: () => void;
+
+    // Modal states
+    isEditorOpen: boolean; // Create-only; editing happens from recipe detail
+    openCreateRecipe: () => void;
+    closeEditor: () => void;
+    isTagManagerOpen: boolean;
+    openTagManager: () => void;
+    closeTagManager: () => void;
+}
+
+export const MealsContext = createContext<MealsContextValue | undefined>(undefined);
@@ -0,0 +1,119 @@
+import { ReactNode, useCallback, useMemo, useRef, useState } from "react";
+import { useHouseholds } from "../../db/hooks";
+import { useLastMealsHousehold } from "../../hooks/useLastMealsHousehold";
+import type { RecipeTagMatchMode } from "../../lib/api/recipe";
+import { MealsContext, MealsContextValue } from "./MealsContext";
+
+interface MealsProviderProps {
+    children: ReactNode;
+}
+
+export const MealsProvider = ({ children }: MealsProviderProps) => {
+    const [userSelectedHouseholdId, setUserSelectedHouseholdId] = useState<string | null>(null);
+    const [searchText, setSearchText] = useState("");
+    const [selectedTagIds, setSelectedTagIds] = useState<string[]>([]);
+    const [tagMatchMode, setTagMatchMode] = useState<RecipeTagMatchMode>("all");
+    const [showHidden, setShowHidden] = useState(false);
+    const [isEditorOpen, setIsEditorOpen] = useState(false);
+    const [isTagManagerOpen, setIsTagManagerOpen] = useState(false);
+
+    const { data: households } = useHouseholds();
+    const { lastMealsHouseholdId, saveLastMealsHousehold } = useLastMealsHousehold();
+
+    // Store in ref so it doesn't cause callbacks to change
+    const saveLastMealsHouseholdRef = useRef(saveLastMealsHousehold);
+    saveLastMealsHouseholdRef.current = saveLastMealsHousehold;
+
+    // Compute selected household from households data (same fallback order as store selection)
+    const selectedHouseholdId = useMemo(() => {
+        if (!households || households.length === 0) {
+            return null;
+        }
+
+        const preferredId = userSelectedHouseholdId ?? lastMealsHouseholdId;
+        if (preferredId && households.some((h) => h.id === preferredId)) {
+            return preferredId;
+        }
+
+        return households[0].id;
+    }, [households, userSelectedHouseholdId, lastMealsHouseholdId]);
+
+    const handleSetSelectedHouseholdId = useCallback((householdId: string) => {
+        setUserSelectedHouseholdId(householdId);
+        // Tags are household-scoped, so filters don't carry over
+        setSelectedTagIds([]);
+        saveLastMealsHouseholdRef.current(householdId);
+    }, []);
+
+    const toggleTagFilter = useCallback((tagId: string) => {
+        setSelectedTagIds((current) =>
+            current.includes(tagId) ? current.filter((id) => id !== tagId) : [...current, tagId]
+        );
+    }, []);
+
+    const clearTagFilter = useCallback(() => {
+        setSelectedTagIds([]);
+    }, []);
+
+    const toggleShowHidden = useCallback(() => {
+        setShowHidden((current) => !current);
+    }, []);
+
+    const openCreateRecipe = useCallback(() => {
+        setIsEditorOpen(true);
+    }, []);
+
+    const closeEditor = useCallback(() => {
+        setIsEditorOpen(false);
+    }, []);
+
+    const openTagManager = useCallback(() => {
+        setIsTagManagerOpen(true);
+    }, []);
+
+    const closeTagManager = useCallback(() => {
+        setIsTagManagerOpen(false);
+    }, []);
+
+    const value: MealsContextValue = useMemo(() => {
+        return {
+            households: households ?? [],
+            selectedHouseholdId,
+            setSelectedHouseholdId: handleSetSelectedHouseholdId,
+            searchText,
+            setSearchText,
+            selectedTagIds,
+            toggleTagFilter,
+            clearTagFilter,
+            tagMatchMode,
+            setTagMatchMode,
+            showHidden,
+            toggleShowHidden,
+            isEditorOpen,
+            openCreateRecipe,
+            closeEditor,
+            isTagManagerOpen,
+            openTagManager,
+            closeTagManager,
+        };
+    }, [
+        clearTagFilter,
+        closeEditor,
+        closeTagManager,
+        handleSetSelectedHouseholdId,
+        households,
+        isEditorOpen,
+        isTagManagerOpen,
+        openCreateRecipe,
+        openTagManager,
+        searchText,
+        selectedHouseholdId,
+        selectedTagIds,
+        showHidden,
+        tagMatchMode,
+        toggleShowHidden,
+        toggleTagFilter,
+    ]);
+
+    return <MealsContext.Provider value={value}>{children}</MealsContext.Provider>;
+};
@@ -0,0 +1,293 @@
+import type { RecipeFormData, RecipeImport, RecipeWithDetails } from "@basket-bot/core";
+import { recipeFormSchema } from "@basket-bot/core";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+    IonButton,
+    IonButtons,
+    IonContent,
+    IonHeader,
+    IonIcon,
+    IonInput,
+    IonItem,
+    IonItemDivider,
+    IonLabel,
+    IonList,
+    IonModal,
+    IonText,
+    IonTextarea,
+    IonTitle,
+    IonToolbar,
+} from "@ionic/react";
+import { closeOutline, codeDownloadOutline } from "ionicons/icons";
+import { useEffect, useState } from "react";
+import { Controller, useForm } from "react-hook-form";
+import { useRecipeTags, useSaveRecipe } from "../../db/hooks";
+import { RecipeImportModal } from "./RecipeImportModal";
+import { RecipeIngredientEditor } from "./RecipeIngredientEditor";
+import { RecipeTagChip } from "./RecipeTagChip";
+
+import "./RecipeEditorModal.scss";
+
+interface RecipeEditorModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    householdId: string;
+    /** Recipe to edit; null creates a new recipe */
+    recipe: RecipeWithDetails | null;
+}
+
+const toFormData = (recipe: RecipeWithDetails | null): RecipeFormData => ({
+    name: recipe?.name ?? "",
+    description: recipe?.description ?? null,
+    sourceUrl: recipe?.sourceUrl ?? null,
+    servings: recipe?.servings ?? null,
+    steps: recipe?.steps ?? null,
+    tagIds: recipe?.tags.map((t) => t.id) ?? [],
+    ingredients:
+        recipe?.ingredients.map((i) => ({
+            id: i.id,
+            name: i.name,
+            qty: i.qty,
+            unitId: i.unitId,
+            notes: i.notes,
+        })) ?? [],
+});
+
+export const RecipeEditorModal: React.FC<RecipeEditorModalProps> = ({
+    isOpen,
+    onClose,
+    householdId,
+    recipe,
+}) => {
+    const saveRecipe = useSaveRecipe();
+    const { data: tags } = useRecipeTags(householdId);
+    const [isImportOpen, setIsImportOpen] = useState(false);
+
+    const {
+        control,
+        handleSubmit,
+        reset,
+        getValues,
+        formState: { errors, isValid },
+    } = useForm<RecipeFormData>({
+        resolver: zodResolver(recipeFormSchema),
+        mode: "onChange",
+        defaultValues: toFormData(null),
+    });
+
+    // Reset form when modal opens or the edited recipe changes
+    useEffect(() => {
+        if (isOpen) {
+            reset(toFormData(recipe));
+        }
+    }, [isOpen, recipe, reset]);
+
+    // Imported fields replace the form contents; tag selection is kept
+    const applyImport = ({ recipe: imported, ingredients }: RecipeImport) => {
+        reset(
+            {
+                ...getValues(),
+                name: imported.name,
+                description: imported.description ?? null,
+                sourceUrl: imported.sourceUrl ?? null,
+                servings: imported.servings ?? null,
+                steps: imported.steps ?? null,
+                ingredients,
+            },
+            { keepDefaultValues: true }
+        );
+    };
+
+    const onSubmit = async (data: RecipeFormData) => {
+        const { tagIds, ingredients, ...fields } = data;
+        await saveRecipe.mutateAsync({
+            householdId,
+            original: recipe,
+            recipe: {
+                name: fields.name,
+                description: fields.description || null,
+                sourceUrl: fields.sourceUrl || null,
+                servings: fields.servings ?? null,
+                steps: fields.steps || null,
+            },
+            ingredients,
+            tagIds,
+        });
+        onClose();
+    };
+
+    return (
+        <IonModal isOpen={isOpen} onDidDismiss={onClose}>
+            <IonHeader>
+                <IonToolbar>
+                    <IonTitle>{recipe ? "Edit Recipe" : "New Recipe"}</IonTitle>
+                    <IonButtons slot="end">
+                        <IonButton onClick={onClose}>
+                            <IonIcon icon={closeOutline} />
+                        </IonButton>
+                    </IonButtons>
+                </IonToolbar>
+            </IonHeader>
+            <IonContent>
+                <form onSubmit={handleSubmit(onSubmit)}>
+                    <IonList>
+                        <IonItem button detail={false} onClick={() => setIsImportOpen(true)}>
+                            <IonIcon slot="start" icon={codeDownloadOutline} />
+                            <IonLabel>Import from page source</IonLabel>
+                        </IonItem>
+                        <Controller
+                            name="name"
+                            control={control}
+                            render={({ field }) => (
+                                <IonItem>
+                                    <IonLabel position="stacked">Name</IonLabel>
+                                    <IonInput
+                                        value={field.value}
+                                        placeholder="Recipe name"
+                                        onIonInput={(e) => field.onChange(e.detail.value ?? "")}
+                                    />
+                                </IonItem>
+                            )}
+                        />
+                        {errors.name && (
+                            <IonText color="danger">
+                                <p className="recipe-form-error">{errors.name.message}</p>
+                            </IonText>
+                        )}
+                        <Controller
+                            name="description"
+                            control={control}
+                            render={({ field }) => (
+                                <IonItem>
+                                    <IonLabel position="stacked">Description</IonLabel>
+                                    <IonTextarea
+                                        value={field.value}
+                                        autoGrow
+                                        placeholder="Optional"
+                                        onIonInput={(e) => field.onChange(e.detail.value || null)}
+                                    />
+                                </IonItem>
+                            )}
+                        />
+                        <Controller
+                            name="servings"
+                            control={control}
+                            render={({ field }) => (
+                                <IonItem>
+                                    <IonLabel position="stacked">Servings</IonLabel>
+                                    <IonInput
+                                        value={field.value}
+                                        type="number"
+                                        min="1"
+                                        step="1"
+                                        placeholder="How many people it feeds"
+                                        onIonInput={(e) => {
+                                            const val = e.detail.value;
+                                            field.onChange(val ? parseInt(val, 10) : null);
+                                        }}
+                                    />
+                                </IonItem>
+                            )}
+                        />
+                        {errors.servings && (
+                            <IonText color="danger">
+                                <p className="recipe-form-error">{errors.servings.message}</p>
+                            </IonText>
+                        )}
+                        <Controller
+                            name="sourceUrl"
+                            control={control}
+                            render={({ field }) => (
+                                <IonItem>
+                                    <IonLabel position="stacked">Source URL</IonLabel>
+                                    <IonInput
+                                        value={field.value}
+                                        type="url"
+                                        placeholder="Optional"
+                                        onIonInput={(e) => field.onChange(e.detail.value || null)}
+                                    />
+                                </IonItem>
+                            )}
+                        />
+                    </IonList>
+
+                    {tags && tags.length > 0 && (
+                        <IonList>
+                            <IonItemDivider>
+                                <IonLabel>Tags</IonLabel>
+                            </IonItemDivider>
+                            <Controller
+                                name="tagIds"
+                                control={control}
+                                render={({ field: { value, onChange } }) => (
+                                    <div className="recipe-editor-tags">
+                                        {tags.map((tag) => (
+                                            <RecipeTagChip
+                                                key={tag.id}
+                                                tag={tag}
+                                                selected={value.includes(tag.id)}
+                                                onClick={() =>
+                                                    onChange(
+                                                        value.includes(tag.id)
+                                                            ? value.filter((id) => id !== tag.id)
+                                                            : [...value, tag.id]
+                                                    )
+                                                }
+                                            />
+                                        ))}
+                                    </div>
+                                )}
+                            />
+                        </IonList>
+                    )}
+
+                    <RecipeIngredientEditor control={control} errors={errors} />
+
+                    <IonList>
+                        <IonItemDivider>
+                            <IonLabel>Steps</IonLabel>
+                        </IonItemDivider>
+                        <Controller
+                            name="steps"
+                            control={control}
+                            render={({ field }) => (
+                                <IonItem>
+                                    <IonTextarea
+                                        value={field.value}
+                                        autoGrow
+                                        rows={6}
+                                        aria-label="Steps"
+                                        placeholder={
+                                            "Markdown supported, e.g.\n1. Preheat oven\n2. **Do not** burn"
+                                        }
+                                        onIonInput={(e) => field.onChange(e.detail.value || null)}
+                                    />
+                                </IonItem>
+                            )}
+                        />
+                        {errors.steps && (
+                            <IonText color="danger">
+                                <p className="recipe-form-error">{errors.steps.message}</p>
+                            </IonText>
+                        )}
+                    </IonList>
+
+                    <div className="ion-padding">
+                        <IonButton
+                            expand="block"
+                            type="submit"
+                            disabled={!isValid || saveRecipe.isPending}
+                        >
+                            {recipe ? "Save Recipe" : "Create Recipe"}
+                        </IonButton>
+                    </div>
+                </form>
+                <RecipeImportModal
+                    isOpen={isImportOpen}
+                    onClose={() => setIsImportOpen(false)}
+                    onImport={applyImport}
+                />
+            </IonContent>
+        </IonModal>
+    );
+};
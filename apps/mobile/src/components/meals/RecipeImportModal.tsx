@@ -0,0 +1,97 @@
+import type { RecipeImport } from "@basket-bot/core";
+import { parseRecipeImport } from "@basket-bot/core";
+import {
+    IonButton,
+    IonButtons,
+    IonContent,
+    IonHeader,
+    IonIcon,
+    IonItem,
+    IonModal,
+    IonNote,
+    IonText,
+    IonTextarea,
+    IonTitle,
+    IonToolbar,
+} from "@ionic/react";
+import { closeOutline } from "ionicons/icons";
+import { useEffect, useState } from "react";
+import { useQuantityUnits } from "../../db/hooks";
+
+interface RecipeImportModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onImport: (result: RecipeImport) => void;
+}
+
+/**
+ * Paste a recipe page's HTML source (or its JSON-LD) and parse the schema.org Recipe in it.
+ * Parsing runs locally - nothing is fetched.
+ */
+export const RecipeImportModal: React.FC<RecipeImportModalProps> = ({
+    isOpen,
+    onClose,
+    onImport,
+}) => {
+    const { data: units } = useQuantityUnits();
+    const [source, setSource] = useState("");
+    const [error, setError] = useState<string | null>(null);
+
+    // Start empty each time the modal opens
+    useEffect(() => {
+        if (isOpen) {
+            setSource("");
+            setError(null);
+        }
+    }, [isOpen]);
+
+    const handleImport = () => {
+        try {
+            onImport(parseRecipeImport(source, units ?? []));
+            onClose();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Could not read a recipe from this text");
+        }
+    };
+
+    return (
+        <IonModal isOpen={isOpen} onDidDismiss={onClose}>
+            <IonHeader>
+                <IonToolbar>
+                    <IonTitle>Import Recipe</IonTitle>
+                    <IonButtons slot="end">
+                        <IonButton onClick={onClose}>
+                            <IonIcon icon={closeOutline} />
+                        </IonButton>
+                    </IonButtons>
+                </IonToolbar>
+            </IonHeader>
+            <IonContent className="ion-padding">
+                <IonNote>
+                    Open the recipe page in a browser, view its page source, and paste it below.
+                    Pasting just the schema.org Recipe JSON-LD works too.
+                </IonNote>
+                <IonItem lines="full">
+                    <IonTextarea
+                        value={source}
+                        rows={12}
+                        aria-label="Page source"
+                        placeholder='<html>... or { "@type": "Recipe", ... }'
+                        onIonInput={(e) => {
+                            setSource(e.detail.value ?? "");
+                            setError(null);
+                        }}
+                    />
+                </IonItem>
+                {error && (
+                    <IonText color="danger">
+                        <p className="recipe-form-error">{error}</p>
+                    </IonText>
+                )}
+                <IonButton expand="block" disabled={!source.trim()} onClick={handleImport}>
+                    Import
+                </IonButton>
+            </IonContent>
+        </IonModal>
+    );
+};
@@ -0,0 +1,142 @@
+import type { RecipeFormData } from "@basket-bot/core";
+import {
+    IonButton,
+    IonIcon,
+    IonInput,
+    IonItem,
+    IonItemDivider,
+    IonLabel,
+    IonList,
+    IonReorder,
+    IonReorderGroup,
+    IonText,
+    ItemReorderEventDetail,
+} from "@ionic/react";
+import { add, trash } from "ionicons/icons";
+import { Control, Controller, FieldErrors, useFieldArray } from "react-hook-form";
+import { UnitSelectField } from "../shoppinglist/UnitSelector";
+
+interface RecipeIngredientEditorProps {
+    control: Control<RecipeFormData>;
+    errors: FieldErrors<RecipeFormData>;
+}
+
+export const RecipeIngredientEditor: React.FC<RecipeIngredientEditorProps> = ({
+    control,
+    errors,
+}) => {
+    // Ingredient drafts carry their own server id, so field keys use a separate name
+    const { fields, append, remove, move } = useFieldArray({
+        control,
+        name: "ingredients",
+        keyName: "fieldKey",
+    });
+
+    const handleReorder = (event: CustomEvent<ItemReorderEventDetail>) => {
+        move(event.detail.from, event.detail.to);
+        // Let the form array drive the DOM order instead of Ionic
+        event.detail.complete(false);
+    };
+
+    return (
+        <IonList className="recipe-ingredient-editor">
+            <IonItemDivider>
+                <IonLabel>Ingredients</IonLabel>
+            </IonItemDivider>
+            <IonReorderGroup disabled={fields.length < 2} onIonItemReorder={handleReorder}>
+                {fields.map((field, index) => (
+                    <div key={field.fieldKey} className="recipe-ingredient-row">
+                        <IonItem lines="none">
+                            <Controller
+                                name={`ingredients.${index}.name`}
+                                control={control}
+                                render={({ field: { value, onChange } }) => (
+                                    <IonInput
+                                        value={value}
+                                        placeholder="Ingredient"
+                                        aria-label="Ingredient name"
+                                        onIonInput={(e) => onChange(e.detail.value ?? "")}
+                                    />
+                                )}
+                            />
+                            <IonButton
+                                fill="clear"
+                                color="danger"
+                                slot="end"
+                                aria-label="Remove ingredient"
+                                onClick={() => remove(index)}
+                            >
+                                <IonIcon slot="icon-only" icon={trash} />
+                            </IonButton>
+                            <IonReorder slot="end" />
+                        </IonItem>
+                        <div className="recipe-ingredient-row-details">
+                            <Controller
+                                name={`ingredients.${index}.qty`}
+                                control={control}
+                                render={({ field: { value, onChange } }) => (
+                                    <IonItem lines="none" className="recipe-ingredient-qty">
+                                        <IonInput
+                                            value={value}
+                                            type="number"
+                                            min="0"
+                                            step="any"
+                                            placeholder="Qty"
+                                            aria-label="Quantity"
+                                            onIonInput={(e) => {
+                                                const val = e.detail.value;
+                                                onChange(val ? parseFloat(val) : null);
+                                            }}
+                                        />
+                                    </IonItem>
+                                )}
+                            />
+                            <Controller
+                                name={`ingredients.${index}.unitId`}
+                                control={control}
+                                render={({ field: { value, onChange } }) => (
+                                    <div className="recipe-ingredient-unit">
+                                        <UnitSelectField
+                                            value={value}
+                                            onSelect={onChange}
+                                            lines="none"
+                                        />
+                                    </div>
+                                )}
+                            />
+                        </div>
+                        <Controller
+                            name={`ingredients.${index}.notes`}
+                            control={control}
+                            render={({ field: { value, onChange } }) => (
+                                <IonItem>
+                                    <IonInput
+                                        value={value}
+                                        placeholder="Notes (e.g. finely chopped)"
+                                        aria-label="Ingredient notes"
+                                        onIonInput={(e) => onChange(e.detail.value || null)}
+                                    />
+                                </IonItem>
+                            )}
+                        />
+                        {errors.ingredients?.[index]?.name && (
+                            <IonText color="danger">
+                                <p className="recipe-form-error">
+                                    {errors.ingredients[index]?.name?.message}
+                                </p>
+                            </IonText>
+                        )}
+                    </div>
+                ))}
+            </IonReorderGroup>
+            <IonButton
+                fill="clear"
+                expand="block"
+                onClick={() => append({ name: "", qty: null, unitId: null, notes: null })}
+            >
+                <IonIcon slot="start" icon={add} />
+                Add Ingredient
+            </IonButton>
+        </IonList>
+    );
+};
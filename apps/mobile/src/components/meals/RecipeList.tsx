@@ -0,0 +1,70 @@
+import { IonItem, IonLabel, IonList, IonNote, IonSearchbar, IonText } from "@ionic/react";
+import { useMemo } from "react";
+import { useRecipes } from "../../db/hooks";
+import { RecipeTagFilter } from "./RecipeTagFilter";
+import { useMealsContext } from "./useMealsContext";
+
+export const RecipeList: React.FC = () => {
+    const {
+        selectedHouseholdId,
+        searchText,
+        setSearchText,
+        selectedTagIds,
+        tagMatchMode,
+        showHidden,
+    } = useMealsContext();
+    const { data: recipes, isLoading } = useRecipes(selectedHouseholdId, {
+        tagIds: selectedTagIds,
+        tagMode: tagMatchMode,
+        includeHidden: showHidden,
+    });
+
+    const filteredRecipes = useMemo(() => {
+        if (!recipes) return [];
+        const search = searchText.trim().toLowerCase();
+        if (!search) return recipes;
+        return recipes.filter(
+            (recipe) =>
+                recipe.name.toLowerCase().includes(search) ||
+                recipe.description?.toLowerCase().includes(search)
+        );
+    }, [recipes, searchText]);
+
+    const hasFilters = selectedTagIds.length > 0 || searchText.trim().length > 0;
+
+    return (
+        <>
+            <IonSearchbar
+                value={searchText}
+                onIonInput={(e) => setSearchText(e.detail.value ?? "")}
+                placeholder="Search recipes"
+                debounce={150}
+            />
+            <RecipeTagFilter />
+            {!isLoading && filteredRecipes.length === 0 && (
+                <div className="meals-empty-state">
+                    <IonText color="medium">
+                        <p>
+                            {hasFilters
+                                ? "No recipes match. Your criteria are too exacting, even for me."
+                                : "No recipes yet. Tap + to teach me what you eat."}
+                        </p>
+                    </IonText>
+                </div>
+            )}
+            {filteredRecipes.length > 0 && (
+                <IonList>
+                    {filteredRecipes.map((recipe) => (
+                        <IonItem key={recipe.id} routerLink={`/meals/${recipe.id}`} detail>
+                            <IonLabel>
+                                <h2>{recipe.name}</h2>
+                                {recipe.description && <p>{recipe.description}</p>}
+                            </IonLabel>
+                            {recipe.isHidden && <IonNote slot="end">Hidden</IonNote>}
+                        </IonItem>
+                    ))}
+                </IonList>
+            )}
+        </>
+    );
+};
@@ -0,0 +1,71 @@
+import { MAX_RECIPE_SERVINGS } from "@basket-bot/core";
+import { IonButton, IonChip, IonIcon, IonLabel, IonText } from "@ionic/react";
+import { add, remove } from "ionicons/icons";
+
+// Batch multipliers offered when a recipe's yield is unknown
+const SCALE_PRESETS = [0.5, 1, 2, 3];
+
+interface RecipeScaleControlProps {
+    /** Recipe yield; null means scaling by batch multiplier */
+    recipeServings: number | null;
+    factor: number;
+    onChange: (factor: number) => void;
+}
+
+/**
+ * Servings stepper (recipes with a known yield) or batch multiplier chips (unknown yield)
+ */
+export const RecipeScaleControl: React.FC<RecipeScaleControlProps> = ({
+    recipeServings,
+    factor,
+    onChange,
+}) => {
+    if (!recipeServings) {
+        return (
+            <div className="recipe-scale-control">
+                <IonText color="medium">Batch</IonText>
+                {SCALE_PRESETS.map((preset) => (
+                    <IonChip
+                        key={preset}
+                        color={preset === factor ? "primary" : "medium"}
+                        onClick={() => onChange(preset)}
+                    >
+                        <IonLabel>{preset === 0.5 ? "½" : preset}×</IonLabel>
+                    </IonChip>
+                ))}
+            </div>
+        );
+    }
+
+    const servings = Math.round(recipeServings * factor);
+    const setServings = (next: number) => onChange(next / recipeServings);
+
+    return (
+        <div className="recipe-scale-control">
+            <IonButton
+                fill="clear"
+                size="small"
+                aria-label="Fewer servings"
+                disabled={servings <= 1}
+                onClick={() => setServings(servings - 1)}
+            >
+                <IonIcon slot="icon-only" icon={remove} />
+            </IonButton>
+            <IonText>
+                {servings} {servings === 1 ? "serving" : "servings"}
+                {servings !== recipeServings && (
+                    <IonText color="medium"> (recipe makes {recipeServings})</IonText>
+                )}
+            </IonText>
+            <IonButton
+                fill="clear"
+                size="small"
+                aria-label="More servings"
+                disabled={servings >= MAX_RECIPE_SERVINGS}
+                onClick={() => setServings(servings + 1)}
+            >
+                <IonIcon slot="icon-only" icon={add} />
+            </IonButton>
+        </div>
+    );
+};
@@ -0,0 +1,46 @@
+import type { RecipeTag } from "@basket-bot/core";
+import { IonChip, IonLabel } from "@ionic/react";
+import type { CSSProperties } from "react";
+
+import "./RecipeTagChip.scss";
+
+// Preset palette offered by the tag manager; tags without a color fall back to medium
+export const RECIPE_TAG_COLORS = [
+    "#e53935",
+    "#fb8c00",
+    "#fdd835",
+    "#43a047",
+    "#00897b",
+    "#1e88e5",
+    "#5e35b1",
+    "#d81b60",
+    "#6d4c41",
+    "#757575",
+] as const;
+
+const DEFAULT_TAG_COLOR = "var(--ion-color-medium)";
+
+export const getTagColorStyle = (color: string | null | undefined) =>
+    ({ "--recipe-tag-color": color || DEFAULT_TAG_COLOR }) as CSSProperties;
+
+interface RecipeTagChipProps {
+    tag: RecipeTag;
+    selected?: boolean;
+    onClick?: () => void;
+}
+
+export const RecipeTagChip: React.FC<RecipeTagChipProps> = ({ tag, selected = false, onClick }) => {
+    const classes = ["recipe-tag-chip"];
+    if (selected) classes.push("recipe-tag-chip--selected");
+    if (!onClick) classes.push("recipe-tag-chip--static");
+
+    return (
+        <IonChip
+            className={classes.join(" ")}
+            style={getTagColorStyle(tag.color)}
+            onClick={onClick}
+        >
+            <IonLabel>{tag.name}</IonLabel>
+        </IonChip>
+    );
+};
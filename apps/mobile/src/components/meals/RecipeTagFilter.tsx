@@ -0,0 +1,59 @@
+import { IonButton, IonLabel, IonSegment, IonSegmentButton } from "@ionic/react";
+import { useRecipeTags } from "../../db/hooks";
+import type { RecipeTagMatchMode } from "../../lib/api/recipe";
+import { RecipeTagChip } from "./RecipeTagChip";
+import { useMealsContext } from "./useMealsContext";
+
+export const RecipeTagFilter: React.FC = () => {
+    const {
+        selectedHouseholdId,
+        selectedTagIds,
+        toggleTagFilter,
+        clearTagFilter,
+        tagMatchMode,
+        setTagMatchMode,
+    } = useMealsContext();
+    const { data: tags } = useRecipeTags(selectedHouseholdId);
+
+    if (!tags || tags.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className="recipe-tag-filter">
+            <div className="recipe-tag-filter-chips">
+                {tags.map((tag) => (
+                    <RecipeTagChip
+                        key={tag.id}
+                        tag={tag}
+                        selected={selectedTagIds.includes(tag.id)}
+                        onClick={() => toggleTagFilter(tag.id)}
+                    />
+                ))}
+            </div>
+            {selectedTagIds.length > 0 && (
+                <div className="recipe-tag-filter-options">
+                    {/* Match mode only matters once more than one tag is selected */}
+                    {selectedTagIds.length > 1 && (
+                        <IonSegment
+                            value={tagMatchMode}
+                            onIonChange={(e) =>
+                                setTagMatchMode(e.detail.value as RecipeTagMatchMode)
+                            }
+                        >
+                            <IonSegmentButton value="all">
+                                <IonLabel>Match all</IonLabel>
+                            </IonSegmentButton>
+                            <IonSegmentButton value="any">
+                                <IonLabel>Match any</IonLabel>
+                            </IonSegmentButton>
+                        </IonSegment>
+                    )}
+                    <IonButton fill="clear" size="small" onClick={clearTagFilter}>
+                        Clear
+                    </IonButton>
+                </div>
+            )}
+        </div>
+    );
+};
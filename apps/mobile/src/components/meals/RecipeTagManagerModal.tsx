@@ -0,0 +1,206 @@
+import type { RecipeTag } from "@basket-bot/core";
+import {
+    IonButton,
+    IonButtons,
+    IonContent,
+    IonHeader,
+    IonIcon,
+    IonInput,
+    IonItem,
+    IonLabel,
+    IonList,
+    IonModal,
+    IonText,
+    IonTitle,
+    IonToolbar,
+    useIonAlert,
+} from "@ionic/react";
+import { checkmark, closeOutline, create, trash } from "ionicons/icons";
+import { useState } from "react";
+import {
+    useCreateRecipeTag,
+    useDeleteRecipeTag,
+    useRecipeTags,
+    useUpdateRecipeTag,
+} from "../../db/hooks";
+import { getTagColorStyle, RECIPE_TAG_COLORS, RecipeTagChip } from "./RecipeTagChip";
+import { useMealsContext } from "./useMealsContext";
+
+const ColorPalette: React.FC<{ value: string | null; onChange: (color: string) => void }> = ({
+    value,
+    onChange,
+}) => (
+    <div className="recipe-tag-palette">
+        {RECIPE_TAG_COLORS.map((color) => (
+            <button
+                key={color}
+                type="button"
+                aria-label={`Color ${color}`}
+                className={`recipe-tag-swatch${value === color ? " recipe-tag-swatch--active" : ""}`}
+                style={getTagColorStyle(color)}
+                onClick={() => onChange(color)}
+            />
+        ))}
+    </div>
+);
+
+export const RecipeTagManagerModal: React.FC = () => {
+    const { selectedHouseholdId, isTagManagerOpen, closeTagManager } = useMealsContext();
+    const { data: tags } = useRecipeTags(selectedHouseholdId);
+    const createTag = useCreateRecipeTag();
+    const updateTag = useUpdateRecipeTag();
+    const deleteTag = useDeleteRecipeTag();
+    const [presentAlert] = useIonAlert();
+
+    const [newName, setNewName] = useState("");
+    const [newColor, setNewColor] = useState<string>(RECIPE_TAG_COLORS[0]);
+    const [editingTagId, setEditingTagId] = useState<string | null>(null);
+    const [editName, setEditName] = useState("");
+    const [editColor, setEditColor] = useState<string | null>(null);
+
+    const handleCreate = async () => {
+        const name = newName.trim();
+        if (!selectedHouseholdId || !name) return;
+        await createTag.mutateAsync({
+            householdId: selectedHouseholdId,
+            input: { name, color: newColor },
+        });
+        setNewName("");
+    };
+
+    const startEdit = (tag: RecipeTag) => {
+        setEditingTagId(tag.id);
+        setEditName(tag.name);
+        setEditColor(tag.color);
+    };
+
+    const handleUpdate = async () => {
+        const name = editName.trim();
+        if (!selectedHouseholdId || !editingTagId || !name) return;
+        await updateTag.mutateAsync({
+            householdId: selectedHouseholdId,
+            tagId: editingTagId,
+            input: { name, color: editColor },
+        });
+        setEditingTagId(null);
+    };
+
+    const confirmDelete = (tag: RecipeTag) => {
+        if (!selectedHouseholdId) return;
+        presentAlert({
+            header: "Delete Tag",
+            message: `Delete "${tag.name}"? It will be removed from all recipes.`,
+            buttons: [
+                { text: "Cancel", role: "cancel" },
+                {
+                    text: "Delete",
+                    role: "destructive",
+                    handler: () => {
+                        deleteTag.mutate({ householdId: selectedHouseholdId, tagId: tag.id });
+                    },
+                },
+            ],
+        });
+    };
+
+    return (
+        <IonModal isOpen={isTagManagerOpen} onDidDismiss={closeTagManager}>
+            <IonHeader>
+                <IonToolbar>
+                    <IonTitle>Recipe Tags</IonTitle>
+                    <IonButtons slot="end">
+                        <IonButton onClick={closeTagManager}>
+                            <IonIcon icon={closeOutline} />
+                        </IonButton>
+                    </IonButtons>
+                </IonToolbar>
+            </IonHeader>
+            <IonContent>
+                <IonList>
+                    <IonItem>
+                        <IonInput
+                            value={newName}
+                            placeholder="New tag name"
+                            aria-label="New tag name"
+                            onIonInput={(e) => setNewName(e.detail.value ?? "")}
+                        />
+                        <IonButton
+                            slot="end"
+                            onClick={handleCreate}
+                            disabled={!newName.trim() || createTag.isPending}
+                        >
+                            Add
+                        </IonButton>
+                    </IonItem>
+                    <ColorPalette value={newColor} onChange={setNewColor} />
+                </IonList>
+
+                {tags && tags.length === 0 && (
+                    <div className="meals-empty-state">
+                        <IonText color="medium">
+                            <p>No tags yet. Categorize, or accept chaos.</p>
+                        </IonText>
+                    </div>
+                )}
+
+                <IonList>
+                    {tags?.map((tag) =>
+                        tag.id === editingTagId ? (
+                            <div key={tag.id}>
+                                <IonItem>
+                                    <IonInput
+                                        value={editName}
+                                        aria-label="Tag name"
+                                        onIonInput={(e) => setEditName(e.detail.value ?? "")}
+                                    />
+                                    <IonButton
+                                        slot="end"
+                                        fill="clear"
+                                        aria-label="Save tag"
+                                        onClick={handleUpdate}
+                                        disabled={!editName.trim() || updateTag.isPending}
+                                    >
+                                        <IonIcon slot="icon-only" icon={checkmark} />
+                                    </IonButton>
+                                    <IonButton
+                                        slot="end"
+                                        fill="clear"
+                                        color="medium"
+                                        aria-label="Cancel editing"
+                                        onClick={() => setEditingTagId(null)}
+                                    >
+                                        <IonIcon slot="icon-only" icon={closeOutline} />
+                                    </IonButton>
+                                </IonItem>
+                                <ColorPalette value={editColor} onChange={setEditColor} />
+                            </div>
+                        ) : (
+                            <IonItem key={tag.id}>
+                                <IonLabel>
+                                    <RecipeTagChip tag={tag} />
+                                </IonLabel>
+                                <IonButton
+                                    slot="end"
+                                    fill="clear"
+                                    aria-label={`Edit ${tag.name}`}
+                                    onClick={() => startEdit(tag)}
+                                >
+                                    <IonIcon slot="icon-only" icon={create} />
+                                </IonButton>
+                                <IonButton
+                                    slot="end"
+                                    fill="clear"
+                                    color="danger"
+                                    aria-label={`Delete ${tag.name}`}
+                                    onClick={() => confirmDelete(tag)}
+                                >
+                                    <IonIcon slot="icon-only" icon={trash} />
+                                </IonButton>
+                            </IonItem>
+                        )
+                    )}
+                </IonList>
+            </IonContent>
+        </IonModal>
+    );
+};
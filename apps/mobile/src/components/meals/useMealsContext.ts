@@ -0,0 +1,10 @@
+import { useContext } from "react";
+import { MealsContext } from "./MealsContext";
+
+export const useMealsContext = () => {
+    const context = useContext(MealsContext);
+    if (!context) {
+        throw new Error("useMealsContext must be used within MealsProvider");
+    }
+    return context;
+};
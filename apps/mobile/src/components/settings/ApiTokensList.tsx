@@ -0,0 +1,119 @@
+import type { ApiToken } from "@basket-bot/core";
+import {
+    IonButton,
+    IonIcon,
+    IonItem,
+    IonLabel,
+    IonList,
+    IonListHeader,
+    IonText,
+    useIonAlert,
+} from "@ionic/react";
+import { addOutline, trashOutline } from "ionicons/icons";
+import pluralize from "pluralize";
+import { useState } from "react";
+import { useApiTokens, useRevokeApiToken } from "../../db/hooks";
+import { formatShortDate } from "../../utils/dateUtils";
+import CreateApiTokenModal from "./CreateApiTokenModal";
+
+interface ApiTokensListProps {
+    isOpen: boolean;
+}
+
+const describeExpiry = (apiToken: ApiToken): string => {
+    if (!apiToken.expiresAt) return "Never expires";
+    return new Date(apiToken.expiresAt) <= new Date()
+        ? "Expired"
+        : `Expires ${formatShortDate(apiToken.expiresAt)}`;
+};
+
+/**
+ * Personal API tokens for scripts and home automation, with creating and revoking
+ */
+const ApiTokensList: React.FC<ApiTokensListProps> = ({ isOpen }) => {
+    const { data: apiTokens, isLoading } = useApiTokens(isOpen);
+    const revokeApiToken = useRevokeApiToken();
+    const [presentAlert] = useIonAlert();
+    const [isCreateOpen, setIsCreateOpen] = useState(false);
+
+    const confirmRevoke = (apiToken: ApiToken) => {
+        presentAlert({
+            header: "Revoke API Token",
+            message: `Revoke "${apiToken.name}"? Anything using it will stop working.`,
+            buttons: [
+                { text: "Cancel", role: "cancel" },
+                {
+                    text: "Revoke",
+                    role: "destructive",
+                    handler: () => {
+                        revokeApiToken.mutate(apiToken.id);
+                    },
+                },
+            ],
+        });
+    };
+
+    return (
+        <IonList>
+            <IonListHeader>
+                <h2>API Tokens</h2>
+            </IonListHeader>
+
+            <IonText color="medium" className="ion-padding-horizontal">
+                <p>
+                    Let scripts and home automation use your account, with limited permissions.
+                    Changing your password revokes them all.
+                </p>
+            </IonText>
+
+            {isLoading && (
+                <IonText color="medium" className="ion-padding-horizontal">
+                    <p>Loading API tokens...</p>
+                </IonText>
+            )}
+
+            {apiTokens?.map((apiToken) => (
+                <IonItem key={apiToken.id}>
+                    <IonLabel>
+                        <h3>{apiToken.name}</h3>
+                        <p>
+                            {apiToken.tokenPrefix}… · {apiToken.scopes.join(", ")}
+                        </p>
+                        <p>
+                            {apiToken.storeIds
+                                ? `Limited to ${apiToken.storeIds.length} ${pluralize("store", apiToken.storeIds.length)}`
+                                : "All stores"}{" "}
+                            · {describeExpiry(apiToken)}
+                        </p>
+                        <p>
+                            {apiToken.lastUsedAt
+                                ? `Last used ${formatShortDate(apiToken.lastUsedAt)}`
+                                : "Never used"}
+                        </p>
+                    </IonLabel>
+                    <IonButton
+                        slot="end"
+                        fill="clear"
+                        color="danger"
+                        aria-label={`Revoke ${apiToken.name}`}
+                        disabled={revokeApiToken.isPending}
+                        onClick={() => confirmRevoke(apiToken)}
+                    >
+                        <IonIcon slot="icon-only" icon={trashOutline} />
+                    </IonButton>
+                </IonItem>
+            ))}
+
+            <div className="ion-padding">
+                <IonButton expand="block" fill="outline" onClick={() => setIsCreateOpen(true)}>
+                    <IonIcon icon={addOutline} slot="start" />
+                    New API Token
+                </IonButton>
+            </div>
+
+            <CreateApiTokenModal isOpen={isCreateOpen} onClose={() => setIsCreateOpen(false)} />
+        </IonList>
+    );
+};
+
+export default ApiTokensList;
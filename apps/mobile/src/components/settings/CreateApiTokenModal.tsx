@@ -0,0 +1,271 @@
+import {
+    API_TOKEN_SCOPES,
+    createApiTokenRequestSchema,
+    type ApiTokenScope,
+    type CreateApiTokenResponse,
+} from "@basket-bot/core";
+import {
+    IonButton,
+    IonButtons,
+    IonCheckbox,
+    IonContent,
+    IonHeader,
+    IonIcon,
+    IonInput,
+    IonItem,
+    IonLabel,
+    IonList,
+    IonListHeader,
+    IonModal,
+    IonNote,
+    IonSelect,
+    IonSelectOption,
+    IonText,
+    IonTextarea,
+    IonTitle,
+    IonToolbar,
+} from "@ionic/react";
+import { closeOutline, copyOutline } from "ionicons/icons";
+import React, { useEffect, useState } from "react";
+import { useCreateApiToken, useStores } from "../../db/hooks";
+import { useToast } from "../../hooks/useToast";
+
+type Access = "none" | "read" | "write";
+
+// Scopes come in read/write pairs per resource ("shopping-list:read", "shopping-list:write")
+const RESOURCES: { resource: string; label: string }[] = [
+    { resource: "shopping-list", label: "Shopping lists" },
+    { resource: "stores", label: "Stores and items" },
+    { resource: "recipes", label: "Recipes" },
+    { resource: "meal-plans", label: "Meal plans" },
+    { resource: "list-templates", label: "List templates" },
+];
+
+// Resources a store limit applies to
+const STORE_RESOURCES = ["shopping-list", "stores"];
+
+const EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+    { label: "30 days", days: 30 },
+    { label: "90 days", days: 90 },
+    { label: "1 year", days: 365 },
+    { label: "Never", days: null },
+];
+
+const toScopes = (access: Record<string, Access>): ApiTokenScope[] =>
+    API_TOKEN_SCOPES.filter((scope) => {
+        const [resource, level] = scope.split(":");
+        return access[resource] === level;
+    });
+
+interface CreateApiTokenModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+/**
+ * Creates a personal API token for scripts and home automation, then shows its value once
+ */
+const CreateApiTokenModal: React.FC<CreateApiTokenModalProps> = ({ isOpen, onClose }) => {
+    const { data: stores } = useStores();
+    const createApiToken = useCreateApiToken();
+    const { showSuccess, showError } = useToast();
+
+    const [name, setName] = useState("");
+    const [access, setAccess] = useState<Record<string, Access>>({});
+    const [limitToStores, setLimitToStores] = useState(false);
+    const [storeIds, setStoreIds] = useState<string[]>([]);
+    const [expiresInDays, setExpiresInDays] = useState<number | null>(90);
+    const [error, setError] = useState<string | null>(null);
+    const [created, setCreated] = useState<CreateApiTokenResponse | null>(null);
+
+    // Start over each time the modal opens
+    useEffect(() => {
+        if (isOpen) {
+            setName("");
+            setAccess({ "shopping-list": "write" });
+            setLimitToStores(false);
+            setStoreIds([]);
+            setExpiresInDays(90);
+            setError(null);
+            setCreated(null);
+        }
+    }, [isOpen]);
+
+    const usesStores = STORE_RESOURCES.some((resource) => (access[resource] ?? "none") !== "none");
+
+    const toggleStore = (storeId: string, checked: boolean) => {
+        setStoreIds((prev) => (checked ? [...prev, storeId] : prev.filter((id) => id !== storeId)));
+    };
+
+    const handleCreate = async () => {
+        setError(null);
+        const parsed = createApiTokenRequestSchema.safeParse({
+            name: name.trim(),
+            scopes: toScopes(access),
+            storeIds: usesStores && limitToStores ? storeIds : null,
+            expiresInDays,
+        });
+        if (!parsed.success) {
+            setError(parsed.error.errors[0]?.message ?? "Check the token settings");
+            return;
+        }
+
+        const response = await createApiToken.mutateAsync(parsed.data).catch(() => null);
+        if (response) {
+            setCreated(response);
+        }
+    };
+
+    const handleCopy = async () => {
+        if (!created) return;
+        try {
+            await navigator.clipboard.writeText(created.token);
+            showSuccess("API token copied");
+        } catch {
+            showError("Couldn't copy; select the text and copy it instead");
+        }
+    };
+
+    return (
+        <IonModal isOpen={isOpen} onDidDismiss={onClose}>
+            <IonHeader>
+                <IonToolbar>
+                    <IonTitle>New API Token</IonTitle>
+                    <IonButtons slot="end">
+                        <IonButton onClick={onClose}>
+                            <IonIcon icon={closeOutline} />
+                        </IonButton>
+                    </IonButtons>
+                </IonToolbar>
+            </IonHeader>
+            <IonContent className="ion-padding">
+                {created ? (
+                    <>
+                        <IonItem lines="full">
+                            <IonTextarea
+                                value={created.token}
+                                rows={3}
+                                readonly
+                                aria-label="API token"
+                            />
+                        </IonItem>
+                        <IonNote>
+                            Copy this token now; it won&apos;t be shown again. Send it as
+                            &quot;Authorization: Bearer &lt;token&gt;&quot;.
+                        </IonNote>
+                        <IonButton expand="block" onClick={handleCopy}>
+                            <IonIcon icon={copyOutline} slot="start" />
+                            Copy to Clipboard
+                        </IonButton>
+                        <IonButton expand="block" fill="clear" onClick={onClose}>
+                            Done
+                        </IonButton>
+                    </>
+                ) : (
+                    <>
+                        <IonList>
+                            <IonItem>
+                                <IonLabel position="stacked">Name</IonLabel>
+                                <IonInput
+                                    value={name}
+                                    placeholder="e.g. Home Assistant"
+                                    onIonInput={(e) => setName(e.detail.value ?? "")}
+                                />
+                            </IonItem>
+                            <IonItem>
+                                <IonSelect
+                                    label="Expires after"
+                                    value={expiresInDays ?? "never"}
+                                    onIonChange={(e) =>
+                                        setExpiresInDays(
+                                            e.detail.value === "never" ? null : e.detail.value
+                                        )
+                                    }
+                                >
+                                    {EXPIRY_OPTIONS.map((option) => (
+                                        <IonSelectOption
+                                            key={option.label}
+                                            value={option.days ?? "never"}
+                                        >
+                                            {option.label}
+                                        </IonSelectOption>
+                                    ))}
+                                </IonSelect>
+                            </IonItem>
+                        </IonList>
+
+                        <IonList>
+                            <IonListHeader>
+                                <h3>Permissions</h3>
+                            </IonListHeader>
+                            {RESOURCES.map(({ resource, label }) => (
+                                <IonItem key={resource}>
+                                    <IonSelect
+                                        label={label}
+                                        value={access[resource] ?? "none"}
+                                        onIonChange={(e) =>
+                                            setAccess((prev) => ({
+                                                ...prev,
+                                                [resource]: e.detail.value,
+                                            }))
+                                        }
+                                    >
+                                        <IonSelectOption value="none">No access</IonSelectOption>
+                                        <IonSelectOption value="read">Read</IonSelectOption>
+                                        <IonSelectOption value="write">
+                                            Read & write
+                                        </IonSelectOption>
+                                    </IonSelect>
+                                </IonItem>
+                            ))}
+                        </IonList>
+
+                        {usesStores && (
+                            <IonList>
+                                <IonItem>
+                                    <IonCheckbox
+                                        checked={limitToStores}
+                                        onIonChange={(e) => setLimitToStores(e.detail.checked)}
+                                        justify="space-between"
+                                    >
+                                        Limit to some stores
+                                    </IonCheckbox>
+                                </IonItem>
+                                {limitToStores &&
+                                    stores.map((store) => (
+                                        <IonItem key={store.id}>
+                                            <IonCheckbox
+                                                checked={storeIds.includes(store.id)}
+                                                onIonChange={(e) =>
+                                                    toggleStore(store.id, e.detail.checked)
+                                                }
+                                                justify="space-between"
+                                            >
+                                                {store.name}
+                                            </IonCheckbox>
+                                        </IonItem>
+                                    ))}
+                            </IonList>
+                        )}
+
+                        {error && (
+                            <IonText color="danger">
+                                <p className="ion-padding-horizontal">{error}</p>
+                            </IonText>
+                        )}
+
+                        <IonButton
+                            expand="block"
+                            disabled={createApiToken.isPending}
+                            onClick={handleCreate}
+                        >
+                            Create Token
+                        </IonButton>
+                    </>
+                )}
+            </IonContent>
+        </IonModal>
+    );
+};
+
+export default CreateApiTokenModal;
@@ -0,0 +1,125 @@
+import type { AuthSession } from "@basket-bot/core";
+import {
+    IonButton,
+    IonIcon,
+    IonItem,
+    IonLabel,
+    IonList,
+    IonListHeader,
+    IonNote,
+    IonText,
+    useIonAlert,
+} from "@ionic/react";
+import { logOutOutline } from "ionicons/icons";
+import { useSessions, useSignOutOtherSessions, useSignOutSession } from "../../db/hooks";
+import { formatShortDate } from "../../utils/dateUtils";
+
+interface SessionsListProps {
+    isOpen: boolean;
+}
+
+/**
+ * The devices signed in to this account, with remote sign-out
+ */
+const SessionsList: React.FC<SessionsListProps> = ({ isOpen }) => {
+    const { data: sessions, isLoading } = useSessions(isOpen);
+    const signOutSession = useSignOutSession();
+    const signOutOtherSessions = useSignOutOtherSessions();
+    const [presentAlert] = useIonAlert();
+
+    const otherSessions = sessions?.filter((session) => !session.isCurrent) ?? [];
+
+    const confirmSignOut = (session: AuthSession) => {
+        presentAlert({
+            header: "Sign Out Device",
+            message: `Sign out "${session.deviceName ?? "Unknown device"}"? It will need to log in again.`,
+            buttons: [
+                { text: "Cancel", role: "cancel" },
+                {
+                    text: "Sign Out",
+                    role: "destructive",
+                    handler: () => {
+                        signOutSession.mutate(session.id);
+                    },
+                },
+            ],
+        });
+    };
+
+    const confirmSignOutOthers = () => {
+        presentAlert({
+            header: "Sign Out Everywhere Else",
+            message: "Every other device will need to log in again.",
+            buttons: [
+                { text: "Cancel", role: "cancel" },
+                {
+                    text: "Sign Out",
+                    role: "destructive",
+                    handler: () => {
+                        signOutOtherSessions.mutate();
+                    },
+                },
+            ],
+        });
+    };
+
+    return (
+        <IonList>
+            <IonListHeader>
+                <h2>Signed-in Devices</h2>
+            </IonListHeader>
+
+            {isLoading && (
+                <IonText color="medium" className="ion-padding-horizontal">
+                    <p>Loading devices...</p>
+                </IonText>
+            )}
+
+            {sessions?.map((session) => (
+                <IonItem key={session.id}>
+                    <IonLabel>
+                        <h3>{session.deviceName ?? "Unknown device"}</h3>
+                        {session.userAgent && <p>{session.userAgent}</p>}
+                        <p>
+                            {session.isCurrent
+                                ? "This device"
+                                : `Last active ${formatShortDate(session.lastUsedAt ?? session.createdAt)}`}
+                        </p>
+                    </IonLabel>
+                    {session.isCurrent ? (
+                        <IonNote slot="end" color="primary">
+                            Current
+                        </IonNote>
+                    ) : (
+                        <IonButton
+                            slot="end"
+                            fill="clear"
+                            color="danger"
+                            aria-label={`Sign out ${session.deviceName ?? "device"}`}
+                            disabled={signOutSession.isPending}
+                            onClick={() => confirmSignOut(session)}
+                        >
+                            <IonIcon slot="icon-only" icon={logOutOutline} />
+                        </IonButton>
+                    )}
+                </IonItem>
+            ))}
+
+            {otherSessions.length > 0 && (
+                <div className="ion-padding">
+                    <IonButton
+                        expand="block"
+                        fill="outline"
+                        color="danger"
+                        disabled={signOutOtherSessions.isPending}
+                        onClick={confirmSignOutOthers}
+                    >
+                        Sign Out Everywhere Else
+                    </IonButton>
+                </div>
+            )}
+        </IonList>
+    );
+};
+
+export default SessionsList;
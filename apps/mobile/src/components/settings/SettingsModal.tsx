@@ -22,6 +22,8 @@ import { useSettingsForm } from "../../settings/useSettingsForm";
 import { applyTheme } from "../../theme/applyTheme";
 import { FormPasswordInput } from "../form/FormPasswordInput";
 import { useAppHeader } from "../layout/useAppHeader";
+import ApiTokensList from "./ApiTokensList";
+import SessionsList from "./SessionsList";
 
 const SettingsModal: React.FC = () => {
     const { form, performSave, isSubmitting } = useSettingsForm();
@@ -141,6 +143,12 @@ const SettingsModal: React.FC = () => {
                         </div>
                     </IonList>
                 </form>
+
+                {/* Signed-in Devices Section */}
+                <SessionsList isOpen={isModalOpen("settings")} />
+
+                {/* API Tokens Section */}
+                <ApiTokensList isOpen={isModalOpen("settings")} />
             </IonContent>
         </IonModal>
     );
@@ -0,0 +1,148 @@
+import type { QuantityUnit, StoreAisle, StoreSection } from "@basket-bot/core";
+import { IonButton, IonLabel, IonSegment, IonSegmentButton, IonText } from "@ionic/react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import type { QueuedMutation } from "../../lib/mutationQueue";
+
+type Side = "mine" | "theirs";
+
+/**
+ * Labels for the fields queued updates can change
+ */
+const FIELD_LABELS: Record<string, string> = {
+    name: "Name",
+    aisleId: "Aisle",
+    sectionId: "Section",
+    sortOrder: "Position",
+    qty: "Quantity",
+    unitId: "Unit",
+    notes: "Notes",
+    isChecked: "Checked",
+    isIdea: "Idea",
+    isSample: "Sample",
+    isUnsure: "Unsure",
+    snoozedUntil: "Snoozed until",
+};
+
+/**
+ * Fields that identify the entity rather than describe it
+ */
+const IDENTITY_FIELDS = new Set(["id", "storeId", "storeItemId"]);
+
+interface MutationConflictCardProps {
+    mutation: QueuedMutation;
+    onKeepMine: () => void;
+    onKeepTheirs: () => void;
+    onMerge: (data: Record<string, unknown>) => void;
+}
+
+/**
+ * Side-by-side view of a queued change and the newer server copy it conflicts with,
+ * with keep mine, keep theirs, and a field-by-field merge
+ */
+const MutationConflictCard: React.FC<MutationConflictCardProps> = ({
+    mutation,
+    onKeepMine,
+    onKeepTheirs,
+    onMerge,
+}) => {
+    const queryClient = useQueryClient();
+    const [choices, setChoices] = useState<Record<string, Side>>({});
+
+    const mine = (mutation.data ?? {}) as Record<string, unknown>;
+    const theirs: Record<string, unknown> = mutation.conflict?.current ?? {};
+    const storeId = mutation.endpoint.match(/^\/api\/stores\/([^/]+)/)?.[1];
+
+    // Fields both sides set, to different values
+    const fields = Object.keys(mine).filter(
+        (field) =>
+            !IDENTITY_FIELDS.has(field) &&
+            field in theirs &&
+            (mine[field] ?? null) !== (theirs[field] ?? null)
+    );
+
+    const formatValue = (field: string, value: unknown): string => {
+        if (value === null || value === undefined || value === "") {
+            return "—";
+        }
+        if (typeof value === "boolean") {
+            return value ? "Yes" : "No";
+        }
+
+        const nameOf = (rows: { id: string; name: string }[] | undefined) =>
+            rows?.find((row) => row.id === value)?.name ?? String(value);
+        switch (field) {
+            case "aisleId":
+                return nameOf(queryClient.getQueryData<StoreAisle[]>(["aisles", storeId]));
+            case "sectionId":
+                return nameOf(queryClient.getQueryData<StoreSection[]>(["sections", storeId]));
+            case "unitId":
+                return nameOf(queryClient.getQueryData<QuantityUnit[]>(["quantityUnits"]));
+            default:
+                return String(value);
+        }
+    };
+
+    const handleMerge = () => {
+        const merged = { ...mine };
+        fields
+            .filter((field) => choices[field] === "theirs")
+            .forEach((field) => {
+                merged[field] = theirs[field];
+            });
+        onMerge(merged);
+    };
+
+    return (
+        <div className="queue-conflict">
+            <IonText color="warning">
+                <p className="queue-conflict-title">Changed by someone else since you edited it</p>
+            </IonText>
+            {fields.length === 0 ? (
+                <p className="queue-item-detail">
+                    Their changes don't overlap with yours; keeping yours applies both.
+                </p>
+            ) : (
+                fields.map((field) => (
+                    <div key={field} className="queue-conflict-field">
+                        <p className="queue-conflict-label">{FIELD_LABELS[field] ?? field}</p>
+                        <IonSegment
+                            value={choices[field] ?? "mine"}
+                            onIonChange={(e) =>
+                                setChoices({ ...choices, [field]: e.detail.value as Side })
+                            }
+                        >
+                            <IonSegmentButton value="mine">
+                                <IonLabel>
+                                    <p>Yours</p>
+                                    <h3>{formatValue(field, mine[field])}</h3>
+                                </IonLabel>
+                            </IonSegmentButton>
+                            <IonSegmentButton value="theirs">
+                                <IonLabel>
+                                    <p>Theirs</p>
+                                    <h3>{formatValue(field, theirs[field])}</h3>
+                                </IonLabel>
+                            </IonSegmentButton>
+                        </IonSegment>
+                    </div>
+                ))
+            )}
+            <div className="queue-conflict-actions">
+                <IonButton size="small" fill="outline" onClick={onKeepTheirs}>
+                    Keep Theirs
+                </IonButton>
+                {fields.length > 1 && (
+                    <IonButton size="small" fill="outline" onClick={handleMerge}>
+                        Merge
+                    </IonButton>
+                )}
+                <IonButton size="small" onClick={onKeepMine}>
+                    Keep Mine
+                </IonButton>
+            </div>
+        </div>
+    );
+};
+
+export default MutationConflictCard;
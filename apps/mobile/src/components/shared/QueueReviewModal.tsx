@@ -12,11 +12,14 @@ import {
     IonTitle,
     IonToolbar,
 } from "@ionic/react";
+import { useQueryClient } from "@tanstack/react-query";
 import { closeOutline, trashOutline } from "ionicons/icons";
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useSync } from "../../hooks/useRefreshAndSync";
 import { useToast } from "../../hooks/useToast";
 import type { QueuedMutation } from "../../lib/mutationQueue";
 import { mutationQueue } from "../../lib/mutationQueue";
+import MutationConflictCard from "./MutationConflictCard";
 import "./QueueReviewModal.scss";
 
 interface QueueReviewModalProps {
@@ -26,17 +29,51 @@ interface QueueReviewModalProps {
 
 /**
  * Modal to review and manage queued mutations
- * Allows users to see what's pending and clear individual items or the entire queue
+ * Allows users to see what's pending, clear individual items or the entire queue,
+ * and resolve changes that conflict with newer edits on the server
  */
 const QueueReviewModal: React.FC<QueueReviewModalProps> = ({ isOpen, onClose }) => {
     const [queue, setQueue] = useState<readonly QueuedMutation[]>([]);
     const { showSuccess, showError } = useToast();
+    const { sync } = useSync();
+    const queryClient = useQueryClient();
 
     // Load queue when modal opens
     const handleWillPresent = () => {
         setQueue(mutationQueue.getQueue());
     };
 
+    // Follow syncs and resolutions while open
+    useEffect(() => {
+        if (!isOpen) {
+            return;
+        }
+        return mutationQueue.subscribe(() => setQueue(mutationQueue.getQueue()));
+    }, [isOpen]);
+
+    // Apply a conflicting change on top of the newer server copy (as is, or merged)
+    const handleResolve = async (mutationId: string, data?: Record<string, unknown>) => {
+        try {
+            await mutationQueue.resolveConflict(mutationId, data);
+            await sync();
+        } catch (error: unknown) {
+            console.error("[QueueReviewModal] Failed to resolve conflict:", error);
+            showError("Failed to resolve conflict");
+        }
+    };
+
+    // Drop a conflicting change in favor of the server copy
+    const handleKeepTheirs = async (mutationId: string) => {
+        try {
+            await mutationQueue.removeMutation(mutationId);
+            await queryClient.invalidateQueries();
+            showSuccess("Kept the newer change");
+        } catch (error: unknown) {
+            console.error("[QueueReviewModal] Failed to discard mutation:", error);
+            showError("Failed to discard change");
+        }
+    };
+
     // Clear all mutations
     const handleClearAll = async () => {
         try {
@@ -140,6 +177,14 @@ const QueueReviewModal: React.FC<QueueReviewModalProps> = ({ isOpen, onClose })
                                         >
                                             <IonIcon slot="icon-only" icon={trashOutline} />
                                         </IonButton>
+                                        {mutation.conflict && (
+                                            <MutationConflictCard
+                                                mutation={mutation}
+                                                onKeepMine={() => handleResolve(mutation.id)}
+                                                onKeepTheirs={() => handleKeepTheirs(mutation.id)}
+                                                onMerge={(data) => handleResolve(mutation.id, data)}
+                                            />
+                                        )}
                                     </div>
                                 </IonItem>
                             ))}
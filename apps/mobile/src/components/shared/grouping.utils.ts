@@ -170,6 +170,58 @@ export function createAisleSectionGroups<T extends GroupableItem>(
     return groups;
 }
 
+/**
+ * Converts route legs (aisles in walking order, items already in walking order) into numbered
+ * aisle groups with a section child for each run of items in the same section
+ */
+export function createRouteGroups<T extends GroupableItem>(
+    legs: Array<{ aisleId: number | string; items: T[] }>,
+    config: Pick<AisleSectionGroupConfig, "sortOrderOffset" | "sectionIndentLevel">
+): ItemGroup<T>[] {
+    const { sortOrderOffset = 0, sectionIndentLevel = 16 } = config;
+
+    return legs.map((leg, legIndex) => {
+        const sectionGroups: ItemGroup<T>[] = [];
+
+        for (const item of leg.items) {
+            const sectionId = `section-${item.sectionId}`;
+            const lastSection = sectionGroups[sectionGroups.length - 1];
+            if (lastSection?.id === sectionId) {
+                lastSection.items.push(item);
+                continue;
+            }
+
+            const sectionGroup: ItemGroup<T> = {
+                id: sectionId,
+                items: [item],
+                sortOrder: sectionGroups.length,
+                indentLevel: sectionIndentLevel,
+            };
+            if (item.sectionId !== null) {
+                sectionGroup.header = {
+                    label: item.sectionName || "Unknown Section",
+                    color: "light",
+                    labelClassName: "group-header-label group-header-label--section",
+                };
+            }
+            sectionGroups.push(sectionGroup);
+        }
+
+        return {
+            id: `aisle-${leg.aisleId}`,
+            items: [],
+            sortOrder: sortOrderOffset + legIndex,
+            header: {
+                label: `${legIndex + 1}. ${leg.items[0]?.aisleName || "Unknown Aisle"}`,
+                color: "light",
+                sticky: true,
+                labelClassName: "group-header-label group-header-label--aisle",
+            },
+            children: sectionGroups,
+        };
+    });
+}
+
 /**
  * Flattens a nested group structure into a single-level array
  * Useful for operations that need to process all items linearly
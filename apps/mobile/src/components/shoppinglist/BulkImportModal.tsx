@@ -7,11 +7,12 @@ import { useBulkImport } from "./useBulkImport";
 
 /**
  * Hook to open bulk import modal
- * Handles the complete flow: modal display -> LLM parsing -> item import
+ * Handles the complete flow: modal display -> parsing -> item import. Pasted text is read by
+ * the rule-based parser (the LLM only gets lines it can't read); photos go to the LLM.
  */
 export function useBulkImportModal(storeId: string) {
     const { openModal } = useLLMModal();
-    const { importItems } = useBulkImport(storeId);
+    const { parseText, importItems } = useBulkImport(storeId);
 
     const openBulkImport = useCallback(() => {
         openModal<BulkImportResponse, Set<number>>({
@@ -19,9 +20,13 @@ export function useBulkImportModal(storeId: string) {
             prompt: BULK_IMPORT_PROMPT,
             model: "gpt-4o",
             userInstructions:
-                "Paste your shopping list as text or upload a photo of a handwritten/printed list.",
+                "Paste your shopping list as text (one item per line) or upload a photo of a handwritten/printed list.",
             buttonText: "Scan List",
             shieldMessage: "Scanning list with AI...",
+            parseText: async (text) => {
+                const data: BulkImportResponse = { items: await parseText(text) };
+                return { data, raw: JSON.stringify(data) };
+            },
             validateResponse: (response) => {
                 if (!validateBulkImportResult(response.data)) {
                     throw new Error(
@@ -64,7 +69,7 @@ export function useBulkImportModal(storeId: string) {
                 // Nothing to do
             },
         });
-    }, [openModal, importItems]);
+    }, [openModal, parseText, importItems]);
 
     return { openBulkImport };
 }
@@ -1,5 +1,9 @@
 import { useSecureApiKey } from "@/hooks/useSecureStorage";
-import type { ShoppingListItemWithDetails } from "@basket-bot/core";
+import {
+    planShoppingRoute,
+    type ShoppingListItemWithDetails,
+    type StoreMapLayout,
+} from "@basket-bot/core";
 import { IonIcon } from "@ionic/react";
 import { useQueryClient } from "@tanstack/react-query";
 import { bulbOutline, checkmarkDone } from "ionicons/icons";
@@ -12,13 +16,18 @@ import { formatErrorMessage } from "../../utils/errorUtils";
 import ActionSlotButton from "../shared/ActionSlotButton";
 import { GroupedItemList } from "../shared/GroupedItemList";
 import { ItemGroup } from "../shared/grouping.types";
-import { createAisleSectionGroups } from "../shared/grouping.utils";
+import { createAisleSectionGroups, createRouteGroups } from "../shared/grouping.utils";
 import { ShoppingListItem } from "./ShoppingListItem";
 
 interface GroupedShoppingListProps {
     items: ShoppingListItemWithDetails[];
     onClearChecked?: () => void;
     isClearing?: boolean;
+    /**
+     * When set, unchecked items are ordered as a walking route through this map
+     * instead of by aisle sortOrder
+     */
+    routeMap?: StoreMapLayout | null;
 }
 
 const HEADER_LABEL_CLASS = "group-header-label group-header-label--aisle";
@@ -26,6 +35,7 @@ const HEADER_LABEL_CLASS = "group-header-label group-header-label--aisle";
 const INDENT_LEVEL = 16;
 const IDEAS_SORT_ORDER = 0;
 const AISLE_SORT_ORDER_OFFSET = 100;
+const UNROUTED_SORT_ORDER_OFFSET = 10_000;
 
 const createCheckedItemsGroup = (
     items: ShoppingListItemWithDetails[],
@@ -77,6 +87,7 @@ export const GroupedShoppingList = ({
     items,
     onClearChecked,
     isClearing,
+    routeMap,
 }: GroupedShoppingListProps) => {
     const queryClient = useQueryClient();
     const apiKeyValue = useSecureApiKey();
@@ -191,12 +202,28 @@ export const GroupedShoppingList = ({
                 itemGroups.push(createIdeasGroup(ideas));
             }
 
-            // Add aisle/section groups for regular items
-            const aisleGroups = createAisleSectionGroups(regularItems, {
-                showAisleHeaders: true,
-                showSectionHeaders: true,
-                sortOrderOffset: AISLE_SORT_ORDER_OFFSET,
-            });
+            // Add aisle/section groups for regular items: in walking order when a route map
+            // is set (items the map can't place follow the route), otherwise by aisle sortOrder
+            const aisleGroups: ItemGroup<ShoppingListItemWithDetails>[] = [];
+            if (routeMap) {
+                const route = planShoppingRoute(routeMap, regularItems);
+                aisleGroups.push(
+                    ...createRouteGroups(route.legs, { sortOrderOffset: AISLE_SORT_ORDER_OFFSET }),
+                    ...createAisleSectionGroups(route.unrouted, {
+                        showAisleHeaders: true,
+                        showSectionHeaders: true,
+                        sortOrderOffset: UNROUTED_SORT_ORDER_OFFSET,
+                    })
+                );
+            } else {
+                aisleGroups.push(
+                    ...createAisleSectionGroups(regularItems, {
+                        showAisleHeaders: true,
+                        showSectionHeaders: true,
+                        sortOrderOffset: AISLE_SORT_ORDER_OFFSET,
+                    })
+                );
+            }
 
             // Inject auto-categorize button for uncategorized aisle
             const uncategorizedGroup = aisleGroups.find((g) => g.id === "aisle-null");
@@ -237,6 +264,7 @@ export const GroupedShoppingList = ({
         isClearing,
         items,
         onClearChecked,
+        routeMap,
     ]);
 
     const getItemKey = useCallback((item: ShoppingListItemWithDetails) => item.id, []);
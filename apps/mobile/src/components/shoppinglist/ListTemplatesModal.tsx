@@ -0,0 +1,222 @@
+import type { ListTemplateSummary } from "@basket-bot/core";
+import {
+    IonButton,
+    IonButtons,
+    IonChip,
+    IonContent,
+    IonHeader,
+    IonIcon,
+    IonItem,
+    IonLabel,
+    IonList,
+    IonModal,
+    IonNote,
+    IonText,
+    IonTitle,
+    IonToolbar,
+    useIonAlert,
+} from "@ionic/react";
+import { closeOutline, create, saveOutline, trash } from "ionicons/icons";
+import pluralize from "pluralize";
+import { useState } from "react";
+import {
+    useApplyListTemplate,
+    useDeleteListTemplate,
+    useHouseholds,
+    useListTemplates,
+    useSaveListAsTemplate,
+    useStore,
+    useUpdateListTemplate,
+} from "../../db/hooks";
+
+interface ListTemplatesModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    storeId: string;
+}
+
+/**
+ * Pick a household list template to add to this store's list, or save the current
+ * (unchecked) list as a new template
+ */
+export const ListTemplatesModal: React.FC<ListTemplatesModalProps> = ({
+    isOpen,
+    onClose,
+    storeId,
+}) => {
+    const { data: households } = useHouseholds();
+    const { data: store } = useStore(storeId);
+    const [userSelectedHouseholdId, setUserSelectedHouseholdId] = useState<string | null>(null);
+    const [presentAlert] = useIonAlert();
+
+    // Default to the household the store is shared with, else the first one
+    const householdId =
+        [userSelectedHouseholdId, store?.householdId].find(
+            (id) => id && households?.some((household) => household.id === id)
+        ) ??
+        households?.[0]?.id ??
+        null;
+
+    const { data: templates } = useListTemplates(householdId);
+    const applyTemplate = useApplyListTemplate();
+    const saveListAsTemplate = useSaveListAsTemplate();
+    const updateTemplate = useUpdateListTemplate();
+    const deleteTemplate = useDeleteListTemplate();
+
+    const handleApply = async (template: ListTemplateSummary) => {
+        await applyTemplate.mutateAsync({ templateId: template.id, storeId });
+        onClose();
+    };
+
+    const promptSave = () => {
+        if (!householdId) return;
+        presentAlert({
+            header: "Save List as Template",
+            message: "Saves the unchecked items on this list.",
+            inputs: [{ name: "name", type: "text", placeholder: "e.g. Weekly staples" }],
+            buttons: [
+                { text: "Cancel", role: "cancel" },
+                {
+                    text: "Save",
+                    handler: (data: { name: string }) => {
+                        const name = data.name.trim();
+                        if (!name) return false;
+                        saveListAsTemplate.mutate({ householdId, storeId, name });
+                    },
+                },
+            ],
+        });
+    };
+
+    const promptRename = (template: ListTemplateSummary) => {
+        presentAlert({
+            header: "Rename Template",
+            inputs: [{ name: "name", type: "text", value: template.name }],
+            buttons: [
+                { text: "Cancel", role: "cancel" },
+                {
+                    text: "Save",
+                    handler: (data: { name: string }) => {
+                        const name = data.name.trim();
+                        if (!name) return false;
+                        if (name !== template.name) {
+                            updateTemplate.mutate({ templateId: template.id, input: { name } });
+                        }
+                    },
+                },
+            ],
+        });
+    };
+
+    const confirmDelete = (template: ListTemplateSummary) => {
+        presentAlert({
+            header: "Delete Template",
+            message: `Delete "${template.name}"? Items already on your lists stay there.`,
+            buttons: [
+                { text: "Cancel", role: "cancel" },
+                {
+                    text: "Delete",
+                    role: "destructive",
+                    handler: () => {
+                        deleteTemplate.mutate({
+                            householdId: template.householdId,
+                            templateId: template.id,
+                        });
+                    },
+                },
+            ],
+        });
+    };
+
+    return (
+        <IonModal isOpen={isOpen} onDidDismiss={onClose}>
+            <IonHeader>
+                <IonToolbar>
+                    <IonTitle>List Templates</IonTitle>
+                    <IonButtons slot="end">
+                        <IonButton onClick={onClose}>
+                            <IonIcon icon={closeOutline} />
+                        </IonButton>
+                    </IonButtons>
+                </IonToolbar>
+            </IonHeader>
+            <IonContent className="ion-padding">
+                {households && households.length === 0 && (
+                    <IonText color="medium">
+                        <p>Templates belong to a household. Create or join one first.</p>
+                    </IonText>
+                )}
+
+                {households && households.length > 1 && (
+                    <div>
+                        {households.map((household) => (
+                            <IonChip
+                                key={household.id}
+                                color={household.id === householdId ? "primary" : "medium"}
+                                onClick={() => setUserSelectedHouseholdId(household.id)}
+                            >
+                                <IonLabel>{household.name}</IonLabel>
+                            </IonChip>
+                        ))}
+                    </div>
+                )}
+
+                {templates && templates.length === 0 && (
+                    <IonText color="medium">
+                        <p>No templates yet. Save this list as one to reuse it later.</p>
+                    </IonText>
+                )}
+
+                <IonList>
+                    {templates?.map((template) => (
+                        <IonItem key={template.id}>
+                            <IonLabel>
+                                {template.name}
+                                <IonNote color="medium">
+                                    {" "}
+                                    · {template.itemCount} {pluralize("item", template.itemCount)}
+                                </IonNote>
+                            </IonLabel>
+                            <IonButton
+                                slot="end"
+                                disabled={applyTemplate.isPending || template.itemCount === 0}
+                                onClick={() => handleApply(template)}
+                            >
+                                Add
+                            </IonButton>
+                            <IonButton
+                                slot="end"
+                                fill="clear"
+                                aria-label={`Rename ${template.name}`}
+                                onClick={() => promptRename(template)}
+                            >
+                                <IonIcon slot="icon-only" icon={create} />
+                            </IonButton>
+                            <IonButton
+                                slot="end"
+                                fill="clear"
+                                color="danger"
+                                aria-label={`Delete ${template.name}`}
+                                onClick={() => confirmDelete(template)}
+                            >
+                                <IonIcon slot="icon-only" icon={trash} />
+                            </IonButton>
+                        </IonItem>
+                    ))}
+                </IonList>
+
+                {householdId && (
+                    <IonButton
+                        expand="block"
+                        fill="outline"
+                        disabled={saveListAsTemplate.isPending}
+                        onClick={promptSave}
+                    >
+                        <IonIcon slot="start" icon={saveOutline} />
+                        Save Current List as Template
+                    </IonButton>
+                )}
+            </IonContent>
+        </IonModal>
+    );
+};
@@ -75,6 +75,7 @@ export const ShoppingListItem = ({ item, isChecked }: ShoppingListItemProps) =>
             const result = await moveItemToStore.mutateAsync({
                 item: {
                     id: item.id,
+                    storeItemId: item.storeItemId,
                     itemName: item.itemName,
                     notes: item.notes,
                     qty: item.qty,
@@ -98,6 +99,7 @@ export const ShoppingListItem = ({ item, isChecked }: ShoppingListItemProps) =>
         item.notes,
         item.qty,
         item.storeId,
+        item.storeItemId,
         item.unitId,
         toast,
     ]);
@@ -1,10 +1,14 @@
-import type { ShoppingListItemWithDetails } from "@basket-bot/core";
+import type { ShoppingListItemWithDetails, StoreMapLayout } from "@basket-bot/core";
 import { GroupedShoppingList } from "./GroupedShoppingList";
 
 interface UncheckedItemsProps {
     items: ShoppingListItemWithDetails[];
+    /**
+     * Order items as a walking route through this map (aisle order when unset)
+     */
+    routeMap?: StoreMapLayout | null;
 }
 
-export const UncheckedItems = ({ items }: UncheckedItemsProps) => {
-    return <GroupedShoppingList items={items} />;
+export const UncheckedItems = ({ items, routeMap }: UncheckedItemsProps) => {
+    return <GroupedShoppingList items={items} routeMap={routeMap} />;
 };
@@ -5,8 +5,24 @@ import { useItemEditorContext } from "./useItemEditorContext";
 import { ClickableSelectionField } from "../shared/ClickableSelectionField";
 import type { SelectableItem } from "../shared/ClickableSelectionModal";
 
-export const UnitSelector = () => {
-    const { control, errors } = useItemEditorContext();
+interface UnitSelectFieldProps {
+    value: string | null | undefined;
+    onSelect: (unitId: string | null) => void;
+    label?: string;
+    errorMessage?: string;
+    lines?: "none" | "full" | "inset";
+}
+
+/**
+ * Quantity unit picker, usable with any form (not tied to the item editor)
+ */
+export const UnitSelectField: React.FC<UnitSelectFieldProps> = ({
+    value,
+    onSelect,
+    label = "Unit",
+    errorMessage,
+    lines,
+}) => {
     const { data: units, isLoading } = useQuantityUnits();
 
     const unitItems: SelectableItem[] = useMemo(() => {
@@ -25,20 +41,33 @@ export const UnitSelector = () => {
         return null;
     }
 
+    return (
+        <ClickableSelectionField
+            items={unitItems}
+            value={value}
+            onSelect={onSelect}
+            label={label}
+            placeholder="No unit"
+            modalTitle="Select Unit"
+            showSearch={true}
+            searchPlaceholder="Search units..."
+            errorMessage={errorMessage}
+            lines={lines}
+        />
+    );
+};
+
+export const UnitSelector = () => {
+    const { control, errors } = useItemEditorContext();
+
     return (
         <Controller
             name="unitId"
             control={control}
             render={({ field: { onChange, value } }) => (
-                <ClickableSelectionField
-                    items={unitItems}
+                <UnitSelectField
                     value={value}
                     onSelect={onChange}
-                    label="Unit"
-                    placeholder="No unit"
-                    modalTitle="Select Unit"
-                    showSearch={true}
-                    searchPlaceholder="Search units..."
                     errorMessage={errors.unitId?.message}
                 />
             )}
@@ -1,4 +1,5 @@
 import type { ShoppingListItemInput } from "@basket-bot/core";
+import { parseIngredientLines } from "@basket-bot/core";
 import { useQueryClient } from "@tanstack/react-query";
 import pluralize from "pluralize";
 import { useCallback } from "react";
@@ -10,9 +11,12 @@ import {
     useStoreSections,
     useUpsertShoppingListItem,
 } from "../../db/hooks";
+import { useSecureApiKey } from "../../hooks/useSecureStorage";
 import { useToast } from "../../hooks/useToast";
-import type { ParsedShoppingItem } from "../../llm/features/bulkImport";
+import { validateBulkImportResult, type ParsedShoppingItem } from "../../llm/features/bulkImport";
+import { BULK_IMPORT_PROMPT } from "../../llm/features/bulkImportPrompt";
 import { useAutoCategorize } from "../../llm/features/useAutoCategorize";
+import { callLLMDirect } from "../../llm/shared/directCall";
 import { normalizeItemName, toSentenceCase } from "../../utils/stringUtils";
 import { useShield } from "../shield/useShield";
 
@@ -48,6 +52,7 @@ function processUnit(
 
 /**
  * Hook to handle bulk import of shopping list items
+ * - Parses pasted text with the rule-based parser, using the LLM only for lines it can't read
  * - Checks for existing items by name match
  * - Auto-categorizes new items
  * - Creates or updates items in the shopping list
@@ -60,10 +65,64 @@ export function useBulkImport(storeId: string) {
     const { data: sections } = useStoreSections(storeId);
     const { data: units } = useQuantityUnits();
     const autoCategorize = useAutoCategorize();
+    const apiKeyValue = useSecureApiKey();
     const { showError, showSuccess } = useToast();
     const queryClient = useQueryClient();
     const { raiseShield, lowerShield } = useShield();
 
+    /**
+     * Parse pasted text into items for review. Lines the rules can't read confidently go to
+     * the LLM when an API key is configured; otherwise (or if the call fails) the rule-based
+     * best effort is kept, so pasting works without an API key.
+     */
+    const parseText = useCallback(
+        async (text: string): Promise<ParsedShoppingItem[]> => {
+            const lines = parseIngredientLines(text, units ?? []);
+            const unitAbbreviation = (unitId: string | null) =>
+                units?.find((u) => u.id === unitId)?.abbreviation ?? null;
+
+            const items: ParsedShoppingItem[] = lines.map(({ ingredient }) => ({
+                name: ingredient.name,
+                quantity: ingredient.qty,
+                unit: unitAbbreviation(ingredient.unitId),
+                unitId: ingredient.unitId,
+                notes: ingredient.notes,
+            }));
+
+            const unsureIndexes = lines.flatMap((line, idx) => (line.isConfident ? [] : [idx]));
+            if (unsureIndexes.length === 0 || !apiKeyValue) {
+                return items;
+            }
+
+            const shieldId = "bulk-import-parse";
+            raiseShield(shieldId, "Reading the lines the rules could not...");
+            try {
+                const response = await callLLMDirect({
+                    apiKey: apiKeyValue,
+                    prompt: BULK_IMPORT_PROMPT,
+                    userText: unsureIndexes.map((idx) => lines[idx].line).join("\n"),
+                    model: "gpt-4o",
+                });
+                if (!validateBulkImportResult(response.data)) {
+                    throw new Error("The response was not in the expected format.");
+                }
+
+                // The LLM may split or merge lines, so its items replace all unsure lines
+                const unsure = new Set(unsureIndexes);
+                return [...items.filter((_, idx) => !unsure.has(idx)), ...response.data.items];
+            } catch (error) {
+                console.warn(
+                    "[useBulkImport] LLM fallback failed, keeping rule-based parse:",
+                    error
+                );
+                return items;
+            } finally {
+                lowerShield(shieldId);
+            }
+        },
+        [apiKeyValue, lowerShield, raiseShield, units]
+    );
+
     const importItems = useCallback(
         async (parsedItems: ParsedShoppingItem[]) => {
             const shieldId = "bulk-import";
@@ -124,12 +183,11 @@ export function useBulkImport(storeId: string) {
                             itemId = newItem.id;
                         }
 
-                        // Process and validate unit
-                        const { unitId: processedUnitId, quantity: processedQty } = processUnit(
-                            parsed.unit,
-                            parsed.quantity,
-                            units
-                        );
+                        // Process and validate unit (rule-based items arrive already resolved)
+                        const { unitId: processedUnitId, quantity: processedQty } =
+                            parsed.unitId !== undefined
+                                ? { unitId: parsed.unitId, quantity: parsed.quantity }
+                                : processUnit(parsed.unit, parsed.quantity, units);
 
                         // Create shopping list item
                         const shoppingListItem: ShoppingListItemInput = {
@@ -186,5 +244,5 @@ export function useBulkImport(storeId: string) {
         ]
     );
 
-    return { importItems };
+    return { parseText, importItems };
 }
@@ -0,0 +1,102 @@
+import {
+    IonButton,
+    IonButtons,
+    IonCheckbox,
+    IonContent,
+    IonHeader,
+    IonIcon,
+    IonItem,
+    IonModal,
+    IonNote,
+    IonSpinner,
+    IonTextarea,
+    IonTitle,
+    IonToolbar,
+} from "@ionic/react";
+import { closeOutline, copyOutline } from "ionicons/icons";
+import React, { useMemo, useState } from "react";
+import { useStoreLayoutExport } from "../../db/hooks";
+import { useToast } from "../../hooks/useToast";
+
+interface ExportStoreLayoutModalProps {
+    storeId: string | null;
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+/**
+ * Shows a store's layout as portable JSON to copy, for importing on another Basket Bot server
+ * or restoring later
+ */
+const ExportStoreLayoutModal: React.FC<ExportStoreLayoutModalProps> = ({
+    storeId,
+    isOpen,
+    onClose,
+}) => {
+    const [includeItems, setIncludeItems] = useState(true);
+    const { data: layout, isLoading } = useStoreLayoutExport(storeId || "", includeItems, isOpen);
+    const { showSuccess, showError } = useToast();
+
+    const json = useMemo(() => (layout ? JSON.stringify(layout, null, 2) : ""), [layout]);
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(json);
+            showSuccess("Store layout copied");
+        } catch {
+            showError("Couldn't copy; select the text and copy it instead");
+        }
+    };
+
+    return (
+        <IonModal isOpen={isOpen} onDidDismiss={onClose}>
+            <IonHeader>
+                <IonToolbar>
+                    <IonTitle>Export Layout</IonTitle>
+                    <IonButtons slot="end">
+                        <IonButton onClick={onClose}>
+                            <IonIcon icon={closeOutline} />
+                        </IonButton>
+                    </IonButtons>
+                </IonToolbar>
+            </IonHeader>
+            <IonContent className="ion-padding">
+                <IonItem>
+                    <IonCheckbox
+                        checked={includeItems}
+                        onIonChange={(e) => setIncludeItems(e.detail.checked)}
+                        justify="space-between"
+                    >
+                        Include items and favorites
+                    </IonCheckbox>
+                </IonItem>
+                {isLoading ? (
+                    <div className="ion-text-center ion-padding">
+                        <IonSpinner />
+                    </div>
+                ) : (
+                    <>
+                        <IonItem lines="full">
+                            <IonTextarea
+                                value={json}
+                                rows={12}
+                                readonly
+                                aria-label="Store layout JSON"
+                            />
+                        </IonItem>
+                        <IonNote>
+                            Import it from the store list on any Basket Bot server to create a copy
+                            of this store.
+                        </IonNote>
+                        <IonButton expand="block" disabled={!json} onClick={handleCopy}>
+                            <IonIcon icon={copyOutline} slot="start" />
+                            Copy to Clipboard
+                        </IonButton>
+                    </>
+                )}
+            </IonContent>
+        </IonModal>
+    );
+};
+
+export default ExportStoreLayoutModal;
@@ -0,0 +1,165 @@
+import type { StoreLayout } from "@basket-bot/core";
+import { storeLayoutSchema } from "@basket-bot/core";
+import {
+    IonButton,
+    IonButtons,
+    IonCheckbox,
+    IonContent,
+    IonHeader,
+    IonIcon,
+    IonInput,
+    IonItem,
+    IonLabel,
+    IonModal,
+    IonNote,
+    IonText,
+    IonTextarea,
+    IonTitle,
+    IonToolbar,
+} from "@ionic/react";
+import { closeOutline } from "ionicons/icons";
+import pluralize from "pluralize";
+import React, { useEffect, useMemo, useState } from "react";
+import { useImportStoreLayout } from "../../db/hooks";
+
+interface ImportStoreLayoutModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+type ParsedLayout = { layout: StoreLayout; error: null } | { layout: null; error: string | null };
+
+const parseLayout = (text: string): ParsedLayout => {
+    if (!text.trim()) {
+        return { layout: null, error: null };
+    }
+
+    let json: unknown;
+    try {
+        json = JSON.parse(text);
+    } catch {
+        return { layout: null, error: "Not valid JSON" };
+    }
+
+    const parsed = storeLayoutSchema.safeParse(json);
+    if (!parsed.success) {
+        return { layout: null, error: parsed.error.issues[0]?.message ?? "Invalid store layout" };
+    }
+    return { layout: parsed.data, error: null };
+};
+
+/**
+ * Creates a new store from a layout exported on this or another Basket Bot server.
+ * A name that's already taken gets a number added.
+ */
+const ImportStoreLayoutModal: React.FC<ImportStoreLayoutModalProps> = ({ isOpen, onClose }) => {
+    const importStoreLayout = useImportStoreLayout();
+    const [text, setText] = useState("");
+    const [name, setName] = useState("");
+    const [includeItems, setIncludeItems] = useState(true);
+
+    // Start over each time the modal opens
+    useEffect(() => {
+        if (isOpen) {
+            setText("");
+            setName("");
+            setIncludeItems(true);
+        }
+    }, [isOpen]);
+
+    const { layout, error } = useMemo(() => parseLayout(text), [text]);
+    const itemCount = layout?.items?.length ?? 0;
+
+    const handleImport = async () => {
+        if (!layout) return;
+
+        try {
+            await importStoreLayout.mutateAsync({
+                layout,
+                name: name.trim() || undefined,
+                includeItems,
+                onNameConflict: "rename",
+            });
+            onClose();
+        } catch {
+            // Error toast shown by the mutation hook
+        }
+    };
+
+    return (
+        <IonModal isOpen={isOpen} onDidDismiss={onClose}>
+            <IonHeader>
+                <IonToolbar>
+                    <IonTitle>Import Store</IonTitle>
+                    <IonButtons slot="end">
+                        <IonButton onClick={onClose}>
+                            <IonIcon icon={closeOutline} />
+                        </IonButton>
+                    </IonButtons>
+                </IonToolbar>
+            </IonHeader>
+            <IonContent className="ion-padding">
+                <IonNote>
+                    Paste a layout copied with Export Layout from a store&apos;s settings.
+                </IonNote>
+                <IonItem lines="full">
+                    <IonTextarea
+                        value={text}
+                        rows={10}
+                        aria-label="Store layout JSON"
+                        placeholder='{ "format": "basket-bot/store-layout", ... }'
+                        onIonInput={(e) => setText(e.detail.value ?? "")}
+                    />
+                </IonItem>
+                {error && (
+                    <IonText color="danger">
+                        <p>{error}</p>
+                    </IonText>
+                )}
+
+                {layout && (
+                    <>
+                        <IonText color="medium">
+                            <p>
+                                {layout.store.name}:{" "}
+                                {pluralize("aisle", layout.aisles.length, true)}
+                                {itemCount > 0 && `, ${pluralize("item", itemCount, true)}`}
+                            </p>
+                        </IonText>
+                        <IonItem>
+                            <IonLabel position="stacked">Store Name</IonLabel>
+                            <IonInput
+                                value={name}
+                                placeholder={layout.store.name}
+                                autocapitalize="sentences"
+                                onIonInput={(e) => setName(e.detail.value ?? "")}
+                            />
+                        </IonItem>
+                        {itemCount > 0 && (
+                            <IonItem>
+                                <IonCheckbox
+                                    checked={includeItems}
+                                    onIonChange={(e) => setIncludeItems(e.detail.checked)}
+                                    justify="space-between"
+                                >
+                                    Include items and favorites
+                                </IonCheckbox>
+                            </IonItem>
+                        )}
+                    </>
+                )}
+
+                <IonButton
+                    expand="block"
+                    disabled={!layout || importStoreLayout.isPending}
+                    onClick={handleImport}
+                    style={{ marginTop: "20px" }}
+                >
+                    {importStoreLayout.isPending ? "Importing..." : "Import"}
+                </IonButton>
+            </IonContent>
+        </IonModal>
+    );
+};
+
+export default ImportStoreLayoutModal;
@@ -15,12 +15,13 @@ import {
     IonTitle,
     IonToolbar,
 } from "@ionic/react";
-import { add, closeOutline, eyeOffOutline } from "ionicons/icons";
+import { add, closeOutline, downloadOutline, eyeOffOutline } from "ionicons/icons";
 import { useCallback, useMemo, useState } from "react";
 import { Controller, useForm } from "react-hook-form";
 import { z } from "zod";
 import { useCreateStore, useStores } from "../../db/hooks";
 import { useAppHeader } from "../layout/useAppHeader";
+import ImportStoreLayoutModal from "./ImportStoreLayoutModal";
 import StoreManagementModal from "./StoreManagementModal";
 
 const storeFormSchema = z.object({
@@ -42,6 +43,7 @@ const StoreListModal: React.FC = () => {
     const createStore = useCreateStore();
     const isOpen = isModalOpen("stores");
     const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
+    const [isImportModalOpen, setIsImportModalOpen] = useState(false);
     const [managingStoreId, setManagingStoreId] = useState<string | null>(null);
 
     const {
@@ -143,6 +145,11 @@ const StoreListModal: React.FC = () => {
                                 <IonIcon icon={add} slot="start" />
                                 Create Your First Store
                             </IonButton>
+                            <br />
+                            <IonButton fill="clear" onClick={() => setIsImportModalOpen(true)}>
+                                <IonIcon icon={downloadOutline} slot="start" />
+                                Import a Store
+                            </IonButton>
                         </div>
                     ) : (
                         <>
@@ -184,6 +191,14 @@ const StoreListModal: React.FC = () => {
                                     <IonIcon icon={add} slot="start" />
                                     Create Store
                                 </IonButton>
+                                <IonButton
+                                    expand="block"
+                                    fill="clear"
+                                    onClick={() => setIsImportModalOpen(true)}
+                                >
+                                    <IonIcon icon={downloadOutline} slot="start" />
+                                    Import Store
+                                </IonButton>
                             </div>
                         </>
                     )}
@@ -244,6 +259,11 @@ const StoreListModal: React.FC = () => {
                 </IonContent>
             </IonModal>
 
+            <ImportStoreLayoutModal
+                isOpen={isImportModalOpen}
+                onClose={() => setIsImportModalOpen(false)}
+            />
+
             {/* Store Management Modal */}
             <StoreManagementModal
                 isOpen={managingStoreId !== null}
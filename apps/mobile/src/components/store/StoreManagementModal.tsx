@@ -27,6 +27,9 @@ import {
     gridOutline,
     homeOutline,
     listOutline,
+    mapOutline,
+    shareOutline,
+    swapVerticalOutline,
     trash,
 } from "ionicons/icons";
 import React, { Suspense, useCallback, useEffect, useMemo, useState } from "react";
@@ -57,8 +60,11 @@ import {
 import { LLMItem, useLLMModal } from "../../llm/shared";
 import { useShield } from "../shield/useShield";
 import AislesSectionsManagementModal from "./AislesSectionsManagementModal";
+import ExportStoreLayoutModal from "./ExportStoreLayoutModal";
 import StoreHouseholdSharingModal from "./StoreHouseholdSharingModal";
 import StoreItemsManagementModal from "./StoreItemsManagementModal";
+import StoreMapModal from "./StoreMapModal";
+import SuggestedOrderModal from "./SuggestedOrderModal";
 
 // Zod schemas
 const storeFormSchema = z.object({
@@ -242,11 +248,23 @@ const StoreManagementModalContent: React.FC<StoreManagementModalContentProps> =
     // Nested modal state
     const [isAislesModalOpen, setIsAislesModalOpen] = useState(false);
     const [isItemsModalOpen, setIsItemsModalOpen] = useState(false);
+    const [isMapModalOpen, setIsMapModalOpen] = useState(false);
+    const [isSuggestedOrderModalOpen, setIsSuggestedOrderModalOpen] = useState(false);
+    const [isExportModalOpen, setIsExportModalOpen] = useState(false);
 
     const handleOpenAislesModal = useCallback(() => setIsAislesModalOpen(true), []);
     const handleOpenItemsModal = useCallback(() => setIsItemsModalOpen(true), []);
     const handleCloseAislesModal = useCallback(() => setIsAislesModalOpen(false), []);
     const handleCloseItemsModal = useCallback(() => setIsItemsModalOpen(false), []);
+    const handleOpenMapModal = useCallback(() => setIsMapModalOpen(true), []);
+    const handleCloseMapModal = useCallback(() => setIsMapModalOpen(false), []);
+    const handleOpenSuggestedOrderModal = useCallback(() => setIsSuggestedOrderModalOpen(true), []);
+    const handleCloseSuggestedOrderModal = useCallback(
+        () => setIsSuggestedOrderModalOpen(false),
+        []
+    );
+    const handleOpenExportModal = useCallback(() => setIsExportModalOpen(true), []);
+    const handleCloseExportModal = useCallback(() => setIsExportModalOpen(false), []);
 
     const handleClose = useCallback(() => {
         onClose();
@@ -299,6 +317,9 @@ const StoreManagementModalContent: React.FC<StoreManagementModalContentProps> =
             setIsHouseholdSharingModalOpen(false);
             setIsAislesModalOpen(false);
             setIsItemsModalOpen(false);
+            setIsMapModalOpen(false);
+            setIsSuggestedOrderModalOpen(false);
+            setIsExportModalOpen(false);
         }
     }, [storeId]);
 
@@ -548,6 +569,13 @@ const StoreManagementModalContent: React.FC<StoreManagementModalContentProps> =
                             <p>Copy layout and optionally items</p>
                         </IonLabel>
                     </IonItem>
+                    <IonItem button detail={true} onClick={handleOpenExportModal}>
+                        <IonIcon icon={shareOutline} slot="start" />
+                        <IonLabel>
+                            <h2>Export Layout</h2>
+                            <p>Share with friends on another server or keep a backup</p>
+                        </IonLabel>
+                    </IonItem>
                     <IonItem button detail={true} onClick={handleOpenAislesModal}>
                         <IonIcon icon={gridOutline} slot="start" />
                         <IonLabel>
@@ -555,6 +583,13 @@ const StoreManagementModalContent: React.FC<StoreManagementModalContentProps> =
                             <p>Organize store layout</p>
                         </IonLabel>
                     </IonItem>
+                    <IonItem button detail={true} onClick={handleOpenSuggestedOrderModal}>
+                        <IonIcon icon={swapVerticalOutline} slot="start" />
+                        <IonLabel>
+                            <h2>Learned Aisle Order</h2>
+                            <p>Reorder aisles the way you actually shop</p>
+                        </IonLabel>
+                    </IonItem>
                     <IonItem button detail={true} onClick={handleOpenItemsModal}>
                         <IonIcon icon={listOutline} slot="start" />
                         <IonLabel>
@@ -562,6 +597,13 @@ const StoreManagementModalContent: React.FC<StoreManagementModalContentProps> =
                             <p>Manage products and their locations</p>
                         </IonLabel>
                     </IonItem>
+                    <IonItem button detail={true} onClick={handleOpenMapModal}>
+                        <IonIcon icon={mapOutline} slot="start" />
+                        <IonLabel>
+                            <h2>Store Map</h2>
+                            <p>Place aisles to plan a walking route</p>
+                        </IonLabel>
+                    </IonItem>
                 </IonList>
 
                 {/* Rename Store Modal */}
@@ -718,6 +760,21 @@ const StoreManagementModalContent: React.FC<StoreManagementModalContentProps> =
                 onClose={handleCloseItemsModal}
                 storeId={storeId}
             />
+            <StoreMapModal
+                isOpen={isMapModalOpen}
+                onClose={handleCloseMapModal}
+                storeId={storeId}
+            />
+            <SuggestedOrderModal
+                isOpen={isSuggestedOrderModalOpen}
+                onClose={handleCloseSuggestedOrderModal}
+                storeId={storeId}
+            />
+            <ExportStoreLayoutModal
+                isOpen={isExportModalOpen}
+                onClose={handleCloseExportModal}
+                storeId={storeId}
+            />
         </>
     );
 };
@@ -0,0 +1,381 @@
+import type {
+    GridPoint,
+    SaveStoreMapRequest,
+    StoreMapAisle,
+    StoreMapConnection,
+    StoreMapNode,
+} from "@basket-bot/core";
+import { MAX_STORE_MAP_GRID_SIZE, saveStoreMapRequestSchema } from "@basket-bot/core";
+import {
+    IonButton,
+    IonButtons,
+    IonCheckbox,
+    IonContent,
+    IonHeader,
+    IonIcon,
+    IonInput,
+    IonItem,
+    IonLabel,
+    IonList,
+    IonListHeader,
+    IonModal,
+    IonNote,
+    IonSpinner,
+    IonText,
+    IonTitle,
+    IonToolbar,
+    useIonAlert,
+} from "@ionic/react";
+import { add, closeOutline, trash } from "ionicons/icons";
+import React, { useEffect, useMemo, useState } from "react";
+import { useDeleteStoreMap, useSaveStoreMap, useStoreAisles, useStoreMap } from "../../db/hooks";
+import { useToast } from "../../hooks/useToast";
+import { ClickableSelectionField } from "../shared/ClickableSelectionField";
+import type { SelectableItem } from "../shared/ClickableSelectionModal";
+
+interface StoreMapModalProps {
+    storeId: string | null;
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+const ORIGIN: GridPoint = { x: 0, y: 0 };
+
+// Connection endpoints are edited as "entrance", "checkout", or "aisle:<aisleId>:<end>"
+const nodeKey = (node: StoreMapNode) =>
+    node.type === "aisle" ? `aisle:${node.aisleId}:${node.end}` : node.type;
+
+const parseNodeKey = (key: string): StoreMapNode => {
+    if (key === "entrance" || key === "checkout") {
+        return { type: key };
+    }
+    const [, aisleId, end] = key.split(":");
+    return { type: "aisle", aisleId, end: end === "end" ? "end" : "start" };
+};
+
+const toCoordinate = (value: string | number | null | undefined) => {
+    const parsed = Number.parseInt(String(value ?? ""), 10);
+    return Number.isNaN(parsed) ? 0 : parsed;
+};
+
+const PointInputs: React.FC<{
+    label: string;
+    point: GridPoint;
+    onChange: (point: GridPoint) => void;
+}> = ({ label, point, onChange }) => (
+    <IonItem>
+        <IonLabel>{label}</IonLabel>
+        <IonInput
+            aria-label={`${label} X`}
+            type="number"
+            inputmode="numeric"
+            min={0}
+            max={MAX_STORE_MAP_GRID_SIZE - 1}
+            value={point.x}
+            onIonInput={(e) => onChange({ ...point, x: toCoordinate(e.detail.value) })}
+            style={{ maxWidth: "64px" }}
+            placeholder="X"
+        />
+        <IonInput
+            aria-label={`${label} Y`}
+            type="number"
+            inputmode="numeric"
+            min={0}
+            max={MAX_STORE_MAP_GRID_SIZE - 1}
+            value={point.y}
+            onIonInput={(e) => onChange({ ...point, y: toCoordinate(e.detail.value) })}
+            style={{ maxWidth: "64px" }}
+            placeholder="Y"
+        />
+    </IonItem>
+);
+
+/**
+ * Edits a store's map: grid positions for the entrance, checkout, and aisles, plus which points
+ * connect. The shopping list uses it to order unchecked items as a walking route.
+ */
+const StoreMapModal: React.FC<StoreMapModalProps> = ({ storeId, isOpen, onClose }) => {
+    const { data: map, isLoading } = useStoreMap(storeId || "");
+    const { data: aisles = [] } = useStoreAisles(storeId || "");
+    const saveStoreMap = useSaveStoreMap();
+    const deleteStoreMap = useDeleteStoreMap();
+    const { showSuccess, showError } = useToast();
+    const [presentAlert] = useIonAlert();
+
+    const [entrance, setEntrance] = useState<GridPoint>(ORIGIN);
+    const [checkout, setCheckout] = useState<GridPoint>(ORIGIN);
+    const [placements, setPlacements] = useState<StoreMapAisle[]>([]);
+    const [connections, setConnections] = useState<StoreMapConnection[]>([]);
+
+    // Sync local state with the saved map when modal opens
+    useEffect(() => {
+        if (isOpen && !isLoading) {
+            setEntrance(map?.entrance ?? ORIGIN);
+            setCheckout(map?.checkout ?? ORIGIN);
+            setPlacements(map?.aisles ?? []);
+            setConnections(map?.connections ?? []);
+        }
+    }, [isOpen, isLoading, map]);
+
+    const placementOf = (aisleId: string) => placements.find((p) => p.aisleId === aisleId);
+
+    const togglePlaced = (aisleId: string, placed: boolean) => {
+        if (placed) {
+            setPlacements((current) => [...current, { aisleId, start: ORIGIN, end: ORIGIN }]);
+            return;
+        }
+        setPlacements((current) => current.filter((p) => p.aisleId !== aisleId));
+        // Drop connections to an aisle that's no longer on the map
+        setConnections((current) =>
+            current.filter(
+                ({ from, to }) =>
+                    !(from.type === "aisle" && from.aisleId === aisleId) &&
+                    !(to.type === "aisle" && to.aisleId === aisleId)
+            )
+        );
+    };
+
+    const updatePlacement = (aisleId: string, changes: Partial<StoreMapAisle>) => {
+        setPlacements((current) =>
+            current.map((p) => (p.aisleId === aisleId ? { ...p, ...changes } : p))
+        );
+    };
+
+    const updateConnection = (index: number, side: "from" | "to", key: string | null) => {
+        if (!key) return;
+        setConnections((current) =>
+            current.map((c, i) => (i === index ? { ...c, [side]: parseNodeKey(key) } : c))
+        );
+    };
+
+    const nodeOptions = useMemo<SelectableItem[]>(() => {
+        const options: SelectableItem[] = [
+            { id: "entrance", label: "Entrance" },
+            { id: "checkout", label: "Checkout" },
+        ];
+        for (const aisle of aisles) {
+            if (!placements.some((p) => p.aisleId === aisle.id)) continue;
+            options.push(
+                { id: `aisle:${aisle.id}:start`, label: `${aisle.name} (start)` },
+                { id: `aisle:${aisle.id}:end`, label: `${aisle.name} (end)` }
+            );
+        }
+        return options;
+    }, [aisles, placements]);
+
+    const handleSave = async () => {
+        if (!storeId) return;
+
+        const parsed = saveStoreMapRequestSchema.safeParse({
+            entrance,
+            checkout,
+            aisles: placements,
+            connections,
+        } satisfies SaveStoreMapRequest);
+        if (!parsed.success) {
+            showError(parsed.error.issues[0]?.message ?? "Invalid store map");
+            return;
+        }
+
+        try {
+            await saveStoreMap.mutateAsync({ storeId, input: parsed.data });
+            showSuccess("Store map saved");
+            onClose();
+        } catch {
+            // Error toast shown by the mutation hook
+        }
+    };
+
+    const handleDelete = () => {
+        if (!storeId) return;
+
+        presentAlert({
+            header: "Remove Store Map?",
+            message: "The shopping list will go back to aisle order for this store.",
+            buttons: [
+                { text: "Cancel", role: "cancel" },
+                {
+                    text: "Remove",
+                    role: "destructive",
+                    handler: async () => {
+                        try {
+                            await deleteStoreMap.mutateAsync(storeId);
+                            onClose();
+                        } catch {
+                            // Error toast shown by the mutation hook
+                        }
+                    },
+                },
+            ],
+        });
+    };
+
+    const isSaving = saveStoreMap.isPending || deleteStoreMap.isPending;
+
+    return (
+        <IonModal isOpen={isOpen} onDidDismiss={onClose}>
+            <IonHeader>
+                <IonToolbar>
+                    <IonTitle>Store Map</IonTitle>
+                    <IonButtons slot="end">
+                        <IonButton onClick={onClose}>
+                            <IonIcon icon={closeOutline} />
+                        </IonButton>
+                    </IonButtons>
+                </IonToolbar>
+            </IonHeader>
+            <IonContent>
+                {isLoading ? (
+                    <div className="ion-text-center ion-padding">
+                        <IonSpinner />
+                    </div>
+                ) : (
+                    <>
+                        <IonText color="medium">
+                            <p className="ion-padding-horizontal">
+                                Place points on a grid (0, 0 is the top-left corner). Walking an
+                                aisle from start to end passes its sections in order; put both sides
+                                of a double-sided aisle on the same start and end.
+                            </p>
+                        </IonText>
+
+                        <IonList>
+                            <IonListHeader>
+                                <h2>Entrance &amp; Checkout</h2>
+                            </IonListHeader>
+                            <PointInputs label="Entrance" point={entrance} onChange={setEntrance} />
+                            <PointInputs label="Checkout" point={checkout} onChange={setCheckout} />
+
+                            <IonListHeader>
+                                <h2>Aisles</h2>
+                            </IonListHeader>
+                            {aisles.length === 0 && (
+                                <IonItem>
+                                    <IonNote>Add aisles to this store to place them.</IonNote>
+                                </IonItem>
+                            )}
+                            {aisles.map((aisle) => {
+                                const placement = placementOf(aisle.id);
+                                return (
+                                    <React.Fragment key={aisle.id}>
+                                        <IonItem>
+                                            <IonCheckbox
+                                                checked={!!placement}
+                                                onIonChange={(e) =>
+                                                    togglePlaced(aisle.id, e.detail.checked)
+                                                }
+                                                justify="space-between"
+                                            >
+                                                {aisle.name}
+                                            </IonCheckbox>
+                                        </IonItem>
+                                        {placement && (
+                                            <>
+                                                <PointInputs
+                                                    label="Start"
+                                                    point={placement.start}
+                                                    onChange={(start) =>
+                                                        updatePlacement(aisle.id, { start })
+                                                    }
+                                                />
+                                                <PointInputs
+                                                    label="End"
+                                                    point={placement.end}
+                                                    onChange={(end) =>
+                                                        updatePlacement(aisle.id, { end })
+                                                    }
+                                                />
+                                            </>
+                                        )}
+                                    </React.Fragment>
+                                );
+                            })}
+
+                            <IonListHeader>
+                                <h2>Connections</h2>
+                                <IonButton
+                                    onClick={() =>
+                                        setConnections((current) => [
+                                            ...current,
+                                            {
+                                                from: { type: "entrance" },
+                                                to: { type: "checkout" },
+                                            },
+                                        ])
+                                    }
+                                >
+                                    <IonIcon slot="icon-only" icon={add} />
+                                </IonButton>
+                            </IonListHeader>
+                            {connections.length === 0 && (
+                                <IonItem>
+                                    <IonNote>
+                                        No connections: any point can be walked to directly.
+                                    </IonNote>
+                                </IonItem>
+                            )}
+                            {connections.map((connection, index) => (
+                                <React.Fragment key={index}>
+                                    <ClickableSelectionField
+                                        items={nodeOptions}
+                                        value={nodeKey(connection.from)}
+                                        onSelect={(key) => updateConnection(index, "from", key)}
+                                        label={`Connection ${index + 1}: from`}
+                                        placeholder="Select a point"
+                                        modalTitle="Connect From"
+                                        allowClear={false}
+                                        lines="none"
+                                    />
+                                    <ClickableSelectionField
+                                        items={nodeOptions}
+                                        value={nodeKey(connection.to)}
+                                        onSelect={(key) => updateConnection(index, "to", key)}
+                                        label="to"
+                                        placeholder="Select a point"
+                                        modalTitle="Connect To"
+                                        allowClear={false}
+                                        lines="none"
+                                    />
+                                    <IonItem>
+                                        <IonButton
+                                            slot="end"
+                                            fill="clear"
+                                            color="danger"
+                                            onClick={() =>
+                                                setConnections((current) =>
+                                                    current.filter((_, i) => i !== index)
+                                                )
+                                            }
+                                        >
+                                            <IonIcon slot="start" icon={trash} />
+                                            Remove
+                                        </IonButton>
+                                    </IonItem>
+                                </React.Fragment>
+                            ))}
+                        </IonList>
+
+                        <div className="ion-padding">
+                            <IonButton expand="block" onClick={handleSave} disabled={isSaving}>
+                                {saveStoreMap.isPending ? "Saving..." : "Save"}
+                            </IonButton>
+                            {map && (
+                                <IonButton
+                                    expand="block"
+                                    fill="clear"
+                                    color="danger"
+                                    onClick={handleDelete}
+                                    disabled={isSaving}
+                                >
+                                    Remove Map
+                                </IonButton>
+                            )}
+                        </div>
+                    </>
+                )}
+            </IonContent>
+        </IonModal>
+    );
+};
+
+export default StoreMapModal;
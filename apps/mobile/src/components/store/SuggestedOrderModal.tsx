@@ -0,0 +1,170 @@
+import { MIN_LEARNED_ORDER_TRIPS } from "@basket-bot/core";
+import {
+    IonButton,
+    IonButtons,
+    IonContent,
+    IonHeader,
+    IonIcon,
+    IonItem,
+    IonLabel,
+    IonList,
+    IonModal,
+    IonNote,
+    IonSpinner,
+    IonText,
+    IonTitle,
+    IonToolbar,
+} from "@ionic/react";
+import { closeOutline } from "ionicons/icons";
+import pluralize from "pluralize";
+import React, { useMemo } from "react";
+import {
+    useReorderAisles,
+    useReorderSections,
+    useStoreAisles,
+    useStoreSections,
+    useSuggestedStoreOrder,
+} from "../../db/hooks";
+import { useToast } from "../../hooks/useToast";
+
+interface SuggestedOrderModalProps {
+    storeId: string | null;
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+/**
+ * Shows the aisle and section order learned from the order items were checked off,
+ * and applies it through the regular aisle and section reorder
+ */
+const SuggestedOrderModal: React.FC<SuggestedOrderModalProps> = ({ storeId, isOpen, onClose }) => {
+    const { data: suggestion, isLoading } = useSuggestedStoreOrder(storeId || "", isOpen);
+    const { data: aisles = [] } = useStoreAisles(storeId || "");
+    const { data: sections = [] } = useStoreSections(storeId || "");
+    const reorderAisles = useReorderAisles();
+    const reorderSections = useReorderSections();
+    const { showSuccess } = useToast();
+
+    // Suggested aisles in walking order, with their sections and current position
+    const suggestedAisles = useMemo(() => {
+        if (!suggestion) return [];
+        const currentAisles = [...aisles].sort((a, b) => a.sortOrder - b.sortOrder);
+        const sectionOrder = new Map(suggestion.sections.map((s) => [s.id, s.sortOrder]));
+
+        return [...suggestion.aisles]
+            .sort((a, b) => a.sortOrder - b.sortOrder)
+            .flatMap(({ id }, index) => {
+                const aisle = aisles.find((a) => a.id === id);
+                if (!aisle) return [];
+                return {
+                    ...aisle,
+                    previousPosition: currentAisles.findIndex((a) => a.id === id) + 1,
+                    moved: currentAisles[index]?.id !== id,
+                    sectionNames: sections
+                        .filter((section) => section.aisleId === id)
+                        .sort(
+                            (a, b) =>
+                                (sectionOrder.get(a.id) ?? a.sortOrder) -
+                                (sectionOrder.get(b.id) ?? b.sortOrder)
+                        )
+                        .map((section) => section.name),
+                };
+            });
+    }, [aisles, sections, suggestion]);
+
+    const hasChanges = useMemo(() => {
+        if (!suggestion) return false;
+        const currentOrder = new Map(
+            [...aisles, ...sections].map((entity) => [entity.id, entity.sortOrder])
+        );
+        return [...suggestion.aisles, ...suggestion.sections].some(
+            ({ id, sortOrder }) => currentOrder.get(id) !== sortOrder
+        );
+    }, [aisles, sections, suggestion]);
+
+    const handleApply = async () => {
+        if (!storeId || !suggestion) return;
+
+        try {
+            await reorderAisles.mutateAsync({ storeId, updates: suggestion.aisles });
+            await reorderSections.mutateAsync({ storeId, updates: suggestion.sections });
+            showSuccess("Store order updated");
+            onClose();
+        } catch {
+            // Error toast shown by the mutation hooks
+        }
+    };
+
+    const isApplying = reorderAisles.isPending || reorderSections.isPending;
+    const tripCount = suggestion?.tripCount ?? 0;
+
+    return (
+        <IonModal isOpen={isOpen} onDidDismiss={onClose}>
+            <IonHeader>
+                <IonToolbar>
+                    <IonTitle>Learned Order</IonTitle>
+                    <IonButtons slot="end">
+                        <IonButton onClick={onClose}>
+                            <IonIcon icon={closeOutline} />
+                        </IonButton>
+                    </IonButtons>
+                </IonToolbar>
+            </IonHeader>
+            <IonContent>
+                {isLoading ? (
+                    <div className="ion-text-center ion-padding">
+                        <IonSpinner />
+                    </div>
+                ) : suggestedAisles.length === 0 ? (
+                    <IonText color="medium">
+                        <p className="ion-padding">
+                            Not enough data yet: {tripCount} of {MIN_LEARNED_ORDER_TRIPS}{" "}
+                            {pluralize("trip", MIN_LEARNED_ORDER_TRIPS)} recorded. Check items off
+                            as you pick them up and the order you walk the store will show up here.
+                        </p>
+                    </IonText>
+                ) : (
+                    <>
+                        <IonText color="medium">
+                            <p className="ion-padding-horizontal">
+                                {hasChanges
+                                    ? `Based on the order you checked items off on the last ${pluralize("trip", tripCount, true)}.`
+                                    : `Your aisle order already matches the last ${pluralize("trip", tripCount, true)}.`}
+                            </p>
+                        </IonText>
+                        <IonList>
+                            {suggestedAisles.map((aisle, index) => (
+                                <IonItem key={aisle.id}>
+                                    <IonLabel>
+                                        <h2>
+                                            {index + 1}. {aisle.name}
+                                        </h2>
+                                        {aisle.sectionNames.length > 0 && (
+                                            <p>{aisle.sectionNames.join(" → ")}</p>
+                                        )}
+                                    </IonLabel>
+                                    {aisle.moved && (
+                                        <IonNote slot="end" color="primary">
+                                            was #{aisle.previousPosition}
+                                        </IonNote>
+                                    )}
+                                </IonItem>
+                            ))}
+                        </IonList>
+                        <div className="ion-padding">
+                            <IonButton
+                                expand="block"
+                                onClick={handleApply}
+                                disabled={!hasChanges || isApplying}
+                            >
+                                {isApplying ? "Applying..." : "Apply Order"}
+                            </IonButton>
+                        </div>
+                    </>
+                )}
+            </IonContent>
+        </IonModal>
+    );
+};
+
+export default SuggestedOrderModal;
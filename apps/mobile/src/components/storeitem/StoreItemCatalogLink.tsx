@@ -0,0 +1,144 @@
+import {
+    IonButton,
+    IonItem,
+    IonItemDivider,
+    IonLabel,
+    IonList,
+    IonNote,
+    IonSelect,
+    IonSelectOption,
+} from "@ionic/react";
+import pluralize from "pluralize";
+import { useMemo } from "react";
+import {
+    useCatalog,
+    useCatalogItem,
+    useLinkStoreItem,
+    useResetStoreItemLink,
+    useStore,
+    useStoreItemsWithDetails,
+} from "../../db/hooks";
+
+const NOT_IN_CATALOG = "none";
+
+interface StoreItemCatalogLinkProps {
+    storeId: string;
+    storeItemId: string;
+}
+
+/**
+ * The catalog item a store item is linked to, and the same product at other stores. Items are
+ * linked by name automatically; picking another catalog item (or none) links it by hand.
+ * Changes save immediately, independent of the item form.
+ */
+export const StoreItemCatalogLink: React.FC<StoreItemCatalogLinkProps> = ({
+    storeId,
+    storeItemId,
+}) => {
+    const { data: store } = useStore(storeId);
+    const { data: items } = useStoreItemsWithDetails(storeId);
+    const { data: catalog } = useCatalog();
+    const linkStoreItem = useLinkStoreItem();
+    const resetStoreItemLink = useResetStoreItemLink();
+
+    const item = items?.find((storeItem) => storeItem.id === storeItemId);
+    const { data: canonicalItem } = useCatalogItem(item?.canonicalItemId ?? null);
+
+    // Only the store's own catalog: its household's, or its creator's for a personal store
+    const options = useMemo(
+        () =>
+            (catalog ?? []).filter((entry) =>
+                store?.householdId
+                    ? entry.householdId === store.householdId
+                    : entry.userId === store?.createdById
+            ),
+        [catalog, store?.householdId, store?.createdById]
+    );
+
+    if (!item) return null;
+
+    const otherLinks = canonicalItem?.links.filter((link) => link.storeItemId !== item.id) ?? [];
+    const isSaving = linkStoreItem.isPending || resetStoreItemLink.isPending;
+
+    const handleSelect = (value: string) => {
+        const canonicalItemId = value === NOT_IN_CATALOG ? null : value;
+        if (canonicalItemId === item.canonicalItemId && item.isCanonicalLinkConfirmed) return;
+        linkStoreItem.mutate({ storeId, id: item.id, canonicalItemId });
+    };
+
+    const statusText = !item.isCanonicalLinkConfirmed
+        ? "Linked by name."
+        : item.canonicalItemId
+          ? "Linked by hand."
+          : "Kept out of the catalog.";
+    const usageText = canonicalItem
+        ? ` Bought ${pluralize("time", canonicalItem.usageCount, true)} across ${pluralize("store", canonicalItem.storeCount, true)}.`
+        : "";
+
+    return (
+        <IonList>
+            <IonItemDivider>
+                <IonLabel>Other Stores</IonLabel>
+            </IonItemDivider>
+            <IonItem>
+                <IonSelect
+                    label="Same product as"
+                    labelPlacement="stacked"
+                    interface="action-sheet"
+                    value={item.canonicalItemId ?? NOT_IN_CATALOG}
+                    disabled={isSaving}
+                    onIonChange={(e) => handleSelect(e.detail.value)}
+                >
+                    <IonSelectOption value={NOT_IN_CATALOG}>Nothing else</IonSelectOption>
+                    {options.map((entry) => (
+                        <IonSelectOption key={entry.id} value={entry.id}>
+                            {entry.name}
+                        </IonSelectOption>
+                    ))}
+                </IonSelect>
+            </IonItem>
+            {otherLinks.map((link) => (
+                <IonItem key={link.storeItemId}>
+                    <IonLabel>
+                        {link.storeName}
+                        <IonNote color="medium"> · {link.name}</IonNote>
+                    </IonLabel>
+                    <IonNote slot="end">{pluralize("time", link.usageCount, true)}</IonNote>
+                </IonItem>
+            ))}
+            <IonItem lines="none">
+                <IonNote>
+                    {statusText}
+                    {usageText}
+                </IonNote>
+                {item.isCanonicalLinkConfirmed ? (
+                    <IonButton
+                        slot="end"
+                        fill="clear"
+                        disabled={isSaving}
+                        onClick={() => resetStoreItemLink.mutate({ storeId, id: item.id })}
+                    >
+                        Link by Name
+                    </IonButton>
+                ) : (
+                    item.canonicalItemId && (
+                        <IonButton
+                            slot="end"
+                            fill="clear"
+                            disabled={isSaving}
+                            onClick={() =>
+                                linkStoreItem.mutate({
+                                    storeId,
+                                    id: item.id,
+                                    canonicalItemId: item.canonicalItemId,
+                                })
+                            }
+                        >
+                            Confirm
+                        </IonButton>
+                    )
+                )}
+            </IonItem>
+        </IonList>
+    );
+};
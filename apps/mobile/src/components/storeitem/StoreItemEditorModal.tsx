@@ -26,6 +26,9 @@ import { useCreateItem, useDeleteItem, useUpdateItem } from "../../db/hooks";
 import ItemInfoModal from "../shared/ItemInfoModal";
 import { ItemNameAndLocationFields } from "../shared/ItemNameAndLocationFields";
 import { StoreItemEditorProvider } from "./StoreItemEditorProvider";
+import { StoreItemCatalogLink } from "./StoreItemCatalogLink";
+import { StoreItemPurchaseHistory } from "./StoreItemPurchaseHistory";
+import { StoreItemRecurrenceSettings } from "./StoreItemRecurrenceSettings";
 
 interface StoreItemEditorModalProps {
     isOpen: boolean;
@@ -227,6 +230,16 @@ export const StoreItemEditorModal: React.FC<StoreItemEditorModalProps> = ({
                         </IonButton>
                     </form>
                 </StoreItemEditorProvider>
+                {editingItem && (
+                    <>
+                        <StoreItemRecurrenceSettings
+                            storeId={storeId}
+                            storeItemId={editingItem.id}
+                        />
+                        <StoreItemCatalogLink storeId={storeId} storeItemId={editingItem.id} />
+                        <StoreItemPurchaseHistory storeId={storeId} storeItemId={editingItem.id} />
+                    </>
+                )}
             </IonContent>
             {editingItem !== null && (
                 <ItemInfoModal
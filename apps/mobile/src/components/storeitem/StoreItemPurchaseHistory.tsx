@@ -0,0 +1,51 @@
+import { IonItem, IonItemDivider, IonLabel, IonList, IonNote, IonSpinner } from "@ionic/react";
+import { useStoreItemPurchaseHistory } from "../../db/hooks";
+import { formatShortDate } from "../../utils/dateUtils";
+
+interface StoreItemPurchaseHistoryProps {
+    storeId: string;
+    storeItemId: string;
+}
+
+/**
+ * Most recent purchases of a store item: when it was checked off, how much, and by whom
+ */
+export const StoreItemPurchaseHistory: React.FC<StoreItemPurchaseHistoryProps> = ({
+    storeId,
+    storeItemId,
+}) => {
+    const { data: purchases, isLoading } = useStoreItemPurchaseHistory(storeId, storeItemId);
+
+    return (
+        <IonList>
+            <IonItemDivider>
+                <IonLabel>Purchase History</IonLabel>
+            </IonItemDivider>
+            {isLoading && (
+                <IonItem lines="none">
+                    <IonSpinner name="dots" />
+                </IonItem>
+            )}
+            {purchases?.length === 0 && (
+                <IonItem lines="none">
+                    <IonLabel color="medium">Not bought yet</IonLabel>
+                </IonItem>
+            )}
+            {purchases?.map((purchase) => (
+                <IonItem key={purchase.id}>
+                    <IonLabel>
+                        {formatShortDate(purchase.checkedAt)}
+                        {purchase.checkedByName && (
+                            <IonNote color="medium"> · {purchase.checkedByName}</IonNote>
+                        )}
+                    </IonLabel>
+                    {(purchase.qty !== null || purchase.unitAbbreviation) && (
+                        <IonNote slot="end">
+                            {purchase.qty ?? ""} {purchase.unitAbbreviation ?? ""}
+                        </IonNote>
+                    )}
+                </IonItem>
+            ))}
+        </IonList>
+    );
+};
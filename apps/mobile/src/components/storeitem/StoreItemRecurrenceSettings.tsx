@@ -0,0 +1,133 @@
+import { MAX_RECURRENCE_INTERVAL_DAYS, type RecurrenceMode } from "@basket-bot/core";
+import {
+    IonInput,
+    IonItem,
+    IonItemDivider,
+    IonLabel,
+    IonList,
+    IonNote,
+    IonSegment,
+    IonSegmentButton,
+} from "@ionic/react";
+import { useEffect, useState } from "react";
+import { useClearItemRecurrence, useItemRecurrence, useSetItemRecurrence } from "../../db/hooks";
+import { formatShortDate } from "../../utils/dateUtils";
+
+const DEFAULT_INTERVAL_DAYS = 7;
+
+interface StoreItemRecurrenceSettingsProps {
+    storeId: string;
+    storeItemId: string;
+}
+
+/**
+ * Repeat schedule of a store item. Due items come back onto the shopping list as unsure
+ * suggestions. Changes save immediately, independent of the item form.
+ */
+export const StoreItemRecurrenceSettings: React.FC<StoreItemRecurrenceSettingsProps> = ({
+    storeId,
+    storeItemId,
+}) => {
+    const { data: recurrence, isLoading } = useItemRecurrence(storeId, storeItemId);
+    const setRecurrence = useSetItemRecurrence();
+    const clearRecurrence = useClearItemRecurrence();
+    const [intervalText, setIntervalText] = useState(String(DEFAULT_INTERVAL_DAYS));
+
+    useEffect(() => {
+        setIntervalText(String(recurrence?.intervalDays ?? DEFAULT_INTERVAL_DAYS));
+    }, [recurrence?.intervalDays]);
+
+    const mode: RecurrenceMode | "off" = recurrence?.mode ?? "off";
+    const isSaving = setRecurrence.isPending || clearRecurrence.isPending;
+
+    const handleModeChange = (next: RecurrenceMode | "off") => {
+        if (next === mode) return;
+        if (next === "off") {
+            clearRecurrence.mutate({ storeId, storeItemId });
+        } else {
+            setRecurrence.mutate({
+                storeId,
+                storeItemId,
+                input: {
+                    mode: next,
+                    intervalDays: next === "fixed" ? DEFAULT_INTERVAL_DAYS : null,
+                },
+            });
+        }
+    };
+
+    const handleIntervalCommit = () => {
+        const days = parseInt(intervalText, 10);
+        if (!Number.isInteger(days) || days < 1 || days > MAX_RECURRENCE_INTERVAL_DAYS) {
+            setIntervalText(String(recurrence?.intervalDays ?? DEFAULT_INTERVAL_DAYS));
+            return;
+        }
+        if (days !== recurrence?.intervalDays) {
+            setRecurrence.mutate({
+                storeId,
+                storeItemId,
+                input: { mode: "fixed", intervalDays: days },
+            });
+        }
+    };
+
+    const statusText = (() => {
+        if (!recurrence) return null;
+        if (recurrence.effectiveIntervalDays === null) {
+            return "Check this item off at least twice to learn how often you buy it.";
+        }
+        const every =
+            recurrence.mode === "learned"
+                ? `About every ${recurrence.effectiveIntervalDays} days. `
+                : "";
+        return recurrence.nextDueAt
+            ? `${every}Next suggested ${formatShortDate(recurrence.nextDueAt)}.`
+            : every;
+    })();
+
+    return (
+        <IonList>
+            <IonItemDivider>
+                <IonLabel>Repeat</IonLabel>
+            </IonItemDivider>
+            <IonItem lines="none">
+                <IonSegment
+                    value={mode}
+                    disabled={isLoading || isSaving}
+                    onIonChange={(e) => handleModeChange(e.detail.value as RecurrenceMode | "off")}
+                >
+                    <IonSegmentButton value="off">
+                        <IonLabel>Off</IonLabel>
+                    </IonSegmentButton>
+                    <IonSegmentButton value="fixed">
+                        <IonLabel>Every…</IonLabel>
+                    </IonSegmentButton>
+                    <IonSegmentButton value="learned">
+                        <IonLabel>Learn</IonLabel>
+                    </IonSegmentButton>
+                </IonSegment>
+            </IonItem>
+            {mode === "fixed" && (
+                <IonItem>
+                    <IonInput
+                        type="number"
+                        inputmode="numeric"
+                        label="Days between purchases"
+                        labelPlacement="stacked"
+                        min={1}
+                        max={MAX_RECURRENCE_INTERVAL_DAYS}
+                        value={intervalText}
+                        disabled={isSaving}
+                        onIonInput={(e) => setIntervalText(e.detail.value ?? "")}
+                        onIonBlur={handleIntervalCommit}
+                    />
+                </IonItem>
+            )}
+            {statusText && (
+                <IonItem lines="none">
+                    <IonNote>{statusText}</IonNote>
+                </IonItem>
+            )}
+        </IonList>
+    );
+};
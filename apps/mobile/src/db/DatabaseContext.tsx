@@ -2,7 +2,7 @@ import LoadingFallback from "@/components/LoadingFallback";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import React, { PropsWithChildren, useEffect, useState } from "react";
 import { DatabaseContext, type DatabaseContextValue } from "./context";
-import { Database, getDatabase } from "./database";
+import { Database, getDatabase, LocalDatabase } from "./database";
 
 /**
  * Loading fallback component
@@ -52,6 +52,15 @@ export const DatabaseProvider: React.FC<PropsWithChildren> = ({ children }) => {
 
         getDatabase()
             .then((db) => {
+                if (db instanceof LocalDatabase) {
+                    // Reads and writes are served on-device: don't pause them while offline
+                    const defaults = queryClient.getDefaultOptions();
+                    queryClient.setDefaultOptions({
+                        ...defaults,
+                        queries: { ...defaults.queries, networkMode: "always" },
+                        mutations: { ...defaults.mutations, networkMode: "always" },
+                    });
+                }
                 if (!cancelled) {
                     setDatabase(db);
                 }
@@ -68,6 +77,22 @@ export const DatabaseProvider: React.FC<PropsWithChildren> = ({ children }) => {
         };
     }, []);
 
+    // Background sync pulled in changes: refetch that store's data from the database
+    useEffect(() => {
+        if (!database) return;
+
+        return database.onRemoteChange((storeId) => {
+            [
+                ["shopping-list-items", storeId],
+                ["items", storeId],
+                ["items", "with-details", storeId],
+                ["aisles", storeId],
+                ["sections", storeId],
+                ["store-items", "search", storeId],
+            ].forEach((queryKey) => queryClient.invalidateQueries({ queryKey }));
+        });
+    }, [database]);
+
     if (error) {
         throw error;
     }
@@ -1,17 +1,27 @@
 import type {
     AppSetting,
+    CanonicalItemSummary,
+    CanonicalItemWithLinks,
     CheckConflictResult,
+    ImportStoreLayoutRequest,
+    PurchaseEventWithDetails,
     QuantityUnit,
+    SaveStoreMapRequest,
+    SetStoreItemRecurrenceRequest,
     ShoppingListItem,
     ShoppingListItemInput,
     ShoppingListItemWithDetails,
     Store,
     StoreAisle,
     StoreItem,
+    StoreItemRecurrenceWithStatus,
     StoreItemWithDetails,
+    StoreLayout,
+    StoreMap,
     StoreSection,
+    SuggestedStoreOrder,
 } from "@basket-bot/core";
-import { Database, DatabaseChangeListener } from "./types";
+import { Database, DatabaseChangeListener, RemoteChangeListener } from "./types";
 
 /**
  * Base class providing change-listener management and common functionality
@@ -19,6 +29,7 @@ import { Database, DatabaseChangeListener } from "./types";
  */
 export abstract class BaseDatabase implements Database {
     private listeners: Set<DatabaseChangeListener> = new Set();
+    private remoteListeners: Set<RemoteChangeListener> = new Set();
 
     // ========== Lifecycle Methods ==========
     /**
@@ -40,6 +51,7 @@ export abstract class BaseDatabase implements Database {
     protected abstract initializeStorage(): Promise<void>;
 
     abstract close(): Promise<void>;
+    abstract clearLocalData(): Promise<void>;
 
     // ========== Store Operations (Abstract) ==========
     abstract insertStore(name: string): Promise<Store>;
@@ -52,6 +64,8 @@ export abstract class BaseDatabase implements Database {
         newStoreName: string;
         includeItems: boolean;
     }): Promise<Store>;
+    abstract exportStoreLayout(storeId: string, includeItems: boolean): Promise<StoreLayout>;
+    abstract importStoreLayout(request: ImportStoreLayoutRequest): Promise<Store>;
 
     // ========== App Settings Operations (Abstract) ==========
     abstract getAppSetting(key: string): Promise<AppSetting | null>;
@@ -124,6 +138,16 @@ export abstract class BaseDatabase implements Database {
         sectionId?: string | null
     ): Promise<StoreItem>;
 
+    // ========== Item Catalog Operations (Abstract) ==========
+    abstract getCatalog(): Promise<CanonicalItemSummary[]>;
+    abstract getCatalogItem(canonicalItemId: string): Promise<CanonicalItemWithLinks>;
+    abstract linkStoreItem(
+        storeId: string,
+        id: string,
+        canonicalItemId: string | null
+    ): Promise<StoreItem>;
+    abstract resetStoreItemLink(storeId: string, id: string): Promise<StoreItem>;
+
     // ========== Shopping List Operations (Abstract) ==========
     abstract getShoppingListItems(storeId: string): Promise<Array<ShoppingListItemWithDetails>>;
     abstract upsertShoppingListItem(params: ShoppingListItemInput): Promise<ShoppingListItem>;
@@ -136,6 +160,35 @@ export abstract class BaseDatabase implements Database {
     abstract removeShoppingListItem(storeId: string, id: string): Promise<void>;
     abstract clearCheckedShoppingListItems(storeId: string): Promise<number>;
 
+    // ========== Purchase History Operations (Abstract) ==========
+    abstract getStorePurchaseHistory(
+        storeId: string,
+        options?: { limit?: number; before?: string }
+    ): Promise<PurchaseEventWithDetails[]>;
+    abstract getStoreItemPurchaseHistory(
+        storeId: string,
+        storeItemId: string,
+        options?: { limit?: number; before?: string }
+    ): Promise<PurchaseEventWithDetails[]>;
+    abstract getSuggestedStoreOrder(storeId: string): Promise<SuggestedStoreOrder>;
+
+    // ========== Item Recurrence Operations (Abstract) ==========
+    abstract getItemRecurrence(
+        storeId: string,
+        storeItemId: string
+    ): Promise<StoreItemRecurrenceWithStatus | null>;
+    abstract setItemRecurrence(
+        storeId: string,
+        storeItemId: string,
+        input: SetStoreItemRecurrenceRequest
+    ): Promise<StoreItemRecurrenceWithStatus>;
+    abstract clearItemRecurrence(storeId: string, storeItemId: string): Promise<void>;
+
+    // ========== Store Map Operations (Abstract) ==========
+    abstract getStoreMap(storeId: string): Promise<StoreMap | null>;
+    abstract saveStoreMap(storeId: string, input: SaveStoreMapRequest): Promise<StoreMap>;
+    abstract deleteStoreMap(storeId: string): Promise<void>;
+
     // ========== Helper for Store Checking (Abstract) ==========
     /**
      * Check if any stores exist in the database
@@ -155,6 +208,17 @@ export abstract class BaseDatabase implements Database {
         this.listeners.forEach((listener) => listener());
     }
 
+    onRemoteChange(listener: RemoteChangeListener): () => void {
+        this.remoteListeners.add(listener);
+        return () => {
+            this.remoteListeners.delete(listener);
+        };
+    }
+
+    protected notifyRemoteChange(storeId: string) {
+        this.remoteListeners.forEach((listener) => listener(storeId));
+    }
+
     // ========== Shared Initial Store Logic ==========
     /**
      * Ensures at least one store exists, creating a default one if needed.
@@ -1,15 +1,21 @@
+import { LocalDatabase } from "./local";
 import { RemoteDatabase } from "./remote";
 import { Database } from "./types";
 
-export type DatabaseType = "remote";
+export type DatabaseType = "remote" | "local";
 
 let databaseInstance: Database | null = null;
 
 /**
- * Get the configured database type from environment variables
+ * Get the configured database type from environment variables (the offline replica by default)
  */
 function getDatabaseType(): DatabaseType {
-    return "remote";
+    const configured = import.meta.env.VITE_DATABASE_TYPE;
+    if (configured === "local" || configured === "remote") {
+        return configured;
+    }
+
+    return "local";
 }
 
 /**
@@ -28,11 +34,24 @@ export async function getDatabase(): Promise<Database> {
         case "remote":
             db = new RemoteDatabase();
             break;
+        case "local":
+            db = new LocalDatabase();
+            break;
         default:
             throw new Error(`Unknown database type: ${dbType}`);
     }
 
-    await db.initialize();
+    try {
+        await db.initialize();
+    } catch (error) {
+        if (dbType !== "local") throw error;
+
+        // No usable on-device storage: stay online-only rather than not start at all
+        console.warn("[Database] Local database unavailable, using remote:", error);
+        db = new RemoteDatabase();
+        await db.initialize();
+    }
+
     databaseInstance = db;
     return db;
 }
@@ -49,6 +68,7 @@ export async function resetDatabaseInstance(): Promise<void> {
 
 // Re-export types for convenience
 export { BaseDatabase } from "./base";
+export { LocalDatabase } from "./local";
 export { RemoteDatabase } from "./remote";
 export type {
     CoreDatabase,
@@ -56,4 +76,5 @@ export type {
     DatabaseChangeListener,
     DatabaseEvents,
     EntityDatabase,
+    RemoteChangeListener,
 } from "./types";
@@ -1,9 +1,22 @@
 import { ApiError } from "@/lib/api/client";
 import type {
+    CreateApiTokenRequest,
+    CreateMealPlanEntryRequest,
+    CreateRecipeRequest,
+    CreateRecipeTagRequest,
+    ImportStoreLayoutRequest,
+    RecipeIngredientDraft,
+    RecipeWithDetails,
+    SaveStoreMapRequest,
+    SetStoreItemRecurrenceRequest,
     ShoppingListItem,
     ShoppingListItemInput,
     ShoppingListItemWithDetails,
+    StoreEvent,
     StoreItemWithDetails,
+    UpdateListTemplateRequest,
+    UpdateMealPlanEntryRequest,
+    UpdateRecipeTagRequest,
 } from "@basket-bot/core";
 import { KeepAwake } from "@capacitor-community/keep-awake";
 import { Capacitor } from "@capacitor/core";
@@ -15,11 +28,17 @@ import {
     useSuspenseQuery as useTanstackSuspenseQuery,
 } from "@tanstack/react-query";
 import pluralize from "pluralize";
-import { use, useCallback, useMemo } from "react";
+import { use, useCallback, useEffect, useMemo } from "react";
 import { useShield } from "../components/shield/useShield";
 import { useRefreshContext } from "../hooks/refresh/useRefreshContext";
 import { useToast } from "../hooks/useToast";
+import { apiTokenApi } from "../lib/api/apiToken";
 import { householdApi, invitationApi } from "../lib/api/household";
+import { listTemplateApi } from "../lib/api/listTemplate";
+import { mealPlanApi } from "../lib/api/mealPlan";
+import { recipeApi, recipeTagApi, type RecipeListFilter } from "../lib/api/recipe";
+import { sessionApi } from "../lib/api/session";
+import { storeEventsApi } from "../lib/api/storeEvents";
 import * as storeSharingApi from "../lib/api/storeSharing";
 import { formatErrorMessage } from "../utils/errorUtils";
 import { DatabaseContext } from "./context";
@@ -299,6 +318,40 @@ export function useDuplicateStore() {
     });
 }
 
+/**
+ * Hook to fetch a store's layout in the portable export format
+ * Always refetched when shown, so the export reflects the current layout
+ */
+export function useStoreLayoutExport(storeId: string, includeItems: boolean, enabled = true) {
+    const database = useDatabase();
+    return useTanstackQuery({
+        queryKey: ["store-layout-export", storeId, includeItems],
+        queryFn: () => database.exportStoreLayout(storeId, includeItems),
+        enabled: !!storeId && enabled,
+        staleTime: 0,
+    });
+}
+
+/**
+ * Hook to create a store from an exported layout
+ */
+export function useImportStoreLayout() {
+    const database = useDatabase();
+    const queryClient = useQueryClient();
+    const { showError, showSuccess } = useToast();
+
+    return useTanstackMutation({
+        mutationFn: (request: ImportStoreLayoutRequest) => database.importStoreLayout(request),
+        onSuccess: (newStore) => {
+            queryClient.invalidateQueries({ queryKey: ["stores"] });
+            showSuccess(`Store "${newStore.name}" imported successfully`);
+        },
+        onError: (error: Error) => {
+            showError(`Failed to import store: ${error.message}`);
+        },
+    });
+}
+
 /**
  * Hook to save an app setting
  */
@@ -776,7 +829,10 @@ export function useBulkApplyAislesAndSections() {
                                 await database.deleteAisle(storeId, existingAisle.id);
                                 aisleDeletedCount++;
                             } catch (error) {
-                                console.error(`Failed to delete aisle "${existingAisle.name}":`, error);
+                                console.error(
+                                    `Failed to delete aisle "${existingAisle.name}":`,
+                                    error
+                                );
                                 errorCount++;
                             }
                         }
@@ -1386,6 +1442,7 @@ export function useMoveItemToStore() {
         mutationFn: async (params: {
             item: {
                 id: string;
+                storeItemId: string | null;
                 itemName: string | null;
                 notes: string | null;
                 qty: number | null;
@@ -1396,7 +1453,7 @@ export function useMoveItemToStore() {
             targetStoreId: string;
             targetStoreName: string;
         }) => {
-            const { item, targetStoreId, targetStoreName } = params;
+            const { item, sourceStoreId, targetStoreId, targetStoreName } = params;
             const itemName = item.isIdea ? item.notes || "" : item.itemName;
 
             if (item.isIdea) {
@@ -1409,11 +1466,22 @@ export function useMoveItemToStore() {
                     isIdea: true,
                 });
             } else {
-                // Move regular item - get or create store item at target store
+                // Move regular item - the target store's item linked to the same canonical
+                // item goes by its own name there; otherwise get or create one by this name
+                const sourceItems = await database.getItemsByStore(sourceStoreId);
+                const canonicalItemId =
+                    sourceItems.find((storeItem) => storeItem.id === item.storeItemId)
+                        ?.canonicalItemId ?? null;
+                const linkedItem = canonicalItemId
+                    ? (await database.getItemsByStore(targetStoreId)).find(
+                          (storeItem) => storeItem.canonicalItemId === canonicalItemId
+                      )
+                    : undefined;
+
                 // This will match by normalized_name if item exists at target store
                 const targetStoreItem = await database.getOrCreateStoreItemByName(
                     targetStoreId,
-                    item.itemName!,
+                    linkedItem?.name ?? item.itemName!,
                     null, // Will use existing location if item found by normalized_name
                     null
                 );
@@ -1429,7 +1497,7 @@ export function useMoveItemToStore() {
             }
 
             // Remove from current store (without removing the store item)
-            await database.removeShoppingListItem(params.sourceStoreId, item.id);
+            await database.removeShoppingListItem(sourceStoreId, item.id);
 
             return { itemName, targetStoreName };
         },
@@ -1445,6 +1513,322 @@ export function useMoveItemToStore() {
     });
 }
 
+/**
+ * Hook to keep a store's cached list, items, aisles, and sections live while mounted.
+ * Shopping list row changes are patched into the cache in place; item, aisle, and section
+ * changes refetch what they affect. Reconnects resume from the last received event.
+ */
+export function useStoreEvents(storeId: string) {
+    const queryClient = useQueryClient();
+
+    useEffect(() => {
+        const listKey = ["shopping-list-items", storeId];
+
+        const updateList = (
+            update: (items: ShoppingListItemWithDetails[]) => ShoppingListItemWithDetails[]
+        ) => {
+            queryClient.setQueryData<ShoppingListItemWithDetails[]>(listKey, (old) =>
+                old ? update(old) : old
+            );
+        };
+
+        const invalidate = (...queryKeys: unknown[][]) => {
+            queryKeys.forEach((queryKey) => queryClient.invalidateQueries({ queryKey }));
+        };
+
+        const handleEvent = (event: StoreEvent) => {
+            switch (event.entity) {
+                case "shopping-list-item": {
+                    const row = event.data as ShoppingListItemWithDetails | null;
+                    if (event.action === "cleared") {
+                        updateList((items) => items.filter((item) => !item.isChecked));
+                    } else if (event.action === "removed" || !row) {
+                        updateList((items) => items.filter((item) => item.id !== event.entityId));
+                    } else {
+                        updateList((items) =>
+                            sortNamedItems([...items.filter((item) => item.id !== row.id), row])
+                        );
+                    }
+                    break;
+                }
+                case "store-item":
+                    invalidate(
+                        ["items", storeId],
+                        ["items", "with-details", storeId],
+                        ["store-items", "search", storeId],
+                        listKey
+                    );
+                    break;
+                case "aisle":
+                case "section":
+                    invalidate(
+                        [event.entity === "aisle" ? "aisles" : "sections", storeId],
+                        ["items", "with-details", storeId],
+                        listKey
+                    );
+                    break;
+            }
+        };
+
+        // Missed events couldn't be replayed: refetch everything the stream keeps current
+        const handleReset = () => {
+            invalidate(listKey, ["items", storeId], ["aisles", storeId], ["sections", storeId]);
+        };
+
+        const controller = new AbortController();
+        void storeEventsApi.subscribe(
+            storeId,
+            { onEvent: handleEvent, onReset: handleReset },
+            controller.signal
+        );
+
+        return () => controller.abort();
+    }, [storeId, queryClient]);
+}
+
+// ========== Purchase History Hooks ==========
+
+/**
+ * Hook to fetch recent purchases of a store item (checked-off list rows, newest first)
+ * Always refetched when shown, since every check-off adds history
+ */
+export function useStoreItemPurchaseHistory(
+    storeId: string,
+    storeItemId: string | null,
+    limit = 20
+) {
+    const database = useDatabase();
+    return useTanstackQuery({
+        queryKey: ["purchases", storeId, storeItemId, limit],
+        queryFn: () => {
+            if (!storeItemId) throw new Error("Store item ID is required");
+            return database.getStoreItemPurchaseHistory(storeId, storeItemId, { limit });
+        },
+        enabled: !!storeId && !!storeItemId,
+        staleTime: 0,
+    });
+}
+
+/**
+ * Hook to fetch recent purchases at a store, newest first
+ */
+export function useStorePurchaseHistory(storeId: string, limit = 50) {
+    const database = useDatabase();
+    return useTanstackQuery({
+        queryKey: ["purchases", storeId, "all", limit],
+        queryFn: () => database.getStorePurchaseHistory(storeId, { limit }),
+        enabled: !!storeId,
+        staleTime: 0,
+    });
+}
+
+/**
+ * Hook to fetch the aisle and section order learned from recent trips
+ * Always refetched when shown, since every trip refines it
+ */
+export function useSuggestedStoreOrder(storeId: string, enabled = true) {
+    const database = useDatabase();
+    return useTanstackQuery({
+        queryKey: ["suggested-order", storeId],
+        queryFn: () => database.getSuggestedStoreOrder(storeId),
+        enabled: !!storeId && enabled,
+        staleTime: 0,
+    });
+}
+
+// ========== Item Recurrence Hooks ==========
+
+/**
+ * Hook to fetch a store item's recurrence (null when the item doesn't recur)
+ */
+export function useItemRecurrence(storeId: string, storeItemId: string | null) {
+    const database = useDatabase();
+    return useTanstackQuery({
+        queryKey: ["recurrence", storeId, storeItemId],
+        queryFn: () => {
+            if (!storeItemId) throw new Error("Store item ID is required");
+            return database.getItemRecurrence(storeId, storeItemId);
+        },
+        enabled: !!storeId && !!storeItemId,
+    });
+}
+
+/**
+ * Hook to set or replace a store item's recurrence
+ */
+export function useSetItemRecurrence() {
+    const database = useDatabase();
+    const queryClient = useQueryClient();
+    const { showError } = useToast();
+
+    return useTanstackMutation({
+        mutationFn: (params: {
+            storeId: string;
+            storeItemId: string;
+            input: SetStoreItemRecurrenceRequest;
+        }) => database.setItemRecurrence(params.storeId, params.storeItemId, params.input),
+        onSuccess: (recurrence, variables) => {
+            queryClient.setQueryData(
+                ["recurrence", variables.storeId, variables.storeItemId],
+                recurrence
+            );
+        },
+        onError: (error: Error) => {
+            showError(formatErrorMessage(error, "save repeat schedule"));
+        },
+    });
+}
+
+/**
+ * Hook to stop a store item from recurring
+ */
+export function useClearItemRecurrence() {
+    const database = useDatabase();
+    const queryClient = useQueryClient();
+    const { showError } = useToast();
+
+    return useTanstackMutation({
+        mutationFn: (params: { storeId: string; storeItemId: string }) =>
+            database.clearItemRecurrence(params.storeId, params.storeItemId),
+        onSuccess: (_, variables) => {
+            queryClient.setQueryData(
+                ["recurrence", variables.storeId, variables.storeItemId],
+                null
+            );
+        },
+        onError: (error: Error) => {
+            showError(formatErrorMessage(error, "stop repeating item"));
+        },
+    });
+}
+
+// ========== Store Map Hooks ==========
+
+/**
+ * Hook to fetch a store's map (null when the store has none)
+ */
+export function useStoreMap(storeId: string) {
+    const database = useDatabase();
+    return useTanstackQuery({
+        queryKey: ["store-map", storeId],
+        queryFn: () => database.getStoreMap(storeId),
+        enabled: !!storeId,
+    });
+}
+
+/**
+ * Hook to create or replace a store's map
+ */
+export function useSaveStoreMap() {
+    const database = useDatabase();
+    const queryClient = useQueryClient();
+    const { showError } = useToast();
+
+    return useTanstackMutation({
+        mutationFn: (params: { storeId: string; input: SaveStoreMapRequest }) =>
+            database.saveStoreMap(params.storeId, params.input),
+        onSuccess: (map, variables) => {
+            queryClient.setQueryData(["store-map", variables.storeId], map);
+        },
+        onError: (error: Error) => {
+            showError(formatErrorMessage(error, "save store map"));
+        },
+    });
+}
+
+/**
+ * Hook to remove a store's map
+ */
+export function useDeleteStoreMap() {
+    const database = useDatabase();
+    const queryClient = useQueryClient();
+    const { showError } = useToast();
+
+    return useTanstackMutation({
+        mutationFn: (storeId: string) => database.deleteStoreMap(storeId),
+        onSuccess: (_, storeId) => {
+            queryClient.setQueryData(["store-map", storeId], null);
+        },
+        onError: (error: Error) => {
+            showError(formatErrorMessage(error, "delete store map"));
+        },
+    });
+}
+
+// ========== Item Catalog Hooks ==========
+
+/**
+ * Hook to fetch the item catalog: canonical items with usage added up across stores
+ */
+export function useCatalog(enabled = true) {
+    const database = useDatabase();
+    return useTanstackQuery({
+        queryKey: ["catalog"],
+        queryFn: () => database.getCatalog(),
+        enabled,
+    });
+}
+
+/**
+ * Hook to fetch a canonical item with the store items linked to it
+ */
+export function useCatalogItem(canonicalItemId: string | null) {
+    const database = useDatabase();
+    return useTanstackQuery({
+        queryKey: ["catalog", canonicalItemId],
+        queryFn: () => database.getCatalogItem(canonicalItemId!),
+        enabled: !!canonicalItemId,
+    });
+}
+
+/**
+ * Hook to link a store item to a canonical item by hand (null keeps it out of the catalog)
+ */
+export function useLinkStoreItem() {
+    const database = useDatabase();
+    const queryClient = useQueryClient();
+    const { showError } = useToast();
+
+    return useTanstackMutation({
+        mutationFn: (params: { storeId: string; id: string; canonicalItemId: string | null }) =>
+            database.linkStoreItem(params.storeId, params.id, params.canonicalItemId),
+        onSuccess: (_, variables) => {
+            queryClient.invalidateQueries({ queryKey: ["catalog"] });
+            queryClient.invalidateQueries({ queryKey: ["items", variables.storeId] });
+            queryClient.invalidateQueries({
+                queryKey: ["items", "with-details", variables.storeId],
+            });
+        },
+        onError: (error: Error) => {
+            showError(formatErrorMessage(error, "link item"));
+        },
+    });
+}
+
+/**
+ * Hook to drop a store item's hand-made link so it's linked by name again
+ */
+export function useResetStoreItemLink() {
+    const database = useDatabase();
+    const queryClient = useQueryClient();
+    const { showError } = useToast();
+
+    return useTanstackMutation({
+        mutationFn: (params: { storeId: string; id: string }) =>
+            database.resetStoreItemLink(params.storeId, params.id),
+        onSuccess: (_, variables) => {
+            queryClient.invalidateQueries({ queryKey: ["catalog"] });
+            queryClient.invalidateQueries({ queryKey: ["items", variables.storeId] });
+            queryClient.invalidateQueries({
+                queryKey: ["items", "with-details", variables.storeId],
+            });
+        },
+        onError: (error: Error) => {
+            showError(formatErrorMessage(error, "reset item link"));
+        },
+    });
+}
+
 // ============================================================================
 // Store Invitations and Collaborators
 // ============================================================================
@@ -1764,3 +2148,600 @@ export function useCancelInvitation() {
         },
     });
 }
+
+// ============================================================================
+// Recipe Hooks
+// ============================================================================
+
+/**
+ * Hook to fetch household recipes, optionally filtered by tags (ALL or ANY match)
+ */
+export function useRecipes(householdId: string | null, filter: RecipeListFilter = {}) {
+    const { tagIds = [], tagMode = "all", includeHidden = false } = filter;
+
+    return useTanstackQuery({
+        queryKey: ["recipes", householdId, { tagIds: [...tagIds].sort(), tagMode, includeHidden }],
+        queryFn: () => {
+            if (!householdId) throw new Error("Household ID is required");
+            return recipeApi.getRecipes(householdId, { tagIds, tagMode, includeHidden });
+        },
+        enabled: !!householdId,
+    });
+}
+
+/**
+ * Hook to fetch a recipe with its tags and ingredients
+ */
+export function useRecipe(recipeId: string | null) {
+    return useTanstackQuery({
+        queryKey: ["recipes", "detail", recipeId],
+        queryFn: () => {
+            if (!recipeId) throw new Error("Recipe ID is required");
+            return recipeApi.getRecipe(recipeId);
+        },
+        enabled: !!recipeId,
+        retry: (failureCount, error: unknown) => {
+            if (error instanceof ApiError && error.status === 404) {
+                // Don't retry 404s - recipe was deleted
+                return false;
+            }
+            return failureCount < 3;
+        },
+    });
+}
+
+/**
+ * Hook to fetch all recipe tags in a household
+ */
+export function useRecipeTags(householdId: string | null) {
+    return useTanstackQuery({
+        queryKey: ["recipe-tags", householdId],
+        queryFn: () => {
+            if (!householdId) throw new Error("Household ID is required");
+            return recipeTagApi.getTags(householdId);
+        },
+        enabled: !!householdId,
+    });
+}
+
+/**
+ * Hook to create or update a recipe together with its ingredients and tags
+ * Diffs the editor state against the original recipe and issues only the needed calls
+ */
+export function useSaveRecipe() {
+    const queryClient = useQueryClient();
+    const { showSuccess, showError } = useToast();
+
+    return useTanstackMutation({
+        mutationFn: async (params: {
+            householdId: string;
+            original: RecipeWithDetails | null;
+            recipe: CreateRecipeRequest;
+            ingredients: RecipeIngredientDraft[];
+            tagIds: string[];
+        }) => {
+            const { householdId, original, ingredients, tagIds } = params;
+
+            const recipe = original
+                ? await recipeApi.updateRecipe(original.id, params.recipe)
+                : await recipeApi.createRecipe(householdId, params.recipe);
+
+            // Ingredients: delete removed rows, update changed rows, add new rows
+            const keptIds = new Set(ingredients.map((i) => i.id).filter(Boolean));
+            for (const existing of original?.ingredients ?? []) {
+                if (!keptIds.has(existing.id)) {
+                    await recipeApi.deleteIngredient(recipe.id, existing.id);
+                }
+            }
+
+            const orderedIds: string[] = [];
+            for (const [index, draft] of ingredients.entries()) {
+                const input = {
+                    name: draft.name,
+                    qty: draft.qty ?? null,
+                    unitId: draft.unitId ?? null,
+                    notes: draft.notes ?? null,
+                };
+                const existing = original?.ingredients.find((i) => i.id === draft.id);
+
+                if (!existing) {
+                    const created = await recipeApi.addIngredient(recipe.id, {
+                        ...input,
+                        sortOrder: index,
+                    });
+                    orderedIds.push(created.id);
+                    continue;
+                }
+
+                const changed =
+                    existing.name !== input.name ||
+                    existing.qty !== input.qty ||
+                    existing.unitId !== input.unitId ||
+                    existing.notes !== input.notes;
+                if (changed) {
+                    await recipeApi.updateIngredient(recipe.id, existing.id, input);
+                }
+                orderedIds.push(existing.id);
+            }
+
+            const previousOrder = (original?.ingredients ?? [])
+                .filter((i) => keptIds.has(i.id))
+                .map((i) => i.id);
+            const orderChanged = orderedIds.some((id, index) => previousOrder[index] !== id);
+            if (original && orderChanged) {
+                await recipeApi.reorderIngredients(
+                    recipe.id,
+                    orderedIds.map((id, sortOrder) => ({ id, sortOrder }))
+                );
+            }
+
+            // Tags: assign new selections, remove deselected ones
+            const originalTagIds = new Set(original?.tags.map((t) => t.id) ?? []);
+            for (const tagId of tagIds) {
+                if (!originalTagIds.has(tagId)) {
+                    await recipeApi.assignTag(recipe.id, tagId);
+                }
+            }
+            for (const tagId of originalTagIds) {
+                if (!tagIds.includes(tagId)) {
+                    await recipeApi.removeTag(recipe.id, tagId);
+                }
+            }
+
+            return recipe;
+        },
+        onSuccess: (recipe, variables) => {
+            queryClient.invalidateQueries({ queryKey: ["recipes"] });
+            showSuccess(variables.original ? "Recipe saved" : `Recipe "${recipe.name}" created`);
+        },
+        onError: (error: Error) => {
+            // Partial saves are possible - refresh so the editor reflects server state
+            queryClient.invalidateQueries({ queryKey: ["recipes"] });
+            showError(formatErrorMessage(error, "save recipe"));
+        },
+    });
+}
+
+/**
+ * Hook to delete a recipe
+ */
+export function useDeleteRecipe() {
+    const queryClient = useQueryClient();
+    const { showSuccess, showError } = useToast();
+
+    return useTanstackMutation({
+        mutationFn: (recipeId: string) => recipeApi.deleteRecipe(recipeId),
+        onSuccess: (_, recipeId) => {
+            queryClient.removeQueries({ queryKey: ["recipes", "detail", recipeId] });
+            queryClient.invalidateQueries({ queryKey: ["recipes"] });
+            // Deleting a recipe removes it from all meal plans
+            queryClient.invalidateQueries({ queryKey: ["meal-plan"] });
+            showSuccess("Recipe deleted");
+        },
+        onError: (error: Error) => {
+            showError(formatErrorMessage(error, "delete recipe"));
+        },
+    });
+}
+
+/**
+ * Hook to hide or unhide a recipe
+ */
+export function useSetRecipeHidden() {
+    const queryClient = useQueryClient();
+    const { showSuccess, showError } = useToast();
+
+    return useTanstackMutation({
+        mutationFn: (params: { recipeId: string; isHidden: boolean }) =>
+            recipeApi.setRecipeHidden(params.recipeId, params.isHidden),
+        onSuccess: (_, variables) => {
+            queryClient.invalidateQueries({ queryKey: ["recipes"] });
+            showSuccess(variables.isHidden ? "Recipe hidden" : "Recipe is now visible");
+        },
+        onError: (error: Error) => {
+            showError(formatErrorMessage(error, "update recipe"));
+        },
+    });
+}
+
+/**
+ * Hook to create a recipe tag
+ */
+export function useCreateRecipeTag() {
+    const queryClient = useQueryClient();
+    const { showError } = useToast();
+
+    return useTanstackMutation({
+        mutationFn: (params: { householdId: string; input: CreateRecipeTagRequest }) =>
+            recipeTagApi.createTag(params.householdId, params.input),
+        onSuccess: (_, variables) => {
+            queryClient.invalidateQueries({ queryKey: ["recipe-tags", variables.householdId] });
+        },
+        onError: (error: Error) => {
+            showError(formatErrorMessage(error, "create tag"));
+        },
+    });
+}
+
+/**
+ * Hook to update a recipe tag's name or color
+ */
+export function useUpdateRecipeTag() {
+    const queryClient = useQueryClient();
+    const { showError } = useToast();
+
+    return useTanstackMutation({
+        mutationFn: (params: {
+            householdId: string;
+            tagId: string;
+            input: UpdateRecipeTagRequest;
+        }) => recipeTagApi.updateTag(params.tagId, params.input),
+        onSuccess: (_, variables) => {
+            queryClient.invalidateQueries({ queryKey: ["recipe-tags", variables.householdId] });
+            // Recipe details embed tag names and colors
+            queryClient.invalidateQueries({ queryKey: ["recipes", "detail"] });
+        },
+        onError: (error: Error) => {
+            showError(formatErrorMessage(error, "update tag"));
+        },
+    });
+}
+
+/**
+ * Hook to delete a recipe tag (removes it from all recipes)
+ */
+export function useDeleteRecipeTag() {
+    const queryClient = useQueryClient();
+    const { showError } = useToast();
+
+    return useTanstackMutation({
+        mutationFn: (params: { householdId: string; tagId: string }) =>
+            recipeTagApi.deleteTag(params.tagId),
+        onSuccess: (_, variables) => {
+            queryClient.invalidateQueries({ queryKey: ["recipe-tags", variables.householdId] });
+            queryClient.invalidateQueries({ queryKey: ["recipes"] });
+        },
+        onError: (error: Error) => {
+            showError(formatErrorMessage(error, "delete tag"));
+        },
+    });
+}
+
+// ============================================================================
+// Meal Plan Hooks
+// ============================================================================
+
+/**
+ * Hook to fetch planned meals for a household within an inclusive date range (YYYY-MM-DD)
+ */
+export function useMealPlanEntries(householdId: string | null, startDate: string, endDate: string) {
+    return useTanstackQuery({
+        queryKey: ["meal-plan", householdId, startDate, endDate],
+        queryFn: () => {
+            if (!householdId) throw new Error("Household ID is required");
+            return mealPlanApi.getEntries(householdId, startDate, endDate);
+        },
+        enabled: !!householdId,
+    });
+}
+
+/**
+ * Hook to plan a recipe for a day and meal slot
+ */
+export function useCreateMealPlanEntry() {
+    const queryClient = useQueryClient();
+    const { showError } = useToast();
+
+    return useTanstackMutation({
+        mutationFn: (params: { householdId: string; input: CreateMealPlanEntryRequest }) =>
+            mealPlanApi.createEntry(params.householdId, params.input),
+        onSuccess: (_, variables) => {
+            queryClient.invalidateQueries({ queryKey: ["meal-plan", variables.householdId] });
+        },
+        onError: (error: Error) => {
+            showError(formatErrorMessage(error, "add meal"));
+        },
+    });
+}
+
+/**
+ * Hook to change servings or move a planned meal to another day/slot
+ */
+export function useUpdateMealPlanEntry() {
+    const queryClient = useQueryClient();
+    const { showError } = useToast();
+
+    return useTanstackMutation({
+        mutationFn: (params: {
+            householdId: string;
+            entryId: string;
+            input: UpdateMealPlanEntryRequest;
+        }) => mealPlanApi.updateEntry(params.entryId, params.input),
+        onSuccess: (_, variables) => {
+            queryClient.invalidateQueries({ queryKey: ["meal-plan", variables.householdId] });
+        },
+        onError: (error: Error) => {
+            showError(formatErrorMessage(error, "update meal"));
+        },
+    });
+}
+
+/**
+ * Hook to remove a planned meal
+ */
+export function useDeleteMealPlanEntry() {
+    const queryClient = useQueryClient();
+    const { showError } = useToast();
+
+    return useTanstackMutation({
+        mutationFn: (params: { householdId: string; entryId: string }) =>
+            mealPlanApi.deleteEntry(params.entryId),
+        onSuccess: (_, variables) => {
+            queryClient.invalidateQueries({ queryKey: ["meal-plan", variables.householdId] });
+        },
+        onError: (error: Error) => {
+            showError(formatErrorMessage(error, "remove meal"));
+        },
+    });
+}
+
+/**
+ * Hook to add the ingredients of every meal planned in a date range to a store's shopping list
+ */
+export function useGenerateMealPlanShoppingList() {
+    const queryClient = useQueryClient();
+    const { showSuccess, showError } = useToast();
+
+    return useTanstackMutation({
+        mutationFn: mealPlanApi.generateShoppingList,
+        onSuccess: (result, variables) => {
+            queryClient.invalidateQueries({ queryKey: ["shopping-list-items", variables.storeId] });
+            // Unmatched ingredients create new store items
+            queryClient.invalidateQueries({ queryKey: ["items", variables.storeId] });
+            queryClient.invalidateQueries({
+                queryKey: ["items", "with-details", variables.storeId],
+            });
+
+            const parts: string[] = [];
+            if (result.itemsCreated > 0)
+                parts.push(
+                    `${result.itemsCreated} ${pluralize("item", result.itemsCreated)} added`
+                );
+            if (result.itemsMerged > 0)
+                parts.push(`${result.itemsMerged} ${pluralize("item", result.itemsMerged)} merged`);
+
+            showSuccess(
+                parts.length > 0
+                    ? `Shopping list updated: ${parts.join(", ")}`
+                    : "No planned ingredients in this range"
+            );
+        },
+        onError: (error: Error) => {
+            showError(formatErrorMessage(error, "generate shopping list"));
+        },
+    });
+}
+
+// ============================================================================
+// Shopping List Template Hooks
+// ============================================================================
+
+/**
+ * Hook to fetch a household's shopping list templates
+ */
+export function useListTemplates(householdId: string | null) {
+    return useTanstackQuery({
+        queryKey: ["list-templates", householdId],
+        queryFn: () => {
+            if (!householdId) throw new Error("Household ID is required");
+            return listTemplateApi.getTemplates(householdId);
+        },
+        enabled: !!householdId,
+    });
+}
+
+/**
+ * Hook to rename a template and/or replace its items
+ */
+export function useUpdateListTemplate() {
+    const queryClient = useQueryClient();
+    const { showError } = useToast();
+
+    return useTanstackMutation({
+        mutationFn: (params: { templateId: string; input: UpdateListTemplateRequest }) =>
+            listTemplateApi.updateTemplate(params.templateId, params.input),
+        onSuccess: (template) => {
+            queryClient.setQueryData(["list-templates", "detail", template.id], template);
+            queryClient.invalidateQueries({ queryKey: ["list-templates", template.householdId] });
+        },
+        onError: (error: Error) => {
+            showError(formatErrorMessage(error, "update template"));
+        },
+    });
+}
+
+/**
+ * Hook to delete a template
+ */
+export function useDeleteListTemplate() {
+    const queryClient = useQueryClient();
+    const { showError } = useToast();
+
+    return useTanstackMutation({
+        mutationFn: (params: { householdId: string; templateId: string }) =>
+            listTemplateApi.deleteTemplate(params.templateId),
+        onSuccess: (_, variables) => {
+            queryClient.removeQueries({
+                queryKey: ["list-templates", "detail", variables.templateId],
+            });
+            queryClient.invalidateQueries({ queryKey: ["list-templates", variables.householdId] });
+        },
+        onError: (error: Error) => {
+            showError(formatErrorMessage(error, "delete template"));
+        },
+    });
+}
+
+/**
+ * Hook to save the unchecked items of a store's shopping list as a template
+ */
+export function useSaveListAsTemplate() {
+    const queryClient = useQueryClient();
+    const { showSuccess, showError } = useToast();
+
+    return useTanstackMutation({
+        mutationFn: listTemplateApi.saveListAsTemplate,
+        onSuccess: (template, variables) => {
+            queryClient.invalidateQueries({ queryKey: ["list-templates", variables.householdId] });
+            showSuccess(
+                `Saved "${template.name}" with ${template.items.length} ${pluralize("item", template.items.length)}`
+            );
+        },
+        onError: (error: Error) => {
+            showError(formatErrorMessage(error, "save template"));
+        },
+    });
+}
+
+/**
+ * Hook to add a template's items to a store's shopping list
+ */
+export function useApplyListTemplate() {
+    const queryClient = useQueryClient();
+    const { showSuccess, showError } = useToast();
+
+    return useTanstackMutation({
+        mutationFn: listTemplateApi.applyTemplate,
+        onSuccess: (result, variables) => {
+            queryClient.invalidateQueries({ queryKey: ["shopping-list-items", variables.storeId] });
+            // Template items without a store item yet create one
+            queryClient.invalidateQueries({ queryKey: ["items", variables.storeId] });
+            queryClient.invalidateQueries({
+                queryKey: ["items", "with-details", variables.storeId],
+            });
+
+            const parts: string[] = [];
+            if (result.itemsAdded > 0)
+                parts.push(`${result.itemsAdded} ${pluralize("item", result.itemsAdded)} added`);
+            if (result.itemsSkipped > 0) parts.push(`${result.itemsSkipped} already on the list`);
+
+            showSuccess(
+                parts.length > 0
+                    ? `Shopping list updated: ${parts.join(", ")}`
+                    : "This template has no items"
+            );
+        },
+        onError: (error: Error) => {
+            showError(formatErrorMessage(error, "apply template"));
+        },
+    });
+}
+
+// ============================================================================
+// Signed-in Device Hooks
+// ============================================================================
+
+/**
+ * Hook to get the user's signed-in devices
+ */
+export function useSessions(enabled = true) {
+    return useTanstackQuery({
+        queryKey: ["auth-sessions"],
+        queryFn: sessionApi.getSessions,
+        enabled,
+    });
+}
+
+/**
+ * Hook to sign another device out
+ */
+export function useSignOutSession() {
+    const queryClient = useQueryClient();
+    const { showSuccess, showError } = useToast();
+
+    return useTanstackMutation({
+        mutationFn: (sessionId: string) => sessionApi.signOutSession(sessionId),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ["auth-sessions"] });
+            showSuccess("Device signed out");
+        },
+        onError: (error: Error) => {
+            showError(formatErrorMessage(error, "sign out device"));
+        },
+    });
+}
+
+/**
+ * Hook to sign out every device except this one
+ */
+export function useSignOutOtherSessions() {
+    const queryClient = useQueryClient();
+    const { showSuccess, showError } = useToast();
+
+    return useTanstackMutation({
+        mutationFn: sessionApi.signOutOtherSessions,
+        onSuccess: (signedOut) => {
+            queryClient.invalidateQueries({ queryKey: ["auth-sessions"] });
+            showSuccess(
+                signedOut > 0
+                    ? `Signed out ${signedOut} other ${pluralize("device", signedOut)}`
+                    : "No other devices were signed in"
+            );
+        },
+        onError: (error: Error) => {
+            showError(formatErrorMessage(error, "sign out other devices"));
+        },
+    });
+}
+
+// ============================================================================
+// API Token Hooks
+// ============================================================================
+
+/**
+ * Hook to get the user's personal API tokens
+ */
+export function useApiTokens(enabled = true) {
+    return useTanstackQuery({
+        queryKey: ["api-tokens"],
+        queryFn: apiTokenApi.getApiTokens,
+        enabled,
+    });
+}
+
+/**
+ * Hook to create an API token; the caller shows the returned value, which can't be retrieved later
+ */
+export function useCreateApiToken() {
+    const queryClient = useQueryClient();
+    const { showError } = useToast();
+
+    return useTanstackMutation({
+        mutationFn: (request: CreateApiTokenRequest) => apiTokenApi.createApiToken(request),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ["api-tokens"] });
+        },
+        onError: (error: Error) => {
+            showError(formatErrorMessage(error, "create API token"));
+        },
+    });
+}
+
+/**
+ * Hook to revoke an API token
+ */
+export function useRevokeApiToken() {
+    const queryClient = useQueryClient();
+    const { showSuccess, showError } = useToast();
+
+    return useTanstackMutation({
+        mutationFn: (tokenId: string) => apiTokenApi.revokeApiToken(tokenId),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ["api-tokens"] });
+            showSuccess("API token revoked");
+        },
+        onError: (error: Error) => {
+            showError(formatErrorMessage(error, "revoke API token"));
+        },
+    });
+}
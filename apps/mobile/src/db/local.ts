@@ -0,0 +1,1115 @@
+import type {
+    AppSetting,
+    CanonicalItemSummary,
+    CanonicalItemWithLinks,
+    CheckConflictResult,
+    ImportStoreLayoutRequest,
+    PurchaseEventWithDetails,
+    QuantityUnit,
+    SaveStoreMapRequest,
+    SetStoreItemRecurrenceRequest,
+    ShoppingListItem,
+    ShoppingListItemInput,
+    ShoppingListItemWithDetails,
+    Store,
+    StoreAisle,
+    StoreEventEntity,
+    StoreItem,
+    StoreItemRecurrenceWithStatus,
+    StoreItemWithDetails,
+    StoreLayout,
+    StoreMap,
+    StoreSection,
+    SuggestedStoreOrder,
+} from "@basket-bot/core";
+import { apiClient, ApiError } from "../lib/api/client";
+import { BaseDatabase } from "./base";
+import {
+    LocalStore,
+    type LocalRowRecord,
+    type LocalStatement,
+    type NewPendingChange,
+    type PendingChange,
+    type PendingField,
+} from "./localStore";
+import { LocalSync, sameValue, type SyncedRow } from "./localSync";
+import { bySortOrder, RemoteDatabase } from "./remote";
+
+// Rows without a location sort after every aisle/section (as the backend sorts them)
+const UNPLACED_SORT_ORDER = 999999;
+
+function now(): string {
+    return new Date().toISOString();
+}
+
+/**
+ * Same normalization as the backend's nameNorm
+ */
+function normalizeName(name: string): string {
+    return name.toLowerCase().trim();
+}
+
+function nextSortOrder(rows: Array<{ sortOrder: number }>): number {
+    return rows.reduce((max, row) => Math.max(max, row.sortOrder + 1), 0);
+}
+
+function isNetworkError(error: unknown): boolean {
+    return error instanceof ApiError && error.isNetworkError;
+}
+
+function notFound(what: string): ApiError {
+    return new ApiError(`${what} not found`, "NOT_FOUND", null, 404);
+}
+
+/**
+ * Everything the replica holds for one store, as the app should see it
+ */
+type StoreReplica = {
+    aisles: Map<string, StoreAisle>;
+    sections: Map<string, StoreSection>;
+    items: Map<string, StoreItemWithDetails>;
+    deletedItemIds: Set<string>;
+    shoppingListItems: ShoppingListItemWithDetails[];
+    units: Map<string, QuantityUnit>;
+};
+
+/**
+ * Recompute an item's location details from the replica (they may have been edited locally)
+ */
+function withItemDetails(
+    item: StoreItemWithDetails,
+    aisles: Map<string, StoreAisle>,
+    sections: Map<string, StoreSection>
+): StoreItemWithDetails {
+    const section = item.sectionId ? sections.get(item.sectionId) : undefined;
+    const aisleId = section?.aisleId ?? item.aisleId;
+    const aisle = aisleId ? aisles.get(aisleId) : undefined;
+
+    return {
+        ...item,
+        sectionId: section?.id ?? null,
+        sectionName: section?.name ?? null,
+        sectionSortOrder: section?.sortOrder ?? null,
+        aisleId: aisle?.id ?? null,
+        aisleName: aisle?.name ?? null,
+        aisleSortOrder: aisle?.sortOrder ?? null,
+    };
+}
+
+/**
+ * Recompute a list row's item, unit, and location details from the replica.
+ * Rows whose store item isn't in the replica (hidden items) keep the server's details.
+ */
+function withListDetails(
+    row: ShoppingListItemWithDetails,
+    items: Map<string, StoreItemWithDetails>,
+    units: Map<string, QuantityUnit>
+): ShoppingListItemWithDetails {
+    const item = row.storeItemId ? items.get(row.storeItemId) : undefined;
+    const unitAbbreviation = row.unitId
+        ? (units.get(row.unitId)?.abbreviation ?? row.unitAbbreviation)
+        : null;
+
+    if (!item) return { ...row, unitAbbreviation };
+
+    return {
+        ...row,
+        unitAbbreviation,
+        itemName: item.name,
+        isFavorite: item.isFavorite,
+        sectionId: item.sectionId,
+        sectionName: item.sectionName,
+        sectionSortOrder: item.sectionSortOrder,
+        aisleId: item.aisleId,
+        aisleName: item.aisleName,
+        aisleSortOrder: item.aisleSortOrder,
+        storeItemCreatedByName: item.createdByName,
+        storeItemUpdatedByName: item.updatedByName,
+        storeItemCreatedAt: item.createdAt,
+        storeItemUpdatedAt: item.updatedAt,
+    };
+}
+
+function byLocation<T extends { aisleSortOrder: number | null; sectionSortOrder: number | null }>(
+    then: (a: T, b: T) => number
+): (a: T, b: T) => number {
+    return (a, b) =>
+        (a.aisleSortOrder ?? UNPLACED_SORT_ORDER) - (b.aisleSortOrder ?? UNPLACED_SORT_ORDER) ||
+        (a.sectionSortOrder ?? UNPLACED_SORT_ORDER) - (b.sectionSortOrder ?? UNPLACED_SORT_ORDER) ||
+        then(a, b);
+}
+
+/**
+ * The base of a field's pending edit: an earlier pending edit's base wins (it's the value the
+ * user first edited against); otherwise the current server copy, if the row has one
+ */
+function pendingBase(
+    earlier: PendingField | undefined,
+    serverData: SyncedRow | null,
+    name: string
+): Pick<PendingField, "base"> {
+    if (earlier) return "base" in earlier ? { base: earlier.base } : {};
+    return serverData ? { base: serverData[name] ?? null } : {};
+}
+
+/**
+ * Offline-first database backed by an on-device SQLite replica.
+ * Aisles, sections, store items, and shopping lists are read from the replica and written to
+ * it immediately; writes are journaled and pushed in the background, and the replica follows
+ * the backend through delta sync (see LocalSync). Conflicts resolve per field, last writer wins.
+ *
+ * Stores and quantity units are cached from the last online response; everything else
+ * (store management, purchase history, recurrence) still needs a connection.
+ */
+export class LocalDatabase extends BaseDatabase {
+    private store = new LocalStore();
+    private syncer = new LocalSync(this.store);
+    private remote = new RemoteDatabase();
+
+    private handleOnline = () => this.syncPendingStores();
+
+    protected async initializeStorage(): Promise<void> {
+        await this.store.open();
+        await this.remote.initialize();
+
+        window.addEventListener("online", this.handleOnline);
+        this.syncPendingStores();
+    }
+
+    async close(): Promise<void> {
+        window.removeEventListener("online", this.handleOnline);
+        await this.store.close();
+        await this.remote.close();
+    }
+
+    async clearLocalData(): Promise<void> {
+        await this.store.exclusive(() => this.store.clear());
+        await this.remote.clearLocalData();
+    }
+
+    protected async hasStores(): Promise<boolean> {
+        // Not used - backend manages seed data
+        return true;
+    }
+
+    // ========== Sync ==========
+    /**
+     * Push journals left from an earlier session (or from while offline)
+     */
+    private syncPendingStores(): void {
+        this.store
+            .getStoresWithPendingChanges()
+            .then((storeIds) => storeIds.forEach((storeId) => this.syncInBackground(storeId)))
+            .catch((error) => console.error("[LocalDatabase] Failed to read journal:", error));
+    }
+
+    private syncInBackground(storeId: string): void {
+        this.syncer
+            .sync(storeId)
+            .then((changed) => {
+                if (changed) this.notifyRemoteChange(storeId);
+            })
+            .catch((error) => {
+                if (isNetworkError(error)) return;
+                console.warn("[LocalDatabase] Sync failed:", error);
+                // Access lost or store deleted: the replica was dropped
+                if (error instanceof ApiError && (error.status === 403 || error.status === 404)) {
+                    this.notifyRemoteChange(storeId);
+                }
+            });
+    }
+
+    /**
+     * The first read of a store waits for its initial snapshot; later reads are answered
+     * from the replica right away while it's refreshed in the background
+     */
+    private async prepareStore(storeId: string): Promise<void> {
+        if ((await this.store.getCursor(storeId)) !== null) {
+            this.syncInBackground(storeId);
+            return;
+        }
+
+        try {
+            await this.syncer.sync(storeId);
+        } catch (error) {
+            // Offline before the store was ever synced: it starts out empty
+            if (!isNetworkError(error)) throw error;
+        }
+    }
+
+    private async loadReplica(storeId: string): Promise<StoreReplica> {
+        await this.prepareStore(storeId);
+
+        const [aisleRows, sectionRows, itemRecords, listRows, unitRows] = await Promise.all([
+            this.store.getVisibleRows<StoreAisle>("aisle", storeId),
+            this.store.getVisibleRows<StoreSection>("section", storeId),
+            this.store.getRows<StoreItemWithDetails>("store-item", storeId),
+            this.store.getVisibleRows<ShoppingListItemWithDetails>("shopping-list-item", storeId),
+            this.store.getCachedRows<QuantityUnit>("quantity-unit"),
+        ]);
+
+        const aisles = new Map(aisleRows.map((aisle) => [aisle.id, aisle]));
+        // The server deletes an aisle's sections along with it
+        const sections = new Map(
+            sectionRows
+                .filter((section) => aisles.has(section.aisleId))
+                .map((section) => [section.id, section])
+        );
+
+        const items = new Map<string, StoreItemWithDetails>();
+        const deletedItemIds = new Set<string>();
+        for (const record of itemRecords) {
+            if (record.data) {
+                items.set(record.id, withItemDetails(record.data, aisles, sections));
+            } else {
+                deletedItemIds.add(record.id);
+            }
+        }
+
+        const units = new Map(unitRows.map((unit) => [unit.id, unit]));
+
+        // The server deletes a store item's list rows along with it
+        const shoppingListItems = listRows
+            .filter((row) => !row.storeItemId || !deletedItemIds.has(row.storeItemId))
+            .map((row) => withListDetails(row, items, units));
+
+        return { aisles, sections, items, deletedItemIds, shoppingListItems, units };
+    }
+
+    // ========== Local Writes ==========
+    /**
+     * Run a replica write exclusively, then push it in the background
+     */
+    private async writeLocally<T>(storeId: string, write: () => Promise<T>): Promise<T> {
+        const result = await this.store.exclusive(write);
+        this.syncInBackground(storeId);
+        return result;
+    }
+
+    private auditFields() {
+        const userId = apiClient.getUserId() ?? "";
+        const timestamp = now();
+        return {
+            createdById: userId,
+            updatedById: userId,
+            createdAt: timestamp,
+            updatedAt: timestamp,
+        };
+    }
+
+    /**
+     * Add a new row and journal its creation
+     */
+    private async createRow<T extends { id: string; createdAt: string }>(
+        entity: StoreEventEntity,
+        storeId: string,
+        row: T,
+        payload: Record<string, unknown>,
+        statements: LocalStatement[] = []
+    ): Promise<void> {
+        await this.store.write([
+            ...statements,
+            this.store.putRow(entity, { id: row.id, storeId, data: row, serverData: null }),
+            this.store.addPendingChange(
+                { storeId, entity, entityId: row.id, op: "create", payload },
+                row.createdAt
+            ),
+        ]);
+    }
+
+    /**
+     * Apply field edits to rows and journal them. A row keeps one pending update, which moves
+     * to the end of the journal so it's pushed after anything it may now reference.
+     */
+    private async editRows<T extends SyncedRow>(
+        entity: StoreEventEntity,
+        storeId: string,
+        edits: Array<{ id: string; edit: (row: T) => Record<string, unknown> }>
+    ): Promise<T[]> {
+        const pending = await this.store.getPendingChanges(storeId);
+        const editedAt = now();
+        const updatedById = apiClient.getUserId() ?? "";
+        const statements: LocalStatement[] = [];
+        const rows: T[] = [];
+
+        for (const { id, edit } of edits) {
+            const record = await this.store.getRow<T>(entity, id);
+            if (!record?.data) throw notFound(entity);
+            const current = record.data;
+
+            const fields = edit(current);
+            const changed = Object.entries(fields).filter(
+                ([name, value]) => !sameValue(current[name], value)
+            );
+            if (changed.length === 0) {
+                rows.push(current);
+                continue;
+            }
+
+            const previous = pending.find(
+                (change): change is Extract<PendingChange, { op: "update" }> =>
+                    change.op === "update" && change.entity === entity && change.entityId === id
+            );
+            const payload: Record<string, PendingField> = { ...previous?.payload };
+            for (const [name, value] of changed) {
+                payload[name] = {
+                    value,
+                    editedAt,
+                    ...pendingBase(payload[name], record.serverData, name),
+                };
+            }
+
+            const data = { ...current, ...fields, updatedAt: editedAt, updatedById };
+            statements.push(this.store.putRow(entity, { ...record, data }));
+            if (previous) statements.push(...this.store.removePendingChanges([previous.seq]));
+            statements.push(
+                this.store.addPendingChange(
+                    { storeId, entity, entityId: id, op: "update", payload },
+                    editedAt
+                )
+            );
+            rows.push(data);
+        }
+
+        await this.store.write(statements);
+        return rows;
+    }
+
+    /**
+     * Delete a row locally. Rows the server has are kept as tombstones until the journaled
+     * deletion is pushed; rows it never saw are simply dropped along with their journal.
+     */
+    private deleteRowStatements(
+        entity: StoreEventEntity,
+        record: LocalRowRecord<unknown>,
+        pending: PendingChange[],
+        change: NewPendingChange | null
+    ): LocalStatement[] {
+        const statements = this.store.removePendingChanges(
+            pending
+                .filter((entry) => entry.entity === entity && entry.entityId === record.id)
+                .map((entry) => entry.seq)
+        );
+
+        if (!record.serverData) {
+            statements.push(this.store.deleteRow(entity, record.id));
+        } else {
+            statements.push(this.store.putRow(entity, { ...record, data: null }));
+            if (change) statements.push(this.store.addPendingChange(change, now()));
+        }
+        return statements;
+    }
+
+    private async deleteLocally(
+        entity: StoreEventEntity,
+        storeId: string,
+        id: string
+    ): Promise<void> {
+        await this.writeLocally(storeId, async () => {
+            const record = await this.store.getRow(entity, id);
+            if (!record?.data) return;
+
+            const pending = await this.store.getPendingChanges(storeId);
+            await this.store.write(
+                this.deleteRowStatements(entity, record, pending, {
+                    storeId,
+                    entity,
+                    entityId: id,
+                    op: "delete",
+                    payload: {},
+                })
+            );
+        });
+    }
+
+    // ========== Store Operations ==========
+    async insertStore(name: string): Promise<Store> {
+        return this.remote.insertStore(name);
+    }
+
+    async loadAllStores(): Promise<Store[]> {
+        try {
+            const stores = await this.remote.loadAllStores();
+            await this.store.exclusive(() =>
+                this.store.write(this.store.replaceRows("store", stores, (store) => store.id))
+            );
+            return stores;
+        } catch (error) {
+            if (!isNetworkError(error)) throw error;
+            const stores = await this.store.getCachedRows<Store>("store");
+            return stores.sort((a, b) => a.name.localeCompare(b.name));
+        }
+    }
+
+    async getStoreById(id: string): Promise<Store | null> {
+        try {
+            return await this.remote.getStoreById(id);
+        } catch (error) {
+            if (!isNetworkError(error)) throw error;
+            const cached = await this.store.getRow<Store>("store", id);
+            return cached?.data ?? null;
+        }
+    }
+
+    async updateStore(id: string, name: string): Promise<Store> {
+        return this.remote.updateStore(id, name);
+    }
+
+    async deleteStore(id: string): Promise<void> {
+        await this.remote.deleteStore(id);
+        await this.store.exclusive(() => this.store.write(this.store.deleteStoreData(id)));
+    }
+
+    async duplicateStore(params: {
+        sourceStoreId: string;
+        newStoreName: string;
+        includeItems: boolean;
+    }): Promise<Store> {
+        return this.remote.duplicateStore(params);
+    }
+
+    async exportStoreLayout(storeId: string, includeItems: boolean): Promise<StoreLayout> {
+        return this.remote.exportStoreLayout(storeId, includeItems);
+    }
+
+    async importStoreLayout(request: ImportStoreLayoutRequest): Promise<Store> {
+        return this.remote.importStoreLayout(request);
+    }
+
+    // ========== App Settings Operations ==========
+    async getAppSetting(key: string): Promise<AppSetting | null> {
+        return this.remote.getAppSetting(key);
+    }
+
+    async setAppSetting(key: string, value: string): Promise<void> {
+        return this.remote.setAppSetting(key, value);
+    }
+
+    // ========== Quantity Unit Operations ==========
+    async loadAllQuantityUnits(): Promise<QuantityUnit[]> {
+        try {
+            const units = await this.remote.loadAllQuantityUnits();
+            await this.store.exclusive(() =>
+                this.store.write(this.store.replaceRows("quantity-unit", units, () => ""))
+            );
+            return units;
+        } catch (error) {
+            if (!isNetworkError(error)) throw error;
+            const units = await this.store.getCachedRows<QuantityUnit>("quantity-unit");
+            return units.sort((a, b) => a.sortOrder - b.sortOrder);
+        }
+    }
+
+    // ========== StoreAisle Operations ==========
+    async insertAisle(storeId: string, name: string): Promise<StoreAisle> {
+        return this.writeLocally(storeId, async () => {
+            const aisles = await this.store.getVisibleRows<StoreAisle>("aisle", storeId);
+            const aisle: StoreAisle = {
+                id: crypto.randomUUID(),
+                storeId,
+                name,
+                sortOrder: nextSortOrder(aisles),
+                ...this.auditFields(),
+            };
+            await this.createRow("aisle", storeId, aisle, { name });
+            return aisle;
+        });
+    }
+
+    async getAislesByStore(storeId: string): Promise<StoreAisle[]> {
+        const { aisles } = await this.loadReplica(storeId);
+        return bySortOrder(aisles.values());
+    }
+
+    async updateAisle(storeId: string, id: string, name: string): Promise<StoreAisle> {
+        const [aisle] = await this.writeLocally(storeId, () =>
+            this.editRows<StoreAisle & SyncedRow>("aisle", storeId, [
+                { id, edit: () => ({ name }) },
+            ])
+        );
+        return aisle;
+    }
+
+    async updateAisleSortOrder(
+        storeId: string,
+        id: string,
+        sortOrder: number
+    ): Promise<StoreAisle> {
+        const [aisle] = await this.writeLocally(storeId, () =>
+            this.editRows<StoreAisle & SyncedRow>("aisle", storeId, [
+                { id, edit: () => ({ sortOrder }) },
+            ])
+        );
+        return aisle;
+    }
+
+    async deleteAisle(storeId: string, id: string): Promise<void> {
+        await this.deleteLocally("aisle", storeId, id);
+    }
+
+    async reorderAisles(
+        storeId: string,
+        updates: Array<{ id: string; sortOrder: number }>
+    ): Promise<void> {
+        await this.writeLocally(storeId, () =>
+            this.editRows<StoreAisle & SyncedRow>(
+                "aisle",
+                storeId,
+                updates.map(({ id, sortOrder }) => ({ id, edit: () => ({ sortOrder }) }))
+            )
+        );
+    }
+
+    // ========== StoreSection Operations ==========
+    async insertSection(storeId: string, name: string, aisleId: string): Promise<StoreSection> {
+        return this.writeLocally(storeId, async () => {
+            const sections = await this.store.getVisibleRows<StoreSection>("section", storeId);
+            const section: StoreSection = {
+                id: crypto.randomUUID(),
+                storeId,
+                aisleId,
+                name,
+                sortOrder: nextSortOrder(sections.filter((section) => section.aisleId === aisleId)),
+                ...this.auditFields(),
+            };
+            await this.createRow("section", storeId, section, { name, aisleId });
+            return section;
+        });
+    }
+
+    async getSectionsByStore(storeId: string): Promise<StoreSection[]> {
+        const { sections } = await this.loadReplica(storeId);
+        return bySortOrder(sections.values());
+    }
+
+    async getSectionById(id: string): Promise<StoreSection | null> {
+        const record = await this.store.getRow<StoreSection>("section", id);
+        return record?.data ?? null;
+    }
+
+    async updateSection(
+        storeId: string,
+        id: string,
+        name: string,
+        aisleId: string
+    ): Promise<StoreSection> {
+        const [section] = await this.writeLocally(storeId, () =>
+            this.editRows<StoreSection & SyncedRow>("section", storeId, [
+                { id, edit: () => ({ name, aisleId }) },
+            ])
+        );
+        return section;
+    }
+
+    async updateSectionLocation(
+        storeId: string,
+        id: string,
+        aisleId: string,
+        sortOrder: number
+    ): Promise<StoreSection> {
+        const [section] = await this.writeLocally(storeId, () =>
+            this.editRows<StoreSection & SyncedRow>("section", storeId, [
+                { id, edit: () => ({ aisleId, sortOrder }) },
+            ])
+        );
+        return section;
+    }
+
+    async deleteSection(storeId: string, id: string): Promise<void> {
+        await this.deleteLocally("section", storeId, id);
+    }
+
+    async reorderSections(
+        storeId: string,
+        updates: Array<{ id: string; sortOrder: number }>
+    ): Promise<void> {
+        await this.writeLocally(storeId, () =>
+            this.editRows<StoreSection & SyncedRow>(
+                "section",
+                storeId,
+                updates.map(({ id, sortOrder }) => ({ id, edit: () => ({ sortOrder }) }))
+            )
+        );
+    }
+
+    // ========== StoreItem Operations ==========
+    async insertItem(
+        storeId: string,
+        name: string,
+        aisleId?: string | null,
+        sectionId?: string | null
+    ): Promise<StoreItem> {
+        return this.writeLocally(storeId, async () => {
+            const item: StoreItemWithDetails = {
+                id: crypto.randomUUID(),
+                storeId,
+                name,
+                nameNorm: normalizeName(name),
+                aisleId: aisleId ?? null,
+                sectionId: sectionId ?? null,
+                usageCount: 0,
+                lastUsedAt: null,
+                isHidden: false,
+                isFavorite: false,
+                // Linked by name when the server receives it
+                canonicalItemId: null,
+                isCanonicalLinkConfirmed: false,
+                ...this.auditFields(),
+                sectionName: null,
+                sectionSortOrder: null,
+                aisleName: null,
+                aisleSortOrder: null,
+                createdByName: null,
+                updatedByName: null,
+            };
+            await this.createRow("store-item", storeId, item, {
+                name: item.name,
+                nameNorm: item.nameNorm,
+                aisleId: item.aisleId,
+                sectionId: item.sectionId,
+            });
+            return item;
+        });
+    }
+
+    async getItemsByStore(storeId: string): Promise<StoreItem[]> {
+        const { items } = await this.loadReplica(storeId);
+        return [...items.values()]
+            .filter((item) => !item.isHidden)
+            .sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    async getItemsByStoreWithDetails(storeId: string): Promise<StoreItemWithDetails[]> {
+        const { items } = await this.loadReplica(storeId);
+        return [...items.values()]
+            .filter((item) => !item.isHidden)
+            .sort(byLocation((a, b) => a.nameNorm.localeCompare(b.nameNorm)));
+    }
+
+    async getItemById(id: string): Promise<StoreItem | null> {
+        const record = await this.store.getRow<StoreItem>("store-item", id);
+        return record?.data ?? null;
+    }
+
+    async updateItem(
+        storeId: string,
+        id: string,
+        name: string,
+        aisleId?: string | null,
+        sectionId?: string | null
+    ): Promise<StoreItem> {
+        const [item] = await this.writeLocally(storeId, async () => {
+            const nameNorm = normalizeName(name);
+            const items = await this.store.getVisibleRows<StoreItem>("store-item", storeId);
+            const conflict = items.find((item) => item.id !== id && item.nameNorm === nameNorm);
+            if (conflict) {
+                throw new ApiError(
+                    `An item named "${conflict.name}" already exists in this store.`,
+                    "ITEM_NAME_CONFLICT",
+                    null,
+                    409
+                );
+            }
+
+            return this.editRows<StoreItem & SyncedRow>("store-item", storeId, [
+                {
+                    id,
+                    edit: () => ({
+                        name,
+                        nameNorm,
+                        aisleId: aisleId ?? null,
+                        sectionId: sectionId ?? null,
+                    }),
+                },
+            ]);
+        });
+        return item;
+    }
+
+    async toggleItemFavorite(storeId: string, id: string): Promise<StoreItem> {
+        const [item] = await this.writeLocally(storeId, () =>
+            this.editRows<StoreItem & SyncedRow>("store-item", storeId, [
+                { id, edit: (item) => ({ isFavorite: !item.isFavorite }) },
+            ])
+        );
+        return item;
+    }
+
+    async deleteItem(storeId: string, id: string): Promise<void> {
+        await this.deleteLocally("store-item", storeId, id);
+    }
+
+    async searchStoreItems(
+        storeId: string,
+        searchTerm: string,
+        limit: number = 20
+    ): Promise<StoreItem[]> {
+        const term = normalizeName(searchTerm);
+        const { items } = await this.loadReplica(storeId);
+
+        // Same ranking as the backend: prefix matches first, then most used
+        return [...items.values()]
+            .filter((item) => !item.isHidden && item.nameNorm.includes(term))
+            .sort(
+                (a, b) =>
+                    Number(!a.nameNorm.startsWith(term)) - Number(!b.nameNorm.startsWith(term)) ||
+                    b.usageCount - a.usageCount ||
+                    (b.lastUsedAt ?? "").localeCompare(a.lastUsedAt ?? "") ||
+                    a.nameNorm.localeCompare(b.nameNorm)
+            )
+            .slice(0, limit);
+    }
+
+    async getOrCreateStoreItemByName(
+        storeId: string,
+        name: string,
+        aisleId?: string | null,
+        sectionId?: string | null
+    ): Promise<StoreItem> {
+        const nameNorm = normalizeName(name);
+        const { items } = await this.loadReplica(storeId);
+        const existing = [...items.values()].find((item) => item.nameNorm === nameNorm);
+
+        if (existing) {
+            // Apply section-aisle normalization: prefer section over aisle
+            const normalizedSectionId = sectionId ?? null;
+            const normalizedAisleId = sectionId ? null : (aisleId ?? null);
+
+            const needsUpdate =
+                normalizedSectionId !== (existing.sectionId ?? null) ||
+                normalizedAisleId !== (existing.aisleId ?? null);
+
+            if (needsUpdate) {
+                return this.updateItem(
+                    storeId,
+                    existing.id,
+                    existing.name,
+                    normalizedAisleId,
+                    normalizedSectionId
+                );
+            }
+
+            return existing;
+        }
+
+        return this.insertItem(storeId, name, aisleId, sectionId);
+    }
+
+    // ========== Item Catalog Operations ==========
+    async getCatalog(): Promise<CanonicalItemSummary[]> {
+        return this.remote.getCatalog();
+    }
+
+    async getCatalogItem(canonicalItemId: string): Promise<CanonicalItemWithLinks> {
+        return this.remote.getCatalogItem(canonicalItemId);
+    }
+
+    async linkStoreItem(
+        storeId: string,
+        id: string,
+        canonicalItemId: string | null
+    ): Promise<StoreItem> {
+        const item = await this.remote.linkStoreItem(storeId, id, canonicalItemId);
+        // Links are made online; pull the changed item into the replica
+        this.syncInBackground(storeId);
+        return item;
+    }
+
+    async resetStoreItemLink(storeId: string, id: string): Promise<StoreItem> {
+        const item = await this.remote.resetStoreItemLink(storeId, id);
+        this.syncInBackground(storeId);
+        return item;
+    }
+
+    // ========== ShoppingList Operations ==========
+    async getShoppingListItems(storeId: string): Promise<ShoppingListItemWithDetails[]> {
+        const { shoppingListItems } = await this.loadReplica(storeId);
+        return shoppingListItems.sort(byLocation((a, b) => a.createdAt.localeCompare(b.createdAt)));
+    }
+
+    async upsertShoppingListItem(params: ShoppingListItemInput): Promise<ShoppingListItem> {
+        // Same defaults as the backend: ideas have no store item, quantity, or unit, and
+        // checking an item clears its snooze
+        const isChecked = params.isChecked ?? false;
+        const isIdea = params.isIdea ?? false;
+        const fields = {
+            storeItemId: isIdea ? null : (params.storeItemId ?? null),
+            qty: isIdea ? null : (params.qty ?? null),
+            unitId: isIdea ? null : (params.unitId ?? null),
+            notes: params.notes ?? null,
+            isChecked,
+            isIdea,
+            isSample: params.isSample ?? null,
+            isUnsure: params.isUnsure ?? null,
+            snoozedUntil: isChecked ? null : (params.snoozedUntil ?? null),
+        };
+        const userId = apiClient.getUserId();
+
+        if (params.id) {
+            const id = params.id;
+            const [item] = await this.writeLocally(params.storeId, () =>
+                this.editRows<ShoppingListItemWithDetails & SyncedRow>(
+                    "shopping-list-item",
+                    params.storeId,
+                    [
+                        {
+                            id,
+                            edit: (row) => {
+                                if (isChecked === row.isChecked) return fields;
+                                const timestamp = now();
+                                return {
+                                    ...fields,
+                                    checkedAt: isChecked ? timestamp : null,
+                                    checkedBy: isChecked ? userId : null,
+                                    checkedUpdatedAt: timestamp,
+                                };
+                            },
+                        },
+                    ]
+                )
+            );
+            return item;
+        }
+
+        return this.writeLocally(params.storeId, async () => {
+            const audit = this.auditFields();
+            const item: ShoppingListItemWithDetails = {
+                id: crypto.randomUUID(),
+                storeId: params.storeId,
+                ...fields,
+                checkedAt: isChecked ? audit.createdAt : null,
+                checkedBy: isChecked ? userId : null,
+                checkedUpdatedAt: isChecked ? audit.createdAt : null,
+                ...audit,
+                itemName: null,
+                unitAbbreviation: null,
+                sectionId: null,
+                aisleId: null,
+                sectionName: null,
+                sectionSortOrder: null,
+                aisleName: null,
+                aisleSortOrder: null,
+                checkedByName: null,
+                isFavorite: null,
+                createdByName: null,
+                updatedByName: null,
+                storeItemCreatedByName: null,
+                storeItemUpdatedByName: null,
+                storeItemCreatedAt: null,
+                storeItemUpdatedAt: null,
+            };
+
+            const statements: LocalStatement[] = [];
+
+            // Adding an item to the list counts as a use (the server does the same)
+            const storeItem = item.storeItemId
+                ? await this.store.getRow<StoreItem>("store-item", item.storeItemId)
+                : null;
+            if (storeItem?.data) {
+                statements.push(
+                    this.store.putRow("store-item", {
+                        ...storeItem,
+                        data: {
+                            ...storeItem.data,
+                            usageCount: storeItem.data.usageCount + 1,
+                            lastUsedAt: audit.createdAt,
+                        },
+                    })
+                );
+            }
+
+            await this.createRow("shopping-list-item", params.storeId, item, fields, statements);
+            return item;
+        });
+    }
+
+    async toggleShoppingListItemChecked(
+        storeId: string,
+        id: string,
+        isChecked: boolean
+    ): Promise<CheckConflictResult> {
+        const userId = apiClient.getUserId();
+
+        return this.writeLocally(storeId, async () => {
+            const record = await this.store.getRow<ShoppingListItemWithDetails>(
+                "shopping-list-item",
+                id
+            );
+            if (!record?.data) throw notFound("Shopping list item");
+            const row = record.data;
+
+            // Already checked off by someone else: leave it (as the server does)
+            if (isChecked && row.isChecked && row.checkedBy && row.checkedBy !== userId) {
+                return {
+                    conflict: true,
+                    itemId: row.id,
+                    itemName: row.itemName ?? undefined,
+                    conflictUser: {
+                        id: row.checkedBy,
+                        name: row.checkedByName ?? "Unknown user",
+                    },
+                };
+            }
+
+            const timestamp = now();
+            await this.editRows<ShoppingListItemWithDetails & SyncedRow>(
+                "shopping-list-item",
+                storeId,
+                [
+                    {
+                        id,
+                        edit: () => ({
+                            isChecked,
+                            checkedAt: isChecked ? timestamp : null,
+                            checkedBy: isChecked ? userId : null,
+                            checkedUpdatedAt: timestamp,
+                            ...(isChecked && { snoozedUntil: null }),
+                        }),
+                    },
+                ]
+            );
+            return { conflict: false };
+        });
+    }
+
+    /**
+     * Delete shopping list item AND the associated store item
+     */
+    async deleteShoppingListItem(storeId: string, id: string): Promise<void> {
+        await this.writeLocally(storeId, async () => {
+            const record = await this.store.getRow<ShoppingListItem>("shopping-list-item", id);
+            if (!record?.data) return;
+
+            const pending = await this.store.getPendingChanges(storeId);
+            const storeItemId = record.data.storeItemId;
+            const item = storeItemId ? await this.store.getRow("store-item", storeItemId) : null;
+
+            if (record.serverData && item?.serverData) {
+                // One journaled deletion takes both (delete-with-item)
+                await this.store.write([
+                    ...this.deleteRowStatements("shopping-list-item", record, pending, {
+                        storeId,
+                        entity: "shopping-list-item",
+                        entityId: id,
+                        op: "delete",
+                        payload: { storeItemId },
+                    }),
+                    ...this.deleteRowStatements("store-item", item, pending, null),
+                ]);
+                return;
+            }
+
+            await this.store.write([
+                ...this.deleteRowStatements("shopping-list-item", record, pending, null),
+                ...(item?.data
+                    ? this.deleteRowStatements("store-item", item, pending, {
+                          storeId,
+                          entity: "store-item",
+                          entityId: item.id,
+                          op: "delete",
+                          payload: {},
+                      })
+                    : []),
+            ]);
+        });
+    }
+
+    /**
+     * Remove shopping list item only (keeps the store item)
+     */
+    async removeShoppingListItem(storeId: string, id: string): Promise<void> {
+        await this.writeLocally(storeId, async () => {
+            const record = await this.store.getRow("shopping-list-item", id);
+            if (!record?.data) return;
+
+            const pending = await this.store.getPendingChanges(storeId);
+            await this.store.write(
+                this.deleteRowStatements("shopping-list-item", record, pending, {
+                    storeId,
+                    entity: "shopping-list-item",
+                    entityId: id,
+                    op: "remove",
+                    payload: {},
+                })
+            );
+        });
+    }
+
+    async clearCheckedShoppingListItems(storeId: string): Promise<number> {
+        return this.writeLocally(storeId, async () => {
+            const records = await this.store.getRows<ShoppingListItem>(
+                "shopping-list-item",
+                storeId
+            );
+            const checked = records.filter((record) => record.data?.isChecked);
+            const pending = await this.store.getPendingChanges(storeId);
+
+            // Journaled per row, so a row someone unchecks meanwhile stays on their list
+            await this.store.write(
+                checked.flatMap((record) =>
+                    this.deleteRowStatements("shopping-list-item", record, pending, {
+                        storeId,
+                        entity: "shopping-list-item",
+                        entityId: record.id,
+                        op: "remove",
+                        payload: {},
+                    })
+                )
+            );
+            return checked.length;
+        });
+    }
+
+    // ========== Purchase History Operations ==========
+    async getStorePurchaseHistory(
+        storeId: string,
+        options: { limit?: number; before?: string } = {}
+    ): Promise<PurchaseEventWithDetails[]> {
+        return this.remote.getStorePurchaseHistory(storeId, options);
+    }
+
+    async getStoreItemPurchaseHistory(
+        storeId: string,
+        storeItemId: string,
+        options: { limit?: number; before?: string } = {}
+    ): Promise<PurchaseEventWithDetails[]> {
+        return this.remote.getStoreItemPurchaseHistory(storeId, storeItemId, options);
+    }
+
+    async getSuggestedStoreOrder(storeId: string): Promise<SuggestedStoreOrder> {
+        return this.remote.getSuggestedStoreOrder(storeId);
+    }
+
+    // ========== Item Recurrence Operations ==========
+    async getItemRecurrence(
+        storeId: string,
+        storeItemId: string
+    ): Promise<StoreItemRecurrenceWithStatus | null> {
+        return this.remote.getItemRecurrence(storeId, storeItemId);
+    }
+
+    async setItemRecurrence(
+        storeId: string,
+        storeItemId: string,
+        input: SetStoreItemRecurrenceRequest
+    ): Promise<StoreItemRecurrenceWithStatus> {
+        return this.remote.setItemRecurrence(storeId, storeItemId, input);
+    }
+
+    async clearItemRecurrence(storeId: string, storeItemId: string): Promise<void> {
+        return this.remote.clearItemRecurrence(storeId, storeItemId);
+    }
+
+    // ========== Store Map Operations ==========
+    async getStoreMap(storeId: string): Promise<StoreMap | null> {
+        return this.remote.getStoreMap(storeId);
+    }
+
+    async saveStoreMap(storeId: string, input: SaveStoreMapRequest): Promise<StoreMap> {
+        return this.remote.saveStoreMap(storeId, input);
+    }
+
+    async deleteStoreMap(storeId: string): Promise<void> {
+        return this.remote.deleteStoreMap(storeId);
+    }
+}
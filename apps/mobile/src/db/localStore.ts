@@ -0,0 +1,401 @@
+import {
+    CapacitorSQLite,
+    SQLiteConnection,
+    type SQLiteDBConnection,
+} from "@capacitor-community/sqlite";
+import type { StoreEventEntity } from "@basket-bot/core";
+import { Capacitor } from "@capacitor/core";
+
+const DATABASE_NAME = "basketbot_local";
+const DATABASE_VERSION = 1;
+
+/**
+ * Replica schema. Rows are stored as JSON documents (the same shape the API returns) so the
+ * replica doesn't need a migration whenever the backend adds a column.
+ *
+ * - LocalRow.data is the row as the app sees it (server copy plus pending local edits);
+ *   NULL marks a row deleted locally whose deletion hasn't been pushed yet
+ * - LocalRow.serverData is the last copy received from the server; NULL for rows created
+ *   locally that haven't been pushed yet
+ * - PendingChange is the write journal, replayed against the API in seq order
+ * - SyncCursor holds each store's delta sync position (0 forces a full snapshot)
+ */
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS LocalRow (
+        entity TEXT NOT NULL,
+        id TEXT NOT NULL,
+        storeId TEXT NOT NULL,
+        data TEXT,
+        serverData TEXT,
+        PRIMARY KEY (entity, id)
+    );
+    CREATE INDEX IF NOT EXISTS idx_local_row_store ON LocalRow (storeId, entity);
+
+    CREATE TABLE IF NOT EXISTS PendingChange (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        storeId TEXT NOT NULL,
+        entity TEXT NOT NULL,
+        entityId TEXT NOT NULL,
+        op TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        createdAt TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_pending_change_store ON PendingChange (storeId, seq);
+
+    CREATE TABLE IF NOT EXISTS SyncCursor (
+        storeId TEXT PRIMARY KEY,
+        cursor INTEGER NOT NULL,
+        syncedAt TEXT NOT NULL
+    );
+`;
+
+/**
+ * Kinds of rows kept in the replica. Store-scoped entities are synced (and can be edited
+ * offline); stores and quantity units are a read-through cache of the last online response.
+ */
+export type LocalEntity = StoreEventEntity | "store" | "quantity-unit";
+
+export type LocalRowRecord<T> = {
+    id: string;
+    storeId: string;
+    data: T | null;
+    serverData: T | null;
+};
+
+/**
+ * One edited field of a pending update. base is the server value the edit was made
+ * against; it's absent when the row had never reached the server.
+ */
+export type PendingField = {
+    value: unknown;
+    base?: unknown;
+    editedAt: string;
+};
+
+type PendingChangeBase = {
+    seq: number;
+    storeId: string;
+    entity: StoreEventEntity;
+    entityId: string;
+    createdAt: string;
+};
+
+export type PendingChange = PendingChangeBase &
+    (
+        | { op: "create"; payload: Record<string, unknown> }
+        | { op: "update"; payload: Record<string, PendingField> }
+        | { op: "delete"; payload: { storeItemId?: string | null } }
+        | { op: "remove"; payload: Record<string, never> }
+    );
+
+export type NewPendingChange = PendingChange extends infer C
+    ? C extends unknown
+        ? Omit<C, "seq" | "createdAt">
+        : never
+    : never;
+
+/**
+ * A statement to run as part of a write batch
+ */
+export type LocalStatement = { statement: string; values: unknown[] };
+
+type RawRow = { id: string; storeId: string; data: string | null; serverData: string | null };
+type RawChange = Omit<PendingChangeBase, "entity"> & {
+    entity: string;
+    op: string;
+    payload: string;
+};
+
+function parseRow<T>(row: RawRow): LocalRowRecord<T> {
+    return {
+        id: row.id,
+        storeId: row.storeId,
+        data: row.data ? (JSON.parse(row.data) as T) : null,
+        serverData: row.serverData ? (JSON.parse(row.serverData) as T) : null,
+    };
+}
+
+/**
+ * On-device SQLite replica used by LocalDatabase.
+ * Native platforms use the Capacitor SQLite plugin directly; on the web it goes through the
+ * jeep-sqlite element (sql.js persisted to IndexedDB), which main.tsx registers.
+ */
+export class LocalStore {
+    private sqlite = new SQLiteConnection(CapacitorSQLite);
+    private connection: SQLiteDBConnection | null = null;
+    private isWeb = Capacitor.getPlatform() === "web";
+    private lock: Promise<unknown> = Promise.resolve();
+
+    async open(): Promise<void> {
+        if (this.isWeb) {
+            if (!document.querySelector("jeep-sqlite")) {
+                document.body.appendChild(document.createElement("jeep-sqlite"));
+            }
+            await customElements.whenDefined("jeep-sqlite");
+            await this.sqlite.initWebStore();
+        }
+
+        const consistency = await this.sqlite.checkConnectionsConsistency();
+        const isOpen = (await this.sqlite.isConnection(DATABASE_NAME, false)).result;
+        const connection =
+            consistency.result && isOpen
+                ? await this.sqlite.retrieveConnection(DATABASE_NAME, false)
+                : await this.sqlite.createConnection(
+                      DATABASE_NAME,
+                      false,
+                      "no-encryption",
+                      DATABASE_VERSION,
+                      false
+                  );
+
+        await connection.open();
+        await connection.execute(SCHEMA);
+        this.connection = connection;
+        await this.persist();
+    }
+
+    async close(): Promise<void> {
+        if (!this.connection) return;
+        await this.sqlite.closeConnection(DATABASE_NAME, false);
+        this.connection = null;
+    }
+
+    /**
+     * Run fn with no other exclusive section interleaving (read-modify-write of the replica)
+     */
+    exclusive<T>(fn: () => Promise<T>): Promise<T> {
+        const result = this.lock.then(fn, fn);
+        this.lock = result.catch(() => undefined);
+        return result;
+    }
+
+    private get db(): SQLiteDBConnection {
+        if (!this.connection) throw new Error("Local database is not open");
+        return this.connection;
+    }
+
+    private async query<T>(statement: string, values: unknown[] = []): Promise<T[]> {
+        const result = await this.db.query(statement, values);
+        return (result.values ?? []) as T[];
+    }
+
+    /**
+     * Run statements in one transaction
+     */
+    async write(statements: LocalStatement[]): Promise<void> {
+        if (statements.length === 0) return;
+        await this.db.executeSet(
+            statements.map(({ statement, values }) => ({ statement, values }))
+        );
+        await this.persist();
+    }
+
+    /**
+     * The web store lives in memory until it's saved to IndexedDB
+     */
+    private async persist(): Promise<void> {
+        if (this.isWeb) {
+            await this.sqlite.saveToStore(DATABASE_NAME);
+        }
+    }
+
+    // ========== Rows ==========
+    async getRows<T>(entity: LocalEntity, storeId: string): Promise<LocalRowRecord<T>[]> {
+        const rows = await this.query<RawRow>(
+            `SELECT id, storeId, data, serverData FROM LocalRow WHERE storeId = ? AND entity = ?`,
+            [storeId, entity]
+        );
+        return rows.map((row) => parseRow<T>(row));
+    }
+
+    async getRow<T>(entity: LocalEntity, id: string): Promise<LocalRowRecord<T> | null> {
+        const [row] = await this.query<RawRow>(
+            `SELECT id, storeId, data, serverData FROM LocalRow WHERE entity = ? AND id = ?`,
+            [entity, id]
+        );
+        return row ? parseRow<T>(row) : null;
+    }
+
+    /**
+     * Rows as the app sees them (locally deleted rows left out)
+     */
+    async getVisibleRows<T>(entity: LocalEntity, storeId: string): Promise<T[]> {
+        const rows = await this.query<{ data: string }>(
+            `SELECT data FROM LocalRow WHERE storeId = ? AND entity = ? AND data IS NOT NULL`,
+            [storeId, entity]
+        );
+        return rows.map((row) => JSON.parse(row.data) as T);
+    }
+
+    /**
+     * Every cached row of an entity across stores (stores, quantity units)
+     */
+    async getCachedRows<T>(entity: LocalEntity): Promise<T[]> {
+        const rows = await this.query<{ data: string }>(
+            `SELECT data FROM LocalRow WHERE entity = ? AND data IS NOT NULL`,
+            [entity]
+        );
+        return rows.map((row) => JSON.parse(row.data) as T);
+    }
+
+    putRow<T>(entity: LocalEntity, row: LocalRowRecord<T>): LocalStatement {
+        return {
+            statement: `INSERT OR REPLACE INTO LocalRow (entity, id, storeId, data, serverData)
+                        VALUES (?, ?, ?, ?, ?)`,
+            values: [
+                entity,
+                row.id,
+                row.storeId,
+                row.data ? JSON.stringify(row.data) : null,
+                row.serverData ? JSON.stringify(row.serverData) : null,
+            ],
+        };
+    }
+
+    /**
+     * Record the server's copy of a row without touching what the app sees
+     */
+    setServerData<T>(entity: LocalEntity, id: string, serverData: T): LocalStatement {
+        return {
+            statement: `UPDATE LocalRow SET serverData = ? WHERE entity = ? AND id = ?`,
+            values: [JSON.stringify(serverData), entity, id],
+        };
+    }
+
+    deleteRow(entity: LocalEntity, id: string): LocalStatement {
+        return {
+            statement: `DELETE FROM LocalRow WHERE entity = ? AND id = ?`,
+            values: [entity, id],
+        };
+    }
+
+    /**
+     * Replace every cached row of an entity (read-through caches of stores and units)
+     */
+    replaceRows<T extends { id: string }>(
+        entity: LocalEntity,
+        rows: T[],
+        storeIdOf: (row: T) => string
+    ): LocalStatement[] {
+        return [
+            { statement: `DELETE FROM LocalRow WHERE entity = ?`, values: [entity] },
+            ...rows.map((row) =>
+                this.putRow(entity, {
+                    id: row.id,
+                    storeId: storeIdOf(row),
+                    data: row,
+                    serverData: row,
+                })
+            ),
+        ];
+    }
+
+    /**
+     * Forget everything held for a store (deleted, or access lost)
+     */
+    deleteStoreData(storeId: string): LocalStatement[] {
+        return [
+            { statement: `DELETE FROM LocalRow WHERE storeId = ?`, values: [storeId] },
+            { statement: `DELETE FROM PendingChange WHERE storeId = ?`, values: [storeId] },
+            { statement: `DELETE FROM SyncCursor WHERE storeId = ?`, values: [storeId] },
+        ];
+    }
+
+    /**
+     * Point everything that references a locally generated id at the id the server assigned.
+     * Ids are UUIDs, so a plain text replace inside the JSON can't hit anything else.
+     */
+    remapId(
+        storeId: string,
+        entity: StoreEventEntity,
+        localId: string,
+        serverId: string
+    ): LocalStatement[] {
+        return [
+            {
+                statement: `UPDATE LocalRow SET id = ? WHERE entity = ? AND id = ?`,
+                values: [serverId, entity, localId],
+            },
+            {
+                statement: `UPDATE LocalRow
+                            SET data = REPLACE(data, ?, ?), serverData = REPLACE(serverData, ?, ?)
+                            WHERE storeId = ?`,
+                values: [localId, serverId, localId, serverId, storeId],
+            },
+            {
+                statement: `UPDATE PendingChange
+                            SET entityId = REPLACE(entityId, ?, ?), payload = REPLACE(payload, ?, ?)
+                            WHERE storeId = ?`,
+                values: [localId, serverId, localId, serverId, storeId],
+            },
+        ];
+    }
+
+    // ========== Write Journal ==========
+    async getPendingChanges(storeId: string): Promise<PendingChange[]> {
+        const rows = await this.query<RawChange>(
+            `SELECT seq, storeId, entity, entityId, op, payload, createdAt
+             FROM PendingChange
+             WHERE storeId = ?
+             ORDER BY seq ASC`,
+            [storeId]
+        );
+        return rows.map((row) => ({ ...row, payload: JSON.parse(row.payload) }) as PendingChange);
+    }
+
+    async getStoresWithPendingChanges(): Promise<string[]> {
+        const rows = await this.query<{ storeId: string }>(
+            `SELECT DISTINCT storeId FROM PendingChange`
+        );
+        return rows.map((row) => row.storeId);
+    }
+
+    addPendingChange(change: NewPendingChange, createdAt: string): LocalStatement {
+        return {
+            statement: `INSERT INTO PendingChange (storeId, entity, entityId, op, payload, createdAt)
+                        VALUES (?, ?, ?, ?, ?, ?)`,
+            values: [
+                change.storeId,
+                change.entity,
+                change.entityId,
+                change.op,
+                JSON.stringify(change.payload),
+                createdAt,
+            ],
+        };
+    }
+
+    removePendingChanges(seqs: number[]): LocalStatement[] {
+        return seqs.map((seq) => ({
+            statement: `DELETE FROM PendingChange WHERE seq = ?`,
+            values: [seq],
+        }));
+    }
+
+    // ========== Sync Cursors ==========
+    async getCursor(storeId: string): Promise<number | null> {
+        const [row] = await this.query<{ cursor: number }>(
+            `SELECT cursor FROM SyncCursor WHERE storeId = ?`,
+            [storeId]
+        );
+        return row ? row.cursor : null;
+    }
+
+    setCursor(storeId: string, cursor: number): LocalStatement {
+        return {
+            statement: `INSERT OR REPLACE INTO SyncCursor (storeId, cursor, syncedAt) VALUES (?, ?, ?)`,
+            values: [storeId, cursor, new Date().toISOString()],
+        };
+    }
+
+    /**
+     * Drop every row, journal entry, and cursor (e.g. on logout)
+     */
+    async clear(): Promise<void> {
+        await this.write([
+            { statement: `DELETE FROM LocalRow`, values: [] },
+            { statement: `DELETE FROM PendingChange`, values: [] },
+            { statement: `DELETE FROM SyncCursor`, values: [] },
+        ]);
+    }
+}
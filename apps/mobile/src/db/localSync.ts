@@ -0,0 +1,564 @@
+import type {
+    ShoppingListItem,
+    StoreAisle,
+    StoreChangesResponse,
+    StoreEventEntity,
+    StoreItem,
+    StoreSection,
+} from "@basket-bot/core";
+import { apiClient, ApiError, type MutationOptions } from "../lib/api/client";
+import type {
+    LocalRowRecord,
+    LocalStatement,
+    LocalStore,
+    PendingChange,
+    PendingField,
+} from "./localStore";
+
+/**
+ * Any synced row; conflict resolution only relies on the audit fields
+ */
+export type SyncedRow = {
+    id: string;
+    updatedAt: string;
+    updatedById: string;
+    [field: string]: unknown;
+};
+
+// Store-scoped entities in dependency order (a section needs its aisle, a list row its item)
+const SYNCED_ENTITIES: Array<{
+    entity: StoreEventEntity;
+    key: "aisles" | "sections" | "items" | "shoppingListItems";
+}> = [
+    { entity: "aisle", key: "aisles" },
+    { entity: "section", key: "sections" },
+    { entity: "store-item", key: "items" },
+    { entity: "shopping-list-item", key: "shoppingListItems" },
+];
+
+// Statuses worth retrying later; anything else means the server rejected the change
+const RETRYABLE_STATUSES = new Set([401, 408, 429, 502, 503, 504]);
+
+/**
+ * Field values are JSON, so JSON equality is value equality
+ */
+export function sameValue(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Last writer wins, per field: a local edit beats the server copy unless the server's value
+ * changed since the edit was made and that server write is the newer one.
+ * Timestamps come from different clocks (device vs server), so skew shifts the tie-break.
+ */
+export function localFieldWins(
+    name: string,
+    field: PendingField,
+    server: SyncedRow | null
+): boolean {
+    // Row created locally: nobody else has seen it
+    if (!("base" in field)) return true;
+    // Row deleted on the server
+    if (!server) return false;
+    if (sameValue(server[name], field.base)) return true;
+    return field.editedAt > server.updatedAt;
+}
+
+/**
+ * Options for one request made to push a journal entry. The idempotency key is the same on
+ * every retry of the entry, so a request whose response was lost isn't applied twice.
+ */
+function requestOptions(change: PendingChange, request: string): MutationOptions {
+    return { idempotencyKey: `${change.entityId}:${change.seq}:${request}` };
+}
+
+/**
+ * What's still pending locally for one row
+ */
+type PendingRowState = {
+    fields: Record<string, PendingField>;
+    isDeleted: boolean;
+    isCreated: boolean;
+};
+
+function rowKey(entity: StoreEventEntity, id: string): string {
+    return `${entity}:${id}`;
+}
+
+function indexPendingChanges(changes: PendingChange[]): Map<string, PendingRowState> {
+    const index = new Map<string, PendingRowState>();
+    const stateOf = (entity: StoreEventEntity, id: string) => {
+        const key = rowKey(entity, id);
+        let state = index.get(key);
+        if (!state) {
+            state = { fields: {}, isDeleted: false, isCreated: false };
+            index.set(key, state);
+        }
+        return state;
+    };
+
+    for (const change of changes) {
+        const state = stateOf(change.entity, change.entityId);
+        if (change.op === "create") {
+            state.isCreated = true;
+        } else if (change.op === "update") {
+            Object.assign(state.fields, change.payload);
+        } else {
+            state.isDeleted = true;
+            // Deleting a list row "with item" takes its store item along
+            if (change.op === "delete" && change.payload.storeItemId) {
+                stateOf("store-item", change.payload.storeItemId).isDeleted = true;
+            }
+        }
+    }
+    return index;
+}
+
+/**
+ * The row the app should see: the server copy with the pending edits that win applied
+ */
+function applyPendingFields(server: SyncedRow, fields: Record<string, PendingField>): SyncedRow {
+    const row = { ...server };
+    for (const [name, field] of Object.entries(fields)) {
+        if (localFieldWins(name, field, server)) row[name] = field.value;
+    }
+    return row;
+}
+
+/**
+ * Two-way sync of LocalDatabase's replica with the backend, one store at a time:
+ * pull the store's delta (GET /changes?since=cursor), replay the write journal against the
+ * regular endpoints, then pull again to pick up what the server made of it.
+ */
+export class LocalSync {
+    private syncs = new Map<
+        string,
+        { running: Promise<boolean> | null; next: Promise<boolean> | null }
+    >();
+
+    constructor(private store: LocalStore) {}
+
+    /**
+     * Sync a store; resolves to whether anything the app shows changed.
+     * Each call is answered by a sync that started after it was made; calls made while a
+     * sync is in flight share one follow-up sync.
+     */
+    sync(storeId: string): Promise<boolean> {
+        let state = this.syncs.get(storeId);
+        if (!state) {
+            state = { running: null, next: null };
+            this.syncs.set(storeId, state);
+        }
+
+        const { running } = state;
+        if (!running) {
+            return this.startSync(storeId, state);
+        }
+
+        const syncState = state;
+        syncState.next ??= running
+            .catch(() => undefined)
+            .then(() => {
+                syncState.next = null;
+                return this.startSync(storeId, syncState);
+            });
+        return syncState.next;
+    }
+
+    private startSync(
+        storeId: string,
+        state: { running: Promise<boolean> | null }
+    ): Promise<boolean> {
+        const running = this.runSync(storeId).finally(() => {
+            if (state.running === running) state.running = null;
+        });
+        state.running = running;
+        return running;
+    }
+
+    private async runSync(storeId: string): Promise<boolean> {
+        let changed = await this.pull(storeId);
+        if (await this.push(storeId)) {
+            await this.pull(storeId);
+            changed = true;
+        }
+        return changed;
+    }
+
+    // ========== Pull ==========
+    /**
+     * Merge the server's changes since the store's cursor into the replica
+     */
+    private async pull(storeId: string): Promise<boolean> {
+        const cursor = (await this.store.getCursor(storeId)) ?? 0;
+
+        let changes: StoreChangesResponse;
+        try {
+            changes = await apiClient.get<StoreChangesResponse>(
+                `/api/stores/${storeId}/changes?since=${cursor}`
+            );
+        } catch (error) {
+            // Lost access or store deleted: forget the local copy (and its unsynced edits)
+            if (error instanceof ApiError && (error.status === 403 || error.status === 404)) {
+                await this.store.exclusive(() =>
+                    this.store.write(this.store.deleteStoreData(storeId))
+                );
+            }
+            throw error;
+        }
+
+        return this.store.exclusive(async () => {
+            const pending = indexPendingChanges(await this.store.getPendingChanges(storeId));
+            const statements: LocalStatement[] = [];
+            let changed = false;
+
+            for (const { entity, key } of SYNCED_ENTITIES) {
+                const { changed: rows, deleted } = changes[key] as {
+                    changed: SyncedRow[];
+                    deleted: string[];
+                };
+                const local = new Map(
+                    (await this.store.getRows<SyncedRow>(entity, storeId)).map((row) => [
+                        row.id,
+                        row,
+                    ])
+                );
+
+                // A full snapshot lists every row: anything else is gone, unless it was
+                // created locally and is still waiting to be pushed
+                const gone = changes.isFullSync
+                    ? [...local.keys()].filter(
+                          (id) =>
+                              !rows.some((row) => row.id === id) &&
+                              !pending.get(rowKey(entity, id))?.isCreated
+                      )
+                    : deleted.filter((id) => local.get(id)?.serverData);
+
+                for (const id of gone) {
+                    statements.push(this.store.deleteRow(entity, id));
+                }
+
+                for (const server of rows) {
+                    const state = pending.get(rowKey(entity, server.id));
+                    const data = state?.isDeleted
+                        ? null
+                        : applyPendingFields(server, state?.fields ?? {});
+                    statements.push(
+                        this.store.putRow(entity, {
+                            id: server.id,
+                            storeId,
+                            data,
+                            serverData: server,
+                        })
+                    );
+                }
+
+                changed ||= gone.length > 0 || rows.length > 0;
+            }
+
+            statements.push(this.store.setCursor(storeId, changes.cursor));
+            await this.store.write(statements);
+            return changed;
+        });
+    }
+
+    // ========== Push ==========
+    /**
+     * Replay the store's write journal in order; resolves to whether anything was pushed.
+     * Stops (keeping the rest for later) when the server can't be reached.
+     */
+    private async push(storeId: string): Promise<boolean> {
+        let pushed = false;
+
+        for (;;) {
+            const [change] = await this.store.getPendingChanges(storeId);
+            if (!change) return pushed;
+
+            const record = await this.store.getRow<SyncedRow>(change.entity, change.entityId);
+            try {
+                const statements = await this.pushChange(change, record);
+                await this.store.exclusive(() =>
+                    this.store.write([
+                        ...statements,
+                        ...this.store.removePendingChanges([change.seq]),
+                    ])
+                );
+            } catch (error) {
+                if (
+                    !(error instanceof ApiError) ||
+                    error.isNetworkError ||
+                    RETRYABLE_STATUSES.has(error.status ?? 0)
+                ) {
+                    throw error;
+                }
+                if (error.status === 403) {
+                    await this.store.exclusive(() =>
+                        this.store.write(this.store.deleteStoreData(storeId))
+                    );
+                    throw error;
+                }
+
+                // Rejected: drop it and rebuild the store from a full snapshot
+                console.warn(
+                    `[LocalSync] Dropped rejected ${change.op} of ${change.entity}:`,
+                    error
+                );
+                await this.store.exclusive(() =>
+                    this.store.write([
+                        ...this.store.removePendingChanges([change.seq]),
+                        this.store.setCursor(storeId, 0),
+                    ])
+                );
+            }
+            pushed = true;
+        }
+    }
+
+    /**
+     * Send one journal entry; returns the replica updates to make once it's accepted
+     */
+    private async pushChange(
+        change: PendingChange,
+        record: LocalRowRecord<SyncedRow> | null
+    ): Promise<LocalStatement[]> {
+        const base = `/api/stores/${change.storeId}`;
+        const server = record?.serverData ?? null;
+
+        switch (change.op) {
+            case "create": {
+                const created = await this.pushCreate(change, base);
+                const existing = await this.store.getRow(change.entity, created.id);
+                return [
+                    // Merged into a row the replica already has: keep that one
+                    ...(existing ? [this.store.deleteRow(change.entity, change.entityId)] : []),
+                    ...this.store.remapId(
+                        change.storeId,
+                        change.entity,
+                        change.entityId,
+                        created.id
+                    ),
+                    this.store.setServerData(change.entity, created.id, created),
+                ];
+            }
+
+            case "update": {
+                // Deleted on the server (or its create was rejected): nothing left to update
+                if (!server) return [];
+
+                const winners = Object.entries(change.payload).filter(([name, field]) =>
+                    localFieldWins(name, field, server)
+                );
+                if (winners.length === 0) return [];
+
+                const target: SyncedRow = { ...server };
+                winners.forEach(([name, field]) => (target[name] = field.value));
+                await this.pushUpdate(
+                    change,
+                    base,
+                    new Set(winners.map(([name]) => name)),
+                    server,
+                    target
+                );
+                return [];
+            }
+
+            case "delete":
+            case "remove": {
+                if (!record || !server)
+                    return [this.store.deleteRow(change.entity, change.entityId)];
+
+                const storeItemId = change.op === "delete" ? change.payload.storeItemId : null;
+
+                // Someone else changed the row after it was deleted here: their edit wins
+                if (
+                    server.updatedAt > change.createdAt &&
+                    server.updatedById !== apiClient.getUserId()
+                ) {
+                    const restore = [this.store.putRow(change.entity, { ...record, data: server })];
+                    if (storeItemId) {
+                        const item = await this.store.getRow<SyncedRow>("store-item", storeItemId);
+                        if (item?.serverData) {
+                            restore.push(
+                                this.store.putRow("store-item", { ...item, data: item.serverData })
+                            );
+                        }
+                    }
+                    return restore;
+                }
+
+                const path = `${base}${this.entityPath(change.entity)}/${change.entityId}`;
+                await apiClient.delete(
+                    change.entity === "shopping-list-item" && change.op === "delete"
+                        ? `${path}/delete-with-item`
+                        : path,
+                    requestOptions(change, "delete")
+                );
+                return [
+                    this.store.deleteRow(change.entity, change.entityId),
+                    ...(storeItemId ? [this.store.deleteRow("store-item", storeItemId)] : []),
+                ];
+            }
+        }
+    }
+
+    private entityPath(entity: StoreEventEntity): string {
+        switch (entity) {
+            case "aisle":
+                return "/aisles";
+            case "section":
+                return "/sections";
+            case "store-item":
+                return "/items";
+            case "shopping-list-item":
+                return "/shopping-list";
+        }
+    }
+
+    private async pushCreate(
+        change: Extract<PendingChange, { op: "create" }>,
+        base: string
+    ): Promise<SyncedRow> {
+        const payload = change.payload;
+        const options = requestOptions(change, "create");
+
+        switch (change.entity) {
+            case "aisle": {
+                const response = await apiClient.post<{ aisle: StoreAisle }>(
+                    `${base}/aisles`,
+                    { name: payload.name },
+                    options
+                );
+                return response.aisle;
+            }
+            case "section": {
+                const response = await apiClient.post<{ section: StoreSection }>(
+                    `${base}/sections`,
+                    { name: payload.name, aisleId: payload.aisleId },
+                    options
+                );
+                return response.section;
+            }
+            case "store-item": {
+                // Someone else may have added the same item meanwhile: use theirs
+                const items = await this.store.getRows<StoreItem>("store-item", change.storeId);
+                const existing = items.find(
+                    (item) =>
+                        item.serverData &&
+                        item.id !== change.entityId &&
+                        item.serverData.nameNorm === payload.nameNorm
+                );
+                if (existing?.serverData) return existing.serverData;
+
+                const response = await apiClient.post<{ item: StoreItem }>(
+                    `${base}/items`,
+                    { name: payload.name, aisleId: payload.aisleId, sectionId: payload.sectionId },
+                    options
+                );
+                return response.item;
+            }
+            case "shopping-list-item": {
+                const response = await apiClient.post<{ item: ShoppingListItem }>(
+                    `${base}/shopping-list`,
+                    { ...payload, storeId: change.storeId },
+                    options
+                );
+                return response.item;
+            }
+        }
+    }
+
+    /**
+     * Bring the server row to target, sending only the requests the winning fields need
+     */
+    private async pushUpdate(
+        change: PendingChange,
+        base: string,
+        fields: Set<string>,
+        server: SyncedRow,
+        target: SyncedRow
+    ): Promise<void> {
+        const path = `${base}${this.entityPath(change.entity)}/${target.id}`;
+        const has = (...names: string[]) => names.some((name) => fields.has(name));
+        const options = (request: string) => requestOptions(change, request);
+
+        switch (change.entity) {
+            case "aisle":
+                if (has("name")) {
+                    await apiClient.put(path, { name: target.name }, options("put"));
+                }
+                if (has("sortOrder")) {
+                    await apiClient.patch(path, { sortOrder: target.sortOrder }, options("patch"));
+                }
+                break;
+
+            case "section":
+                if (has("name", "aisleId")) {
+                    await apiClient.put(
+                        path,
+                        { name: target.name, aisleId: target.aisleId },
+                        options("put")
+                    );
+                }
+                if (has("sortOrder")) {
+                    await apiClient.patch(
+                        path,
+                        { aisleId: target.aisleId, sortOrder: target.sortOrder },
+                        options("patch")
+                    );
+                }
+                break;
+
+            case "store-item":
+                if (has("name", "aisleId", "sectionId")) {
+                    await apiClient.put(
+                        path,
+                        { name: target.name, aisleId: target.aisleId, sectionId: target.sectionId },
+                        options("put")
+                    );
+                }
+                if (has("isFavorite") && target.isFavorite !== server.isFavorite) {
+                    await apiClient.post(`${path}/favorite`, {}, options("favorite"));
+                }
+                break;
+
+            case "shopping-list-item": {
+                const checkFields = [
+                    "isChecked",
+                    "checkedAt",
+                    "checkedBy",
+                    "checkedUpdatedAt",
+                    "snoozedUntil",
+                ];
+                if (has("isChecked") && [...fields].every((name) => checkFields.includes(name))) {
+                    // Only checked off (or unchecked): the toggle keeps conflict detection
+                    if (target.isChecked !== server.isChecked) {
+                        await apiClient.post(
+                            `${path}/toggle`,
+                            { isChecked: target.isChecked },
+                            options("toggle")
+                        );
+                    }
+                    break;
+                }
+                await apiClient.post(
+                    `${base}/shopping-list`,
+                    {
+                        id: target.id,
+                        storeId: target.storeId,
+                        storeItemId: target.storeItemId,
+                        qty: target.qty,
+                        unitId: target.unitId,
+                        notes: target.notes,
+                        isChecked: target.isChecked,
+                        isIdea: target.isIdea,
+                        isSample: target.isSample,
+                        isUnsure: target.isUnsure,
+                        snoozedUntil: target.snoozedUntil,
+                    },
+                    options("upsert")
+                );
+                break;
+            }
+        }
+    }
+}
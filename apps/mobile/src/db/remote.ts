@@ -1,48 +1,122 @@
 import type {
     AppSetting,
+    CanonicalItemSummary,
+    CanonicalItemWithLinks,
     CheckConflictResult,
+    ImportStoreLayoutRequest,
+    PurchaseEventWithDetails,
     QuantityUnit,
+    SaveStoreMapRequest,
+    SetStoreItemRecurrenceRequest,
     ShoppingListItem,
     ShoppingListItemInput,
     ShoppingListItemWithDetails,
     Store,
     StoreAisle,
+    StoreChangesResponse,
+    StoreEventEntity,
     StoreItem,
+    StoreItemRecurrenceWithStatus,
     StoreItemWithDetails,
+    StoreLayout,
+    StoreMap,
     StoreSection,
+    SuggestedStoreOrder,
 } from "@basket-bot/core";
-import { apiClient, ApiError } from "../lib/api/client";
-import { mutationQueue } from "../lib/mutationQueue";
+import { apiClient, ApiError, type MutationOptions } from "../lib/api/client";
+import { createMutationId, mutationQueue, type MutationBase } from "../lib/mutationQueue";
 import { BaseDatabase } from "./base";
 
+/**
+ * Query string for purchase history paging
+ */
+function toHistoryParams(options: { limit?: number; before?: string }): string {
+    const params = new URLSearchParams();
+    if (options.limit) params.set("limit", String(options.limit));
+    if (options.before) params.set("before", options.before);
+    return params.toString();
+}
+
+/**
+ * Locally cached copy of a store's list, items, aisles, and sections, kept current by
+ * merging the backend's delta changes (see syncStore)
+ */
+type StoreSnapshot = {
+    cursor: number;
+    shoppingListItems: Map<string, ShoppingListItemWithDetails>;
+    items: Map<string, StoreItemWithDetails>;
+    aisles: Map<string, StoreAisle>;
+    sections: Map<string, StoreSection>;
+};
+
+/**
+ * The entity an update mutation edits
+ */
+type MutationTarget = {
+    storeId: string;
+    entity: StoreEventEntity;
+    id: string;
+};
+
+/**
+ * Apply one entity's changes to its cached rows
+ */
+function mergeChanges<T extends { id: string }>(
+    rows: Map<string, T>,
+    changes: { changed: T[]; deleted: string[] }
+): void {
+    changes.deleted.forEach((id) => rows.delete(id));
+    changes.changed.forEach((row) => rows.set(row.id, row));
+}
+
+/**
+ * Aisles and sections in display order (as the backend sorts them)
+ */
+export function bySortOrder<T extends { sortOrder: number; name: string }>(rows: Iterable<T>): T[] {
+    return [...rows].sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name));
+}
+
 /**
  * Remote database implementation that connects to backend API.
  * Maps all Database interface methods to API calls.
  * Automatically queues failed mutations for retry on network errors.
  */
 export class RemoteDatabase extends BaseDatabase {
+    private snapshots = new Map<string, StoreSnapshot>();
+    private syncs = new Map<
+        string,
+        { running: Promise<StoreSnapshot> | null; next: Promise<StoreSnapshot> | null }
+    >();
+
     /**
-     * Helper to execute a mutation with automatic queueing on network failure
+     * Helper to execute a mutation with automatic queueing on network failure.
+     * The queued mutation's id is the idempotency key of this first attempt too, so a replay
+     * of a request that did reach the server isn't applied twice. Updates pass their target,
+     * so the queued copy records the version it was made against (see getMutationBase).
      */
     private async executeMutation<T>(
         operation: string,
         endpoint: string,
         method: string,
-        apiCall: () => Promise<T>,
-        data?: unknown
+        apiCall: (options: MutationOptions) => Promise<T>,
+        data?: unknown,
+        target?: MutationTarget
     ): Promise<T> {
+        const id = createMutationId();
         try {
-            const result = await apiCall();
+            const result = await apiCall({ idempotencyKey: id });
             this.notifyChange();
             return result;
         } catch (error) {
             // Queue the mutation if it's a network error
             if (error instanceof ApiError && error.isNetworkError) {
                 await mutationQueue.enqueue({
+                    id,
                     operation,
                     endpoint,
                     method,
                     data,
+                    base: target && this.getMutationBase(target),
                 });
                 console.log(`[RemoteDatabase] Queued ${operation} for later retry`);
             }
@@ -50,6 +124,107 @@ export class RemoteDatabase extends BaseDatabase {
             throw error;
         }
     }
+
+    /**
+     * The version of an entity the user was looking at when editing it (from the store's
+     * snapshot). A queued update replays against it, so it can't overwrite a newer edit.
+     */
+    private getMutationBase(target: MutationTarget): MutationBase | undefined {
+        const snapshot = this.snapshots.get(target.storeId);
+        if (!snapshot) {
+            return undefined;
+        }
+
+        const rows: Record<StoreEventEntity, Map<string, { updatedAt: string }>> = {
+            "shopping-list-item": snapshot.shoppingListItems,
+            "store-item": snapshot.items,
+            aisle: snapshot.aisles,
+            section: snapshot.sections,
+        };
+        const expectedUpdatedAt = rows[target.entity].get(target.id)?.updatedAt;
+        return expectedUpdatedAt
+            ? { entity: target.entity, entityId: target.id, expectedUpdatedAt }
+            : undefined;
+    }
+
+    /**
+     * Bring a store's snapshot up to date and return it.
+     * Each call is answered by a sync that started after it was made (so it sees any change
+     * the caller just made); calls made while a sync is in flight share one follow-up sync.
+     */
+    private syncStore(storeId: string): Promise<StoreSnapshot> {
+        let state = this.syncs.get(storeId);
+        if (!state) {
+            state = { running: null, next: null };
+            this.syncs.set(storeId, state);
+        }
+
+        const { running } = state;
+        if (!running) {
+            return this.startSync(storeId, state);
+        }
+
+        const syncState = state;
+        syncState.next ??= running
+            .catch(() => undefined)
+            .then(() => {
+                syncState.next = null;
+                return this.startSync(storeId, syncState);
+            });
+        return syncState.next;
+    }
+
+    private startSync(
+        storeId: string,
+        state: { running: Promise<StoreSnapshot> | null }
+    ): Promise<StoreSnapshot> {
+        const running = this.fetchStoreChanges(storeId).finally(() => {
+            if (state.running === running) state.running = null;
+        });
+        state.running = running;
+        return running;
+    }
+
+    /**
+     * Fetch changes since the snapshot's cursor (everything on the first sync) and merge them
+     */
+    private async fetchStoreChanges(storeId: string): Promise<StoreSnapshot> {
+        const snapshot = this.snapshots.get(storeId);
+
+        let changes: StoreChangesResponse;
+        try {
+            changes = await apiClient.get<StoreChangesResponse>(
+                `/api/stores/${storeId}/changes?since=${snapshot?.cursor ?? 0}`
+            );
+        } catch (error) {
+            // Lost access or store deleted: forget the cached copy
+            if (error instanceof ApiError && (error.status === 403 || error.status === 404)) {
+                this.snapshots.delete(storeId);
+            }
+            throw error;
+        }
+
+        const next: StoreSnapshot =
+            snapshot && !changes.isFullSync
+                ? snapshot
+                : {
+                      cursor: 0,
+                      shoppingListItems: new Map(),
+                      items: new Map(),
+                      aisles: new Map(),
+                      sections: new Map(),
+                  };
+
+        mergeChanges(next.shoppingListItems, changes.shoppingListItems);
+        mergeChanges(next.items, changes.items);
+        mergeChanges(next.aisles, changes.aisles);
+        mergeChanges(next.sections, changes.sections);
+        next.cursor = changes.cursor;
+
+        this.snapshots.set(storeId, next);
+        return next;
+    }
+
     protected async initializeStorage(): Promise<void> {
         // No local storage initialization needed - API is always ready
         // Just notify that we're ready
@@ -60,6 +235,11 @@ export class RemoteDatabase extends BaseDatabase {
         // Nothing to close for remote database
     }
 
+    async clearLocalData(): Promise<void> {
+        this.snapshots.clear();
+        this.syncs.clear();
+    }
+
     protected async hasStores(): Promise<boolean> {
         // Not used for remote - backend manages seed data
         return true;
@@ -71,8 +251,12 @@ export class RemoteDatabase extends BaseDatabase {
             "insertStore",
             "/api/stores",
             "POST",
-            async () => {
-                const response = await apiClient.post<{ store: Store }>("/api/stores", { name });
+            async (options) => {
+                const response = await apiClient.post<{ store: Store }>(
+                    "/api/stores",
+                    { name },
+                    options
+                );
                 return response.store;
             },
             { name }
@@ -103,10 +287,12 @@ export class RemoteDatabase extends BaseDatabase {
             "updateStore",
             `/api/stores/${id}`,
             "PUT",
-            async () => {
-                const response = await apiClient.put<{ store: Store }>(`/api/stores/${id}`, {
-                    name,
-                });
+            async (options) => {
+                const response = await apiClient.put<{ store: Store }>(
+                    `/api/stores/${id}`,
+                    { name },
+                    options
+                );
                 return response.store;
             },
             { name }
@@ -114,9 +300,14 @@ export class RemoteDatabase extends BaseDatabase {
     }
 
     async deleteStore(id: string): Promise<void> {
-        return this.executeMutation("deleteStore", `/api/stores/${id}`, "DELETE", async () => {
-            await apiClient.delete(`/api/stores/${id}`);
-        });
+        return this.executeMutation(
+            "deleteStore",
+            `/api/stores/${id}`,
+            "DELETE",
+            async (options) => {
+                await apiClient.delete(`/api/stores/${id}`, options);
+            }
+        );
     }
 
     async duplicateStore(params: {
@@ -128,13 +319,14 @@ export class RemoteDatabase extends BaseDatabase {
             "duplicateStore",
             `/api/stores/${params.sourceStoreId}/duplicate`,
             "POST",
-            async () => {
+            async (options) => {
                 const response = await apiClient.post<{ store: Store }>(
                     `/api/stores/${params.sourceStoreId}/duplicate`,
                     {
                         newStoreName: params.newStoreName,
                         includeItems: params.includeItems,
-                    }
+                    },
+                    options
                 );
                 return response.store;
             },
@@ -142,6 +334,30 @@ export class RemoteDatabase extends BaseDatabase {
         );
     }
 
+    async exportStoreLayout(storeId: string, includeItems: boolean): Promise<StoreLayout> {
+        const response = await apiClient.get<{ layout: StoreLayout }>(
+            `/api/stores/${storeId}/export?includeItems=${includeItems}`
+        );
+        return response.layout;
+    }
+
+    async importStoreLayout(request: ImportStoreLayoutRequest): Promise<Store> {
+        return this.executeMutation(
+            "importStoreLayout",
+            "/api/stores/import",
+            "POST",
+            async (options) => {
+                const response = await apiClient.post<{ store: Store }>(
+                    "/api/stores/import",
+                    request,
+                    options
+                );
+                return response.store;
+            },
+            request
+        );
+    }
+
     // ========== App Settings Operations ==========
     async getAppSetting(_key: string): Promise<AppSetting | null> {
         // App settings are not yet implemented in backend API
@@ -166,10 +382,11 @@ export class RemoteDatabase extends BaseDatabase {
             "insertAisle",
             `/api/stores/${storeId}/aisles`,
             "POST",
-            async () => {
+            async (options) => {
                 const response = await apiClient.post<{ aisle: StoreAisle }>(
                     `/api/stores/${storeId}/aisles`,
-                    { name }
+                    { name },
+                    options
                 );
                 return response.aisle;
             },
@@ -178,10 +395,8 @@ export class RemoteDatabase extends BaseDatabase {
     }
 
     async getAislesByStore(storeId: string): Promise<StoreAisle[]> {
-        const response = await apiClient.get<{ aisles: StoreAisle[] }>(
-            `/api/stores/${storeId}/aisles`
-        );
-        return response.aisles;
+        const snapshot = await this.syncStore(storeId);
+        return bySortOrder(snapshot.aisles.values());
     }
 
     async updateAisle(storeId: string, id: string, name: string): Promise<StoreAisle> {
@@ -189,14 +404,16 @@ export class RemoteDatabase extends BaseDatabase {
             "updateAisle",
             `/api/stores/${storeId}/aisles/${id}`,
             "PUT",
-            async () => {
+            async (options) => {
                 const response = await apiClient.put<{ aisle: StoreAisle }>(
                     `/api/stores/${storeId}/aisles/${id}`,
-                    { name }
+                    { name },
+                    options
                 );
                 return response.aisle;
             },
-            { name }
+            { name },
+            { storeId, entity: "aisle", id }
         );
     }
 
@@ -205,14 +422,16 @@ export class RemoteDatabase extends BaseDatabase {
             "updateAisleSortOrder",
             `/api/stores/${storeId}/aisles/${id}`,
             "PATCH",
-            async () => {
+            async (options) => {
                 const response = await apiClient.patch<{ aisle: StoreAisle }>(
                     `/api/stores/${storeId}/aisles/${id}`,
-                    { sortOrder }
+                    { sortOrder },
+                    options
                 );
                 return response.aisle;
             },
-            { sortOrder }
+            { sortOrder },
+            { storeId, entity: "aisle", id }
         );
     }
 
@@ -221,8 +440,8 @@ export class RemoteDatabase extends BaseDatabase {
             "deleteAisle",
             `/api/stores/${storeId}/aisles/${id}`,
             "DELETE",
-            async () => {
-                await apiClient.delete(`/api/stores/${storeId}/aisles/${id}`);
+            async (options) => {
+                await apiClient.delete(`/api/stores/${storeId}/aisles/${id}`, options);
             }
         );
     }
@@ -235,8 +454,8 @@ export class RemoteDatabase extends BaseDatabase {
             "reorderAisles",
             `/api/stores/${storeId}/aisles/reorder`,
             "POST",
-            async () => {
-                await apiClient.post(`/api/stores/${storeId}/aisles/reorder`, { updates });
+            async (options) => {
+                await apiClient.post(`/api/stores/${storeId}/aisles/reorder`, { updates }, options);
             },
             { updates }
         );
@@ -248,10 +467,11 @@ export class RemoteDatabase extends BaseDatabase {
             "insertSection",
             `/api/stores/${storeId}/sections`,
             "POST",
-            async () => {
+            async (options) => {
                 const response = await apiClient.post<{ section: StoreSection }>(
                     `/api/stores/${storeId}/sections`,
-                    { name, aisleId }
+                    { name, aisleId },
+                    options
                 );
                 return response.section;
             },
@@ -260,10 +480,8 @@ export class RemoteDatabase extends BaseDatabase {
     }
 
     async getSectionsByStore(storeId: string): Promise<StoreSection[]> {
-        const response = await apiClient.get<{ sections: StoreSection[] }>(
-            `/api/stores/${storeId}/sections`
-        );
-        return response.sections;
+        const snapshot = await this.syncStore(storeId);
+        return bySortOrder(snapshot.sections.values());
     }
 
     async getSectionById(_id: string): Promise<StoreSection | null> {
@@ -281,14 +499,16 @@ export class RemoteDatabase extends BaseDatabase {
             "updateSection",
             `/api/stores/${storeId}/sections/${id}`,
             "PUT",
-            async () => {
+            async (options) => {
                 const response = await apiClient.put<{ section: StoreSection }>(
                     `/api/stores/${storeId}/sections/${id}`,
-                    { name, aisleId }
+                    { name, aisleId },
+                    options
                 );
                 return response.section;
             },
-            { name, aisleId }
+            { name, aisleId },
+            { storeId, entity: "section", id }
         );
     }
 
@@ -302,14 +522,16 @@ export class RemoteDatabase extends BaseDatabase {
             "updateSectionLocation",
             `/api/stores/${storeId}/sections/${id}`,
             "PATCH",
-            async () => {
+            async (options) => {
                 const response = await apiClient.patch<{ section: StoreSection }>(
                     `/api/stores/${storeId}/sections/${id}`,
-                    { aisleId, sortOrder }
+                    { aisleId, sortOrder },
+                    options
                 );
                 return response.section;
             },
-            { aisleId, sortOrder }
+            { aisleId, sortOrder },
+            { storeId, entity: "section", id }
         );
     }
 
@@ -318,8 +540,8 @@ export class RemoteDatabase extends BaseDatabase {
             "deleteSection",
             `/api/stores/${storeId}/sections/${id}`,
             "DELETE",
-            async () => {
-                await apiClient.delete(`/api/stores/${storeId}/sections/${id}`);
+            async (options) => {
+                await apiClient.delete(`/api/stores/${storeId}/sections/${id}`, options);
             }
         );
     }
@@ -332,8 +554,12 @@ export class RemoteDatabase extends BaseDatabase {
             "reorderSections",
             `/api/stores/${storeId}/sections/reorder`,
             "POST",
-            async () => {
-                await apiClient.post(`/api/stores/${storeId}/sections/reorder`, { updates });
+            async (options) => {
+                await apiClient.post(
+                    `/api/stores/${storeId}/sections/reorder`,
+                    { updates },
+                    options
+                );
             },
             { updates }
         );
@@ -350,10 +576,11 @@ export class RemoteDatabase extends BaseDatabase {
             "insertItem",
             `/api/stores/${storeId}/items`,
             "POST",
-            async () => {
+            async (options) => {
                 const response = await apiClient.post<{ item: StoreItem }>(
                     `/api/stores/${storeId}/items`,
-                    { name, aisleId, sectionId }
+                    { name, aisleId, sectionId },
+                    options
                 );
                 return response.item;
             },
@@ -369,10 +596,8 @@ export class RemoteDatabase extends BaseDatabase {
     }
 
     async getItemsByStoreWithDetails(storeId: string): Promise<StoreItemWithDetails[]> {
-        const response = await apiClient.get<{ items: StoreItemWithDetails[] }>(
-            `/api/stores/${storeId}/items`
-        );
-        return response.items;
+        const snapshot = await this.syncStore(storeId);
+        return [...snapshot.items.values()];
     }
 
     async getItemById(_id: string): Promise<StoreItem | null> {
@@ -391,14 +616,16 @@ export class RemoteDatabase extends BaseDatabase {
             "updateItem",
             `/api/stores/${storeId}/items/${id}`,
             "PUT",
-            async () => {
+            async (options) => {
                 const response = await apiClient.put<{ item: StoreItem }>(
                     `/api/stores/${storeId}/items/${id}`,
-                    { name, aisleId, sectionId }
+                    { name, aisleId, sectionId },
+                    options
                 );
                 return response.item;
             },
-            { name, aisleId, sectionId }
+            { name, aisleId, sectionId },
+            { storeId, entity: "store-item", id }
         );
     }
 
@@ -407,10 +634,11 @@ export class RemoteDatabase extends BaseDatabase {
             "toggleItemFavoriteForStore",
             `/api/stores/${storeId}/items/${id}/favorite`,
             "POST",
-            async () => {
+            async (options) => {
                 const response = await apiClient.post<{ item: StoreItem }>(
                     `/api/stores/${storeId}/items/${id}/favorite`,
-                    {}
+                    {},
+                    options
                 );
                 return response.item;
             },
@@ -423,8 +651,8 @@ export class RemoteDatabase extends BaseDatabase {
             "deleteItemForStore",
             `/api/stores/${storeId}/items/${id}`,
             "DELETE",
-            async () => {
-                await apiClient.delete(`/api/stores/${storeId}/items/${id}`);
+            async (options) => {
+                await apiClient.delete(`/api/stores/${storeId}/items/${id}`, options);
             }
         );
     }
@@ -480,13 +708,60 @@ export class RemoteDatabase extends BaseDatabase {
         return this.insertItem(storeId, name, aisleId, sectionId);
     }
 
+    // ========== Item Catalog Operations ==========
+    async getCatalog(): Promise<CanonicalItemSummary[]> {
+        const response = await apiClient.get<{ items: CanonicalItemSummary[] }>("/api/catalog");
+        return response.items;
+    }
+
+    async getCatalogItem(canonicalItemId: string): Promise<CanonicalItemWithLinks> {
+        const response = await apiClient.get<{ item: CanonicalItemWithLinks }>(
+            `/api/catalog/${canonicalItemId}`
+        );
+        return response.item;
+    }
+
+    async linkStoreItem(
+        storeId: string,
+        id: string,
+        canonicalItemId: string | null
+    ): Promise<StoreItem> {
+        return this.executeMutation(
+            "linkStoreItem",
+            `/api/stores/${storeId}/items/${id}/canonical`,
+            "PUT",
+            async (options) => {
+                const response = await apiClient.put<{ item: StoreItem }>(
+                    `/api/stores/${storeId}/items/${id}/canonical`,
+                    { canonicalItemId },
+                    options
+                );
+                return response.item;
+            },
+            { canonicalItemId }
+        );
+    }
+
+    async resetStoreItemLink(storeId: string, id: string): Promise<StoreItem> {
+        return this.executeMutation(
+            "resetStoreItemLink",
+            `/api/stores/${storeId}/items/${id}/canonical`,
+            "DELETE",
+            async (options) => {
+                const response = await apiClient.delete<{ item: StoreItem }>(
+                    `/api/stores/${storeId}/items/${id}/canonical`,
+                    options
+                );
+                return response.item;
+            }
+        );
+    }
+
     // ========== ShoppingList Operations ==========
     async getShoppingListItems(storeId: string): Promise<ShoppingListItemWithDetails[]> {
         try {
-            const response = await apiClient.get<{ items: ShoppingListItemWithDetails[] }>(
-                `/api/stores/${storeId}/shopping-list`
-            );
-            return response.items;
+            const snapshot = await this.syncStore(storeId);
+            return [...snapshot.shoppingListItems.values()];
         } catch (error) {
             console.error("[RemoteDatabase] getShoppingListItems error:", error);
             throw error;
@@ -498,14 +773,18 @@ export class RemoteDatabase extends BaseDatabase {
             "upsertShoppingListItem",
             `/api/stores/${params.storeId}/shopping-list`,
             "POST",
-            async () => {
+            async (options) => {
                 const response = await apiClient.post<{ item: ShoppingListItem }>(
                     `/api/stores/${params.storeId}/shopping-list`,
-                    params
+                    params,
+                    options
                 );
                 return response.item;
             },
-            params
+            params,
+            params.id
+                ? { storeId: params.storeId, entity: "shopping-list-item", id: params.id }
+                : undefined
         );
     }
 
@@ -518,12 +797,13 @@ export class RemoteDatabase extends BaseDatabase {
             "toggleShoppingListItemChecked",
             `/api/stores/${storeId}/shopping-list/${id}/toggle`,
             "POST",
-            async () => {
+            async (options) => {
                 const response = await apiClient.post<CheckConflictResult>(
                     `/api/stores/${storeId}/shopping-list/${id}/toggle`,
                     {
                         isChecked,
-                    }
+                    },
+                    options
                 );
                 return {
                     conflict: response.conflict,
@@ -544,9 +824,10 @@ export class RemoteDatabase extends BaseDatabase {
             "deleteShoppingListItem",
             `/api/stores/${storeId}/shopping-list/${id}/delete-with-item`,
             "DELETE",
-            async () => {
+            async (options) => {
                 await apiClient.delete(
-                    `/api/stores/${storeId}/shopping-list/${id}/delete-with-item`
+                    `/api/stores/${storeId}/shopping-list/${id}/delete-with-item`,
+                    options
                 );
             }
         );
@@ -560,8 +841,8 @@ export class RemoteDatabase extends BaseDatabase {
             "removeShoppingListItem",
             `/api/stores/${storeId}/shopping-list/${id}`,
             "DELETE",
-            async () => {
-                await apiClient.delete(`/api/stores/${storeId}/shopping-list/${id}`);
+            async (options) => {
+                await apiClient.delete(`/api/stores/${storeId}/shopping-list/${id}`, options);
             }
         );
     }
@@ -571,14 +852,124 @@ export class RemoteDatabase extends BaseDatabase {
             "clearCheckedShoppingListItems",
             `/api/stores/${storeId}/shopping-list/clear-checked`,
             "POST",
-            async () => {
+            async (options) => {
                 const response = await apiClient.post<{ success: boolean; count: number }>(
                     `/api/stores/${storeId}/shopping-list/clear-checked`,
-                    {}
+                    {},
+                    options
                 );
                 return response.count;
             },
             {}
         );
     }
+
+    // ========== Purchase History Operations ==========
+    async getStorePurchaseHistory(
+        storeId: string,
+        options: { limit?: number; before?: string } = {}
+    ): Promise<PurchaseEventWithDetails[]> {
+        const response = await apiClient.get<{ purchases: PurchaseEventWithDetails[] }>(
+            `/api/stores/${storeId}/purchases?${toHistoryParams(options)}`
+        );
+        return response.purchases;
+    }
+
+    async getStoreItemPurchaseHistory(
+        storeId: string,
+        storeItemId: string,
+        options: { limit?: number; before?: string } = {}
+    ): Promise<PurchaseEventWithDetails[]> {
+        const response = await apiClient.get<{ purchases: PurchaseEventWithDetails[] }>(
+            `/api/stores/${storeId}/items/${storeItemId}/purchases?${toHistoryParams(options)}`
+        );
+        return response.purchases;
+    }
+
+    async getSuggestedStoreOrder(storeId: string): Promise<SuggestedStoreOrder> {
+        const response = await apiClient.get<{ suggestion: SuggestedStoreOrder }>(
+            `/api/stores/${storeId}/suggested-order`
+        );
+        return response.suggestion;
+    }
+
+    // ========== Item Recurrence Operations ==========
+    async getItemRecurrence(
+        storeId: string,
+        storeItemId: string
+    ): Promise<StoreItemRecurrenceWithStatus | null> {
+        const response = await apiClient.get<{ recurrence: StoreItemRecurrenceWithStatus | null }>(
+            `/api/stores/${storeId}/items/${storeItemId}/recurrence`
+        );
+        return response.recurrence;
+    }
+
+    async setItemRecurrence(
+        storeId: string,
+        storeItemId: string,
+        input: SetStoreItemRecurrenceRequest
+    ): Promise<StoreItemRecurrenceWithStatus> {
+        return this.executeMutation(
+            "setItemRecurrence",
+            `/api/stores/${storeId}/items/${storeItemId}/recurrence`,
+            "PUT",
+            async (options) => {
+                const response = await apiClient.put<{
+                    recurrence: StoreItemRecurrenceWithStatus;
+                }>(`/api/stores/${storeId}/items/${storeItemId}/recurrence`, input, options);
+                return response.recurrence;
+            },
+            input
+        );
+    }
+
+    async clearItemRecurrence(storeId: string, storeItemId: string): Promise<void> {
+        return this.executeMutation(
+            "clearItemRecurrence",
+            `/api/stores/${storeId}/items/${storeItemId}/recurrence`,
+            "DELETE",
+            async (options) => {
+                await apiClient.delete(
+                    `/api/stores/${storeId}/items/${storeItemId}/recurrence`,
+                    options
+                );
+            }
+        );
+    }
+
+    // ========== Store Map Operations ==========
+    async getStoreMap(storeId: string): Promise<StoreMap | null> {
+        const response = await apiClient.get<{ map: StoreMap | null }>(
+            `/api/stores/${storeId}/map`
+        );
+        return response.map;
+    }
+
+    async saveStoreMap(storeId: string, input: SaveStoreMapRequest): Promise<StoreMap> {
+        return this.executeMutation(
+            "saveStoreMap",
+            `/api/stores/${storeId}/map`,
+            "PUT",
+            async (options) => {
+                const response = await apiClient.put<{ map: StoreMap }>(
+                    `/api/stores/${storeId}/map`,
+                    input,
+                    options
+                );
+                return response.map;
+            },
+            input
+        );
+    }
+
+    async deleteStoreMap(storeId: string): Promise<void> {
+        return this.executeMutation(
+            "deleteStoreMap",
+            `/api/stores/${storeId}/map`,
+            "DELETE",
+            async (options) => {
+                await apiClient.delete(`/api/stores/${storeId}/map`, options);
+            }
+        );
+    }
 }
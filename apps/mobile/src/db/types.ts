@@ -1,15 +1,25 @@
 import type {
     AppSetting,
+    CanonicalItemSummary,
+    CanonicalItemWithLinks,
     CheckConflictResult,
+    ImportStoreLayoutRequest,
+    PurchaseEventWithDetails,
     QuantityUnit,
+    SaveStoreMapRequest,
+    SetStoreItemRecurrenceRequest,
     ShoppingListItem,
     ShoppingListItemInput,
     ShoppingListItemWithDetails,
     Store,
     StoreAisle,
     StoreItem,
+    StoreItemRecurrenceWithStatus,
     StoreItemWithDetails,
+    StoreLayout,
+    StoreMap,
     StoreSection,
+    SuggestedStoreOrder,
 } from "@basket-bot/core";
 
 // Re-export types for convenience
@@ -17,6 +27,8 @@ export type { ShoppingListItem, StoreAisle, StoreItem, StoreItemWithDetails, Sto
 
 export type DatabaseChangeListener = () => void;
 
+export type RemoteChangeListener = (storeId: string) => void;
+
 /**
  * Core database operations for lifecycle management
  */
@@ -30,6 +42,12 @@ export interface CoreDatabase {
      * Close the database connection
      */
     close(): Promise<void>;
+
+    /**
+     * Drop everything kept on the device for the signed-in user (e.g. on logout).
+     * Local changes that haven't been synced yet are discarded.
+     */
+    clearLocalData(): Promise<void>;
 }
 
 export interface DatabaseEvents {
@@ -37,6 +55,12 @@ export interface DatabaseEvents {
      * Subscribe to database change events. Returns an unsubscribe function.
      */
     onChange(listener: DatabaseChangeListener): () => void;
+
+    /**
+     * Subscribe to a store's data changing underneath the app (e.g. a background sync
+     * pulled in other members' edits). Returns an unsubscribe function.
+     */
+    onRemoteChange(listener: RemoteChangeListener): () => void;
 }
 
 /**
@@ -83,6 +107,16 @@ export interface EntityDatabase {
         includeItems: boolean;
     }): Promise<Store>;
 
+    /**
+     * Export a store's layout (aisles/sections, optionally items) in the portable JSON format
+     */
+    exportStoreLayout(storeId: string, includeItems: boolean): Promise<StoreLayout>;
+
+    /**
+     * Create a new store from an exported layout
+     */
+    importStoreLayout(request: ImportStoreLayoutRequest): Promise<Store>;
+
     // ========== App Settings Operations ==========
     /**
      * Get an app setting by key
@@ -247,6 +281,27 @@ export interface EntityDatabase {
         sectionId?: string | null
     ): Promise<StoreItem>;
 
+    // ========== Item Catalog Operations ==========
+    /**
+     * Get the canonical items of every catalog the user can see, with usage across stores
+     */
+    getCatalog(): Promise<CanonicalItemSummary[]>;
+
+    /**
+     * Get a canonical item with the store items linked to it
+     */
+    getCatalogItem(canonicalItemId: string): Promise<CanonicalItemWithLinks>;
+
+    /**
+     * Link a store item to a canonical item by hand, or null to keep it out of the catalog
+     */
+    linkStoreItem(storeId: string, id: string, canonicalItemId: string | null): Promise<StoreItem>;
+
+    /**
+     * Drop a store item's hand-made link so it's linked by name again
+     */
+    resetStoreItemLink(storeId: string, id: string): Promise<StoreItem>;
+
     // ========== ShoppingList Operations ==========
     /**
      * Get all shopping list items for a store, joined with aisle/section info
@@ -286,6 +341,70 @@ export interface EntityDatabase {
      * Clear all checked items from a shopping list for a store
      */
     clearCheckedShoppingListItems(storeId: string): Promise<number>;
+
+    // ========== Purchase History Operations ==========
+    /**
+     * Get items checked off at a store, newest first (kept after the list is cleared)
+     * Pass the oldest checkedAt seen as "before" to load older purchases
+     */
+    getStorePurchaseHistory(
+        storeId: string,
+        options?: { limit?: number; before?: string }
+    ): Promise<PurchaseEventWithDetails[]>;
+
+    /**
+     * Get the purchase history of a single store item, newest first
+     */
+    getStoreItemPurchaseHistory(
+        storeId: string,
+        storeItemId: string,
+        options?: { limit?: number; before?: string }
+    ): Promise<PurchaseEventWithDetails[]>;
+
+    /**
+     * Get the aisle and section order learned from the order items were checked off
+     * (empty lists until enough trips have been recorded); apply with reorderAisles/reorderSections
+     */
+    getSuggestedStoreOrder(storeId: string): Promise<SuggestedStoreOrder>;
+
+    // ========== Item Recurrence Operations ==========
+    /**
+     * Get a store item's recurrence with its next due date (null when it doesn't recur)
+     */
+    getItemRecurrence(
+        storeId: string,
+        storeItemId: string
+    ): Promise<StoreItemRecurrenceWithStatus | null>;
+
+    /**
+     * Set or replace a store item's recurrence; due items are re-added to the list as unsure
+     */
+    setItemRecurrence(
+        storeId: string,
+        storeItemId: string,
+        input: SetStoreItemRecurrenceRequest
+    ): Promise<StoreItemRecurrenceWithStatus>;
+
+    /**
+     * Stop a store item from recurring
+     */
+    clearItemRecurrence(storeId: string, storeItemId: string): Promise<void>;
+
+    // ========== Store Map Operations ==========
+    /**
+     * Get a store's map (null when it has none), used to order the list as a walking route
+     */
+    getStoreMap(storeId: string): Promise<StoreMap | null>;
+
+    /**
+     * Create or replace a store's map
+     */
+    saveStoreMap(storeId: string, input: SaveStoreMapRequest): Promise<StoreMap>;
+
+    /**
+     * Remove a store's map
+     */
+    deleteStoreMap(storeId: string): Promise<void>;
 }
 
 /**
@@ -0,0 +1,16 @@
+import { useMemo } from "react";
+import { usePreference } from "./usePreference";
+
+const LAST_MEALS_HOUSEHOLD_KEY = "lastMealsHouseholdId";
+
+export const useLastMealsHousehold = () => {
+    const { value: lastMealsHouseholdId, savePreference } = usePreference(LAST_MEALS_HOUSEHOLD_KEY);
+
+    return useMemo(
+        () => ({
+            lastMealsHouseholdId,
+            saveLastMealsHousehold: savePreference,
+        }),
+        [lastMealsHouseholdId, savePreference]
+    );
+};
@@ -1,9 +1,44 @@
 import { useQueryClient } from "@tanstack/react-query";
 import { useCallback, useState } from "react";
 import { apiClient } from "../lib/api/client";
-import { mutationQueue } from "../lib/mutationQueue";
+import { mutationQueue, type QueuedMutation } from "../lib/mutationQueue";
 import { useToast } from "./useToast";
 
+/**
+ * Replay a queued mutation via the API (same idempotency key as its first attempt, and its
+ * base version as precondition). Returns the updated entity's new updatedAt, if any.
+ */
+async function replayMutation(mutation: QueuedMutation): Promise<string | void> {
+    const options = {
+        idempotencyKey: mutation.id,
+        expectedUpdatedAt: mutation.base?.expectedUpdatedAt,
+    };
+    type EntityResponse = Record<string, { updatedAt?: string } | null> | null;
+
+    let response: EntityResponse;
+    switch (mutation.method) {
+        case "POST":
+            response = await apiClient.post(mutation.endpoint, mutation.data, options);
+            break;
+        case "PUT":
+            response = await apiClient.put(mutation.endpoint, mutation.data, options);
+            break;
+        case "PATCH":
+            response = await apiClient.patch(mutation.endpoint, mutation.data, options);
+            break;
+        case "DELETE":
+            await apiClient.delete(mutation.endpoint, options);
+            return;
+        default:
+            throw new Error(`Unsupported method: ${mutation.method}`);
+    }
+
+    // Update responses wrap the entity: { aisle }, { section }, { item }
+    if (mutation.base && response) {
+        return Object.values(response).find((value) => value?.updatedAt)?.updatedAt;
+    }
+}
+
 /**
  * Hook to manually refresh data by invalidating queries
  */
@@ -86,28 +121,15 @@ export const useSync = () => {
             return;
         }
 
+        if (queueSize === mutationQueue.getConflictCount()) {
+            showInfo("Resolve the conflicting changes in pending changes first");
+            return;
+        }
+
         setIsSyncing(true);
 
         try {
-            const result = await mutationQueue.processQueue(async (mutation) => {
-                // Re-execute the mutation via API
-                switch (mutation.method) {
-                    case "POST":
-                        await apiClient.post(mutation.endpoint, mutation.data);
-                        break;
-                    case "PUT":
-                        await apiClient.put(mutation.endpoint, mutation.data);
-                        break;
-                    case "PATCH":
-                        await apiClient.patch(mutation.endpoint, mutation.data);
-                        break;
-                    case "DELETE":
-                        await apiClient.delete(mutation.endpoint);
-                        break;
-                    default:
-                        throw new Error(`Unsupported method: ${mutation.method}`);
-                }
-            });
+            const result = await mutationQueue.processQueue(replayMutation);
 
             // Invalidate queries after successful sync to refresh UI
             if (result.success > 0) {
@@ -115,6 +137,12 @@ export const useSync = () => {
                 showSuccess(`Synced ${result.success} change${result.success === 1 ? "" : "s"}`);
             }
 
+            if (result.conflicts > 0) {
+                showError(
+                    `${result.conflicts} change${result.conflicts === 1 ? " conflicts" : "s conflict"} with newer edits. Review pending changes to resolve.`
+                );
+            }
+
             if (result.failed > 0) {
                 showError(
                     `Failed to sync ${result.failed} change${result.failed === 1 ? "" : "s"}. Some changes may have been rejected by the server.`
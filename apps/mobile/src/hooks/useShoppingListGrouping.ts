@@ -0,0 +1,26 @@
+import { useCallback, useMemo } from "react";
+import { usePreference } from "./usePreference";
+
+const SHOPPING_LIST_GROUPING_KEY = "shoppingListGrouping";
+
+export type ShoppingListGrouping = "aisle" | "route";
+
+export const useShoppingListGrouping = () => {
+    const { value, savePreference } = usePreference(SHOPPING_LIST_GROUPING_KEY);
+
+    // Default to "aisle" (route order needs a store map)
+    const grouping: ShoppingListGrouping = value === "route" ? "route" : "aisle";
+
+    const toggleGrouping = useCallback(async () => {
+        await savePreference(grouping === "route" ? "aisle" : "route");
+    }, [grouping, savePreference]);
+
+    // Memoize return object to prevent unnecessary re-renders
+    return useMemo(
+        () => ({
+            grouping,
+            toggleGrouping,
+        }),
+        [grouping, toggleGrouping]
+    );
+};
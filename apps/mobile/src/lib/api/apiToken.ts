@@ -0,0 +1,29 @@
+import type { ApiToken, CreateApiTokenRequest, CreateApiTokenResponse } from "@basket-bot/core";
+import { apiClient } from "./client";
+
+/**
+ * Personal API token methods (tokens for scripts and home automation)
+ */
+export const apiTokenApi = {
+    /**
+     * Get the user's API tokens, newest first
+     */
+    async getApiTokens(): Promise<ApiToken[]> {
+        const response = await apiClient.get<{ apiTokens: ApiToken[] }>("/api/auth/api-tokens");
+        return response.apiTokens;
+    },
+
+    /**
+     * Create a token; the response holds its value, which can't be retrieved later
+     */
+    async createApiToken(request: CreateApiTokenRequest): Promise<CreateApiTokenResponse> {
+        return apiClient.post<CreateApiTokenResponse>("/api/auth/api-tokens", request);
+    },
+
+    /**
+     * Revoke a token
+     */
+    async revokeApiToken(tokenId: string): Promise<void> {
+        await apiClient.delete(`/api/auth/api-tokens/${tokenId}`);
+    },
+};
@@ -1,3 +1,4 @@
+import { IDEMPOTENCY_KEY_HEADER } from "@basket-bot/core";
 import { Capacitor } from "@capacitor/core";
 import { KEYS, secureStorage } from "../../utils/secureStorage";
 
@@ -37,13 +38,31 @@ export class ApiError extends Error {
         public code?: string,
         public tokenStatus?: string | null,
         public status?: number,
-        public isNetworkError: boolean = false
+        public isNetworkError: boolean = false,
+        public details?: unknown
     ) {
         super(message);
         this.name = "ApiError";
     }
 }
 
+/**
+ * Options for mutating requests
+ */
+export type MutationOptions = {
+    /**
+     * Sent as the Idempotency-Key header; pass the same key when retrying the same mutation
+     * so the server replays its first response instead of applying it again.
+     * A fresh key is generated when omitted.
+     */
+    idempotencyKey?: string;
+    /**
+     * Sent as the If-Match header: the updatedAt of the copy the change was made against.
+     * The server answers 409 VERSION_CONFLICT (with its current copy) if it has changed since.
+     */
+    expectedUpdatedAt?: string;
+};
+
 /**
  * Timeout duration for API requests (15 seconds)
  */
@@ -77,6 +96,21 @@ export class ApiClient {
         this.refreshToken = token;
     }
 
+    /**
+     * Id of the signed-in user (the access token's subject), or null when signed out
+     */
+    getUserId(): string | null {
+        const payload = this.accessToken?.split(".")[1];
+        if (!payload) return null;
+
+        try {
+            const json = atob(payload.replace(/-/g, "+").replace(/_/g, "/"));
+            return (JSON.parse(json) as { sub?: string }).sub ?? null;
+        } catch {
+            return null;
+        }
+    }
+
     /**
      * Mark authentication as ready (either tokens loaded and validated, or no tokens found)
      * This allows all pending requests to proceed
@@ -127,9 +161,14 @@ export class ApiClient {
 
                 const data = await response.json();
                 this.accessToken = data.accessToken;
+                this.refreshToken = data.refreshToken;
 
-                // Persist the new access token to secure storage
-                await secureStorage.set(KEYS.ACCESS_TOKEN, data.accessToken);
+                // Persist the new tokens to secure storage; the refresh token is replaced on
+                // every refresh and the old one stops working
+                await Promise.all([
+                    secureStorage.set(KEYS.ACCESS_TOKEN, data.accessToken),
+                    secureStorage.set(KEYS.REFRESH_TOKEN, data.refreshToken),
+                ]);
 
                 return data.accessToken;
             } finally {
@@ -288,40 +327,103 @@ export class ApiClient {
                 error.code || "UNKNOWN_ERROR",
                 tokenStatus,
                 responseToUse.status,
-                false
+                false,
+                error.details
             );
         }
 
         return responseToUse.json();
     }
 
+    /**
+     * Open a long-lived streaming GET (e.g. Server-Sent Events) and return the raw response.
+     * No timeout; the caller ends it through the signal. Refreshes an expired access token once.
+     */
+    async openStream(
+        endpoint: string,
+        options: { headers?: Record<string, string>; signal: AbortSignal }
+    ): Promise<Response> {
+        await this.authReadyPromise;
+
+        const open = (accessToken: string | null) =>
+            fetch(`${this.baseUrl}${endpoint}`, {
+                method: "GET",
+                headers: {
+                    Accept: "text/event-stream",
+                    ...options.headers,
+                    ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+                },
+                signal: options.signal,
+            });
+
+        let response = await open(this.accessToken);
+
+        if (
+            response.status === 401 &&
+            response.headers.get("X-Token-Status") === "invalid" &&
+            this.refreshToken
+        ) {
+            this.accessToken = null;
+            response = await open(await this.refreshAccessToken());
+        }
+
+        if (!response.ok || !response.body) {
+            const error = await response.json().catch(() => ({
+                code: "UNKNOWN_ERROR",
+                message: "An unknown error occurred",
+            }));
+            throw new ApiError(
+                error.message || "Request failed",
+                error.code || "UNKNOWN_ERROR",
+                response.headers.get("X-Token-Status"),
+                response.status,
+                false
+            );
+        }
+
+        return response;
+    }
+
     async get<T>(endpoint: string): Promise<T> {
         return this.request<T>(endpoint, { method: "GET" });
     }
 
-    async post<T>(endpoint: string, data: unknown): Promise<T> {
+    private mutationHeaders(options: MutationOptions): Record<string, string> {
+        return {
+            [IDEMPOTENCY_KEY_HEADER]: options.idempotencyKey ?? crypto.randomUUID(),
+            ...(options.expectedUpdatedAt ? { "If-Match": `"${options.expectedUpdatedAt}"` } : {}),
+        };
+    }
+
+    async post<T>(endpoint: string, data: unknown, options: MutationOptions = {}): Promise<T> {
         return this.request<T>(endpoint, {
             method: "POST",
+            headers: this.mutationHeaders(options),
             body: JSON.stringify(data),
         });
     }
 
-    async put<T>(endpoint: string, data: unknown): Promise<T> {
+    async put<T>(endpoint: string, data: unknown, options: MutationOptions = {}): Promise<T> {
         return this.request<T>(endpoint, {
             method: "PUT",
+            headers: this.mutationHeaders(options),
             body: JSON.stringify(data),
         });
     }
 
-    async patch<T>(endpoint: string, data: unknown): Promise<T> {
+    async patch<T>(endpoint: string, data: unknown, options: MutationOptions = {}): Promise<T> {
         return this.request<T>(endpoint, {
             method: "PATCH",
+            headers: this.mutationHeaders(options),
             body: JSON.stringify(data),
         });
     }
 
-    async delete<T>(endpoint: string): Promise<T> {
-        return this.request<T>(endpoint, { method: "DELETE" });
+    async delete<T>(endpoint: string, options: MutationOptions = {}): Promise<T> {
+        return this.request<T>(endpoint, {
+            method: "DELETE",
+            headers: this.mutationHeaders(options),
+        });
     }
 }
 
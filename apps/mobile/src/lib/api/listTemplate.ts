@@ -0,0 +1,96 @@
+import type {
+    ApplyListTemplateResponse,
+    CreateListTemplateRequest,
+    ListTemplateSummary,
+    ListTemplateWithItems,
+    UpdateListTemplateRequest,
+} from "@basket-bot/core";
+import { apiClient } from "./client";
+
+/**
+ * Shopping list template API methods
+ */
+export const listTemplateApi = {
+    /**
+     * Get household templates with their item counts
+     */
+    async getTemplates(householdId: string): Promise<ListTemplateSummary[]> {
+        const response = await apiClient.get<{ templates: ListTemplateSummary[] }>(
+            `/api/list-templates?householdId=${encodeURIComponent(householdId)}`
+        );
+        return response.templates;
+    },
+
+    /**
+     * Get a template with its items
+     */
+    async getTemplate(templateId: string): Promise<ListTemplateWithItems> {
+        const response = await apiClient.get<{ template: ListTemplateWithItems }>(
+            `/api/list-templates/${templateId}`
+        );
+        return response.template;
+    },
+
+    /**
+     * Create a template in a household
+     */
+    async createTemplate(
+        householdId: string,
+        input: CreateListTemplateRequest
+    ): Promise<ListTemplateWithItems> {
+        const response = await apiClient.post<{ template: ListTemplateWithItems }>(
+            `/api/list-templates?householdId=${encodeURIComponent(householdId)}`,
+            input
+        );
+        return response.template;
+    },
+
+    /**
+     * Rename a template and/or replace its items
+     */
+    async updateTemplate(
+        templateId: string,
+        input: UpdateListTemplateRequest
+    ): Promise<ListTemplateWithItems> {
+        const response = await apiClient.patch<{ template: ListTemplateWithItems }>(
+            `/api/list-templates/${templateId}`,
+            input
+        );
+        return response.template;
+    },
+
+    /**
+     * Delete a template
+     */
+    async deleteTemplate(templateId: string): Promise<void> {
+        await apiClient.delete(`/api/list-templates/${templateId}`);
+    },
+
+    /**
+     * Save the unchecked items of a store's shopping list as a new template
+     */
+    async saveListAsTemplate(params: {
+        householdId: string;
+        storeId: string;
+        name: string;
+    }): Promise<ListTemplateWithItems> {
+        const response = await apiClient.post<{ template: ListTemplateWithItems }>(
+            `/api/list-templates/from-list?householdId=${encodeURIComponent(params.householdId)}`,
+            { storeId: params.storeId, name: params.name }
+        );
+        return response.template;
+    },
+
+    /**
+     * Add a template's items to a store's shopping list (items already listed are skipped)
+     */
+    async applyTemplate(params: {
+        templateId: string;
+        storeId: string;
+    }): Promise<ApplyListTemplateResponse> {
+        return apiClient.post<ApplyListTemplateResponse>(
+            `/api/list-templates/${params.templateId}/apply`,
+            { storeId: params.storeId }
+        );
+    },
+};
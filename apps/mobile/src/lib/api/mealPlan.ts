@@ -0,0 +1,75 @@
+import type {
+    AddRecipesToShoppingListResponse,
+    CreateMealPlanEntryRequest,
+    GenerateMealPlanShoppingListRequest,
+    MealPlanEntryWithRecipe,
+    UpdateMealPlanEntryRequest,
+} from "@basket-bot/core";
+import { apiClient } from "./client";
+
+/**
+ * Meal plan API methods
+ */
+export const mealPlanApi = {
+    /**
+     * Get planned meals for a household within an inclusive date range (YYYY-MM-DD)
+     */
+    async getEntries(
+        householdId: string,
+        startDate: string,
+        endDate: string
+    ): Promise<MealPlanEntryWithRecipe[]> {
+        const params = new URLSearchParams({ householdId, startDate, endDate });
+        const response = await apiClient.get<{ entries: MealPlanEntryWithRecipe[] }>(
+            `/api/meal-plans/entries?${params.toString()}`
+        );
+        return response.entries;
+    },
+
+    /**
+     * Plan a recipe for a day and meal slot
+     */
+    async createEntry(
+        householdId: string,
+        input: CreateMealPlanEntryRequest
+    ): Promise<MealPlanEntryWithRecipe> {
+        const response = await apiClient.post<{ entry: MealPlanEntryWithRecipe }>(
+            `/api/meal-plans/entries?householdId=${encodeURIComponent(householdId)}`,
+            input
+        );
+        return response.entry;
+    },
+
+    /**
+     * Change servings or move an entry to another day/slot
+     */
+    async updateEntry(
+        entryId: string,
+        input: UpdateMealPlanEntryRequest
+    ): Promise<MealPlanEntryWithRecipe> {
+        const response = await apiClient.patch<{ entry: MealPlanEntryWithRecipe }>(
+            `/api/meal-plans/entries/${entryId}`,
+            input
+        );
+        return response.entry;
+    },
+
+    /**
+     * Remove a recipe from the plan
+     */
+    async deleteEntry(entryId: string): Promise<void> {
+        await apiClient.delete(`/api/meal-plans/entries/${entryId}`);
+    },
+
+    /**
+     * Add the ingredients of every recipe planned in the range to a store's shopping list
+     */
+    async generateShoppingList(
+        input: GenerateMealPlanShoppingListRequest
+    ): Promise<AddRecipesToShoppingListResponse> {
+        return apiClient.post<AddRecipesToShoppingListResponse>(
+            "/api/meal-plans/shopping-list",
+            input
+        );
+    },
+};
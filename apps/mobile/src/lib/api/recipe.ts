@@ -0,0 +1,208 @@
+import type {
+    AddRecipeIngredientRequest,
+    CreateRecipeRequest,
+    CreateRecipeTagRequest,
+    Recipe,
+    RecipeIngredient,
+    RecipeTag,
+    RecipeWithDetails,
+    UpdateRecipeIngredientRequest,
+    UpdateRecipeRequest,
+    UpdateRecipeTagRequest,
+} from "@basket-bot/core";
+import { apiClient } from "./client";
+
+/** How multiple tag filters combine: recipes with ALL tags or with ANY of them */
+export type RecipeTagMatchMode = "all" | "any";
+
+export interface RecipeListFilter {
+    tagIds?: string[];
+    tagMode?: RecipeTagMatchMode;
+    includeHidden?: boolean;
+}
+
+/**
+ * Recipe API methods
+ */
+export const recipeApi = {
+    /**
+     * Get household recipes, optionally filtered by tags
+     * Tag filtering only returns visible recipes
+     */
+    async getRecipes(householdId: string, filter: RecipeListFilter = {}): Promise<Recipe[]> {
+        const params = new URLSearchParams({ householdId });
+        if (filter.tagIds && filter.tagIds.length > 0) {
+            params.set("tagIds", filter.tagIds.join(","));
+            params.set("tagMode", filter.tagMode ?? "all");
+        }
+        if (filter.includeHidden) {
+            params.set("includeHidden", "true");
+        }
+        const response = await apiClient.get<{ recipes: Recipe[] }>(
+            `/api/recipes?${params.toString()}`
+        );
+        return response.recipes;
+    },
+
+    /**
+     * Get a recipe with its tags and ingredients
+     */
+    async getRecipe(recipeId: string): Promise<RecipeWithDetails> {
+        const response = await apiClient.get<{ recipe: RecipeWithDetails }>(
+            `/api/recipes/${recipeId}`
+        );
+        return response.recipe;
+    },
+
+    /**
+     * Create a recipe in a household
+     */
+    async createRecipe(householdId: string, input: CreateRecipeRequest): Promise<Recipe> {
+        const response = await apiClient.post<{ recipe: Recipe }>(
+            `/api/recipes?householdId=${encodeURIComponent(householdId)}`,
+            input
+        );
+        return response.recipe;
+    },
+
+    /**
+     * Update recipe fields
+     */
+    async updateRecipe(recipeId: string, input: UpdateRecipeRequest): Promise<Recipe> {
+        const response = await apiClient.patch<{ recipe: Recipe }>(
+            `/api/recipes/${recipeId}`,
+            input
+        );
+        return response.recipe;
+    },
+
+    /**
+     * Delete a recipe
+     */
+    async deleteRecipe(recipeId: string): Promise<void> {
+        await apiClient.delete(`/api/recipes/${recipeId}`);
+    },
+
+    /**
+     * Hide or unhide a recipe
+     */
+    async setRecipeHidden(recipeId: string, isHidden: boolean): Promise<Recipe> {
+        const response = await apiClient.patch<{ recipe: Recipe }>(
+            `/api/recipes/${recipeId}/${isHidden ? "hide" : "unhide"}`,
+            {}
+        );
+        return response.recipe;
+    },
+
+    /**
+     * Add an ingredient to a recipe
+     */
+    async addIngredient(
+        recipeId: string,
+        input: AddRecipeIngredientRequest
+    ): Promise<RecipeIngredient> {
+        const response = await apiClient.post<{ ingredient: RecipeIngredient }>(
+            `/api/recipes/${recipeId}/ingredients`,
+            input
+        );
+        return response.ingredient;
+    },
+
+    /**
+     * Update a recipe ingredient
+     */
+    async updateIngredient(
+        recipeId: string,
+        ingredientId: string,
+        input: UpdateRecipeIngredientRequest
+    ): Promise<RecipeIngredient> {
+        const response = await apiClient.patch<{ ingredient: RecipeIngredient }>(
+            `/api/recipes/${recipeId}/ingredients/${ingredientId}`,
+            input
+        );
+        return response.ingredient;
+    },
+
+    /**
+     * Delete a recipe ingredient
+     */
+    async deleteIngredient(recipeId: string, ingredientId: string): Promise<void> {
+        await apiClient.delete(`/api/recipes/${recipeId}/ingredients/${ingredientId}`);
+    },
+
+    /**
+     * Reorder a recipe's ingredients
+     */
+    async reorderIngredients(
+        recipeId: string,
+        updates: Array<{ id: string; sortOrder: number }>
+    ): Promise<RecipeIngredient[]> {
+        const response = await apiClient.post<{ ingredients: RecipeIngredient[] }>(
+            `/api/recipes/${recipeId}/ingredients/reorder`,
+            { updates }
+        );
+        return response.ingredients;
+    },
+
+    /**
+     * Assign a tag to a recipe
+     */
+    async assignTag(recipeId: string, tagId: string): Promise<RecipeTag[]> {
+        const response = await apiClient.post<{ tags: RecipeTag[] }>(
+            `/api/recipes/${recipeId}/tags`,
+            { tagId }
+        );
+        return response.tags;
+    },
+
+    /**
+     * Remove a tag from a recipe
+     */
+    async removeTag(recipeId: string, tagId: string): Promise<void> {
+        await apiClient.delete(`/api/recipes/${recipeId}/tags/${tagId}`);
+    },
+};
+
+/**
+ * Recipe tag API methods
+ */
+export const recipeTagApi = {
+    /**
+     * Get all tags in a household
+     */
+    async getTags(householdId: string): Promise<RecipeTag[]> {
+        const response = await apiClient.get<{ tags: RecipeTag[] }>(
+            `/api/recipe-tags?householdId=${encodeURIComponent(householdId)}`
+        );
+        return response.tags;
+    },
+
+    /**
+     * Create a tag in a household
+     */
+    async createTag(householdId: string, input: CreateRecipeTagRequest): Promise<RecipeTag> {
+        const response = await apiClient.post<{ tag: RecipeTag }>(
+            `/api/recipe-tags?householdId=${encodeURIComponent(householdId)}`,
+            input
+        );
+        return response.tag;
+    },
+
+    /**
+     * Update a tag's name or color
+     */
+    async updateTag(tagId: string, input: UpdateRecipeTagRequest): Promise<RecipeTag> {
+        const response = await apiClient.patch<{ tag: RecipeTag }>(
+            `/api/recipe-tags/${tagId}`,
+            input
+        );
+        return response.tag;
+    },
+
+    /**
+     * Delete a tag (removes it from all recipes)
+     */
+    async deleteTag(tagId: string): Promise<void> {
+        await apiClient.delete(`/api/recipe-tags/${tagId}`);
+    },
+};
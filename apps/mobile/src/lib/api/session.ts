@@ -0,0 +1,30 @@
+import type { AuthSession } from "@basket-bot/core";
+import { apiClient } from "./client";
+
+/**
+ * Signed-in device (session) API methods
+ */
+export const sessionApi = {
+    /**
+     * Get the user's signed-in devices, most recently used first
+     */
+    async getSessions(): Promise<AuthSession[]> {
+        const response = await apiClient.get<{ sessions: AuthSession[] }>("/api/auth/sessions");
+        return response.sessions;
+    },
+
+    /**
+     * Sign a device out
+     */
+    async signOutSession(sessionId: string): Promise<void> {
+        await apiClient.delete(`/api/auth/sessions/${sessionId}`);
+    },
+
+    /**
+     * Sign out every device except this one; returns how many were signed out
+     */
+    async signOutOtherSessions(): Promise<number> {
+        const response = await apiClient.delete<{ signedOut: number }>("/api/auth/sessions");
+        return response.signedOut;
+    },
+};
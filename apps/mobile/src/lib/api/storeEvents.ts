@@ -0,0 +1,138 @@
+import type { StoreEvent } from "@basket-bot/core";
+import { ApiError, apiClient } from "./client";
+
+// Reconnect delay when the server doesn't suggest one, and the backoff ceiling
+const DEFAULT_RETRY_MS = 3000;
+const MAX_RETRY_MS = 60 * 1000;
+
+export interface StoreEventHandlers {
+    onEvent: (event: StoreEvent) => void;
+    /** Missed events couldn't be replayed (e.g. server restart); cached data may be stale */
+    onReset: () => void;
+}
+
+interface ServerSentMessage {
+    id: string | null;
+    event: string;
+    data: string;
+    retry: number | null;
+}
+
+/**
+ * Wait for the given delay, ending early when the signal aborts
+ */
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+        const timeoutId = setTimeout(done, ms);
+        signal.addEventListener("abort", done, { once: true });
+
+        function done() {
+            clearTimeout(timeoutId);
+            signal.removeEventListener("abort", done);
+            resolve();
+        }
+    });
+}
+
+/**
+ * Read a Server-Sent Events body until it ends, calling onMessage for each dispatched message
+ */
+async function readEventStream(
+    body: ReadableStream<Uint8Array>,
+    onMessage: (message: ServerSentMessage) => void
+): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) return;
+
+        buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, "\n");
+
+        let boundary = buffer.indexOf("\n\n");
+        while (boundary !== -1) {
+            const block = buffer.slice(0, boundary);
+            buffer = buffer.slice(boundary + 2);
+            boundary = buffer.indexOf("\n\n");
+
+            const message: ServerSentMessage = {
+                id: null,
+                event: "message",
+                data: "",
+                retry: null,
+            };
+            const dataLines: string[] = [];
+            for (const line of block.split("\n")) {
+                // Lines starting with ":" are comments (heartbeats)
+                if (!line || line.startsWith(":")) continue;
+
+                const colon = line.indexOf(":");
+                const field = colon === -1 ? line : line.slice(0, colon);
+                const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+
+                if (field === "id") message.id = value;
+                else if (field === "event") message.event = value;
+                else if (field === "data") dataLines.push(value);
+                else if (field === "retry" && /^\d+$/.test(value)) message.retry = Number(value);
+            }
+            message.data = dataLines.join("\n");
+
+            onMessage(message);
+        }
+    }
+}
+
+/**
+ * Real-time store event stream
+ */
+export const storeEventsApi = {
+    /**
+     * Follow a store's change events until the signal aborts. Dropped connections reconnect
+     * with backoff and resume from the last received event (Last-Event-ID).
+     * Stops for good when access is denied or the session can't be refreshed.
+     */
+    async subscribe(
+        storeId: string,
+        handlers: StoreEventHandlers,
+        signal: AbortSignal
+    ): Promise<void> {
+        let lastEventId: string | null = null;
+        let retryMs = DEFAULT_RETRY_MS;
+        let failures = 0;
+
+        while (!signal.aborted) {
+            try {
+                const response = await apiClient.openStream(`/api/stores/${storeId}/events`, {
+                    headers: lastEventId ? { "Last-Event-ID": lastEventId } : {},
+                    signal,
+                });
+                failures = 0;
+
+                await readEventStream(response.body!, (message) => {
+                    if (message.retry !== null) retryMs = message.retry;
+                    if (message.id) lastEventId = message.id;
+
+                    if (message.event === "reset") {
+                        handlers.onReset();
+                    } else if (message.event === "message" && message.data) {
+                        handlers.onEvent(JSON.parse(message.data) as StoreEvent);
+                    }
+                });
+            } catch (error) {
+                if (signal.aborted) return;
+                if (
+                    error instanceof ApiError &&
+                    (error.status === 403 || error.tokenStatus === "invalid")
+                ) {
+                    console.warn("[storeEvents] Stopped listening:", error.message);
+                    return;
+                }
+                failures++;
+            }
+
+            await delay(Math.min(retryMs * 2 ** failures, MAX_RETRY_MS), signal);
+        }
+    },
+};
@@ -1,9 +1,36 @@
+import type { StoreEventEntity } from "@basket-bot/core";
 import { Preferences } from "@capacitor/preferences";
 
+/**
+ * The entity a queued update edits and the version of it the change was made against.
+ * Sent as If-Match on replay, so an update doesn't silently overwrite someone else's newer edit.
+ */
+export interface MutationBase {
+    entity: StoreEventEntity;
+    entityId: string;
+    expectedUpdatedAt: string;
+}
+
+/**
+ * A replay the server rejected because the entity changed since the base version.
+ * Stays in the queue (and is skipped by processQueue) until the user resolves it.
+ */
+export interface MutationConflict {
+    entity: StoreEventEntity;
+    /**
+     * The server's current copy of the entity
+     */
+    current: Record<string, unknown> & { updatedAt: string };
+    detectedAt: number;
+}
+
 /**
  * Queued mutation data structure
  */
 export interface QueuedMutation {
+    /**
+     * Also the Idempotency-Key of every attempt, so a replay is never applied twice
+     */
     id: string;
     timestamp: number;
     operation: string;
@@ -12,6 +39,8 @@ export interface QueuedMutation {
     data?: unknown;
     retryCount: number;
     lastError?: string;
+    base?: MutationBase;
+    conflict?: MutationConflict;
 }
 
 /**
@@ -20,6 +49,15 @@ export interface QueuedMutation {
 const QUEUE_STORAGE_KEY = "mutation_queue";
 const MAX_RETRY_COUNT = 3;
 
+/**
+ * Create a queued mutation id. Generate it before the first attempt and send it as that
+ * attempt's idempotency key, so a request that reached the server before failing isn't
+ * applied again when the queue replays it.
+ */
+export function createMutationId(): string {
+    return crypto.randomUUID();
+}
+
 /**
  * MutationQueue service
  * Persists failed mutations to Capacitor Preferences and retries them
@@ -68,11 +106,11 @@ export class MutationQueue {
      * Add a mutation to the queue
      */
     async enqueue(
-        mutation: Omit<QueuedMutation, "id" | "timestamp" | "retryCount">
+        mutation: Omit<QueuedMutation, "id" | "timestamp" | "retryCount"> & { id?: string }
     ): Promise<void> {
         const queuedMutation: QueuedMutation = {
             ...mutation,
-            id: `${Date.now()}-${Math.random().toString(36).substring(7)}`,
+            id: mutation.id ?? createMutationId(),
             timestamp: Date.now(),
             retryCount: 0,
         };
@@ -112,6 +150,36 @@ export class MutationQueue {
         await this.dequeue(mutationId);
     }
 
+    /**
+     * Resolve a conflict by applying the mutation on top of the server's current copy,
+     * optionally with different data (keep mine, or a field-by-field merge).
+     * Keeping theirs is removeMutation.
+     */
+    async resolveConflict(mutationId: string, data?: unknown): Promise<void> {
+        const mutation = this.queue.find((m) => m.id === mutationId);
+        if (!mutation?.conflict || !mutation.base) {
+            return;
+        }
+
+        mutation.base = {
+            ...mutation.base,
+            expectedUpdatedAt: mutation.conflict.current.updatedAt,
+        };
+        mutation.data = data ?? mutation.data;
+        mutation.conflict = undefined;
+        mutation.retryCount = 0;
+        mutation.lastError = undefined;
+        await this.saveQueue();
+        this.notifyListeners();
+    }
+
+    /**
+     * Get the number of mutations waiting for conflict resolution
+     */
+    getConflictCount(): number {
+        return this.queue.filter((m) => m.conflict).length;
+    }
+
     /**
      * Clear the entire queue (accept server state - discard conflicting mutations)
      */
@@ -122,30 +190,39 @@ export class MutationQueue {
     }
 
     /**
-     * Process the queue by replaying mutations
-     * Returns the number of successful operations
+     * Process the queue by replaying mutations. Mutations waiting for conflict resolution
+     * are skipped. The executor returns the new updatedAt of the entity it updated, if any.
+     * Returns the number of successful, failed, and newly conflicting operations
      */
     async processQueue(
-        executor: (mutation: QueuedMutation) => Promise<void>
-    ): Promise<{ success: number; failed: number }> {
+        executor: (mutation: QueuedMutation) => Promise<string | void>
+    ): Promise<{ success: number; failed: number; conflicts: number }> {
         if (this.isProcessing) {
             console.warn("[MutationQueue] Already processing queue");
-            return { success: 0, failed: 0 };
+            return { success: 0, failed: 0, conflicts: 0 };
         }
 
         this.isProcessing = true;
         let successCount = 0;
         let failedCount = 0;
+        let conflictCount = 0;
 
         try {
             // Process mutations in order (FIFO)
             const mutationsToProcess = [...this.queue];
 
             for (const mutation of mutationsToProcess) {
+                if (mutation.conflict) {
+                    continue;
+                }
+
                 try {
-                    await executor(mutation);
+                    const updatedAt = await executor(mutation);
                     // Success - remove from queue
                     await this.dequeue(mutation.id);
+                    if (updatedAt) {
+                        await this.advanceBase(mutation, updatedAt);
+                    }
                     successCount++;
                 } catch (error: unknown) {
                     console.error(
@@ -153,6 +230,15 @@ export class MutationQueue {
                         error
                     );
 
+                    const conflict = this.getConflict(error);
+                    if (conflict) {
+                        // Keep it for the user to resolve
+                        mutation.conflict = conflict;
+                        await this.saveQueue();
+                        conflictCount++;
+                        continue;
+                    }
+
                     const errorMessage = error instanceof Error ? error.message : "Unknown error";
 
                     // Check if this is a permanent failure (4xx error except timeout/rate limit)
@@ -190,13 +276,62 @@ export class MutationQueue {
             this.notifyListeners();
         }
 
-        return { success: successCount, failed: failedCount };
+        return { success: successCount, failed: failedCount, conflicts: conflictCount };
+    }
+
+    /**
+     * Later queued changes to the same entity were made on top of an applied one,
+     * so they now expect the version it produced rather than the one it was made against
+     */
+    private async advanceBase(applied: QueuedMutation, updatedAt: string): Promise<void> {
+        const { base } = applied;
+        if (!base) {
+            return;
+        }
+
+        const followers = this.queue.filter(
+            (m) =>
+                m.base?.entityId === base.entityId &&
+                m.base.expectedUpdatedAt === base.expectedUpdatedAt
+        );
+        followers.forEach((m) => {
+            m.base = { ...base, expectedUpdatedAt: updatedAt };
+        });
+        if (followers.length > 0) {
+            await this.saveQueue();
+        }
+    }
+
+    /**
+     * The server's copy from a VERSION_CONFLICT error, if that's what the error is
+     */
+    private getConflict(error: unknown): MutationConflict | null {
+        if (!error || typeof error !== "object" || !("code" in error) || !("details" in error)) {
+            return null;
+        }
+        const { code, details } = error as { code?: string; details?: unknown };
+        if (code !== "VERSION_CONFLICT" || !details || typeof details !== "object") {
+            return null;
+        }
+
+        const { entity, current } = details as Partial<MutationConflict>;
+        if (!entity || !current) {
+            return null;
+        }
+        return { entity, current, detectedAt: Date.now() };
     }
 
     /**
      * Check if an error represents a permanent failure (should not retry)
      */
     private isPermanentFailure(error: unknown): boolean {
+        // The first attempt is still running on the server; try again later
+        if (error && typeof error === "object" && "code" in error) {
+            if ((error as { code?: string }).code === "IDEMPOTENCY_KEY_IN_USE") {
+                return false;
+            }
+        }
+
         // ApiError with 4xx status (except 408 timeout, 429 rate limit)
         if (error && typeof error === "object" && "status" in error) {
             const status = (error as { status?: number }).status;
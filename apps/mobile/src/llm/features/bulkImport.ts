@@ -7,6 +7,8 @@ export interface ParsedShoppingItem {
     quantity: number | null;
     unit: string | null;
     notes: string | null;
+    /** Unit already resolved to a QuantityUnit id (rule-based parser); LLM items only have unit text */
+    unitId?: string | null;
 }
 
 export interface BulkImportResponse {
@@ -16,9 +18,7 @@ export interface BulkImportResponse {
 /**
  * Validates the LLM response for bulk import
  */
-export function validateBulkImportResult(
-    data: unknown
-): data is BulkImportResponse {
+export function validateBulkImportResult(data: unknown): data is BulkImportResponse {
     if (typeof data !== "object" || data === null) {
         return false;
     }
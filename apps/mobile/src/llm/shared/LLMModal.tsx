@@ -151,11 +151,6 @@ export const LLMModal: React.FC = () => {
     const handleRunLLM = async () => {
         if (!config) return;
 
-        if (!apiKeyValue) {
-            showError("OpenAI API key not configured. Please add it in Settings.");
-            return;
-        }
-
         // Validate at least one input type is provided
         const trimmedText = userText.trim();
         if (attachments.length === 0 && !trimmedText) {
@@ -163,6 +158,23 @@ export const LLMModal: React.FC = () => {
             return;
         }
 
+        // Text alone goes to the caller's own parser when it has one
+        if (attachments.length === 0 && config.parseText) {
+            try {
+                const parsed = await config.parseText(trimmedText);
+                setResponse(parsed);
+                setInteractionState(config.initialState ? config.initialState(parsed) : undefined);
+            } catch (error) {
+                showError(error instanceof Error ? error.message : "Failed to read the text");
+            }
+            return;
+        }
+
+        if (!apiKeyValue) {
+            showError("OpenAI API key not configured. Please add it in Settings.");
+            return;
+        }
+
         const shieldId = `llm-modal-${config.title || "default"}`;
         raiseShield(shieldId, config.shieldMessage || "Processing with AI...");
         setResponse(null);
@@ -245,7 +257,7 @@ export const LLMModal: React.FC = () => {
                             <IonText color="danger">
                                 <p style={{ margin: 0, fontWeight: 500 }}>
                                     ⚠️ OpenAI API key not configured. Please add it in Settings to
-                                    use this feature.
+                                    {config.parseText ? " read attachments." : " use this feature."}
                                 </p>
                             </IonText>
                         </div>
@@ -385,7 +397,7 @@ export const LLMModal: React.FC = () => {
                             <IonButton
                                 expand="block"
                                 onClick={handleRunLLM}
-                                disabled={!apiKeyValue}
+                                disabled={!apiKeyValue && !config.parseText}
                                 style={{ marginTop: "20px" }}
                             >
                                 {config.buttonText || "Run LLM"}
@@ -98,6 +98,12 @@ export interface LLMModalConfig<T = unknown, S = void> {
     onAccept: (response: LLMResponse<T>, state: S) => void;
     /** Optional callback when user cancels */
     onCancel?: () => void;
+    /**
+     * Optional handler for text-only input, used in place of the LLM call (e.g. a rule-based
+     * parser that consults the LLM only for what it can't read). Attachments still go to the LLM,
+     * and text works without an API key.
+     */
+    parseText?: (text: string) => Promise<LLMResponse<T>>;
     /** Optional validation function for LLM response. Return true if valid, false otherwise. */
     validateResponse?: (response: LLMResponse<T>) => boolean;
     /** Modal title */
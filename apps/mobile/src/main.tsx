@@ -1,7 +1,14 @@
+import { Capacitor } from "@capacitor/core";
+import { defineCustomElements as defineJeepSqlite } from "jeep-sqlite/loader";
 import React from "react";
 import { createRoot } from "react-dom/client";
 import App from "./App";
 
+// SQLite for the offline replica on the web: sql.js in a <jeep-sqlite> element, kept in IndexedDB
+if (Capacitor.getPlatform() === "web") {
+    defineJeepSqlite(window);
+}
+
 const container = document.getElementById("root");
 const root = createRoot(container!);
 root.render(
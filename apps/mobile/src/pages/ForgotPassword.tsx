@@ -0,0 +1,150 @@
+import { useRenderStormDetector } from "@/hooks/useRenderStormDetector";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+    IonButton,
+    IonCard,
+    IonCardContent,
+    IonCardHeader,
+    IonCardTitle,
+    IonContent,
+    IonPage,
+    IonText,
+} from "@ionic/react";
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { usePasswordResetRequestMutation } from "../auth/useAuthMutations";
+import { FormTextInput } from "../components/form/FormTextInput";
+import { ApiError } from "../lib/api/client";
+import "./AuthPages.scss";
+
+const forgotPasswordSchema = z.object({
+    email: z.string().email("Please enter a valid email"),
+});
+
+type ForgotPasswordFormData = z.infer<typeof forgotPasswordSchema>;
+
+const ForgotPassword: React.FC = () => {
+    useRenderStormDetector("ForgotPassword");
+    const requestReset = usePasswordResetRequestMutation();
+    const [error, setError] = useState<string | null>(null);
+    const [sentTo, setSentTo] = useState<string | null>(null);
+
+    const { control, handleSubmit } = useForm<ForgotPasswordFormData>({
+        resolver: zodResolver(forgotPasswordSchema),
+        defaultValues: {
+            email: "",
+        },
+    });
+
+    const isSubmitting = requestReset.isPending;
+
+    const onSubmit = async (data: ForgotPasswordFormData) => {
+        setError(null);
+
+        try {
+            await requestReset.mutateAsync(data);
+            setSentTo(data.email);
+        } catch (err) {
+            // Handle rate limit (429)
+            if (err instanceof ApiError && err.status === 429) {
+                setError("Too many reset requests. Please try again later.");
+            } else {
+                setError("Couldn't send the reset email. Please try again.");
+            }
+            console.error("Password reset request error:", err);
+        }
+    };
+
+    return (
+        <IonPage>
+            <IonContent className="ion-padding auth-page-content">
+                <div className="auth-card-container">
+                    <IonCard className="auth-card">
+                        <IonCardHeader>
+                            <IonCardTitle>Forgot Password</IonCardTitle>
+                        </IonCardHeader>
+                        <IonCardContent>
+                            {sentTo ? (
+                                <>
+                                    <IonText>
+                                        <p>
+                                            If an account uses {sentTo}, we've sent it a reset code.
+                                            Open the link in the email, or enter the code to choose
+                                            a new password.
+                                        </p>
+                                    </IonText>
+
+                                    <IonButton
+                                        expand="block"
+                                        routerLink="/reset-password"
+                                        style={{ marginTop: "1.5rem" }}
+                                    >
+                                        Enter Reset Code
+                                    </IonButton>
+
+                                    <IonButton expand="block" fill="clear" routerLink="/login">
+                                        Back to sign in
+                                    </IonButton>
+                                </>
+                            ) : (
+                                <form onSubmit={handleSubmit(onSubmit)}>
+                                    <IonText color="medium">
+                                        <p>
+                                            Enter your account's email and we'll send you a code to
+                                            choose a new password.
+                                        </p>
+                                    </IonText>
+
+                                    <FormTextInput
+                                        name="email"
+                                        control={control}
+                                        label="Email"
+                                        type="email"
+                                        placeholder="your@email.com"
+                                        disabled={isSubmitting}
+                                    />
+
+                                    {error && (
+                                        <IonText color="danger">
+                                            <p style={{ marginTop: "1rem" }}>{error}</p>
+                                        </IonText>
+                                    )}
+
+                                    <IonButton
+                                        expand="block"
+                                        type="submit"
+                                        disabled={isSubmitting}
+                                        style={{ marginTop: "1.5rem" }}
+                                    >
+                                        {isSubmitting ? "Sending..." : "Send Reset Code"}
+                                    </IonButton>
+
+                                    <IonButton
+                                        expand="block"
+                                        fill="clear"
+                                        routerLink="/reset-password"
+                                        disabled={isSubmitting}
+                                    >
+                                        Already have a code?
+                                    </IonButton>
+
+                                    <IonButton
+                                        expand="block"
+                                        fill="clear"
+                                        routerLink="/login"
+                                        disabled={isSubmitting}
+                                    >
+                                        Back to sign in
+                                    </IonButton>
+                                </form>
+                            )}
+                        </IonCardContent>
+                    </IonCard>
+                </div>
+            </IonContent>
+        </IonPage>
+    );
+};
+
+export default ForgotPassword;
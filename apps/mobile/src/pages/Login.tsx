@@ -1,4 +1,5 @@
 import { useRenderStormDetector } from "@/hooks/useRenderStormDetector";
+import { twoFactorCodeRequestSchema, type TwoFactorCodeRequest } from "@basket-bot/core";
 import { zodResolver } from "@hookform/resolvers/zod";
 import {
     IonButton,
@@ -16,6 +17,7 @@ import { z } from "zod";
 import { useAuth } from "../auth/useAuth";
 import { FormPasswordInput } from "../components/form/FormPasswordInput";
 import { FormTextInput } from "../components/form/FormTextInput";
+import { ApiError } from "../lib/api/client";
 import "./AuthPages.scss";
 
 const loginSchema = z.object({
@@ -27,9 +29,11 @@ type LoginFormData = z.infer<typeof loginSchema>;
 
 const Login: React.FC = () => {
     useRenderStormDetector("Login");
-    const { login } = useAuth();
+    const { login, loginWithTwoFactor } = useAuth();
     const [error, setError] = useState<string | null>(null);
     const [isSubmitting, setIsSubmitting] = useState(false);
+    // Set once the password is accepted for an account with two-factor on
+    const [challengeToken, setChallengeToken] = useState<string | null>(null);
 
     const { control, handleSubmit } = useForm<LoginFormData>({
         resolver: zodResolver(loginSchema),
@@ -39,12 +43,20 @@ const Login: React.FC = () => {
         },
     });
 
+    const codeForm = useForm<TwoFactorCodeRequest>({
+        resolver: zodResolver(twoFactorCodeRequestSchema),
+        defaultValues: { code: "" },
+    });
+
     const onSubmit = async (data: LoginFormData) => {
         setError(null);
         setIsSubmitting(true);
 
         try {
-            await login(data.email, data.password);
+            const challenge = await login(data.email, data.password);
+            if (challenge) {
+                setChallengeToken(challenge.challengeToken);
+            }
             // Navigation will be handled by AuthRoute in App.tsx
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
         } catch (err: any) {
@@ -68,6 +80,36 @@ const Login: React.FC = () => {
         }
     };
 
+    const onSubmitCode = async (data: TwoFactorCodeRequest) => {
+        if (!challengeToken) return;
+        setError(null);
+        setIsSubmitting(true);
+
+        try {
+            await loginWithTwoFactor(challengeToken, data.code);
+        } catch (err) {
+            if (err instanceof ApiError && err.status === 429) {
+                setError("Too many attempts. Please try again later.");
+            } else if (err instanceof ApiError && err.code === "INVALID_TWO_FACTOR_CHALLENGE") {
+                // The challenge expired or too many codes were wrong; start over with the password
+                setChallengeToken(null);
+                setError(err.message);
+            } else {
+                setError("Invalid code");
+            }
+            codeForm.reset();
+            console.error("Two-factor login error:", err);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const cancelTwoFactor = () => {
+        setChallengeToken(null);
+        setError(null);
+        codeForm.reset();
+    };
+
     return (
         <IonPage>
             <IonContent className="ion-padding auth-page-content">
@@ -77,48 +119,100 @@ const Login: React.FC = () => {
                             <IonCardTitle>Sign In</IonCardTitle>
                         </IonCardHeader>
                         <IonCardContent>
-                            <form onSubmit={handleSubmit(onSubmit)}>
-                                <FormTextInput
-                                    name="email"
-                                    control={control}
-                                    label="Email"
-                                    type="email"
-                                    placeholder="your@email.com"
-                                    disabled={isSubmitting}
-                                />
-
-                                <FormPasswordInput
-                                    name="password"
-                                    control={control}
-                                    label="Password"
-                                    placeholder="Enter your password"
-                                    disabled={isSubmitting}
-                                />
-
-                                {error && (
-                                    <IonText color="danger">
-                                        <p style={{ marginTop: "1rem" }}>{error}</p>
+                            {challengeToken ? (
+                                <form onSubmit={codeForm.handleSubmit(onSubmitCode)}>
+                                    <IonText>
+                                        <p>
+                                            Enter the code from your authenticator app, or one of
+                                            your recovery codes.
+                                        </p>
                                     </IonText>
-                                )}
-
-                                <IonButton
-                                    expand="block"
-                                    type="submit"
-                                    disabled={isSubmitting}
-                                    style={{ marginTop: "1.5rem" }}
-                                >
-                                    {isSubmitting ? "Signing in..." : "Sign In"}
-                                </IonButton>
-
-                                <IonButton
-                                    expand="block"
-                                    fill="clear"
-                                    routerLink="/register"
-                                    disabled={isSubmitting}
-                                >
-                                    Don't have an account? Sign up
-                                </IonButton>
-                            </form>
+
+                                    <FormTextInput
+                                        name="code"
+                                        control={codeForm.control}
+                                        label="Authentication Code"
+                                        placeholder="123456"
+                                        disabled={isSubmitting}
+                                    />
+
+                                    {error && (
+                                        <IonText color="danger">
+                                            <p style={{ marginTop: "1rem" }}>{error}</p>
+                                        </IonText>
+                                    )}
+
+                                    <IonButton
+                                        expand="block"
+                                        type="submit"
+                                        disabled={isSubmitting}
+                                        style={{ marginTop: "1.5rem" }}
+                                    >
+                                        {isSubmitting ? "Verifying..." : "Verify"}
+                                    </IonButton>
+
+                                    <IonButton
+                                        expand="block"
+                                        fill="clear"
+                                        onClick={cancelTwoFactor}
+                                        disabled={isSubmitting}
+                                    >
+                                        Back to sign in
+                                    </IonButton>
+                                </form>
+                            ) : (
+                                <form onSubmit={handleSubmit(onSubmit)}>
+                                    <FormTextInput
+                                        name="email"
+                                        control={control}
+                                        label="Email"
+                                        type="email"
+                                        placeholder="your@email.com"
+                                        disabled={isSubmitting}
+                                    />
+
+                                    <FormPasswordInput
+                                        name="password"
+                                        control={control}
+                                        label="Password"
+                                        placeholder="Enter your password"
+                                        disabled={isSubmitting}
+                                    />
+
+                                    {error && (
+                                        <IonText color="danger">
+                                            <p style={{ marginTop: "1rem" }}>{error}</p>
+                                        </IonText>
+                                    )}
+
+                                    <IonButton
+                                        expand="block"
+                                        type="submit"
+                                        disabled={isSubmitting}
+                                        style={{ marginTop: "1.5rem" }}
+                                    >
+                                        {isSubmitting ? "Signing in..." : "Sign In"}
+                                    </IonButton>
+
+                                    <IonButton
+                                        expand="block"
+                                        fill="clear"
+                                        routerLink="/forgot-password"
+                                        disabled={isSubmitting}
+                                    >
+                                        Forgot your password?
+                                    </IonButton>
+
+                                    <IonButton
+                                        expand="block"
+                                        fill="clear"
+                                        routerLink="/register"
+                                        disabled={isSubmitting}
+                                    >
+                                        Don't have an account? Sign up
+                                    </IonButton>
+                                </form>
+                            )}
                         </IonCardContent>
                     </IonCard>
                 </div>
@@ -0,0 +1,139 @@
+import { IonButton, IonContent, IonIcon, IonPage, IonText } from "@ionic/react";
+import { cartOutline, chevronBack, chevronForward } from "ionicons/icons";
+import { Suspense, useMemo, useState } from "react";
+import { AppHeader } from "../components/layout/AppHeader";
+import { GlobalActionConfig } from "../components/layout/AppHeaderContext";
+import { GlobalActions } from "../components/layout/GlobalActions";
+import LoadingFallback from "../components/LoadingFallback";
+import { HouseholdSelector } from "../components/meals/HouseholdSelector";
+import { MealPlanShoppingListModal } from "../components/meals/MealPlanShoppingListModal";
+import { MealPlanWeek } from "../components/meals/MealPlanWeek";
+import { MealsProvider } from "../components/meals/MealsProvider";
+import { useMealsContext } from "../components/meals/useMealsContext";
+import PullToRefresh from "../components/shared/PullToRefresh";
+import { useMealPlanEntries } from "../db/hooks";
+import RefreshConfig from "../hooks/refresh/RefreshConfig";
+import { addDaysToPlanDate, formatShortDate, getWeekStartPlanDate } from "../utils/dateUtils";
+
+import "./MealPlan.scss";
+
+const MealPlanWithHousehold: React.FC<{ householdId: string }> = ({ householdId }) => {
+    const { households } = useMealsContext();
+    const [weekStart, setWeekStart] = useState(() => getWeekStartPlanDate(new Date()));
+    const [isGenerateOpen, setIsGenerateOpen] = useState(false);
+    const weekEnd = addDaysToPlanDate(weekStart, 6);
+    const { data: entries } = useMealPlanEntries(householdId, weekStart, weekEnd);
+
+    const customActions = useMemo<GlobalActionConfig[]>(
+        () => [
+            {
+                id: "generate-shopping-list",
+                icon: cartOutline,
+                title: "Generate shopping list",
+                ariaLabel: "Add planned ingredients to a shopping list",
+                onClick: () => setIsGenerateOpen(true),
+            },
+        ],
+        []
+    );
+
+    const isCurrentWeek = weekStart === getWeekStartPlanDate(new Date());
+
+    return (
+        <RefreshConfig queryKeys={[["meal-plan", householdId]]}>
+            <AppHeader
+                title="Meal Plan"
+                showBackButton
+                backButtonHref="/meals"
+                subToolbar={households.length > 1 ? <HouseholdSelector /> : undefined}
+            >
+                <GlobalActions actions={customActions} />
+            </AppHeader>
+            <IonContent fullscreen>
+                <PullToRefresh />
+                <div className="meal-plan-week-nav">
+                    <IonButton
+                        fill="clear"
+                        aria-label="Previous week"
+                        onClick={() => setWeekStart(addDaysToPlanDate(weekStart, -7))}
+                    >
+                        <IonIcon slot="icon-only" icon={chevronBack} />
+                    </IonButton>
+                    <div className="meal-plan-week-range">
+                        <IonText>
+                            {formatShortDate(new Date(weekStart + "T00:00:00"))} –{" "}
+                            {formatShortDate(new Date(weekEnd + "T00:00:00"))}
+                        </IonText>
+                        {!isCurrentWeek && (
+                            <IonButton
+                                fill="clear"
+                                size="small"
+                                onClick={() => setWeekStart(getWeekStartPlanDate(new Date()))}
+                            >
+                                This week
+                            </IonButton>
+                        )}
+                    </div>
+                    <IonButton
+                        fill="clear"
+                        aria-label="Next week"
+                        onClick={() => setWeekStart(addDaysToPlanDate(weekStart, 7))}
+                    >
+                        <IonIcon slot="icon-only" icon={chevronForward} />
+                    </IonButton>
+                </div>
+
+                <MealPlanWeek
+                    householdId={householdId}
+                    weekStart={weekStart}
+                    entries={entries ?? []}
+                />
+
+                <MealPlanShoppingListModal
+                    isOpen={isGenerateOpen}
+                    onClose={() => setIsGenerateOpen(false)}
+                    householdId={householdId}
+                    defaultStartDate={weekStart}
+                    defaultEndDate={weekEnd}
+                />
+            </IonContent>
+        </RefreshConfig>
+    );
+};
+
+const MealPlanContent: React.FC = () => {
+    const { selectedHouseholdId } = useMealsContext();
+
+    if (!selectedHouseholdId) {
+        return (
+            <>
+                <AppHeader title="Meal Plan" showBackButton backButtonHref="/meals" />
+                <IonContent fullscreen>
+                    <div className="meals-empty-state">
+                        <IonText color="medium">
+                            <p>Meal plans belong to a household. Create or join one first.</p>
+                        </IonText>
+                    </div>
+                </IonContent>
+            </>
+        );
+    }
+
+    return <MealPlanWithHousehold key={selectedHouseholdId} householdId={selectedHouseholdId} />;
+};
+
+const MealPlan: React.FC = () => {
+    return (
+        <IonPage>
+            <Suspense fallback={<LoadingFallback />}>
+                <MealsProvider>
+                    <Suspense fallback={<LoadingFallback />}>
+                        <MealPlanContent />
+                    </Suspense>
+                </MealsProvider>
+            </Suspense>
+        </IonPage>
+    );
+};
+
+export default MealPlan;
@@ -0,0 +1,145 @@
+import {
+    IonContent,
+    IonFab,
+    IonFabButton,
+    IonIcon,
+    IonPage,
+    IonText,
+    useIonRouter,
+} from "@ionic/react";
+import { add, calendarOutline, eyeOffOutline, pricetagsOutline } from "ionicons/icons";
+import { Suspense, useMemo } from "react";
+import { AppHeader } from "../components/layout/AppHeader";
+import { GlobalActionConfig } from "../components/layout/AppHeaderContext";
+import { GlobalActions } from "../components/layout/GlobalActions";
+import LoadingFallback from "../components/LoadingFallback";
+import { HouseholdSelector } from "../components/meals/HouseholdSelector";
+import { MealsProvider } from "../components/meals/MealsProvider";
+import { RecipeEditorModal } from "../components/meals/RecipeEditorModal";
+import { RecipeList } from "../components/meals/RecipeList";
+import { RecipeTagManagerModal } from "../components/meals/RecipeTagManagerModal";
+import { useMealsContext } from "../components/meals/useMealsContext";
+import { FabSpacer } from "../components/shared/FabSpacer";
+import PullToRefresh from "../components/shared/PullToRefresh";
+import RefreshConfig from "../hooks/refresh/RefreshConfig";
+
+import "./Meals.scss";
+
+const MealsWithHousehold: React.FC<{ householdId: string }> = ({ householdId }) => {
+    const {
+        households,
+        showHidden,
+        toggleShowHidden,
+        isEditorOpen,
+        openCreateRecipe,
+        closeEditor,
+        openTagManager,
+    } = useMealsContext();
+    const router = useIonRouter();
+
+    const customActions = useMemo<GlobalActionConfig[]>(
+        () => [
+            {
+                id: "open-meal-plan",
+                icon: calendarOutline,
+                title: "Meal plan",
+                ariaLabel: "Open weekly meal plan",
+                onClick: () => router.push("/meals/plan"),
+            },
+            {
+                id: "toggle-hidden-recipes",
+                icon: eyeOffOutline,
+                title: `${showHidden ? "Hide" : "Show"} hidden recipes`,
+                ariaLabel: `${showHidden ? "Hide" : "Show"} hidden recipes`,
+                onClick: toggleShowHidden,
+                color: showHidden ? "primary" : undefined,
+                messageGenerator: () => ({
+                    message: showHidden ? "Hiding hidden recipes." : "Showing hidden recipes.",
+                    type: "info" as const,
+                }),
+            },
+            {
+                id: "manage-recipe-tags",
+                icon: pricetagsOutline,
+                title: "Manage recipe tags",
+                ariaLabel: "Open recipe tag manager",
+                onClick: openTagManager,
+            },
+        ],
+        [openTagManager, router, showHidden, toggleShowHidden]
+    );
+
+    return (
+        <RefreshConfig
+            queryKeys={[
+                ["recipes", householdId],
+                ["recipe-tags", householdId],
+            ]}
+        >
+            <AppHeader
+                title="Meals"
+                subToolbar={households.length > 1 ? <HouseholdSelector /> : undefined}
+            >
+                <GlobalActions actions={customActions} />
+            </AppHeader>
+            <IonContent fullscreen>
+                <PullToRefresh />
+                <RecipeList />
+
+                <FabSpacer />
+
+                <IonFab vertical="bottom" horizontal="end" slot="fixed">
+                    <IonFabButton color="primary" onClick={openCreateRecipe}>
+                        <IonIcon icon={add} />
+                    </IonFabButton>
+                </IonFab>
+
+                <RecipeEditorModal
+                    isOpen={isEditorOpen}
+                    onClose={closeEditor}
+                    householdId={householdId}
+                    recipe={null}
+                />
+                <RecipeTagManagerModal />
+            </IonContent>
+        </RefreshConfig>
+    );
+};
+
+const MealsContent: React.FC = () => {
+    const { selectedHouseholdId } = useMealsContext();
+
+    if (!selectedHouseholdId) {
+        return (
+            <>
+                <AppHeader title="Meals" />
+                <IonContent fullscreen>
+                    <div className="meals-empty-state">
+                        <IonText color="medium">
+                            <p>Recipes belong to a household. Create or join one first.</p>
+                        </IonText>
+                    </div>
+                </IonContent>
+            </>
+        );
+    }
+
+    // Key resets list state when switching households
+    return <MealsWithHousehold key={selectedHouseholdId} householdId={selectedHouseholdId} />;
+};
+
+const Meals: React.FC = () => {
+    return (
+        <IonPage>
+            <Suspense fallback={<LoadingFallback />}>
+                <MealsProvider>
+                    <Suspense fallback={<LoadingFallback />}>
+                        <MealsContent />
+                    </Suspense>
+                </MealsProvider>
+            </Suspense>
+        </IonPage>
+    );
+};
+
+export default Meals;
@@ -0,0 +1,204 @@
+import { scaleIngredients } from "@basket-bot/core";
+import {
+    IonButton,
+    IonContent,
+    IonIcon,
+    IonItem,
+    IonItemDivider,
+    IonLabel,
+    IonList,
+    IonPage,
+    IonText,
+    useIonAlert,
+    useIonRouter,
+} from "@ionic/react";
+import { create, eyeOffOutline, eyeOutline, linkOutline, trash } from "ionicons/icons";
+import { useCallback, useMemo, useState } from "react";
+import ReactMarkdown from "react-markdown";
+import { RouteComponentProps } from "react-router-dom";
+import { AppHeader } from "../components/layout/AppHeader";
+import { PageMenuItemConfig } from "../components/layout/AppHeaderContext";
+import { GlobalActions } from "../components/layout/GlobalActions";
+import { RecipeEditorModal } from "../components/meals/RecipeEditorModal";
+import { RecipeScaleControl } from "../components/meals/RecipeScaleControl";
+import { RecipeTagChip } from "../components/meals/RecipeTagChip";
+import PullToRefresh from "../components/shared/PullToRefresh";
+import { useDeleteRecipe, useQuantityUnits, useRecipe, useSetRecipeHidden } from "../db/hooks";
+import RefreshConfig from "../hooks/refresh/RefreshConfig";
+
+import "./RecipeDetail.scss";
+
+type RecipeDetailProps = RouteComponentProps<{ recipeId: string }>;
+
+const RecipeDetail: React.FC<RecipeDetailProps> = ({ match }) => {
+    const { recipeId } = match.params;
+    const { data: recipe, isLoading } = useRecipe(recipeId);
+    const { data: units } = useQuantityUnits();
+    const deleteRecipe = useDeleteRecipe();
+    const setRecipeHidden = useSetRecipeHidden();
+    const [isEditorOpen, setIsEditorOpen] = useState(false);
+    const [scaleFactor, setScaleFactor] = useState(1);
+    const [presentAlert] = useIonAlert();
+    const router = useIonRouter();
+
+    const unitAbbreviations = useMemo(
+        () => new Map(units?.map((unit) => [unit.id, unit.abbreviation]) ?? []),
+        [units]
+    );
+
+    const scaledIngredients = useMemo(
+        () => (recipe ? scaleIngredients(recipe.ingredients, scaleFactor) : []),
+        [recipe, scaleFactor]
+    );
+
+    const confirmDelete = useCallback(() => {
+        if (!recipe) return;
+        presentAlert({
+            header: "Delete Recipe",
+            message: `Permanently delete "${recipe.name}"?`,
+            buttons: [
+                { text: "Cancel", role: "cancel" },
+                {
+                    text: "Delete",
+                    role: "destructive",
+                    handler: async () => {
+                        await deleteRecipe.mutateAsync(recipe.id);
+                        router.push("/meals", "back");
+                    },
+                },
+            ],
+        });
+    }, [deleteRecipe, presentAlert, recipe, router]);
+
+    const menuItems = useMemo<PageMenuItemConfig[]>(() => {
+        if (!recipe) return [];
+        return [
+            {
+                id: "toggle-recipe-hidden",
+                icon: recipe.isHidden ? eyeOutline : eyeOffOutline,
+                label: recipe.isHidden ? "Unhide recipe" : "Hide recipe",
+                onClick: () =>
+                    setRecipeHidden.mutate({ recipeId: recipe.id, isHidden: !recipe.isHidden }),
+                disabled: setRecipeHidden.isPending,
+            },
+            {
+                id: "delete-recipe",
+                icon: trash,
+                label: "Delete recipe",
+                onClick: confirmDelete,
+                color: "danger",
+                disabled: deleteRecipe.isPending,
+            },
+        ];
+    }, [confirmDelete, deleteRecipe.isPending, recipe, setRecipeHidden]);
+
+    return (
+        <IonPage>
+            <RefreshConfig queryKeys={[["recipes", "detail", recipeId]]}>
+                <AppHeader
+                    title={recipe?.name ?? "Recipe"}
+                    showBackButton
+                    backButtonHref="/meals"
+                    menuItems={menuItems}
+                >
+                    {recipe && (
+                        <IonButton onClick={() => setIsEditorOpen(true)} aria-label="Edit recipe">
+                            <IonIcon slot="icon-only" icon={create} />
+                        </IonButton>
+                    )}
+                    <GlobalActions />
+                </AppHeader>
+                <IonContent fullscreen>
+                    <PullToRefresh />
+                    {!recipe && !isLoading && (
+                        <div className="recipe-detail-empty">
+                            <IonText color="medium">
+                                <p>This recipe no longer exists. Perhaps it was eaten.</p>
+                            </IonText>
+                        </div>
+                    )}
+                    {recipe && (
+                        <>
+                            {recipe.tags.length > 0 && (
+                                <div className="recipe-detail-tags">
+                                    {recipe.tags.map((tag) => (
+                                        <RecipeTagChip key={tag.id} tag={tag} />
+                                    ))}
+                                </div>
+                            )}
+                            {recipe.description && (
+                                <IonText color="medium">
+                                    <p className="recipe-detail-description">
+                                        {recipe.description}
+                                    </p>
+                                </IonText>
+                            )}
+                            {recipe.sourceUrl && (
+                                <IonItem
+                                    href={recipe.sourceUrl}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    lines="none"
+                                >
+                                    <IonIcon slot="start" icon={linkOutline} />
+                                    <IonLabel>{recipe.sourceUrl}</IonLabel>
+                                </IonItem>
+                            )}
+
+                            <IonList>
+                                <IonItemDivider>
+                                    <IonLabel>Ingredients</IonLabel>
+                                </IonItemDivider>
+                                {recipe.ingredients.length > 0 && (
+                                    <RecipeScaleControl
+                                        recipeServings={recipe.servings}
+                                        factor={scaleFactor}
+                                        onChange={setScaleFactor}
+                                    />
+                                )}
+                                {recipe.ingredients.length === 0 && (
+                                    <IonItem lines="none">
+                                        <IonLabel color="medium">No ingredients</IonLabel>
+                                    </IonItem>
+                                )}
+                                {scaledIngredients.map((ingredient) => (
+                                    <IonItem key={ingredient.id}>
+                                        <IonLabel>
+                                            <h3>
+                                                {ingredient.qty !== null && `${ingredient.qty} `}
+                                                {ingredient.unitId &&
+                                                    `${unitAbbreviations.get(ingredient.unitId) ?? ingredient.unitId} `}
+                                                {ingredient.name}
+                                            </h3>
+                                            {ingredient.notes && <p>{ingredient.notes}</p>}
+                                        </IonLabel>
+                                    </IonItem>
+                                ))}
+                            </IonList>
+
+                            {recipe.steps && (
+                                <>
+                                    <IonItemDivider>
+                                        <IonLabel>Steps</IonLabel>
+                                    </IonItemDivider>
+                                    <div className="recipe-detail-steps">
+                                        <ReactMarkdown>{recipe.steps}</ReactMarkdown>
+                                    </div>
+                                </>
+                            )}
+
+                            <RecipeEditorModal
+                                isOpen={isEditorOpen}
+                                onClose={() => setIsEditorOpen(false)}
+                                householdId={recipe.householdId}
+                                recipe={recipe}
+                            />
+                        </>
+                    )}
+                </IonContent>
+            </RefreshConfig>
+        </IonPage>
+    );
+};
+
+export default RecipeDetail;
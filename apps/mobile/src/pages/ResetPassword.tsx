@@ -0,0 +1,161 @@
+import { useRenderStormDetector } from "@/hooks/useRenderStormDetector";
+import {
+    MIN_PASSWORD_LENGTH,
+    passwordResetConfirmSchema,
+    type PasswordResetConfirm,
+} from "@basket-bot/core";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+    IonButton,
+    IonCard,
+    IonCardContent,
+    IonCardHeader,
+    IonCardTitle,
+    IonContent,
+    IonPage,
+    IonText,
+} from "@ionic/react";
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { useLocation } from "react-router-dom";
+import { usePasswordResetConfirmMutation } from "../auth/useAuthMutations";
+import { FormPasswordInput } from "../components/form/FormPasswordInput";
+import { FormTextInput } from "../components/form/FormTextInput";
+import { ApiError } from "../lib/api/client";
+import "./AuthPages.scss";
+
+const ResetPassword: React.FC = () => {
+    useRenderStormDetector("ResetPassword");
+    const location = useLocation();
+    const confirmReset = usePasswordResetConfirmMutation();
+    const [error, setError] = useState<string | null>(null);
+    const [isComplete, setIsComplete] = useState(false);
+
+    // The link in the reset email carries the code
+    const { control, handleSubmit } = useForm<PasswordResetConfirm>({
+        resolver: zodResolver(passwordResetConfirmSchema),
+        defaultValues: {
+            token: new URLSearchParams(location.search).get("token") ?? "",
+            newPassword: "",
+            confirmPassword: "",
+        },
+    });
+
+    const isSubmitting = confirmReset.isPending;
+
+    const onSubmit = async (data: PasswordResetConfirm) => {
+        setError(null);
+
+        try {
+            await confirmReset.mutateAsync(data);
+            setIsComplete(true);
+        } catch (err) {
+            if (err instanceof ApiError && err.status === 429) {
+                setError("Too many attempts. Please try again later.");
+            } else if (err instanceof ApiError && err.code === "RESET_TOKEN_EXPIRED") {
+                setError("This reset code has expired. Request a new one.");
+            } else if (err instanceof ApiError && err.code === "INVALID_RESET_TOKEN") {
+                setError("This reset code is invalid or was already used.");
+            } else {
+                setError("Password reset failed. Please try again.");
+            }
+            console.error("Password reset error:", err);
+        }
+    };
+
+    return (
+        <IonPage>
+            <IonContent className="ion-padding auth-page-content">
+                <div className="auth-card-container">
+                    <IonCard className="auth-card">
+                        <IonCardHeader>
+                            <IonCardTitle>Reset Password</IonCardTitle>
+                        </IonCardHeader>
+                        <IonCardContent>
+                            {isComplete ? (
+                                <>
+                                    <IonText>
+                                        <p>
+                                            Your password has been changed. Every device that was
+                                            signed in has been signed out.
+                                        </p>
+                                    </IonText>
+
+                                    <IonButton
+                                        expand="block"
+                                        routerLink="/login"
+                                        style={{ marginTop: "1.5rem" }}
+                                    >
+                                        Sign In
+                                    </IonButton>
+                                </>
+                            ) : (
+                                <form onSubmit={handleSubmit(onSubmit)}>
+                                    <FormTextInput
+                                        name="token"
+                                        control={control}
+                                        label="Reset Code"
+                                        placeholder="Code from the reset email"
+                                        disabled={isSubmitting}
+                                    />
+
+                                    <FormPasswordInput
+                                        name="newPassword"
+                                        control={control}
+                                        label="New Password"
+                                        placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+                                        helperText={`Must be at least ${MIN_PASSWORD_LENGTH} characters`}
+                                        disabled={isSubmitting}
+                                    />
+
+                                    <FormPasswordInput
+                                        name="confirmPassword"
+                                        control={control}
+                                        label="Confirm New Password"
+                                        placeholder="Re-enter new password"
+                                        disabled={isSubmitting}
+                                    />
+
+                                    {error && (
+                                        <IonText color="danger">
+                                            <p style={{ marginTop: "1rem" }}>{error}</p>
+                                        </IonText>
+                                    )}
+
+                                    <IonButton
+                                        expand="block"
+                                        type="submit"
+                                        disabled={isSubmitting}
+                                        style={{ marginTop: "1.5rem" }}
+                                    >
+                                        {isSubmitting ? "Resetting..." : "Reset Password"}
+                                    </IonButton>
+
+                                    <IonButton
+                                        expand="block"
+                                        fill="clear"
+                                        routerLink="/forgot-password"
+                                        disabled={isSubmitting}
+                                    >
+                                        Need a new code?
+                                    </IonButton>
+
+                                    <IonButton
+                                        expand="block"
+                                        fill="clear"
+                                        routerLink="/login"
+                                        disabled={isSubmitting}
+                                    >
+                                        Back to sign in
+                                    </IonButton>
+                                </form>
+                            )}
+                        </IonCardContent>
+                    </IonCard>
+                </div>
+            </IonContent>
+        </IonPage>
+    );
+};
+
+export default ResetPassword;
@@ -9,7 +9,7 @@ import {
     IonText,
     useIonAlert,
 } from "@ionic/react";
-import { add, listOutline } from "ionicons/icons";
+import { add, clipboardOutline, documentsOutline, listOutline, walkOutline } from "ionicons/icons";
 import { Suspense, useCallback, useMemo, useState } from "react";
 import { ANIMATION_EFFECTS } from "../animations/effects";
 import { AppHeader } from "../components/layout/AppHeader";
@@ -22,14 +22,22 @@ import PullToRefresh from "../components/shared/PullToRefresh";
 import { useBulkImportModal } from "../components/shoppinglist/BulkImportModal";
 import { CheckedItems } from "../components/shoppinglist/CheckedItems";
 import { ItemEditorModal } from "../components/shoppinglist/ItemEditorModal";
+import { ListTemplatesModal } from "../components/shoppinglist/ListTemplatesModal";
 import { ShoppingListProvider } from "../components/shoppinglist/ShoppingListProvider";
 import { StoreSelector } from "../components/shoppinglist/StoreSelector";
 import { UncheckedItems } from "../components/shoppinglist/UncheckedItems";
 import { useShoppingListContext } from "../components/shoppinglist/useShoppingListContext";
-import { useClearCheckedItems, useShoppingListItems, useStores } from "../db/hooks";
+import {
+    useClearCheckedItems,
+    useShoppingListItems,
+    useStoreEvents,
+    useStoreMap,
+    useStores,
+} from "../db/hooks";
 import RefreshConfig from "../hooks/refresh/RefreshConfig";
 import { useMidnightUpdate } from "../hooks/useMidnightUpdate";
 import { useOverlayAnimation } from "../hooks/useOverlayAnimation";
+import { useShoppingListGrouping } from "../hooks/useShoppingListGrouping";
 import { useShowSnoozedItems } from "../hooks/useShowSnoozedItems";
 import { LLMFabButton } from "../llm/shared";
 import { isCurrentlySnoozed } from "../utils/dateUtils";
@@ -39,12 +47,17 @@ import "./ShoppingList.scss";
 const ShoppingListWithItems: React.FC<{ storeId: string }> = ({ storeId }) => {
     const { openCreateModal } = useShoppingListContext();
     const { showSnoozed, toggleShowSnoozed } = useShowSnoozedItems();
+    const { grouping, toggleGrouping } = useShoppingListGrouping();
+    const { data: storeMap } = useStoreMap(storeId);
+    const routeMap = grouping === "route" ? storeMap : null;
     const { data: items } = useShoppingListItems(storeId);
+    useStoreEvents(storeId);
     const { data: stores } = useStores();
     const multipleStores = stores && stores.length > 1;
     const clearChecked = useClearCheckedItems();
     const [presentAlert] = useIonAlert();
     const [isStoreItemsModalOpen, setIsStoreItemsModalOpen] = useState(false);
+    const [isTemplatesOpen, setIsTemplatesOpen] = useState(false);
     const [wasJustCleared, setWasJustCleared] = useState(false);
 
     // Laser obliteration animation
@@ -138,6 +151,27 @@ const ShoppingListWithItems: React.FC<{ storeId: string }> = ({ storeId }) => {
             });
         }
 
+        // Route order toggle (only for stores with a map)
+        if (storeMap) {
+            const isRouteOrder = grouping === "route";
+            actions.push({
+                id: "toggle-route-order",
+                icon: walkOutline,
+                title: isRouteOrder ? "Group by aisle" : "Order as a walking route",
+                ariaLabel: isRouteOrder ? "Group by aisle" : "Order as a walking route",
+                onClick: toggleGrouping,
+                color: isRouteOrder ? "primary" : undefined,
+                messageGenerator: () => {
+                    return {
+                        message: isRouteOrder
+                            ? "Grouping by aisle."
+                            : "Ordering items as a walking route.",
+                        type: "info" as const,
+                    };
+                },
+            });
+        }
+
         // Store Items quick-add
         actions.push({
             id: "quick-add-store-items",
@@ -147,8 +181,34 @@ const ShoppingListWithItems: React.FC<{ storeId: string }> = ({ storeId }) => {
             onClick: () => setIsStoreItemsModalOpen(true),
         });
 
+        // Paste a list as text (parsed locally; no API key needed)
+        actions.push({
+            id: "paste-shopping-list",
+            icon: clipboardOutline,
+            title: "Paste a shopping list",
+            ariaLabel: "Open shopping list import modal",
+            onClick: openBulkImport,
+        });
+
+        // Household list templates (apply, or save this list as one)
+        actions.push({
+            id: "list-templates",
+            icon: documentsOutline,
+            title: "List templates",
+            ariaLabel: "Open list templates modal",
+            onClick: () => setIsTemplatesOpen(true),
+        });
+
         return actions;
-    }, [currentlySnoozedItemCount, showSnoozed, toggleShowSnoozed]);
+    }, [
+        currentlySnoozedItemCount,
+        grouping,
+        openBulkImport,
+        showSnoozed,
+        storeMap,
+        toggleGrouping,
+        toggleShowSnoozed,
+    ]);
 
     return (
         <RefreshConfig queryKeys={[["shopping-list-items", storeId]]}>
@@ -186,7 +246,7 @@ const ShoppingListWithItems: React.FC<{ storeId: string }> = ({ storeId }) => {
 
                 {activeItems.length > 0 && (
                     <>
-                        <UncheckedItems items={uncheckedItems} />
+                        <UncheckedItems items={uncheckedItems} routeMap={routeMap} />
                         {!hasTriggeredClear && (
                             <CheckedItems
                                 items={checkedItems}
@@ -217,6 +277,12 @@ const ShoppingListWithItems: React.FC<{ storeId: string }> = ({ storeId }) => {
 
                 <ItemEditorModal storeId={storeId} />
 
+                <ListTemplatesModal
+                    isOpen={isTemplatesOpen}
+                    onClose={() => setIsTemplatesOpen(false)}
+                    storeId={storeId}
+                />
+
                 {/* Favorites Quick Add Modal */}
                 <StoreItemsManagementModal
                     isOpen={isStoreItemsModalOpen}
@@ -84,3 +84,36 @@ export const isCurrentlySnoozed = (snoozedUntil: string | null): boolean => {
     // Item is snoozed if snooze date is AFTER today (becomes visible ON the snooze date)
     return snoozeDate > todayDate;
 };
+
+/**
+ * Formats a Date as a local calendar date (YYYY-MM-DD), the format meal plans are keyed by.
+ *
+ * @param date - The date to format (local timezone)
+ * @returns Calendar date string (e.g., "2026-03-02")
+ */
+export const toPlanDate = (date: Date): string => {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+};
+
+/**
+ * Adds days to a calendar date string without timezone drift.
+ *
+ * @example
+ * addDaysToPlanDate("2026-02-28", 1) // "2026-03-01"
+ */
+export const addDaysToPlanDate = (planDate: string, days: number): string => {
+    const dateObj = new Date(planDate + "T00:00:00");
+    dateObj.setDate(dateObj.getDate() + days);
+    return toPlanDate(dateObj);
+};
+
+/**
+ * Returns the Monday of the week containing the given date, as a calendar date string.
+ *
+ * @example
+ * getWeekStartPlanDate(new Date("2026-03-05T12:00:00")) // "2026-03-02" (Thursday → Monday)
+ */
+export const getWeekStartPlanDate = (date: Date): string => {
+    const daysSinceMonday = (date.getDay() + 6) % 7;
+    return addDaysToPlanDate(toPlanDate(date), -daysSinceMonday);
+};
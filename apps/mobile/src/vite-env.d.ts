@@ -1,9 +1,9 @@
 /// <reference types="vite/client" />
 /// <reference types="vite-plugin-svgr/client" />
 
-// eslint-disable-next-line @typescript-eslint/no-empty-object-type
 interface ImportMetaEnv {
     //readonly VITE_SHOW_DATABASE_RESET?: string;
+    readonly VITE_DATABASE_TYPE?: "local" | "remote";
     // Add other env variables here as needed
 }
 
@@ -1,10 +1,36 @@
 import react from "@vitejs/plugin-react";
+import fs from "fs";
 import path from "path";
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import svgr from "vite-plugin-svgr";
 
+/**
+ * sql.js's wasm at /assets/sql-wasm.wasm, where the jeep-sqlite element (the offline replica's
+ * SQLite on the web) loads it from
+ */
+function sqlWasm(): Plugin {
+    const source = path.resolve(__dirname, "node_modules/sql.js/dist/sql-wasm.wasm");
+
+    return {
+        name: "sql-wasm",
+        configureServer(server) {
+            server.middlewares.use("/assets/sql-wasm.wasm", (_req, res) => {
+                res.setHeader("Content-Type", "application/wasm");
+                res.end(fs.readFileSync(source));
+            });
+        },
+        generateBundle() {
+            this.emitFile({
+                type: "asset",
+                fileName: "assets/sql-wasm.wasm",
+                source: fs.readFileSync(source),
+            });
+        },
+    };
+}
+
 export default defineConfig({
-    plugins: [react(), svgr()],
+    plugins: [react(), svgr(), sqlWasm()],
     resolve: {
         alias: {
             "@": path.resolve(__dirname, "./src"),
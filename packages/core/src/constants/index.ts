@@ -1,7 +1,15 @@
 // Auth constants
 export const DEFAULT_ACCESS_TOKEN_TTL_SECONDS = 15 * 60; // 15 minutes
 export const DEFAULT_REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60; // 30 days
+export const REFRESH_TOKEN_REUSE_GRACE_SECONDS = 30; // A just-rotated refresh token is answered with its replacement (lost responses, parallel tabs)
 export const MIN_PASSWORD_LENGTH = 6;
+export const PASSWORD_RESET_TOKEN_TTL_SECONDS = 60 * 60; // 1 hour
+export const TWO_FACTOR_CHALLENGE_TTL_SECONDS = 5 * 60; // Time to enter the code after the password
+export const TOTP_PERIOD_SECONDS = 30;
+export const TOTP_DIGITS = 6;
+export const TOTP_ALLOWED_DRIFT_STEPS = 1; // Codes of the previous/next period are accepted (clock drift)
+export const RECOVERY_CODE_COUNT = 10;
+export const MAX_TWO_FACTOR_LOGIN_ATTEMPTS = 5; // Bad codes at the second login step before the password is needed again
 
 // Text field length limits
 export * from "./textLimits";
@@ -9,6 +17,84 @@ export * from "./textLimits";
 // Scopes
 export const ADMIN_SCOPE = "admin";
 
+// Personal API tokens (scripts, home automation); a ":write" scope includes ":read"
+export const API_TOKEN_PREFIX = "bbt_"; // Tells API tokens apart from JWTs in the Authorization header
+export const API_TOKEN_SCOPES = [
+    "shopping-list:read",
+    "shopping-list:write",
+    "stores:read",
+    "stores:write",
+    "recipes:read",
+    "recipes:write",
+    "meal-plans:read",
+    "meal-plans:write",
+    "list-templates:read",
+    "list-templates:write",
+] as const;
+export const MAX_API_TOKENS_PER_USER = 25;
+export const MAX_API_TOKEN_LIFETIME_DAYS = 5 * 365;
+export const MAX_API_TOKEN_STORES = 50; // Stores a token can be limited to
+
+// App settings
+export const REQUIRE_ADMIN_TWO_FACTOR_SETTING = "REQUIRE_ADMIN_TWO_FACTOR"; // "true": admin APIs need a two-factor sign-in
+
+// Recipes
+export const MAX_RECIPE_SERVINGS = 100;
+export const MAX_RECIPE_SCALE_FACTOR = 100; // Upper bound for "make N batches" scaling
+
+// Meal planning
+export const MEAL_SLOTS = ["breakfast", "lunch", "dinner"] as const;
+export const MAX_MEAL_PLAN_SERVINGS = 100;
+export const MAX_MEAL_PLAN_RANGE_DAYS = 62; // Longest date range for listing or generating a shopping list
+
+// Purchase history
+export const MAX_PURCHASE_HISTORY_PAGE_SIZE = 200;
+
+// Learned walking order (aisle/section order inferred from check-off order)
+export const MIN_LEARNED_ORDER_TRIPS = 3; // Trips needed before an order is suggested
+
+// Recurring items
+export const RECURRENCE_MODES = ["fixed", "learned"] as const;
+export const MAX_RECURRENCE_INTERVAL_DAYS = 365;
+
+// Shopping list templates
+export const MAX_LIST_TEMPLATE_ITEMS = 200;
+
+// Store maps
+export const MAX_STORE_MAP_GRID_SIZE = 200; // Grid cells along each side
+export const MAX_STORE_MAP_CONNECTIONS = 1000;
+export const STORE_MAP_AISLE_ENDS = ["start", "end"] as const;
+
+// Store layout export/import (portable JSON)
+export const STORE_LAYOUT_FORMAT = "basket-bot/store-layout";
+export const STORE_LAYOUT_FORMAT_VERSION = 1; // Bump on changes older servers can't read
+export const MAX_STORE_LAYOUT_AISLES = 200;
+export const MAX_STORE_LAYOUT_SECTIONS_PER_AISLE = 100;
+export const MAX_STORE_LAYOUT_ITEMS = 5000;
+export const STORE_NAME_CONFLICT_MODES = ["rename", "error"] as const;
+
+// Real-time store events
+export const STORE_EVENT_ENTITIES = [
+    "shopping-list-item",
+    "store-item",
+    "aisle",
+    "section",
+] as const;
+export const STORE_EVENT_ACTIONS = [
+    "added",
+    "updated",
+    "checked",
+    "removed",
+    "reordered",
+    "cleared",
+] as const;
+
+// Idempotent retries
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+export const IDEMPOTENCY_KEY_TTL_SECONDS = 24 * 60 * 60; // 24 hours
+export const IDEMPOTENCY_CLAIM_TIMEOUT_SECONDS = 2 * 60; // A request still running after this is presumed lost; a retry takes its key over
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
 // Quantity Units
 export const QUANTITY_UNITS = [
     { id: "unit", name: "Unit", abbreviation: "unit", sortOrder: 1, category: "count" },
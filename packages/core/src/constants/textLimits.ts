@@ -25,6 +25,7 @@ export const MAX_RECIPE_INGREDIENT_NOTES_LENGTH = 500; // Recipe ingredient note
 
 // System field limits
 export const MAX_TOKEN_LENGTH = 255; // Refresh tokens, invitation tokens
+export const MAX_USER_AGENT_LENGTH = 500; // User-Agent headers recorded with refresh tokens
 export const MAX_PASSWORD_HASH_LENGTH = 255; // Bcrypt hashes (~60 chars, buffer for future algorithms)
 export const MAX_SCOPES_LENGTH = 500; // JSON array of scope strings
 export const MAX_SETTING_KEY_LENGTH = 100; // AppSetting keys
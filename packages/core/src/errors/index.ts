@@ -16,6 +16,45 @@ export class AuthenticationError extends AppError {
     }
 }
 
+/**
+ * A refresh token can't be used. Clients should sign in again; REFRESH_TOKEN_REUSED means a
+ * replaced token was presented again (likely copied), and its whole session was ended.
+ */
+export class RefreshTokenError extends AppError {
+    constructor(
+        code: "INVALID_REFRESH_TOKEN" | "REFRESH_TOKEN_EXPIRED" | "REFRESH_TOKEN_REUSED",
+        message: string
+    ) {
+        super(code, message);
+        this.name = "RefreshTokenError";
+    }
+}
+
+/**
+ * A password reset token can't be used: it is unknown, was already used, was replaced by a newer
+ * one, or expired. Clients should ask for a new reset email.
+ */
+export class PasswordResetTokenError extends AppError {
+    constructor(code: "INVALID_RESET_TOKEN" | "RESET_TOKEN_EXPIRED", message: string) {
+        super(code, message);
+        this.name = "PasswordResetTokenError";
+    }
+}
+
+/**
+ * Two-factor authentication failed or is missing. TWO_FACTOR_REQUIRED means the request needs a
+ * session signed in with a two-factor code (admin APIs, when enforced).
+ */
+export class TwoFactorError extends AppError {
+    constructor(
+        code: "INVALID_TWO_FACTOR_CODE" | "INVALID_TWO_FACTOR_CHALLENGE" | "TWO_FACTOR_REQUIRED",
+        message: string
+    ) {
+        super(code, message);
+        this.name = "TwoFactorError";
+    }
+}
+
 export class AuthorizationError extends AppError {
     constructor(message = "Insufficient permissions") {
         super("AUTHORIZATION_FAILED", message);
@@ -43,3 +82,18 @@ export class ConflictError extends AppError {
         this.name = "ConflictError";
     }
 }
+
+/**
+ * An update's precondition (the updatedAt the client last saw) no longer holds: someone else
+ * changed the entity first. Carries the current copy so the client can resolve the conflict.
+ */
+export class VersionConflictError extends AppError {
+    constructor(
+        public entity: string,
+        public current: unknown,
+        message = "This was changed by someone else since you last saw it"
+    ) {
+        super("VERSION_CONFLICT", message, { entity, current });
+        this.name = "VersionConflictError";
+    }
+}
@@ -1,3 +1,4 @@
 export * from "./schemas/index.js";
 export * from "./errors/index.js";
 export * from "./constants/index.js";
+export * from "./utils/index.js";
@@ -0,0 +1,56 @@
+import { z } from "zod";
+import {
+    API_TOKEN_SCOPES,
+    MAX_API_TOKEN_LIFETIME_DAYS,
+    MAX_API_TOKEN_STORES,
+    MAX_NAME_LENGTH,
+} from "../constants/index.js";
+import { minMaxLengthString } from "./zodHelpers.js";
+
+export const apiTokenScopeSchema = z.enum(API_TOKEN_SCOPES);
+
+export type ApiTokenScope = z.infer<typeof apiTokenScopeSchema>;
+
+// ========== ApiToken ==========
+// A long-lived credential a user creates for scripts; only its hash is stored
+export const apiTokenSchema = z.object({
+    id: z.string().uuid(),
+    name: minMaxLengthString(1, MAX_NAME_LENGTH, "Name"),
+    tokenPrefix: z.string(), // First characters of the token, to tell tokens apart
+    scopes: z.array(apiTokenScopeSchema),
+    storeIds: z.array(z.string().uuid()).nullable(), // null: every store the user can access
+    expiresAt: z.string().datetime().nullable(), // null: never expires
+    lastUsedAt: z.string().datetime().nullable(),
+    createdAt: z.string().datetime(),
+});
+
+export type ApiToken = z.infer<typeof apiTokenSchema>;
+
+// ========== Requests ==========
+export const createApiTokenRequestSchema = z.object({
+    name: minMaxLengthString(1, MAX_NAME_LENGTH, "Name"),
+    scopes: z
+        .array(apiTokenScopeSchema)
+        .min(1, "Choose at least one permission")
+        .max(API_TOKEN_SCOPES.length),
+    // Limits the shopping-list and stores scopes to these stores
+    storeIds: z
+        .array(z.string().uuid())
+        .min(1, "Choose at least one store")
+        .max(
+            MAX_API_TOKEN_STORES,
+            `A token can be limited to at most ${MAX_API_TOKEN_STORES} stores`
+        )
+        .nullable()
+        .default(null),
+    expiresInDays: z.number().int().min(1).max(MAX_API_TOKEN_LIFETIME_DAYS).nullable(),
+});
+
+export type CreateApiTokenRequest = z.infer<typeof createApiTokenRequestSchema>;
+
+export const createApiTokenResponseSchema = z.object({
+    apiToken: apiTokenSchema,
+    token: z.string(), // Shown once; can't be retrieved later
+});
+
+export type CreateApiTokenResponse = z.infer<typeof createApiTokenResponseSchema>;
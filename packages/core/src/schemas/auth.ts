@@ -1,6 +1,6 @@
 import { z } from "zod";
-import { MAX_EMAIL_LENGTH, MAX_TOKEN_LENGTH } from "../constants";
-import { userSchema } from "./user";
+import { MAX_EMAIL_LENGTH, MAX_NAME_LENGTH, MAX_TOKEN_LENGTH } from "../constants";
+import { passwordSchema, userSchema } from "./user";
 
 // Auth schemas
 export const loginRequestSchema = z.object({
@@ -9,6 +9,14 @@ export const loginRequestSchema = z.object({
         .email()
         .max(MAX_EMAIL_LENGTH, { message: `Email must be ${MAX_EMAIL_LENGTH} characters or less` }),
     password: z.string().min(1),
+    // Shown in the list of signed-in devices (e.g. "Pixel 8"); the User-Agent is recorded too
+    deviceName: z
+        .string()
+        .trim()
+        .max(MAX_NAME_LENGTH, {
+            message: `Device name must be ${MAX_NAME_LENGTH} characters or less`,
+        })
+        .optional(),
 });
 
 export type LoginRequest = z.infer<typeof loginRequestSchema>;
@@ -26,6 +34,22 @@ export const loginResponseSchema = z.object({
 
 export type LoginResponse = z.infer<typeof loginResponseSchema>;
 
+// Returned by login instead of tokens when the account has two-factor authentication on
+export const twoFactorChallengeResponseSchema = z.object({
+    twoFactorRequired: z.literal(true),
+    challengeToken: z.string(),
+});
+
+export type TwoFactorChallengeResponse = z.infer<typeof twoFactorChallengeResponseSchema>;
+
+// Second login step: the challenge from the first plus an authenticator or recovery code
+export const twoFactorLoginRequestSchema = z.object({
+    challengeToken: z.string().min(1),
+    code: z.string().trim().min(1, "Code is required").max(50),
+});
+
+export type TwoFactorLoginRequest = z.infer<typeof twoFactorLoginRequestSchema>;
+
 export const refreshTokenRequestSchema = z.object({
     refreshToken: z
         .string()
@@ -41,6 +65,35 @@ export const refreshTokenResponseSchema = z.object({
 
 export type RefreshTokenResponse = z.infer<typeof refreshTokenResponseSchema>;
 
+// Forgot password: a single-use link/code is emailed to the account, if there is one
+export const passwordResetRequestSchema = z.object({
+    email: z
+        .string()
+        .email()
+        .max(MAX_EMAIL_LENGTH, { message: `Email must be ${MAX_EMAIL_LENGTH} characters or less` }),
+});
+
+export type PasswordResetRequest = z.infer<typeof passwordResetRequestSchema>;
+
+export const passwordResetConfirmSchema = z
+    .object({
+        token: z
+            .string()
+            .trim()
+            .min(1, "Reset code is required")
+            .max(MAX_TOKEN_LENGTH, {
+                message: `Token must be ${MAX_TOKEN_LENGTH} characters or less`,
+            }),
+        newPassword: passwordSchema,
+        confirmPassword: z.string(),
+    })
+    .refine((data) => data.newPassword === data.confirmPassword, {
+        message: "Passwords don't match",
+        path: ["confirmPassword"],
+    });
+
+export type PasswordResetConfirm = z.infer<typeof passwordResetConfirmSchema>;
+
 export const jwtPayloadSchema = z.object({
     sub: z.string().uuid(), // user id
     email: z
@@ -49,6 +102,8 @@ export const jwtPayloadSchema = z.object({
         .max(MAX_EMAIL_LENGTH, { message: `Email must be ${MAX_EMAIL_LENGTH} characters or less` })
         .optional(),
     scopes: z.array(z.string()),
+    sid: z.string().optional(), // Device session (refresh token family) the token was issued for
+    mfa: z.boolean().optional(), // The session was signed in with a two-factor code
     iat: z.number(),
     exp: z.number(),
     iss: z.string().optional(),
@@ -56,3 +111,51 @@ export const jwtPayloadSchema = z.object({
 });
 
 export type JwtPayload = z.infer<typeof jwtPayloadSchema>;
+
+// A device session: one sign-in, kept alive by refreshing its tokens
+export const authSessionSchema = z.object({
+    id: z.string().uuid(),
+    deviceName: z.string().nullable(),
+    userAgent: z.string().nullable(),
+    createdAt: z.string(), // Signed in
+    lastUsedAt: z.string().nullable(), // Last token refresh
+    expiresAt: z.string(), // Ends unless used before then
+    isCurrent: z.boolean(), // The session making the request
+});
+
+export type AuthSession = z.infer<typeof authSessionSchema>;
+
+// Two-factor authentication (TOTP, RFC 6238)
+export const twoFactorStatusSchema = z.object({
+    enabled: z.boolean(),
+    recoveryCodesRemaining: z.number().int(),
+    required: z.boolean(), // The account must turn it on to use admin APIs
+});
+
+export type TwoFactorStatus = z.infer<typeof twoFactorStatusSchema>;
+
+export const twoFactorSetupResponseSchema = z.object({
+    secret: z.string(), // Base32, for entering by hand
+    provisioningUri: z.string(), // otpauth:// URI, shown as a QR code or opened by an authenticator app
+});
+
+export type TwoFactorSetupResponse = z.infer<typeof twoFactorSetupResponseSchema>;
+
+// Confirms setup, or proves possession of the authenticator for account changes
+export const twoFactorCodeRequestSchema = z.object({
+    code: z.string().trim().min(1, "Code is required").max(50),
+});
+
+export type TwoFactorCodeRequest = z.infer<typeof twoFactorCodeRequestSchema>;
+
+export const twoFactorDisableRequestSchema = twoFactorCodeRequestSchema.extend({
+    password: z.string().min(1, "Password is required"),
+});
+
+export type TwoFactorDisableRequest = z.infer<typeof twoFactorDisableRequestSchema>;
+
+export const recoveryCodesResponseSchema = z.object({
+    recoveryCodes: z.array(z.string()), // Shown once; each signs in one time
+});
+
+export type RecoveryCodesResponse = z.infer<typeof recoveryCodesResponseSchema>;
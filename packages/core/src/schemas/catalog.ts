@@ -0,0 +1,66 @@
+import { z } from "zod";
+import { MAX_NAME_LENGTH } from "../constants/index.js";
+import { minMaxLengthString } from "./zodHelpers.js";
+
+// ========== Shared Fields ==========
+const auditFields = {
+    createdById: z.string().uuid(),
+    updatedById: z.string().uuid(),
+    createdAt: z.string().datetime(),
+    updatedAt: z.string().datetime(),
+};
+
+// ========== CanonicalItem ==========
+// One product across stores ("oat milk" at Costco and at the corner shop). Catalogs belong to a
+// household, or to a user for stores not shared with one; exactly one of householdId and userId
+// is set. Store items link to the canonical item with the same name in their store's catalog
+// automatically, and can be linked or unlinked by hand.
+export const canonicalItemSchema = z.object({
+    id: z.string().uuid(),
+    householdId: z.string().uuid().nullable(),
+    userId: z.string().uuid().nullable(),
+    name: minMaxLengthString(1, MAX_NAME_LENGTH, "Name"),
+    nameNorm: z.string().min(1).max(MAX_NAME_LENGTH),
+    ...auditFields,
+});
+
+export type CanonicalItem = z.infer<typeof canonicalItemSchema>;
+
+// A store item linked to a canonical item
+export const canonicalItemLinkSchema = z.object({
+    storeItemId: z.string().uuid(),
+    storeId: z.string().uuid(),
+    storeName: z.string().max(MAX_NAME_LENGTH),
+    name: z.string().max(MAX_NAME_LENGTH),
+    usageCount: z.number().int().min(0),
+    lastUsedAt: z.string().datetime().nullable(),
+    isFavorite: z.boolean(),
+    isCanonicalLinkConfirmed: z.boolean(),
+});
+
+export type CanonicalItemLink = z.infer<typeof canonicalItemLinkSchema>;
+
+// Usage and favorites added up across every linked store item
+export const canonicalItemSummarySchema = canonicalItemSchema.extend({
+    storeCount: z.number().int().min(0),
+    usageCount: z.number().int().min(0),
+    lastUsedAt: z.string().datetime().nullable(),
+    isFavorite: z.boolean(), // Favorite at any store
+});
+
+export type CanonicalItemSummary = z.infer<typeof canonicalItemSummarySchema>;
+
+export const canonicalItemWithLinksSchema = canonicalItemSummarySchema.extend({
+    links: z.array(canonicalItemLinkSchema),
+});
+
+export type CanonicalItemWithLinks = z.infer<typeof canonicalItemWithLinksSchema>;
+
+// ========== Linking ==========
+// Link a store item to a canonical item of its store's catalog by hand (also confirms an
+// automatic link), or null to keep it out of the catalog
+export const linkStoreItemRequestSchema = z.object({
+    canonicalItemId: z.string().uuid().nullable(),
+});
+
+export type LinkStoreItemRequest = z.infer<typeof linkStoreItemRequestSchema>;
@@ -4,3 +4,10 @@ export * from "./store.js";
 export * from "./auth.js";
 export * from "./notifications.js";
 export * from "./recipe.js";
+export * from "./mealPlan.js";
+export * from "./listTemplate.js";
+export * from "./storeEvent.js";
+export * from "./storeMap.js";
+export * from "./storeLayout.js";
+export * from "./catalog.js";
+export * from "./apiToken.js";
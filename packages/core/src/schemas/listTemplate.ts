@@ -0,0 +1,110 @@
+import { z } from "zod";
+import { MAX_LIST_TEMPLATE_ITEMS, MAX_NAME_LENGTH, MAX_NOTES_LENGTH } from "../constants/index.js";
+import { maxLengthString, minMaxLengthString } from "./zodHelpers.js";
+
+// ========== Shared Fields ==========
+const auditFields = {
+    createdById: z.string().uuid(),
+    updatedById: z.string().uuid(),
+    createdAt: z.string().datetime(),
+    updatedAt: z.string().datetime(),
+};
+
+// ========== ListTemplate ==========
+// Household-owned, store-agnostic set of items ("weekly staples", "camping")
+export const listTemplateSchema = z.object({
+    id: z.string().uuid(),
+    householdId: z.string().uuid(),
+    name: minMaxLengthString(1, MAX_NAME_LENGTH, "Name"),
+    ...auditFields,
+});
+
+export type ListTemplate = z.infer<typeof listTemplateSchema>;
+
+// ========== ListTemplateItem ==========
+// Items are named, not linked to a store item; they resolve by name when applied to a store
+export const listTemplateItemSchema = z.object({
+    id: z.string().uuid(),
+    templateId: z.string().uuid(),
+    name: minMaxLengthString(1, MAX_NAME_LENGTH, "Item name"),
+    qty: z.number().nullable(),
+    unitId: z.string().nullable(),
+    notes: maxLengthString(MAX_NOTES_LENGTH, "Notes").nullable(),
+    sortOrder: z.number().int().min(0),
+    createdAt: z.string().datetime(),
+});
+
+export type ListTemplateItem = z.infer<typeof listTemplateItemSchema>;
+
+export const listTemplateItemDraftSchema = z.object({
+    name: minMaxLengthString(1, MAX_NAME_LENGTH, "Item name"),
+    qty: z.number().positive().nullable().optional(),
+    unitId: z.string().nullable().optional(),
+    notes: maxLengthString(MAX_NOTES_LENGTH, "Notes").nullable().optional(),
+});
+
+export type ListTemplateItemDraft = z.infer<typeof listTemplateItemDraftSchema>;
+
+// ========== List Template with Items ==========
+export const listTemplateWithItemsSchema = listTemplateSchema.extend({
+    items: z.array(listTemplateItemSchema),
+});
+
+export type ListTemplateWithItems = z.infer<typeof listTemplateWithItemsSchema>;
+
+// Summary for pickers: template plus item count
+export const listTemplateSummarySchema = listTemplateSchema.extend({
+    itemCount: z.number().int().min(0),
+});
+
+export type ListTemplateSummary = z.infer<typeof listTemplateSummarySchema>;
+
+// ========== Requests ==========
+const templateItemsSchema = z
+    .array(listTemplateItemDraftSchema)
+    .max(MAX_LIST_TEMPLATE_ITEMS, `A template can have at most ${MAX_LIST_TEMPLATE_ITEMS} items`);
+
+export const createListTemplateRequestSchema = z.object({
+    name: minMaxLengthString(1, MAX_NAME_LENGTH, "Name"),
+    items: templateItemsSchema.default([]),
+});
+
+export type CreateListTemplateRequest = z.infer<typeof createListTemplateRequestSchema>;
+
+// items, when given, replace the template's items in order
+export const updateListTemplateRequestSchema = z.object({
+    name: minMaxLengthString(1, MAX_NAME_LENGTH, "Name").optional(),
+    items: templateItemsSchema.optional(),
+});
+
+export type UpdateListTemplateRequest = z.infer<typeof updateListTemplateRequestSchema>;
+
+// Snapshot the unchecked items of a store's shopping list
+export const saveListAsTemplateRequestSchema = z.object({
+    storeId: z.string().uuid(),
+    name: minMaxLengthString(1, MAX_NAME_LENGTH, "Name"),
+});
+
+export type SaveListAsTemplateRequest = z.infer<typeof saveListAsTemplateRequestSchema>;
+
+export const applyListTemplateRequestSchema = z.object({
+    storeId: z.string().uuid(),
+});
+
+export type ApplyListTemplateRequest = z.infer<typeof applyListTemplateRequestSchema>;
+
+// added: new list rows; skipped: items already on the list (unchecked), by template item name
+export const applyListTemplateResponseSchema = z.object({
+    itemsAdded: z.number().int().min(0),
+    itemsSkipped: z.number().int().min(0),
+    added: z.array(
+        z.object({
+            name: z.string(),
+            storeItemId: z.string().uuid(),
+            shoppingListItemId: z.string().uuid(),
+        })
+    ),
+    skipped: z.array(z.string()),
+});
+
+export type ApplyListTemplateResponse = z.infer<typeof applyListTemplateResponseSchema>;
@@ -0,0 +1,116 @@
+import { z } from "zod";
+import {
+    MAX_MEAL_PLAN_RANGE_DAYS,
+    MAX_MEAL_PLAN_SERVINGS,
+    MEAL_SLOTS,
+} from "../constants/index.js";
+
+// ========== Shared Fields ==========
+// Calendar date without time (YYYY-MM-DD) - meal plans are per household day, not per instant
+export const planDateSchema = z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+export const mealSlotSchema = z.enum(MEAL_SLOTS);
+
+export type MealSlot = z.infer<typeof mealSlotSchema>;
+
+const servingsSchema = z.number().int().min(1).max(MAX_MEAL_PLAN_SERVINGS);
+
+const auditFields = {
+    createdById: z.string().uuid(),
+    updatedById: z.string().uuid(),
+    createdAt: z.string().datetime(),
+    updatedAt: z.string().datetime(),
+};
+
+// ========== MealPlan ==========
+// One row per household day that has planned meals
+export const mealPlanSchema = z.object({
+    id: z.string().uuid(),
+    householdId: z.string().uuid(),
+    date: planDateSchema,
+    ...auditFields,
+});
+
+export type MealPlan = z.infer<typeof mealPlanSchema>;
+
+// ========== MealPlanEntry ==========
+export const mealPlanEntrySchema = z.object({
+    id: z.string().uuid(),
+    mealPlanId: z.string().uuid(),
+    recipeId: z.string().uuid(),
+    slot: mealSlotSchema,
+    servings: servingsSchema,
+    ...auditFields,
+});
+
+export type MealPlanEntry = z.infer<typeof mealPlanEntrySchema>;
+
+// Entry with its day and recipe name joined (what the calendar renders)
+export const mealPlanEntryWithRecipeSchema = mealPlanEntrySchema.extend({
+    date: planDateSchema,
+    recipeName: z.string(),
+});
+
+export type MealPlanEntryWithRecipe = z.infer<typeof mealPlanEntryWithRecipeSchema>;
+
+export const createMealPlanEntryRequestSchema = z.object({
+    date: planDateSchema,
+    slot: mealSlotSchema,
+    recipeId: z.string().uuid(),
+    // Defaults to the recipe's yield (or 1 when that's unknown), so the entry isn't scaled
+    servings: servingsSchema.optional(),
+});
+
+export type CreateMealPlanEntryRequest = z.infer<typeof createMealPlanEntryRequestSchema>;
+
+// Moving an entry to another day or slot is an update
+export const updateMealPlanEntryRequestSchema = z.object({
+    date: planDateSchema.optional(),
+    slot: mealSlotSchema.optional(),
+    servings: servingsSchema.optional(),
+});
+
+export type UpdateMealPlanEntryRequest = z.infer<typeof updateMealPlanEntryRequestSchema>;
+
+// ========== Date Range Queries ==========
+const dateRangeFields = {
+    startDate: planDateSchema,
+    endDate: planDateSchema,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Inclusive range check shared by calendar listing and shopping list generation
+ */
+const isValidDateRange = (data: { startDate: string; endDate: string }) => {
+    const days = (Date.parse(data.endDate) - Date.parse(data.startDate)) / DAY_MS + 1;
+    return days >= 1 && days <= MAX_MEAL_PLAN_RANGE_DAYS;
+};
+
+const dateRangeError = {
+    message: `End date must be on or after start date and within ${MAX_MEAL_PLAN_RANGE_DAYS} days`,
+    path: ["endDate"],
+};
+
+export const mealPlanDateRangeSchema = z
+    .object(dateRangeFields)
+    .refine(isValidDateRange, dateRangeError);
+
+export type MealPlanDateRange = z.infer<typeof mealPlanDateRangeSchema>;
+
+// ========== Generate Shopping List ==========
+// Every planned recipe in the range contributes its ingredients (once per entry)
+export const generateMealPlanShoppingListRequestSchema = z
+    .object({
+        householdId: z.string().uuid(),
+        storeId: z.string().uuid(),
+        ...dateRangeFields,
+    })
+    .refine(isValidDateRange, dateRangeError);
+
+export type GenerateMealPlanShoppingListRequest = z.infer<
+    typeof generateMealPlanShoppingListRequestSchema
+>;
@@ -4,6 +4,8 @@ import {
     MAX_RECIPE_INGREDIENT_NAME_LENGTH,
     MAX_RECIPE_INGREDIENT_NOTES_LENGTH,
     MAX_RECIPE_NAME_LENGTH,
+    MAX_RECIPE_SCALE_FACTOR,
+    MAX_RECIPE_SERVINGS,
     MAX_RECIPE_SOURCE_URL_LENGTH,
     MAX_RECIPE_STEPS_LENGTH,
     MAX_RECIPE_TAG_COLOR_LENGTH,
@@ -26,6 +28,9 @@ const tagAuditFields = {
     createdAt: z.string().datetime(),
 };
 
+// How many servings a recipe yields (null = unknown)
+const servingsSchema = z.number().int().min(1).max(MAX_RECIPE_SERVINGS);
+
 // ========== Recipe ==========
 export const recipeSchema = z.object({
     id: z.string().uuid(),
@@ -34,6 +39,7 @@ export const recipeSchema = z.object({
     description: maxLengthString(MAX_RECIPE_DESCRIPTION_LENGTH, "Description").nullable(),
     steps: maxLengthString(MAX_RECIPE_STEPS_LENGTH, "Steps").nullable(),
     sourceUrl: maxLengthString(MAX_RECIPE_SOURCE_URL_LENGTH, "Source URL").nullable(),
+    servings: servingsSchema.nullable(),
     isHidden: z.boolean(),
     ...auditFields,
 });
@@ -47,6 +53,7 @@ export const createRecipeRequestSchema = z.object({
         .optional(),
     steps: maxLengthString(MAX_RECIPE_STEPS_LENGTH, "Steps").nullable().optional(),
     sourceUrl: maxLengthString(MAX_RECIPE_SOURCE_URL_LENGTH, "Source URL").nullable().optional(),
+    servings: servingsSchema.nullable().optional(),
 });
 
 export type CreateRecipeRequest = z.infer<typeof createRecipeRequestSchema>;
@@ -134,6 +141,23 @@ export const reorderRecipeIngredientsRequestSchema = z.object({
 
 export type ReorderRecipeIngredientsRequest = z.infer<typeof reorderRecipeIngredientsRequestSchema>;
 
+// ========== Recipe Editor Form ==========
+// Recipe fields plus tag selection and ordered ingredient rows (id absent for new rows)
+export const recipeIngredientDraftSchema = addRecipeIngredientRequestSchema
+    .omit({ sortOrder: true })
+    .extend({
+        id: z.string().uuid().optional(),
+    });
+
+export type RecipeIngredientDraft = z.infer<typeof recipeIngredientDraftSchema>;
+
+export const recipeFormSchema = createRecipeRequestSchema.extend({
+    tagIds: z.array(z.string().uuid()),
+    ingredients: z.array(recipeIngredientDraftSchema),
+});
+
+export type RecipeFormData = z.infer<typeof recipeFormSchema>;
+
 // ========== Recipe with Details ==========
 // Recipe with joined tags and ingredients
 export const recipeWithDetailsSchema = recipeSchema.extend({
@@ -147,13 +171,37 @@ export type RecipeWithDetails = z.infer<typeof recipeWithDetailsSchema>;
 export const addRecipesToShoppingListRequestSchema = z.object({
     recipeIds: z.array(z.string().uuid()).min(1, "At least one recipe must be selected"),
     storeId: z.string().uuid(),
+    // Optional per-recipe multiplier keyed by recipe id (e.g. 2 = double batch); missing = 1
+    scaleFactors: z
+        .record(z.string().uuid(), z.number().positive().max(MAX_RECIPE_SCALE_FACTOR))
+        .optional(),
 });
 
 export type AddRecipesToShoppingListRequest = z.infer<typeof addRecipesToShoppingListRequestSchema>;
 
+// One aggregated ingredient (duplicates across recipes are merged) and the list row it landed on
+export const addRecipesToShoppingListResultItemSchema = z.object({
+    name: z.string(),
+    qty: z.number().nullable(),
+    unitId: z.string().nullable(),
+    recipeIds: z.array(z.string().uuid()),
+    storeItemId: z.string().uuid(),
+    shoppingListItemId: z.string().uuid(),
+});
+
+export type AddRecipesToShoppingListResultItem = z.infer<
+    typeof addRecipesToShoppingListResultItemSchema
+>;
+
+// created: new list rows for existing store items
+// merged: quantities combined into an unchecked list row for the same store item (units converted)
+// unmatched: no store item existed - one was created without a location (candidates for categorization)
 export const addRecipesToShoppingListResponseSchema = z.object({
     itemsCreated: z.number().int().min(0),
-    itemsSkipped: z.number().int().min(0),
+    itemsMerged: z.number().int().min(0),
+    created: z.array(addRecipesToShoppingListResultItemSchema),
+    merged: z.array(addRecipesToShoppingListResultItemSchema),
+    unmatched: z.array(addRecipesToShoppingListResultItemSchema),
 });
 
 export type AddRecipesToShoppingListResponse = z.infer<
@@ -2,11 +2,14 @@ import { z } from "zod";
 import {
     MAX_NAME_LENGTH,
     MAX_NOTES_LENGTH,
+    MAX_PURCHASE_HISTORY_PAGE_SIZE,
+    MAX_RECURRENCE_INTERVAL_DAYS,
     MAX_SETTING_KEY_LENGTH,
     MAX_SETTING_VALUE_LENGTH,
     MAX_UNIT_ABBREVIATION_LENGTH,
     MAX_UNIT_CATEGORY_LENGTH,
     MAX_UNIT_NAME_LENGTH,
+    RECURRENCE_MODES,
 } from "../constants/index.js";
 import { maxLengthString, minMaxLengthString } from "./zodHelpers.js";
 
@@ -183,6 +186,8 @@ export const storeItemSchema = z.object({
     lastUsedAt: z.string().datetime().nullable(),
     isHidden: z.boolean(),
     isFavorite: z.boolean(),
+    canonicalItemId: z.string().uuid().nullable(), // Same product across stores (see catalog.ts)
+    isCanonicalLinkConfirmed: z.boolean(), // Linked or unlinked by hand; false when linked by name
     ...auditFields,
 });
 
@@ -259,6 +264,120 @@ export const shoppingListItemWithDetailsSchema = shoppingListItemSchema.extend({
 
 export type ShoppingListItemWithDetails = z.infer<typeof shoppingListItemWithDetailsSchema>;
 
+// ========== Purchase History ==========
+// One row per shopping list item checked off (kept after the list is cleared)
+export const purchaseEventSchema = z.object({
+    id: z.string().uuid(),
+    storeId: z.string().uuid(),
+    storeItemId: z.string().uuid(),
+    shoppingListItemId: z.string().uuid().nullable(), // Null once the list row is cleared
+    qty: z.number().nullable(),
+    unitId: z.string().nullable(),
+    checkedBy: z.string().uuid().nullable(),
+    checkedAt: z.string().datetime(),
+    createdAt: z.string().datetime(),
+});
+
+export type PurchaseEvent = z.infer<typeof purchaseEventSchema>;
+
+export const purchaseEventWithDetailsSchema = purchaseEventSchema.extend({
+    itemName: z.string().max(MAX_NAME_LENGTH),
+    unitAbbreviation: z.string().max(MAX_UNIT_ABBREVIATION_LENGTH).nullable(),
+    checkedByName: z.string().max(MAX_NAME_LENGTH).nullable(),
+});
+
+export type PurchaseEventWithDetails = z.infer<typeof purchaseEventWithDetailsSchema>;
+
+// Newest first; pass the last checkedAt as "before" to page back in time
+export const purchaseHistoryQuerySchema = z.object({
+    limit: z.coerce.number().int().min(1).max(MAX_PURCHASE_HISTORY_PAGE_SIZE).default(50),
+    before: z.string().datetime().optional(),
+});
+
+export type PurchaseHistoryQuery = z.infer<typeof purchaseHistoryQuerySchema>;
+
+// ========== Learned Walking Order ==========
+// Aisle and section order learned from the order items were checked off on recent trips.
+// Both lists cover the whole store in suggested order and can be sent as reorder updates as-is;
+// they stay empty until MIN_LEARNED_ORDER_TRIPS trips have been seen.
+export const suggestedStoreOrderSchema = z.object({
+    tripCount: z.number().int().min(0), // Trips the order was learned from
+    aisles: reorderItemsSchema.shape.updates,
+    sections: reorderItemsSchema.shape.updates,
+});
+
+export type SuggestedStoreOrder = z.infer<typeof suggestedStoreOrderSchema>;
+
+// ========== Item Recurrence ==========
+// "fixed" re-adds the item every intervalDays; "learned" uses the average gap between purchases
+export const recurrenceModeSchema = z.enum(RECURRENCE_MODES);
+export type RecurrenceMode = z.infer<typeof recurrenceModeSchema>;
+
+export const storeItemRecurrenceSchema = z.object({
+    storeItemId: z.string().uuid(),
+    storeId: z.string().uuid(),
+    mode: recurrenceModeSchema,
+    intervalDays: z.number().int().min(1).max(MAX_RECURRENCE_INTERVAL_DAYS).nullable(), // Required for "fixed"
+    lastSuggestedAt: z.string().datetime().nullable(), // Last time the job re-added the item
+    ...auditFields,
+});
+
+export type StoreItemRecurrence = z.infer<typeof storeItemRecurrenceSchema>;
+
+export const storeItemRecurrenceWithStatusSchema = storeItemRecurrenceSchema.extend({
+    effectiveIntervalDays: z.number().nullable(), // Null while "learned" has too few purchases
+    lastPurchasedAt: z.string().datetime().nullable(),
+    nextDueAt: z.string().datetime().nullable(),
+});
+
+export type StoreItemRecurrenceWithStatus = z.infer<typeof storeItemRecurrenceWithStatusSchema>;
+
+export const setStoreItemRecurrenceRequestSchema = z
+    .object({
+        mode: recurrenceModeSchema,
+        intervalDays: z
+            .number()
+            .int()
+            .min(1, { message: "Interval must be at least 1 day" })
+            .max(MAX_RECURRENCE_INTERVAL_DAYS, {
+                message: `Interval must be ${MAX_RECURRENCE_INTERVAL_DAYS} days or less`,
+            })
+            .nullable()
+            .optional(),
+    })
+    .refine((data) => data.mode !== "fixed" || data.intervalDays != null, {
+        message: "Interval is required for a fixed recurrence.",
+        path: ["intervalDays"],
+    });
+
+export type SetStoreItemRecurrenceRequest = z.infer<typeof setStoreItemRecurrenceRequestSchema>;
+
+// ========== Delta Sync ==========
+// The cursor is an opaque change-log position; 0 (or omitted) asks for a full snapshot
+export const storeChangesQuerySchema = z.object({
+    since: z.coerce.number().int().min(0).default(0),
+});
+
+export type StoreChangesQuery = z.infer<typeof storeChangesQuerySchema>;
+
+function entityChangesSchema<T extends z.ZodTypeAny>(rowSchema: T) {
+    return z.object({
+        changed: z.array(rowSchema), // Current rows, added or modified since the cursor
+        deleted: z.array(z.string()), // Ids removed since the cursor
+    });
+}
+
+export const storeChangesResponseSchema = z.object({
+    cursor: z.number().int(), // Pass as "since" on the next request
+    isFullSync: z.boolean(), // "changed" holds every row; replace cached data instead of merging
+    shoppingListItems: entityChangesSchema(shoppingListItemWithDetailsSchema),
+    items: entityChangesSchema(storeItemWithDetailsSchema),
+    aisles: entityChangesSchema(storeAisleSchema),
+    sections: entityChangesSchema(storeSectionSchema),
+});
+
+export type StoreChangesResponse = z.infer<typeof storeChangesResponseSchema>;
+
 // ========== Client-Side Input Schemas ==========
 // These schemas are used by the mobile app for local database operations
 // Server-controlled fields (createdById, updatedById, createdAt, updatedAt) are excluded
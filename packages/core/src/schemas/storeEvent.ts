@@ -0,0 +1,29 @@
+import { z } from "zod";
+import { STORE_EVENT_ACTIONS, STORE_EVENT_ENTITIES } from "../constants/index.js";
+
+/**
+ * Real-time store change events, streamed over Server-Sent Events.
+ * Shopping list events carry the row with details (null when removed); other entities carry
+ * their row so clients can decide what to refetch. Bulk changes (reorder, clear) carry no data.
+ */
+
+export const storeEventEntitySchema = z.enum(STORE_EVENT_ENTITIES);
+
+export type StoreEventEntity = z.infer<typeof storeEventEntitySchema>;
+
+export const storeEventActionSchema = z.enum(STORE_EVENT_ACTIONS);
+
+export type StoreEventAction = z.infer<typeof storeEventActionSchema>;
+
+export const storeEventSchema = z.object({
+    id: z.string(), // "<server boot>-<sequence>", sent as the SSE id for Last-Event-ID resume
+    storeId: z.string().uuid(),
+    entity: storeEventEntitySchema,
+    action: storeEventActionSchema,
+    entityId: z.string().nullable(),
+    data: z.unknown().nullable(),
+    actorId: z.string().uuid(),
+    createdAt: z.string().datetime(),
+});
+
+export type StoreEvent = z.infer<typeof storeEventSchema>;
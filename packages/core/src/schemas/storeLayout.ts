@@ -0,0 +1,108 @@
+import { z } from "zod";
+import {
+    MAX_NAME_LENGTH,
+    MAX_STORE_LAYOUT_AISLES,
+    MAX_STORE_LAYOUT_ITEMS,
+    MAX_STORE_LAYOUT_SECTIONS_PER_AISLE,
+    STORE_LAYOUT_FORMAT,
+    STORE_LAYOUT_FORMAT_VERSION,
+    STORE_NAME_CONFLICT_MODES,
+} from "../constants/index.js";
+import { minMaxLengthString } from "./zodHelpers.js";
+
+// ========== Portable Store Layout ==========
+// A store's layout as JSON that another Basket Bot server can read: no ids, users, or
+// timestamps of the exporting server. Aisles and their sections are listed in walking order
+// (array order is sortOrder); items point at them by position in those lists.
+export const storeLayoutSectionSchema = z.object({
+    name: minMaxLengthString(1, MAX_NAME_LENGTH, "Section name"),
+});
+
+export type StoreLayoutSection = z.infer<typeof storeLayoutSectionSchema>;
+
+export const storeLayoutAisleSchema = z.object({
+    name: minMaxLengthString(1, MAX_NAME_LENGTH, "Aisle name"),
+    sections: z.array(storeLayoutSectionSchema).max(MAX_STORE_LAYOUT_SECTIONS_PER_AISLE, {
+        message: `An aisle can have at most ${MAX_STORE_LAYOUT_SECTIONS_PER_AISLE} sections`,
+    }),
+});
+
+export type StoreLayoutAisle = z.infer<typeof storeLayoutAisleSchema>;
+
+export const storeLayoutItemSchema = z.object({
+    name: minMaxLengthString(1, MAX_NAME_LENGTH, "Item name"),
+    aisle: z.number().int().min(0).nullable(), // Index into aisles; null when the item isn't placed
+    section: z.number().int().min(0).nullable(), // Index into that aisle's sections
+    isFavorite: z.boolean().default(false),
+});
+
+export type StoreLayoutItem = z.infer<typeof storeLayoutItemSchema>;
+
+export const storeLayoutSchema = z
+    .object({
+        format: z.literal(STORE_LAYOUT_FORMAT, {
+            errorMap: () => ({ message: "Not a Basket Bot store layout" }),
+        }),
+        version: z.literal(STORE_LAYOUT_FORMAT_VERSION, {
+            errorMap: () => ({
+                message: `Unsupported store layout version (this server reads version ${STORE_LAYOUT_FORMAT_VERSION})`,
+            }),
+        }),
+        exportedAt: z.string().datetime(),
+        store: z.object({
+            name: minMaxLengthString(1, MAX_NAME_LENGTH, "Store name"),
+        }),
+        aisles: z.array(storeLayoutAisleSchema).max(MAX_STORE_LAYOUT_AISLES, {
+            message: `A store layout can have at most ${MAX_STORE_LAYOUT_AISLES} aisles`,
+        }),
+        items: z
+            .array(storeLayoutItemSchema)
+            .max(MAX_STORE_LAYOUT_ITEMS, {
+                message: `A store layout can have at most ${MAX_STORE_LAYOUT_ITEMS} items`,
+            })
+            .optional(), // Left out when exporting the layout only
+    })
+    .superRefine((layout, ctx) => {
+        layout.items?.forEach((item, index) => {
+            const aisle = item.aisle === null ? undefined : layout.aisles[item.aisle];
+            if (item.aisle !== null && !aisle) {
+                ctx.addIssue({
+                    code: z.ZodIssueCode.custom,
+                    message: "Item refers to an aisle that isn't in the layout",
+                    path: ["items", index, "aisle"],
+                });
+            }
+            if (item.section !== null && !aisle?.sections[item.section]) {
+                ctx.addIssue({
+                    code: z.ZodIssueCode.custom,
+                    message: "Item refers to a section that isn't in its aisle",
+                    path: ["items", index, "section"],
+                });
+            }
+        });
+    });
+
+export type StoreLayout = z.infer<typeof storeLayoutSchema>;
+
+// ========== Export / Import ==========
+export const exportStoreLayoutQuerySchema = z.object({
+    includeItems: z
+        .enum(["true", "false"])
+        .optional()
+        .transform((value) => value !== "false"),
+});
+
+export type ExportStoreLayoutQuery = z.infer<typeof exportStoreLayoutQuerySchema>;
+
+// "rename" imports as "Name (2)" when the user already has a store with that name
+export const storeNameConflictModeSchema = z.enum(STORE_NAME_CONFLICT_MODES);
+export type StoreNameConflictMode = z.infer<typeof storeNameConflictModeSchema>;
+
+export const importStoreLayoutRequestSchema = z.object({
+    layout: storeLayoutSchema,
+    name: minMaxLengthString(1, MAX_NAME_LENGTH, "Store name").optional(), // Defaults to the layout's store name
+    includeItems: z.boolean().optional().default(true),
+    onNameConflict: storeNameConflictModeSchema.optional().default("rename"),
+});
+
+export type ImportStoreLayoutRequest = z.infer<typeof importStoreLayoutRequestSchema>;
@@ -0,0 +1,116 @@
+import { z } from "zod";
+import {
+    MAX_STORE_MAP_CONNECTIONS,
+    MAX_STORE_MAP_GRID_SIZE,
+    STORE_MAP_AISLE_ENDS,
+} from "../constants/index.js";
+
+// ========== Grid ==========
+// A cell on the store floor grid; (0, 0) is the top-left corner
+const gridCoordinate = z
+    .number()
+    .int()
+    .min(0)
+    .max(MAX_STORE_MAP_GRID_SIZE - 1, {
+        message: `Coordinates must be less than ${MAX_STORE_MAP_GRID_SIZE}`,
+    });
+
+export const gridPointSchema = z.object({
+    x: gridCoordinate,
+    y: gridCoordinate,
+});
+
+export type GridPoint = z.infer<typeof gridPointSchema>;
+
+// ========== Map Aisles ==========
+// An aisle placed as a straight walk from start to end; walking it that way passes its
+// sections in sortOrder. The two sides of a double-sided aisle are placed on the same
+// segment (either direction) and are picked in one pass.
+export const storeMapAisleSchema = z.object({
+    aisleId: z.string().uuid(),
+    start: gridPointSchema,
+    end: gridPointSchema,
+});
+
+export type StoreMapAisle = z.infer<typeof storeMapAisleSchema>;
+
+// ========== Walkable Graph ==========
+export const storeMapAisleEndSchema = z.enum(STORE_MAP_AISLE_ENDS);
+export type StoreMapAisleEnd = z.infer<typeof storeMapAisleEndSchema>;
+
+// A point shoppers walk between: the entrance, the checkout, or one end of a placed aisle
+export const storeMapNodeSchema = z.discriminatedUnion("type", [
+    z.object({ type: z.literal("entrance") }),
+    z.object({ type: z.literal("checkout") }),
+    z.object({
+        type: z.literal("aisle"),
+        aisleId: z.string().uuid(),
+        end: storeMapAisleEndSchema,
+    }),
+]);
+
+export type StoreMapNode = z.infer<typeof storeMapNodeSchema>;
+
+// A walkable path between two points (both ways); its length is the grid distance
+export const storeMapConnectionSchema = z.object({
+    from: storeMapNodeSchema,
+    to: storeMapNodeSchema,
+});
+
+export type StoreMapConnection = z.infer<typeof storeMapConnectionSchema>;
+
+// ========== Store Map ==========
+// Without connections the floor is open: any point can be walked to from any other
+const storeMapLayoutFields = {
+    entrance: gridPointSchema,
+    checkout: gridPointSchema,
+    aisles: z.array(storeMapAisleSchema),
+    connections: z.array(storeMapConnectionSchema).max(MAX_STORE_MAP_CONNECTIONS, {
+        message: `A store map can have at most ${MAX_STORE_MAP_CONNECTIONS} connections`,
+    }),
+};
+
+export const storeMapSchema = z.object({
+    storeId: z.string().uuid(),
+    ...storeMapLayoutFields,
+    createdById: z.string().uuid(),
+    updatedById: z.string().uuid(),
+    createdAt: z.string().datetime(),
+    updatedAt: z.string().datetime(),
+});
+
+export type StoreMap = z.infer<typeof storeMapSchema>;
+
+// The layout a route is planned on; also the body of a map save
+export type StoreMapLayout = Pick<StoreMap, keyof typeof storeMapLayoutFields>;
+
+export const saveStoreMapRequestSchema = z
+    .object(storeMapLayoutFields)
+    .superRefine((layout, ctx) => {
+        const placed = new Set<string>();
+        layout.aisles.forEach((aisle, index) => {
+            if (placed.has(aisle.aisleId)) {
+                ctx.addIssue({
+                    code: z.ZodIssueCode.custom,
+                    message: "Each aisle can be placed once",
+                    path: ["aisles", index, "aisleId"],
+                });
+            }
+            placed.add(aisle.aisleId);
+        });
+
+        layout.connections.forEach((connection, index) => {
+            (["from", "to"] as const).forEach((side) => {
+                const node = connection[side];
+                if (node.type === "aisle" && !placed.has(node.aisleId)) {
+                    ctx.addIssue({
+                        code: z.ZodIssueCode.custom,
+                        message: "Connections can only join aisles that are on the map",
+                        path: ["connections", index, side],
+                    });
+                }
+            });
+        });
+    });
+
+export type SaveStoreMapRequest = z.infer<typeof saveStoreMapRequestSchema>;
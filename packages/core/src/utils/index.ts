@@ -0,0 +1,5 @@
+export * from "./ingredientParser.js";
+export * from "./quantities.js";
+export * from "./recipeImport.js";
+export * from "./unitConversion.js";
+export * from "./storeRoute.js";
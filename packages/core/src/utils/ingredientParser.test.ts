@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { parseIngredientLine, parseIngredientLines, type UnitLookup } from "./ingredientParser.js";
+
+// A subset of the seeded QuantityUnit rows
+const UNITS: UnitLookup[] = [
+    { id: "gram", name: "Gram", abbreviation: "g" },
+    { id: "ounce", name: "Ounce", abbreviation: "oz" },
+    { id: "pound", name: "Pound", abbreviation: "lb" },
+    { id: "fluid-ounce", name: "Fluid Ounce", abbreviation: "fl oz" },
+    { id: "cup", name: "Cup", abbreviation: "cup" },
+    { id: "tablespoon", name: "Tablespoon", abbreviation: "tbsp" },
+    { id: "teaspoon", name: "Teaspoon", abbreviation: "tsp" },
+    { id: "can", name: "Can", abbreviation: "can" },
+];
+
+describe("parseIngredientLine", () => {
+    it("reads quantity, unit, name and notes", () => {
+        expect(parseIngredientLine("1 ½ cups flour, sifted", UNITS)).toEqual({
+            name: "flour",
+            qty: 1.5,
+            unitId: "cup",
+            notes: "sifted",
+        });
+    });
+
+    it("reads a unit that ends the line and keeps the line as the name", () => {
+        expect(parseIngredientLine("12 oz", UNITS)).toMatchObject({
+            name: "12 oz",
+            qty: 12,
+            unitId: "ounce",
+        });
+        expect(parseIngredientLine("2 cans", UNITS)).toMatchObject({
+            name: "2 cans",
+            qty: 2,
+            unitId: "can",
+        });
+    });
+
+    it("uses the upper bound of a range and keeps the range in the notes", () => {
+        expect(parseIngredientLine("2-3 cloves garlic", UNITS)).toEqual({
+            name: "cloves garlic",
+            qty: 3,
+            unitId: null,
+            notes: "2-3",
+        });
+        expect(parseIngredientLine("2 to 3 tbsp olive oil", UNITS)).toMatchObject({
+            name: "olive oil",
+            qty: 3,
+            unitId: "tablespoon",
+        });
+    });
+
+    it("reads two-word units and case-sensitive shorthand", () => {
+        expect(parseIngredientLine("8 fl oz milk", UNITS)).toMatchObject({
+            name: "milk",
+            qty: 8,
+            unitId: "fluid-ounce",
+        });
+        expect(parseIngredientLine("1 T butter", UNITS).unitId).toBe("tablespoon");
+        expect(parseIngredientLine("1 t salt", UNITS).unitId).toBe("teaspoon");
+    });
+
+    it("moves parenthesized asides to the notes", () => {
+        expect(parseIngredientLine("1 (14 oz) can tomatoes", UNITS)).toEqual({
+            name: "tomatoes",
+            qty: 1,
+            unitId: "can",
+            notes: "14 oz",
+        });
+    });
+
+    it("reads a leading article as one", () => {
+        expect(parseIngredientLine("a can of beans", UNITS)).toMatchObject({
+            name: "beans",
+            qty: 1,
+            unitId: "can",
+        });
+    });
+
+    it("keeps lines without a quantity whole", () => {
+        expect(parseIngredientLine("salt and pepper to taste", UNITS)).toEqual({
+            name: "salt and pepper to taste",
+            qty: null,
+            unitId: null,
+            notes: null,
+        });
+    });
+});
+
+describe("parseIngredientLines", () => {
+    it("splits lines, drops bullets and checkboxes, and flags lines it likely misread", () => {
+        const lines = parseIngredientLines(
+            "- [ ] 2 lb potatoes\n\n• 500 g pasta; milk\nmix 3 of the eggs with 2 cups of sugar\na can",
+            UNITS
+        );
+
+        expect(lines.map((l) => l.line)).toEqual([
+            "2 lb potatoes",
+            "500 g pasta",
+            "milk",
+            "mix 3 of the eggs with 2 cups of sugar",
+            "a can",
+        ]);
+        expect(lines.map((l) => l.isConfident)).toEqual([true, true, true, false, false]);
+    });
+});
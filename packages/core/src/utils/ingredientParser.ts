@@ -0,0 +1,260 @@
+/**
+ * Deterministic parser for free-text ingredient lines ("1 ½ cups flour, sifted").
+ * Unit words are resolved against the QuantityUnit rows passed in, so only units the
+ * backend knows can be returned.
+ */
+
+import {
+    MAX_RECIPE_INGREDIENT_NAME_LENGTH,
+    MAX_RECIPE_INGREDIENT_NOTES_LENGTH,
+} from "../constants/index.js";
+import type { QuantityUnit } from "../schemas/store.js";
+import { roundQuantity } from "./unitConversion.js";
+
+export type UnitLookup = Pick<QuantityUnit, "id" | "name" | "abbreviation">;
+
+export interface ParsedIngredient {
+    name: string;
+    qty: number | null;
+    unitId: string | null;
+    notes: string | null;
+}
+
+/**
+ * Common spellings of the seeded QuantityUnit ids, beyond each unit's own name/abbreviation
+ */
+const UNIT_ALIASES: Record<string, string[]> = {
+    gram: ["g", "gr", "grs", "gram", "grams", "gramme", "grammes"],
+    kilogram: ["kg", "kgs", "kilo", "kilos", "kilogram", "kilograms"],
+    milligram: ["mg", "milligram", "milligrams"],
+    ounce: ["oz", "ounce", "ounces"],
+    pound: ["lb", "lbs", "pound", "pounds"],
+    milliliter: ["ml", "milliliter", "milliliters", "millilitre", "millilitres"],
+    liter: ["l", "liter", "liters", "litre", "litres"],
+    "fluid-ounce": ["fl oz", "fl. oz", "floz", "fluid ounce", "fluid ounces"],
+    gallon: ["gal", "gallon", "gallons"],
+    cup: ["c", "cup", "cups"],
+    tablespoon: ["tbsp", "tbsps", "tbs", "tbl", "tablespoon", "tablespoons"],
+    teaspoon: ["tsp", "tsps", "teaspoon", "teaspoons"],
+    dozen: ["doz", "dozen", "dozens"],
+    package: ["pkg", "pkgs", "package", "packages", "packet", "packets", "pack", "packs"],
+    can: ["can", "cans", "tin", "tins"],
+    box: ["box", "boxes"],
+    bag: ["bag", "bags"],
+    bottle: ["bottle", "bottles"],
+    jar: ["jar", "jars"],
+    bunch: ["bunch", "bunches"],
+};
+
+// Cookbook shorthand where case matters: T = tablespoon, t = teaspoon
+const CASE_SENSITIVE_ALIASES: Record<string, string> = { T: "tablespoon", t: "teaspoon" };
+
+const UNICODE_FRACTIONS: Record<string, string> = {
+    "¼": "1/4",
+    "½": "1/2",
+    "¾": "3/4",
+    "⅓": "1/3",
+    "⅔": "2/3",
+    "⅕": "1/5",
+    "⅙": "1/6",
+    "⅛": "1/8",
+    "⅜": "3/8",
+    "⅝": "5/8",
+    "⅞": "7/8",
+};
+
+const NUMBER_PATTERN = String.raw`\d+\s+\d+/\d+|\d+/\d+|\d+(?:[.,]\d+)?`;
+const QUANTITY_PATTERN = new RegExp(
+    String.raw`^(${NUMBER_PATTERN})(?:\s*(?:-|–|to)\s*(${NUMBER_PATTERN}))?\s*`
+);
+
+/**
+ * Build a lowercase word → unit id lookup for the given units
+ */
+function buildUnitIndex(units: UnitLookup[]): Map<string, string> {
+    const index = new Map<string, string>();
+    const known = new Set(units.map((u) => u.id));
+
+    for (const [unitId, aliases] of Object.entries(UNIT_ALIASES)) {
+        if (!known.has(unitId)) continue;
+        for (const alias of aliases) index.set(alias, unitId);
+    }
+    for (const unit of units) {
+        const name = unit.name.toLowerCase();
+        index.set(unit.abbreviation.toLowerCase(), unit.id);
+        index.set(name, unit.id);
+        index.set(`${name}s`, unit.id);
+    }
+
+    return index;
+}
+
+function parseNumber(text: string): number | null {
+    const mixed = text.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+    if (mixed) {
+        const denominator = Number(mixed[3]);
+        return denominator ? Number(mixed[1]) + Number(mixed[2]) / denominator : null;
+    }
+
+    const fraction = text.match(/^(\d+)\/(\d+)$/);
+    if (fraction) {
+        const denominator = Number(fraction[2]);
+        return denominator ? Number(fraction[1]) / denominator : null;
+    }
+
+    const value = Number(text.replace(",", "."));
+    return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Match a unit at the start of the text (two-word units like "fl oz" first); rest is empty
+ * when the unit ends the text
+ */
+function matchUnit(
+    text: string,
+    index: Map<string, string>,
+    units: UnitLookup[]
+): { unitId: string; rest: string } | null {
+    const words = text.split(/\s+/);
+
+    for (const count of [2, 1]) {
+        if (words.length < count) continue;
+        const candidate = words.slice(0, count).join(" ");
+        const rest = words.slice(count).join(" ");
+
+        const caseSensitive = count === 1 ? CASE_SENSITIVE_ALIASES[candidate] : undefined;
+        if (caseSensitive && units.some((u) => u.id === caseSensitive)) {
+            return { unitId: caseSensitive, rest };
+        }
+
+        const unitId = index.get(candidate.toLowerCase().replace(/\.$/, ""));
+        if (unitId) return { unitId, rest };
+    }
+
+    return null;
+}
+
+const truncate = (text: string, max: number) => (text.length > max ? text.slice(0, max) : text);
+
+/**
+ * Split one ingredient line into quantity, unit, name and notes.
+ *
+ * - Quantities: integers, decimals, fractions, mixed numbers and unicode fractions (1½);
+ *   ranges ("2-3") use the upper bound and keep the range in the notes
+ * - Units: QuantityUnit abbreviations, names and common spellings (tbsp, T, lbs, fl oz),
+ *   also when nothing follows them ("12 oz" keeps the whole line as its name)
+ * - Notes: parenthesized text and anything after the first comma
+ * - A leading "a"/"an"/"one" counts as 1 ("a can of beans")
+ *
+ * Lines without a leading quantity keep the full text as the name.
+ */
+export function parseIngredientLine(line: string, units: UnitLookup[]): ParsedIngredient {
+    let text = line
+        .replace(/[¼½¾⅓⅔⅕⅙⅛⅜⅝⅞]/g, (fraction) => ` ${UNICODE_FRACTIONS[fraction]}`)
+        .replace(/⁄/g, "/")
+        .replace(/^[\s\-*•–]+/, "")
+        .replace(/\s+/g, " ")
+        .trim();
+
+    const notes: string[] = [];
+
+    // Parenthesized asides, e.g. "1 (14 oz) can tomatoes"
+    text = text
+        .replace(/\(([^)]*)\)/g, (_, aside: string) => {
+            if (aside.trim()) notes.push(aside.trim());
+            return " ";
+        })
+        .replace(/\s+/g, " ")
+        .trim();
+
+    let qty: number | null = null;
+    let unitId: string | null = null;
+
+    // "a dozen eggs", "an onion" read as one
+    text = text.replace(/^(?:a|an|one)\s+(?=\S)/i, "1 ");
+
+    const quantityMatch = text.match(QUANTITY_PATTERN);
+    if (quantityMatch) {
+        const low = parseNumber(quantityMatch[1]);
+        const high = quantityMatch[2] ? parseNumber(quantityMatch[2]) : null;
+        qty = high ?? low;
+
+        if (qty !== null && qty > 0) {
+            if (high !== null) notes.unshift(quantityMatch[0].trim());
+            text = text.slice(quantityMatch[0].length);
+
+            const unitMatch = matchUnit(text, buildUnitIndex(units), units);
+            if (unitMatch) {
+                unitId = unitMatch.unitId;
+                // A unit that ends the line leaves nothing to name the ingredient ("12 oz",
+                // "2 cans"), so the raw line names it
+                text = unitMatch.rest || line.trim();
+            }
+            text = text.replace(/^of\s+/i, "");
+        } else {
+            qty = null;
+        }
+    }
+
+    const commaIndex = text.indexOf(",");
+    if (commaIndex >= 0) {
+        const trailing = text.slice(commaIndex + 1).trim();
+        if (trailing) notes.push(trailing);
+        text = text.slice(0, commaIndex);
+    }
+
+    let name = text.trim();
+    if (!name) {
+        // Nothing left to name the ingredient - fall back to the raw line
+        name = line.trim();
+        qty = null;
+        unitId = null;
+        notes.length = 0;
+    }
+
+    return {
+        name: truncate(name, MAX_RECIPE_INGREDIENT_NAME_LENGTH),
+        qty: qty === null ? null : roundQuantity(qty),
+        unitId,
+        notes:
+            notes.length > 0
+                ? truncate(notes.join("; "), MAX_RECIPE_INGREDIENT_NOTES_LENGTH)
+                : null,
+    };
+}
+
+export interface ParsedIngredientLine {
+    /** Source line as pasted (bullets and checkboxes stripped) */
+    line: string;
+    ingredient: ParsedIngredient;
+    /**
+     * False when the rules likely misread the line (stray numbers left in the name,
+     * sentence-length text, only a quantity and unit); callers may hand these lines to a
+     * smarter parser
+     */
+    isConfident: boolean;
+}
+
+const MAX_CONFIDENT_NAME_WORDS = 6;
+
+/**
+ * Parse pasted multi-line text (one ingredient per line or per ";") into ingredients.
+ * Blank lines, list bullets and markdown checkboxes are ignored.
+ */
+export function parseIngredientLines(text: string, units: UnitLookup[]): ParsedIngredientLine[] {
+    return text
+        .split(/[\r\n;]+/)
+        .map((line) =>
+            line.replace(/^\s*(?:[-*•–]|\d+[.)](?=\s))?\s*(?:\[[ xX]?\])?\s*/, "").trim()
+        )
+        .filter(Boolean)
+        .map((line) => {
+            const ingredient = parseIngredientLine(line, units);
+            const isConfident =
+                !/\d/.test(ingredient.name) &&
+                ingredient.name.split(" ").length <= MAX_CONFIDENT_NAME_WORDS &&
+                // A unit that ended the line ("a can") left the raw line as the name
+                !(ingredient.unitId && ingredient.name === line);
+            return { line, ingredient, isConfident };
+        });
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import {
+    getServingsScaleFactor,
+    scaleIngredients,
+    scaleQuantity,
+    toFriendlyUnit,
+} from "./quantities.js";
+
+describe("toFriendlyUnit", () => {
+    it("moves up to the largest readable unit of the same system", () => {
+        expect(toFriendlyUnit({ qty: 48, unitId: "teaspoon" })).toEqual({ qty: 1, unitId: "cup" });
+        expect(toFriendlyUnit({ qty: 6, unitId: "teaspoon" })).toEqual({
+            qty: 2,
+            unitId: "tablespoon",
+        });
+        expect(toFriendlyUnit({ qty: 2500, unitId: "gram" })).toEqual({
+            qty: 2.5,
+            unitId: "kilogram",
+        });
+    });
+
+    it("never switches measurement system", () => {
+        expect(toFriendlyUnit({ qty: 32, unitId: "ounce" })).toEqual({ qty: 2, unitId: "pound" });
+    });
+
+    it("leaves units without a conversion alone", () => {
+        expect(toFriendlyUnit({ qty: 12, unitId: "can" })).toEqual({ qty: 12, unitId: "can" });
+        expect(toFriendlyUnit({ qty: null, unitId: null })).toEqual({ qty: null, unitId: null });
+    });
+});
+
+describe("scaleQuantity", () => {
+    it("scales into friendlier units", () => {
+        expect(scaleQuantity({ qty: 1, unitId: "cup" }, 0.5)).toEqual({
+            qty: 0.5,
+            unitId: "cup",
+        });
+        expect(scaleQuantity({ qty: 4, unitId: "tablespoon" }, 4)).toEqual({
+            qty: 1,
+            unitId: "cup",
+        });
+    });
+
+    it("leaves quantities as entered for a factor of 1 or no qty", () => {
+        expect(scaleQuantity({ qty: 16, unitId: "tablespoon" }, 1)).toEqual({
+            qty: 16,
+            unitId: "tablespoon",
+        });
+        expect(scaleQuantity({ qty: null, unitId: null }, 2)).toEqual({ qty: null, unitId: null });
+    });
+});
+
+describe("scaleIngredients", () => {
+    it("keeps the other fields of each ingredient", () => {
+        expect(scaleIngredients([{ name: "Beans", qty: 1, unitId: "can" }], 3)).toEqual([
+            { name: "Beans", qty: 3, unitId: "can" },
+        ]);
+    });
+});
+
+describe("getServingsScaleFactor", () => {
+    it("scales from the recipe's yield, or not at all without one", () => {
+        expect(getServingsScaleFactor(4, 6)).toBe(1.5);
+        expect(getServingsScaleFactor(null, 6)).toBe(1);
+    });
+});
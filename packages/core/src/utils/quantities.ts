@@ -0,0 +1,91 @@
+/**
+ * Quantity scaling helpers shared by backend and mobile.
+ * Only weight and volume units are rewritten; count/package/other units are left untouched.
+ */
+
+import { roundQuantity, UNIT_CONVERSIONS, type Quantity } from "./unitConversion.js";
+
+/**
+ * Units a scaled quantity may be rewritten into, smallest first, per category and system.
+ * minFraction lets a unit show clean fractions below 1 (½ cup reads better than 8 tbsp).
+ */
+const FRIENDLY_UNITS: Record<string, Array<{ unitId: string; minFraction?: number }>> = {
+    "weight:metric": [{ unitId: "milligram" }, { unitId: "gram" }, { unitId: "kilogram" }],
+    "weight:us": [{ unitId: "ounce" }, { unitId: "pound" }],
+    "volume:metric": [{ unitId: "milliliter" }, { unitId: "liter" }],
+    "volume:us": [
+        { unitId: "teaspoon" },
+        { unitId: "tablespoon" },
+        { unitId: "cup", minFraction: 0.25 },
+        { unitId: "gallon" },
+    ],
+};
+
+const isQuarterMultiple = (value: number) => Math.abs(value * 4 - Math.round(value * 4)) < 0.01;
+
+/**
+ * Rewrite a quantity into the largest readable unit of the same category and measurement
+ * system, e.g. 48 tsp → 1 cup, 6 tsp → 2 tbsp, 2500 g → 2.5 kg.
+ * Quantities without a convertible unit are returned unchanged (rounded).
+ */
+export function toFriendlyUnit(quantity: Quantity): Quantity {
+    const { qty, unitId } = quantity;
+    if (qty == null) return quantity;
+
+    const conversion = unitId ? UNIT_CONVERSIONS[unitId] : undefined;
+    if (!conversion || qty <= 0) {
+        return { qty: roundQuantity(qty), unitId };
+    }
+
+    const ladder = FRIENDLY_UNITS[`${conversion.category}:${conversion.system}`];
+    const baseQty = qty * conversion.toBase;
+
+    let best = { qty: roundQuantity(qty), unitId };
+    for (const candidate of ladder) {
+        const value = baseQty / UNIT_CONVERSIONS[candidate.unitId].toBase;
+        const readable =
+            roundQuantity(value) >= 1 ||
+            (candidate.minFraction !== undefined &&
+                value >= candidate.minFraction &&
+                isQuarterMultiple(value));
+
+        if (readable) {
+            best = { qty: roundQuantity(value), unitId: candidate.unitId };
+        }
+    }
+
+    return best;
+}
+
+/**
+ * Multiply a quantity by a scale factor (2 = double batch, 0.5 = half recipe).
+ * Scaled results are converted to friendlier units; a factor of 1 leaves the quantity as entered.
+ * Quantities without qty ("salt to taste") stay unspecified.
+ */
+export function scaleQuantity(quantity: Quantity, factor: number): Quantity {
+    if (quantity.qty == null || factor === 1) return quantity;
+
+    return toFriendlyUnit({ qty: quantity.qty * factor, unitId: quantity.unitId });
+}
+
+/**
+ * Scale every ingredient of a recipe, preserving all other fields
+ */
+export function scaleIngredients<T extends Quantity>(ingredients: T[], factor: number): T[] {
+    return ingredients.map((ingredient) => ({
+        ...ingredient,
+        ...scaleQuantity(ingredient, factor),
+    }));
+}
+
+/**
+ * Factor that turns a recipe's yield into the desired number of servings.
+ * Recipes without a known yield are not scaled.
+ */
+export function getServingsScaleFactor(
+    recipeServings: number | null | undefined,
+    desiredServings: number
+): number {
+    if (!recipeServings) return 1;
+    return desiredServings / recipeServings;
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { ValidationError } from "../errors/index.js";
+import type { UnitLookup } from "./ingredientParser.js";
+import { parseRecipeImport } from "./recipeImport.js";
+
+const UNITS: UnitLookup[] = [{ id: "cup", name: "Cup", abbreviation: "cup" }];
+
+const page = (recipe: Record<string, unknown>) =>
+    `<html><head><script type="application/ld+json">${JSON.stringify({
+        "@context": "https://schema.org",
+        "@type": "Recipe",
+        ...recipe,
+    })}</script></head></html>`;
+
+describe("parseRecipeImport", () => {
+    it("reads the recipe and its ingredients from page source", () => {
+        expect(
+            parseRecipeImport(
+                page({
+                    name: "Pancakes",
+                    recipeYield: "4 servings",
+                    recipeIngredient: ["2 cups flour"],
+                }),
+                UNITS
+            )
+        ).toMatchObject({
+            recipe: { name: "Pancakes", servings: 4 },
+            ingredients: [{ name: "flour", qty: 2, unitId: "cup" }],
+        });
+    });
+
+    it("decodes entities and keeps numeric ones past the last code point as is", () => {
+        const { recipe } = parseRecipeImport(
+            page({ name: "Mac &amp; Cheese &#x1F9C0; &#99999999;" }),
+            UNITS
+        );
+
+        expect(recipe.name).toBe("Mac & Cheese 🧀 &#99999999;");
+    });
+
+    it("throws ValidationError without a schema.org Recipe", () => {
+        expect(() => parseRecipeImport("<html></html>", UNITS)).toThrow(ValidationError);
+    });
+});
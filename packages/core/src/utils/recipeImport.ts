@@ -0,0 +1,255 @@
+/**
+ * Recipe import from pasted page source: schema.org Recipe JSON-LD, either bare or embedded
+ * in HTML <script type="application/ld+json"> blocks. No network access - the user pastes
+ * the text.
+ */
+
+import {
+    MAX_RECIPE_DESCRIPTION_LENGTH,
+    MAX_RECIPE_NAME_LENGTH,
+    MAX_RECIPE_SERVINGS,
+    MAX_RECIPE_SOURCE_URL_LENGTH,
+    MAX_RECIPE_STEPS_LENGTH,
+} from "../constants/index.js";
+import { ValidationError } from "../errors/index.js";
+import type { CreateRecipeRequest } from "../schemas/recipe.js";
+import { parseIngredientLine, type ParsedIngredient, type UnitLookup } from "./ingredientParser.js";
+
+export interface RecipeImport {
+    recipe: CreateRecipeRequest;
+    ingredients: ParsedIngredient[];
+}
+
+type JsonLdNode = Record<string, unknown>;
+
+const JSON_LD_SCRIPT_PATTERN =
+    /<script[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi;
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: "&",
+    lt: "<",
+    gt: ">",
+    quot: '"',
+    apos: "'",
+    nbsp: " ",
+    frac12: "½",
+    frac14: "¼",
+    frac34: "¾",
+    deg: "°",
+};
+
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z0-9]+);/gi, (entity, code: string) => {
+        if (code[0] === "#") {
+            const value =
+                code[1] === "x" || code[1] === "X"
+                    ? parseInt(code.slice(2), 16)
+                    : parseInt(code.slice(1), 10);
+            // Code points past U+10FFFF don't exist (fromCodePoint throws); keep those as is
+            return value <= 0x10ffff ? String.fromCodePoint(value) : entity;
+        }
+        return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+    });
+}
+
+/**
+ * Plain text from a JSON-LD string value (sites often embed HTML and entities)
+ */
+function toPlainText(value: unknown): string {
+    if (typeof value !== "string") return "";
+    return decodeEntities(value.replace(/<br\s*\/?>/gi, "\n").replace(/<[^>]+>/g, " "))
+        .replace(/[ \t]+/g, " ")
+        .replace(/ *\n */g, "\n")
+        .trim();
+}
+
+const truncate = (text: string, max: number) => (text.length > max ? text.slice(0, max) : text);
+
+const isRecipeNode = (node: JsonLdNode) => {
+    const type = node["@type"];
+    return type === "Recipe" || (Array.isArray(type) && type.includes("Recipe"));
+};
+
+/**
+ * Depth-first search for the first Recipe node (handles arrays and @graph wrappers)
+ */
+function findRecipeNode(value: unknown): JsonLdNode | null {
+    if (Array.isArray(value)) {
+        for (const item of value) {
+            const found = findRecipeNode(item);
+            if (found) return found;
+        }
+        return null;
+    }
+    if (!value || typeof value !== "object") return null;
+
+    const node = value as JsonLdNode;
+    if (isRecipeNode(node)) return node;
+
+    for (const child of Object.values(node)) {
+        if (child && typeof child === "object") {
+            const found = findRecipeNode(child);
+            if (found) return found;
+        }
+    }
+    return null;
+}
+
+/**
+ * JSON documents found in the pasted text: the text itself if it is JSON,
+ * otherwise every ld+json script block
+ */
+function extractJsonLdDocuments(source: string): unknown[] {
+    const trimmed = source.trim();
+    const blocks =
+        trimmed.startsWith("{") || trimmed.startsWith("[")
+            ? [trimmed]
+            : Array.from(source.matchAll(JSON_LD_SCRIPT_PATTERN), (match) => match[1]);
+
+    const documents: unknown[] = [];
+    for (const block of blocks) {
+        try {
+            documents.push(JSON.parse(block.trim().replace(/^<!--|-->$/g, "")));
+        } catch {
+            // Sites occasionally ship broken JSON-LD next to a valid block; skip it
+        }
+    }
+    return documents;
+}
+
+/**
+ * First whole number in recipeYield ("4", 4, "Serves 4-6", ["4", "4 servings"])
+ */
+function parseServings(recipeYield: unknown): number | null {
+    const values = Array.isArray(recipeYield) ? recipeYield : [recipeYield];
+    for (const value of values) {
+        const match = String(value ?? "").match(/\d+/);
+        if (match) {
+            const servings = parseInt(match[0], 10);
+            if (servings >= 1) return Math.min(servings, MAX_RECIPE_SERVINGS);
+        }
+    }
+    return null;
+}
+
+function stepText(step: unknown): string {
+    if (typeof step === "string") return toPlainText(step);
+    if (step && typeof step === "object") {
+        const node = step as JsonLdNode;
+        return toPlainText(node.text) || toPlainText(node.name);
+    }
+    return "";
+}
+
+/**
+ * recipeInstructions (text, HowToStep list or HowToSection list) as markdown:
+ * numbered steps, with a heading per section
+ */
+function instructionsToMarkdown(instructions: unknown): string {
+    if (typeof instructions === "string") {
+        const lines = toPlainText(instructions)
+            .split("\n")
+            .map((line) => line.trim())
+            .filter(Boolean);
+        return lines.length > 1
+            ? lines.map((line, i) => `${i + 1}. ${line.replace(/^\d+[.)]\s*/, "")}`).join("\n")
+            : (lines[0] ?? "");
+    }
+    if (!Array.isArray(instructions)) {
+        return instructions && typeof instructions === "object"
+            ? instructionsToMarkdown([instructions])
+            : "";
+    }
+
+    const blocks: string[] = [];
+    let steps: string[] = [];
+    const flushSteps = () => {
+        if (steps.length > 0) {
+            blocks.push(steps.map((step, i) => `${i + 1}. ${step}`).join("\n"));
+            steps = [];
+        }
+    };
+
+    for (const item of instructions) {
+        const node = item && typeof item === "object" ? (item as JsonLdNode) : null;
+        if (node && node["@type"] === "HowToSection") {
+            flushSteps();
+            const heading = toPlainText(node.name);
+            const section = instructionsToMarkdown(node.itemListElement);
+            blocks.push(heading ? `### ${heading}\n\n${section}` : section);
+            continue;
+        }
+
+        const text = stepText(item);
+        if (text) steps.push(text.replace(/\n+/g, " "));
+    }
+    flushSteps();
+
+    return blocks.filter(Boolean).join("\n\n");
+}
+
+function toHttpUrl(value: unknown): string | null {
+    const url =
+        typeof value === "string"
+            ? value
+            : value && typeof value === "object"
+              ? (value as JsonLdNode)["@id"]
+              : null;
+    return typeof url === "string" && /^https?:\/\//i.test(url.trim()) ? url.trim() : null;
+}
+
+/**
+ * Canonical page URL from HTML (<link rel="canonical"> or og:url)
+ */
+function findPageUrl(source: string): string | null {
+    const canonical =
+        source.match(/<link[^>]*rel=["']canonical["'][^>]*href=["']([^"']+)["']/i) ??
+        source.match(/<link[^>]*href=["']([^"']+)["'][^>]*rel=["']canonical["']/i) ??
+        source.match(/<meta[^>]*property=["']og:url["'][^>]*content=["']([^"']+)["']/i);
+    return canonical ? toHttpUrl(decodeEntities(canonical[1])) : null;
+}
+
+/**
+ * Build a recipe and its ingredient rows from pasted HTML or JSON-LD.
+ * Ingredient strings are split into qty/unit/name/notes against the given units.
+ * Throws ValidationError when no schema.org Recipe is found.
+ */
+export function parseRecipeImport(source: string, units: UnitLookup[]): RecipeImport {
+    const node = findRecipeNode(extractJsonLdDocuments(source));
+    if (!node) {
+        throw new ValidationError("No schema.org Recipe found in the pasted text");
+    }
+
+    const name = toPlainText(node.name);
+    if (!name) {
+        throw new ValidationError("The recipe in the pasted text has no name");
+    }
+
+    const description = toPlainText(node.description);
+    const steps = instructionsToMarkdown(node.recipeInstructions);
+    const sourceUrl =
+        toHttpUrl(node.url) ?? toHttpUrl(node.mainEntityOfPage) ?? findPageUrl(source);
+
+    const rawIngredients = Array.isArray(node.recipeIngredient)
+        ? node.recipeIngredient
+        : typeof node.recipeIngredient === "string"
+          ? [node.recipeIngredient]
+          : [];
+
+    const ingredients = rawIngredients
+        .map((ingredient) => toPlainText(ingredient).replace(/\s+/g, " "))
+        .filter(Boolean)
+        .map((line) => parseIngredientLine(line, units));
+
+    return {
+        recipe: {
+            name: truncate(name, MAX_RECIPE_NAME_LENGTH),
+            description: description ? truncate(description, MAX_RECIPE_DESCRIPTION_LENGTH) : null,
+            steps: steps ? truncate(steps, MAX_RECIPE_STEPS_LENGTH) : null,
+            sourceUrl:
+                sourceUrl && sourceUrl.length <= MAX_RECIPE_SOURCE_URL_LENGTH ? sourceUrl : null,
+            servings: parseServings(node.recipeYield),
+        },
+        ingredients,
+    };
+}
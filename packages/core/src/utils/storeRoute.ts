@@ -0,0 +1,329 @@
+/**
+ * In-store walking routes shared by backend and mobile.
+ * A store map is a graph of points on a grid (entrance, checkout, aisle ends); a route starts at
+ * the entrance, walks every aisle holding items from one end to the other, and ends at checkout.
+ */
+
+import type { GridPoint, StoreMapLayout, StoreMapNode } from "../schemas/storeMap.js";
+
+/**
+ * Up to this many walkways the shortest route is found exactly (Held-Karp over walkways and
+ * walking directions); longer lists use nearest-first, which is fast and usually close
+ */
+const EXACT_ROUTE_MAX_WALKWAYS = 12;
+
+/**
+ * Stands in for the distance between points with no path between them, so a map with a
+ * missing connection still yields a route (the cut-off part just comes last)
+ */
+const UNREACHABLE_DISTANCE = 1_000_000;
+
+/**
+ * Base interface items must satisfy to be ordered along a route
+ */
+export interface RoutableItem {
+    aisleId: string | null;
+    sectionId: string | null;
+    sectionSortOrder?: number | null;
+}
+
+export interface RouteLeg<T> {
+    aisleId: string;
+    /**
+     * Walked from the aisle's end to its start, so its sections come in reverse sortOrder
+     */
+    reversed: boolean;
+    items: T[];
+}
+
+export interface ShoppingRoute<T> {
+    legs: RouteLeg<T>[];
+    /**
+     * Items without an aisle, or in an aisle that isn't on the map
+     */
+    unrouted: T[];
+    /**
+     * Grid distance walked from the entrance to the checkout
+     */
+    distance: number;
+}
+
+/**
+ * One walkable segment. The sides of a double-sided aisle share a walkway; reversed marks a
+ * side placed end to start relative to the walkway.
+ */
+interface Walkway {
+    start: GridPoint;
+    end: GridPoint;
+    aisles: Array<{ aisleId: string; reversed: boolean }>;
+}
+
+/**
+ * A walkway visit: which walkway, and whether it's walked end to start
+ */
+interface Visit {
+    walkway: number;
+    reversed: boolean;
+}
+
+const ENTRANCE_NODE = 0;
+const CHECKOUT_NODE = 1;
+
+// Nodes of walkway w: its start is 2 + 2w, its end 3 + 2w
+const walkwayNode = (walkway: number, atEnd: boolean) => 2 + 2 * walkway + (atEnd ? 1 : 0);
+
+const gridDistance = (a: GridPoint, b: GridPoint) => Math.abs(a.x - b.x) + Math.abs(a.y - b.y);
+
+const pointKey = (point: GridPoint) => `${point.x},${point.y}`;
+
+/**
+ * Group placed aisles into walkways by the segment they're on
+ */
+function toWalkways(layout: StoreMapLayout): {
+    walkways: Walkway[];
+    walkwayOf: Map<string, { walkway: number; reversed: boolean }>;
+} {
+    const walkways: Walkway[] = [];
+    const walkwayOf = new Map<string, { walkway: number; reversed: boolean }>();
+    const bySegment = new Map<string, number>();
+
+    for (const { aisleId, start, end } of layout.aisles) {
+        const forwardKey = `${pointKey(start)}|${pointKey(end)}`;
+        const backwardKey = `${pointKey(end)}|${pointKey(start)}`;
+
+        let walkway = bySegment.get(forwardKey);
+        let reversed = false;
+        if (walkway === undefined && bySegment.has(backwardKey)) {
+            walkway = bySegment.get(backwardKey)!;
+            reversed = true;
+        }
+        if (walkway === undefined) {
+            walkway = walkways.length;
+            walkways.push({ start, end, aisles: [] });
+            bySegment.set(forwardKey, walkway);
+        }
+
+        walkways[walkway].aisles.push({ aisleId, reversed });
+        walkwayOf.set(aisleId, { walkway, reversed });
+    }
+
+    return { walkways, walkwayOf };
+}
+
+/**
+ * Shortest walking distance between every pair of nodes (Floyd-Warshall). Edges are the
+ * connections plus each walkway itself; a map without connections is an open floor.
+ */
+function shortestDistances(
+    layout: StoreMapLayout,
+    walkways: Walkway[],
+    walkwayOf: Map<string, { walkway: number; reversed: boolean }>
+): number[][] {
+    const points = [layout.entrance, layout.checkout, ...walkways.flatMap((w) => [w.start, w.end])];
+    const openFloor = layout.connections.length === 0;
+    const distances = points.map((from, i) =>
+        points.map((to, j) => (i === j ? 0 : openFloor ? gridDistance(from, to) : Infinity))
+    );
+
+    const nodeIndex = (node: StoreMapNode): number | null => {
+        if (node.type === "entrance") return ENTRANCE_NODE;
+        if (node.type === "checkout") return CHECKOUT_NODE;
+        const placement = walkwayOf.get(node.aisleId);
+        if (!placement) return null;
+        return walkwayNode(placement.walkway, (node.end === "end") !== placement.reversed);
+    };
+
+    const connect = (i: number, j: number) => {
+        const distance = gridDistance(points[i], points[j]);
+        if (distance < distances[i][j]) {
+            distances[i][j] = distance;
+            distances[j][i] = distance;
+        }
+    };
+
+    walkways.forEach((_, w) => connect(walkwayNode(w, false), walkwayNode(w, true)));
+    for (const { from, to } of layout.connections) {
+        const i = nodeIndex(from);
+        const j = nodeIndex(to);
+        if (i !== null && j !== null) {
+            connect(i, j);
+        }
+    }
+
+    for (let via = 0; via < points.length; via++) {
+        for (let i = 0; i < points.length; i++) {
+            for (let j = 0; j < points.length; j++) {
+                const distance = distances[i][via] + distances[via][j];
+                if (distance < distances[i][j]) {
+                    distances[i][j] = distance;
+                }
+            }
+        }
+    }
+
+    return distances.map((row) =>
+        row.map((distance) => (Number.isFinite(distance) ? distance : UNREACHABLE_DISTANCE))
+    );
+}
+
+/**
+ * Order walkway visits into the shortest walk from the entrance to the checkout
+ */
+function orderVisits(
+    targets: number[],
+    walkways: Walkway[],
+    distances: number[][]
+): { visits: Visit[]; distance: number } {
+    const length = (walkway: number) =>
+        gridDistance(walkways[walkway].start, walkways[walkway].end);
+    const entryNode = (visit: Visit) => walkwayNode(visit.walkway, visit.reversed);
+    const exitNode = (visit: Visit) => walkwayNode(visit.walkway, !visit.reversed);
+
+    // State s visits targets[s >> 1], reversed when s is odd
+    const toVisit = (state: number): Visit => ({
+        walkway: targets[state >> 1],
+        reversed: (state & 1) === 1,
+    });
+    const stepCost = (fromNode: number, state: number) => {
+        const visit = toVisit(state);
+        return distances[fromNode][entryNode(visit)] + length(visit.walkway);
+    };
+
+    const count = targets.length;
+    const stateCount = count * 2;
+
+    if (count === 0) {
+        return { visits: [], distance: distances[ENTRANCE_NODE][CHECKOUT_NODE] };
+    }
+
+    if (count > EXACT_ROUTE_MAX_WALKWAYS) {
+        const visits: Visit[] = [];
+        const remaining = new Set(targets.keys());
+        let node = ENTRANCE_NODE;
+        let distance = 0;
+
+        while (remaining.size > 0) {
+            let best = { state: -1, cost: Infinity };
+            for (const target of remaining) {
+                for (const state of [target * 2, target * 2 + 1]) {
+                    const cost = stepCost(node, state);
+                    if (cost < best.cost) {
+                        best = { state, cost };
+                    }
+                }
+            }
+
+            const visit = toVisit(best.state);
+            visits.push(visit);
+            remaining.delete(best.state >> 1);
+            distance += best.cost;
+            node = exitNode(visit);
+        }
+
+        return { visits, distance: distance + distances[node][CHECKOUT_NODE] };
+    }
+
+    // costs[mask][state]: shortest walk that has visited the targets in mask, ending with state
+    const fullMask = (1 << count) - 1;
+    const costs = Array.from({ length: fullMask + 1 }, () =>
+        new Array<number>(stateCount).fill(Infinity)
+    );
+    const previous = Array.from({ length: fullMask + 1 }, () =>
+        new Array<number>(stateCount).fill(-1)
+    );
+
+    for (let state = 0; state < stateCount; state++) {
+        costs[1 << (state >> 1)][state] = stepCost(ENTRANCE_NODE, state);
+    }
+
+    for (let mask = 1; mask <= fullMask; mask++) {
+        for (let state = 0; state < stateCount; state++) {
+            const cost = costs[mask][state];
+            if (cost === Infinity) continue;
+
+            const node = exitNode(toVisit(state));
+            for (let next = 0; next < stateCount; next++) {
+                const nextBit = 1 << (next >> 1);
+                if (mask & nextBit) continue;
+
+                const nextCost = cost + stepCost(node, next);
+                if (nextCost < costs[mask | nextBit][next]) {
+                    costs[mask | nextBit][next] = nextCost;
+                    previous[mask | nextBit][next] = state;
+                }
+            }
+        }
+    }
+
+    let last = 0;
+    let distance = Infinity;
+    for (let state = 0; state < stateCount; state++) {
+        const total = costs[fullMask][state] + distances[exitNode(toVisit(state))][CHECKOUT_NODE];
+        if (total < distance) {
+            distance = total;
+            last = state;
+        }
+    }
+
+    const visits: Visit[] = [];
+    let mask = fullMask;
+    let state = last;
+    while (state !== -1) {
+        visits.unshift(toVisit(state));
+        const before = previous[mask][state];
+        mask &= ~(1 << (state >> 1));
+        state = before;
+    }
+
+    return { visits, distance };
+}
+
+/**
+ * Order items into the shortest walk through the store: from the entrance, through each
+ * aisle that holds items (end to end, sections in walking order), to the checkout.
+ * Pass the items still to pick (unchecked). Items the map can't place are returned as unrouted.
+ */
+export function planShoppingRoute<T extends RoutableItem>(
+    layout: StoreMapLayout,
+    items: T[]
+): ShoppingRoute<T> {
+    const { walkways, walkwayOf } = toWalkways(layout);
+
+    const itemsByAisle = new Map<string, T[]>();
+    const unrouted: T[] = [];
+    for (const item of items) {
+        if (item.aisleId === null || !walkwayOf.has(item.aisleId)) {
+            unrouted.push(item);
+            continue;
+        }
+        const aisleItems = itemsByAisle.get(item.aisleId) ?? [];
+        aisleItems.push(item);
+        itemsByAisle.set(item.aisleId, aisleItems);
+    }
+
+    const targets = [...new Set([...itemsByAisle.keys()].map((id) => walkwayOf.get(id)!.walkway))];
+    const distances = shortestDistances(layout, walkways, walkwayOf);
+    const { visits, distance } = orderVisits(targets, walkways, distances);
+
+    // Items without a section come first in their aisle; the rest follow the walking direction
+    const sectionPosition = (item: T) =>
+        item.sectionId === null ? -Infinity : (item.sectionSortOrder ?? 0);
+
+    const legs = visits.flatMap((visit) =>
+        walkways[visit.walkway].aisles
+            .filter(({ aisleId }) => itemsByAisle.has(aisleId))
+            .map(({ aisleId, reversed }) => {
+                const walkedReversed = reversed !== visit.reversed;
+                const aisleItems = [...itemsByAisle.get(aisleId)!].sort((a, b) => {
+                    const [first, second] = [sectionPosition(a), sectionPosition(b)];
+                    if (first === second) return 0;
+                    if (first === -Infinity) return -1;
+                    if (second === -Infinity) return 1;
+                    return walkedReversed ? second - first : first - second;
+                });
+                return { aisleId, reversed: walkedReversed, items: aisleItems };
+            })
+    );
+
+    return { legs, unrouted, distance };
+}
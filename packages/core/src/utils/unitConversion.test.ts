@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { canConvert, convert, roundQuantity, sumQuantities } from "./unitConversion.js";
+
+describe("canConvert", () => {
+    it("allows units of the same category across measurement systems", () => {
+        expect(canConvert("cup", "milliliter")).toBe(true);
+        expect(canConvert("pound", "gram")).toBe(true);
+    });
+
+    it("refuses units of different categories", () => {
+        expect(canConvert("cup", "gram")).toBe(false);
+        expect(canConvert("gram", "can")).toBe(false);
+    });
+
+    it("allows identical units, including ones without a conversion", () => {
+        expect(canConvert("can", "can")).toBe(true);
+        expect(canConvert(null, null)).toBe(true);
+    });
+});
+
+describe("convert", () => {
+    it("converts between metric and US units", () => {
+        expect(roundQuantity(convert(1, "pound", "gram"))).toBe(453.59);
+        expect(roundQuantity(convert(1, "cup", "milliliter"))).toBe(236.59);
+        expect(roundQuantity(convert(2, "liter", "gallon"))).toBe(0.53);
+        expect(convert(3, "teaspoon", "tablespoon")).toBeCloseTo(1);
+    });
+
+    it("leaves a quantity in its own unit unchanged", () => {
+        expect(convert(3, "can", "can")).toBe(3);
+    });
+
+    it("throws for incompatible units", () => {
+        expect(() => convert(1, "cup", "gram")).toThrow("Cannot convert from cup to gram");
+        expect(() => convert(1, "can", "gram")).toThrow();
+    });
+});
+
+describe("sumQuantities", () => {
+    it("sums mixed units of the same category into the first one", () => {
+        expect(
+            sumQuantities([
+                { qty: 500, unitId: "gram" },
+                { qty: 1, unitId: "pound" },
+            ])
+        ).toEqual([{ qty: 953.59, unitId: "gram" }]);
+    });
+
+    it("keeps incompatible units apart", () => {
+        expect(
+            sumQuantities([
+                { qty: 1, unitId: "cup" },
+                { qty: 200, unitId: "gram" },
+                { qty: 2, unitId: "cup" },
+            ])
+        ).toEqual([
+            { qty: 3, unitId: "cup" },
+            { qty: 200, unitId: "gram" },
+        ]);
+    });
+
+    it("sums units without a conversion only with themselves", () => {
+        expect(
+            sumQuantities([
+                { qty: 1, unitId: "can" },
+                { qty: null, unitId: null },
+                { qty: 2, unitId: "can" },
+            ])
+        ).toEqual([
+            { qty: 3, unitId: "can" },
+            { qty: null, unitId: null },
+        ]);
+    });
+});
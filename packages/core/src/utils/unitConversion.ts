@@ -0,0 +1,96 @@
+/**
+ * Unit conversion between QuantityUnit rows of the same category.
+ *
+ * Unit ids match the seeded QuantityUnit rows (backend db/init.ts), not QUANTITY_UNITS.
+ * Only weight and volume units convert; count and package units (can, jar, dozen, ...)
+ * only ever match themselves.
+ */
+
+export type ConvertibleUnitCategory = "weight" | "volume";
+
+interface UnitConversion {
+    category: ConvertibleUnitCategory;
+    system: "metric" | "us";
+    /** Size of one unit in the category base unit (grams for weight, milliliters for volume) */
+    toBase: number;
+}
+
+export const UNIT_CONVERSIONS: Readonly<Record<string, UnitConversion>> = {
+    milligram: { category: "weight", system: "metric", toBase: 0.001 },
+    gram: { category: "weight", system: "metric", toBase: 1 },
+    kilogram: { category: "weight", system: "metric", toBase: 1000 },
+    ounce: { category: "weight", system: "us", toBase: 28.349523125 },
+    pound: { category: "weight", system: "us", toBase: 453.59237 },
+    milliliter: { category: "volume", system: "metric", toBase: 1 },
+    liter: { category: "volume", system: "metric", toBase: 1000 },
+    teaspoon: { category: "volume", system: "us", toBase: 4.92892159375 },
+    tablespoon: { category: "volume", system: "us", toBase: 14.78676478125 },
+    "fluid-ounce": { category: "volume", system: "us", toBase: 29.5735295625 },
+    cup: { category: "volume", system: "us", toBase: 236.5882365 },
+    gallon: { category: "volume", system: "us", toBase: 3785.411784 },
+};
+
+export interface Quantity {
+    qty: number | null;
+    unitId: string | null;
+}
+
+/**
+ * Round to 2 decimals, absorbing floating point noise (0.9999999 → 1)
+ */
+export function roundQuantity(qty: number): number {
+    return Math.round(qty * 100) / 100;
+}
+
+/**
+ * Whether an amount in one unit can be expressed in the other.
+ * Identical units (including "no unit") always match; otherwise both units must be
+ * convertible and share a category (500 g and 1 lb do, 2 count and 1 lb do not).
+ */
+export function canConvert(fromUnitId: string | null, toUnitId: string | null): boolean {
+    if (fromUnitId === toUnitId) return true;
+    if (!fromUnitId || !toUnitId) return false;
+
+    const from = UNIT_CONVERSIONS[fromUnitId];
+    const to = UNIT_CONVERSIONS[toUnitId];
+    return !!from && !!to && from.category === to.category;
+}
+
+/**
+ * Convert an amount between units of the same category (unrounded).
+ * Throws when the units are incompatible; check canConvert first.
+ */
+export function convert(qty: number, fromUnitId: string | null, toUnitId: string | null): number {
+    if (fromUnitId === toUnitId) return qty;
+    if (!canConvert(fromUnitId, toUnitId)) {
+        throw new Error(
+            `Cannot convert from ${fromUnitId ?? "no unit"} to ${toUnitId ?? "no unit"}`
+        );
+    }
+
+    return (qty * UNIT_CONVERSIONS[fromUnitId!].toBase) / UNIT_CONVERSIONS[toUnitId!].toBase;
+}
+
+/**
+ * Add up quantities, merging every group of mutually convertible units into one total.
+ * Each total is expressed in the unit of the first quantity of its group, so merging into an
+ * existing shopping list row keeps that row's unit. Incompatible quantities stay separate
+ * (order of first appearance). A null qty means "unspecified" and does not reset a total.
+ */
+export function sumQuantities(quantities: Quantity[]): Quantity[] {
+    const totals: Quantity[] = [];
+
+    for (const { qty, unitId } of quantities) {
+        const total = totals.find((t) => canConvert(unitId, t.unitId));
+        if (!total) {
+            totals.push({ qty: qty == null ? null : roundQuantity(qty), unitId });
+            continue;
+        }
+        if (qty == null) continue;
+
+        const converted = convert(qty, unitId, total.unitId);
+        total.qty = roundQuantity((total.qty ?? 0) + converted);
+    }
+
+    return totals;
+}